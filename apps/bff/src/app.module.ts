@@ -10,6 +10,7 @@ import { LoggerModule } from './shared/logger/logger.module';
 import { AuditModule } from './shared/audit/audit.module';
 import { StorageModule } from './shared/storage/storage.module';
 import { SharedModule } from './shared/shared.module';
+import { QueueModule } from './shared/queue/queue.module';
 import { TenantModule } from './shared/tenant/tenant.module';
 
 // Guards, filters, and interceptors
@@ -46,6 +47,19 @@ import { ModuleSubscriptionsModule } from './modules/module-subscriptions/module
 import { ConciergeModule } from './modules/concierge/concierge.module';
 import { VendorsModule } from './modules/vendors/vendors.module';
 import { RoomTypesModule } from './modules/room-types/room-types.module';
+import { RatePlansModule } from './modules/rate-plans/rate-plans.module';
+import { ReservationGroupsModule } from './modules/reservation-groups/reservation-groups.module';
+import { FoliosModule } from './modules/folios/folios.module';
+import { PaymentsModule } from './modules/payments/payments.module';
+import { HousekeepingModule } from './modules/housekeeping/housekeeping.module';
+import { CalendarFeedsModule } from './modules/calendar-feeds/calendar-feeds.module';
+import { PreArrivalModule } from './modules/pre-arrival/pre-arrival.module';
+import { CancellationPoliciesModule } from './modules/cancellation-policies/cancellation-policies.module';
+import { ReportsModule } from './modules/reports/reports.module';
+import { UnitBlocksModule } from './modules/unit-blocks/unit-blocks.module';
+import { MaintenanceSchedulesModule } from './modules/maintenance-schedules/maintenance-schedules.module';
+import { ApprovalsModule } from './modules/approvals/approvals.module';
+import { ShiftsModule } from './modules/shifts/shifts.module';
 
 @Module({
   imports: [
@@ -79,6 +93,7 @@ import { RoomTypesModule } from './modules/room-types/room-types.module';
     LoggerModule,
     AuditModule,
     StorageModule,
+    QueueModule,
     SharedModule,
     TenantModule,
 
@@ -110,6 +125,19 @@ import { RoomTypesModule } from './modules/room-types/room-types.module';
     ConciergeModule,
     VendorsModule,
     RoomTypesModule,
+    RatePlansModule,
+    ReservationGroupsModule,
+    FoliosModule,
+    PaymentsModule,
+    HousekeepingModule,
+    CalendarFeedsModule,
+    PreArrivalModule,
+    CancellationPoliciesModule,
+    ReportsModule,
+    UnitBlocksModule,
+    MaintenanceSchedulesModule,
+    ApprovalsModule,
+    ShiftsModule,
   ],
   controllers: [],
   providers: [
@@ -0,0 +1,55 @@
+import { Controller, Get, Post, Body, Patch, Param, Delete, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { ApprovalSubjectType, Role, User } from '@prisma/client';
+import { ApprovalsService } from './approvals.service';
+import { CreateApprovalChainDto, UpdateApprovalChainDto } from './dto';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../shared/guards/roles.guard';
+import { Roles } from '../../shared/decorators/roles.decorator';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+
+@ApiTags('Approvals')
+@Controller('approval-chains')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ApprovalChainsController {
+  constructor(private readonly approvalsService: ApprovalsService) {}
+
+  @Get()
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER, Role.DEPARTMENT_ADMIN)
+  @ApiOperation({ summary: 'Get approval chains' })
+  @ApiQuery({ name: 'subjectType', required: false, enum: ApprovalSubjectType })
+  async findAll(@Query('subjectType') subjectType: ApprovalSubjectType | undefined, @CurrentUser() currentUser: User) {
+    const chains = await this.approvalsService.findChains(currentUser, subjectType);
+    return CustomApiResponse.success(chains, 'Approval chains retrieved successfully');
+  }
+
+  @Post()
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER)
+  @ApiOperation({ summary: 'Create approval chain' })
+  async create(@Body() createDto: CreateApprovalChainDto, @CurrentUser() currentUser: User) {
+    const chain = await this.approvalsService.createChain(createDto, currentUser);
+    return CustomApiResponse.success(chain, 'Approval chain created successfully');
+  }
+
+  @Patch(':id')
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER)
+  @ApiOperation({ summary: 'Update approval chain; steps, when given, replace the existing ones' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateApprovalChainDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const chain = await this.approvalsService.updateChain(id, updateDto, currentUser);
+    return CustomApiResponse.success(chain, 'Approval chain updated successfully');
+  }
+
+  @Delete(':id')
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER)
+  @ApiOperation({ summary: 'Delete approval chain' })
+  async remove(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    await this.approvalsService.removeChain(id, currentUser);
+    return CustomApiResponse.success(null, 'Approval chain deleted successfully');
+  }
+}
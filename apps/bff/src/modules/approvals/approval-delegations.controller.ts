@@ -0,0 +1,37 @@
+import { Controller, Get, Post, Body, Param, Delete, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { User } from '@prisma/client';
+import { ApprovalsService } from './approvals.service';
+import { CreateApprovalDelegationDto } from './dto';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+
+@ApiTags('Approvals')
+@Controller('approval-delegations')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class ApprovalDelegationsController {
+  constructor(private readonly approvalsService: ApprovalsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get current and upcoming delegations from or to me' })
+  async findAll(@CurrentUser() currentUser: User) {
+    const delegations = await this.approvalsService.findDelegations(currentUser);
+    return CustomApiResponse.success(delegations, 'Delegations retrieved successfully');
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Hand my approvals to someone else while I am away' })
+  async create(@Body() createDto: CreateApprovalDelegationDto, @CurrentUser() currentUser: User) {
+    const delegation = await this.approvalsService.createDelegation(createDto, currentUser);
+    return CustomApiResponse.success(delegation, 'Delegation created successfully');
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Remove delegation' })
+  async remove(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    await this.approvalsService.removeDelegation(id, currentUser);
+    return CustomApiResponse.success(null, 'Delegation deleted successfully');
+  }
+}
@@ -0,0 +1,57 @@
+import { Controller, Get, Post, Body, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { ApprovalStatus, User } from '@prisma/client';
+import { ApprovalsService } from './approvals.service';
+import { ApprovalDecisionDto } from './dto';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+
+@ApiTags('Approvals')
+@Controller('approvals')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class ApprovalsController {
+  constructor(private readonly approvalsService: ApprovalsService) {}
+
+  @Get('inbox')
+  @ApiOperation({ summary: 'Get requests waiting on my approval' })
+  async findInbox(@CurrentUser() currentUser: User) {
+    const requests = await this.approvalsService.findInbox(currentUser);
+    return CustomApiResponse.success(requests, 'Approval inbox retrieved successfully');
+  }
+
+  @Get('mine')
+  @ApiOperation({ summary: 'Get my requests and where they are in their chains' })
+  @ApiQuery({ name: 'status', required: false, enum: ApprovalStatus })
+  async findMine(@Query('status') status: ApprovalStatus | undefined, @CurrentUser() currentUser: User) {
+    const requests = await this.approvalsService.findMine(currentUser, status);
+    return CustomApiResponse.success(requests, 'Approval requests retrieved successfully');
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get approval request by ID' })
+  async findOne(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    const request = await this.approvalsService.findOne(id, currentUser);
+    return CustomApiResponse.success(request, 'Approval request retrieved successfully');
+  }
+
+  @Post(':id/approve')
+  @ApiOperation({ summary: 'Approve the step waiting on me' })
+  async approve(@Param('id') id: string, @Body() decisionDto: ApprovalDecisionDto, @CurrentUser() currentUser: User) {
+    const decision = await this.approvalsService.approve(id, currentUser, decisionDto.comment);
+    const message = !decision.completed
+      ? 'Approval recorded; the request moved to the next approver'
+      : decision.warnings.length > 0
+        ? `Request approved with warnings: ${decision.warnings.join('; ')}`
+        : 'Request approved successfully';
+    return CustomApiResponse.success(decision, message);
+  }
+
+  @Post(':id/reject')
+  @ApiOperation({ summary: 'Reject the request at the step waiting on me' })
+  async reject(@Param('id') id: string, @Body() decisionDto: ApprovalDecisionDto, @CurrentUser() currentUser: User) {
+    const decision = await this.approvalsService.reject(id, currentUser, decisionDto.comment);
+    return CustomApiResponse.success(decision, 'Request rejected successfully');
+  }
+}
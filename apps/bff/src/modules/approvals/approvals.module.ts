@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { ApprovalsService } from './approvals.service';
+import { ApprovalsController } from './approvals.controller';
+import { ApprovalChainsController } from './approval-chains.controller';
+import { ApprovalDelegationsController } from './approval-delegations.controller';
+
+@Module({
+  imports: [NotificationsModule],
+  providers: [ApprovalsService],
+  controllers: [ApprovalsController, ApprovalChainsController, ApprovalDelegationsController],
+  exports: [ApprovalsService],
+})
+export class ApprovalsModule {}
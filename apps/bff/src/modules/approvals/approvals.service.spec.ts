@@ -0,0 +1,155 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApprovalStatus, ApprovalStepStatus, ApprovalSubjectType, ApproverType, Role } from '@prisma/client';
+import { ApprovalsService } from './approvals.service';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('ApprovalsService', () => {
+  let service: ApprovalsService;
+  let prismaService: any;
+
+  const requester = { id: 'requester1', propertyId: 'prop1', departmentId: 'dept1' };
+  const manager = { id: 'manager1', propertyId: 'prop1', role: Role.DEPARTMENT_ADMIN } as any;
+
+  const now = new Date('2025-08-10T12:00:00Z');
+
+  const delegation = (delegatorId: string, delegateId: string) => ({
+    delegatorId,
+    delegateId,
+    startDate: new Date('2025-08-01T00:00:00Z'),
+    endDate: new Date('2025-08-31T00:00:00Z'),
+  });
+
+  const chainStep = (position: number, approverUserId: string) => ({
+    position,
+    name: `Step ${position}`,
+    approverType: ApproverType.USER,
+    approverUserId,
+    reminderHours: 24,
+    escalateAfterHours: null,
+    escalationRole: Role.PROPERTY_MANAGER,
+  });
+
+  const person = { firstName: 'Ana', lastName: 'Silva' };
+
+  beforeEach(async () => {
+    jest.useFakeTimers().setSystemTime(now);
+
+    const mockPrismaService: any = {
+      approvalChain: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: 'chain1', departmentId: null, minAmount: null, steps: [chainStep(1, 'manager1'), chainStep(2, 'hr1')] },
+        ]),
+      },
+      approvalDelegation: { findMany: jest.fn().mockResolvedValue([]) },
+      approvalRequest: {
+        create: jest.fn().mockImplementation(({ data }) =>
+          Promise.resolve({ id: 'request1', ...data, requester: person, steps: data.steps.create }),
+        ),
+        findFirst: jest.fn(),
+        update: jest.fn(),
+      },
+      approvalStep: { update: jest.fn() },
+      user: {
+        findFirst: jest.fn().mockImplementation(({ where }) =>
+          Promise.resolve(where.role ? { id: 'gm1' } : { id: where.id }),
+        ),
+      },
+    };
+    mockPrismaService.$transaction = jest.fn((arg) =>
+      Array.isArray(arg) ? Promise.all(arg) : arg(mockPrismaService),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApprovalsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: AuditService,
+          useValue: { logUpdate: jest.fn() },
+        },
+        {
+          provide: NotificationsService,
+          useValue: { createNotification: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ApprovalsService>(ApprovalsService);
+    prismaService = module.get(PrismaService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  const submit = () =>
+    service.submit({
+      subjectType: ApprovalSubjectType.VACATION,
+      subjectId: 'vacation1',
+      requester,
+      amount: 3,
+      summary: 'Annual leave',
+    });
+
+  describe('submit', () => {
+    it("hands the first step to the approver's delegate", async () => {
+      prismaService.approvalDelegation.findMany.mockResolvedValue([delegation('manager1', 'deputy1')]);
+
+      const request = await submit();
+
+      expect(request!.steps[0]).toEqual(
+        expect.objectContaining({ approverId: 'deputy1', originalApproverId: 'manager1' }),
+      );
+    });
+
+    it('never delegates a request to its own requester', async () => {
+      prismaService.approvalDelegation.findMany.mockResolvedValue([delegation('manager1', 'requester1')]);
+
+      const request = await submit();
+
+      expect(prismaService.user.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ role: Role.PROPERTY_MANAGER, id: { not: 'requester1' } }),
+        }),
+      );
+      expect(request!.steps[0]).toEqual(expect.objectContaining({ approverId: 'gm1', originalApproverId: 'manager1' }));
+    });
+  });
+
+  describe('approve', () => {
+    it('skips a delegation to the requester when handing on to the next step', async () => {
+      prismaService.approvalRequest.findFirst.mockResolvedValue({
+        id: 'request1',
+        propertyId: 'prop1',
+        requesterId: 'requester1',
+        status: ApprovalStatus.PENDING,
+        steps: [
+          { id: 'step1', position: 1, status: ApprovalStepStatus.PENDING, approverId: 'manager1' },
+          {
+            id: 'step2',
+            position: 2,
+            status: ApprovalStepStatus.WAITING,
+            approverId: 'hr1',
+            escalationRole: Role.PROPERTY_MANAGER,
+          },
+        ],
+      });
+      prismaService.approvalDelegation.findMany.mockResolvedValue([delegation('hr1', 'requester1')]);
+      jest.spyOn(service as any, 'findDecided').mockResolvedValue({ id: 'request1', steps: [{ id: 'step2' }] });
+      jest.spyOn(service as any, 'notifyApprover').mockResolvedValue(undefined);
+
+      await service.approve('request1', manager);
+
+      expect(prismaService.approvalStep.update).toHaveBeenCalledWith({
+        where: { id: 'step2' },
+        data: expect.objectContaining({ approverId: 'gm1', originalApproverId: 'hr1' }),
+      });
+    });
+  });
+});
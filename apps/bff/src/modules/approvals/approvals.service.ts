@@ -0,0 +1,665 @@
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import {
+  ApprovalChain,
+  ApprovalChainStep,
+  ApprovalDelegation,
+  ApprovalRequest,
+  ApprovalStatus,
+  ApprovalStep,
+  ApprovalStepStatus,
+  ApprovalSubjectType,
+  ApproverType,
+  Prisma,
+  Role,
+  User,
+} from '@prisma/client';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { CreateApprovalChainDto, CreateApprovalDelegationDto, UpdateApprovalChainDto, ApprovalChainStepDto } from './dto';
+import { ApprovalDecision, ApprovalHandler, ApprovalRequestWithSteps, ApprovalSubmission } from './interfaces';
+import { activeDelegate, selectChain } from '@staffnbdt/shared';
+
+const personSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+} satisfies Prisma.UserSelect;
+
+const requestInclude = {
+  requester: { select: personSelect },
+  steps: {
+    include: { approver: { select: personSelect } },
+    orderBy: { position: 'asc' },
+  },
+} satisfies Prisma.ApprovalRequestInclude;
+
+// Roles that can see every approval request at their property
+const OVERSEER_ROLES: Role[] = [
+  Role.PLATFORM_ADMIN,
+  Role.ORGANIZATION_OWNER,
+  Role.ORGANIZATION_ADMIN,
+  Role.PROPERTY_MANAGER,
+];
+
+type ApprovalChainWithSteps = ApprovalChain & { steps: ApprovalChainStep[] };
+
+@Injectable()
+export class ApprovalsService {
+  private readonly handlers = new Map<ApprovalSubjectType, ApprovalHandler>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  /** Called by the module that owns a subject type, once at start-up */
+  registerHandler(subjectType: ApprovalSubjectType, handler: ApprovalHandler): void {
+    this.handlers.set(subjectType, handler);
+  }
+
+  async findChains(currentUser: User, subjectType?: ApprovalSubjectType): Promise<ApprovalChainWithSteps[]> {
+    return this.prisma.approvalChain.findMany({
+      where: {
+        propertyId: currentUser.propertyId!,
+        ...(subjectType && { subjectType }),
+      },
+      include: {
+        steps: { orderBy: { position: 'asc' } },
+        department: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: [{ subjectType: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async createChain(createDto: CreateApprovalChainDto, currentUser: User): Promise<ApprovalChainWithSteps> {
+    const { steps, ...chainData } = createDto;
+    // A chain for a subject nobody handles could never complete
+    this.handlerFor(chainData.subjectType);
+    if (chainData.departmentId) {
+      await this.findDepartment(chainData.departmentId, currentUser);
+    }
+    await this.assertValidSteps(steps, currentUser);
+
+    const chain = await this.prisma.approvalChain.create({
+      data: {
+        ...chainData,
+        propertyId: currentUser.propertyId!,
+        steps: { create: this.stepData(steps) },
+      },
+      include: { steps: { orderBy: { position: 'asc' } } },
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'ApprovalChain', chain.id, chain);
+
+    return chain;
+  }
+
+  /**
+   * Updates a chain, replacing its steps when given. Requests already in
+   * progress keep the steps they were submitted with.
+   */
+  async updateChain(id: string, updateDto: UpdateApprovalChainDto, currentUser: User): Promise<ApprovalChainWithSteps> {
+    const chain = await this.findChain(id, currentUser);
+    const { steps, ...chainData } = updateDto;
+    if (chainData.departmentId) {
+      await this.findDepartment(chainData.departmentId, currentUser);
+    }
+    if (steps) {
+      await this.assertValidSteps(steps, currentUser);
+    }
+
+    const updatedChain = await this.prisma.approvalChain.update({
+      where: { id },
+      data: {
+        ...chainData,
+        ...(steps && { steps: { deleteMany: {}, create: this.stepData(steps) } }),
+      },
+      include: { steps: { orderBy: { position: 'asc' } } },
+    });
+
+    await this.auditService.logUpdate(currentUser.id, 'ApprovalChain', id, chain, updatedChain);
+
+    return updatedChain;
+  }
+
+  async removeChain(id: string, currentUser: User): Promise<void> {
+    const chain = await this.findChain(id, currentUser);
+
+    await this.prisma.approvalChain.delete({ where: { id } });
+
+    await this.auditService.logDelete(currentUser.id, 'ApprovalChain', id, chain);
+  }
+
+  async findDelegations(currentUser: User): Promise<ApprovalDelegation[]> {
+    return this.prisma.approvalDelegation.findMany({
+      where: {
+        OR: [{ delegatorId: currentUser.id }, { delegateId: currentUser.id }],
+        endDate: { gte: new Date() },
+      },
+      include: {
+        delegator: { select: personSelect },
+        delegate: { select: personSelect },
+      },
+      orderBy: { startDate: 'asc' },
+    });
+  }
+
+  /**
+   * Hands the current user's approvals to someone else for a period. Steps
+   * already waiting on them move straight away when the period has started.
+   */
+  async createDelegation(createDto: CreateApprovalDelegationDto, currentUser: User): Promise<ApprovalDelegation> {
+    const startDate = new Date(createDto.startDate);
+    const endDate = new Date(createDto.endDate);
+    if (endDate < startDate) {
+      throw new BadRequestException('The delegation cannot end before it starts');
+    }
+    if (createDto.delegateId === currentUser.id) {
+      throw new BadRequestException('Cannot delegate approvals to yourself');
+    }
+
+    const delegate = await this.prisma.user.findFirst({
+      where: { id: createDto.delegateId, propertyId: currentUser.propertyId!, deletedAt: null },
+    });
+    if (!delegate) {
+      throw new NotFoundException('Delegate not found');
+    }
+
+    const delegation = await this.prisma.approvalDelegation.create({
+      data: {
+        delegatorId: currentUser.id,
+        delegateId: delegate.id,
+        startDate,
+        endDate,
+        reason: createDto.reason,
+      },
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'ApprovalDelegation', delegation.id, delegation);
+
+    const now = new Date();
+    if (startDate <= now && now <= endDate) {
+      await this.handOverPendingSteps(currentUser.id, now);
+    }
+
+    return delegation;
+  }
+
+  async removeDelegation(id: string, currentUser: User): Promise<void> {
+    const delegation = await this.prisma.approvalDelegation.findUnique({ where: { id } });
+    if (!delegation) {
+      throw new NotFoundException('Delegation not found');
+    }
+    if (delegation.delegatorId !== currentUser.id && !OVERSEER_ROLES.includes(currentUser.role)) {
+      throw new ForbiddenException('Can only remove your own delegations');
+    }
+
+    await this.prisma.approvalDelegation.delete({ where: { id } });
+
+    await this.auditService.logDelete(currentUser.id, 'ApprovalDelegation', id, delegation);
+  }
+
+  /**
+   * Starts the chain that applies to a subject, resolving every approver up
+   * front. Returns null when no chain applies and the owner's own approval
+   * rules stay in force.
+   */
+  async submit(submission: ApprovalSubmission): Promise<ApprovalRequestWithSteps | null> {
+    const { requester } = submission;
+    if (!requester.propertyId) {
+      return null;
+    }
+
+    const chains = await this.prisma.approvalChain.findMany({
+      where: {
+        propertyId: requester.propertyId,
+        subjectType: submission.subjectType,
+        isActive: true,
+        OR: [{ departmentId: null }, ...(requester.departmentId ? [{ departmentId: requester.departmentId }] : [])],
+      },
+      include: { steps: { orderBy: { position: 'asc' } } },
+    });
+    const chain = selectChain(
+      chains.map((candidate) => ({
+        ...candidate,
+        minAmount: candidate.minAmount === null ? null : Number(candidate.minAmount),
+      })),
+      { departmentId: requester.departmentId, amount: submission.amount ?? null },
+    );
+    if (!chain || chain.steps.length === 0) {
+      return null;
+    }
+
+    const approverIds: string[] = [];
+    for (const step of chain.steps) {
+      approverIds.push(await this.resolveApprover(step, requester));
+    }
+
+    const now = new Date();
+    const firstApproverId = await this.delegateFor(
+      approverIds[0],
+      { requesterId: requester.id, propertyId: requester.propertyId! },
+      chain.steps[0].escalationRole,
+      now,
+    );
+
+    const request = await this.prisma.approvalRequest.create({
+      data: {
+        propertyId: requester.propertyId,
+        subjectType: submission.subjectType,
+        subjectId: submission.subjectId,
+        requesterId: requester.id,
+        chainId: chain.id,
+        summary: submission.summary,
+        amount: submission.amount,
+        steps: {
+          create: chain.steps.map((step, index) => ({
+            position: index + 1,
+            name: step.name,
+            approverId: index === 0 ? firstApproverId : approverIds[index],
+            originalApproverId: index === 0 && firstApproverId !== approverIds[0] ? approverIds[0] : null,
+            status: index === 0 ? ApprovalStepStatus.PENDING : ApprovalStepStatus.WAITING,
+            reminderHours: step.reminderHours,
+            escalateAfterHours: step.escalateAfterHours,
+            escalationRole: step.escalationRole,
+            activatedAt: index === 0 ? now : null,
+          })),
+        },
+      },
+      include: requestInclude,
+    });
+
+    await this.notifyApprover(request, request.steps[0]);
+
+    return request;
+  }
+
+  async findForSubject(subjectType: ApprovalSubjectType, subjectId: string): Promise<ApprovalRequestWithSteps | null> {
+    return this.prisma.approvalRequest.findUnique({
+      where: { subjectType_subjectId: { subjectType, subjectId } },
+      include: requestInclude,
+    });
+  }
+
+  /** Requests waiting on the current user, oldest first */
+  async findInbox(currentUser: User): Promise<ApprovalRequestWithSteps[]> {
+    return this.prisma.approvalRequest.findMany({
+      where: {
+        status: ApprovalStatus.PENDING,
+        steps: { some: { approverId: currentUser.id, status: ApprovalStepStatus.PENDING } },
+      },
+      include: requestInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async findMine(currentUser: User, status?: ApprovalStatus): Promise<ApprovalRequestWithSteps[]> {
+    return this.prisma.approvalRequest.findMany({
+      where: {
+        requesterId: currentUser.id,
+        ...(status && { status }),
+      },
+      include: requestInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findOne(id: string, currentUser: User): Promise<ApprovalRequestWithSteps> {
+    const request = await this.prisma.approvalRequest.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+      include: requestInclude,
+    });
+    if (!request) {
+      throw new NotFoundException('Approval request not found');
+    }
+
+    const involved =
+      request.requesterId === currentUser.id ||
+      request.steps.some((step) => step.approverId === currentUser.id || step.originalApproverId === currentUser.id);
+    if (!involved && !OVERSEER_ROLES.includes(currentUser.role)) {
+      throw new ForbiddenException('Cannot access this approval request');
+    }
+
+    return request;
+  }
+
+  /**
+   * Records the current approver's approval. The last step applies the outcome
+   * to the subject; earlier steps hand the request to the next approver.
+   */
+  async approve(id: string, currentUser: User, comment?: string): Promise<ApprovalDecision> {
+    const { request, step } = await this.findOpenStep(id, currentUser);
+    const now = new Date();
+    const next = request.steps.find((candidate) => candidate.position > step.position);
+
+    if (!next) {
+      const handler = this.handlerFor(request.subjectType);
+
+      const warnings = await this.prisma.$transaction(async (tx) => {
+        const subjectWarnings = await handler.onApproved(request.subjectId, currentUser, tx);
+
+        await tx.approvalStep.update({
+          where: { id: step.id },
+          data: { status: ApprovalStepStatus.APPROVED, decidedAt: now, comment },
+        });
+        await tx.approvalRequest.update({
+          where: { id },
+          data: { status: ApprovalStatus.APPROVED, completedAt: now },
+        });
+
+        return subjectWarnings;
+      });
+
+      const updatedRequest = await this.findDecided(request, currentUser);
+      await this.notifyRequester(updatedRequest, 'APPROVAL_APPROVED', `${request.summary} was approved`);
+
+      return { request: updatedRequest, completed: true, warnings };
+    }
+
+    const nextApproverId = await this.delegateFor(next.approverId, request, next.escalationRole, now);
+    await this.prisma.$transaction([
+      this.prisma.approvalStep.update({
+        where: { id: step.id },
+        data: { status: ApprovalStepStatus.APPROVED, decidedAt: now, comment },
+      }),
+      this.prisma.approvalStep.update({
+        where: { id: next.id },
+        data: {
+          status: ApprovalStepStatus.PENDING,
+          activatedAt: now,
+          approverId: nextApproverId,
+          ...(nextApproverId !== next.approverId && { originalApproverId: next.approverId }),
+        },
+      }),
+      this.prisma.approvalRequest.update({
+        where: { id },
+        data: { currentPosition: next.position },
+      }),
+    ]);
+
+    const updatedRequest = await this.findDecided(request, currentUser);
+    await this.notifyApprover(updatedRequest, updatedRequest.steps.find((candidate) => candidate.id === next.id)!);
+
+    return { request: updatedRequest, completed: false, warnings: [] };
+  }
+
+  /** Rejects the request at the current step; later steps are skipped */
+  async reject(id: string, currentUser: User, comment?: string): Promise<ApprovalDecision> {
+    const { request, step } = await this.findOpenStep(id, currentUser);
+    const now = new Date();
+    const handler = this.handlerFor(request.subjectType);
+
+    await this.prisma.$transaction(async (tx) => {
+      await handler.onRejected(request.subjectId, currentUser, comment, tx);
+
+      await tx.approvalStep.update({
+        where: { id: step.id },
+        data: { status: ApprovalStepStatus.REJECTED, decidedAt: now, comment },
+      });
+      await tx.approvalStep.updateMany({
+        where: { requestId: id, status: ApprovalStepStatus.WAITING },
+        data: { status: ApprovalStepStatus.SKIPPED },
+      });
+      await tx.approvalRequest.update({
+        where: { id },
+        data: { status: ApprovalStatus.REJECTED, completedAt: now },
+      });
+    });
+
+    const updatedRequest = await this.findDecided(request, currentUser);
+    await this.notifyRequester(
+      updatedRequest,
+      'APPROVAL_REJECTED',
+      comment ? `${request.summary} was rejected: ${comment}` : `${request.summary} was rejected`,
+    );
+
+    return { request: updatedRequest, completed: true, warnings: [] };
+  }
+
+  /** Withdraws the open request for a subject, e.g. when the requester cancels it */
+  async cancelForSubject(subjectType: ApprovalSubjectType, subjectId: string, currentUser: User): Promise<void> {
+    const request = await this.findForSubject(subjectType, subjectId);
+    if (!request || request.status !== ApprovalStatus.PENDING) {
+      return;
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.approvalStep.updateMany({
+        where: {
+          requestId: request.id,
+          status: { in: [ApprovalStepStatus.WAITING, ApprovalStepStatus.PENDING] },
+        },
+        data: { status: ApprovalStepStatus.SKIPPED },
+      }),
+      this.prisma.approvalRequest.update({
+        where: { id: request.id },
+        data: { status: ApprovalStatus.CANCELLED, completedAt: new Date() },
+      }),
+    ]);
+
+    await this.auditService.logUpdate(
+      currentUser.id,
+      'ApprovalRequest',
+      request.id,
+      { status: request.status },
+      { status: ApprovalStatus.CANCELLED },
+    );
+  }
+
+  private async findOpenStep(
+    id: string,
+    currentUser: User,
+  ): Promise<{ request: ApprovalRequestWithSteps; step: ApprovalStep }> {
+    const request = await this.prisma.approvalRequest.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+      include: requestInclude,
+    });
+    if (!request) {
+      throw new NotFoundException('Approval request not found');
+    }
+    if (request.status !== ApprovalStatus.PENDING) {
+      throw new BadRequestException('This request has already been decided');
+    }
+
+    const step = request.steps.find((candidate) => candidate.status === ApprovalStepStatus.PENDING);
+    if (!step || step.approverId !== currentUser.id) {
+      throw new ForbiddenException('This request is waiting for another approver');
+    }
+
+    return { request, step };
+  }
+
+  private async findDecided(request: ApprovalRequestWithSteps, currentUser: User): Promise<ApprovalRequestWithSteps> {
+    const updatedRequest = await this.prisma.approvalRequest.findUniqueOrThrow({
+      where: { id: request.id },
+      include: requestInclude,
+    });
+
+    await this.auditService.logUpdate(currentUser.id, 'ApprovalRequest', request.id, request, updatedRequest);
+
+    return updatedRequest;
+  }
+
+  private handlerFor(subjectType: ApprovalSubjectType): ApprovalHandler {
+    const handler = this.handlers.get(subjectType);
+    if (!handler) {
+      throw new BadRequestException(`${subjectType} requests do not go through approval chains`);
+    }
+    return handler;
+  }
+
+  /**
+   * The person a chain step names for a requester. Nobody approves their own
+   * request: steps that resolve to the requester, or to no one, go to whoever
+   * the step escalates to.
+   */
+  private async resolveApprover(
+    step: ApprovalChainStep,
+    requester: ApprovalSubmission['requester'],
+  ): Promise<string> {
+    let approverId: string | null | undefined = null;
+
+    switch (step.approverType) {
+      case ApproverType.REQUESTER_MANAGER:
+        approverId = requester.departmentId
+          ? (await this.prisma.department.findUnique({ where: { id: requester.departmentId } }))?.managerId
+          : null;
+        break;
+      case ApproverType.DEPARTMENT_MANAGER:
+        approverId = step.approverDepartmentId
+          ? (await this.prisma.department.findUnique({ where: { id: step.approverDepartmentId } }))?.managerId
+          : null;
+        break;
+      case ApproverType.ROLE:
+        approverId = step.approverRole
+          ? await this.findUserWithRole(requester.propertyId!, step.approverRole, requester.id)
+          : null;
+        break;
+      case ApproverType.USER:
+        approverId = step.approverUserId
+          ? (await this.prisma.user.findFirst({ where: { id: step.approverUserId, deletedAt: null } }))?.id
+          : null;
+        break;
+    }
+
+    if (approverId && approverId !== requester.id) {
+      return approverId;
+    }
+
+    const fallbackId = await this.findUserWithRole(requester.propertyId!, step.escalationRole, requester.id);
+    if (!fallbackId) {
+      throw new BadRequestException(`Nobody can approve the "${step.name}" step of this request`);
+    }
+    return fallbackId;
+  }
+
+  private async findUserWithRole(propertyId: string, role: Role, excludeUserId: string): Promise<string | null> {
+    const user = await this.prisma.user.findFirst({
+      where: { propertyId, role, deletedAt: null, id: { not: excludeUserId } },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    return user?.id ?? null;
+  }
+
+  /**
+   * Who acts for an approver on a request. A delegation never hands a request
+   * to its requester; those go to whoever the step escalates to, as in
+   * resolveApprover, or stay with the approver when there is nobody.
+   */
+  private async delegateFor(
+    approverId: string,
+    request: Pick<ApprovalRequest, 'requesterId' | 'propertyId'>,
+    escalationRole: Role,
+    now: Date,
+  ): Promise<string> {
+    const delegations = await this.prisma.approvalDelegation.findMany({
+      where: { startDate: { lte: now }, endDate: { gte: now } },
+    });
+    const delegateId = activeDelegate(approverId, delegations, now);
+    if (delegateId !== request.requesterId) {
+      return delegateId;
+    }
+
+    return (await this.findUserWithRole(request.propertyId, escalationRole, request.requesterId)) ?? approverId;
+  }
+
+  private async handOverPendingSteps(approverId: string, now: Date): Promise<void> {
+    const steps = await this.prisma.approvalStep.findMany({
+      where: { approverId, status: ApprovalStepStatus.PENDING },
+      include: { request: { include: requestInclude } },
+    });
+    for (const step of steps) {
+      const delegateId = await this.delegateFor(approverId, step.request, step.escalationRole, now);
+      if (delegateId === approverId) {
+        continue;
+      }
+
+      await this.prisma.approvalStep.update({
+        where: { id: step.id },
+        data: { approverId: delegateId, originalApproverId: step.originalApproverId ?? approverId },
+      });
+      await this.notifyApprover(step.request, { ...step, approverId: delegateId });
+    }
+  }
+
+  private async notifyApprover(request: ApprovalRequestWithSteps, step: Pick<ApprovalStep, 'approverId' | 'name'>) {
+    await this.notificationsService.createNotification({
+      userId: step.approverId,
+      propertyId: request.propertyId,
+      type: 'APPROVAL_REQUESTED',
+      title: `Approval needed: ${step.name}`,
+      message: `${request.requester.firstName} ${request.requester.lastName}: ${request.summary}`,
+      data: { approvalRequestId: request.id, subjectType: request.subjectType, subjectId: request.subjectId },
+    });
+  }
+
+  private async notifyRequester(request: ApprovalRequestWithSteps, type: string, message: string) {
+    await this.notificationsService.createNotification({
+      userId: request.requesterId,
+      propertyId: request.propertyId,
+      type,
+      title: type === 'APPROVAL_APPROVED' ? 'Request approved' : 'Request rejected',
+      message,
+      data: { approvalRequestId: request.id, subjectType: request.subjectType, subjectId: request.subjectId },
+    });
+  }
+
+  private stepData(steps: ApprovalChainStepDto[]) {
+    return steps.map((step, index) => ({
+      position: index + 1,
+      name: step.name,
+      approverType: step.approverType,
+      approverRole: step.approverType === ApproverType.ROLE ? step.approverRole : null,
+      approverUserId: step.approverType === ApproverType.USER ? step.approverUserId : null,
+      approverDepartmentId: step.approverType === ApproverType.DEPARTMENT_MANAGER ? step.approverDepartmentId : null,
+      reminderHours: step.reminderHours,
+      escalateAfterHours: step.escalateAfterHours,
+      escalationRole: step.escalationRole,
+    }));
+  }
+
+  private async assertValidSteps(steps: ApprovalChainStepDto[], currentUser: User): Promise<void> {
+    for (const step of steps) {
+      if (step.approverType === ApproverType.DEPARTMENT_MANAGER) {
+        await this.findDepartment(step.approverDepartmentId!, currentUser);
+      }
+      if (step.approverType === ApproverType.USER) {
+        const approver = await this.prisma.user.findFirst({
+          where: { id: step.approverUserId, propertyId: currentUser.propertyId!, deletedAt: null },
+        });
+        if (!approver) {
+          throw new NotFoundException(`Approver for the "${step.name}" step not found`);
+        }
+      }
+    }
+  }
+
+  private async findDepartment(id: string, currentUser: User) {
+    const department = await this.prisma.department.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+    });
+    if (!department) {
+      throw new NotFoundException('Department not found');
+    }
+    return department;
+  }
+
+  private async findChain(id: string, currentUser: User): Promise<ApprovalChainWithSteps> {
+    const chain = await this.prisma.approvalChain.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+      include: { steps: { orderBy: { position: 'asc' } } },
+    });
+    if (!chain) {
+      throw new NotFoundException('Approval chain not found');
+    }
+    return chain;
+  }
+}
@@ -0,0 +1,96 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, OmitType, PartialType } from '@nestjs/swagger';
+import { ApprovalSubjectType, ApproverType, Role } from '@prisma/client';
+
+export class ApprovalChainStepDto {
+  @ApiProperty({ example: 'HR review' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ enum: ApproverType, example: ApproverType.DEPARTMENT_MANAGER })
+  @IsEnum(ApproverType)
+  approverType: ApproverType;
+
+  @ApiPropertyOptional({ enum: Role, description: 'Required for ROLE steps' })
+  @ValidateIf((step) => step.approverType === ApproverType.ROLE)
+  @IsEnum(Role)
+  approverRole?: Role;
+
+  @ApiPropertyOptional({ example: 'user-123', description: 'Required for USER steps' })
+  @ValidateIf((step) => step.approverType === ApproverType.USER)
+  @IsString()
+  approverUserId?: string;
+
+  @ApiPropertyOptional({ example: 'dept-hr', description: 'Required for DEPARTMENT_MANAGER steps' })
+  @ValidateIf((step) => step.approverType === ApproverType.DEPARTMENT_MANAGER)
+  @IsString()
+  approverDepartmentId?: string;
+
+  @ApiPropertyOptional({ example: 24, description: 'Hours between reminders; 0 never reminds' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  reminderHours?: number;
+
+  @ApiPropertyOptional({ example: 72, description: 'Hours before the step escalates; omit to never escalate' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  escalateAfterHours?: number;
+
+  @ApiPropertyOptional({ enum: Role, example: Role.PROPERTY_MANAGER, description: 'Who takes over on escalation' })
+  @IsOptional()
+  @IsEnum(Role)
+  escalationRole?: Role;
+}
+
+export class CreateApprovalChainDto {
+  @ApiProperty({ example: 'Long leave' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ enum: ApprovalSubjectType, example: ApprovalSubjectType.VACATION })
+  @IsEnum(ApprovalSubjectType)
+  subjectType: ApprovalSubjectType;
+
+  @ApiPropertyOptional({ example: 'dept-123', description: 'Omit to apply to the whole property' })
+  @IsOptional()
+  @IsString()
+  departmentId?: string;
+
+  @ApiPropertyOptional({ example: 10, description: 'Only requests at least this large, e.g. leave days' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  minAmount?: number;
+
+  @ApiProperty({ type: [ApprovalChainStepDto], description: 'Approvers in the order they act' })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ApprovalChainStepDto)
+  steps: ApprovalChainStepDto[];
+}
+
+export class UpdateApprovalChainDto extends PartialType(OmitType(CreateApprovalChainDto, ['subjectType'] as const)) {
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,22 @@
+import { IsDateString, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateApprovalDelegationDto {
+  @ApiProperty({ example: 'user-456', description: 'Who approves in your place' })
+  @IsString()
+  delegateId: string;
+
+  @ApiProperty({ example: '2025-08-01T00:00:00Z' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ example: '2025-08-15T23:59:59Z' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiPropertyOptional({ example: 'Annual leave' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  reason?: string;
+}
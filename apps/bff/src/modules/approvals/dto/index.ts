@@ -0,0 +1,3 @@
+export * from './approval-chain.dto';
+export * from './approval-delegation.dto';
+export * from './approval-decision.dto';
\ No newline at end of file
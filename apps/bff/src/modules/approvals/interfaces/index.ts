@@ -0,0 +1,35 @@
+import { ApprovalRequest, ApprovalStep, ApprovalSubjectType, Prisma, User } from '@prisma/client';
+
+/**
+ * Applies the outcome of a chain to its subject. Handlers write through `tx`,
+ * the transaction that records the final decision, so throwing keeps the
+ * request open and leaves the subject untouched.
+ */
+export interface ApprovalHandler {
+  // Returns warnings to show the approver, e.g. broken coverage rules
+  onApproved(subjectId: string, approver: User, tx: Prisma.TransactionClient): Promise<string[]>;
+  onRejected(subjectId: string, approver: User, comment: string | undefined, tx: Prisma.TransactionClient): Promise<void>;
+}
+
+export interface ApprovalSubmission {
+  subjectType: ApprovalSubjectType;
+  subjectId: string;
+  requester: Pick<User, 'id' | 'propertyId' | 'departmentId'>;
+  // Compared with the chains' minAmount, e.g. leave days
+  amount?: number;
+  summary: string;
+}
+
+type Person = { id: string; firstName: string; lastName: string };
+
+export interface ApprovalRequestWithSteps extends ApprovalRequest {
+  requester: Person;
+  steps: (ApprovalStep & { approver: Person })[];
+}
+
+export interface ApprovalDecision {
+  request: ApprovalRequestWithSteps;
+  // True once the last step approved or any step rejected
+  completed: boolean;
+  warnings: string[];
+}
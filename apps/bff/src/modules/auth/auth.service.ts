@@ -174,6 +174,10 @@ export class AuthService {
         profilePhoto: user.profilePhoto,
         externalOrganization: user.externalOrganization,
         accessPortal: user.accessPortal,
+        skills: user.skills,
+        languages: user.languages,
+        dutyStartedAt: user.dutyStartedAt,
+        employmentType: user.employmentType,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
       },
@@ -334,6 +338,10 @@ export class AuthService {
           profilePhoto: user.profilePhoto,
           externalOrganization: user.externalOrganization,
           accessPortal: user.accessPortal,
+          skills: user.skills,
+          languages: user.languages,
+          dutyStartedAt: user.dutyStartedAt,
+          employmentType: user.employmentType,
           createdAt: user.createdAt,
           updatedAt: user.updatedAt,
         },
@@ -416,6 +424,10 @@ export class AuthService {
         profilePhoto: user.profilePhoto,
         externalOrganization: user.externalOrganization,
         accessPortal: user.accessPortal,
+        skills: user.skills,
+        languages: user.languages,
+        dutyStartedAt: user.dutyStartedAt,
+        employmentType: user.employmentType,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
       },
@@ -0,0 +1,112 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery, ApiProduces } from '@nestjs/swagger';
+import { Response } from 'express';
+import { CalendarFeedsService } from './calendar-feeds.service';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { PermissionGuard } from '../../shared/guards/permission.guard';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { RequirePermission } from '../../shared/decorators/require-permission.decorator';
+import { Public } from '../../shared/decorators/public.decorator';
+import { Audit } from '../../shared/decorators/audit.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+import { CreateCalendarFeedDto, UpdateCalendarFeedDto } from './dto';
+import { User } from '@prisma/client';
+
+@ApiTags('Calendar Feeds')
+@Controller('calendar-feeds')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class CalendarFeedsController {
+  constructor(private readonly calendarFeedsService: CalendarFeedsService) {}
+
+  @Get()
+  @RequirePermission('reservation.read.property')
+  @ApiOperation({ summary: 'List channel calendar feeds' })
+  @ApiQuery({ name: 'unitId', required: false })
+  @ApiResponse({ status: 200, description: 'Calendar feeds retrieved successfully' })
+  async findAll(@Query('unitId') unitId: string | undefined, @CurrentUser() currentUser: User) {
+    const feeds = await this.calendarFeedsService.findAll(currentUser, unitId);
+    return CustomApiResponse.success(feeds, 'Calendar feeds retrieved successfully');
+  }
+
+  @Post()
+  @RequirePermission('reservation.create.property')
+  @Audit({ action: 'CREATE', entity: 'CalendarFeed' })
+  @ApiOperation({ summary: 'Register a channel iCal feed for a unit' })
+  @ApiResponse({ status: 201, description: 'Calendar feed created successfully' })
+  @ApiResponse({ status: 404, description: 'Unit not found' })
+  async create(@Body() createFeedDto: CreateCalendarFeedDto, @CurrentUser() currentUser: User) {
+    const feed = await this.calendarFeedsService.create(createFeedDto, currentUser);
+    return CustomApiResponse.success(feed, 'Calendar feed created successfully');
+  }
+
+  @Patch(':id')
+  @RequirePermission('reservation.update.property')
+  @Audit({ action: 'UPDATE', entity: 'CalendarFeed' })
+  @ApiOperation({ summary: 'Update or pause a calendar feed' })
+  @ApiResponse({ status: 200, description: 'Calendar feed updated successfully' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateFeedDto: UpdateCalendarFeedDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const feed = await this.calendarFeedsService.update(id, updateFeedDto, currentUser);
+    return CustomApiResponse.success(feed, 'Calendar feed updated successfully');
+  }
+
+  @Delete(':id')
+  @RequirePermission('reservation.update.property')
+  @Audit({ action: 'DELETE', entity: 'CalendarFeed' })
+  @ApiOperation({ summary: 'Remove a calendar feed (imported reservations are kept)' })
+  @ApiResponse({ status: 200, description: 'Calendar feed removed successfully' })
+  async remove(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    await this.calendarFeedsService.remove(id, currentUser);
+    return CustomApiResponse.success(null, 'Calendar feed removed successfully');
+  }
+
+  @Post(':id/sync')
+  @RequirePermission('reservation.update.property')
+  @Audit({ action: 'SYNC', entity: 'CalendarFeed' })
+  @ApiOperation({ summary: 'Queue an import of the feed; the outcome is recorded on the feed' })
+  @ApiResponse({ status: 200, description: 'Calendar feed sync queued' })
+  async sync(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    const feed = await this.calendarFeedsService.sync(id, currentUser);
+    return CustomApiResponse.success(feed, 'Calendar feed sync queued');
+  }
+
+  @Post('units/:unitId/export-link')
+  @RequirePermission('reservation.update.property')
+  @Audit({ action: 'UPDATE', entity: 'Unit' })
+  @ApiOperation({ summary: 'Issue a new iCal export link for a unit, revoking the previous one' })
+  @ApiResponse({ status: 201, description: 'Export link created' })
+  async createExportLink(@Param('unitId') unitId: string, @CurrentUser() currentUser: User) {
+    const link = await this.calendarFeedsService.createExportLink(unitId, currentUser);
+    return CustomApiResponse.success(link, 'Export link created');
+  }
+
+  // Fetched by the channels themselves, so the token in the URL is the only credential
+  @Get('export/:token')
+  @Public()
+  @ApiProduces('text/calendar')
+  @ApiOperation({ summary: 'Public iCal feed of a unit\'s booked nights' })
+  @ApiResponse({ status: 200, description: 'iCalendar document' })
+  @ApiResponse({ status: 404, description: 'Unknown or revoked export link' })
+  async exportCalendar(@Param('token') token: string, @Res() res: Response) {
+    const calendar = await this.calendarFeedsService.exportUnitCalendar(token.replace(/\.ics$/, ''));
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="calendar.ics"');
+    res.send(calendar);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { CalendarFeedsService } from './calendar-feeds.service';
+import { CalendarFeedsController } from './calendar-feeds.controller';
+
+@Module({
+  providers: [CalendarFeedsService],
+  controllers: [CalendarFeedsController],
+  exports: [CalendarFeedsService],
+})
+export class CalendarFeedsModule {}
@@ -0,0 +1,192 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { WorkerQueueService } from '../../shared/queue/worker-queue.service';
+import { CreateCalendarFeedDto, UpdateCalendarFeedDto } from './dto';
+import { CalendarExportLink, CalendarFeedWithUnit } from './interfaces';
+import { buildICalendar, normalizeFeedUrl } from '@staffnbdt/shared';
+import { User, CalendarFeed, ReservationStatus } from '@prisma/client';
+import * as crypto from 'crypto';
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+const toDate = (dateKey: string): Date => new Date(`${dateKey}T00:00:00.000Z`);
+
+@Injectable()
+export class CalendarFeedsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+    private readonly workerQueue: WorkerQueueService,
+  ) {}
+
+  async findAll(currentUser: User, unitId?: string): Promise<CalendarFeedWithUnit[]> {
+    return this.prisma.calendarFeed.findMany({
+      where: { propertyId: currentUser.propertyId!, unitId },
+      include: { unit: { select: { id: true, unitNumber: true } } },
+      orderBy: [{ unit: { unitNumber: 'asc' } }, { channel: 'asc' }],
+    });
+  }
+
+  async create(createFeedDto: CreateCalendarFeedDto, currentUser: User): Promise<CalendarFeedWithUnit> {
+    const unit = await this.prisma.unit.findFirst({
+      where: { id: createFeedDto.unitId, propertyId: currentUser.propertyId!, deletedAt: null },
+    });
+    if (!unit) {
+      throw new NotFoundException('Unit not found');
+    }
+
+    this.assertFetchableUrl(createFeedDto.url);
+
+    const feed = await this.prisma.calendarFeed.create({
+      data: {
+        propertyId: currentUser.propertyId!,
+        unitId: unit.id,
+        channel: createFeedDto.channel.trim().toLowerCase(),
+        url: createFeedDto.url,
+        isActive: createFeedDto.isActive ?? true,
+        createdBy: currentUser.id,
+      },
+      include: { unit: { select: { id: true, unitNumber: true } } },
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'CalendarFeed', feed.id, feed);
+
+    return feed;
+  }
+
+  async update(id: string, updateFeedDto: UpdateCalendarFeedDto, currentUser: User): Promise<CalendarFeedWithUnit> {
+    const existing = await this.findFeed(id, currentUser);
+    if (updateFeedDto.url) {
+      this.assertFetchableUrl(updateFeedDto.url);
+    }
+
+    const feed = await this.prisma.calendarFeed.update({
+      where: { id },
+      data: {
+        channel: updateFeedDto.channel?.trim().toLowerCase(),
+        url: updateFeedDto.url,
+        isActive: updateFeedDto.isActive,
+      },
+      include: { unit: { select: { id: true, unitNumber: true } } },
+    });
+
+    await this.auditService.logUpdate(currentUser.id, 'CalendarFeed', id, existing, feed);
+
+    return feed;
+  }
+
+  /** Imported reservations are kept; they simply stop being synced */
+  async remove(id: string, currentUser: User): Promise<void> {
+    const feed = await this.findFeed(id, currentUser);
+
+    await this.prisma.calendarFeed.delete({ where: { id } });
+
+    await this.auditService.logDelete(currentUser.id, 'CalendarFeed', id, feed);
+  }
+
+  /**
+   * Queues an import of the feed now. The worker also imports every active
+   * feed on its own schedule and records the outcome on the feed.
+   */
+  async sync(id: string, currentUser: User): Promise<CalendarFeed> {
+    const feed = await this.findFeed(id, currentUser);
+
+    await this.workerQueue.addJob('calendar-feed-sync', 'sync-calendar-feed', { feedId: feed.id });
+
+    return feed;
+  }
+
+  async createExportLink(unitId: string, currentUser: User): Promise<CalendarExportLink> {
+    const unit = await this.prisma.unit.findFirst({
+      where: { id: unitId, propertyId: currentUser.propertyId!, deletedAt: null },
+    });
+    if (!unit) {
+      throw new NotFoundException('Unit not found');
+    }
+
+    // Issuing a new link revokes the previous one
+    const token = crypto.randomBytes(24).toString('hex');
+    await this.prisma.unit.update({ where: { id: unit.id }, data: { icalExportToken: token } });
+
+    await this.auditService.logUpdate(
+      currentUser.id,
+      'Unit',
+      unit.id,
+      { icalExportToken: unit.icalExportToken ? '[redacted]' : null },
+      { icalExportToken: '[redacted]' },
+    );
+
+    return { unitId: unit.id, token, path: `/calendar-feeds/export/${token}.ics` };
+  }
+
+  /**
+   * Public feed of the unit's booked nights for channels to import. Guest
+   * details are left out; every stay is published as "Reserved".
+   */
+  async exportUnitCalendar(token: string): Promise<string> {
+    const unit = await this.prisma.unit.findFirst({
+      where: { icalExportToken: token, deletedAt: null },
+      include: { property: { select: { name: true } } },
+    });
+    if (!unit) {
+      throw new NotFoundException('Calendar not found');
+    }
+
+    const today = toDate(toDateKey(new Date()));
+    const [reservations, blocks] = await Promise.all([
+      this.prisma.reservation.findMany({
+        where: {
+          unitId: unit.id,
+          status: { in: [ReservationStatus.CONFIRMED, ReservationStatus.CHECKED_IN] },
+          checkOutDate: { gte: today },
+        },
+        orderBy: { checkInDate: 'asc' },
+      }),
+      this.prisma.unitBlock.findMany({
+        where: { unitId: unit.id, releasedAt: null, endDate: { gt: today } },
+        orderBy: { startDate: 'asc' },
+      }),
+    ]);
+
+    // Channels only need to know the dates are taken, not why
+    return buildICalendar(
+      `${unit.property.name} - ${unit.unitNumber}`,
+      [
+        ...reservations.map((reservation) => ({
+          uid: `${reservation.id}@staffnbdt`,
+          summary: 'Reserved',
+          startDate: toDateKey(reservation.checkInDate),
+          endDate: toDateKey(reservation.checkOutDate),
+        })),
+        ...blocks.map((block) => ({
+          uid: `${block.id}@staffnbdt`,
+          summary: 'Not available',
+          startDate: toDateKey(block.startDate),
+          endDate: toDateKey(block.endDate),
+        })),
+      ],
+    );
+  }
+
+  // Feeds are fetched by the worker; refuse anything but public http(s) hosts up front
+  private assertFetchableUrl(url: string): void {
+    try {
+      normalizeFeedUrl(url);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  private async findFeed(id: string, currentUser: User): Promise<CalendarFeed> {
+    const feed = await this.prisma.calendarFeed.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+    });
+
+    if (!feed) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    return feed;
+  }
+}
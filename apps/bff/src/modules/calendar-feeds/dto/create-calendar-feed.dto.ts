@@ -0,0 +1,22 @@
+import { IsString, IsUrl, IsOptional, IsBoolean, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateCalendarFeedDto {
+  @ApiProperty({ example: 'unit-123', description: 'Unit the channel listing belongs to' })
+  @IsString()
+  unitId: string;
+
+  @ApiProperty({ example: 'airbnb', description: 'Channel name, stored as the source of imported reservations' })
+  @IsString()
+  @MaxLength(50)
+  channel: string;
+
+  @ApiProperty({ example: 'https://www.airbnb.com/calendar/ical/12345.ics?s=abc', description: 'iCal export URL published by the channel' })
+  @IsUrl({ protocols: ['http', 'https', 'webcal'], require_protocol: true })
+  url: string;
+
+  @ApiPropertyOptional({ example: true, default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,2 @@
+export * from './create-calendar-feed.dto';
+export * from './update-calendar-feed.dto';
\ No newline at end of file
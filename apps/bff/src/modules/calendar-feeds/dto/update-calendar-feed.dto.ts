@@ -0,0 +1,6 @@
+import { PartialType, OmitType } from '@nestjs/swagger';
+import { CreateCalendarFeedDto } from './create-calendar-feed.dto';
+
+export class UpdateCalendarFeedDto extends PartialType(
+  OmitType(CreateCalendarFeedDto, ['unitId'] as const)
+) {}
@@ -0,0 +1,13 @@
+import { CalendarFeed } from '@prisma/client';
+
+export type { CalendarFeedConflict, CalendarFeedSyncResult } from '@staffnbdt/shared';
+
+export interface CalendarFeedWithUnit extends CalendarFeed {
+  unit: { id: string; unitNumber: string };
+}
+
+export interface CalendarExportLink {
+  unitId: string;
+  token: string;
+  path: string;
+}
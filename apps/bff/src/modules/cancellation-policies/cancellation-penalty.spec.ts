@@ -0,0 +1,59 @@
+import { CancellationPenaltyType } from '@prisma/client';
+import {
+  calculateCancellationPenalty,
+  CancellationPolicySnapshot,
+  NON_REFUNDABLE_RATE_POLICY,
+} from './cancellation-penalty';
+
+describe('calculateCancellationPenalty', () => {
+  const stay = {
+    checkInDate: new Date('2025-07-10T00:00:00Z'),
+    totalAmount: 450,
+    nights: [
+      { date: '2025-07-10', total: 180 },
+      { date: '2025-07-11', total: 135 },
+      { date: '2025-07-12', total: 135 },
+    ],
+  };
+  const flexible: CancellationPolicySnapshot = {
+    policyId: 'policy-1',
+    code: 'FLEX48',
+    name: 'Flexible 48h',
+    freeCancellationHours: 48,
+    penaltyType: CancellationPenaltyType.FIRST_NIGHT,
+    penaltyPercent: null,
+    isNonRefundable: false,
+  };
+
+  it('is free inside the free cancellation window', () => {
+    const penalty = calculateCancellationPenalty(flexible, stay, new Date('2025-07-07T23:00:00Z'));
+
+    expect(penalty.amount).toBe(0);
+    expect(penalty.isFree).toBe(true);
+    expect(penalty.freeUntil).toEqual(new Date('2025-07-08T00:00:00Z'));
+  });
+
+  it('charges the first night once the window has passed', () => {
+    const penalty = calculateCancellationPenalty(flexible, stay, new Date('2025-07-09T12:00:00Z'));
+
+    expect(penalty.amount).toBe(180);
+    expect(penalty.description).toBe('Cancellation fee (first night) - Flexible 48h');
+  });
+
+  it('charges a percentage of the stay', () => {
+    const policy = { ...flexible, penaltyType: CancellationPenaltyType.PERCENTAGE, penaltyPercent: 33.33 };
+
+    expect(calculateCancellationPenalty(policy, stay, new Date('2025-07-09T12:00:00Z')).amount).toBe(149.99);
+  });
+
+  it('charges the full stay on non-refundable policies regardless of timing', () => {
+    const penalty = calculateCancellationPenalty(NON_REFUNDABLE_RATE_POLICY, stay, new Date('2025-05-01T00:00:00Z'));
+
+    expect(penalty.amount).toBe(450);
+    expect(penalty.freeUntil).toBeNull();
+  });
+
+  it('charges nothing without a policy', () => {
+    expect(calculateCancellationPenalty(null, stay, new Date('2025-07-10T00:00:00Z')).amount).toBe(0);
+  });
+});
@@ -0,0 +1,108 @@
+import { CancellationPenaltyType } from '@prisma/client';
+import { LedgerNight, roundCurrency } from '@staffnbdt/shared';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Copy of a policy stored on the reservation when it is booked */
+export interface CancellationPolicySnapshot {
+  policyId: string | null;
+  code: string;
+  name: string;
+  freeCancellationHours: number | null;
+  penaltyType: CancellationPenaltyType;
+  penaltyPercent: number | null;
+  isNonRefundable: boolean;
+}
+
+export interface CancellationPolicyFields {
+  id: string;
+  code: string;
+  name: string;
+  freeCancellationHours: number | null;
+  penaltyType: CancellationPenaltyType;
+  penaltyPercent: { toNumber(): number } | null;
+  isNonRefundable: boolean;
+}
+
+export interface CancellableStay {
+  checkInDate: Date;
+  totalAmount: number;
+  nights: LedgerNight[];
+}
+
+export interface CancellationPenalty {
+  amount: number;
+  isFree: boolean;
+  /** Last moment the reservation could be cancelled without a fee, if any */
+  freeUntil: Date | null;
+  description: string;
+}
+
+/** Applied to non-refundable rate plans that have no policy of their own */
+export const NON_REFUNDABLE_RATE_POLICY: CancellationPolicySnapshot = {
+  policyId: null,
+  code: 'NON_REFUNDABLE_RATE',
+  name: 'Non-refundable rate',
+  freeCancellationHours: null,
+  penaltyType: CancellationPenaltyType.FULL_STAY,
+  penaltyPercent: null,
+  isNonRefundable: true,
+};
+
+export function toPolicySnapshot(policy: CancellationPolicyFields): CancellationPolicySnapshot {
+  return {
+    policyId: policy.id,
+    code: policy.code,
+    name: policy.name,
+    freeCancellationHours: policy.freeCancellationHours,
+    penaltyType: policy.penaltyType,
+    penaltyPercent: policy.penaltyPercent?.toNumber() ?? null,
+    isNonRefundable: policy.isNonRefundable,
+  };
+}
+
+/**
+ * Fee owed when a stay is cancelled at `cancelledAt`. The free window is
+ * measured back from the stored check-in date; the fee never exceeds the
+ * stay total.
+ */
+export function calculateCancellationPenalty(
+  policy: CancellationPolicySnapshot | null,
+  stay: CancellableStay,
+  cancelledAt: Date,
+): CancellationPenalty {
+  if (!policy) {
+    return { amount: 0, isFree: true, freeUntil: null, description: 'No cancellation policy' };
+  }
+
+  const freeUntil =
+    !policy.isNonRefundable && policy.freeCancellationHours !== null
+      ? new Date(stay.checkInDate.getTime() - policy.freeCancellationHours * HOUR_MS)
+      : null;
+
+  if (freeUntil && cancelledAt <= freeUntil) {
+    return { amount: 0, isFree: true, freeUntil, description: `Free cancellation under ${policy.name}` };
+  }
+
+  let amount: number;
+  let basis: string;
+  if (policy.isNonRefundable || policy.penaltyType === CancellationPenaltyType.FULL_STAY) {
+    amount = stay.totalAmount;
+    basis = 'full stay';
+  } else if (policy.penaltyType === CancellationPenaltyType.PERCENTAGE) {
+    const percent = policy.penaltyPercent ?? 0;
+    amount = (stay.totalAmount * percent) / 100;
+    basis = `${percent}% of stay`;
+  } else {
+    amount = stay.nights[0]?.total ?? stay.totalAmount;
+    basis = 'first night';
+  }
+
+  amount = roundCurrency(Math.min(Math.max(amount, 0), stay.totalAmount));
+  return {
+    amount,
+    isFree: amount === 0,
+    freeUntil,
+    description: `Cancellation fee (${basis}) - ${policy.name}`,
+  };
+}
@@ -0,0 +1,93 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { CancellationPoliciesService } from './cancellation-policies.service';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { PermissionGuard } from '../../shared/guards/permission.guard';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { RequirePermission } from '../../shared/decorators/require-permission.decorator';
+import { Audit } from '../../shared/decorators/audit.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+import { CreateCancellationPolicyDto, UpdateCancellationPolicyDto } from './dto';
+import { User } from '@prisma/client';
+
+@ApiTags('Cancellation Policies')
+@Controller('cancellation-policies')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class CancellationPoliciesController {
+  constructor(private readonly cancellationPoliciesService: CancellationPoliciesService) {}
+
+  @Post()
+  @RequirePermission('rate_plan.create.property')
+  @Audit({ action: 'CREATE', entity: 'CancellationPolicy' })
+  @ApiOperation({ summary: 'Create a cancellation policy' })
+  @ApiResponse({ status: 201, description: 'Cancellation policy created successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Duplicate code or incomplete penalty' })
+  async create(
+    @Body() createDto: CreateCancellationPolicyDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const policy = await this.cancellationPoliciesService.create(createDto, currentUser);
+    return CustomApiResponse.success(policy, 'Cancellation policy created successfully');
+  }
+
+  @Get()
+  @RequirePermission('rate_plan.read.property')
+  @ApiOperation({ summary: 'List active cancellation policies (property-scoped)' })
+  @ApiResponse({ status: 200, description: 'Cancellation policies retrieved successfully' })
+  async findAll(@CurrentUser() currentUser: User) {
+    const policies = await this.cancellationPoliciesService.findAll(currentUser);
+    return CustomApiResponse.success(policies, 'Cancellation policies retrieved successfully');
+  }
+
+  @Get(':id')
+  @RequirePermission('rate_plan.read.property')
+  @ApiOperation({ summary: 'Get cancellation policy by ID' })
+  @ApiResponse({ status: 200, description: 'Cancellation policy retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Cancellation policy not found' })
+  async findOne(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: User,
+  ) {
+    const policy = await this.cancellationPoliciesService.findOne(id, currentUser);
+    return CustomApiResponse.success(policy, 'Cancellation policy retrieved successfully');
+  }
+
+  @Patch(':id')
+  @RequirePermission('rate_plan.update.property')
+  @Audit({ action: 'UPDATE', entity: 'CancellationPolicy' })
+  @ApiOperation({ summary: 'Update a cancellation policy; existing reservations keep their snapshot' })
+  @ApiResponse({ status: 200, description: 'Cancellation policy updated successfully' })
+  @ApiResponse({ status: 404, description: 'Cancellation policy not found' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateCancellationPolicyDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const policy = await this.cancellationPoliciesService.update(id, updateDto, currentUser);
+    return CustomApiResponse.success(policy, 'Cancellation policy updated successfully');
+  }
+
+  @Delete(':id')
+  @RequirePermission('rate_plan.delete.property')
+  @Audit({ action: 'DELETE', entity: 'CancellationPolicy' })
+  @ApiOperation({ summary: 'Deactivate a cancellation policy' })
+  @ApiResponse({ status: 200, description: 'Cancellation policy deactivated successfully' })
+  @ApiResponse({ status: 404, description: 'Cancellation policy not found' })
+  async remove(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: User,
+  ) {
+    const policy = await this.cancellationPoliciesService.remove(id, currentUser);
+    return CustomApiResponse.success(policy, 'Cancellation policy deactivated successfully');
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { CancellationPoliciesService } from './cancellation-policies.service';
+import { CancellationPoliciesController } from './cancellation-policies.controller';
+
+@Module({
+  providers: [CancellationPoliciesService],
+  controllers: [CancellationPoliciesController],
+  exports: [CancellationPoliciesService],
+})
+export class CancellationPoliciesModule {}
@@ -0,0 +1,166 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { CreateCancellationPolicyDto, UpdateCancellationPolicyDto } from './dto';
+import { CancellationPolicySnapshot, NON_REFUNDABLE_RATE_POLICY, toPolicySnapshot } from './cancellation-penalty';
+import { User, CancellationPolicy, CancellationPenaltyType } from '@prisma/client';
+
+@Injectable()
+export class CancellationPoliciesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async create(createDto: CreateCancellationPolicyDto, currentUser: User): Promise<CancellationPolicy> {
+    const existing = await this.prisma.cancellationPolicy.findFirst({
+      where: { propertyId: currentUser.propertyId!, code: createDto.code },
+    });
+    if (existing) {
+      throw new BadRequestException('Cancellation policy code already exists for this property');
+    }
+
+    this.validatePenalty(createDto.penaltyType, createDto.penaltyPercent);
+
+    const policy = await this.prisma.cancellationPolicy.create({
+      data: {
+        ...createDto,
+        organizationId: currentUser.organizationId,
+        propertyId: currentUser.propertyId!,
+      },
+    });
+
+    if (policy.isDefault) {
+      await this.clearOtherDefaults(policy);
+    }
+
+    await this.auditService.logCreate(currentUser.id, 'CancellationPolicy', policy.id, policy);
+
+    return policy;
+  }
+
+  async findAll(currentUser: User): Promise<CancellationPolicy[]> {
+    return this.prisma.cancellationPolicy.findMany({
+      where: { propertyId: currentUser.propertyId!, isActive: true },
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+    });
+  }
+
+  async findOne(id: string, currentUser: User): Promise<CancellationPolicy> {
+    const policy = await this.prisma.cancellationPolicy.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+    });
+
+    if (!policy) {
+      throw new NotFoundException('Cancellation policy not found');
+    }
+
+    return policy;
+  }
+
+  /** Reservations already booked keep the snapshot taken when they were made */
+  async update(id: string, updateDto: UpdateCancellationPolicyDto, currentUser: User): Promise<CancellationPolicy> {
+    const existing = await this.findOne(id, currentUser);
+
+    if (updateDto.code && updateDto.code !== existing.code) {
+      const duplicate = await this.prisma.cancellationPolicy.findFirst({
+        where: { propertyId: currentUser.propertyId!, code: updateDto.code, id: { not: id } },
+      });
+      if (duplicate) {
+        throw new BadRequestException('Cancellation policy code already exists for this property');
+      }
+    }
+
+    this.validatePenalty(
+      updateDto.penaltyType ?? existing.penaltyType,
+      updateDto.penaltyPercent ?? existing.penaltyPercent?.toNumber(),
+    );
+
+    const policy = await this.prisma.cancellationPolicy.update({
+      where: { id },
+      data: updateDto,
+    });
+
+    if (policy.isDefault && !existing.isDefault) {
+      await this.clearOtherDefaults(policy);
+    }
+
+    await this.auditService.logUpdate(currentUser.id, 'CancellationPolicy', id, existing, policy);
+
+    return policy;
+  }
+
+  async remove(id: string, currentUser: User): Promise<CancellationPolicy> {
+    await this.findOne(id, currentUser);
+
+    const policy = await this.prisma.cancellationPolicy.update({
+      where: { id },
+      data: { isActive: false, isDefault: false },
+    });
+
+    await this.auditService.logUpdate(currentUser.id, 'CancellationPolicy', id, { isActive: true }, { isActive: false });
+
+    return policy;
+  }
+
+  /**
+   * Policy for a new booking: the rate plan's, then the room type's, then the
+   * property default. A non-refundable rate plan without a policy of its own
+   * charges the full stay, whatever the room type or property default say.
+   */
+  async resolveSnapshot(
+    ratePlanId: string | null,
+    roomTypeId: string | null,
+    propertyId: string,
+  ): Promise<CancellationPolicySnapshot | null> {
+    const ratePlan = ratePlanId
+      ? await this.prisma.ratePlan.findFirst({
+          where: { id: ratePlanId, propertyId },
+          include: { cancellationPolicy: true },
+        })
+      : null;
+
+    if (ratePlan?.cancellationPolicy?.isActive) {
+      return toPolicySnapshot(ratePlan.cancellationPolicy);
+    }
+    if (ratePlan && !ratePlan.isRefundable) {
+      return NON_REFUNDABLE_RATE_POLICY;
+    }
+
+    const roomType = roomTypeId
+      ? await this.prisma.roomType.findFirst({
+          where: { id: roomTypeId, propertyId },
+          include: { cancellationPolicy: true },
+        })
+      : null;
+
+    const policy = roomType?.cancellationPolicy?.isActive
+      ? roomType.cancellationPolicy
+      : await this.prisma.cancellationPolicy.findFirst({
+          where: { propertyId, isDefault: true, isActive: true },
+        });
+
+    return policy ? toPolicySnapshot(policy) : null;
+  }
+
+  /** Ensures a policy being attached to a rate plan or room type belongs to the property */
+  async assertAssignable(id: string, currentUser: User): Promise<void> {
+    const policy = await this.findOne(id, currentUser);
+    if (!policy.isActive) {
+      throw new BadRequestException('Cancellation policy is inactive');
+    }
+  }
+
+  private async clearOtherDefaults(policy: CancellationPolicy): Promise<void> {
+    await this.prisma.cancellationPolicy.updateMany({
+      where: { propertyId: policy.propertyId, id: { not: policy.id }, isDefault: true },
+      data: { isDefault: false },
+    });
+  }
+
+  private validatePenalty(penaltyType?: CancellationPenaltyType, penaltyPercent?: number): void {
+    if (penaltyType === CancellationPenaltyType.PERCENTAGE && penaltyPercent === undefined) {
+      throw new BadRequestException('penaltyPercent is required for percentage penalties');
+    }
+  }
+}
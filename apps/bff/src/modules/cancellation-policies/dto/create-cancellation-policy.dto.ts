@@ -0,0 +1,54 @@
+import { IsString, IsEnum, IsOptional, IsNumber, IsInt, IsBoolean, Min, Max, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CancellationPenaltyType } from '@prisma/client';
+import { Type } from 'class-transformer';
+
+export class CreateCancellationPolicyDto {
+  @ApiProperty({ example: 'FLEX48' })
+  @IsString()
+  @MaxLength(50)
+  code: string;
+
+  @ApiProperty({ example: 'Flexible - free until 48h before arrival' })
+  @IsString()
+  name: string;
+
+  @ApiPropertyOptional({ example: 'First night charged for late cancellations' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ example: 48, description: 'Hours before check-in until which cancellation is free; omit for never' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  freeCancellationHours?: number;
+
+  @ApiPropertyOptional({ enum: CancellationPenaltyType, example: CancellationPenaltyType.FIRST_NIGHT })
+  @IsOptional()
+  @IsEnum(CancellationPenaltyType)
+  penaltyType?: CancellationPenaltyType;
+
+  @ApiPropertyOptional({ example: 50, description: 'Percentage of the stay total for PERCENTAGE penalties' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  penaltyPercent?: number;
+
+  @ApiPropertyOptional({ example: false, description: 'Charge the full stay whenever the reservation is cancelled' })
+  @IsOptional()
+  @IsBoolean()
+  isNonRefundable?: boolean;
+
+  @ApiPropertyOptional({ example: false, description: 'Used for rate plans and room types without a policy' })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
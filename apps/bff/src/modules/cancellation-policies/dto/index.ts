@@ -0,0 +1,2 @@
+export * from './create-cancellation-policy.dto';
+export * from './update-cancellation-policy.dto';
\ No newline at end of file
@@ -0,0 +1,7 @@
+import { CancellationPenalty, CancellationPolicySnapshot } from '../cancellation-penalty';
+
+export interface CancellationQuote {
+  reservationId: string;
+  policy: CancellationPolicySnapshot | null;
+  penalty: CancellationPenalty;
+}
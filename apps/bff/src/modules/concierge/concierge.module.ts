@@ -11,6 +11,7 @@ import { DatabaseModule } from '../../shared/database/database.module';
 import { TenantModule } from '../../shared/tenant/tenant.module';
 import { EventsModule } from '../../shared/events/events.module';
 import { ModuleRegistryModule } from '../module-registry/module-registry.module';
+import { TasksModule } from '../core/tasks/tasks.module';
 
 @Module({
   imports: [
@@ -18,6 +19,7 @@ import { ModuleRegistryModule } from '../module-registry/module-registry.module'
     TenantModule,
     EventsModule,
     ModuleRegistryModule,
+    TasksModule,
     ScheduleModule.forRoot(),
   ],
   controllers: [
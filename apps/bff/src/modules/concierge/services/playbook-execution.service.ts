@@ -4,6 +4,7 @@ import { DomainEventBus } from '../../../shared/events/domain-event-bus.service'
 import { TenantContextService } from '../../../shared/tenant/tenant-context.service';
 import { ModuleRegistryService } from '../../module-registry/module-registry.service';
 import { FieldValidationService } from './field-validation.service';
+import { TaskAssignmentService } from '../../core/tasks/task-assignment.service';
 
 export interface PlaybookExecutionContext {
   organizationId: string;
@@ -36,6 +37,7 @@ export class PlaybookExecutionService {
     private readonly tenantContext: TenantContextService,
     private readonly moduleRegistry: ModuleRegistryService,
     private readonly fieldValidation: FieldValidationService,
+    private readonly taskAssignmentService: TaskAssignmentService,
   ) {}
 
   /**
@@ -462,6 +464,11 @@ export class PlaybookExecutionService {
       data: taskData,
     });
 
+    // Nobody picked: let the department's assignment rule choose
+    if (!task.assignedToId && task.departmentId) {
+      await this.taskAssignmentService.autoAssign(task.id);
+    }
+
     return { taskId: task.id, title: task.title };
   }
 
@@ -0,0 +1,47 @@
+import { IsBoolean, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+export class UpsertAssignmentRuleDto {
+  @IsString()
+  departmentId: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isEnabled?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  requireOnDuty?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  requireSkills?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxOpenTasks?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  skillWeight?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  languageWeight?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  workloadWeight?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  proximityWeight?: number;
+}
@@ -0,0 +1,48 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { PartialType, OmitType } from '@nestjs/mapped-types';
+import { TaskType } from '@prisma/client';
+
+export class ChecklistTemplateItemDto {
+  @IsString()
+  @MaxLength(200)
+  label: string;
+
+  @IsOptional()
+  @IsBoolean()
+  requiresPhoto?: boolean;
+}
+
+export class CreateChecklistTemplateDto {
+  @IsString()
+  propertyId: string;
+
+  @IsEnum(TaskType)
+  taskType: TaskType;
+
+  @IsString()
+  name: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ChecklistTemplateItemDto)
+  items: ChecklistTemplateItemDto[];
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateChecklistTemplateDto extends PartialType(
+  OmitType(CreateChecklistTemplateDto, ['propertyId', 'taskType'] as const),
+) {}
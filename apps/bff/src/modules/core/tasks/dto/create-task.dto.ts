@@ -1,4 +1,4 @@
-import { IsString, IsOptional, IsEnum, IsDateString } from 'class-validator';
+import { IsString, IsOptional, IsEnum, IsDateString, IsArray } from 'class-validator';
 import { TaskType, TaskPriority, TaskStatus } from '@prisma/client';
 
 export class CreateTaskDto {
@@ -43,6 +43,17 @@ export class CreateTaskDto {
   @IsDateString()
   dueDate?: string;
 
+  // Matched against staff skills when the task is assigned automatically
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  requiredSkills?: string[];
+
+  // Guest's language, e.g. 'es'
+  @IsOptional()
+  @IsString()
+  language?: string;
+
   @IsOptional()
   metadata?: any;
 
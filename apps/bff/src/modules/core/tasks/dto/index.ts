@@ -1,3 +1,7 @@
 export * from './create-task.dto';
 export * from './update-task.dto';
-export * from './task-filter.dto';
\ No newline at end of file
+export * from './task-filter.dto';
+export * from './checklist-template.dto';
+export * from './sla-policy.dto';
+export * from './update-checklist-item.dto';
+export * from './assignment-rule.dto';
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { IsEnum, IsInt, IsString, Min } from 'class-validator';
+import { TaskPriority } from '@prisma/client';
+
+export class UpsertSlaPolicyDto {
+  @IsString()
+  propertyId: string;
+
+  @IsEnum(TaskPriority)
+  priority: TaskPriority;
+
+  // Minutes from creation until someone must start the task
+  @IsInt()
+  @Min(1)
+  responseMinutes: number;
+
+  // Minutes from creation until the task must be completed
+  @IsInt()
+  @Min(1)
+  resolutionMinutes: number;
+}
@@ -0,0 +1,49 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../shared/guards/roles.guard';
+import { Roles } from '../../../shared/decorators/roles.decorator';
+import { Role } from '@prisma/client';
+import { TaskAssignmentService } from './task-assignment.service';
+import { UpsertAssignmentRuleDto } from './dto';
+
+@Controller('api/core/task-assignment-rules')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class TaskAssignmentRulesController {
+  constructor(private readonly taskAssignmentService: TaskAssignmentService) {}
+
+  @Put()
+  @Roles(
+    Role.PLATFORM_ADMIN,
+    Role.PROPERTY_MANAGER,
+    Role.ORGANIZATION_ADMIN,
+    Role.DEPARTMENT_ADMIN,
+  )
+  upsert(@Body() upsertDto: UpsertAssignmentRuleDto) {
+    return this.taskAssignmentService.upsertRule(upsertDto);
+  }
+
+  @Get()
+  findAll(@Query('propertyId') propertyId: string) {
+    return this.taskAssignmentService.findRules(propertyId);
+  }
+
+  @Delete(':id')
+  @Roles(
+    Role.PLATFORM_ADMIN,
+    Role.PROPERTY_MANAGER,
+    Role.ORGANIZATION_ADMIN,
+    Role.DEPARTMENT_ADMIN,
+  )
+  remove(@Param('id') id: string) {
+    return this.taskAssignmentService.removeRule(id);
+  }
+}
@@ -0,0 +1,175 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../shared/database/prisma.service';
+import { UpsertAssignmentRuleDto } from './dto';
+import { AssignmentCandidate, AssignmentDecision, assignmentCandidates, chooseAssignee } from '@staffnbdt/shared';
+
+@Injectable()
+export class TaskAssignmentService {
+  constructor(private prisma: PrismaService) {}
+
+  async upsertRule(upsertDto: UpsertAssignmentRuleDto) {
+    const department = await this.prisma.department.findUnique({
+      where: { id: upsertDto.departmentId },
+    });
+    if (!department) {
+      throw new NotFoundException(`Department with ID ${upsertDto.departmentId} not found`);
+    }
+
+    const { departmentId, ...settings } = upsertDto;
+    return this.prisma.taskAssignmentRule.upsert({
+      where: { departmentId },
+      create: upsertDto,
+      update: settings,
+    });
+  }
+
+  async findRules(propertyId: string) {
+    return this.prisma.taskAssignmentRule.findMany({
+      where: { department: { propertyId } },
+      include: {
+        department: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+  }
+
+  async removeRule(id: string) {
+    const rule = await this.prisma.taskAssignmentRule.findUnique({ where: { id } });
+    if (!rule) {
+      throw new NotFoundException(`Assignment rule with ID ${id} not found`);
+    }
+
+    return this.prisma.taskAssignmentRule.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Picks an assignee among the staff of the task's department and stores the
+   * explanation on the task. Returns null when the department has no enabled rule.
+   * Pass the transaction when the task was created inside one.
+   */
+  async autoAssign(
+    taskId: string,
+    now: Date = new Date(),
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<AssignmentDecision | null> {
+    const task = await tx.task.findUnique({
+      where: { id: taskId },
+      include: {
+        unit: {
+          select: {
+            building: true,
+            floor: true,
+          },
+        },
+      },
+    });
+    if (!task) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+    if (!task.departmentId) {
+      throw new BadRequestException('Only tasks with a department can be assigned automatically');
+    }
+
+    const rule = await tx.taskAssignmentRule.findUnique({
+      where: { departmentId: task.departmentId },
+    });
+    if (!rule?.isEnabled) {
+      return null;
+    }
+
+    const candidates = await this.loadCandidates(task.departmentId, task.id, now, tx);
+    const decision = chooseAssignee(
+      { requiredSkills: task.requiredSkills, language: task.language, location: task.unit },
+      candidates,
+      rule,
+      now,
+    );
+
+    await tx.task.update({
+      where: { id: task.id },
+      data: {
+        assignedToId: decision.assignedToId ?? task.assignedToId,
+        assignmentExplanation: decision as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    return decision;
+  }
+
+  private async loadCandidates(
+    departmentId: string,
+    taskId: string,
+    now: Date,
+    tx: Prisma.TransactionClient,
+  ): Promise<AssignmentCandidate[]> {
+    const staff = await tx.user.findMany({
+      where: { departmentId, deletedAt: null },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        skills: true,
+        languages: true,
+        dutyStartedAt: true,
+      },
+    });
+    const staffIds = staff.map((user) => user.id);
+    const startOfDay = new Date(now);
+    startOfDay.setUTCHours(0, 0, 0, 0);
+
+    const [openTasks, onLeave, recentTasks] = await Promise.all([
+      tx.task.groupBy({
+        by: ['assignedToId'],
+        where: {
+          assignedToId: { in: staffIds },
+          status: { in: ['PENDING', 'IN_PROGRESS'] },
+          id: { not: taskId },
+        },
+        _count: { _all: true },
+      }),
+      tx.vacation.findMany({
+        where: {
+          userId: { in: staffIds },
+          status: 'APPROVED',
+          startDate: { lte: now },
+          endDate: { gte: startOfDay },
+        },
+        select: { userId: true },
+      }),
+      // Where each person is: the unit they are working on, or the last one they finished today
+      tx.task.findMany({
+        where: {
+          assignedToId: { in: staffIds },
+          unitId: { not: null },
+          OR: [{ status: 'IN_PROGRESS' }, { status: 'COMPLETED', completedAt: { gte: startOfDay } }],
+        },
+        select: {
+          assignedToId: true,
+          status: true,
+          updatedAt: true,
+          unit: {
+            select: {
+              building: true,
+              floor: true,
+            },
+          },
+        },
+        orderBy: { updatedAt: 'desc' },
+      }),
+    ]);
+
+    return assignmentCandidates(
+      staff,
+      new Map(openTasks.map((row) => [row.assignedToId!, row._count._all])),
+      new Set(onLeave.map((vacation) => vacation.userId)),
+      recentTasks,
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../shared/guards/roles.guard';
+import { Roles } from '../../../shared/decorators/roles.decorator';
+import { Role, TaskType } from '@prisma/client';
+import { TaskChecklistTemplatesService } from './task-checklist-templates.service';
+import { CreateChecklistTemplateDto, UpdateChecklistTemplateDto } from './dto';
+
+@Controller('api/core/task-checklist-templates')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class TaskChecklistTemplatesController {
+  constructor(private readonly templatesService: TaskChecklistTemplatesService) {}
+
+  @Post()
+  @Roles(
+    Role.PLATFORM_ADMIN,
+    Role.PROPERTY_MANAGER,
+    Role.ORGANIZATION_ADMIN,
+    Role.DEPARTMENT_ADMIN,
+  )
+  create(@Body() createDto: CreateChecklistTemplateDto) {
+    return this.templatesService.create(createDto);
+  }
+
+  @Get()
+  findAll(
+    @Query('propertyId') propertyId: string,
+    @Query('taskType') taskType?: TaskType,
+  ) {
+    return this.templatesService.findAll(propertyId, taskType);
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string) {
+    return this.templatesService.findOne(id);
+  }
+
+  @Patch(':id')
+  @Roles(
+    Role.PLATFORM_ADMIN,
+    Role.PROPERTY_MANAGER,
+    Role.ORGANIZATION_ADMIN,
+    Role.DEPARTMENT_ADMIN,
+  )
+  update(@Param('id') id: string, @Body() updateDto: UpdateChecklistTemplateDto) {
+    return this.templatesService.update(id, updateDto);
+  }
+
+  @Delete(':id')
+  @Roles(
+    Role.PLATFORM_ADMIN,
+    Role.PROPERTY_MANAGER,
+    Role.ORGANIZATION_ADMIN,
+    Role.DEPARTMENT_ADMIN,
+  )
+  remove(@Param('id') id: string) {
+    return this.templatesService.remove(id);
+  }
+}
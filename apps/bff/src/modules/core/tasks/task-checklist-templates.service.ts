@@ -0,0 +1,65 @@
+import { Injectable, NotFoundException, ConflictException } from '@nestjs/common';
+import { Prisma, TaskType } from '@prisma/client';
+import { PrismaService } from '../../../shared/database/prisma.service';
+import { CreateChecklistTemplateDto, UpdateChecklistTemplateDto } from './dto';
+
+@Injectable()
+export class TaskChecklistTemplatesService {
+  constructor(private prisma: PrismaService) {}
+
+  async create(createDto: CreateChecklistTemplateDto) {
+    const existing = await this.prisma.taskChecklistTemplate.findUnique({
+      where: { propertyId_taskType: { propertyId: createDto.propertyId, taskType: createDto.taskType } },
+    });
+    if (existing) {
+      throw new ConflictException(`A checklist template for ${createDto.taskType} tasks already exists`);
+    }
+
+    return this.prisma.taskChecklistTemplate.create({
+      data: {
+        ...createDto,
+        items: createDto.items as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  async findAll(propertyId: string, taskType?: TaskType) {
+    return this.prisma.taskChecklistTemplate.findMany({
+      where: { propertyId, taskType },
+      orderBy: { taskType: 'asc' },
+    });
+  }
+
+  async findOne(id: string) {
+    const template = await this.prisma.taskChecklistTemplate.findUnique({
+      where: { id },
+    });
+
+    if (!template) {
+      throw new NotFoundException(`Checklist template with ID ${id} not found`);
+    }
+
+    return template;
+  }
+
+  /** Existing tasks keep the checklist they were created with */
+  async update(id: string, updateDto: UpdateChecklistTemplateDto) {
+    await this.findOne(id);
+
+    return this.prisma.taskChecklistTemplate.update({
+      where: { id },
+      data: {
+        ...updateDto,
+        items: updateDto.items ? (updateDto.items as unknown as Prisma.InputJsonValue) : undefined,
+      },
+    });
+  }
+
+  async remove(id: string) {
+    await this.findOne(id);
+
+    return this.prisma.taskChecklistTemplate.delete({
+      where: { id },
+    });
+  }
+}
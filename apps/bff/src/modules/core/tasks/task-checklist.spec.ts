@@ -0,0 +1,26 @@
+import { BadRequestException } from '@nestjs/common';
+import { assertItemCanBeCompleted, checklistItemsFromTemplate, openChecklistItems } from './task-checklist';
+
+describe('task checklists', () => {
+  it('copies template steps in order', () => {
+    expect(
+      checklistItemsFromTemplate([{ label: 'Strip beds' }, { label: 'Photo of bathroom', requiresPhoto: true }]),
+    ).toEqual([
+      { position: 1, label: 'Strip beds', requiresPhoto: false },
+      { position: 2, label: 'Photo of bathroom', requiresPhoto: true },
+    ]);
+    expect(checklistItemsFromTemplate(null)).toEqual([]);
+  });
+
+  it('counts unfinished items', () => {
+    expect(openChecklistItems([{ completedAt: new Date() }, { completedAt: null }, { completedAt: null }])).toBe(2);
+  });
+
+  it('requires photo evidence where the step asks for it', () => {
+    expect(() => assertItemCanBeCompleted({ label: 'Bathroom', requiresPhoto: true, photoKey: null })).toThrow(
+      BadRequestException,
+    );
+    expect(() => assertItemCanBeCompleted({ label: 'Bathroom', requiresPhoto: true, photoKey: 'tasks/a.jpg' })).not.toThrow();
+    expect(() => assertItemCanBeCompleted({ label: 'Beds', requiresPhoto: false, photoKey: null })).not.toThrow();
+  });
+});
@@ -0,0 +1,31 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma, TaskChecklistItem } from '@prisma/client';
+
+/** A step as stored on TaskChecklistTemplate.items */
+export interface ChecklistTemplateItem {
+  label: string;
+  requiresPhoto?: boolean;
+}
+
+/** Rows to create on a new task, in template order */
+export function checklistItemsFromTemplate(
+  items: Prisma.JsonValue,
+): { position: number; label: string; requiresPhoto: boolean }[] {
+  const steps = (Array.isArray(items) ? items : []) as unknown as ChecklistTemplateItem[];
+  return steps.map((step, index) => ({
+    position: index + 1,
+    label: step.label,
+    requiresPhoto: step.requiresPhoto === true,
+  }));
+}
+
+/** Items that still stand between the task and COMPLETED */
+export function openChecklistItems(items: Pick<TaskChecklistItem, 'completedAt'>[]): number {
+  return items.filter((item) => !item.completedAt).length;
+}
+
+export function assertItemCanBeCompleted(item: Pick<TaskChecklistItem, 'label' | 'requiresPhoto' | 'photoKey'>): void {
+  if (item.requiresPhoto && !item.photoKey) {
+    throw new BadRequestException(`"${item.label}" needs a photo before it can be checked off`);
+  }
+}
@@ -0,0 +1,47 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../shared/guards/roles.guard';
+import { Roles } from '../../../shared/decorators/roles.decorator';
+import { Role } from '@prisma/client';
+import { TaskSlaPoliciesService } from './task-sla-policies.service';
+import { UpsertSlaPolicyDto } from './dto';
+
+@Controller('api/core/task-sla-policies')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class TaskSlaPoliciesController {
+  constructor(private readonly slaPoliciesService: TaskSlaPoliciesService) {}
+
+  @Put()
+  @Roles(
+    Role.PLATFORM_ADMIN,
+    Role.PROPERTY_MANAGER,
+    Role.ORGANIZATION_ADMIN,
+  )
+  upsert(@Body() upsertDto: UpsertSlaPolicyDto) {
+    return this.slaPoliciesService.upsert(upsertDto);
+  }
+
+  @Get()
+  findAll(@Query('propertyId') propertyId: string) {
+    return this.slaPoliciesService.findAll(propertyId);
+  }
+
+  @Delete(':id')
+  @Roles(
+    Role.PLATFORM_ADMIN,
+    Role.PROPERTY_MANAGER,
+    Role.ORGANIZATION_ADMIN,
+  )
+  remove(@Param('id') id: string) {
+    return this.slaPoliciesService.remove(id);
+  }
+}
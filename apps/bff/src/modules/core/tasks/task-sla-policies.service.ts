@@ -0,0 +1,40 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../../shared/database/prisma.service';
+import { UpsertSlaPolicyDto } from './dto';
+
+@Injectable()
+export class TaskSlaPoliciesService {
+  constructor(private prisma: PrismaService) {}
+
+  /** One policy per priority; saving a priority again replaces its targets for new tasks */
+  async upsert(upsertDto: UpsertSlaPolicyDto) {
+    if (upsertDto.resolutionMinutes < upsertDto.responseMinutes) {
+      throw new BadRequestException('Resolution target cannot be shorter than the response target');
+    }
+
+    const { propertyId, priority, responseMinutes, resolutionMinutes } = upsertDto;
+    return this.prisma.taskSlaPolicy.upsert({
+      where: { propertyId_priority: { propertyId, priority } },
+      create: { propertyId, priority, responseMinutes, resolutionMinutes },
+      update: { responseMinutes, resolutionMinutes },
+    });
+  }
+
+  async findAll(propertyId: string) {
+    return this.prisma.taskSlaPolicy.findMany({
+      where: { propertyId },
+      orderBy: { priority: 'desc' },
+    });
+  }
+
+  async remove(id: string) {
+    const policy = await this.prisma.taskSlaPolicy.findUnique({ where: { id } });
+    if (!policy) {
+      throw new NotFoundException(`SLA policy with ID ${id} not found`);
+    }
+
+    return this.prisma.taskSlaPolicy.delete({
+      where: { id },
+    });
+  }
+}
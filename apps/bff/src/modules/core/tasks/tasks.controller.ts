@@ -9,13 +9,19 @@ import {
   Query,
   UseGuards,
   Put,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
 import { RolesGuard } from '../../../shared/guards/roles.guard';
 import { Roles } from '../../../shared/decorators/roles.decorator';
-import { Role } from '@prisma/client';
+import { CurrentUser } from '../../../shared/decorators/current-user.decorator';
+import { Role, User } from '@prisma/client';
+import { profilePhotoConfig } from '../../profile/config/multer.config';
 import { TasksService } from './tasks.service';
-import { CreateTaskDto, UpdateTaskDto, TaskFilterDto } from './dto';
+import { CreateTaskDto, UpdateTaskDto, TaskFilterDto, UpdateChecklistItemDto } from './dto';
 
 @Controller('api/core/tasks')
 @UseGuards(JwtAuthGuard, RolesGuard)
@@ -104,6 +110,42 @@ export class TasksController {
     return this.tasksService.updateStatus(id, status, completedBy);
   }
 
+  @Put(':id/checklist/:itemId')
+  updateChecklistItem(
+    @Param('id') id: string,
+    @Param('itemId') itemId: string,
+    @Body() updateDto: UpdateChecklistItemDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    return this.tasksService.updateChecklistItem(id, itemId, updateDto, currentUser.id);
+  }
+
+  @Post(':id/checklist/:itemId/photo')
+  @UseInterceptors(FileInterceptor('photo', profilePhotoConfig))
+  uploadChecklistPhoto(
+    @Param('id') id: string,
+    @Param('itemId') itemId: string,
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() currentUser: User,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No photo uploaded');
+    }
+
+    return this.tasksService.uploadChecklistPhoto(id, itemId, file, currentUser.id);
+  }
+
+  @Post(':id/auto-assign')
+  @Roles(
+    Role.PLATFORM_ADMIN,
+    Role.PROPERTY_MANAGER,
+    Role.ORGANIZATION_ADMIN,
+    Role.DEPARTMENT_ADMIN,
+  )
+  autoAssign(@Param('id') id: string) {
+    return this.tasksService.autoAssign(id);
+  }
+
   @Put(':id/assign')
   @Roles(
     Role.PLATFORM_ADMIN,
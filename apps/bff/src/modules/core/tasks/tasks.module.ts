@@ -1,10 +1,21 @@
 import { Module } from '@nestjs/common';
 import { TasksController } from './tasks.controller';
 import { TasksService } from './tasks.service';
+import { TaskChecklistTemplatesController } from './task-checklist-templates.controller';
+import { TaskChecklistTemplatesService } from './task-checklist-templates.service';
+import { TaskSlaPoliciesController } from './task-sla-policies.controller';
+import { TaskSlaPoliciesService } from './task-sla-policies.service';
+import { TaskAssignmentRulesController } from './task-assignment-rules.controller';
+import { TaskAssignmentService } from './task-assignment.service';
 
 @Module({
-  controllers: [TasksController],
-  providers: [TasksService],
-  exports: [TasksService],
+  controllers: [
+    TasksController,
+    TaskChecklistTemplatesController,
+    TaskSlaPoliciesController,
+    TaskAssignmentRulesController,
+  ],
+  providers: [TasksService, TaskChecklistTemplatesService, TaskSlaPoliciesService, TaskAssignmentService],
+  exports: [TasksService, TaskAssignmentService],
 })
 export class TasksModule {}
\ No newline at end of file
@@ -1,20 +1,53 @@
 import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../../../shared/database/prisma.service';
-import { CreateTaskDto, UpdateTaskDto, TaskFilterDto } from './dto';
+import { StorageService } from '../../../shared/storage/storage.service';
+import { CreateTaskDto, UpdateTaskDto, TaskFilterDto, UpdateChecklistItemDto } from './dto';
+import { TaskAssignmentService } from './task-assignment.service';
+import { slaBreaches, slaDeadlines } from '@staffnbdt/shared';
+import { assertItemCanBeCompleted, checklistItemsFromTemplate, openChecklistItems } from './task-checklist';
 
 @Injectable()
 export class TasksService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private storageService: StorageService,
+    private taskAssignmentService: TaskAssignmentService,
+  ) {}
 
   async create(createTaskDto: CreateTaskDto) {
+    // SLA targets and the checklist are fixed when the task is created
+    const [slaPolicy, checklistTemplate] = await Promise.all([
+      this.prisma.taskSlaPolicy.findUnique({
+        where: {
+          propertyId_priority: {
+            propertyId: createTaskDto.propertyId,
+            priority: createTaskDto.priority ?? 'MEDIUM',
+          },
+        },
+      }),
+      this.prisma.taskChecklistTemplate.findFirst({
+        where: { propertyId: createTaskDto.propertyId, taskType: createTaskDto.taskType, isActive: true },
+      }),
+    ]);
+
     const taskData: any = {
       ...createTaskDto,
       dueDate: createTaskDto.dueDate ? new Date(createTaskDto.dueDate) : null,
+      ...slaDeadlines(slaPolicy, new Date()),
     };
 
-    return this.prisma.task.create({
+    if (checklistTemplate) {
+      taskData.checklistItems = {
+        create: checklistItemsFromTemplate(checklistTemplate.items),
+      };
+    }
+
+    const task = await this.prisma.task.create({
       data: taskData,
       include: {
+        checklistItems: {
+          orderBy: { position: 'asc' },
+        },
         property: {
           select: {
             id: true,
@@ -44,6 +77,16 @@ export class TasksService {
         },
       },
     });
+
+    // Nobody picked: let the department's assignment rule choose
+    if (!task.assignedToId && task.departmentId) {
+      const decision = await this.taskAssignmentService.autoAssign(task.id);
+      if (decision?.assignedToId) {
+        return this.findOne(task.id);
+      }
+    }
+
+    return task;
   }
 
   async findAll(filters?: TaskFilterDto) {
@@ -179,6 +222,9 @@ export class TasksService {
             lastName: true,
           },
         },
+        checklistItems: {
+          orderBy: { position: 'asc' },
+        },
       },
     });
 
@@ -186,14 +232,18 @@ export class TasksService {
       throw new NotFoundException(`Task with ID ${id} not found`);
     }
 
-    return task;
+    return { ...task, slaBreaches: slaBreaches(task, new Date()) };
   }
 
   async update(id: string, updateTaskDto: UpdateTaskDto) {
-    await this.findOne(id); // Check if task exists
+    const task = await this.findOne(id); // Check if task exists
 
     const updateData: any = { ...updateTaskDto };
 
+    if (updateTaskDto.status && updateTaskDto.status !== task.status) {
+      Object.assign(updateData, this.statusChangeData(task, updateTaskDto.status));
+    }
+
     // Convert date string to Date object if provided
     if (updateTaskDto.dueDate) {
       updateData.dueDate = new Date(updateTaskDto.dueDate);
@@ -228,9 +278,9 @@ export class TasksService {
   }
 
   async updateStatus(id: string, status: string, completedBy?: string) {
-    await this.findOne(id); // Check if task exists
+    const task = await this.findOne(id); // Check if task exists
 
-    const updateData: any = { status };
+    const updateData: any = { status, ...this.statusChangeData(task, status) };
 
     if (status === 'COMPLETED') {
       updateData.completedAt = new Date();
@@ -264,6 +314,69 @@ export class TasksService {
     });
   }
 
+  async updateChecklistItem(
+    taskId: string,
+    itemId: string,
+    updateDto: UpdateChecklistItemDto,
+    userId: string,
+  ) {
+    const item = await this.findChecklistItem(taskId, itemId);
+
+    if (updateDto.completed) {
+      assertItemCanBeCompleted(item);
+    }
+
+    return this.prisma.taskChecklistItem.update({
+      where: { id: itemId },
+      data: {
+        completedAt: updateDto.completed ? (item.completedAt ?? new Date()) : null,
+        completedBy: updateDto.completed ? (item.completedBy ?? userId) : null,
+        note: updateDto.note,
+      },
+    });
+  }
+
+  /** Replaces any earlier photo; checking the item off is a separate step */
+  async uploadChecklistPhoto(
+    taskId: string,
+    itemId: string,
+    file: Express.Multer.File,
+    userId: string,
+  ) {
+    const item = await this.findChecklistItem(taskId, itemId);
+
+    const key = this.storageService.generateFileKey('task-checklists', file.originalname, userId);
+    const saved = await this.storageService.saveFile(file.buffer, {
+      key,
+      fileName: file.originalname,
+      mimeType: file.mimetype,
+      module: 'task-checklists',
+      type: 'evidence',
+    });
+
+    if (item.photoKey) {
+      // A leftover file is harmless; the item only ever points at the latest photo
+      await this.storageService.deleteFile(item.photoKey).catch(() => undefined);
+    }
+
+    return this.prisma.taskChecklistItem.update({
+      where: { id: itemId },
+      data: { photoKey: saved.key },
+    });
+  }
+
+  /** Re-runs the department's assignment rule, e.g. after staff come on duty */
+  async autoAssign(id: string) {
+    await this.findOne(id); // Check if task exists
+
+    const decision = await this.taskAssignmentService.autoAssign(id);
+    if (!decision) {
+      throw new BadRequestException('The task\'s department has no enabled assignment rule');
+    }
+
+    return { task: await this.findOne(id), decision };
+  }
+
   async assignTask(id: string, assignedToId: string, assignedBy: string) {
     await this.findOne(id); // Check if task exists
 
@@ -457,6 +570,45 @@ export class TasksService {
     };
   }
 
+  /** Side effects of a status change that the SLA and checklist depend on */
+  private statusChangeData(
+    task: { startedAt: Date | null; checklistItems: { completedAt: Date | null }[] },
+    status: string,
+  ) {
+    const data: any = {};
+
+    if (status === 'IN_PROGRESS' && !task.startedAt) {
+      data.startedAt = new Date();
+    }
+
+    if (status === 'COMPLETED') {
+      const remaining = openChecklistItems(task.checklistItems);
+      if (remaining > 0) {
+        throw new BadRequestException(
+          `Cannot complete task with ${remaining} unfinished checklist item(s)`,
+        );
+      }
+      // Completing straight from PENDING still counts as the response
+      if (!task.startedAt) {
+        data.startedAt = new Date();
+      }
+    }
+
+    return data;
+  }
+
+  private async findChecklistItem(taskId: string, itemId: string) {
+    const item = await this.prisma.taskChecklistItem.findFirst({
+      where: { id: itemId, taskId },
+    });
+
+    if (!item) {
+      throw new NotFoundException(`Checklist item with ID ${itemId} not found on task ${taskId}`);
+    }
+
+    return item;
+  }
+
   async createTaskForEntity(
     entityType: string,
     entityId: string,
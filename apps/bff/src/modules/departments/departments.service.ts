@@ -62,6 +62,7 @@ export class DepartmentsService {
         description: createDepartmentDto.description,
         location: createDepartmentDto.location,
         budget: createDepartmentDto.budget,
+        maxWeeklyHours: createDepartmentDto.maxWeeklyHours,
         managerId: createDepartmentDto.managerId,
         parentId: createDepartmentDto.parentId,
         level,
@@ -347,6 +348,7 @@ export class DepartmentsService {
         description: updateDepartmentDto.description,
         location: updateDepartmentDto.location,
         budget: updateDepartmentDto.budget,
+        maxWeeklyHours: updateDepartmentDto.maxWeeklyHours,
         managerId: updateDepartmentDto.managerId,
         parentId: updateDepartmentDto.parentId,
         level: newLevel,
@@ -1,4 +1,4 @@
-import { IsString, IsOptional, MinLength, MaxLength, IsNumber } from 'class-validator';
+import { IsString, IsOptional, MinLength, MaxLength, IsNumber, IsInt, Min, Max } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
 
@@ -42,6 +42,17 @@ export class CreateDepartmentDto {
   @IsNumber()
   budget?: number;
 
+  @ApiPropertyOptional({ 
+    example: 40,
+    description: "Most hours anyone may be rostered in a week; overrides the property's limit"
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(168)
+  maxWeeklyHours?: number;
+
   @ApiPropertyOptional({ 
     example: 'cuid123456789',
     description: 'ID of the department manager'
@@ -0,0 +1,21 @@
+import { IsDateString, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateFolioDto {
+  @ApiProperty({ example: 'Company account' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional({ example: 'USD', description: 'Defaults to the reservation currency' })
+  @IsOptional()
+  @IsString()
+  currency?: string;
+}
+
+export class PostRoomChargesDto {
+  @ApiPropertyOptional({ example: '2024-03-17', description: 'Only post nights before this date; defaults to the whole stay' })
+  @IsOptional()
+  @IsDateString()
+  throughDate?: string;
+}
@@ -0,0 +1,21 @@
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class VoidFolioLineDto {
+  @ApiProperty({ example: 'Charged to the wrong room' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class TransferFolioLineDto {
+  @ApiProperty({ example: 'folio-456', description: 'Open folio receiving the charge' })
+  @IsString()
+  @IsNotEmpty()
+  targetFolioId: string;
+
+  @ApiPropertyOptional({ example: 'Company pays for dinner' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
@@ -0,0 +1,3 @@
+export * from './create-folio.dto';
+export * from './post-folio-charge.dto';
+export * from './folio-line-action.dto';
@@ -0,0 +1,45 @@
+import { IsDateString, IsEnum, IsInt, IsNotEmpty, IsNumber, IsOptional, IsString, Max, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { FolioChargeCategory } from '@prisma/client';
+
+export class PostFolioChargeDto {
+  @ApiProperty({ enum: FolioChargeCategory, example: FolioChargeCategory.FOOD_BEVERAGE })
+  @IsEnum(FolioChargeCategory)
+  category: FolioChargeCategory;
+
+  @ApiProperty({ example: 'Room service dinner' })
+  @IsString()
+  @IsNotEmpty()
+  description: string;
+
+  @ApiPropertyOptional({ example: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  quantity?: number;
+
+  @ApiProperty({ example: 42.5, description: 'Price per unit; negative for adjustments and credits' })
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  unitAmount: number;
+
+  @ApiPropertyOptional({ example: '2024-03-16', description: 'Business date of the charge; defaults to today' })
+  @IsOptional()
+  @IsDateString()
+  serviceDate?: string;
+
+  @ApiPropertyOptional({ example: 'POS-10293' })
+  @IsOptional()
+  @IsString()
+  reference?: string;
+
+  @ApiPropertyOptional({ example: 12, description: 'Tax percentage posted as a separate TAX line' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  taxRate?: number;
+}
@@ -0,0 +1,139 @@
+import { Controller, Get, Post, Body, Param, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { FoliosService } from './folios.service';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { PermissionGuard } from '../../shared/guards/permission.guard';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { RequirePermission } from '../../shared/decorators/require-permission.decorator';
+import { Audit } from '../../shared/decorators/audit.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+import { CreateFolioDto, PostFolioChargeDto, PostRoomChargesDto, TransferFolioLineDto, VoidFolioLineDto } from './dto';
+import { User } from '@prisma/client';
+
+@ApiTags('Folios')
+@Controller('folios')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class FoliosController {
+  constructor(private readonly foliosService: FoliosService) {}
+
+  @Get('reservation/:reservationId')
+  @RequirePermission('folio.read.property')
+  @ApiOperation({ summary: 'Get the folios of a reservation, opening the primary folio if needed' })
+  @ApiResponse({ status: 200, description: 'Folios retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Reservation not found' })
+  async findByReservation(@Param('reservationId') reservationId: string, @CurrentUser() currentUser: User) {
+    const folios = await this.foliosService.findByReservation(reservationId, currentUser);
+    return CustomApiResponse.success(folios, 'Folios retrieved successfully');
+  }
+
+  @Post('reservation/:reservationId')
+  @RequirePermission('folio.create.property')
+  @Audit({ action: 'CREATE', entity: 'Folio' })
+  @ApiOperation({ summary: 'Open an additional folio for a reservation' })
+  @ApiResponse({ status: 201, description: 'Folio created successfully' })
+  @ApiResponse({ status: 404, description: 'Reservation not found' })
+  async create(
+    @Param('reservationId') reservationId: string,
+    @Body() createFolioDto: CreateFolioDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const folio = await this.foliosService.create(reservationId, createFolioDto, currentUser);
+    return CustomApiResponse.success(folio, 'Folio created successfully');
+  }
+
+  @Get(':id')
+  @RequirePermission('folio.read.property')
+  @ApiOperation({ summary: 'Get a folio with its lines and balance' })
+  @ApiResponse({ status: 200, description: 'Folio retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Folio not found' })
+  async findOne(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    const folio = await this.foliosService.findOne(id, currentUser);
+    return CustomApiResponse.success(folio, 'Folio retrieved successfully');
+  }
+
+  @Post(':id/charges')
+  @RequirePermission('folio.create.property')
+  @Audit({ action: 'POST_CHARGE', entity: 'Folio' })
+  @ApiOperation({ summary: 'Post a charge, adjustment or credit to a folio' })
+  @ApiResponse({ status: 201, description: 'Charge posted successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Folio is closed or charge is invalid' })
+  @ApiResponse({ status: 404, description: 'Folio not found' })
+  async postCharge(
+    @Param('id') id: string,
+    @Body() postChargeDto: PostFolioChargeDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const folio = await this.foliosService.postCharge(id, postChargeDto, currentUser);
+    return CustomApiResponse.success(folio, 'Charge posted successfully');
+  }
+
+  @Post(':id/room-charges')
+  @RequirePermission('folio.create.property')
+  @Audit({ action: 'POST_ROOM_CHARGES', entity: 'Folio' })
+  @ApiOperation({ summary: 'Post room nights that have not been charged yet' })
+  @ApiResponse({ status: 201, description: 'Room charges posted successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Folio is closed or nothing to post' })
+  async postRoomCharges(
+    @Param('id') id: string,
+    @Body() postRoomChargesDto: PostRoomChargesDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const folio = await this.foliosService.postRoomCharges(id, postRoomChargesDto, currentUser);
+    return CustomApiResponse.success(folio, 'Room charges posted successfully');
+  }
+
+  @Post(':id/lines/:lineId/void')
+  @RequirePermission('folio.update.property')
+  @Audit({ action: 'VOID', entity: 'FolioLine' })
+  @ApiOperation({ summary: 'Void a folio line with a reason' })
+  @ApiResponse({ status: 200, description: 'Line voided successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Line is not posted or folio is closed' })
+  @ApiResponse({ status: 404, description: 'Folio or line not found' })
+  async voidLine(
+    @Param('id') id: string,
+    @Param('lineId') lineId: string,
+    @Body() voidDto: VoidFolioLineDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const folio = await this.foliosService.voidLine(id, lineId, voidDto, currentUser);
+    return CustomApiResponse.success(folio, 'Line voided successfully');
+  }
+
+  @Post(':id/lines/:lineId/transfer')
+  @RequirePermission('folio.update.property')
+  @Audit({ action: 'TRANSFER', entity: 'FolioLine' })
+  @ApiOperation({ summary: 'Transfer a folio line to another open folio' })
+  @ApiResponse({ status: 200, description: 'Line transferred successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Line or folios cannot be used for a transfer' })
+  @ApiResponse({ status: 404, description: 'Folio or line not found' })
+  async transferLine(
+    @Param('id') id: string,
+    @Param('lineId') lineId: string,
+    @Body() transferDto: TransferFolioLineDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const folio = await this.foliosService.transferLine(id, lineId, transferDto, currentUser);
+    return CustomApiResponse.success(folio, 'Line transferred successfully');
+  }
+
+  @Post(':id/pdf')
+  @RequirePermission('folio.read.property')
+  @ApiOperation({ summary: 'Request a PDF of the folio from the worker' })
+  @ApiResponse({ status: 201, description: 'Folio PDF requested' })
+  @ApiResponse({ status: 404, description: 'Folio not found' })
+  async requestPdf(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    const status = await this.foliosService.requestPdf(id, currentUser);
+    return CustomApiResponse.success(status, 'Folio PDF requested');
+  }
+
+  @Get(':id/pdf')
+  @RequirePermission('folio.read.property')
+  @ApiOperation({ summary: 'Get the folio PDF status and download link' })
+  @ApiResponse({ status: 200, description: 'Folio PDF status retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Folio not found' })
+  async getPdfStatus(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    const status = await this.foliosService.getPdfStatus(id, currentUser);
+    return CustomApiResponse.success(status, 'Folio PDF status retrieved successfully');
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { FoliosService } from './folios.service';
+import { FoliosController } from './folios.controller';
+import { StorageModule } from '../../shared/storage/storage.module';
+
+@Module({
+  imports: [StorageModule],
+  providers: [FoliosService],
+  controllers: [FoliosController],
+  exports: [FoliosService],
+})
+export class FoliosModule {}
@@ -0,0 +1,128 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { FolioChargeCategory, FolioLineStatus, FolioStatus, Prisma, User } from '@prisma/client';
+import { FoliosService } from './folios.service';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { StorageService } from '../../shared/storage/storage.service';
+import { WorkerQueueService } from '../../shared/queue/worker-queue.service';
+
+describe('FoliosService', () => {
+  let service: FoliosService;
+  let prismaService: any;
+  let workerQueue: any;
+
+  const currentUser = { id: 'user1', organizationId: 'org1', propertyId: 'prop1' } as User;
+
+  const openFolio = {
+    id: 'folio1',
+    propertyId: 'prop1',
+    reservationId: 'res1',
+    folioNumber: 'RES1-1',
+    status: FolioStatus.OPEN,
+    pdfFileKey: null,
+    pdfGeneratedAt: null,
+    pdfRequestedAt: null,
+  };
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      folio: {
+        findFirst: jest.fn().mockResolvedValue({ ...openFolio, lines: [] }),
+        update: jest.fn(),
+      },
+      folioLine: {
+        findFirst: jest.fn(),
+        create: jest.fn(),
+        updateMany: jest.fn(),
+      },
+      $transaction: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FoliosService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: { logCreate: jest.fn(), logUpdate: jest.fn() } },
+        { provide: StorageService, useValue: { generatePresignedDownloadUrl: jest.fn() } },
+        { provide: WorkerQueueService, useValue: { addJob: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<FoliosService>(FoliosService);
+    prismaService = module.get(PrismaService);
+    workerQueue = module.get(WorkerQueueService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('requestPdf', () => {
+    it('queues the folio for the worker to render', async () => {
+      const requestedAt = new Date('2025-03-10T10:00:00Z');
+      prismaService.folio.update.mockResolvedValue({ ...openFolio, pdfRequestedAt: requestedAt });
+
+      const result = await service.requestPdf(openFolio.id, currentUser);
+
+      expect(workerQueue.addJob).toHaveBeenCalledWith('folio-pdf-generation', 'generate-folio-pdf', {
+        folioId: openFolio.id,
+        requestedBy: currentUser.id,
+      });
+      expect(result.status).toBe('PENDING');
+    });
+  });
+
+  describe('postCharge', () => {
+    it('rejects payments, which go through the payments ledger', async () => {
+      await expect(
+        service.postCharge(
+          openFolio.id,
+          { category: FolioChargeCategory.PAYMENT, description: 'Cash', unitAmount: 100 },
+          currentUser,
+        ),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('voidLine', () => {
+    it('refuses to void a mirrored payment line', async () => {
+      prismaService.folioLine.findFirst.mockResolvedValue({
+        id: 'line1',
+        folioId: openFolio.id,
+        category: FolioChargeCategory.PAYMENT,
+        status: FolioLineStatus.POSTED,
+        amount: new Prisma.Decimal(-100),
+      });
+
+      await expect(service.voidLine(openFolio.id, 'line1', { reason: 'Mistake' }, currentUser)).rejects.toThrow(
+        BadRequestException,
+      );
+
+      expect(prismaService.folioLine.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('voids a charge together with its tax', async () => {
+      prismaService.folioLine.findFirst.mockResolvedValue({
+        id: 'line1',
+        folioId: openFolio.id,
+        category: FolioChargeCategory.SPA,
+        status: FolioLineStatus.POSTED,
+        amount: new Prisma.Decimal(80),
+      });
+
+      await service.voidLine(openFolio.id, 'line1', { reason: 'Comped' }, currentUser);
+
+      expect(prismaService.folioLine.updateMany).toHaveBeenCalledWith({
+        where: {
+          folioId: openFolio.id,
+          status: FolioLineStatus.POSTED,
+          OR: [{ id: 'line1' }, { parentLineId: 'line1' }],
+        },
+        data: expect.objectContaining({ status: FolioLineStatus.VOIDED, voidReason: 'Comped' }),
+      });
+    });
+  });
+});
@@ -0,0 +1,549 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { WorkerQueueService } from '../../shared/queue/worker-queue.service';
+import { StorageService } from '../../shared/storage/storage.service';
+import { CreateFolioDto, PostFolioChargeDto, PostRoomChargesDto, TransferFolioLineDto, VoidFolioLineDto } from './dto';
+import { FolioWithTotals, FolioPdfStatus } from './interfaces';
+import {
+  summarizeFolioLines,
+  calculateTax,
+  findUnpostedRoomNights,
+  stayNights,
+  roundCurrency,
+} from '@staffnbdt/shared';
+import {
+  User,
+  Folio,
+  FolioLine,
+  FolioStatus,
+  FolioLineStatus,
+  FolioChargeCategory,
+  Reservation,
+  Prisma,
+} from '@prisma/client';
+
+type ReservationForFolio = Pick<
+  Reservation,
+  'id' | 'propertyId' | 'reservationNumber' | 'currency' | 'checkInDate' | 'checkOutDate' | 'totalAmount' | 'nightlyRates'
+>;
+
+@Injectable()
+export class FoliosService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+    private readonly workerQueue: WorkerQueueService,
+    private readonly storageService: StorageService,
+  ) {}
+
+  async findByReservation(reservationId: string, currentUser: User): Promise<FolioWithTotals[]> {
+    await this.findReservation(reservationId, currentUser);
+
+    const folios = await this.prisma.folio.findMany({
+      where: { reservationId },
+      include: { lines: { orderBy: [{ serviceDate: 'asc' }, { createdAt: 'asc' }] } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return folios.map((folio) => this.withTotals(folio));
+  }
+
+  async create(reservationId: string, createFolioDto: CreateFolioDto, currentUser: User): Promise<FolioWithTotals> {
+    const reservation = await this.findReservation(reservationId, currentUser);
+    await this.ensurePrimaryFolio(reservation);
+
+    const folioCount = await this.prisma.folio.count({ where: { reservationId } });
+    const folio = await this.prisma.folio.create({
+      data: {
+        propertyId: reservation.propertyId,
+        reservationId,
+        folioNumber: `${reservation.reservationNumber}-${folioCount + 1}`,
+        name: createFolioDto.name,
+        currency: createFolioDto.currency ?? reservation.currency,
+      },
+      include: { lines: true },
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'Folio', folio.id, { reservationId, name: folio.name });
+
+    return this.withTotals(folio);
+  }
+
+  async findOne(id: string, currentUser: User): Promise<FolioWithTotals> {
+    const folio = await this.prisma.folio.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+      include: { lines: { orderBy: [{ serviceDate: 'asc' }, { createdAt: 'asc' }] } },
+    });
+
+    if (!folio) {
+      throw new NotFoundException('Folio not found');
+    }
+
+    return this.withTotals(folio);
+  }
+
+  /**
+   * Posts a charge, adjustment or credit; a tax rate adds a linked TAX line
+   * that is voided and transferred together with its charge. Payments are
+   * recorded through PaymentsService, which mirrors them onto the folio.
+   */
+  async postCharge(id: string, postChargeDto: PostFolioChargeDto, currentUser: User): Promise<FolioWithTotals> {
+    const folio = await this.findOpenFolio(id, currentUser);
+
+    const { category, taxRate, unitAmount } = postChargeDto;
+    if (category === FolioChargeCategory.PAYMENT) {
+      throw new BadRequestException('Record payments through the reservation payments ledger');
+    }
+    if (taxRate && category === FolioChargeCategory.TAX) {
+      throw new BadRequestException(`Tax cannot be applied to ${category} lines`);
+    }
+
+    const quantity = postChargeDto.quantity ?? 1;
+    const amount = roundCurrency(unitAmount * quantity);
+    const serviceDate = postChargeDto.serviceDate ? new Date(postChargeDto.serviceDate) : new Date();
+
+    const line = await this.prisma.$transaction(async (tx) => {
+      const charge = await tx.folioLine.create({
+        data: {
+          folioId: folio.id,
+          category,
+          description: postChargeDto.description,
+          quantity,
+          unitAmount,
+          amount,
+          serviceDate,
+          reference: postChargeDto.reference,
+          postedBy: currentUser.id,
+        },
+      });
+
+      if (taxRate) {
+        const tax = calculateTax(amount, taxRate);
+        await tx.folioLine.create({
+          data: {
+            folioId: folio.id,
+            category: FolioChargeCategory.TAX,
+            description: `Tax ${taxRate}% on ${postChargeDto.description}`,
+            unitAmount: tax,
+            amount: tax,
+            serviceDate,
+            parentLineId: charge.id,
+            postedBy: currentUser.id,
+          },
+        });
+      }
+
+      return charge;
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'FolioLine', line.id, {
+      folioId: folio.id,
+      category,
+      description: line.description,
+      amount,
+      taxRate,
+    });
+
+    return this.findOne(folio.id, currentUser);
+  }
+
+  async voidLine(id: string, lineId: string, voidDto: VoidFolioLineDto, currentUser: User): Promise<FolioWithTotals> {
+    const folio = await this.findOpenFolio(id, currentUser);
+    const line = await this.findPostedLine(folio.id, lineId);
+    if (line.category === FolioChargeCategory.PAYMENT) {
+      throw new BadRequestException('Payment lines mirror the payments ledger; refund the payment instead');
+    }
+    const voidedAt = new Date();
+
+    // Voiding a charge also voids the tax posted on it
+    await this.prisma.folioLine.updateMany({
+      where: {
+        folioId: folio.id,
+        status: FolioLineStatus.POSTED,
+        OR: [{ id: line.id }, { parentLineId: line.id }],
+      },
+      data: {
+        status: FolioLineStatus.VOIDED,
+        voidedAt,
+        voidedBy: currentUser.id,
+        voidReason: voidDto.reason,
+      },
+    });
+
+    await this.auditService.logUpdate(
+      currentUser.id,
+      'FolioLine',
+      line.id,
+      { status: line.status, amount: line.amount },
+      { status: FolioLineStatus.VOIDED, voidReason: voidDto.reason },
+    );
+
+    return this.findOne(folio.id, currentUser);
+  }
+
+  /**
+   * Moves a charge (and its tax) to another open folio in the property, e.g.
+   * from the guest's folio to a company or group master folio. The original
+   * line stays behind as TRANSFERRED and the copy points back to it.
+   */
+  async transferLine(
+    id: string,
+    lineId: string,
+    transferDto: TransferFolioLineDto,
+    currentUser: User,
+  ): Promise<FolioWithTotals> {
+    const folio = await this.findOpenFolio(id, currentUser);
+    const line = await this.findPostedLine(folio.id, lineId);
+
+    if (transferDto.targetFolioId === folio.id) {
+      throw new BadRequestException('Charge is already on this folio');
+    }
+
+    const target = await this.findOpenFolio(transferDto.targetFolioId, currentUser);
+    if (target.currency !== folio.currency) {
+      throw new BadRequestException(`Cannot transfer ${folio.currency} charges to a ${target.currency} folio`);
+    }
+
+    const transferredAt = new Date();
+    const taxLines = await this.prisma.folioLine.findMany({
+      where: { parentLineId: line.id, status: FolioLineStatus.POSTED },
+    });
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.folioLine.updateMany({
+        where: { id: { in: [line.id, ...taxLines.map((taxLine) => taxLine.id)] } },
+        data: { status: FolioLineStatus.TRANSFERRED, transferredAt, transferredBy: currentUser.id },
+      });
+
+      const copy = await tx.folioLine.create({
+        data: {
+          ...this.copyLineData(line, target.id, currentUser),
+          description: transferDto.reason ? `${line.description} (${transferDto.reason})` : line.description,
+        },
+      });
+
+      for (const taxLine of taxLines) {
+        await tx.folioLine.create({
+          data: { ...this.copyLineData(taxLine, target.id, currentUser), parentLineId: copy.id },
+        });
+      }
+    });
+
+    await this.auditService.logUpdate(
+      currentUser.id,
+      'FolioLine',
+      line.id,
+      { folioId: folio.id },
+      { folioId: target.id, reason: transferDto.reason },
+    );
+
+    return this.findOne(folio.id, currentUser);
+  }
+
+  async postRoomCharges(id: string, postRoomChargesDto: PostRoomChargesDto, currentUser: User): Promise<FolioWithTotals> {
+    const folio = await this.findOpenFolio(id, currentUser);
+    const reservation = await this.findReservation(folio.reservationId, currentUser);
+
+    const posted = await this.postUnpostedRoomNights(
+      folio,
+      reservation,
+      currentUser,
+      postRoomChargesDto.throughDate ? new Date(postRoomChargesDto.throughDate) : undefined,
+    );
+    if (posted === 0) {
+      throw new BadRequestException('All room nights are already posted');
+    }
+
+    return this.findOne(folio.id, currentUser);
+  }
+
+  /**
+   * Final billing at check-out: posts any room nights not yet charged and the
+   * additional charges to the primary folio, then closes every open folio.
+   */
+  async closeOutReservation(
+    reservation: ReservationForFolio,
+    additionalCharges: { amount?: number; description?: string },
+    currentUser: User,
+  ): Promise<void> {
+    const primary = await this.ensurePrimaryFolio(reservation);
+
+    if (primary.status === FolioStatus.OPEN) {
+      await this.postUnpostedRoomNights(primary, reservation, currentUser);
+
+      if (additionalCharges.amount) {
+        await this.prisma.folioLine.create({
+          data: {
+            folioId: primary.id,
+            category: FolioChargeCategory.MISC,
+            description: additionalCharges.description || 'Additional charges at check-out',
+            unitAmount: additionalCharges.amount,
+            amount: additionalCharges.amount,
+            serviceDate: new Date(),
+            postedBy: currentUser.id,
+          },
+        });
+      }
+    }
+
+    await this.prisma.folio.updateMany({
+      where: { reservationId: reservation.id, status: FolioStatus.OPEN },
+      data: { status: FolioStatus.CLOSED, closedAt: new Date(), closedBy: currentUser.id },
+    });
+  }
+
+  /**
+   * Mirrors a captured payment (negative amount) or refund (positive amount)
+   * from the payments ledger onto the primary folio. Closed folios are left
+   * untouched; the payment ledger remains the record in that case.
+   */
+  async recordSettlement(
+    reservation: ReservationForFolio,
+    settlement: { amount: number; description: string; reference?: string },
+    currentUser: User,
+  ): Promise<void> {
+    const primary = await this.ensurePrimaryFolio(reservation);
+    if (primary.status !== FolioStatus.OPEN) return;
+
+    await this.prisma.folioLine.create({
+      data: {
+        folioId: primary.id,
+        category: FolioChargeCategory.PAYMENT,
+        description: settlement.description,
+        unitAmount: settlement.amount,
+        amount: settlement.amount,
+        serviceDate: new Date(),
+        reference: settlement.reference,
+        postedBy: currentUser.id,
+      },
+    });
+  }
+
+  /** Posts a cancellation fee to the primary folio, where it waits for settlement */
+  async postCancellationFee(
+    reservation: ReservationForFolio,
+    fee: { amount: number; description: string },
+    currentUser: User,
+  ): Promise<void> {
+    const primary = await this.ensurePrimaryFolio(reservation);
+    if (primary.status !== FolioStatus.OPEN) return;
+
+    const line = await this.prisma.folioLine.create({
+      data: {
+        folioId: primary.id,
+        category: FolioChargeCategory.CANCELLATION,
+        description: fee.description,
+        unitAmount: fee.amount,
+        amount: fee.amount,
+        serviceDate: new Date(),
+        reference: reservation.reservationNumber,
+        postedBy: currentUser.id,
+      },
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'FolioLine', line.id, {
+      folioId: primary.id,
+      category: FolioChargeCategory.CANCELLATION,
+      description: fee.description,
+      amount: fee.amount,
+    });
+  }
+
+  /**
+   * Queues the printable folio. The worker renders it with its PdfService,
+   * uploads it and stamps pdfFileKey/pdfGeneratedAt on the folio.
+   */
+  async requestPdf(id: string, currentUser: User): Promise<FolioPdfStatus> {
+    const existing = await this.findOne(id, currentUser);
+
+    const folio = await this.prisma.folio.update({
+      where: { id: existing.id },
+      data: { pdfRequestedAt: new Date() },
+    });
+
+    await this.workerQueue.addJob('folio-pdf-generation', 'generate-folio-pdf', {
+      folioId: folio.id,
+      requestedBy: currentUser.id,
+    });
+
+    return this.toPdfStatus(folio);
+  }
+
+  async getPdfStatus(id: string, currentUser: User): Promise<FolioPdfStatus> {
+    const folio = await this.findOne(id, currentUser);
+    return this.toPdfStatus(folio);
+  }
+
+  private async toPdfStatus(folio: Folio): Promise<FolioPdfStatus> {
+    const isReady =
+      !!folio.pdfFileKey &&
+      !!folio.pdfGeneratedAt &&
+      (!folio.pdfRequestedAt || folio.pdfGeneratedAt >= folio.pdfRequestedAt);
+
+    return {
+      folioId: folio.id,
+      status: isReady ? 'READY' : folio.pdfRequestedAt ? 'PENDING' : 'NOT_REQUESTED',
+      requestedAt: folio.pdfRequestedAt,
+      generatedAt: folio.pdfGeneratedAt,
+      downloadUrl: isReady ? await this.storageService.generatePresignedDownloadUrl(folio.pdfFileKey!) : null,
+    };
+  }
+
+  private async postUnpostedRoomNights(
+    folio: Folio,
+    reservation: ReservationForFolio,
+    currentUser: User,
+    throughDate?: Date,
+  ): Promise<number> {
+    // Voided nights count as posted (comped) and transfer copies would count twice
+    const postedRoomLines = await this.prisma.folioLine.findMany({
+      where: {
+        folio: { reservationId: reservation.id },
+        category: FolioChargeCategory.ROOM,
+        transferredFromLineId: null,
+      },
+      select: { serviceDate: true },
+    });
+
+    const nights = findUnpostedRoomNights(
+      stayNights(reservation),
+      postedRoomLines.map((line) => line.serviceDate),
+      throughDate,
+    );
+
+    if (nights.length === 0) return 0;
+
+    // Same room tax the night audit applies
+    const property = await this.prisma.property.findUniqueOrThrow({
+      where: { id: reservation.propertyId },
+      select: { roomTaxRate: true },
+    });
+    const taxRate = property.roomTaxRate.toNumber();
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const night of nights) {
+        const description = `Room charge - night of ${night.date}`;
+        const serviceDate = new Date(`${night.date}T00:00:00.000Z`);
+        const roomLine = await tx.folioLine.create({
+          data: {
+            folioId: folio.id,
+            category: FolioChargeCategory.ROOM,
+            description,
+            unitAmount: night.total,
+            amount: night.total,
+            serviceDate,
+            reference: reservation.reservationNumber,
+            postedBy: currentUser.id,
+          },
+        });
+
+        if (taxRate > 0) {
+          const tax = calculateTax(night.total, taxRate);
+          await tx.folioLine.create({
+            data: {
+              folioId: folio.id,
+              category: FolioChargeCategory.TAX,
+              description: `Tax ${taxRate}% on ${description}`,
+              unitAmount: tax,
+              amount: tax,
+              serviceDate,
+              reference: reservation.reservationNumber,
+              parentLineId: roomLine.id,
+              postedBy: currentUser.id,
+            },
+          });
+        }
+      }
+    });
+
+    return nights.length;
+  }
+
+  /**
+   * Opens the guest folio a reservation is billed to. Called at booking;
+   * postings go through it as well so they never land without a folio.
+   */
+  async ensurePrimaryFolio(reservation: ReservationForFolio): Promise<Folio> {
+    const existing = await this.prisma.folio.findFirst({
+      where: { reservationId: reservation.id, isPrimary: true },
+    });
+    if (existing) return existing;
+
+    return this.prisma.folio.create({
+      data: {
+        propertyId: reservation.propertyId,
+        reservationId: reservation.id,
+        folioNumber: `${reservation.reservationNumber}-1`,
+        isPrimary: true,
+        currency: reservation.currency,
+      },
+    });
+  }
+
+  private async findReservation(reservationId: string, currentUser: User): Promise<ReservationForFolio> {
+    const reservation = await this.prisma.reservation.findFirst({
+      where: { id: reservationId, propertyId: currentUser.propertyId! },
+    });
+
+    if (!reservation) {
+      throw new NotFoundException('Reservation not found');
+    }
+
+    return reservation;
+  }
+
+  private async findOpenFolio(id: string, currentUser: User): Promise<Folio> {
+    const folio = await this.prisma.folio.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+    });
+
+    if (!folio) {
+      throw new NotFoundException('Folio not found');
+    }
+
+    if (folio.status !== FolioStatus.OPEN) {
+      throw new BadRequestException(`Folio ${folio.folioNumber} is closed`);
+    }
+
+    return folio;
+  }
+
+  private async findPostedLine(folioId: string, lineId: string): Promise<FolioLine> {
+    const line = await this.prisma.folioLine.findFirst({ where: { id: lineId, folioId } });
+
+    if (!line) {
+      throw new NotFoundException('Folio line not found');
+    }
+
+    if (line.status !== FolioLineStatus.POSTED) {
+      throw new BadRequestException(`Line is already ${line.status.toLowerCase()}`);
+    }
+
+    return line;
+  }
+
+  private copyLineData(line: FolioLine, folioId: string, currentUser: User): Prisma.FolioLineUncheckedCreateInput {
+    return {
+      folioId,
+      category: line.category,
+      description: line.description,
+      quantity: line.quantity,
+      unitAmount: line.unitAmount,
+      amount: line.amount,
+      serviceDate: line.serviceDate,
+      reference: line.reference,
+      transferredFromLineId: line.id,
+      postedBy: currentUser.id,
+    };
+  }
+
+  private withTotals(folio: Folio & { lines: FolioLine[] }): FolioWithTotals {
+    return {
+      ...folio,
+      totals: summarizeFolioLines(
+        folio.lines.map((line) => ({ category: line.category, status: line.status, amount: line.amount.toNumber() })),
+      ),
+    };
+  }
+}
@@ -0,0 +1,17 @@
+import { Folio, FolioChargeCategory, FolioLine } from '@prisma/client';
+import { FolioTotals as LedgerTotals } from '@staffnbdt/shared';
+
+export type FolioTotals = LedgerTotals<FolioChargeCategory>;
+
+export interface FolioWithTotals extends Folio {
+  lines: FolioLine[];
+  totals: FolioTotals;
+}
+
+export interface FolioPdfStatus {
+  folioId: string;
+  status: 'NOT_REQUESTED' | 'PENDING' | 'READY';
+  requestedAt: Date | null;
+  generatedAt: Date | null;
+  downloadUrl: string | null;
+}
@@ -0,0 +1,20 @@
+import { IsOptional, IsInt, Min, Max } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+
+export class DuplicateFilterDto {
+  @ApiPropertyOptional({ example: 60, description: 'Minimum confidence score (0-100)' })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  minScore?: number = 60;
+
+  @ApiPropertyOptional({ example: 50 })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsInt()
+  @Min(1)
+  limit?: number = 50;
+}
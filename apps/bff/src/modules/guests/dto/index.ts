@@ -1,3 +1,5 @@
 export * from './create-guest.dto';
 export * from './update-guest.dto';
-export * from './guest-filter.dto';
\ No newline at end of file
+export * from './guest-filter.dto';
+export * from './duplicate-filter.dto';
+export * from './merge-guest.dto';
\ No newline at end of file
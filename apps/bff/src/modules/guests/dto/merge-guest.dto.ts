@@ -0,0 +1,9 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MergeGuestDto {
+  @ApiProperty({ description: 'Profile to fold into the surviving guest; it is soft deleted' })
+  @IsString()
+  @IsNotEmpty()
+  duplicateGuestId: string;
+}
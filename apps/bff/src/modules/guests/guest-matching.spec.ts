@@ -0,0 +1,95 @@
+import { findDuplicateMatches, nameSimilarity, scoreGuestMatch, MatchableGuest } from './guest-matching';
+
+describe('guest-matching', () => {
+  const guest = (id: string, overrides: Partial<MatchableGuest> = {}): MatchableGuest => ({
+    id,
+    firstName: 'Maria',
+    lastName: 'Gonzalez',
+    email: null,
+    phoneNumber: null,
+    passportNumber: null,
+    dateOfBirth: null,
+    ...overrides,
+  });
+
+  describe('nameSimilarity', () => {
+    it('ignores accents, case and swapped first/last names', () => {
+      expect(nameSimilarity(guest('a'), guest('b', { firstName: 'MARÍA', lastName: 'González' }))).toBe(1);
+      expect(nameSimilarity(guest('a'), guest('b', { firstName: 'Gonzalez', lastName: 'Maria' }))).toBe(1);
+    });
+
+    it('tolerates small typos', () => {
+      expect(nameSimilarity(guest('a'), guest('b', { lastName: 'Gonzales' }))).toBeGreaterThan(0.9);
+      expect(nameSimilarity(guest('a'), guest('b', { firstName: 'Peter', lastName: 'Smith' }))).toBeLessThan(0.5);
+    });
+  });
+
+  describe('scoreGuestMatch', () => {
+    it('scores a shared passport highly regardless of formatting', () => {
+      const match = scoreGuestMatch(
+        guest('a', { passportNumber: 'x1234-567' }),
+        guest('b', { lastName: 'Gonzales', passportNumber: 'X1234567' }),
+      );
+
+      expect(match?.reasons).toEqual(['PASSPORT', 'NAME']);
+      expect(match!.score).toBeGreaterThanOrEqual(95);
+    });
+
+    it('matches phone numbers on their trailing digits', () => {
+      const match = scoreGuestMatch(
+        guest('a', { phoneNumber: '+1 (555) 010-2030' }),
+        guest('b', { phoneNumber: '555.010.2030' }),
+      );
+
+      expect(match?.reasons).toContain('PHONE');
+    });
+
+    it('discounts a shared email between people with different names', () => {
+      const spouse = scoreGuestMatch(
+        guest('a', { email: 'family@example.com' }),
+        guest('b', { firstName: 'Jorge', lastName: 'Ramirez', email: 'family@example.com' }),
+      );
+      const same = scoreGuestMatch(
+        guest('a', { email: 'family@example.com' }),
+        guest('b', { email: 'Family@Example.com ' }),
+      );
+
+      expect(spouse!.score).toBeLessThan(same!.score);
+      expect(spouse!.score).toBeLessThan(60);
+    });
+
+    it('penalizes conflicting passports and birth dates', () => {
+      const match = scoreGuestMatch(
+        guest('a', { passportNumber: 'A111', dateOfBirth: new Date('1980-01-01') }),
+        guest('b', { passportNumber: 'B222', dateOfBirth: new Date('1992-06-30') }),
+      );
+
+      expect(match?.reasons).toEqual(['NAME']);
+      expect(match!.score).toBeLessThan(30);
+    });
+
+    it('returns null when nothing matches', () => {
+      expect(scoreGuestMatch(guest('a'), guest('b', { firstName: 'Peter', lastName: 'Smith' }))).toBeNull();
+    });
+  });
+
+  describe('findDuplicateMatches', () => {
+    it('returns each pair once, best first, above the threshold', () => {
+      const matches = findDuplicateMatches(
+        [
+          guest('a', { email: 'maria@example.com' }),
+          guest('b', { email: 'MARIA@example.com', dateOfBirth: new Date('1985-03-02') }),
+          guest('c', { firstName: 'Gonzalez', lastName: 'Maria', dateOfBirth: new Date('1985-03-02') }),
+          guest('d', { firstName: 'Peter', lastName: 'Smith' }),
+        ],
+        70,
+      );
+
+      expect(matches.map((m) => [m.guestId, m.duplicateId])).toEqual([
+        ['a', 'b'],
+        ['b', 'c'],
+      ]);
+      expect(matches[0].score).toBeGreaterThan(matches[1].score);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+export interface MatchableGuest {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  phoneNumber: string | null;
+  passportNumber: string | null;
+  dateOfBirth: Date | null;
+}
+
+export type MatchReason = 'PASSPORT' | 'EMAIL' | 'PHONE' | 'NAME' | 'DATE_OF_BIRTH';
+
+export interface GuestMatch {
+  guestId: string;
+  duplicateId: string;
+  /** 0-100 */
+  score: number;
+  reasons: MatchReason[];
+}
+
+/** Trailing digits compared, so "+1 (555) 010-2030" matches "5550102030" */
+const PHONE_DIGITS = 9;
+
+export const normalizeName = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const normalizeEmail = (value: string | null): string | null => value?.trim().toLowerCase() || null;
+
+export const normalizePhone = (value: string | null): string | null => {
+  const digits = value?.replace(/\D/g, '') ?? '';
+  return digits.length >= 7 ? digits.slice(-PHONE_DIGITS) : null;
+};
+
+export const normalizeDocument = (value: string | null): string | null =>
+  value?.toUpperCase().replace(/[^A-Z0-9]/g, '') || null;
+
+const toDateKey = (date: Date | null): string | null => (date ? date.toISOString().split('T')[0] : null);
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+const similarity = (a: string, b: string): number =>
+  a.length === 0 && b.length === 0 ? 1 : 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+/**
+ * 0-1 similarity of two full names. Tolerates typos, accents and
+ * first/last name entered the wrong way round.
+ */
+export function nameSimilarity(a: MatchableGuest, b: MatchableGuest): number {
+  const first = normalizeName(`${a.firstName} ${a.lastName}`);
+  const second = normalizeName(`${b.firstName} ${b.lastName}`);
+  const swapped = normalizeName(`${b.lastName} ${b.firstName}`);
+
+  return Math.max(similarity(first, second), similarity(first, swapped));
+}
+
+/**
+ * Scores how likely two profiles belong to the same person. Each matching
+ * identifier is independent evidence; conflicting documents or birth dates
+ * count against the match. Returns null when nothing matches at all.
+ */
+export function scoreGuestMatch(a: MatchableGuest, b: MatchableGuest): GuestMatch | null {
+  const reasons: MatchReason[] = [];
+  const evidence: number[] = [];
+
+  const passportA = normalizeDocument(a.passportNumber);
+  const passportB = normalizeDocument(b.passportNumber);
+  if (passportA && passportA === passportB) {
+    reasons.push('PASSPORT');
+    evidence.push(0.95);
+  }
+
+  const emailA = normalizeEmail(a.email);
+  if (emailA && emailA === normalizeEmail(b.email)) {
+    reasons.push('EMAIL');
+    evidence.push(0.9);
+  }
+
+  const phoneA = normalizePhone(a.phoneNumber);
+  if (phoneA && phoneA === normalizePhone(b.phoneNumber)) {
+    reasons.push('PHONE');
+    evidence.push(0.8);
+  }
+
+  const names = nameSimilarity(a, b);
+  if (names >= 0.8) {
+    reasons.push('NAME');
+    evidence.push(names * 0.6);
+  }
+
+  const birthA = toDateKey(a.dateOfBirth);
+  const birthB = toDateKey(b.dateOfBirth);
+  if (birthA && birthA === birthB && names >= 0.6) {
+    reasons.push('DATE_OF_BIRTH');
+    evidence.push(0.3);
+  }
+
+  if (evidence.length === 0) return null;
+
+  let confidence = 1 - evidence.reduce((remaining, p) => remaining * (1 - p), 1);
+
+  if (passportA && passportB && passportA !== passportB) confidence *= 0.5;
+  if (birthA && birthB && birthA !== birthB) confidence *= 0.7;
+  // Families and companies often share one email address or phone number
+  if (names < 0.5) confidence *= 0.6;
+
+  return { guestId: a.id, duplicateId: b.id, score: Math.round(confidence * 100), reasons };
+}
+
+function blockingKeys(guest: MatchableGuest): string[] {
+  const keys: string[] = [];
+  const passport = normalizeDocument(guest.passportNumber);
+  const email = normalizeEmail(guest.email);
+  const phone = normalizePhone(guest.phoneNumber);
+  const first = normalizeName(guest.firstName);
+  const last = normalizeName(guest.lastName);
+
+  if (passport) keys.push(`passport:${passport}`);
+  if (email) keys.push(`email:${email}`);
+  if (phone) keys.push(`phone:${phone}`);
+  // Name initials in both orders so swapped first/last names land together
+  keys.push(`name:${last.charAt(0)}${first.charAt(0)}`, `name:${first.charAt(0)}${last.charAt(0)}`);
+
+  return keys;
+}
+
+/**
+ * Finds likely duplicate pairs among a property's guests. Only guests that
+ * share an identifier or name initials are compared, so large guest lists
+ * don't require scoring every pair.
+ */
+export function findDuplicateMatches(guests: MatchableGuest[], minScore: number): GuestMatch[] {
+  const blocks = new Map<string, MatchableGuest[]>();
+  for (const guest of guests) {
+    for (const key of new Set(blockingKeys(guest))) {
+      const block = blocks.get(key) ?? [];
+      block.push(guest);
+      blocks.set(key, block);
+    }
+  }
+
+  const seen = new Set<string>();
+  const matches: GuestMatch[] = [];
+
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const pairKey = [block[i].id, block[j].id].sort().join(':');
+        if (seen.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        const match = scoreGuestMatch(block[i], block[j]);
+        if (match && match.score >= minScore) {
+          matches.push(match);
+        }
+      }
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
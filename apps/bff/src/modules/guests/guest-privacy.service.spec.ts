@@ -0,0 +1,65 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { User } from '@prisma/client';
+import { GuestPrivacyService } from './guest-privacy.service';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { WorkerQueueService } from '../../shared/queue/worker-queue.service';
+
+describe('GuestPrivacyService', () => {
+  let service: GuestPrivacyService;
+  let prismaService: any;
+  let workerQueue: any;
+
+  const currentUser = { id: 'user1', organizationId: 'org1', propertyId: 'prop1' } as User;
+
+  const guest = { id: 'guest1', propertyId: 'prop1', firstName: 'Ana', lastName: 'Silva', anonymizedAt: null };
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      guest: { findFirst: jest.fn().mockResolvedValue(guest) },
+      reservation: { count: jest.fn().mockResolvedValue(0) },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GuestPrivacyService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: { log: jest.fn() } },
+        { provide: WorkerQueueService, useValue: { addJob: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<GuestPrivacyService>(GuestPrivacyService);
+    prismaService = module.get(PrismaService);
+    workerQueue = module.get(WorkerQueueService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('anonymize', () => {
+    it('queues the guest for the worker to scrub', async () => {
+      await service.anonymize(guest.id, currentUser);
+
+      expect(workerQueue.addJob).toHaveBeenCalledWith('guest-privacy', 'anonymize-guest', { guestId: guest.id });
+    });
+
+    it('refuses guests with upcoming or in-house stays', async () => {
+      prismaService.reservation.count.mockResolvedValue(1);
+
+      await expect(service.anonymize(guest.id, currentUser)).rejects.toThrow(BadRequestException);
+
+      expect(workerQueue.addJob).not.toHaveBeenCalled();
+    });
+
+    it('refuses guests that are already anonymized', async () => {
+      prismaService.guest.findFirst.mockResolvedValue({ ...guest, anonymizedAt: new Date() });
+
+      await expect(service.anonymize(guest.id, currentUser)).rejects.toThrow(BadRequestException);
+
+      expect(workerQueue.addJob).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { WorkerQueueService } from '../../shared/queue/worker-queue.service';
+import { createZip } from '../../shared/utils/zip';
+import { GuestDataExport } from './interfaces';
+import { User, Guest, ReservationStatus } from '@prisma/client';
+
+const ACTIVE_STATUSES: ReservationStatus[] = [ReservationStatus.CONFIRMED, ReservationStatus.CHECKED_IN];
+
+@Injectable()
+export class GuestPrivacyService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+    private readonly workerQueue: WorkerQueueService,
+  ) {}
+
+  /** Everything stored about a guest, for a data-subject access request */
+  async exportGuestData(id: string, currentUser: User): Promise<GuestDataExport> {
+    const guest = await this.prisma.guest.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+    });
+    if (!guest) {
+      throw new NotFoundException('Guest not found');
+    }
+
+    const [reservations, conciergeObjects, merges] = await Promise.all([
+      this.prisma.reservation.findMany({
+        where: { guestId: guest.id },
+        include: {
+          unit: { select: { unitNumber: true } },
+          staySegments: true,
+          folios: { include: { lines: true } },
+          paymentTransactions: true,
+          deposits: true,
+        },
+        orderBy: { checkInDate: 'asc' },
+      }),
+      this.prisma.conciergeObject.findMany({
+        where: { guestId: guest.id, propertyId: currentUser.propertyId! },
+        include: { attributes: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.guestMerge.findMany({
+        where: { OR: [{ survivorId: guest.id }, { mergedGuestId: guest.id }] },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    const auditEntries = await this.prisma.auditLog.findMany({
+      where: {
+        propertyId: currentUser.propertyId!,
+        OR: [
+          { entity: 'Guest', entityId: guest.id },
+          { entity: 'Reservation', entityId: { in: reservations.map((reservation) => reservation.id) } },
+          { entity: 'ConciergeObject', entityId: { in: conciergeObjects.map((object) => object.id) } },
+        ],
+      },
+      select: { id: true, action: true, entity: true, entityId: true, oldData: true, newData: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    await this.auditService.log({
+      userId: currentUser.id,
+      action: 'EXPORT',
+      entity: 'Guest',
+      entityId: guest.id,
+    });
+
+    return {
+      exportedAt: new Date(),
+      guest,
+      reservations,
+      conciergeObjects,
+      merges,
+      auditEntries,
+    };
+  }
+
+  async exportGuestDataArchive(id: string, currentUser: User): Promise<Buffer> {
+    const data = await this.exportGuestData(id, currentUser);
+    const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+    return createZip([
+      { name: 'guest.json', content: json(data.guest) },
+      { name: 'reservations.json', content: json(data.reservations) },
+      { name: 'concierge-objects.json', content: json(data.conciergeObjects) },
+      { name: 'merges.json', content: json(data.merges) },
+      { name: 'audit-log.json', content: json(data.auditEntries) },
+      { name: 'export.json', content: json({ guestId: data.guest.id, exportedAt: data.exportedAt }) },
+    ]);
+  }
+
+  /**
+   * Queues the profile for anonymization. The worker scrubs it together with
+   * everything that copies its personal data, the same way as the retention sweep.
+   */
+  async anonymize(id: string, currentUser: User): Promise<Guest> {
+    const guest = await this.prisma.guest.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+    });
+    if (!guest) {
+      throw new NotFoundException('Guest not found');
+    }
+    if (guest.anonymizedAt) {
+      throw new BadRequestException('Guest has already been anonymized');
+    }
+
+    const activeReservations = await this.prisma.reservation.count({
+      where: { guestId: guest.id, status: { in: ACTIVE_STATUSES } },
+    });
+    if (activeReservations > 0) {
+      throw new BadRequestException('Cannot anonymize a guest with upcoming or in-house reservations');
+    }
+
+    await this.workerQueue.addJob('guest-privacy', 'anonymize-guest', { guestId: guest.id });
+
+    await this.auditService.log({
+      userId: currentUser.id,
+      action: 'ANONYMIZE',
+      entity: 'Guest',
+      entityId: guest.id,
+      newData: { requestedAt: new Date() },
+    });
+
+    return guest;
+  }
+}
@@ -8,16 +8,19 @@ import {
   Delete,
   Query,
   UseGuards,
+  Res,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiBody } from '@nestjs/swagger';
 import { GuestsService } from './guests.service';
+import { GuestPrivacyService } from './guest-privacy.service';
 import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
 import { PermissionGuard } from '../../shared/guards/permission.guard';
 import { CurrentUser } from '../../shared/decorators/current-user.decorator';
 import { RequirePermission } from '../../shared/decorators/require-permission.decorator';
 import { Audit } from '../../shared/decorators/audit.decorator';
 import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
-import { CreateGuestDto, UpdateGuestDto, GuestFilterDto } from './dto';
+import { CreateGuestDto, UpdateGuestDto, GuestFilterDto, DuplicateFilterDto, MergeGuestDto } from './dto';
 import { User } from '@prisma/client';
 
 @ApiTags('Guests')
@@ -25,7 +28,10 @@ import { User } from '@prisma/client';
 @UseGuards(JwtAuthGuard, PermissionGuard)
 @ApiBearerAuth()
 export class GuestsController {
-  constructor(private readonly guestsService: GuestsService) {}
+  constructor(
+    private readonly guestsService: GuestsService,
+    private readonly guestPrivacyService: GuestPrivacyService,
+  ) {}
 
   @Post()
   @RequirePermission('guest.create.property')
@@ -63,6 +69,33 @@ export class GuestsController {
     return CustomApiResponse.success(stats, 'Guest statistics retrieved successfully');
   }
 
+  @Get('duplicates')
+  @RequirePermission('guest.read.property')
+  @ApiOperation({ summary: 'Find likely duplicate guest profiles with a confidence score' })
+  @ApiResponse({ status: 200, description: 'Duplicate candidates retrieved successfully' })
+  async findDuplicates(
+    @Query() filterDto: DuplicateFilterDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const candidates = await this.guestsService.findDuplicates(filterDto, currentUser);
+    return CustomApiResponse.success(candidates, 'Duplicate candidates retrieved successfully');
+  }
+
+  @Post('merges/:mergeId/undo')
+  @RequirePermission('guest.update.property')
+  @Audit({ action: 'UNDO_MERGE', entity: 'Guest' })
+  @ApiOperation({ summary: 'Undo a guest merge and restore the duplicate profile' })
+  @ApiResponse({ status: 200, description: 'Guest merge undone successfully' })
+  @ApiResponse({ status: 404, description: 'Guest merge not found' })
+  @ApiResponse({ status: 409, description: 'Conflict - A later merge involving these profiles must be undone first' })
+  async undoMerge(
+    @Param('mergeId') mergeId: string,
+    @CurrentUser() currentUser: User,
+  ) {
+    const merge = await this.guestsService.undoMerge(mergeId, currentUser);
+    return CustomApiResponse.success(merge, 'Guest merge undone successfully');
+  }
+
   @Get(':id')
   @RequirePermission('guest.read.property')
   @Audit({ action: 'VIEW', entity: 'Guest' })
@@ -90,6 +123,93 @@ export class GuestsController {
     return CustomApiResponse.success(history, 'Guest history retrieved successfully');
   }
 
+  @Get(':id/duplicates')
+  @RequirePermission('guest.read.property')
+  @ApiOperation({ summary: 'Find likely duplicates of a guest profile' })
+  @ApiResponse({ status: 200, description: 'Duplicate candidates retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Guest not found' })
+  async findDuplicatesForGuest(
+    @Param('id') id: string,
+    @Query() filterDto: DuplicateFilterDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const candidates = await this.guestsService.findDuplicatesForGuest(id, filterDto, currentUser);
+    return CustomApiResponse.success(candidates, 'Duplicate candidates retrieved successfully');
+  }
+
+  @Get(':id/merges')
+  @RequirePermission('guest.read.property')
+  @ApiOperation({ summary: 'Get merges the guest profile took part in' })
+  @ApiResponse({ status: 200, description: 'Guest merge history retrieved successfully' })
+  async getMergeHistory(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: User,
+  ) {
+    const merges = await this.guestsService.getMergeHistory(id, currentUser);
+    return CustomApiResponse.success(merges, 'Guest merge history retrieved successfully');
+  }
+
+  @Post(':id/merge')
+  @RequirePermission('guest.update.property')
+  @Audit({ action: 'MERGE', entity: 'Guest' })
+  @ApiOperation({ summary: 'Merge a duplicate profile into this guest' })
+  @ApiResponse({ status: 201, description: 'Guests merged successfully' })
+  @ApiResponse({ status: 404, description: 'Guest not found' })
+  @ApiResponse({ status: 400, description: 'Bad request - Cannot merge a guest into itself' })
+  async merge(
+    @Param('id') id: string,
+    @Body() mergeGuestDto: MergeGuestDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const merge = await this.guestsService.merge(id, mergeGuestDto, currentUser);
+    return CustomApiResponse.success(merge, 'Guests merged successfully');
+  }
+
+  @Get(':id/export')
+  @RequirePermission('guest.read.property')
+  @ApiOperation({ summary: 'Export all data held about a guest (data-subject access request)' })
+  @ApiResponse({ status: 200, description: 'Guest data exported successfully' })
+  @ApiResponse({ status: 404, description: 'Guest not found' })
+  async exportGuestData(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: User,
+  ) {
+    const data = await this.guestPrivacyService.exportGuestData(id, currentUser);
+    return CustomApiResponse.success(data, 'Guest data exported successfully');
+  }
+
+  @Get(':id/export/zip')
+  @RequirePermission('guest.read.property')
+  @ApiOperation({ summary: 'Download a guest data export as a ZIP bundle of JSON files' })
+  @ApiResponse({ status: 200, description: 'ZIP archive' })
+  @ApiResponse({ status: 404, description: 'Guest not found' })
+  async exportGuestDataArchive(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: User,
+    @Res() res: Response,
+  ) {
+    const archive = await this.guestPrivacyService.exportGuestDataArchive(id, currentUser);
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="guest-${id}-export.zip"`);
+    res.send(archive);
+  }
+
+  @Post(':id/anonymize')
+  @RequirePermission('guest.delete.property')
+  @Audit({ action: 'ANONYMIZE', entity: 'Guest' })
+  @ApiOperation({ summary: 'Irreversibly scrub personal data from a guest profile' })
+  @ApiResponse({ status: 200, description: 'Guest anonymization queued' })
+  @ApiResponse({ status: 404, description: 'Guest not found' })
+  @ApiResponse({ status: 400, description: 'Bad request - Guest has active reservations or is already anonymized' })
+  async anonymize(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: User,
+  ) {
+    const guest = await this.guestPrivacyService.anonymize(id, currentUser);
+    return CustomApiResponse.success(guest, 'Guest anonymization queued');
+  }
+
   @Patch(':id')
   @RequirePermission('guest.update.property')
   @Audit({ action: 'UPDATE', entity: 'Guest' })
@@ -1,9 +1,10 @@
 import { Module } from '@nestjs/common';
 import { GuestsService } from './guests.service';
+import { GuestPrivacyService } from './guest-privacy.service';
 import { GuestsController } from './guests.controller';
 
 @Module({
-  providers: [GuestsService],
+  providers: [GuestsService, GuestPrivacyService],
   controllers: [GuestsController],
   exports: [GuestsService],
 })
@@ -1,11 +1,45 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
 import { PrismaService } from '../../shared/database/prisma.service';
 import { AuditService } from '../../shared/audit/audit.service';
 import { PaginatedResponse } from '../../shared/dto/pagination.dto';
 import { applySoftDelete } from '../../shared/utils/soft-delete';
-import { CreateGuestDto, UpdateGuestDto, GuestFilterDto } from './dto';
-import { GuestWithReservations, GuestStats, GuestHistory } from './interfaces';
-import { User, Guest } from '@prisma/client';
+import { CreateGuestDto, UpdateGuestDto, GuestFilterDto, DuplicateFilterDto, MergeGuestDto } from './dto';
+import {
+  GuestWithReservations,
+  GuestStats,
+  GuestHistory,
+  GuestSummary,
+  DuplicateCandidate,
+  GuestMergeWithGuests,
+} from './interfaces';
+import { findDuplicateMatches, scoreGuestMatch } from './guest-matching';
+import { User, Guest, GuestMerge, GuestMergeStatus, VipStatus, Prisma } from '@prisma/client';
+
+const VIP_RANK: VipStatus[] = ['STANDARD', 'BRONZE', 'SILVER', 'GOLD', 'PLATINUM', 'DIAMOND'];
+
+/** Profile fields copied from the duplicate when the survivor has no value */
+const FILLABLE_FIELDS = [
+  'email',
+  'phoneNumber',
+  'nationality',
+  'dateOfBirth',
+  'passportNumber',
+  'idNumber',
+  'address',
+  'preferences',
+] as const;
+
+const GUEST_SUMMARY_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  phoneNumber: true,
+  passportNumber: true,
+  dateOfBirth: true,
+  vipStatus: true,
+  createdAt: true,
+} satisfies Prisma.GuestSelect;
 
 @Injectable()
 export class GuestsService {
@@ -100,6 +134,7 @@ export class GuestsService {
         { lastName: { contains: search, mode: 'insensitive' } },
         { email: { contains: search, mode: 'insensitive' } },
         { phoneNumber: { contains: search, mode: 'insensitive' } },
+        // Encrypted columns: matched exactly through their blind indexes
         { passportNumber: { contains: search, mode: 'insensitive' } },
         { idNumber: { contains: search, mode: 'insensitive' } },
       ];
@@ -274,6 +309,10 @@ export class GuestsService {
       throw new NotFoundException('Guest not found or not deleted');
     }
 
+    if (guest.mergedIntoId) {
+      throw new BadRequestException('Guest was merged into another profile; undo the merge instead');
+    }
+
     const restoredGuest = await this.prisma.guest.update({
       where: { id },
       data: { deletedAt: null },
@@ -482,4 +521,256 @@ export class GuestsService {
       loyaltyPoints: Math.floor(totalSpent / 10), // Simple points system
     };
   }
+
+  async findDuplicates(filterDto: DuplicateFilterDto, currentUser: User): Promise<DuplicateCandidate[]> {
+    const { minScore = 60, limit = 50 } = filterDto;
+
+    const guests = await this.prisma.guest.findMany({
+      where: { propertyId: currentUser.propertyId!, deletedAt: null },
+      select: GUEST_SUMMARY_SELECT,
+    });
+    const byId = new Map(guests.map((guest) => [guest.id, guest]));
+
+    return findDuplicateMatches(guests, minScore)
+      .slice(0, limit)
+      .map((match) => this.toCandidate(byId.get(match.guestId)!, byId.get(match.duplicateId)!, match.score, match.reasons));
+  }
+
+  async findDuplicatesForGuest(
+    id: string,
+    filterDto: DuplicateFilterDto,
+    currentUser: User,
+  ): Promise<DuplicateCandidate[]> {
+    const { minScore = 60, limit = 50 } = filterDto;
+
+    const guest = await this.prisma.guest.findFirst({
+      where: { id, propertyId: currentUser.propertyId!, deletedAt: null },
+      select: GUEST_SUMMARY_SELECT,
+    });
+    if (!guest) {
+      throw new NotFoundException('Guest not found');
+    }
+
+    const others = await this.prisma.guest.findMany({
+      where: { propertyId: currentUser.propertyId!, deletedAt: null, id: { not: id } },
+      select: GUEST_SUMMARY_SELECT,
+    });
+
+    const candidates: DuplicateCandidate[] = [];
+    for (const other of others) {
+      const match = scoreGuestMatch(guest, other);
+      if (match && match.score >= minScore) {
+        candidates.push(this.toCandidate(guest, other, match.score, match.reasons));
+      }
+    }
+
+    return candidates.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Folds a duplicate profile into the surviving one: reservations and
+   * concierge objects are re-pointed, blank survivor fields are filled from
+   * the duplicate, notes are combined and the duplicate is soft deleted.
+   * Everything moved or overwritten is recorded so the merge can be undone.
+   */
+  async merge(survivorId: string, mergeGuestDto: MergeGuestDto, currentUser: User): Promise<GuestMerge> {
+    const { duplicateGuestId } = mergeGuestDto;
+    if (duplicateGuestId === survivorId) {
+      throw new BadRequestException('A guest cannot be merged into itself');
+    }
+
+    const [survivor, duplicate] = await Promise.all([
+      this.prisma.guest.findFirst({ where: { id: survivorId, propertyId: currentUser.propertyId!, deletedAt: null } }),
+      this.prisma.guest.findFirst({
+        where: { id: duplicateGuestId, propertyId: currentUser.propertyId!, deletedAt: null },
+      }),
+    ]);
+    if (!survivor) {
+      throw new NotFoundException('Guest not found');
+    }
+    if (!duplicate) {
+      throw new NotFoundException('Duplicate guest not found');
+    }
+
+    const { data, snapshot } = this.planSurvivorUpdate(survivor, duplicate);
+
+    const merge = await this.prisma.$transaction(async (tx) => {
+      const [reservations, conciergeObjects] = await Promise.all([
+        tx.reservation.findMany({ where: { guestId: duplicate.id }, select: { id: true } }),
+        tx.conciergeObject.findMany({
+          where: { guestId: duplicate.id, propertyId: currentUser.propertyId!, deletedAt: null },
+          select: { id: true },
+        }),
+      ]);
+      const reservationIds = reservations.map((reservation) => reservation.id);
+      const conciergeObjectIds = conciergeObjects.map((object) => object.id);
+
+      await tx.reservation.updateMany({ where: { id: { in: reservationIds } }, data: { guestId: survivor.id } });
+      await tx.conciergeObject.updateMany({
+        where: { id: { in: conciergeObjectIds } },
+        data: { guestId: survivor.id },
+      });
+
+      await tx.guest.update({
+        where: { id: duplicate.id },
+        data: { deletedAt: new Date(), mergedIntoId: survivor.id },
+      });
+      await tx.guest.update({ where: { id: survivor.id }, data });
+
+      return tx.guestMerge.create({
+        data: {
+          propertyId: currentUser.propertyId!,
+          survivorId: survivor.id,
+          mergedGuestId: duplicate.id,
+          score: scoreGuestMatch(survivor, duplicate)?.score ?? 0,
+          reservationIds,
+          conciergeObjectIds,
+          survivorSnapshot: snapshot as Prisma.InputJsonValue,
+          mergedBy: currentUser.id,
+        },
+      });
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'GuestMerge', merge.id, merge);
+    await this.auditService.logUpdate(currentUser.id, 'Guest', survivor.id, snapshot, data);
+    await this.auditService.logDelete(currentUser.id, 'Guest', duplicate.id, duplicate);
+
+    return merge;
+  }
+
+  async getMergeHistory(id: string, currentUser: User): Promise<GuestMergeWithGuests[]> {
+    const nameSelect = { select: { id: true, firstName: true, lastName: true } };
+
+    return this.prisma.guestMerge.findMany({
+      where: {
+        propertyId: currentUser.propertyId!,
+        OR: [{ survivorId: id }, { mergedGuestId: id }],
+      },
+      include: { survivor: nameSelect, mergedGuest: nameSelect },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Reverses a merge: the duplicate is restored with the reservations and
+   * concierge objects it had, and survivor fields filled by the merge revert.
+   * Merges are undone newest first when profiles were merged in a chain.
+   */
+  async undoMerge(mergeId: string, currentUser: User): Promise<GuestMerge> {
+    const merge = await this.prisma.guestMerge.findFirst({
+      where: { id: mergeId, propertyId: currentUser.propertyId! },
+    });
+    if (!merge) {
+      throw new NotFoundException('Guest merge not found');
+    }
+    if (merge.status !== GuestMergeStatus.APPLIED) {
+      throw new BadRequestException('Guest merge has already been undone');
+    }
+
+    const anonymized = await this.prisma.guest.count({
+      where: { id: { in: [merge.survivorId, merge.mergedGuestId] }, anonymizedAt: { not: null } },
+    });
+    if (anonymized > 0) {
+      throw new BadRequestException('Cannot undo a merge after a profile was anonymized');
+    }
+
+    const laterMerge = await this.prisma.guestMerge.findFirst({
+      where: {
+        status: GuestMergeStatus.APPLIED,
+        createdAt: { gt: merge.createdAt },
+        OR: [
+          { survivorId: { in: [merge.survivorId, merge.mergedGuestId] } },
+          { mergedGuestId: { in: [merge.survivorId, merge.mergedGuestId] } },
+        ],
+      },
+    });
+    if (laterMerge) {
+      throw new ConflictException('These profiles were merged again afterwards; undo the later merge first');
+    }
+
+    const snapshot = merge.survivorSnapshot as Record<string, any>;
+    const restore: Prisma.GuestUpdateInput = {};
+    for (const [field, value] of Object.entries(snapshot)) {
+      if (field === 'dateOfBirth') {
+        restore.dateOfBirth = value ? new Date(value) : null;
+      } else if (field === 'address' || field === 'preferences') {
+        restore[field] = value ?? Prisma.DbNull;
+      } else {
+        (restore as Record<string, unknown>)[field] = value;
+      }
+    }
+
+    const undone = await this.prisma.$transaction(async (tx) => {
+      await tx.guest.update({ where: { id: merge.survivorId }, data: restore });
+      await tx.guest.update({
+        where: { id: merge.mergedGuestId },
+        data: { deletedAt: null, mergedIntoId: null },
+      });
+
+      // Only what the merge moved goes back; later bookings stay with the survivor
+      await tx.reservation.updateMany({
+        where: { id: { in: merge.reservationIds }, guestId: merge.survivorId },
+        data: { guestId: merge.mergedGuestId },
+      });
+      await tx.conciergeObject.updateMany({
+        where: { id: { in: merge.conciergeObjectIds }, guestId: merge.survivorId },
+        data: { guestId: merge.mergedGuestId },
+      });
+
+      return tx.guestMerge.update({
+        where: { id: merge.id },
+        data: { status: GuestMergeStatus.UNDONE, undoneBy: currentUser.id, undoneAt: new Date() },
+      });
+    });
+
+    await this.auditService.logUpdate(currentUser.id, 'GuestMerge', merge.id, merge, undone);
+
+    return undone;
+  }
+
+  private planSurvivorUpdate(
+    survivor: Guest,
+    duplicate: Guest,
+  ): { data: Prisma.GuestUpdateInput; snapshot: Record<string, unknown> } {
+    const data: Record<string, any> = {};
+    const snapshot: Record<string, unknown> = {};
+
+    for (const field of FILLABLE_FIELDS) {
+      if (survivor[field] === null && duplicate[field] !== null) {
+        data[field] = duplicate[field];
+        snapshot[field] = null;
+      }
+    }
+
+    if (VIP_RANK.indexOf(duplicate.vipStatus) > VIP_RANK.indexOf(survivor.vipStatus)) {
+      data.vipStatus = duplicate.vipStatus;
+      snapshot.vipStatus = survivor.vipStatus;
+    }
+
+    if (duplicate.notes && duplicate.notes !== survivor.notes) {
+      data.notes = survivor.notes ? `${survivor.notes}\n\n${duplicate.notes}` : duplicate.notes;
+      snapshot.notes = survivor.notes;
+    }
+
+    if (duplicate.blacklisted && !survivor.blacklisted) {
+      data.blacklisted = true;
+      data.blacklistReason = duplicate.blacklistReason;
+      snapshot.blacklisted = false;
+      snapshot.blacklistReason = survivor.blacklistReason;
+    }
+
+    return { data, snapshot };
+  }
+
+  private toCandidate(
+    guest: GuestSummary,
+    duplicate: GuestSummary,
+    score: number,
+    reasons: DuplicateCandidate['reasons'],
+  ): DuplicateCandidate {
+    // Suggest keeping the older profile, which usually carries the history
+    return guest.createdAt <= duplicate.createdAt
+      ? { guest, duplicate, score, reasons }
+      : { guest: duplicate, duplicate: guest, score, reasons };
+  }
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
-import { Guest } from '@prisma/client';
+import { Guest, GuestMerge, AuditLog } from '@prisma/client';
+import { MatchReason } from '../guest-matching';
 
 export interface GuestWithReservations extends Guest {
   reservations?: any[];
@@ -23,4 +24,30 @@ export interface GuestHistory {
   lastVisit: Date;
   firstVisit: Date;
   loyaltyPoints: number;
-}
\ No newline at end of file
+}
+
+export type GuestSummary = Pick<
+  Guest,
+  'id' | 'firstName' | 'lastName' | 'email' | 'phoneNumber' | 'passportNumber' | 'dateOfBirth' | 'vipStatus' | 'createdAt'
+>;
+
+export interface DuplicateCandidate {
+  guest: GuestSummary;
+  duplicate: GuestSummary;
+  score: number;
+  reasons: MatchReason[];
+}
+
+export interface GuestMergeWithGuests extends GuestMerge {
+  survivor: Pick<Guest, 'id' | 'firstName' | 'lastName'>;
+  mergedGuest: Pick<Guest, 'id' | 'firstName' | 'lastName'>;
+}
+
+export interface GuestDataExport {
+  exportedAt: Date;
+  guest: Guest;
+  reservations: any[];
+  conciergeObjects: any[];
+  merges: GuestMerge[];
+  auditEntries: Array<Pick<AuditLog, 'id' | 'action' | 'entity' | 'entityId' | 'oldData' | 'newData' | 'createdAt'>>;
+}
@@ -0,0 +1,40 @@
+import { IsBoolean, IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TaskPriority } from '@prisma/client';
+
+export class MarkDirtyDto {
+  @ApiPropertyOptional({ example: 'Stayover service requested' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+
+  @ApiPropertyOptional({ enum: TaskPriority, description: 'Defaults to HIGH when a guest arrives today' })
+  @IsOptional()
+  @IsEnum(TaskPriority)
+  priority?: TaskPriority;
+}
+
+export class FinishCleaningDto {
+  @ApiPropertyOptional({ example: 'Replaced minibar items' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class InspectRoomDto {
+  @ApiProperty({ example: true })
+  @IsBoolean()
+  passed: boolean;
+
+  @ApiPropertyOptional({ example: 'Bathroom mirror streaked' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class AssignHousekeepingTaskDto {
+  @ApiProperty({ description: 'Housekeeper to assign' })
+  @IsString()
+  @IsNotEmpty()
+  assignedToId: string;
+}
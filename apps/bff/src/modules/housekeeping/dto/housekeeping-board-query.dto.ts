@@ -0,0 +1,21 @@
+import { IsDateString, IsInt, IsOptional, IsString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+export class HousekeepingBoardQueryDto {
+  @ApiPropertyOptional({ example: '2024-03-15', description: 'Business date; defaults to today' })
+  @IsOptional()
+  @IsDateString()
+  date?: string;
+
+  @ApiPropertyOptional({ example: 'Main' })
+  @IsOptional()
+  @IsString()
+  building?: string;
+
+  @ApiPropertyOptional({ example: 2 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  floor?: number;
+}
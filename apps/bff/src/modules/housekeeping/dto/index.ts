@@ -0,0 +1,2 @@
+export * from './housekeeping-board-query.dto';
+export * from './housekeeping-action.dto';
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { HousekeepingStatus, ReservationStatus, TaskPriority, TaskStatus, UnitStatus, UnitType } from '@prisma/client';
+import { BoardReservation, BoardUnit, buildHousekeepingBoard, canTransition, deriveOccupancy } from './housekeeping-board';
+
+const today = new Date('2024-03-15T10:00:00Z');
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const unit = (id: string, overrides: Partial<BoardUnit> = {}): BoardUnit => ({
+  id,
+  unitNumber: id,
+  unitType: UnitType.STANDARD,
+  building: 'Main',
+  floor: 1,
+  status: UnitStatus.AVAILABLE,
+  housekeepingStatus: HousekeepingStatus.INSPECTED,
+  housekeepingUpdatedAt: null,
+  ...overrides,
+});
+
+const reservation = (unitId: string, overrides: Partial<BoardReservation>): BoardReservation => ({
+  unitId,
+  status: ReservationStatus.CONFIRMED,
+  checkInDate: day('2024-03-15'),
+  checkOutDate: day('2024-03-17'),
+  checkedOutAt: null,
+  ...overrides,
+});
+
+describe('housekeeping board', () => {
+  it('only allows the cleaning workflow order', () => {
+    expect(canTransition(HousekeepingStatus.DIRTY, HousekeepingStatus.CLEANING)).toBe(true);
+    expect(canTransition(HousekeepingStatus.CLEANING, HousekeepingStatus.CLEAN)).toBe(true);
+    expect(canTransition(HousekeepingStatus.CLEAN, HousekeepingStatus.INSPECTED)).toBe(true);
+    expect(canTransition(HousekeepingStatus.DIRTY, HousekeepingStatus.INSPECTED)).toBe(false);
+    expect(canTransition(HousekeepingStatus.CLEANING, HousekeepingStatus.INSPECTED)).toBe(false);
+  });
+
+  it('derives today\'s occupancy from reservations', () => {
+    const checkedOutToday = reservation('a', { status: ReservationStatus.CHECKED_OUT, checkedOutAt: today });
+    const inHouseLeavingToday = reservation('a', {
+      status: ReservationStatus.CHECKED_IN,
+      checkInDate: day('2024-03-12'),
+      checkOutDate: day('2024-03-15'),
+    });
+    const stayover = reservation('a', { status: ReservationStatus.CHECKED_IN, checkInDate: day('2024-03-14') });
+    const arrival = reservation('a', {});
+
+    expect(deriveOccupancy([], today)).toBe('VACANT');
+    expect(deriveOccupancy([arrival], today)).toBe('ARRIVAL');
+    expect(deriveOccupancy([stayover], today)).toBe('STAYOVER');
+    expect(deriveOccupancy([inHouseLeavingToday], today)).toBe('DEPARTURE');
+    expect(deriveOccupancy([checkedOutToday], today)).toBe('DEPARTED');
+    expect(deriveOccupancy([checkedOutToday, arrival], today)).toBe('TURNOVER');
+  });
+
+  it('groups by building and floor with arrivals first and counts rooms not ready', () => {
+    const units = [
+      unit('201', { floor: 2 }),
+      unit('102', { housekeepingStatus: HousekeepingStatus.DIRTY, status: UnitStatus.CLEANING }),
+      unit('101'),
+      unit('A1', { building: 'Annex', floor: 1, housekeepingStatus: HousekeepingStatus.CLEAN }),
+    ];
+    const reservations = [reservation('102', {}), reservation('A1', {})];
+    const tasks = [
+      { id: 't1', unitId: '102', status: TaskStatus.PENDING, priority: TaskPriority.HIGH, assignedTo: null },
+    ];
+
+    const board = buildHousekeepingBoard(today, units, reservations, tasks);
+
+    expect(board.date).toBe('2024-03-15');
+    expect(board.floors.map((floor) => `${floor.building}/${floor.floor}`)).toEqual(['Annex/1', 'Main/1', 'Main/2']);
+    expect(board.floors[1].units.map((u) => u.unitNumber)).toEqual(['102', '101']);
+    expect(board.floors[1].units[0].task?.id).toBe('t1');
+    expect(board.summary).toEqual({ DIRTY: 1, CLEANING: 0, CLEAN: 1, INSPECTED: 2, arrivalsNotReady: 2 });
+  });
+});
@@ -0,0 +1,114 @@
+import { HousekeepingStatus, ReservationStatus } from '@prisma/client';
+import {
+  HousekeepingBoard,
+  HousekeepingBoardFloor,
+  HousekeepingBoardTask,
+  HousekeepingBoardUnit,
+  UnitOccupancy,
+} from './interfaces';
+
+export type BoardUnit = Omit<HousekeepingBoardUnit, 'occupancy' | 'task'>;
+
+export interface BoardReservation {
+  unitId: string;
+  status: ReservationStatus;
+  checkInDate: Date;
+  checkOutDate: Date;
+  checkedOutAt: Date | null;
+}
+
+export interface BoardTask extends HousekeepingBoardTask {
+  unitId: string;
+}
+
+/** Allowed housekeeping moves; inspection failures send a room back to DIRTY */
+export const HOUSEKEEPING_TRANSITIONS: Record<HousekeepingStatus, HousekeepingStatus[]> = {
+  [HousekeepingStatus.DIRTY]: [HousekeepingStatus.CLEANING],
+  [HousekeepingStatus.CLEANING]: [HousekeepingStatus.CLEAN, HousekeepingStatus.DIRTY],
+  [HousekeepingStatus.CLEAN]: [HousekeepingStatus.INSPECTED, HousekeepingStatus.DIRTY],
+  [HousekeepingStatus.INSPECTED]: [HousekeepingStatus.DIRTY],
+};
+
+export const canTransition = (from: HousekeepingStatus, to: HousekeepingStatus): boolean =>
+  HOUSEKEEPING_TRANSITIONS[from].includes(to);
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+export function deriveOccupancy(reservations: BoardReservation[], date: Date): UnitOccupancy {
+  const today = toDateKey(date);
+  const arriving = reservations.some(
+    (reservation) => reservation.status === ReservationStatus.CONFIRMED && toDateKey(reservation.checkInDate) === today,
+  );
+  const inHouse = reservations.filter((reservation) => reservation.status === ReservationStatus.CHECKED_IN);
+  const departing = inHouse.some((reservation) => toDateKey(reservation.checkOutDate) <= today);
+  const departed = reservations.some(
+    (reservation) =>
+      reservation.status === ReservationStatus.CHECKED_OUT &&
+      !!reservation.checkedOutAt &&
+      toDateKey(reservation.checkedOutAt) === today,
+  );
+
+  if (arriving && (departing || departed)) return 'TURNOVER';
+  if (departing) return 'DEPARTURE';
+  if (inHouse.length > 0) return 'STAYOVER';
+  if (arriving) return 'ARRIVAL';
+  if (departed) return 'DEPARTED';
+  return 'VACANT';
+}
+
+/**
+ * Groups units by building and floor for the supervisor's daily board. Within
+ * a floor, rooms with guests arriving today come first since they have to be
+ * inspected before check-in.
+ */
+export function buildHousekeepingBoard(
+  date: Date,
+  units: BoardUnit[],
+  reservations: BoardReservation[],
+  tasks: BoardTask[],
+): HousekeepingBoard {
+  const summary: HousekeepingBoard['summary'] = {
+    [HousekeepingStatus.DIRTY]: 0,
+    [HousekeepingStatus.CLEANING]: 0,
+    [HousekeepingStatus.CLEAN]: 0,
+    [HousekeepingStatus.INSPECTED]: 0,
+    arrivalsNotReady: 0,
+  };
+  const floors = new Map<string, HousekeepingBoardFloor>();
+
+  const sortedUnits = [...units].sort(
+    (a, b) =>
+      (a.building ?? '').localeCompare(b.building ?? '') ||
+      (a.floor ?? -1) - (b.floor ?? -1) ||
+      a.unitNumber.localeCompare(b.unitNumber, undefined, { numeric: true }),
+  );
+
+  for (const unit of sortedUnits) {
+    const occupancy = deriveOccupancy(
+      reservations.filter((reservation) => reservation.unitId === unit.id),
+      date,
+    );
+    const task = tasks.find((candidate) => candidate.unitId === unit.id);
+
+    summary[unit.housekeepingStatus]++;
+    if ((occupancy === 'ARRIVAL' || occupancy === 'TURNOVER') && unit.housekeepingStatus !== HousekeepingStatus.INSPECTED) {
+      summary.arrivalsNotReady++;
+    }
+
+    const key = `${unit.building ?? ''}|${unit.floor ?? ''}`;
+    const floor = floors.get(key) ?? { building: unit.building, floor: unit.floor, units: [] };
+    floor.units.push({
+      ...unit,
+      occupancy,
+      task: task ? { id: task.id, status: task.status, priority: task.priority, assignedTo: task.assignedTo } : null,
+    });
+    floors.set(key, floor);
+  }
+
+  const arrivalFirst = (unit: HousekeepingBoardUnit) => (unit.occupancy === 'ARRIVAL' || unit.occupancy === 'TURNOVER' ? 0 : 1);
+  for (const floor of floors.values()) {
+    floor.units.sort((a, b) => arrivalFirst(a) - arrivalFirst(b));
+  }
+
+  return { date: toDateKey(date), summary, floors: [...floors.values()] };
+}
@@ -0,0 +1,95 @@
+import { Controller, Get, Post, Body, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { HousekeepingService } from './housekeeping.service';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { PermissionGuard } from '../../shared/guards/permission.guard';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { RequirePermission } from '../../shared/decorators/require-permission.decorator';
+import { Audit } from '../../shared/decorators/audit.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+import { AssignHousekeepingTaskDto, FinishCleaningDto, HousekeepingBoardQueryDto, InspectRoomDto, MarkDirtyDto } from './dto';
+import { User } from '@prisma/client';
+
+@ApiTags('Housekeeping')
+@Controller('housekeeping')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class HousekeepingController {
+  constructor(private readonly housekeepingService: HousekeepingService) {}
+
+  @Get('board')
+  @RequirePermission('housekeeping.read.property')
+  @ApiOperation({ summary: 'Get the daily housekeeping board grouped by building and floor' })
+  @ApiResponse({ status: 200, description: 'Housekeeping board retrieved successfully' })
+  async getBoard(@Query() query: HousekeepingBoardQueryDto, @CurrentUser() currentUser: User) {
+    const board = await this.housekeepingService.getBoard(query, currentUser);
+    return CustomApiResponse.success(board, 'Housekeeping board retrieved successfully');
+  }
+
+  @Post('units/:unitId/dirty')
+  @RequirePermission('housekeeping.update.property')
+  @Audit({ action: 'MARK_DIRTY', entity: 'Unit' })
+  @ApiOperation({ summary: 'Mark a room dirty and open a cleaning task' })
+  @ApiResponse({ status: 200, description: 'Room marked dirty' })
+  @ApiResponse({ status: 400, description: 'Bad request - Room is already dirty' })
+  @ApiResponse({ status: 404, description: 'Unit not found' })
+  async markDirty(@Param('unitId') unitId: string, @Body() markDirtyDto: MarkDirtyDto, @CurrentUser() currentUser: User) {
+    const unit = await this.housekeepingService.markDirty(unitId, markDirtyDto, currentUser);
+    return CustomApiResponse.success(unit, 'Room marked dirty');
+  }
+
+  @Post('units/:unitId/start')
+  @RequirePermission('housekeeping.update.property')
+  @Audit({ action: 'START_CLEANING', entity: 'Unit' })
+  @ApiOperation({ summary: 'Start cleaning a dirty room' })
+  @ApiResponse({ status: 200, description: 'Cleaning started' })
+  @ApiResponse({ status: 400, description: 'Bad request - Room is not dirty' })
+  @ApiResponse({ status: 404, description: 'Unit not found' })
+  async startCleaning(@Param('unitId') unitId: string, @CurrentUser() currentUser: User) {
+    const unit = await this.housekeepingService.startCleaning(unitId, currentUser);
+    return CustomApiResponse.success(unit, 'Cleaning started');
+  }
+
+  @Post('units/:unitId/finish')
+  @RequirePermission('housekeeping.update.property')
+  @Audit({ action: 'FINISH_CLEANING', entity: 'Unit' })
+  @ApiOperation({ summary: 'Finish cleaning a room and send it for inspection' })
+  @ApiResponse({ status: 200, description: 'Cleaning finished' })
+  @ApiResponse({ status: 400, description: 'Bad request - Room is not being cleaned' })
+  @ApiResponse({ status: 404, description: 'Unit not found' })
+  async finishCleaning(
+    @Param('unitId') unitId: string,
+    @Body() finishDto: FinishCleaningDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const unit = await this.housekeepingService.finishCleaning(unitId, finishDto, currentUser);
+    return CustomApiResponse.success(unit, 'Cleaning finished');
+  }
+
+  @Post('units/:unitId/inspect')
+  @RequirePermission('housekeeping.approve.property')
+  @Audit({ action: 'INSPECT', entity: 'Unit' })
+  @ApiOperation({ summary: 'Pass or fail inspection of a cleaned room' })
+  @ApiResponse({ status: 200, description: 'Inspection recorded' })
+  @ApiResponse({ status: 400, description: 'Bad request - Room has not been cleaned' })
+  @ApiResponse({ status: 404, description: 'Unit not found' })
+  async inspect(@Param('unitId') unitId: string, @Body() inspectDto: InspectRoomDto, @CurrentUser() currentUser: User) {
+    const unit = await this.housekeepingService.inspect(unitId, inspectDto, currentUser);
+    return CustomApiResponse.success(unit, 'Inspection recorded');
+  }
+
+  @Post('tasks/:taskId/assign')
+  @RequirePermission('housekeeping.assign.property')
+  @Audit({ action: 'ASSIGN', entity: 'Task' })
+  @ApiOperation({ summary: 'Assign a housekeeping task to a housekeeper' })
+  @ApiResponse({ status: 200, description: 'Task assigned' })
+  @ApiResponse({ status: 404, description: 'Task or housekeeper not found' })
+  async assignTask(
+    @Param('taskId') taskId: string,
+    @Body() assignDto: AssignHousekeepingTaskDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const task = await this.housekeepingService.assignTask(taskId, assignDto, currentUser);
+    return CustomApiResponse.success(task, 'Task assigned');
+  }
+}
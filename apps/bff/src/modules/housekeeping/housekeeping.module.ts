@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { HousekeepingService } from './housekeeping.service';
+import { HousekeepingController } from './housekeeping.controller';
+import { TasksModule } from '../core/tasks/tasks.module';
+
+@Module({
+  imports: [TasksModule],
+  providers: [HousekeepingService],
+  controllers: [HousekeepingController],
+  exports: [HousekeepingService],
+})
+export class HousekeepingModule {}
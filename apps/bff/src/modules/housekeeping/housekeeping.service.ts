@@ -0,0 +1,353 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { TaskAssignmentService } from '../core/tasks/task-assignment.service';
+import { AssignHousekeepingTaskDto, FinishCleaningDto, HousekeepingBoardQueryDto, InspectRoomDto, MarkDirtyDto } from './dto';
+import { HousekeepingBoard } from './interfaces';
+import { buildHousekeepingBoard, canTransition } from './housekeeping-board';
+import {
+  User,
+  Unit,
+  Task,
+  HousekeepingStatus,
+  ReservationStatus,
+  TaskPriority,
+  TaskStatus,
+  TaskType,
+  UnitStatus,
+  Prisma,
+} from '@prisma/client';
+
+const OPEN_TASK_STATUSES = [TaskStatus.PENDING, TaskStatus.IN_PROGRESS, TaskStatus.ON_HOLD];
+
+// Cleaning tasks go to the department properties are created with
+const HOUSEKEEPING_DEPARTMENT = 'Housekeeping';
+
+export interface ScheduleCleaningOptions {
+  title: string;
+  description?: string;
+  priority?: TaskPriority;
+  reservationId?: string;
+  dueDate?: Date;
+  /** Leave the sellable status alone, e.g. stayover service in an OCCUPIED room */
+  keepUnitStatus?: boolean;
+}
+
+@Injectable()
+export class HousekeepingService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+    private readonly taskAssignmentService: TaskAssignmentService,
+  ) {}
+
+  async getBoard(query: HousekeepingBoardQueryDto, currentUser: User): Promise<HousekeepingBoard> {
+    const date = query.date ? new Date(query.date) : new Date();
+    const dayStart = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+    const units = await this.prisma.unit.findMany({
+      where: {
+        propertyId: currentUser.propertyId!,
+        deletedAt: null,
+        isActive: true,
+        building: query.building,
+        floor: query.floor,
+      },
+      select: {
+        id: true,
+        unitNumber: true,
+        unitType: true,
+        building: true,
+        floor: true,
+        status: true,
+        housekeepingStatus: true,
+        housekeepingUpdatedAt: true,
+      },
+    });
+    const unitIds = units.map((unit) => unit.id);
+
+    const [reservations, tasks] = await Promise.all([
+      this.prisma.reservation.findMany({
+        where: {
+          unitId: { in: unitIds },
+          OR: [
+            { status: ReservationStatus.CONFIRMED, checkInDate: { gte: dayStart, lt: dayEnd } },
+            { status: ReservationStatus.CHECKED_IN },
+            { status: ReservationStatus.CHECKED_OUT, checkedOutAt: { gte: dayStart, lt: dayEnd } },
+          ],
+        },
+        select: { unitId: true, status: true, checkInDate: true, checkOutDate: true, checkedOutAt: true },
+      }),
+      this.prisma.task.findMany({
+        where: { unitId: { in: unitIds }, taskType: TaskType.HOUSEKEEPING, status: { in: OPEN_TASK_STATUSES } },
+        include: { assignedTo: { select: { id: true, firstName: true, lastName: true } } },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    return buildHousekeepingBoard(
+      dayStart,
+      units,
+      reservations,
+      tasks.map((task) => ({
+        id: task.id,
+        unitId: task.unitId!,
+        status: task.status,
+        priority: task.priority,
+        assignedTo: task.assignedTo,
+      })),
+    );
+  }
+
+  /**
+   * Marks a unit dirty and opens a HOUSEKEEPING task for it unless one is
+   * already open. Used by check-out and room moves inside their transactions.
+   */
+  async scheduleCleaning(
+    unit: Pick<Unit, 'id' | 'propertyId'>,
+    options: ScheduleCleaningOptions,
+    currentUser: User,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<Task> {
+    const now = new Date();
+
+    await tx.unit.update({
+      where: { id: unit.id },
+      data: {
+        housekeepingStatus: HousekeepingStatus.DIRTY,
+        housekeepingUpdatedAt: now,
+        status: options.keepUnitStatus ? undefined : UnitStatus.CLEANING,
+      },
+    });
+
+    const openTask = await tx.task.findFirst({
+      where: { unitId: unit.id, taskType: TaskType.HOUSEKEEPING, status: { in: OPEN_TASK_STATUSES } },
+    });
+    if (openTask) {
+      return openTask;
+    }
+
+    const department = await tx.department.findFirst({
+      where: { propertyId: unit.propertyId, name: { equals: HOUSEKEEPING_DEPARTMENT, mode: 'insensitive' } },
+    });
+
+    const task = await tx.task.create({
+      data: {
+        propertyId: unit.propertyId,
+        title: options.title,
+        description: options.description,
+        taskType: TaskType.HOUSEKEEPING,
+        priority: options.priority ?? (await this.defaultPriority(unit.id, now, tx)),
+        unitId: unit.id,
+        departmentId: department?.id,
+        reservationId: options.reservationId,
+        relatedEntity: 'Unit',
+        relatedId: unit.id,
+        dueDate: options.dueDate ?? now,
+        createdBy: currentUser.id,
+      },
+    });
+
+    if (!department) {
+      return task;
+    }
+
+    // Let the housekeeping department's assignment rule pick who cleans
+    const decision = await this.taskAssignmentService.autoAssign(task.id, now, tx);
+    return decision?.assignedToId ? { ...task, assignedToId: decision.assignedToId } : task;
+  }
+
+  async markDirty(unitId: string, markDirtyDto: MarkDirtyDto, currentUser: User): Promise<Unit> {
+    const unit = await this.findUnit(unitId, currentUser);
+    this.assertTransition(unit, HousekeepingStatus.DIRTY);
+
+    await this.scheduleCleaning(
+      unit,
+      {
+        title: `Clean unit ${unit.unitNumber}`,
+        description: markDirtyDto.notes,
+        priority: markDirtyDto.priority,
+        keepUnitStatus: unit.status !== UnitStatus.AVAILABLE,
+      },
+      currentUser,
+    );
+
+    return this.logTransition(unit, currentUser);
+  }
+
+  async startCleaning(unitId: string, currentUser: User): Promise<Unit> {
+    const unit = await this.findUnit(unitId, currentUser);
+    this.assertTransition(unit, HousekeepingStatus.CLEANING);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.unit.update({
+        where: { id: unit.id },
+        data: { housekeepingStatus: HousekeepingStatus.CLEANING, housekeepingUpdatedAt: new Date() },
+      });
+
+      const task = await this.findOpenTask(unit.id, tx);
+      if (task) {
+        await tx.task.update({
+          where: { id: task.id },
+          data: { status: TaskStatus.IN_PROGRESS, assignedToId: task.assignedToId ?? currentUser.id },
+        });
+      }
+    });
+
+    return this.logTransition(unit, currentUser);
+  }
+
+  /** Housekeeper is done; the task closes and the room waits for inspection */
+  async finishCleaning(unitId: string, finishDto: FinishCleaningDto, currentUser: User): Promise<Unit> {
+    const unit = await this.findUnit(unitId, currentUser);
+    this.assertTransition(unit, HousekeepingStatus.CLEAN);
+    const now = new Date();
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.unit.update({
+        where: { id: unit.id },
+        data: { housekeepingStatus: HousekeepingStatus.CLEAN, housekeepingUpdatedAt: now },
+      });
+
+      const task = await this.findOpenTask(unit.id, tx);
+      if (task) {
+        await tx.task.update({
+          where: { id: task.id },
+          data: {
+            status: TaskStatus.COMPLETED,
+            completedAt: now,
+            completedBy: currentUser.id,
+            notes: finishDto.notes ?? task.notes,
+          },
+        });
+      }
+    });
+
+    return this.logTransition(unit, currentUser);
+  }
+
+  /**
+   * Supervisor check. A pass releases a vacant room for sale; a fail sends it
+   * back to DIRTY with a new high-priority cleaning task.
+   */
+  async inspect(unitId: string, inspectDto: InspectRoomDto, currentUser: User): Promise<Unit> {
+    const unit = await this.findUnit(unitId, currentUser);
+    if (unit.housekeepingStatus !== HousekeepingStatus.CLEAN) {
+      throw new BadRequestException(`Unit ${unit.unitNumber} must be cleaned before inspection`);
+    }
+
+    if (inspectDto.passed) {
+      await this.prisma.unit.update({
+        where: { id: unit.id },
+        data: {
+          housekeepingStatus: HousekeepingStatus.INSPECTED,
+          housekeepingUpdatedAt: new Date(),
+          status: unit.status === UnitStatus.CLEANING ? UnitStatus.AVAILABLE : undefined,
+        },
+      });
+    } else {
+      await this.scheduleCleaning(
+        unit,
+        {
+          title: `Re-clean unit ${unit.unitNumber}`,
+          description: inspectDto.notes ? `Failed inspection: ${inspectDto.notes}` : 'Failed inspection',
+          priority: TaskPriority.HIGH,
+          keepUnitStatus: true,
+        },
+        currentUser,
+      );
+    }
+
+    return this.logTransition(unit, currentUser);
+  }
+
+  async assignTask(taskId: string, assignDto: AssignHousekeepingTaskDto, currentUser: User): Promise<Task> {
+    const task = await this.prisma.task.findFirst({
+      where: {
+        id: taskId,
+        propertyId: currentUser.propertyId!,
+        taskType: TaskType.HOUSEKEEPING,
+        status: { in: OPEN_TASK_STATUSES },
+      },
+    });
+    if (!task) {
+      throw new NotFoundException('Open housekeeping task not found');
+    }
+
+    const assignee = await this.prisma.user.findFirst({
+      where: { id: assignDto.assignedToId, organizationId: currentUser.organizationId, deletedAt: null },
+    });
+    if (!assignee) {
+      throw new NotFoundException('Housekeeper not found');
+    }
+
+    const updated = await this.prisma.task.update({
+      where: { id: task.id },
+      data: { assignedToId: assignee.id },
+    });
+
+    await this.auditService.logUpdate(
+      currentUser.id,
+      'Task',
+      task.id,
+      { assignedToId: task.assignedToId },
+      { assignedToId: assignee.id },
+    );
+
+    return updated;
+  }
+
+  private async defaultPriority(unitId: string, now: Date, tx: Prisma.TransactionClient): Promise<TaskPriority> {
+    const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const arrivalToday = await tx.reservation.count({
+      where: {
+        unitId,
+        status: ReservationStatus.CONFIRMED,
+        checkInDate: { gte: dayStart, lt: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000) },
+      },
+    });
+    return arrivalToday > 0 ? TaskPriority.HIGH : TaskPriority.MEDIUM;
+  }
+
+  private assertTransition(unit: Unit, to: HousekeepingStatus): void {
+    if (!canTransition(unit.housekeepingStatus, to)) {
+      throw new BadRequestException(
+        `Unit ${unit.unitNumber} cannot move from ${unit.housekeepingStatus} to ${to}`,
+      );
+    }
+  }
+
+  private async findUnit(unitId: string, currentUser: User): Promise<Unit> {
+    const unit = await this.prisma.unit.findFirst({
+      where: { id: unitId, propertyId: currentUser.propertyId!, deletedAt: null },
+    });
+
+    if (!unit) {
+      throw new NotFoundException('Unit not found');
+    }
+
+    return unit;
+  }
+
+  private findOpenTask(unitId: string, tx: Prisma.TransactionClient): Promise<Task | null> {
+    return tx.task.findFirst({
+      where: { unitId, taskType: TaskType.HOUSEKEEPING, status: { in: OPEN_TASK_STATUSES } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  private async logTransition(before: Unit, currentUser: User): Promise<Unit> {
+    const unit = await this.prisma.unit.findUniqueOrThrow({ where: { id: before.id } });
+
+    await this.auditService.logUpdate(
+      currentUser.id,
+      'Unit',
+      unit.id,
+      { status: before.status, housekeepingStatus: before.housekeepingStatus },
+      { status: unit.status, housekeepingStatus: unit.housekeepingStatus },
+    );
+
+    return unit;
+  }
+}
@@ -0,0 +1,36 @@
+import { HousekeepingStatus, TaskPriority, TaskStatus, UnitStatus, UnitType } from '@prisma/client';
+
+/** How the unit is used today, which drives cleaning priority */
+export type UnitOccupancy = 'VACANT' | 'ARRIVAL' | 'STAYOVER' | 'DEPARTURE' | 'TURNOVER' | 'DEPARTED';
+
+export interface HousekeepingBoardTask {
+  id: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  assignedTo: { id: string; firstName: string; lastName: string } | null;
+}
+
+export interface HousekeepingBoardUnit {
+  id: string;
+  unitNumber: string;
+  unitType: UnitType;
+  building: string | null;
+  floor: number | null;
+  status: UnitStatus;
+  housekeepingStatus: HousekeepingStatus;
+  housekeepingUpdatedAt: Date | null;
+  occupancy: UnitOccupancy;
+  task: HousekeepingBoardTask | null;
+}
+
+export interface HousekeepingBoardFloor {
+  building: string | null;
+  floor: number | null;
+  units: HousekeepingBoardUnit[];
+}
+
+export interface HousekeepingBoard {
+  date: string;
+  summary: Record<HousekeepingStatus, number> & { arrivalsNotReady: number };
+  floors: HousekeepingBoardFloor[];
+}
@@ -0,0 +1,78 @@
+import { IsBoolean, IsDateString, IsEnum, IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MaintenanceFrequency, TaskPriority, TaskType } from '@prisma/client';
+
+export class CreateMaintenanceScheduleDto {
+  @ApiProperty({ example: 'Service air conditioning' })
+  @IsString()
+  @MaxLength(200)
+  title: string;
+
+  @ApiPropertyOptional({ example: 'Clean filters and check refrigerant pressure' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ enum: TaskType, example: TaskType.PREVENTIVE })
+  @IsOptional()
+  @IsEnum(TaskType)
+  taskType?: TaskType;
+
+  @ApiPropertyOptional({ enum: TaskPriority, example: TaskPriority.MEDIUM })
+  @IsOptional()
+  @IsEnum(TaskPriority)
+  priority?: TaskPriority;
+
+  @ApiProperty({ enum: MaintenanceFrequency, example: MaintenanceFrequency.MONTHLY })
+  @IsEnum(MaintenanceFrequency)
+  frequency: MaintenanceFrequency;
+
+  @ApiPropertyOptional({ example: 3, description: 'Every N days, weeks, months or checked-out stays' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  interval?: number;
+
+  @ApiPropertyOptional({ example: 'clx1234567890', description: 'Set exactly one of unitId, roomTypeId or departmentId' })
+  @IsOptional()
+  @IsString()
+  unitId?: string;
+
+  @ApiPropertyOptional({ example: 'clx1234567890', description: 'Creates one task per unit of the room type' })
+  @IsOptional()
+  @IsString()
+  roomTypeId?: string;
+
+  @ApiPropertyOptional({ example: 'clx1234567890', description: 'Creates one department task per occurrence' })
+  @IsOptional()
+  @IsString()
+  departmentId?: string;
+
+  @ApiPropertyOptional({ example: 'clx1234567890' })
+  @IsOptional()
+  @IsString()
+  assignedToId?: string;
+
+  @ApiPropertyOptional({ example: 60, description: 'Estimated minutes per task' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  estimatedTime?: number;
+
+  @ApiProperty({ example: '2025-07-01', description: 'First occurrence; stay counting starts here for STAYS' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiPropertyOptional({ example: 7, description: 'Days ahead of an occurrence its task is created' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(90)
+  leadDays?: number;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,5 @@
+export * from './create-maintenance-schedule.dto';
+export * from './update-maintenance-schedule.dto';
+export * from './maintenance-schedule-filter.dto';
+export * from './skip-maintenance-task.dto';
+export * from './snooze-maintenance-task.dto';
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { IsBoolean, IsOptional, IsString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+
+export class MaintenanceScheduleFilterDto {
+  @ApiPropertyOptional({ example: 'clx1234567890', description: 'Schedules of the unit, including its room type' })
+  @IsOptional()
+  @IsString()
+  unitId?: string;
+
+  @ApiPropertyOptional({ example: 'clx1234567890' })
+  @IsOptional()
+  @IsString()
+  roomTypeId?: string;
+
+  @ApiPropertyOptional({ example: 'clx1234567890' })
+  @IsOptional()
+  @IsString()
+  departmentId?: string;
+
+  @ApiPropertyOptional({ example: false, description: 'Include paused schedules' })
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  includeInactive?: boolean;
+}
@@ -0,0 +1,9 @@
+import { IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SkipMaintenanceTaskDto {
+  @ApiProperty({ example: 'Filters replaced last week during repair' })
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
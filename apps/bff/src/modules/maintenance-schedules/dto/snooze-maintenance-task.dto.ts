@@ -0,0 +1,10 @@
+import { IsInt, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SnoozeMaintenanceTaskDto {
+  @ApiProperty({ example: 3, description: 'Days to push the due date back' })
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  days: number;
+}
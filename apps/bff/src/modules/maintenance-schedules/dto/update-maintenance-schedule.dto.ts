@@ -0,0 +1,6 @@
+import { PartialType, OmitType } from '@nestjs/swagger';
+import { CreateMaintenanceScheduleDto } from './create-maintenance-schedule.dto';
+
+export class UpdateMaintenanceScheduleDto extends PartialType(
+  OmitType(CreateMaintenanceScheduleDto, ['unitId', 'roomTypeId', 'departmentId'] as const)
+) {}
@@ -0,0 +1,22 @@
+import { MaintenanceFrequency, MaintenanceSchedule, Task } from '@prisma/client';
+
+export interface MaintenanceScheduleWithTarget extends MaintenanceSchedule {
+  unit: { id: string; unitNumber: string } | null;
+  roomType: { id: string; name: string } | null;
+  department: { id: string; name: string } | null;
+}
+
+export interface MaintenanceTask extends Task {
+  assignedTo: { id: string; firstName: string; lastName: string } | null;
+  completedByUser: { id: string; firstName: string; lastName: string } | null;
+  maintenanceSchedule: { id: string; title: string; frequency: MaintenanceFrequency; interval: number } | null;
+}
+
+export interface UnitMaintenanceHistory {
+  unit: { id: string; unitNumber: string };
+  schedules: MaintenanceScheduleWithTarget[];
+  // Open maintenance tasks, soonest first
+  upcoming: MaintenanceTask[];
+  // Completed work and skipped occurrences, most recent first
+  history: MaintenanceTask[];
+}
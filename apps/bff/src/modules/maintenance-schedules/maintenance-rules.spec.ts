@@ -0,0 +1,25 @@
+import { MaintenanceFrequency } from '@prisma/client';
+import { scheduleTargetError, snoozedDueDate } from './maintenance-rules';
+
+describe('maintenance rules', () => {
+  it('requires exactly one target', () => {
+    expect(scheduleTargetError({ unitId: 'unit-1' }, MaintenanceFrequency.MONTHLY)).toBeNull();
+    expect(scheduleTargetError({}, MaintenanceFrequency.MONTHLY)).toMatch(/exactly one/);
+    expect(
+      scheduleTargetError({ unitId: 'unit-1', roomTypeId: 'rt-1' }, MaintenanceFrequency.WEEKLY),
+    ).toMatch(/exactly one/);
+  });
+
+  it('only counts stays on units and room types', () => {
+    expect(scheduleTargetError({ roomTypeId: 'rt-1' }, MaintenanceFrequency.STAYS)).toBeNull();
+    expect(scheduleTargetError({ departmentId: 'dep-1' }, MaintenanceFrequency.STAYS)).toMatch(/unit or room type/);
+    expect(scheduleTargetError({ departmentId: 'dep-1' }, MaintenanceFrequency.DAILY)).toBeNull();
+  });
+
+  it('snoozes from the due date, or from now when the task is overdue', () => {
+    const now = new Date('2025-06-10T12:00:00Z');
+    expect(snoozedDueDate(new Date('2025-06-12T00:00:00Z'), 3, now)).toEqual(new Date('2025-06-15T00:00:00Z'));
+    expect(snoozedDueDate(new Date('2025-06-01T00:00:00Z'), 2, now)).toEqual(new Date('2025-06-12T12:00:00Z'));
+    expect(snoozedDueDate(null, 1, now)).toEqual(new Date('2025-06-11T12:00:00Z'));
+  });
+});
@@ -0,0 +1,39 @@
+import { MaintenanceFrequency, TaskStatus, TaskType } from '@prisma/client';
+
+export interface ScheduleTarget {
+  unitId?: string | null;
+  roomTypeId?: string | null;
+  departmentId?: string | null;
+}
+
+/** Task types that make up a unit's maintenance history */
+export const MAINTENANCE_TASK_TYPES: TaskType[] = [
+  TaskType.PREVENTIVE,
+  TaskType.MAINTENANCE,
+  TaskType.REPAIR,
+  TaskType.INSPECTION,
+];
+
+/** Generated tasks that can still be skipped or snoozed */
+export const OPEN_TASK_STATUSES: TaskStatus[] = [TaskStatus.PENDING, TaskStatus.IN_PROGRESS, TaskStatus.ON_HOLD];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Returns why the target is invalid for the frequency, or null when it is fine */
+export function scheduleTargetError(target: ScheduleTarget, frequency: MaintenanceFrequency): string | null {
+  const targets = [target.unitId, target.roomTypeId, target.departmentId].filter(Boolean);
+  if (targets.length !== 1) {
+    return 'A schedule applies to exactly one unit, room type or department';
+  }
+  // Stays are counted per unit, so a department has nothing to count
+  if (frequency === MaintenanceFrequency.STAYS && target.departmentId) {
+    return 'Stay-based schedules need a unit or room type';
+  }
+  return null;
+}
+
+/** Pushes a task back by whole days from its current due date, or from now when it has none */
+export function snoozedDueDate(dueDate: Date | null, days: number, now: Date = new Date()): Date {
+  const base = dueDate && dueDate > now ? dueDate : now;
+  return new Date(base.getTime() + days * DAY_MS);
+}
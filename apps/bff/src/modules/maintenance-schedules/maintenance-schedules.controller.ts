@@ -0,0 +1,105 @@
+import { Controller, Get, Post, Patch, Body, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { MaintenanceSchedulesService } from './maintenance-schedules.service';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { PermissionGuard } from '../../shared/guards/permission.guard';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { RequirePermission } from '../../shared/decorators/require-permission.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+import {
+  CreateMaintenanceScheduleDto,
+  UpdateMaintenanceScheduleDto,
+  MaintenanceScheduleFilterDto,
+  SkipMaintenanceTaskDto,
+  SnoozeMaintenanceTaskDto,
+} from './dto';
+import { User } from '@prisma/client';
+
+@ApiTags('Maintenance Schedules')
+@Controller('maintenance-schedules')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class MaintenanceSchedulesController {
+  constructor(private readonly maintenanceSchedulesService: MaintenanceSchedulesService) {}
+
+  @Post()
+  @RequirePermission('task.create.property')
+  @ApiOperation({ summary: 'Create a recurring preventive maintenance schedule' })
+  @ApiResponse({ status: 201, description: 'Maintenance schedule created successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid target for the frequency' })
+  async create(@Body() createDto: CreateMaintenanceScheduleDto, @CurrentUser() currentUser: User) {
+    const schedule = await this.maintenanceSchedulesService.create(createDto, currentUser);
+    return CustomApiResponse.success(schedule, 'Maintenance schedule created successfully');
+  }
+
+  @Get()
+  @RequirePermission('task.read.property')
+  @ApiOperation({ summary: 'List maintenance schedules, active only by default' })
+  @ApiResponse({ status: 200, description: 'Maintenance schedules retrieved successfully' })
+  async findAll(@Query() filterDto: MaintenanceScheduleFilterDto, @CurrentUser() currentUser: User) {
+    const schedules = await this.maintenanceSchedulesService.findAll(filterDto, currentUser);
+    return CustomApiResponse.success(schedules, 'Maintenance schedules retrieved successfully');
+  }
+
+  @Get('units/:unitId/history')
+  @RequirePermission('task.read.property')
+  @ApiOperation({ summary: 'Maintenance history, open tasks and schedules of a unit' })
+  @ApiResponse({ status: 200, description: 'Maintenance history retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Unit not found' })
+  async getUnitHistory(@Param('unitId') unitId: string, @CurrentUser() currentUser: User) {
+    const history = await this.maintenanceSchedulesService.getUnitHistory(unitId, currentUser);
+    return CustomApiResponse.success(history, 'Maintenance history retrieved successfully');
+  }
+
+  @Get(':id')
+  @RequirePermission('task.read.property')
+  @ApiOperation({ summary: 'Get a maintenance schedule' })
+  @ApiResponse({ status: 200, description: 'Maintenance schedule retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Maintenance schedule not found' })
+  async findOne(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    const schedule = await this.maintenanceSchedulesService.findOne(id, currentUser);
+    return CustomApiResponse.success(schedule, 'Maintenance schedule retrieved successfully');
+  }
+
+  @Patch(':id')
+  @RequirePermission('task.create.property')
+  @ApiOperation({ summary: 'Change or pause a maintenance schedule' })
+  @ApiResponse({ status: 200, description: 'Maintenance schedule updated successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid target for the frequency' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateMaintenanceScheduleDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const schedule = await this.maintenanceSchedulesService.update(id, updateDto, currentUser);
+    return CustomApiResponse.success(schedule, 'Maintenance schedule updated successfully');
+  }
+
+  @Post('tasks/:taskId/skip')
+  @RequirePermission('task.update.property')
+  @ApiOperation({ summary: 'Skip one generated maintenance task' })
+  @ApiResponse({ status: 200, description: 'Maintenance task skipped successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Task is no longer open' })
+  async skipTask(
+    @Param('taskId') taskId: string,
+    @Body() skipDto: SkipMaintenanceTaskDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const task = await this.maintenanceSchedulesService.skipTask(taskId, skipDto, currentUser);
+    return CustomApiResponse.success(task, 'Maintenance task skipped successfully');
+  }
+
+  @Post('tasks/:taskId/snooze')
+  @RequirePermission('task.update.property')
+  @ApiOperation({ summary: 'Push back the due date of a generated maintenance task' })
+  @ApiResponse({ status: 200, description: 'Maintenance task snoozed successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Task is no longer open' })
+  async snoozeTask(
+    @Param('taskId') taskId: string,
+    @Body() snoozeDto: SnoozeMaintenanceTaskDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const task = await this.maintenanceSchedulesService.snoozeTask(taskId, snoozeDto, currentUser);
+    return CustomApiResponse.success(task, 'Maintenance task snoozed successfully');
+  }
+}
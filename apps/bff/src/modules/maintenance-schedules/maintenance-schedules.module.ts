@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { MaintenanceSchedulesService } from './maintenance-schedules.service';
+import { MaintenanceSchedulesController } from './maintenance-schedules.controller';
+
+@Module({
+  providers: [MaintenanceSchedulesService],
+  controllers: [MaintenanceSchedulesController],
+})
+export class MaintenanceSchedulesModule {}
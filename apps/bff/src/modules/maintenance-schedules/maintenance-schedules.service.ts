@@ -0,0 +1,253 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import {
+  CreateMaintenanceScheduleDto,
+  UpdateMaintenanceScheduleDto,
+  MaintenanceScheduleFilterDto,
+  SkipMaintenanceTaskDto,
+  SnoozeMaintenanceTaskDto,
+} from './dto';
+import { MaintenanceScheduleWithTarget, MaintenanceTask, UnitMaintenanceHistory } from './interfaces';
+import {
+  MAINTENANCE_TASK_TYPES,
+  OPEN_TASK_STATUSES,
+  ScheduleTarget,
+  scheduleTargetError,
+  snoozedDueDate,
+} from './maintenance-rules';
+import { User, MaintenanceFrequency, TaskStatus } from '@prisma/client';
+
+const targetInclude = {
+  unit: { select: { id: true, unitNumber: true } },
+  roomType: { select: { id: true, name: true } },
+  department: { select: { id: true, name: true } },
+};
+
+const userSummary = { select: { id: true, firstName: true, lastName: true } };
+
+const taskInclude = {
+  assignedTo: userSummary,
+  completedByUser: userSummary,
+  maintenanceSchedule: { select: { id: true, title: true, frequency: true, interval: true } },
+};
+
+@Injectable()
+export class MaintenanceSchedulesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async create(createDto: CreateMaintenanceScheduleDto, currentUser: User): Promise<MaintenanceScheduleWithTarget> {
+    await this.assertTarget(createDto, createDto.frequency, currentUser);
+    if (createDto.assignedToId) {
+      await this.assertAssignee(createDto.assignedToId, currentUser);
+    }
+
+    const schedule = await this.prisma.maintenanceSchedule.create({
+      data: {
+        ...createDto,
+        startDate: new Date(createDto.startDate),
+        propertyId: currentUser.propertyId!,
+        createdBy: currentUser.id,
+      },
+      include: targetInclude,
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'MaintenanceSchedule', schedule.id, schedule);
+
+    return schedule;
+  }
+
+  async findAll(filterDto: MaintenanceScheduleFilterDto, currentUser: User): Promise<MaintenanceScheduleWithTarget[]> {
+    const propertyId = currentUser.propertyId!;
+    let unitTargets: ScheduleTarget[] | undefined;
+
+    // A unit is covered by its own schedules and by those of its room type
+    if (filterDto.unitId) {
+      const unit = await this.findUnit(filterDto.unitId, currentUser);
+      unitTargets = [{ unitId: unit.id }, ...(unit.roomTypeId ? [{ roomTypeId: unit.roomTypeId }] : [])];
+    }
+
+    return this.prisma.maintenanceSchedule.findMany({
+      where: {
+        propertyId,
+        isActive: filterDto.includeInactive ? undefined : true,
+        roomTypeId: filterDto.roomTypeId,
+        departmentId: filterDto.departmentId,
+        ...(unitTargets && { OR: unitTargets }),
+      },
+      include: targetInclude,
+      orderBy: [{ isActive: 'desc' }, { title: 'asc' }],
+    });
+  }
+
+  async findOne(id: string, currentUser: User): Promise<MaintenanceScheduleWithTarget> {
+    const schedule = await this.prisma.maintenanceSchedule.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+      include: targetInclude,
+    });
+
+    if (!schedule) {
+      throw new NotFoundException('Maintenance schedule not found');
+    }
+
+    return schedule;
+  }
+
+  /** Changes apply to occurrences that have not been generated yet */
+  async update(
+    id: string,
+    updateDto: UpdateMaintenanceScheduleDto,
+    currentUser: User,
+  ): Promise<MaintenanceScheduleWithTarget> {
+    const existing = await this.findOne(id, currentUser);
+
+    if (updateDto.frequency && updateDto.frequency !== existing.frequency) {
+      await this.assertTarget(existing, updateDto.frequency, currentUser);
+    }
+    if (updateDto.assignedToId) {
+      await this.assertAssignee(updateDto.assignedToId, currentUser);
+    }
+
+    const schedule = await this.prisma.maintenanceSchedule.update({
+      where: { id },
+      data: {
+        ...updateDto,
+        startDate: updateDto.startDate ? new Date(updateDto.startDate) : undefined,
+      },
+      include: targetInclude,
+    });
+
+    await this.auditService.logUpdate(currentUser.id, 'MaintenanceSchedule', id, existing, schedule);
+
+    return schedule;
+  }
+
+  /** Cancels one generated occurrence; the schedule carries on with the next one */
+  async skipTask(taskId: string, skipDto: SkipMaintenanceTaskDto, currentUser: User): Promise<MaintenanceTask> {
+    const existing = await this.findOpenScheduledTask(taskId, currentUser);
+    const note = `Skipped by ${currentUser.firstName} ${currentUser.lastName}: ${skipDto.reason}`;
+
+    const task = await this.prisma.task.update({
+      where: { id: taskId },
+      data: {
+        status: TaskStatus.CANCELLED,
+        notes: existing.notes ? `${existing.notes}\n${note}` : note,
+      },
+      include: taskInclude,
+    });
+
+    await this.auditService.logUpdate(
+      currentUser.id,
+      'Task',
+      taskId,
+      { status: existing.status },
+      { status: task.status, skipReason: skipDto.reason },
+    );
+
+    return task;
+  }
+
+  /** Moves the due date only; the occurrence it was generated for stays the same */
+  async snoozeTask(taskId: string, snoozeDto: SnoozeMaintenanceTaskDto, currentUser: User): Promise<MaintenanceTask> {
+    const existing = await this.findOpenScheduledTask(taskId, currentUser);
+
+    const task = await this.prisma.task.update({
+      where: { id: taskId },
+      data: { dueDate: snoozedDueDate(existing.dueDate, snoozeDto.days) },
+      include: taskInclude,
+    });
+
+    await this.auditService.logUpdate(
+      currentUser.id,
+      'Task',
+      taskId,
+      { dueDate: existing.dueDate },
+      { dueDate: task.dueDate },
+    );
+
+    return task;
+  }
+
+  async getUnitHistory(unitId: string, currentUser: User): Promise<UnitMaintenanceHistory> {
+    const unit = await this.findUnit(unitId, currentUser);
+    const taskWhere = { propertyId: currentUser.propertyId!, unitId: unit.id, taskType: { in: MAINTENANCE_TASK_TYPES } };
+
+    const [schedules, upcoming, history] = await Promise.all([
+      this.findAll({ unitId: unit.id }, currentUser),
+      this.prisma.task.findMany({
+        where: { ...taskWhere, status: { in: OPEN_TASK_STATUSES } },
+        include: taskInclude,
+        orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }],
+      }),
+      this.prisma.task.findMany({
+        where: {
+          ...taskWhere,
+          OR: [
+            { status: TaskStatus.COMPLETED },
+            { status: TaskStatus.CANCELLED, maintenanceScheduleId: { not: null } },
+          ],
+        },
+        include: taskInclude,
+        orderBy: [{ completedAt: { sort: 'desc', nulls: 'last' } }, { updatedAt: 'desc' }],
+      }),
+    ]);
+
+    return { unit: { id: unit.id, unitNumber: unit.unitNumber }, schedules, upcoming, history };
+  }
+
+  private async findUnit(unitId: string, currentUser: User) {
+    const unit = await this.prisma.unit.findFirst({
+      where: { id: unitId, propertyId: currentUser.propertyId!, deletedAt: null },
+      select: { id: true, unitNumber: true, roomTypeId: true },
+    });
+    if (!unit) {
+      throw new NotFoundException('Unit not found');
+    }
+    return unit;
+  }
+
+  private async findOpenScheduledTask(taskId: string, currentUser: User) {
+    const task = await this.prisma.task.findFirst({
+      where: { id: taskId, propertyId: currentUser.propertyId!, maintenanceScheduleId: { not: null } },
+    });
+    if (!task) {
+      throw new NotFoundException('Scheduled maintenance task not found');
+    }
+    if (!OPEN_TASK_STATUSES.includes(task.status)) {
+      throw new BadRequestException(`Task is already ${task.status.toLowerCase()}`);
+    }
+    return task;
+  }
+
+  private async assertTarget(target: ScheduleTarget, frequency: MaintenanceFrequency, currentUser: User): Promise<void> {
+    const error = scheduleTargetError(target, frequency);
+    if (error) {
+      throw new BadRequestException(error);
+    }
+
+    const propertyId = currentUser.propertyId!;
+    const found = target.unitId
+      ? await this.prisma.unit.findFirst({ where: { id: target.unitId, propertyId, deletedAt: null } })
+      : target.roomTypeId
+        ? await this.prisma.roomType.findFirst({ where: { id: target.roomTypeId, propertyId } })
+        : await this.prisma.department.findFirst({ where: { id: target.departmentId!, propertyId } });
+
+    if (!found) {
+      throw new NotFoundException(
+        target.unitId ? 'Unit not found' : target.roomTypeId ? 'Room type not found' : 'Department not found',
+      );
+    }
+  }
+
+  private async assertAssignee(userId: string, currentUser: User): Promise<void> {
+    const user = await this.prisma.user.findFirst({
+      where: { id: userId, organizationId: currentUser.organizationId, deletedAt: null },
+    });
+    if (!user) {
+      throw new NotFoundException('Assignee not found');
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { IsDateString, IsNumber, IsOptional, IsString, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+export class CreateDepositDto {
+  @ApiProperty({ example: 200 })
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount: number;
+
+  @ApiProperty({ example: '2024-03-01' })
+  @IsDateString()
+  dueDate: string;
+
+  @ApiPropertyOptional({ example: 'First night deposit' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
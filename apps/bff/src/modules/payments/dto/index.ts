@@ -0,0 +1,3 @@
+export * from './record-payment.dto';
+export * from './refund-payment.dto';
+export * from './create-deposit.dto';
\ No newline at end of file
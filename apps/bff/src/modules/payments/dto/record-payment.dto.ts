@@ -0,0 +1,45 @@
+import { IsEnum, IsIn, IsNotEmpty, IsNumber, IsOptional, IsString, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { PaymentMethod, PaymentTransactionType } from '@prisma/client';
+
+export class RecordPaymentDto {
+  @ApiProperty({ example: 150, description: 'Amount in the reservation currency' })
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount: number;
+
+  @ApiProperty({ enum: PaymentMethod, example: PaymentMethod.CARD })
+  @IsEnum(PaymentMethod)
+  method: PaymentMethod;
+
+  @ApiPropertyOptional({
+    enum: [PaymentTransactionType.PAYMENT, PaymentTransactionType.DEPOSIT],
+    default: PaymentTransactionType.PAYMENT,
+  })
+  @IsOptional()
+  @IsIn([PaymentTransactionType.PAYMENT, PaymentTransactionType.DEPOSIT])
+  type?: PaymentTransactionType;
+
+  @ApiPropertyOptional({ description: 'Deposit instalment this payment settles' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  depositId?: string;
+
+  @ApiPropertyOptional({ example: 'tok_visa', description: 'Card token from the payment form; card payments only' })
+  @IsOptional()
+  @IsString()
+  paymentToken?: string;
+
+  @ApiPropertyOptional({ example: 'Receipt 0042', description: 'Cash receipt, bank transfer ID or similar' })
+  @IsOptional()
+  @IsString()
+  reference?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
@@ -0,0 +1,17 @@
+import { IsNotEmpty, IsNumber, IsOptional, IsString, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+export class RefundPaymentDto {
+  @ApiPropertyOptional({ example: 50, description: 'Defaults to the full refundable amount' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount?: number;
+
+  @ApiProperty({ example: 'Early departure' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
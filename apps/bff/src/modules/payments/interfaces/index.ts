@@ -0,0 +1,22 @@
+import { PaymentStatus, PaymentTransaction, ReservationDeposit } from '@prisma/client';
+
+export interface PaymentTransactionWithRefundable extends PaymentTransaction {
+  refundableAmount: number;
+}
+
+export interface DepositWithBalance extends ReservationDeposit {
+  paidAmount: number;
+  isOverdue: boolean;
+}
+
+export interface ReservationPaymentSummary {
+  reservationId: string;
+  currency: string;
+  totalAmount: number;
+  paidAmount: number;
+  refundedAmount: number;
+  balance: number;
+  paymentStatus: PaymentStatus;
+  transactions: PaymentTransactionWithRefundable[];
+  deposits: DepositWithBalance[];
+}
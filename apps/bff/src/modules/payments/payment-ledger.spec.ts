@@ -0,0 +1,67 @@
+import { PaymentStatus, PaymentTransactionStatus, PaymentTransactionType } from '@prisma/client';
+import { LedgerTransaction, depositPaidAmount, refundableAmount, summarizePayments } from './payment-ledger';
+
+const tx = (overrides: Partial<LedgerTransaction> & { id: string; amount: number }): LedgerTransaction => ({
+  type: PaymentTransactionType.PAYMENT,
+  status: PaymentTransactionStatus.CAPTURED,
+  originalTransactionId: null,
+  depositId: null,
+  ...overrides,
+});
+
+describe('payment ledger', () => {
+  it('derives paid amount and status from captured transactions only', () => {
+    const transactions = [
+      tx({ id: 'dep', amount: 100, type: PaymentTransactionType.DEPOSIT }),
+      tx({ id: 'pay', amount: 150 }),
+      tx({ id: 'failed', amount: 500, status: PaymentTransactionStatus.FAILED }),
+    ];
+
+    expect(summarizePayments(transactions, 400)).toEqual({
+      paidAmount: 250,
+      refundedAmount: 0,
+      paymentStatus: PaymentStatus.PARTIAL,
+    });
+    expect(summarizePayments(transactions, 250).paymentStatus).toBe(PaymentStatus.PAID);
+    expect(summarizePayments([], 250).paymentStatus).toBe(PaymentStatus.PENDING);
+  });
+
+  it('nets refunds and reports fully refunded reservations', () => {
+    const transactions = [
+      tx({ id: 'pay', amount: 200 }),
+      tx({ id: 'ref-1', amount: 50, type: PaymentTransactionType.REFUND, originalTransactionId: 'pay' }),
+    ];
+
+    expect(summarizePayments(transactions, 200)).toMatchObject({ paidAmount: 150, refundedAmount: 50 });
+
+    transactions.push(tx({ id: 'ref-2', amount: 150, type: PaymentTransactionType.REFUND, originalTransactionId: 'pay' }));
+    expect(summarizePayments(transactions, 200)).toEqual({
+      paidAmount: 0,
+      refundedAmount: 200,
+      paymentStatus: PaymentStatus.REFUNDED,
+    });
+  });
+
+  it('limits refunds to what is left on the original payment', () => {
+    const payment = tx({ id: 'pay', amount: 120.5 });
+    const transactions = [
+      payment,
+      tx({ id: 'ref', amount: 20.25, type: PaymentTransactionType.REFUND, originalTransactionId: 'pay' }),
+      tx({ id: 'ref-failed', amount: 100, type: PaymentTransactionType.REFUND, originalTransactionId: 'pay', status: PaymentTransactionStatus.FAILED }),
+    ];
+
+    expect(refundableAmount(payment, transactions)).toBe(100.25);
+    expect(refundableAmount(transactions[1], transactions)).toBe(0);
+  });
+
+  it('counts deposit payments net of their refunds', () => {
+    const transactions = [
+      tx({ id: 'd1', amount: 80, type: PaymentTransactionType.DEPOSIT, depositId: 'deposit-1' }),
+      tx({ id: 'd2', amount: 20, type: PaymentTransactionType.DEPOSIT, depositId: 'deposit-1' }),
+      tx({ id: 'r1', amount: 30, type: PaymentTransactionType.REFUND, originalTransactionId: 'd1', depositId: 'deposit-1' }),
+      tx({ id: 'other', amount: 500, type: PaymentTransactionType.DEPOSIT, depositId: 'deposit-2' }),
+    ];
+
+    expect(depositPaidAmount('deposit-1', transactions)).toBe(70);
+  });
+});
@@ -0,0 +1,74 @@
+import { PaymentStatus, PaymentTransactionStatus, PaymentTransactionType } from '@prisma/client';
+
+export interface LedgerTransaction {
+  id: string;
+  type: PaymentTransactionType;
+  status: PaymentTransactionStatus;
+  amount: number;
+  originalTransactionId?: string | null;
+  depositId?: string | null;
+}
+
+export interface PaymentTotals {
+  paidAmount: number;
+  refundedAmount: number;
+  paymentStatus: PaymentStatus;
+}
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+const captured = (transactions: LedgerTransaction[]) =>
+  transactions.filter((transaction) => transaction.status === PaymentTransactionStatus.CAPTURED);
+
+export function derivePaymentStatus(totalAmount: number, paidAmount: number, refundedAmount: number): PaymentStatus {
+  if (paidAmount <= 0) {
+    return refundedAmount > 0 ? PaymentStatus.REFUNDED : PaymentStatus.PENDING;
+  }
+  return totalAmount > 0 && paidAmount >= totalAmount ? PaymentStatus.PAID : PaymentStatus.PARTIAL;
+}
+
+/**
+ * Net money held for a reservation. Only captured rows count; amounts are
+ * stored positive and the transaction type decides the direction.
+ */
+export function summarizePayments(transactions: LedgerTransaction[], totalAmount: number): PaymentTotals {
+  let received = 0;
+  let refunded = 0;
+
+  for (const transaction of captured(transactions)) {
+    if (transaction.type === PaymentTransactionType.REFUND) {
+      refunded += transaction.amount;
+    } else {
+      received += transaction.amount;
+    }
+  }
+
+  const paidAmount = roundCurrency(received - refunded);
+  const refundedAmount = roundCurrency(refunded);
+
+  return { paidAmount, refundedAmount, paymentStatus: derivePaymentStatus(totalAmount, paidAmount, refundedAmount) };
+}
+
+/** What is left to refund on a captured payment after earlier refunds */
+export function refundableAmount(original: LedgerTransaction, transactions: LedgerTransaction[]): number {
+  if (original.status !== PaymentTransactionStatus.CAPTURED || original.type === PaymentTransactionType.REFUND) {
+    return 0;
+  }
+
+  const refunded = captured(transactions)
+    .filter((transaction) => transaction.originalTransactionId === original.id)
+    .reduce((sum, transaction) => sum + transaction.amount, 0);
+
+  return Math.max(0, roundCurrency(original.amount - refunded));
+}
+
+/** Net amount collected against a deposit instalment, net of refunds on those payments */
+export function depositPaidAmount(depositId: string, transactions: LedgerTransaction[]): number {
+  const depositPayments = captured(transactions).filter(
+    (transaction) => transaction.depositId === depositId && transaction.type !== PaymentTransactionType.REFUND,
+  );
+
+  return roundCurrency(
+    depositPayments.reduce((sum, payment) => sum + refundableAmount(payment, transactions), 0),
+  );
+}
@@ -0,0 +1,88 @@
+import { Controller, Get, Post, Body, Param, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { PaymentsService } from './payments.service';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { PermissionGuard } from '../../shared/guards/permission.guard';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { RequirePermission } from '../../shared/decorators/require-permission.decorator';
+import { Audit } from '../../shared/decorators/audit.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+import { CreateDepositDto, RecordPaymentDto, RefundPaymentDto } from './dto';
+import { User } from '@prisma/client';
+
+@ApiTags('Payments')
+@Controller('payments')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class PaymentsController {
+  constructor(private readonly paymentsService: PaymentsService) {}
+
+  @Get('reservation/:reservationId')
+  @RequirePermission('payment.read.property')
+  @ApiOperation({ summary: 'Get payment transactions, deposits and balance for a reservation' })
+  @ApiResponse({ status: 200, description: 'Payments retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Reservation not found' })
+  async getSummary(@Param('reservationId') reservationId: string, @CurrentUser() currentUser: User) {
+    const summary = await this.paymentsService.getSummary(reservationId, currentUser);
+    return CustomApiResponse.success(summary, 'Payments retrieved successfully');
+  }
+
+  @Post('reservation/:reservationId')
+  @RequirePermission('payment.create.property')
+  @Audit({ action: 'CREATE', entity: 'PaymentTransaction' })
+  @ApiOperation({ summary: 'Record a payment or deposit for a reservation' })
+  @ApiResponse({ status: 201, description: 'Payment recorded successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Payment declined or deposit already settled' })
+  @ApiResponse({ status: 404, description: 'Reservation or deposit not found' })
+  async recordPayment(
+    @Param('reservationId') reservationId: string,
+    @Body() recordPaymentDto: RecordPaymentDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const summary = await this.paymentsService.recordPayment(reservationId, recordPaymentDto, currentUser);
+    return CustomApiResponse.success(summary, 'Payment recorded successfully');
+  }
+
+  @Post('reservation/:reservationId/deposits')
+  @RequirePermission('payment.create.property')
+  @Audit({ action: 'CREATE', entity: 'ReservationDeposit' })
+  @ApiOperation({ summary: 'Schedule a deposit instalment for a reservation' })
+  @ApiResponse({ status: 201, description: 'Deposit scheduled successfully' })
+  @ApiResponse({ status: 404, description: 'Reservation not found' })
+  async addDeposit(
+    @Param('reservationId') reservationId: string,
+    @Body() createDepositDto: CreateDepositDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const summary = await this.paymentsService.addDeposit(reservationId, createDepositDto, currentUser);
+    return CustomApiResponse.success(summary, 'Deposit scheduled successfully');
+  }
+
+  @Post('deposits/:depositId/waive')
+  @RequirePermission('payment.update.property')
+  @Audit({ action: 'WAIVE', entity: 'ReservationDeposit' })
+  @ApiOperation({ summary: 'Waive a pending deposit instalment' })
+  @ApiResponse({ status: 200, description: 'Deposit waived successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Deposit is not pending' })
+  @ApiResponse({ status: 404, description: 'Deposit not found' })
+  async waiveDeposit(@Param('depositId') depositId: string, @CurrentUser() currentUser: User) {
+    const summary = await this.paymentsService.waiveDeposit(depositId, currentUser);
+    return CustomApiResponse.success(summary, 'Deposit waived successfully');
+  }
+
+  @Post(':transactionId/refund')
+  @RequirePermission('payment.update.property')
+  @Audit({ action: 'REFUND', entity: 'PaymentTransaction' })
+  @ApiOperation({ summary: 'Refund all or part of a captured payment' })
+  @ApiResponse({ status: 201, description: 'Refund processed successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Nothing refundable or provider rejected the refund' })
+  @ApiResponse({ status: 404, description: 'Payment transaction not found' })
+  async refund(
+    @Param('transactionId') transactionId: string,
+    @Body() refundDto: RefundPaymentDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const summary = await this.paymentsService.refund(transactionId, refundDto, currentUser);
+    return CustomApiResponse.success(summary, 'Refund processed successfully');
+  }
+}
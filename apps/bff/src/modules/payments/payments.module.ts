@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { PaymentsService } from './payments.service';
+import { PaymentsController } from './payments.controller';
+import { FoliosModule } from '../folios/folios.module';
+import { PAYMENT_PROVIDER, FakePaymentProvider } from './providers';
+
+@Module({
+  imports: [ConfigModule, FoliosModule],
+  providers: [
+    PaymentsService,
+    FakePaymentProvider,
+    {
+      // Gateway is chosen with PAYMENT_PROVIDER; only the local fake ships today
+      provide: PAYMENT_PROVIDER,
+      inject: [ConfigService, FakePaymentProvider],
+      useFactory: (configService: ConfigService, fakeProvider: FakePaymentProvider) => {
+        const provider = configService.get<string>('PAYMENT_PROVIDER') || 'fake';
+        if (provider !== fakeProvider.name) {
+          throw new Error(`Unsupported PAYMENT_PROVIDER "${provider}"`);
+        }
+        return fakeProvider;
+      },
+    },
+  ],
+  controllers: [PaymentsController],
+  exports: [PaymentsService],
+})
+export class PaymentsModule {}
@@ -0,0 +1,353 @@
+import { Injectable, NotFoundException, BadRequestException, Inject } from '@nestjs/common';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { FoliosService } from '../folios/folios.service';
+import { CreateDepositDto, RecordPaymentDto, RefundPaymentDto } from './dto';
+import { ReservationPaymentSummary } from './interfaces';
+import { PAYMENT_PROVIDER, PaymentProvider, PaymentProviderResult } from './providers';
+import { LedgerTransaction, depositPaidAmount, refundableAmount, summarizePayments } from './payment-ledger';
+import {
+  User,
+  Reservation,
+  PaymentTransaction,
+  PaymentTransactionType,
+  PaymentTransactionStatus,
+  PaymentMethod,
+  DepositStatus,
+  Prisma,
+} from '@prisma/client';
+
+// Cash, bank transfers and other offline methods are recorded without a gateway
+const MANUAL_PROVIDER = 'manual';
+
+@Injectable()
+export class PaymentsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+    private readonly foliosService: FoliosService,
+    @Inject(PAYMENT_PROVIDER) private readonly paymentProvider: PaymentProvider,
+  ) {}
+
+  async getSummary(reservationId: string, currentUser: User): Promise<ReservationPaymentSummary> {
+    const reservation = await this.findReservation(reservationId, currentUser);
+    const [transactions, deposits] = await Promise.all([
+      this.prisma.paymentTransaction.findMany({
+        where: { reservationId },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.reservationDeposit.findMany({
+        where: { reservationId },
+        orderBy: { dueDate: 'asc' },
+      }),
+    ]);
+
+    const ledger = transactions.map(toLedger);
+    const totalAmount = reservation.totalAmount.toNumber();
+    const totals = summarizePayments(ledger, totalAmount);
+    const now = new Date();
+
+    return {
+      reservationId,
+      currency: reservation.currency,
+      totalAmount,
+      paidAmount: totals.paidAmount,
+      refundedAmount: totals.refundedAmount,
+      balance: Math.round((totalAmount - totals.paidAmount) * 100) / 100,
+      paymentStatus: totals.paymentStatus,
+      transactions: transactions.map((transaction, index) => ({
+        ...transaction,
+        refundableAmount: refundableAmount(ledger[index], ledger),
+      })),
+      deposits: deposits.map((deposit) => ({
+        ...deposit,
+        paidAmount: depositPaidAmount(deposit.id, ledger),
+        isOverdue: deposit.status === DepositStatus.PENDING && deposit.dueDate < now,
+      })),
+    };
+  }
+
+  /**
+   * Takes a payment or deposit. Card payments go through the configured
+   * provider; declines are kept on the ledger as FAILED before the error is
+   * returned so every attempt stays traceable.
+   */
+  async recordPayment(
+    reservationId: string,
+    recordPaymentDto: RecordPaymentDto,
+    currentUser: User,
+  ): Promise<ReservationPaymentSummary> {
+    const reservation = await this.findReservation(reservationId, currentUser);
+
+    let type = recordPaymentDto.type ?? PaymentTransactionType.PAYMENT;
+    if (recordPaymentDto.depositId) {
+      const deposit = await this.prisma.reservationDeposit.findFirst({
+        where: { id: recordPaymentDto.depositId, reservationId },
+      });
+      if (!deposit) {
+        throw new NotFoundException('Deposit not found');
+      }
+      if (deposit.status !== DepositStatus.PENDING) {
+        throw new BadRequestException(`Deposit is already ${deposit.status.toLowerCase()}`);
+      }
+      type = PaymentTransactionType.DEPOSIT;
+    }
+
+    const usesProvider = recordPaymentDto.method === PaymentMethod.CARD;
+    const transaction = await this.prisma.paymentTransaction.create({
+      data: {
+        propertyId: reservation.propertyId,
+        reservationId,
+        type,
+        method: recordPaymentDto.method,
+        amount: recordPaymentDto.amount,
+        currency: reservation.currency,
+        reference: recordPaymentDto.reference,
+        provider: usesProvider ? this.paymentProvider.name : MANUAL_PROVIDER,
+        depositId: recordPaymentDto.depositId,
+        notes: recordPaymentDto.notes,
+      },
+    });
+
+    const result: PaymentProviderResult = usesProvider
+      ? await this.paymentProvider.charge({
+          amount: recordPaymentDto.amount,
+          currency: reservation.currency,
+          paymentToken: recordPaymentDto.paymentToken,
+          description: `Reservation ${reservation.reservationNumber}`,
+          metadata: { reservationId, transactionId: transaction.id },
+        })
+      : { success: true };
+
+    await this.settle(transaction, result, currentUser);
+
+    await this.foliosService.recordSettlement(
+      reservation,
+      {
+        amount: -recordPaymentDto.amount,
+        description: `${type === PaymentTransactionType.DEPOSIT ? 'Deposit' : 'Payment'} - ${formatMethod(recordPaymentDto.method)}`,
+        reference: transaction.id,
+      },
+      currentUser,
+    );
+
+    return this.getSummary(reservationId, currentUser);
+  }
+
+  /**
+   * Refunds all or part of a captured payment through the provider that took
+   * it. The refund is its own transaction linked to the original.
+   */
+  async refund(
+    transactionId: string,
+    refundDto: RefundPaymentDto,
+    currentUser: User,
+  ): Promise<ReservationPaymentSummary> {
+    const original = await this.prisma.paymentTransaction.findFirst({
+      where: { id: transactionId, propertyId: currentUser.propertyId! },
+      include: { refunds: true, reservation: true },
+    });
+
+    if (!original) {
+      throw new NotFoundException('Payment transaction not found');
+    }
+    if (original.type === PaymentTransactionType.REFUND) {
+      throw new BadRequestException('Refunds cannot be refunded');
+    }
+
+    const refundable = refundableAmount(toLedger(original), original.refunds.map(toLedger));
+    if (refundable <= 0) {
+      throw new BadRequestException('Nothing left to refund on this payment');
+    }
+
+    const amount = refundDto.amount ?? refundable;
+    if (amount > refundable) {
+      throw new BadRequestException(`Only ${refundable.toFixed(2)} ${original.currency} can be refunded`);
+    }
+
+    const usesProvider = original.provider !== MANUAL_PROVIDER;
+    if (usesProvider && original.provider !== this.paymentProvider.name) {
+      throw new BadRequestException(
+        `Payment was taken through ${original.provider}, which is not the active payment provider`,
+      );
+    }
+
+    const refund = await this.prisma.paymentTransaction.create({
+      data: {
+        propertyId: original.propertyId,
+        reservationId: original.reservationId,
+        type: PaymentTransactionType.REFUND,
+        method: original.method,
+        amount,
+        currency: original.currency,
+        provider: original.provider,
+        originalTransactionId: original.id,
+        depositId: original.depositId,
+        notes: refundDto.reason,
+      },
+    });
+
+    const result: PaymentProviderResult = usesProvider
+      ? await this.paymentProvider.refund({
+          providerReference: original.providerReference!,
+          amount,
+          currency: original.currency,
+          reason: refundDto.reason,
+        })
+      : { success: true };
+
+    await this.settle(refund, result, currentUser);
+
+    await this.foliosService.recordSettlement(
+      original.reservation,
+      { amount, description: `Refund - ${refundDto.reason}`, reference: refund.id },
+      currentUser,
+    );
+
+    return this.getSummary(original.reservationId, currentUser);
+  }
+
+  async addDeposit(
+    reservationId: string,
+    createDepositDto: CreateDepositDto,
+    currentUser: User,
+  ): Promise<ReservationPaymentSummary> {
+    await this.findReservation(reservationId, currentUser);
+
+    const deposit = await this.prisma.reservationDeposit.create({
+      data: {
+        reservationId,
+        amount: createDepositDto.amount,
+        dueDate: new Date(createDepositDto.dueDate),
+        description: createDepositDto.description,
+      },
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'ReservationDeposit', deposit.id, deposit);
+
+    return this.getSummary(reservationId, currentUser);
+  }
+
+  async waiveDeposit(depositId: string, currentUser: User): Promise<ReservationPaymentSummary> {
+    const deposit = await this.prisma.reservationDeposit.findFirst({
+      where: { id: depositId, reservation: { propertyId: currentUser.propertyId! } },
+    });
+
+    if (!deposit) {
+      throw new NotFoundException('Deposit not found');
+    }
+    if (deposit.status !== DepositStatus.PENDING) {
+      throw new BadRequestException(`Deposit is already ${deposit.status.toLowerCase()}`);
+    }
+
+    await this.prisma.reservationDeposit.update({
+      where: { id: depositId },
+      data: { status: DepositStatus.WAIVED, waivedBy: currentUser.id },
+    });
+
+    await this.auditService.logUpdate(
+      currentUser.id,
+      'ReservationDeposit',
+      depositId,
+      { status: deposit.status },
+      { status: DepositStatus.WAIVED },
+    );
+
+    return this.getSummary(deposit.reservationId, currentUser);
+  }
+
+  /**
+   * Rewrites the reservation's paidAmount/paymentStatus and deposit statuses
+   * from the captured ledger. Also used after re-pricing changes the total.
+   */
+  async recalculate(reservationId: string, tx: Prisma.TransactionClient = this.prisma): Promise<void> {
+    const reservation = await tx.reservation.findUniqueOrThrow({ where: { id: reservationId } });
+    const transactions = await tx.paymentTransaction.findMany({ where: { reservationId } });
+    const deposits = await tx.reservationDeposit.findMany({
+      where: { reservationId, status: { not: DepositStatus.WAIVED } },
+    });
+
+    const ledger = transactions.map(toLedger);
+    const totals = summarizePayments(ledger, reservation.totalAmount.toNumber());
+
+    await tx.reservation.update({
+      where: { id: reservationId },
+      data: { paidAmount: totals.paidAmount, paymentStatus: totals.paymentStatus },
+    });
+
+    for (const deposit of deposits) {
+      const isPaid = depositPaidAmount(deposit.id, ledger) >= deposit.amount.toNumber();
+      const status = isPaid ? DepositStatus.PAID : DepositStatus.PENDING;
+      if (status !== deposit.status) {
+        await tx.reservationDeposit.update({
+          where: { id: deposit.id },
+          data: { status, paidAt: isPaid ? new Date() : null },
+        });
+      }
+    }
+  }
+
+  private async settle(
+    transaction: PaymentTransaction,
+    result: PaymentProviderResult,
+    currentUser: User,
+  ): Promise<void> {
+    if (!result.success) {
+      await this.prisma.paymentTransaction.update({
+        where: { id: transaction.id },
+        data: { status: PaymentTransactionStatus.FAILED, failureReason: result.failureReason },
+      });
+      await this.auditService.logCreate(currentUser.id, 'PaymentTransaction', transaction.id, {
+        type: transaction.type,
+        amount: transaction.amount,
+        status: PaymentTransactionStatus.FAILED,
+        failureReason: result.failureReason,
+      });
+      throw new BadRequestException(`Payment provider rejected the ${transaction.type.toLowerCase()}: ${result.failureReason}`);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.paymentTransaction.update({
+        where: { id: transaction.id },
+        data: {
+          status: PaymentTransactionStatus.CAPTURED,
+          providerReference: result.providerReference,
+          capturedBy: currentUser.id,
+          capturedAt: new Date(),
+        },
+      });
+      await this.recalculate(transaction.reservationId, tx);
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'PaymentTransaction', transaction.id, {
+      type: transaction.type,
+      method: transaction.method,
+      amount: transaction.amount,
+      originalTransactionId: transaction.originalTransactionId,
+      status: PaymentTransactionStatus.CAPTURED,
+    });
+  }
+
+  private async findReservation(reservationId: string, currentUser: User): Promise<Reservation> {
+    const reservation = await this.prisma.reservation.findFirst({
+      where: { id: reservationId, propertyId: currentUser.propertyId! },
+    });
+
+    if (!reservation) {
+      throw new NotFoundException('Reservation not found');
+    }
+
+    return reservation;
+  }
+}
+
+const toLedger = (transaction: PaymentTransaction): LedgerTransaction => ({
+  id: transaction.id,
+  type: transaction.type,
+  status: transaction.status,
+  amount: transaction.amount.toNumber(),
+  originalTransactionId: transaction.originalTransactionId,
+  depositId: transaction.depositId,
+});
+
+const formatMethod = (method: PaymentMethod): string => method.toLowerCase().replace('_', ' ');
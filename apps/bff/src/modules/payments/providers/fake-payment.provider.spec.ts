@@ -0,0 +1,39 @@
+import { FAKE_DECLINE_TOKEN, FakePaymentProvider } from './fake-payment.provider';
+
+describe('FakePaymentProvider', () => {
+  let provider: FakePaymentProvider;
+
+  beforeEach(() => {
+    provider = new FakePaymentProvider();
+  });
+
+  it('captures charges and declines the decline token', async () => {
+    const charge = await provider.charge({ amount: 100, currency: 'USD', description: 'Deposit' });
+    expect(charge.success).toBe(true);
+    expect(charge.providerReference).toMatch(/^fake_ch_/);
+
+    const declined = await provider.charge({
+      amount: 100,
+      currency: 'USD',
+      description: 'Deposit',
+      paymentToken: FAKE_DECLINE_TOKEN,
+    });
+    expect(declined).toEqual({ success: false, failureReason: 'Card declined' });
+  });
+
+  it('refunds up to the captured amount', async () => {
+    const { providerReference } = await provider.charge({ amount: 80, currency: 'USD', description: 'Stay' });
+
+    const partial = await provider.refund({ providerReference: providerReference!, amount: 50, currency: 'USD' });
+    expect(partial.success).toBe(true);
+    expect(partial.providerReference).toMatch(/^fake_re_/);
+
+    const tooMuch = await provider.refund({ providerReference: providerReference!, amount: 40, currency: 'USD' });
+    expect(tooMuch.success).toBe(false);
+  });
+
+  it('rejects references it could never have issued', async () => {
+    const result = await provider.refund({ providerReference: 'ch_live_123', amount: 10, currency: 'USD' });
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common';
+import * as crypto from 'crypto';
+import {
+  PaymentChargeRequest,
+  PaymentProvider,
+  PaymentProviderResult,
+  PaymentRefundRequest,
+} from './payment-provider.interface';
+
+/** Token that makes the fake gateway decline, for exercising failure paths */
+export const FAKE_DECLINE_TOKEN = 'tok_fake_decline';
+
+/**
+ * In-memory gateway for local development and tests. Charges always succeed
+ * unless the decline token is used. Refunds are capped at the amount charged
+ * when the charge was made by this instance; charges from an earlier process
+ * are not remembered and refund as long as the reference looks like ours.
+ */
+@Injectable()
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  private readonly charges = new Map<string, { amount: number; refunded: number }>();
+
+  async charge(request: PaymentChargeRequest): Promise<PaymentProviderResult> {
+    if (request.paymentToken === FAKE_DECLINE_TOKEN) {
+      return { success: false, failureReason: 'Card declined' };
+    }
+    if (request.amount <= 0) {
+      return { success: false, failureReason: 'Amount must be positive' };
+    }
+
+    const providerReference = `fake_ch_${crypto.randomBytes(8).toString('hex')}`;
+    this.charges.set(providerReference, { amount: request.amount, refunded: 0 });
+    return { success: true, providerReference };
+  }
+
+  async refund(request: PaymentRefundRequest): Promise<PaymentProviderResult> {
+    if (!request.providerReference.startsWith('fake_ch_')) {
+      return { success: false, failureReason: `Unknown charge ${request.providerReference}` };
+    }
+
+    const charge = this.charges.get(request.providerReference);
+    if (charge) {
+      if (charge.refunded + request.amount > charge.amount) {
+        return { success: false, failureReason: 'Refund exceeds the captured amount' };
+      }
+      charge.refunded += request.amount;
+    }
+
+    return { success: true, providerReference: `fake_re_${crypto.randomBytes(8).toString('hex')}` };
+  }
+}
@@ -0,0 +1,2 @@
+export * from './payment-provider.interface';
+export * from './fake-payment.provider';
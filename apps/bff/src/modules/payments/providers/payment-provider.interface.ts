@@ -0,0 +1,34 @@
+export const PAYMENT_PROVIDER = 'PAYMENT_PROVIDER';
+
+export interface PaymentChargeRequest {
+  amount: number;
+  currency: string;
+  /** Tokenised card or wallet reference captured by the client */
+  paymentToken?: string;
+  description: string;
+  metadata?: Record<string, string>;
+}
+
+export interface PaymentRefundRequest {
+  providerReference: string;
+  amount: number;
+  currency: string;
+  reason?: string;
+}
+
+export interface PaymentProviderResult {
+  success: boolean;
+  providerReference?: string;
+  failureReason?: string;
+}
+
+/**
+ * Gateway used for card payments. Implementations must not throw for
+ * declines; they report them through `success: false` so the attempt is
+ * still recorded on the ledger.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  charge(request: PaymentChargeRequest): Promise<PaymentProviderResult>;
+  refund(request: PaymentRefundRequest): Promise<PaymentProviderResult>;
+}
@@ -0,0 +1,2 @@
+export * from './send-pre-arrival-link.dto';
+export * from './submit-pre-arrival.dto';
\ No newline at end of file
@@ -0,0 +1,9 @@
+import { IsOptional, IsBoolean } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SendPreArrivalLinkDto {
+  @ApiPropertyOptional({ example: true, default: true, description: 'Email the link to the guest' })
+  @IsOptional()
+  @IsBoolean()
+  sendEmail?: boolean;
+}
@@ -0,0 +1,55 @@
+import { IsString, IsEmail, IsOptional, IsDateString, IsObject, IsBoolean, Matches, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PreArrivalSubmission } from '../pre-arrival-submission';
+
+export class SubmitPreArrivalDto implements PreArrivalSubmission {
+  @ApiPropertyOptional({ example: 'john.doe@example.com' })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiPropertyOptional({ example: '+1234567890' })
+  @IsOptional()
+  @IsString()
+  phoneNumber?: string;
+
+  @ApiPropertyOptional({ example: 'American' })
+  @IsOptional()
+  @IsString()
+  nationality?: string;
+
+  @ApiPropertyOptional({ example: '1990-01-15' })
+  @IsOptional()
+  @IsDateString()
+  dateOfBirth?: string;
+
+  @ApiPropertyOptional({ example: { street: '123 Main St', city: 'New York', zipCode: '10001', country: 'USA' } })
+  @IsOptional()
+  @IsObject()
+  address?: Record<string, any>;
+
+  @ApiPropertyOptional({ example: 'AB123456' })
+  @IsOptional()
+  @IsString()
+  passportNumber?: string;
+
+  @ApiPropertyOptional({ example: '123456789' })
+  @IsOptional()
+  @IsString()
+  idNumber?: string;
+
+  @ApiPropertyOptional({ example: '21:30', description: 'Expected arrival time (HH:mm, property local time)' })
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'estimatedArrivalTime must be in HH:mm format' })
+  estimatedArrivalTime?: string;
+
+  @ApiPropertyOptional({ example: 'Crib in the room, please' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  specialRequests?: string;
+
+  @ApiProperty({ example: true, description: 'Guest accepts the property policies' })
+  @IsBoolean()
+  acceptPolicies: boolean;
+}
@@ -0,0 +1,40 @@
+export interface PreArrivalLink {
+  reservationId: string;
+  token: string;
+  expiresAt: Date;
+  portalUrl: string;
+  emailSent: boolean;
+}
+
+export interface PreArrivalSession {
+  expiresAt: Date;
+  property: { name: string; phoneNumber: string | null; email: string | null };
+  policies: string[];
+  reservation: {
+    reservationNumber: string;
+    checkInDate: Date;
+    checkOutDate: Date;
+    adults: number;
+    children: number;
+    unitType: string;
+    estimatedArrivalTime: string | null;
+    specialRequests: string | null;
+  };
+  guest: {
+    firstName: string;
+    lastName: string;
+    email: string | null;
+    phoneNumber: string | null;
+    nationality: string | null;
+    dateOfBirth: Date | null;
+    address: unknown;
+    hasIdentification: boolean;
+  };
+  idDocumentUploaded: boolean;
+}
+
+export interface PreArrivalResult {
+  reservationId: string;
+  conciergeObjectId: string;
+  submittedAt: Date;
+}
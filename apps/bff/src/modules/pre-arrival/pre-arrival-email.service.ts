@@ -0,0 +1,38 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as nodemailer from 'nodemailer';
+import { PreArrivalEmailData, buildPreArrivalEmail } from '@staffnbdt/shared';
+
+@Injectable()
+export class PreArrivalEmailService {
+  private readonly logger = new Logger(PreArrivalEmailService.name);
+  private readonly transporter: nodemailer.Transporter;
+
+  constructor(private readonly configService: ConfigService) {
+    this.transporter = nodemailer.createTransport({
+      host: this.configService.get('SMTP_HOST'),
+      port: this.configService.get('SMTP_PORT'),
+      secure: this.configService.get('SMTP_SECURE') === 'true',
+      auth: {
+        user: this.configService.get('SMTP_USER'),
+        pass: this.configService.get('SMTP_PASS'),
+      },
+    });
+  }
+
+  /** Returns false when the email could not be sent; the link stays valid either way */
+  async sendPreArrivalLink(data: PreArrivalEmailData): Promise<boolean> {
+    try {
+      await this.transporter.sendMail({
+        from: this.configService.get('FROM_EMAIL') || 'noreply@hoteloperationshub.com',
+        to: data.email,
+        ...buildPreArrivalEmail(data),
+      });
+      this.logger.log(`Pre-arrival link sent to ${data.email}`);
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to send pre-arrival link to ${data.email}:`, error);
+      return false;
+    }
+  }
+}
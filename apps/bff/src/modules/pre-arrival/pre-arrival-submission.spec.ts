@@ -0,0 +1,47 @@
+import { buildPreArrivalChanges, mergeSpecialRequests } from './pre-arrival-submission';
+
+describe('pre-arrival submission', () => {
+  const submittedAt = new Date('2025-06-01T10:00:00Z');
+
+  it('appends special requests to the ones already on the reservation', () => {
+    expect(mergeSpecialRequests(null, ' Late arrival ')).toBe('Late arrival');
+    expect(mergeSpecialRequests('High floor', 'Extra pillows')).toBe('High floor\nExtra pillows');
+    expect(mergeSpecialRequests('High floor', 'High floor')).toBe('High floor');
+    expect(mergeSpecialRequests('High floor', '  ')).toBe('High floor');
+  });
+
+  it('only updates guest fields that were answered', () => {
+    const { guest } = buildPreArrivalChanges(
+      { email: ' Ana@Example.com ', phoneNumber: '', passportNumber: 'X1234567', acceptPolicies: true },
+      { specialRequests: null },
+      null,
+      submittedAt,
+    );
+
+    expect(guest).toEqual({ email: 'ana@example.com', passportNumber: 'X1234567' });
+  });
+
+  it('records arrival details on the reservation and the concierge object', () => {
+    const changes = buildPreArrivalChanges(
+      { estimatedArrivalTime: '21:30', specialRequests: 'Crib please', acceptPolicies: true },
+      { specialRequests: 'Booked via Airbnb' },
+      { key: 'guest-id-documents/guest-1/passport.pdf', fileName: 'passport.pdf', mimeType: 'application/pdf' },
+      submittedAt,
+    );
+
+    expect(changes.reservation).toEqual({
+      specialRequests: 'Booked via Airbnb\nCrib please',
+      estimatedArrivalTime: '21:30',
+      policiesAcceptedAt: submittedAt,
+      preArrivalCompletedAt: submittedAt,
+    });
+    expect(changes.attributes.map((attribute) => attribute.fieldKey)).toEqual([
+      'policiesAccepted',
+      'submittedAt',
+      'estimatedArrivalTime',
+      'specialRequests',
+      'idDocument',
+    ]);
+    expect(changes.attributes[4].fileValue).toBe('guest-id-documents/guest-1/passport.pdf');
+  });
+});
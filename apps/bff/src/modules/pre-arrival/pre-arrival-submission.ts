@@ -0,0 +1,97 @@
+import { AttributeFieldType, Prisma } from '@prisma/client';
+
+export const PRE_ARRIVAL_OBJECT_TYPE = 'pre_arrival_check_in';
+
+export interface PreArrivalSubmission {
+  email?: string;
+  phoneNumber?: string;
+  nationality?: string;
+  dateOfBirth?: string;
+  address?: Record<string, any>;
+  passportNumber?: string;
+  idNumber?: string;
+  estimatedArrivalTime?: string;
+  specialRequests?: string;
+  acceptPolicies: boolean;
+}
+
+export interface PreArrivalIdDocument {
+  key: string;
+  fileName: string;
+  mimeType: string;
+}
+
+export interface PreArrivalChanges {
+  guest: Prisma.GuestUpdateInput;
+  reservation: Prisma.ReservationUpdateInput;
+  attributes: Omit<Prisma.ConciergeAttributeCreateManyInput, 'objectId'>[];
+}
+
+const hasText = (value?: string): value is string => typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Adds the guest's requests to whatever the reservation already carries
+ * (e.g. from the booking channel) instead of replacing it.
+ */
+export function mergeSpecialRequests(existing: string | null, submitted?: string): string | null {
+  if (!hasText(submitted)) return existing;
+  const request = submitted.trim();
+  if (!existing) return request;
+  if (existing.includes(request)) return existing;
+  return `${existing}\n${request}`;
+}
+
+/**
+ * Maps a pre-arrival form onto the guest profile, the reservation and the
+ * attributes of the concierge object the front desk works from. Blank
+ * answers leave the stored values untouched.
+ */
+export function buildPreArrivalChanges(
+  submission: PreArrivalSubmission,
+  reservation: { specialRequests: string | null },
+  idDocument: PreArrivalIdDocument | null,
+  submittedAt: Date,
+): PreArrivalChanges {
+  const guest: Prisma.GuestUpdateInput = {};
+  if (hasText(submission.email)) guest.email = submission.email.trim().toLowerCase();
+  if (hasText(submission.phoneNumber)) guest.phoneNumber = submission.phoneNumber.trim();
+  if (hasText(submission.nationality)) guest.nationality = submission.nationality.trim();
+  if (hasText(submission.dateOfBirth)) guest.dateOfBirth = new Date(submission.dateOfBirth);
+  if (submission.address && Object.keys(submission.address).length > 0) guest.address = submission.address;
+  if (hasText(submission.passportNumber)) guest.passportNumber = submission.passportNumber.trim();
+  if (hasText(submission.idNumber)) guest.idNumber = submission.idNumber.trim();
+
+  const specialRequests = mergeSpecialRequests(reservation.specialRequests, submission.specialRequests);
+  const reservationUpdate: Prisma.ReservationUpdateInput = {
+    specialRequests,
+    policiesAcceptedAt: submittedAt,
+    preArrivalCompletedAt: submittedAt,
+  };
+  if (hasText(submission.estimatedArrivalTime)) {
+    reservationUpdate.estimatedArrivalTime = submission.estimatedArrivalTime;
+  }
+
+  const attributes: PreArrivalChanges['attributes'] = [
+    { fieldKey: 'policiesAccepted', fieldType: AttributeFieldType.boolean, booleanValue: true },
+    { fieldKey: 'submittedAt', fieldType: AttributeFieldType.date, dateValue: submittedAt },
+  ];
+  if (hasText(submission.estimatedArrivalTime)) {
+    attributes.push({
+      fieldKey: 'estimatedArrivalTime',
+      fieldType: AttributeFieldType.string,
+      stringValue: submission.estimatedArrivalTime,
+    });
+  }
+  if (hasText(submission.specialRequests)) {
+    attributes.push({
+      fieldKey: 'specialRequests',
+      fieldType: AttributeFieldType.string,
+      stringValue: submission.specialRequests.trim(),
+    });
+  }
+  if (idDocument) {
+    attributes.push({ fieldKey: 'idDocument', fieldType: AttributeFieldType.file, fileValue: idDocument.key });
+  }
+
+  return { guest, reservation: reservationUpdate, attributes };
+}
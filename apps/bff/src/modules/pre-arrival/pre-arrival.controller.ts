@@ -0,0 +1,84 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiConsumes } from '@nestjs/swagger';
+import { PreArrivalService } from './pre-arrival.service';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { PermissionGuard } from '../../shared/guards/permission.guard';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { RequirePermission } from '../../shared/decorators/require-permission.decorator';
+import { Public } from '../../shared/decorators/public.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+import { idDocumentConfig } from '../profile/config/multer.config';
+import { SendPreArrivalLinkDto, SubmitPreArrivalDto } from './dto';
+import { User } from '@prisma/client';
+
+@ApiTags('Pre-Arrival Check-In')
+@Controller('pre-arrival')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class PreArrivalController {
+  constructor(private readonly preArrivalService: PreArrivalService) {}
+
+  @Post('reservations/:reservationId/link')
+  @RequirePermission('reservation.update.property')
+  @ApiOperation({ summary: 'Create a pre-arrival check-in link and email it to the guest' })
+  @ApiResponse({ status: 201, description: 'Pre-arrival link created' })
+  @ApiResponse({ status: 400, description: 'Bad request - Reservation cannot check in online' })
+  @ApiResponse({ status: 404, description: 'Reservation not found' })
+  async createLink(
+    @Param('reservationId') reservationId: string,
+    @Body() sendLinkDto: SendPreArrivalLinkDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const link = await this.preArrivalService.createLink(reservationId, sendLinkDto, currentUser);
+    return CustomApiResponse.success(link, 'Pre-arrival link created');
+  }
+
+  // Guest portal endpoints: the token in the URL is the only credential
+  @Get(':token')
+  @Public()
+  @ApiOperation({ summary: 'Reservation, guest details and policies for the pre-arrival form' })
+  @ApiResponse({ status: 200, description: 'Pre-arrival session retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Unknown or expired link' })
+  async getSession(@Param('token') token: string) {
+    const session = await this.preArrivalService.getSession(token);
+    return CustomApiResponse.success(session, 'Pre-arrival session retrieved successfully');
+  }
+
+  @Post(':token/id-document')
+  @Public()
+  @UseInterceptors(FileInterceptor('idDocument', idDocumentConfig))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({ summary: 'Upload the guest\'s ID document' })
+  @ApiResponse({ status: 201, description: 'ID document uploaded successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid file' })
+  async uploadIdDocument(@Param('token') token: string, @UploadedFile() file: Express.Multer.File) {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    const result = await this.preArrivalService.uploadIdDocument(token, file);
+    return CustomApiResponse.success(result, 'ID document uploaded successfully');
+  }
+
+  @Post(':token')
+  @Public()
+  @ApiOperation({ summary: 'Submit pre-arrival check-in details' })
+  @ApiResponse({ status: 201, description: 'Pre-arrival check-in completed' })
+  @ApiResponse({ status: 400, description: 'Bad request - Policies not accepted, identification missing or already submitted' })
+  @ApiResponse({ status: 404, description: 'Unknown or expired link' })
+  async submit(@Param('token') token: string, @Body() submitDto: SubmitPreArrivalDto) {
+    const result = await this.preArrivalService.submit(token, submitDto);
+    return CustomApiResponse.success(result, 'Pre-arrival check-in completed');
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { PreArrivalService } from './pre-arrival.service';
+import { PreArrivalEmailService } from './pre-arrival-email.service';
+import { PreArrivalController } from './pre-arrival.controller';
+
+@Module({
+  providers: [PreArrivalService, PreArrivalEmailService],
+  controllers: [PreArrivalController],
+  exports: [PreArrivalService],
+})
+export class PreArrivalModule {}
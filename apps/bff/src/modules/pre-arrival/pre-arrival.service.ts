@@ -0,0 +1,288 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { StorageService } from '../../shared/storage/storage.service';
+import { PreArrivalEmailService } from './pre-arrival-email.service';
+import { SendPreArrivalLinkDto, SubmitPreArrivalDto } from './dto';
+import { PreArrivalLink, PreArrivalResult, PreArrivalSession } from './interfaces';
+import { PRE_ARRIVAL_OBJECT_TYPE, PreArrivalIdDocument, buildPreArrivalChanges } from './pre-arrival-submission';
+import {
+  generatePortalToken,
+  hashPortalToken,
+  preArrivalLinkExpiry,
+  preArrivalPortalUrl,
+} from '@staffnbdt/shared';
+import { User, Guest, Property, Reservation, GuestPortalToken, ReservationStatus, Prisma } from '@prisma/client';
+
+type LinkReservation = Reservation & { guest: Guest; property: Pick<Property, 'name' | 'organizationId'> };
+
+interface TokenMetadata {
+  createdBy?: string | null;
+  idDocument?: PreArrivalIdDocument & { uploadedAt: string };
+}
+
+@Injectable()
+export class PreArrivalService {
+  private readonly logger = new Logger(PreArrivalService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+    private readonly storageService: StorageService,
+    private readonly emailService: PreArrivalEmailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async createLink(reservationId: string, dto: SendPreArrivalLinkDto, currentUser: User): Promise<PreArrivalLink> {
+    const reservation = await this.prisma.reservation.findFirst({
+      where: { id: reservationId, propertyId: currentUser.propertyId! },
+      include: { guest: true, property: { select: { name: true, organizationId: true } } },
+    });
+    if (!reservation) {
+      throw new NotFoundException('Reservation not found');
+    }
+
+    const link = await this.issueLink(reservation, currentUser.id, dto.sendEmail ?? true);
+
+    await this.auditService.log({
+      userId: currentUser.id,
+      action: 'PRE_ARRIVAL_LINK_SENT',
+      entity: 'Reservation',
+      entityId: reservation.id,
+      newData: { expiresAt: link.expiresAt, emailSent: link.emailSent },
+    });
+
+    return link;
+  }
+
+  async getSession(token: string): Promise<PreArrivalSession> {
+    const record = await this.findActiveToken(token);
+    const reservation = await this.findReservation(record);
+    const property = await this.prisma.property.findUnique({
+      where: { id: record.propertyId },
+      select: { name: true, phoneNumber: true, email: true, settings: true },
+    });
+    const { guest } = reservation;
+
+    return {
+      expiresAt: record.expiresAt,
+      property: { name: property!.name, phoneNumber: property!.phoneNumber, email: property!.email },
+      policies: ((property!.settings as Record<string, any> | null)?.guestPolicies as string[]) ?? [],
+      reservation: {
+        reservationNumber: reservation.reservationNumber,
+        checkInDate: reservation.checkInDate,
+        checkOutDate: reservation.checkOutDate,
+        adults: reservation.adults,
+        children: reservation.children,
+        unitType: reservation.unit.unitType,
+        estimatedArrivalTime: reservation.estimatedArrivalTime,
+        specialRequests: reservation.specialRequests,
+      },
+      guest: {
+        firstName: guest.firstName,
+        lastName: guest.lastName,
+        email: guest.email,
+        phoneNumber: guest.phoneNumber,
+        nationality: guest.nationality,
+        dateOfBirth: guest.dateOfBirth,
+        address: guest.address,
+        // Document numbers are never sent back to the portal
+        hasIdentification: !!(guest.passportNumber || guest.idNumber),
+      },
+      idDocumentUploaded: !!this.metadataOf(record).idDocument,
+    };
+  }
+
+  async uploadIdDocument(token: string, file: Express.Multer.File): Promise<{ fileName: string; uploadedAt: Date }> {
+    const record = await this.findActiveToken(token);
+    const reservation = await this.findReservation(record);
+    const metadata = this.metadataOf(record);
+
+    const key = this.storageService.generateFileKey('guest-id-documents', file.originalname, reservation.guestId);
+    const saved = await this.storageService.saveFile(file.buffer, {
+      key,
+      fileName: file.originalname,
+      mimeType: file.mimetype,
+      module: 'guest-id-documents',
+      type: 'verification',
+    });
+
+    if (metadata.idDocument) {
+      await this.storageService
+        .deleteFile(metadata.idDocument.key)
+        .catch((error) => this.logger.warn(`Failed to remove replaced ID document: ${error.message}`));
+    }
+
+    const uploadedAt = new Date();
+    await this.prisma.guestPortalToken.update({
+      where: { id: record.id },
+      data: {
+        metadata: {
+          ...metadata,
+          idDocument: {
+            key: saved.key,
+            fileName: file.originalname,
+            mimeType: file.mimetype,
+            uploadedAt: uploadedAt.toISOString(),
+          },
+        } as Prisma.InputJsonValue,
+      },
+    });
+
+    return { fileName: file.originalname, uploadedAt };
+  }
+
+  /**
+   * Stores the guest's answers and opens a concierge object with them, so
+   * the front desk sees the arrival is ready and only has to check it in.
+   */
+  async submit(token: string, dto: SubmitPreArrivalDto): Promise<PreArrivalResult> {
+    const record = await this.findActiveToken(token);
+    const reservation = await this.findReservation(record);
+
+    if (!dto.acceptPolicies) {
+      throw new BadRequestException('The property policies must be accepted');
+    }
+
+    const { idDocument } = this.metadataOf(record);
+    const hasIdentification =
+      !!idDocument ||
+      !!(dto.passportNumber?.trim() || dto.idNumber?.trim()) ||
+      !!(reservation.guest.passportNumber || reservation.guest.idNumber);
+    if (!hasIdentification) {
+      throw new BadRequestException('Upload an ID document or provide a passport or ID number');
+    }
+
+    const submittedAt = new Date();
+    const changes = buildPreArrivalChanges(dto, reservation, idDocument ?? null, submittedAt);
+
+    const files: Prisma.InputJsonValue | undefined = idDocument
+      ? [
+          {
+            key: idDocument.key,
+            fileName: idDocument.fileName,
+            mimeType: idDocument.mimeType,
+            uploadedAt: idDocument.uploadedAt,
+          },
+        ]
+      : undefined;
+
+    const conciergeObject = await this.prisma.$transaction(async (tx) => {
+      // Claims the token so a double submit can't open two objects
+      const claimed = await tx.guestPortalToken.updateMany({
+        where: { id: record.id, submittedAt: null },
+        data: { submittedAt },
+      });
+      if (claimed.count === 0) {
+        throw new BadRequestException('Pre-arrival check-in has already been completed');
+      }
+
+      if (Object.keys(changes.guest).length > 0) {
+        await tx.guest.update({ where: { id: reservation.guestId }, data: changes.guest });
+      }
+      await tx.reservation.update({ where: { id: reservation.id }, data: changes.reservation });
+
+      const created = await tx.conciergeObject.create({
+        data: {
+          organizationId: record.organizationId,
+          propertyId: record.propertyId,
+          type: PRE_ARRIVAL_OBJECT_TYPE,
+          reservationId: reservation.id,
+          guestId: reservation.guestId,
+          status: 'open',
+          dueAt: reservation.checkInDate,
+          files,
+        },
+      });
+      await tx.conciergeAttribute.createMany({
+        data: changes.attributes.map((attribute) => ({ ...attribute, objectId: created.id })),
+      });
+
+      return created;
+    });
+
+    this.logger.log(`Pre-arrival check-in completed for reservation ${reservation.reservationNumber}`);
+
+    return { reservationId: reservation.id, conciergeObjectId: conciergeObject.id, submittedAt };
+  }
+
+  private async issueLink(
+    reservation: LinkReservation,
+    createdBy: string | null,
+    sendEmail: boolean,
+  ): Promise<PreArrivalLink> {
+    if (reservation.status !== ReservationStatus.CONFIRMED || reservation.checkedInAt) {
+      throw new BadRequestException('Only confirmed reservations awaiting arrival can check in online');
+    }
+    if (reservation.preArrivalCompletedAt) {
+      throw new BadRequestException('Pre-arrival check-in has already been completed');
+    }
+
+    const expiresAt = preArrivalLinkExpiry(reservation.checkInDate);
+    if (expiresAt <= new Date()) {
+      throw new BadRequestException('The arrival date has already passed');
+    }
+
+    const rawToken = generatePortalToken();
+
+    // Only the latest link for a reservation stays valid
+    await this.prisma.guestPortalToken.deleteMany({
+      where: { reservationId: reservation.id, submittedAt: null },
+    });
+    await this.prisma.guestPortalToken.create({
+      data: {
+        organizationId: reservation.property.organizationId,
+        propertyId: reservation.propertyId,
+        reservationId: reservation.id,
+        guestId: reservation.guestId,
+        tokenHash: hashPortalToken(rawToken),
+        expiresAt,
+        metadata: { createdBy },
+      },
+    });
+
+    const portalUrl = preArrivalPortalUrl(this.configService.get('FRONTEND_URL'), rawToken);
+    const emailSent =
+      sendEmail && !!reservation.guest.email
+        ? await this.emailService.sendPreArrivalLink({
+            email: reservation.guest.email,
+            firstName: reservation.guest.firstName,
+            propertyName: reservation.property.name,
+            checkInDate: reservation.checkInDate,
+            portalUrl,
+            expiresAt,
+          })
+        : false;
+
+    return { reservationId: reservation.id, token: rawToken, expiresAt, portalUrl, emailSent };
+  }
+
+  private async findActiveToken(token: string): Promise<GuestPortalToken> {
+    const record = await this.prisma.guestPortalToken.findUnique({
+      where: { tokenHash: hashPortalToken(token) },
+    });
+    if (!record || record.expiresAt <= new Date()) {
+      throw new NotFoundException('Pre-arrival link not found or expired');
+    }
+    if (record.submittedAt) {
+      throw new BadRequestException('Pre-arrival check-in has already been completed');
+    }
+    return record;
+  }
+
+  private async findReservation(record: GuestPortalToken) {
+    const reservation = await this.prisma.reservation.findFirst({
+      where: { id: record.reservationId, propertyId: record.propertyId },
+      include: { guest: true, unit: { select: { unitType: true } } },
+    });
+    if (!reservation || reservation.status !== ReservationStatus.CONFIRMED || reservation.checkedInAt) {
+      throw new BadRequestException('This reservation can no longer be checked in online');
+    }
+    return reservation;
+  }
+
+  private metadataOf(record: GuestPortalToken): TokenMetadata {
+    return (record.metadata as TokenMetadata | null) ?? {};
+  }
+}
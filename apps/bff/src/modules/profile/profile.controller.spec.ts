@@ -30,6 +30,10 @@ describe('ProfileController', () => {
     organizationId: 'org1',
     propertyId: 'prop1',
     password: null,
+    employmentType: null,
+    skills: [],
+    languages: [],
+    dutyStartedAt: null,
   };
 
   const mockProfileResponse = {
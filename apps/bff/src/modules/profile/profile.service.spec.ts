@@ -34,6 +34,10 @@ describe('ProfileService', () => {
     organizationId: 'org1',
     propertyId: 'prop1',
     password: null,
+    employmentType: null,
+    skills: [],
+    languages: [],
+    dutyStartedAt: null,
   };
 
   const mockAdmin = {
@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsOptional, IsBoolean, IsObject, IsArray, ValidateNested, MinLength, MaxLength, IsEnum } from 'class-validator';
+import { IsString, IsOptional, IsBoolean, IsObject, IsArray, ValidateNested, MinLength, MaxLength, IsEnum, IsNumber, IsInt, Matches, Min, Max } from 'class-validator';
 import { Type } from 'class-transformer';
 
 enum PropertyType {
@@ -56,6 +56,12 @@ class PropertySettingsDto {
   @IsString({ each: true })
   defaultDepartments?: string[];
 
+  @ApiProperty({ example: ['Check-in from 15:00', 'No smoking in rooms'], description: 'Policies guests accept during pre-arrival check-in' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  guestPolicies?: string[];
+
   @ApiProperty({ example: { checkInTime: '15:00' }, description: 'Additional property settings' })
   @IsOptional()
   @IsObject()
@@ -128,6 +134,31 @@ export class CreatePropertyDto {
   @IsString()
   timezone?: string;
 
+  @ApiProperty({ example: '03:00', description: 'Local time (HH:mm) at which the night audit closes the business date' })
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'nightAuditTime must be in HH:mm format' })
+  nightAuditTime?: string;
+
+  @ApiProperty({ example: 13, description: 'Tax percentage charged on room nights' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  roomTaxRate?: number;
+
+  @ApiProperty({ example: 36, description: 'Months of guest inactivity after which personal data is anonymized', nullable: true })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  piiRetentionMonths?: number | null;
+
+  @ApiProperty({ example: 48, description: 'Most hours anyone may be rostered in a week, after breaks' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(168)
+  maxWeeklyHours?: number;
+
   @ApiProperty({ example: 'https://nayara.com/gardens', description: 'Property website' })
   @IsOptional()
   @IsString()
@@ -0,0 +1,129 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsNumber,
+  IsInt,
+  IsBoolean,
+  IsArray,
+  IsObject,
+  ValidateNested,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RatePlanType } from '@prisma/client';
+import { Type } from 'class-transformer';
+import { RateSeasonDto } from './rate-season.dto';
+
+export class CreateRatePlanDto {
+  @ApiProperty({ example: 'roomtype-123' })
+  @IsString()
+  roomTypeId: string;
+
+  @ApiProperty({ example: 'BAR-OCEAN' })
+  @IsString()
+  code: string;
+
+  @ApiProperty({ example: 'Best Available Rate' })
+  @IsString()
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Flexible rate, free cancellation' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ enum: RatePlanType, example: RatePlanType.BAR })
+  @IsOptional()
+  @IsEnum(RatePlanType)
+  planType?: RatePlanType;
+
+  @ApiPropertyOptional({ example: 'USD' })
+  @IsOptional()
+  @IsString()
+  currency?: string;
+
+  @ApiPropertyOptional({ example: 250.0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  baseRate?: number;
+
+  @ApiPropertyOptional({ example: { '5': 1.15, '6': 1.15 } })
+  @IsOptional()
+  @IsObject()
+  dayOfWeekModifiers?: Record<string, number>;
+
+  @ApiPropertyOptional({ example: 2 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  minLengthOfStay?: number;
+
+  @ApiPropertyOptional({ example: 21 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxLengthOfStay?: number;
+
+  @ApiPropertyOptional({ example: 2 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  baseOccupancy?: number;
+
+  @ApiPropertyOptional({ example: 45.0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  extraAdultRate?: number;
+
+  @ApiPropertyOptional({ example: 20.0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  extraChildRate?: number;
+
+  @ApiPropertyOptional({ example: 60.0, description: 'Per-night price of package inclusions' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  packageRate?: number;
+
+  @ApiPropertyOptional({ example: ['Breakfast', 'Airport transfer'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  inclusions?: string[];
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  isRefundable?: boolean;
+
+  @ApiPropertyOptional({ example: 'policy-123', description: 'Overrides the room type\'s cancellation policy' })
+  @IsOptional()
+  @IsString()
+  cancellationPolicyId?: string;
+
+  @ApiPropertyOptional({ example: false })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({ type: [RateSeasonDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RateSeasonDto)
+  seasons?: RateSeasonDto[];
+}
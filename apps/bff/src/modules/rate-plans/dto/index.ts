@@ -0,0 +1,4 @@
+export * from './rate-season.dto';
+export * from './create-rate-plan.dto';
+export * from './update-rate-plan.dto';
+export * from './rate-quote.dto';
@@ -0,0 +1,43 @@
+import { IsString, IsDateString, IsInt, IsOptional, Min, Max } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+export class RateQuoteDto {
+  @ApiPropertyOptional({ example: 'unit-123', description: 'Unit to price; its room type is used' })
+  @IsOptional()
+  @IsString()
+  unitId?: string;
+
+  @ApiPropertyOptional({ example: 'roomtype-123', description: 'Required when no unit is given' })
+  @IsOptional()
+  @IsString()
+  roomTypeId?: string;
+
+  @ApiPropertyOptional({ example: 'rateplan-123', description: 'Defaults to the room type default plan' })
+  @IsOptional()
+  @IsString()
+  ratePlanId?: string;
+
+  @ApiProperty({ example: '2024-03-15' })
+  @IsDateString()
+  checkInDate: string;
+
+  @ApiProperty({ example: '2024-03-18' })
+  @IsDateString()
+  checkOutDate: string;
+
+  @ApiProperty({ example: 2 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  adults: number;
+
+  @ApiPropertyOptional({ example: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  children?: number = 0;
+}
@@ -0,0 +1,40 @@
+import { IsString, IsDateString, IsNumber, IsOptional, IsInt, IsObject, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+export class RateSeasonDto {
+  @ApiProperty({ example: 'High Season' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ example: '2024-12-15' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ example: '2025-04-15' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiProperty({ example: 320.0 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  nightlyRate: number;
+
+  @ApiPropertyOptional({ example: { '5': 1.1, '6': 1.1 } })
+  @IsOptional()
+  @IsObject()
+  dayOfWeekModifiers?: Record<string, number>;
+
+  @ApiPropertyOptional({ example: 3 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  minLengthOfStay?: number;
+
+  @ApiPropertyOptional({ example: 14 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxLengthOfStay?: number;
+}
@@ -0,0 +1,6 @@
+import { PartialType, OmitType } from '@nestjs/swagger';
+import { CreateRatePlanDto } from './create-rate-plan.dto';
+
+export class UpdateRatePlanDto extends PartialType(
+  OmitType(CreateRatePlanDto, ['roomTypeId'] as const)
+) {}
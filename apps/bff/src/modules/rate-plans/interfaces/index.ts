@@ -0,0 +1,34 @@
+import { RatePlan, RateSeason } from '@prisma/client';
+
+export interface RatePlanWithSeasons extends RatePlan {
+  seasons: RateSeason[];
+}
+
+export interface NightlyRate {
+  date: string;
+  seasonName: string | null;
+  baseRate: number;
+  dayOfWeekModifier: number;
+  roomRate: number;
+  occupancySurcharge: number;
+  packageRate: number;
+  total: number;
+}
+
+export interface RateQuote {
+  ratePlanId: string | null;
+  ratePlanCode: string | null;
+  roomTypeId: string | null;
+  currency: string;
+  checkInDate: string;
+  checkOutDate: string;
+  numberOfNights: number;
+  nights: NightlyRate[];
+  roomTotal: number;
+  surchargeTotal: number;
+  packageTotal: number;
+  totalAmount: number;
+  averageNightlyRate: number;
+  isBookable: boolean;
+  restrictionViolations: string[];
+}
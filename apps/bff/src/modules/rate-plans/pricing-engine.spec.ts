@@ -0,0 +1,107 @@
+import { calculateStayPrice, calculateOccupancySurcharge, findSeasonForNight, countNights } from './pricing-engine';
+
+describe('pricing-engine', () => {
+  const stay = (checkIn: string, checkOut: string, adults = 2, children = 0) => ({
+    checkInDate: new Date(checkIn),
+    checkOutDate: new Date(checkOut),
+    adults,
+    children,
+  });
+
+  describe('countNights', () => {
+    it('counts calendar nights regardless of time of day', () => {
+      expect(countNights(new Date('2025-03-01T15:00:00Z'), new Date('2025-03-04T11:00:00Z'))).toBe(3);
+    });
+  });
+
+  describe('calculateStayPrice', () => {
+    it('uses the rack rate when the plan has no price of its own', () => {
+      const result = calculateStayPrice({}, { ...stay('2025-03-03', '2025-03-05'), fallbackRate: 150 });
+
+      expect(result.nights).toHaveLength(2);
+      expect(result.totalAmount).toBe(300);
+      expect(result.restrictionViolations).toEqual([]);
+    });
+
+    it('applies season rates and day-of-week modifiers per night', () => {
+      const result = calculateStayPrice(
+        {
+          baseRate: 200,
+          dayOfWeekModifiers: { '5': 1.5 },
+          seasons: [
+            {
+              name: 'Easter',
+              startDate: new Date('2025-04-18'),
+              endDate: new Date('2025-04-20'),
+              nightlyRate: 300,
+            },
+          ],
+        },
+        // Thu 17th, Fri 18th (season + Friday modifier), Sat 19th (season)
+        stay('2025-04-17', '2025-04-20'),
+      );
+
+      expect(result.nights.map((night) => night.roomRate)).toEqual([200, 450, 300]);
+      expect(result.nights[1].seasonName).toBe('Easter');
+      expect(result.totalAmount).toBe(950);
+    });
+
+    it('prefers the most recently started season when seasons overlap', () => {
+      const seasons = [
+        { name: 'High', startDate: new Date('2025-12-01'), endDate: new Date('2026-03-31'), nightlyRate: 300 },
+        { name: 'Holidays', startDate: new Date('2025-12-20'), endDate: new Date('2026-01-03'), nightlyRate: 500 },
+      ];
+
+      expect(findSeasonForNight(seasons, '2025-12-24')?.name).toBe('Holidays');
+      expect(findSeasonForNight(seasons, '2026-01-04')?.name).toBe('High');
+      expect(findSeasonForNight(seasons, '2026-04-01')).toBeNull();
+    });
+
+    it('reports length-of-stay violations from the arrival season', () => {
+      const plan = {
+        baseRate: 100,
+        minLengthOfStay: 2,
+        seasons: [
+          {
+            name: 'Peak',
+            startDate: new Date('2025-07-01'),
+            endDate: new Date('2025-08-31'),
+            nightlyRate: 180,
+            minLengthOfStay: 5,
+          },
+        ],
+      };
+
+      expect(calculateStayPrice(plan, stay('2025-06-10', '2025-06-11')).restrictionViolations).toEqual([
+        'Minimum length of stay is 2 nights',
+      ]);
+      expect(calculateStayPrice(plan, stay('2025-07-10', '2025-07-13')).restrictionViolations).toEqual([
+        'Minimum length of stay is 5 nights',
+      ]);
+      expect(
+        calculateStayPrice({ ...plan, maxLengthOfStay: 3 }, stay('2025-06-01', '2025-06-05')).restrictionViolations,
+      ).toEqual(['Maximum length of stay is 3 nights']);
+    });
+
+    it('adds occupancy surcharges and package inclusions to every night', () => {
+      const result = calculateStayPrice(
+        { baseRate: 200, baseOccupancy: 2, extraAdultRate: 50, extraChildRate: 20, packageRate: 40 },
+        stay('2025-05-05', '2025-05-07', 3, 1),
+      );
+
+      expect(result.surchargeTotal).toBe(140);
+      expect(result.packageTotal).toBe(80);
+      expect(result.totalAmount).toBe(620);
+    });
+  });
+
+  describe('calculateOccupancySurcharge', () => {
+    it('lets children fill unused base occupancy before charging them', () => {
+      const plan = { baseOccupancy: 3, extraAdultRate: 50, extraChildRate: 20 };
+
+      expect(calculateOccupancySurcharge(plan, 2, 1)).toBe(0);
+      expect(calculateOccupancySurcharge(plan, 2, 2)).toBe(20);
+      expect(calculateOccupancySurcharge(plan, 4, 1)).toBe(70);
+    });
+  });
+});
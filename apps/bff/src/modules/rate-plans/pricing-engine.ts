@@ -0,0 +1,168 @@
+import { NightlyRate } from './interfaces';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export type DayOfWeekModifiers = Record<string, number>;
+
+export interface PricingSeason {
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  nightlyRate: number;
+  dayOfWeekModifiers?: DayOfWeekModifiers | null;
+  minLengthOfStay?: number | null;
+  maxLengthOfStay?: number | null;
+}
+
+export interface PricingPlan {
+  baseRate?: number | null;
+  dayOfWeekModifiers?: DayOfWeekModifiers | null;
+  minLengthOfStay?: number | null;
+  maxLengthOfStay?: number | null;
+  baseOccupancy?: number | null;
+  extraAdultRate?: number | null;
+  extraChildRate?: number | null;
+  packageRate?: number | null;
+  seasons?: PricingSeason[];
+}
+
+export interface PricingRequest {
+  checkInDate: Date;
+  checkOutDate: Date;
+  adults: number;
+  children?: number;
+  /** Rack rate used for nights that neither a season nor the plan prices */
+  fallbackRate?: number | null;
+}
+
+export interface PricingResult {
+  nights: NightlyRate[];
+  roomTotal: number;
+  surchargeTotal: number;
+  packageTotal: number;
+  totalAmount: number;
+  restrictionViolations: string[];
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+export const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+export function countNights(checkInDate: Date, checkOutDate: Date): number {
+  return Math.round(
+    (startOfUtcDay(checkOutDate).getTime() - startOfUtcDay(checkInDate).getTime()) / MS_PER_DAY,
+  );
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Seasons are inclusive of both their start and end date. When several
+ * seasons overlap a night, the one that started most recently wins so that
+ * short promotional periods can be layered on top of long seasons.
+ */
+export function findSeasonForNight(
+  seasons: PricingSeason[] = [],
+  nightKey: string,
+): PricingSeason | null {
+  const matches = seasons.filter(
+    (season) => toDateKey(season.startDate) <= nightKey && nightKey <= toDateKey(season.endDate),
+  );
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return matches.reduce((latest, season) =>
+    season.startDate.getTime() > latest.startDate.getTime() ? season : latest,
+  );
+}
+
+function getModifier(modifiers: DayOfWeekModifiers | null | undefined, weekday: number): number {
+  const value = modifiers?.[String(weekday)];
+  return typeof value === 'number' && value > 0 ? value : 1;
+}
+
+/**
+ * Guests up to the plan's base occupancy are included in the room rate.
+ * Adults fill the base occupancy first, anything above it is charged at the
+ * extra adult/child rate for every night of the stay.
+ */
+export function calculateOccupancySurcharge(
+  plan: PricingPlan,
+  adults: number,
+  children: number,
+): number {
+  const baseOccupancy = plan.baseOccupancy ?? 2;
+  const extraAdults = Math.max(0, adults - baseOccupancy);
+  const remainingBase = Math.max(0, baseOccupancy - adults);
+  const extraChildren = Math.max(0, children - remainingBase);
+
+  return roundMoney(
+    extraAdults * (plan.extraAdultRate ?? 0) + extraChildren * (plan.extraChildRate ?? 0),
+  );
+}
+
+export function calculateStayPrice(plan: PricingPlan, request: PricingRequest): PricingResult {
+  const checkIn = startOfUtcDay(request.checkInDate);
+  const numberOfNights = countNights(request.checkInDate, request.checkOutDate);
+  const children = request.children ?? 0;
+  const restrictionViolations: string[] = [];
+
+  if (numberOfNights < 1) {
+    restrictionViolations.push('Stay must be at least one night');
+  }
+
+  // Length-of-stay restrictions are evaluated against the arrival night
+  const arrivalSeason = findSeasonForNight(plan.seasons, toDateKey(checkIn));
+  const minLengthOfStay = arrivalSeason?.minLengthOfStay ?? plan.minLengthOfStay;
+  const maxLengthOfStay = arrivalSeason?.maxLengthOfStay ?? plan.maxLengthOfStay;
+
+  if (minLengthOfStay && numberOfNights < minLengthOfStay) {
+    restrictionViolations.push(`Minimum length of stay is ${minLengthOfStay} nights`);
+  }
+  if (maxLengthOfStay && numberOfNights > maxLengthOfStay) {
+    restrictionViolations.push(`Maximum length of stay is ${maxLengthOfStay} nights`);
+  }
+
+  const occupancySurcharge = calculateOccupancySurcharge(plan, request.adults, children);
+  const packageRate = roundMoney(plan.packageRate ?? 0);
+  const nights: NightlyRate[] = [];
+
+  for (let i = 0; i < numberOfNights; i++) {
+    const night = new Date(checkIn.getTime() + i * MS_PER_DAY);
+    const nightKey = toDateKey(night);
+    const season = findSeasonForNight(plan.seasons, nightKey);
+    const baseRate = season?.nightlyRate ?? plan.baseRate ?? request.fallbackRate ?? 0;
+    const modifier = getModifier(
+      season?.dayOfWeekModifiers ?? plan.dayOfWeekModifiers,
+      night.getUTCDay(),
+    );
+    const roomRate = roundMoney(baseRate * modifier);
+
+    nights.push({
+      date: nightKey,
+      seasonName: season?.name ?? null,
+      baseRate: roundMoney(baseRate),
+      dayOfWeekModifier: modifier,
+      roomRate,
+      occupancySurcharge,
+      packageRate,
+      total: roundMoney(roomRate + occupancySurcharge + packageRate),
+    });
+  }
+
+  const sum = (pick: (night: NightlyRate) => number) =>
+    roundMoney(nights.reduce((total, night) => total + pick(night), 0));
+
+  return {
+    nights,
+    roomTotal: sum((night) => night.roomRate),
+    surchargeTotal: sum((night) => night.occupancySurcharge),
+    packageTotal: sum((night) => night.packageRate),
+    totalAmount: sum((night) => night.total),
+    restrictionViolations,
+  };
+}
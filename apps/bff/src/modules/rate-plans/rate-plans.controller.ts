@@ -0,0 +1,112 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { RatePlansService } from './rate-plans.service';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { PermissionGuard } from '../../shared/guards/permission.guard';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { RequirePermission } from '../../shared/decorators/require-permission.decorator';
+import { Audit } from '../../shared/decorators/audit.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+import { CreateRatePlanDto, UpdateRatePlanDto, RateQuoteDto } from './dto';
+import { User } from '@prisma/client';
+
+@ApiTags('Rate Plans')
+@Controller('rate-plans')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class RatePlansController {
+  constructor(private readonly ratePlansService: RatePlansService) {}
+
+  @Post()
+  @RequirePermission('rate_plan.create.property')
+  @Audit({ action: 'CREATE', entity: 'RatePlan' })
+  @ApiOperation({ summary: 'Create a rate plan with optional seasons' })
+  @ApiResponse({ status: 201, description: 'Rate plan created successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Duplicate code or invalid seasons' })
+  @ApiResponse({ status: 404, description: 'Room type not found' })
+  async create(
+    @Body() createRatePlanDto: CreateRatePlanDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const ratePlan = await this.ratePlansService.create(createRatePlanDto, currentUser);
+    return CustomApiResponse.success(ratePlan, 'Rate plan created successfully');
+  }
+
+  @Get()
+  @RequirePermission('rate_plan.read.property')
+  @ApiOperation({ summary: 'List active rate plans (property-scoped)' })
+  @ApiQuery({ name: 'roomTypeId', required: false })
+  @ApiResponse({ status: 200, description: 'Rate plans retrieved successfully' })
+  async findAll(
+    @Query('roomTypeId') roomTypeId: string | undefined,
+    @CurrentUser() currentUser: User,
+  ) {
+    const ratePlans = await this.ratePlansService.findAll(currentUser, roomTypeId);
+    return CustomApiResponse.success(ratePlans, 'Rate plans retrieved successfully');
+  }
+
+  @Post('quote')
+  @RequirePermission('reservation.read.property')
+  @ApiOperation({ summary: 'Quote a stay night by night' })
+  @ApiResponse({ status: 200, description: 'Quote calculated successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid dates or rate plan' })
+  async quote(
+    @Body() quoteDto: RateQuoteDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const quote = await this.ratePlansService.quote(quoteDto, currentUser);
+    return CustomApiResponse.success(quote, 'Quote calculated successfully');
+  }
+
+  @Get(':id')
+  @RequirePermission('rate_plan.read.property')
+  @ApiOperation({ summary: 'Get rate plan by ID with seasons' })
+  @ApiResponse({ status: 200, description: 'Rate plan retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Rate plan not found' })
+  async findOne(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: User,
+  ) {
+    const ratePlan = await this.ratePlansService.findOne(id, currentUser);
+    return CustomApiResponse.success(ratePlan, 'Rate plan retrieved successfully');
+  }
+
+  @Patch(':id')
+  @RequirePermission('rate_plan.update.property')
+  @Audit({ action: 'UPDATE', entity: 'RatePlan' })
+  @ApiOperation({ summary: 'Update a rate plan; seasons are replaced when provided' })
+  @ApiResponse({ status: 200, description: 'Rate plan updated successfully' })
+  @ApiResponse({ status: 404, description: 'Rate plan not found' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateRatePlanDto: UpdateRatePlanDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const ratePlan = await this.ratePlansService.update(id, updateRatePlanDto, currentUser);
+    return CustomApiResponse.success(ratePlan, 'Rate plan updated successfully');
+  }
+
+  @Delete(':id')
+  @RequirePermission('rate_plan.delete.property')
+  @Audit({ action: 'DELETE', entity: 'RatePlan' })
+  @ApiOperation({ summary: 'Deactivate a rate plan' })
+  @ApiResponse({ status: 200, description: 'Rate plan deactivated successfully' })
+  @ApiResponse({ status: 404, description: 'Rate plan not found' })
+  async remove(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: User,
+  ) {
+    const ratePlan = await this.ratePlansService.remove(id, currentUser);
+    return CustomApiResponse.success(ratePlan, 'Rate plan deactivated successfully');
+  }
+}
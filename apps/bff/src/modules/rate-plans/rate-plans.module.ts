@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { RatePlansService } from './rate-plans.service';
+import { RatePlansController } from './rate-plans.controller';
+import { CancellationPoliciesModule } from '../cancellation-policies/cancellation-policies.module';
+
+@Module({
+  imports: [CancellationPoliciesModule],
+  providers: [RatePlansService],
+  controllers: [RatePlansController],
+  exports: [RatePlansService],
+})
+export class RatePlansModule {}
@@ -0,0 +1,293 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { CancellationPoliciesService } from '../cancellation-policies/cancellation-policies.service';
+import { CreateRatePlanDto, UpdateRatePlanDto, RateSeasonDto, RateQuoteDto } from './dto';
+import { RatePlanWithSeasons, RateQuote } from './interfaces';
+import { calculateStayPrice, PricingPlan, DayOfWeekModifiers } from './pricing-engine';
+import { User, RatePlanType, Prisma } from '@prisma/client';
+
+@Injectable()
+export class RatePlansService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+    private readonly cancellationPoliciesService: CancellationPoliciesService,
+  ) {}
+
+  async create(createRatePlanDto: CreateRatePlanDto, currentUser: User): Promise<RatePlanWithSeasons> {
+    const { roomTypeId, seasons, ...planData } = createRatePlanDto;
+
+    await this.findRoomType(roomTypeId, currentUser);
+    if (planData.cancellationPolicyId) {
+      await this.cancellationPoliciesService.assertAssignable(planData.cancellationPolicyId, currentUser);
+    }
+
+    const existing = await this.prisma.ratePlan.findFirst({
+      where: { propertyId: currentUser.propertyId!, code: planData.code },
+    });
+    if (existing) {
+      throw new BadRequestException('Rate plan code already exists for this property');
+    }
+
+    this.validateSeasons(seasons);
+
+    const ratePlan = await this.prisma.ratePlan.create({
+      data: {
+        ...planData,
+        dayOfWeekModifiers: planData.dayOfWeekModifiers ?? undefined,
+        inclusions: planData.inclusions ?? [],
+        isRefundable: planData.isRefundable ?? planData.planType !== RatePlanType.NON_REFUNDABLE,
+        organizationId: currentUser.organizationId,
+        propertyId: currentUser.propertyId!,
+        roomTypeId,
+        seasons: seasons?.length ? { create: seasons.map((season) => this.toSeasonData(season)) } : undefined,
+      },
+      include: { seasons: { orderBy: { startDate: 'asc' } } },
+    });
+
+    if (ratePlan.isDefault) {
+      await this.clearOtherDefaults(ratePlan.id, roomTypeId);
+    }
+
+    await this.auditService.logCreate(currentUser.id, 'RatePlan', ratePlan.id, ratePlan);
+
+    return ratePlan;
+  }
+
+  async findAll(currentUser: User, roomTypeId?: string): Promise<RatePlanWithSeasons[]> {
+    return this.prisma.ratePlan.findMany({
+      where: {
+        propertyId: currentUser.propertyId!,
+        isActive: true,
+        ...(roomTypeId ? { roomTypeId } : {}),
+      },
+      include: { seasons: { orderBy: { startDate: 'asc' } } },
+      orderBy: [{ roomTypeId: 'asc' }, { isDefault: 'desc' }, { name: 'asc' }],
+    });
+  }
+
+  async findOne(id: string, currentUser: User): Promise<RatePlanWithSeasons> {
+    const ratePlan = await this.prisma.ratePlan.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+      include: { seasons: { orderBy: { startDate: 'asc' } } },
+    });
+
+    if (!ratePlan) {
+      throw new NotFoundException('Rate plan not found');
+    }
+
+    return ratePlan;
+  }
+
+  async update(id: string, updateRatePlanDto: UpdateRatePlanDto, currentUser: User): Promise<RatePlanWithSeasons> {
+    const existing = await this.findOne(id, currentUser);
+    const { seasons, ...planData } = updateRatePlanDto;
+
+    if (planData.code && planData.code !== existing.code) {
+      const duplicate = await this.prisma.ratePlan.findFirst({
+        where: { propertyId: currentUser.propertyId!, code: planData.code, id: { not: id } },
+      });
+      if (duplicate) {
+        throw new BadRequestException('Rate plan code already exists for this property');
+      }
+    }
+
+    this.validateSeasons(seasons);
+    if (planData.cancellationPolicyId) {
+      await this.cancellationPoliciesService.assertAssignable(planData.cancellationPolicyId, currentUser);
+    }
+
+    // Seasons are replaced as a whole when provided so the editor can send the full calendar
+    const ratePlan = await this.prisma.$transaction(async (tx) => {
+      if (seasons) {
+        await tx.rateSeason.deleteMany({ where: { ratePlanId: id } });
+      }
+
+      return tx.ratePlan.update({
+        where: { id },
+        data: {
+          ...planData,
+          dayOfWeekModifiers: planData.dayOfWeekModifiers ?? undefined,
+          seasons: seasons?.length ? { create: seasons.map((season) => this.toSeasonData(season)) } : undefined,
+        },
+        include: { seasons: { orderBy: { startDate: 'asc' } } },
+      });
+    });
+
+    if (ratePlan.isDefault && !existing.isDefault) {
+      await this.clearOtherDefaults(ratePlan.id, ratePlan.roomTypeId);
+    }
+
+    await this.auditService.logUpdate(currentUser.id, 'RatePlan', id, existing, ratePlan);
+
+    return ratePlan;
+  }
+
+  async remove(id: string, currentUser: User): Promise<RatePlanWithSeasons> {
+    await this.findOne(id, currentUser);
+
+    const ratePlan = await this.prisma.ratePlan.update({
+      where: { id },
+      data: { isActive: false, isDefault: false },
+      include: { seasons: true },
+    });
+
+    await this.auditService.logUpdate(currentUser.id, 'RatePlan', id, { isActive: true }, { isActive: false });
+
+    return ratePlan;
+  }
+
+  /**
+   * Prices a stay night by night. The rate plan defaults to the room type's
+   * default (or first BAR) plan; room types without plans fall back to the
+   * rack rate of the unit or room type.
+   */
+  async quote(quoteDto: RateQuoteDto, currentUser: User): Promise<RateQuote> {
+    const checkIn = new Date(quoteDto.checkInDate);
+    const checkOut = new Date(quoteDto.checkOutDate);
+
+    if (checkIn >= checkOut) {
+      throw new BadRequestException('Check-out date must be after check-in date');
+    }
+
+    let roomTypeId = quoteDto.roomTypeId ?? null;
+    let fallbackRate: number | null = null;
+
+    if (quoteDto.unitId) {
+      const unit = await this.prisma.unit.findFirst({
+        where: { id: quoteDto.unitId, propertyId: currentUser.propertyId!, deletedAt: null },
+        include: { roomType: true },
+      });
+      if (!unit) {
+        throw new NotFoundException('Unit not found');
+      }
+      roomTypeId = unit.roomTypeId;
+      fallbackRate = unit.dailyRate?.toNumber() ?? unit.roomType?.baseRate?.toNumber() ?? null;
+    } else if (roomTypeId) {
+      const roomType = await this.findRoomType(roomTypeId, currentUser);
+      fallbackRate = roomType.baseRate?.toNumber() ?? null;
+    } else if (!quoteDto.ratePlanId) {
+      throw new BadRequestException('A unit, room type or rate plan is required to quote a stay');
+    }
+
+    const ratePlan = await this.resolveRatePlan(quoteDto.ratePlanId, roomTypeId, currentUser);
+
+    const pricing = calculateStayPrice(ratePlan ? this.toPricingPlan(ratePlan) : {}, {
+      checkInDate: checkIn,
+      checkOutDate: checkOut,
+      adults: quoteDto.adults,
+      children: quoteDto.children ?? 0,
+      fallbackRate,
+    });
+
+    const numberOfNights = pricing.nights.length;
+
+    return {
+      ratePlanId: ratePlan?.id ?? null,
+      ratePlanCode: ratePlan?.code ?? null,
+      roomTypeId: ratePlan?.roomTypeId ?? roomTypeId,
+      currency: ratePlan?.currency ?? 'USD',
+      checkInDate: quoteDto.checkInDate,
+      checkOutDate: quoteDto.checkOutDate,
+      numberOfNights,
+      nights: pricing.nights,
+      roomTotal: pricing.roomTotal,
+      surchargeTotal: pricing.surchargeTotal,
+      packageTotal: pricing.packageTotal,
+      totalAmount: pricing.totalAmount,
+      averageNightlyRate:
+        numberOfNights > 0 ? Math.round((pricing.totalAmount / numberOfNights) * 100) / 100 : 0,
+      isBookable: pricing.restrictionViolations.length === 0,
+      restrictionViolations: pricing.restrictionViolations,
+    };
+  }
+
+  private async resolveRatePlan(
+    ratePlanId: string | undefined,
+    roomTypeId: string | null,
+    currentUser: User,
+  ): Promise<RatePlanWithSeasons | null> {
+    if (ratePlanId) {
+      const ratePlan = await this.findOne(ratePlanId, currentUser);
+      if (!ratePlan.isActive) {
+        throw new BadRequestException('Rate plan is no longer active');
+      }
+      if (roomTypeId && ratePlan.roomTypeId !== roomTypeId) {
+        throw new BadRequestException('Rate plan does not apply to the selected room type');
+      }
+      return ratePlan;
+    }
+
+    if (!roomTypeId) {
+      return null;
+    }
+
+    return this.prisma.ratePlan.findFirst({
+      where: { propertyId: currentUser.propertyId!, roomTypeId, isActive: true },
+      include: { seasons: true },
+      orderBy: [{ isDefault: 'desc' }, { planType: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  private async findRoomType(roomTypeId: string, currentUser: User) {
+    const roomType = await this.prisma.roomType.findFirst({
+      where: { id: roomTypeId, propertyId: currentUser.propertyId! },
+    });
+
+    if (!roomType) {
+      throw new NotFoundException('Room type not found');
+    }
+
+    return roomType;
+  }
+
+  private async clearOtherDefaults(ratePlanId: string, roomTypeId: string): Promise<void> {
+    await this.prisma.ratePlan.updateMany({
+      where: { roomTypeId, id: { not: ratePlanId }, isDefault: true },
+      data: { isDefault: false },
+    });
+  }
+
+  private validateSeasons(seasons?: RateSeasonDto[]): void {
+    for (const season of seasons ?? []) {
+      if (new Date(season.startDate) > new Date(season.endDate)) {
+        throw new BadRequestException(`Season "${season.name}" ends before it starts`);
+      }
+    }
+  }
+
+  private toSeasonData(season: RateSeasonDto): Prisma.RateSeasonCreateWithoutRatePlanInput {
+    return {
+      name: season.name,
+      startDate: new Date(season.startDate),
+      endDate: new Date(season.endDate),
+      nightlyRate: new Prisma.Decimal(season.nightlyRate),
+      dayOfWeekModifiers: season.dayOfWeekModifiers ?? undefined,
+      minLengthOfStay: season.minLengthOfStay,
+      maxLengthOfStay: season.maxLengthOfStay,
+    };
+  }
+
+  private toPricingPlan(ratePlan: RatePlanWithSeasons): PricingPlan {
+    return {
+      baseRate: ratePlan.baseRate?.toNumber() ?? null,
+      dayOfWeekModifiers: ratePlan.dayOfWeekModifiers as DayOfWeekModifiers | null,
+      minLengthOfStay: ratePlan.minLengthOfStay,
+      maxLengthOfStay: ratePlan.maxLengthOfStay,
+      baseOccupancy: ratePlan.baseOccupancy,
+      extraAdultRate: ratePlan.extraAdultRate?.toNumber() ?? null,
+      extraChildRate: ratePlan.extraChildRate?.toNumber() ?? null,
+      packageRate: ratePlan.packageRate?.toNumber() ?? null,
+      seasons: ratePlan.seasons.map((season) => ({
+        name: season.name,
+        startDate: season.startDate,
+        endDate: season.endDate,
+        nightlyRate: season.nightlyRate.toNumber(),
+        dayOfWeekModifiers: season.dayOfWeekModifiers as DayOfWeekModifiers | null,
+        minLengthOfStay: season.minLengthOfStay,
+        maxLengthOfStay: season.maxLengthOfStay,
+      })),
+    };
+  }
+}
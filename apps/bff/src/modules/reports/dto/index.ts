@@ -0,0 +1 @@
+export * from './kpi-report-query.dto';
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { IsBoolean, IsDateString, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+
+export class KpiReportQueryDto {
+  @ApiProperty({ example: '2025-06-01', description: 'First night included in the report' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ example: '2025-06-30', description: 'Last night included in the report' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiPropertyOptional({ description: 'Limit the report to one room type' })
+  @IsOptional()
+  @IsString()
+  roomTypeId?: string;
+
+  @ApiPropertyOptional({ example: true, description: 'Include the same period last year' })
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  compareLastYear?: boolean = true;
+
+  @ApiPropertyOptional({ example: 7, description: 'Pickup window: bookings made in the last N days' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  pickupDays?: number = 7;
+}
@@ -0,0 +1,85 @@
+import {
+  KpiStay,
+  calculateKpis,
+  calculatePickup,
+  calculateSourceMix,
+  periodNightCount,
+  shiftPeriodByYears,
+} from './hotel-kpis';
+
+describe('hotel KPIs', () => {
+  const period = { startDate: '2025-06-01', endDate: '2025-06-10' };
+
+  const stay = (overrides: Partial<Omit<KpiStay, 'nights'>> & { nights: [string, number][] }): KpiStay => ({
+    roomTypeId: 'rt-1',
+    checkInDate: new Date(`${overrides.nights[0][0]}T00:00:00Z`),
+    checkOutDate: new Date(Date.parse(`${overrides.nights[overrides.nights.length - 1][0]}T00:00:00Z`) + 86400000),
+    createdAt: new Date('2025-05-01T12:00:00Z'),
+    source: null,
+    ...overrides,
+    nights: overrides.nights.map(([date, total]) => ({ date, total })),
+  });
+
+  it('counts nights in inclusive periods and shifts them to last year', () => {
+    expect(periodNightCount(period)).toBe(10);
+    expect(periodNightCount({ startDate: '2025-06-10', endDate: '2025-06-01' })).toBe(0);
+    expect(shiftPeriodByYears(period, -1)).toEqual({ startDate: '2024-06-01', endDate: '2024-06-10' });
+    expect(shiftPeriodByYears({ startDate: '2024-02-29', endDate: '2024-03-01' }, -1)).toEqual({
+      startDate: '2023-02-28',
+      endDate: '2023-03-01',
+    });
+  });
+
+  it('only counts the nights of a stay that fall inside the period', () => {
+    const stays = [
+      stay({ nights: [['2025-05-31', 100], ['2025-06-01', 120], ['2025-06-02', 120]] }),
+      stay({ nights: [['2025-06-10', 200], ['2025-06-11', 200]], createdAt: new Date('2025-06-07T09:00:00Z') }),
+    ];
+
+    expect(calculateKpis(period, 2, stays)).toEqual({
+      roomNightsAvailable: 20,
+      roomNightsSold: 3,
+      occupancyRate: 15,
+      roomRevenue: 440,
+      adr: 146.67,
+      revpar: 22,
+      arrivals: 1,
+      averageLengthOfStay: 2,
+      averageLeadTime: 3,
+    });
+  });
+
+  it('returns zeros when nothing is for sale or sold', () => {
+    const kpis = calculateKpis(period, 0, []);
+    expect(kpis.occupancyRate).toBe(0);
+    expect(kpis.adr).toBe(0);
+    expect(kpis.revpar).toBe(0);
+  });
+
+  it('breaks room nights down by booking source', () => {
+    const stays = [
+      stay({ nights: [['2025-06-01', 100], ['2025-06-02', 100], ['2025-06-03', 100]], source: 'airbnb' }),
+      stay({ nights: [['2025-06-04', 90]], source: ' ' }),
+      stay({ nights: [['2025-07-01', 90]], source: 'booking.com' }),
+    ];
+
+    expect(calculateSourceMix(period, stays)).toEqual([
+      { source: 'airbnb', bookings: 1, roomNights: 3, roomRevenue: 300, share: 75 },
+      { source: 'Direct', bookings: 1, roomNights: 1, roomRevenue: 90, share: 25 },
+    ]);
+  });
+
+  it('picks up only bookings made since the cut-off', () => {
+    const stays = [
+      stay({ nights: [['2025-06-05', 150], ['2025-06-06', 150]], createdAt: new Date('2025-05-28T10:00:00Z') }),
+      stay({ nights: [['2025-06-05', 150]], createdAt: new Date('2025-05-01T10:00:00Z') }),
+    ];
+
+    expect(calculatePickup(period, stays, new Date('2025-05-25T00:00:00Z'))).toEqual({
+      since: '2025-05-25',
+      bookings: 1,
+      roomNights: 2,
+      roomRevenue: 300,
+    });
+  });
+});
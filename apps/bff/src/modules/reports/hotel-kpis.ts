@@ -0,0 +1,163 @@
+import { LedgerNight, roundCurrency } from '@staffnbdt/shared';
+
+/** Inclusive range of stay nights, as YYYY-MM-DD */
+export interface KpiPeriod {
+  startDate: string;
+  endDate: string;
+}
+
+export interface KpiStay {
+  roomTypeId: string | null;
+  checkInDate: Date;
+  checkOutDate: Date;
+  createdAt: Date;
+  source: string | null;
+  nights: LedgerNight[];
+}
+
+export interface KpiMetrics {
+  roomNightsAvailable: number;
+  roomNightsSold: number;
+  occupancyRate: number;
+  roomRevenue: number;
+  adr: number;
+  revpar: number;
+  arrivals: number;
+  averageLengthOfStay: number;
+  averageLeadTime: number;
+}
+
+export interface SourceMixEntry {
+  source: string;
+  bookings: number;
+  roomNights: number;
+  roomRevenue: number;
+  share: number;
+}
+
+export interface PickupSummary {
+  since: string;
+  bookings: number;
+  roomNights: number;
+  roomRevenue: number;
+}
+
+export const UNKNOWN_SOURCE = 'Direct';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+const toUtcDay = (date: Date): number => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+const percentage = (part: number, whole: number): number =>
+  whole > 0 ? Math.round((part / whole) * 10000) / 100 : 0;
+
+const average = (values: number[]): number =>
+  values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100 : 0;
+
+export function periodNightCount(period: KpiPeriod): number {
+  const days = (Date.parse(period.endDate) - Date.parse(period.startDate)) / DAY_MS + 1;
+  return Math.max(0, Math.round(days));
+}
+
+/** Same calendar dates shifted by whole years; 29 February falls back to the 28th */
+export function shiftPeriodByYears(period: KpiPeriod, years: number): KpiPeriod {
+  const shift = (dateKey: string): string => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    const shifted = new Date(Date.UTC(year + years, month - 1, day));
+    if (shifted.getUTCMonth() !== month - 1) {
+      shifted.setUTCDate(0);
+    }
+    return toDateKey(shifted);
+  };
+
+  return { startDate: shift(period.startDate), endDate: shift(period.endDate) };
+}
+
+export function nightsInPeriod(stay: KpiStay, period: KpiPeriod): LedgerNight[] {
+  return stay.nights.filter((night) => night.date >= period.startDate && night.date <= period.endDate);
+}
+
+const arrivesInPeriod = (stay: KpiStay, period: KpiPeriod): boolean => {
+  const arrival = toDateKey(stay.checkInDate);
+  return arrival >= period.startDate && arrival <= period.endDate;
+};
+
+/**
+ * Occupancy, ADR and RevPAR count the nights of each stay that fall inside the
+ * period. Length of stay and lead time are measured on arrivals in the period.
+ */
+export function calculateKpis(period: KpiPeriod, roomCount: number, stays: KpiStay[]): KpiMetrics {
+  const roomNightsAvailable = roomCount * periodNightCount(period);
+  let roomNightsSold = 0;
+  let roomRevenue = 0;
+  const lengthsOfStay: number[] = [];
+  const leadTimes: number[] = [];
+
+  for (const stay of stays) {
+    const nights = nightsInPeriod(stay, period);
+    roomNightsSold += nights.length;
+    roomRevenue += nights.reduce((sum, night) => sum + night.total, 0);
+
+    if (arrivesInPeriod(stay, period)) {
+      lengthsOfStay.push(Math.round((toUtcDay(stay.checkOutDate) - toUtcDay(stay.checkInDate)) / DAY_MS));
+      leadTimes.push(Math.max(0, Math.round((toUtcDay(stay.checkInDate) - toUtcDay(stay.createdAt)) / DAY_MS)));
+    }
+  }
+
+  roomRevenue = roundCurrency(roomRevenue);
+
+  return {
+    roomNightsAvailable,
+    roomNightsSold,
+    occupancyRate: percentage(roomNightsSold, roomNightsAvailable),
+    roomRevenue,
+    adr: roomNightsSold > 0 ? roundCurrency(roomRevenue / roomNightsSold) : 0,
+    revpar: roomNightsAvailable > 0 ? roundCurrency(roomRevenue / roomNightsAvailable) : 0,
+    arrivals: lengthsOfStay.length,
+    averageLengthOfStay: average(lengthsOfStay),
+    averageLeadTime: average(leadTimes),
+  };
+}
+
+/** Share is the source's percentage of room nights sold in the period */
+export function calculateSourceMix(period: KpiPeriod, stays: KpiStay[]): SourceMixEntry[] {
+  const bySource = new Map<string, SourceMixEntry>();
+  let totalNights = 0;
+
+  for (const stay of stays) {
+    const nights = nightsInPeriod(stay, period);
+    if (nights.length === 0) continue;
+
+    const source = stay.source?.trim() || UNKNOWN_SOURCE;
+    const entry = bySource.get(source) ?? { source, bookings: 0, roomNights: 0, roomRevenue: 0, share: 0 };
+    entry.bookings += 1;
+    entry.roomNights += nights.length;
+    entry.roomRevenue = roundCurrency(entry.roomRevenue + nights.reduce((sum, night) => sum + night.total, 0));
+    bySource.set(source, entry);
+    totalNights += nights.length;
+  }
+
+  return [...bySource.values()]
+    .map((entry) => ({ ...entry, share: percentage(entry.roomNights, totalNights) }))
+    .sort((a, b) => b.roomNights - a.roomNights || a.source.localeCompare(b.source));
+}
+
+/** Room nights in the period that were booked on or after `since` */
+export function calculatePickup(period: KpiPeriod, stays: KpiStay[], since: Date): PickupSummary {
+  const pickup: PickupSummary = { since: toDateKey(since), bookings: 0, roomNights: 0, roomRevenue: 0 };
+
+  for (const stay of stays) {
+    if (stay.createdAt < since) continue;
+
+    const nights = nightsInPeriod(stay, period);
+    if (nights.length === 0) continue;
+
+    pickup.bookings += 1;
+    pickup.roomNights += nights.length;
+    pickup.roomRevenue = roundCurrency(pickup.roomRevenue + nights.reduce((sum, night) => sum + night.total, 0));
+  }
+
+  return pickup;
+}
@@ -0,0 +1,20 @@
+import { KpiMetrics, KpiPeriod, PickupSummary, SourceMixEntry } from '../hotel-kpis';
+
+export interface RoomTypeKpis {
+  roomTypeId: string | null;
+  roomTypeName: string;
+  rooms: number;
+  current: KpiMetrics;
+  lastYear: KpiMetrics | null;
+}
+
+export interface HotelKpiReport {
+  period: KpiPeriod;
+  comparisonPeriod: KpiPeriod | null;
+  rooms: number;
+  current: KpiMetrics;
+  lastYear: KpiMetrics | null;
+  byRoomType: RoomTypeKpis[];
+  sourceMix: SourceMixEntry[];
+  pickup: PickupSummary;
+}
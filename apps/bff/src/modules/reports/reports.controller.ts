@@ -0,0 +1,49 @@
+import { Controller, Get, Query, Res, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { Response } from 'express';
+import { ReportsService } from './reports.service';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { PermissionGuard } from '../../shared/guards/permission.guard';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { RequirePermission } from '../../shared/decorators/require-permission.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+import { KpiReportQueryDto } from './dto';
+import { User } from '@prisma/client';
+
+@ApiTags('Reports')
+@Controller('reports')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class ReportsController {
+  constructor(private readonly reportsService: ReportsService) {}
+
+  @Get('kpis')
+  @RequirePermission('report.read.property')
+  @ApiOperation({ summary: 'Occupancy, ADR, RevPAR, length of stay, lead time, source mix and pickup for a date range' })
+  @ApiResponse({ status: 200, description: 'KPI report retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid date range' })
+  async getKpiReport(@Query() query: KpiReportQueryDto, @CurrentUser() currentUser: User) {
+    const report = await this.reportsService.getKpiReport(query, currentUser);
+    return CustomApiResponse.success(report, 'KPI report retrieved successfully');
+  }
+
+  @Get('kpis/csv')
+  @RequirePermission('report.read.property')
+  @ApiOperation({ summary: 'Export the KPI report to CSV' })
+  @ApiResponse({ status: 200, description: 'CSV file' })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid date range' })
+  async exportKpiReportCsv(
+    @Query() query: KpiReportQueryDto,
+    @CurrentUser() currentUser: User,
+    @Res() res: Response,
+  ) {
+    const csvContent = await this.reportsService.exportKpiReportCsv(query, currentUser);
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="kpi-report-${query.startDate.slice(0, 10)}-to-${query.endDate.slice(0, 10)}.csv"`,
+    );
+    res.send(csvContent);
+  }
+}
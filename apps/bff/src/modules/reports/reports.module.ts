@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { ReportsService } from './reports.service';
+import { ReportsController } from './reports.controller';
+
+@Module({
+  providers: [ReportsService],
+  controllers: [ReportsController],
+})
+export class ReportsModule {}
@@ -0,0 +1,196 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { stayNights } from '@staffnbdt/shared';
+import { KpiReportQueryDto } from './dto';
+import { HotelKpiReport, RoomTypeKpis } from './interfaces';
+import {
+  KpiMetrics,
+  KpiPeriod,
+  KpiStay,
+  calculateKpis,
+  calculatePickup,
+  calculateSourceMix,
+  periodNightCount,
+  shiftPeriodByYears,
+} from './hotel-kpis';
+import { User, ReservationStatus } from '@prisma/client';
+
+const MAX_REPORT_NIGHTS = 366;
+
+@Injectable()
+export class ReportsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Room inventory is today's: last year's figures use the current active
+   * units, so occupancy comparisons are like-for-like on room count.
+   */
+  async getKpiReport(query: KpiReportQueryDto, currentUser: User): Promise<HotelKpiReport> {
+    const propertyId = currentUser.propertyId!;
+    const period: KpiPeriod = { startDate: query.startDate.slice(0, 10), endDate: query.endDate.slice(0, 10) };
+    const nightCount = periodNightCount(period);
+
+    if (nightCount === 0) {
+      throw new BadRequestException('End date must not be before start date');
+    }
+    if (nightCount > MAX_REPORT_NIGHTS) {
+      throw new BadRequestException(`Reports can cover at most ${MAX_REPORT_NIGHTS} nights`);
+    }
+
+    const comparisonPeriod = query.compareLastYear === false ? null : shiftPeriodByYears(period, -1);
+    const pickupSince = new Date();
+    pickupSince.setUTCHours(0, 0, 0, 0);
+    pickupSince.setUTCDate(pickupSince.getUTCDate() - (query.pickupDays ?? 7));
+
+    const [roomTypes, units, stays, lastYearStays] = await Promise.all([
+      this.prisma.roomType.findMany({
+        where: { propertyId, ...(query.roomTypeId && { id: query.roomTypeId }) },
+        select: { id: true, name: true },
+        orderBy: { name: 'asc' },
+      }),
+      this.prisma.unit.findMany({
+        where: {
+          propertyId,
+          isActive: true,
+          deletedAt: null,
+          ...(query.roomTypeId && { roomTypeId: query.roomTypeId }),
+        },
+        select: { roomTypeId: true },
+      }),
+      this.findStays(propertyId, period, query.roomTypeId),
+      comparisonPeriod ? this.findStays(propertyId, comparisonPeriod, query.roomTypeId) : Promise.resolve([]),
+    ]);
+
+    const roomsByType = new Map<string | null, number>();
+    for (const unit of units) {
+      roomsByType.set(unit.roomTypeId, (roomsByType.get(unit.roomTypeId) ?? 0) + 1);
+    }
+
+    const segments: { roomTypeId: string | null; roomTypeName: string }[] = roomTypes.map((roomType) => ({
+      roomTypeId: roomType.id,
+      roomTypeName: roomType.name,
+    }));
+    if (!query.roomTypeId && (roomsByType.has(null) || stays.some((stay) => stay.roomTypeId === null))) {
+      segments.push({ roomTypeId: null, roomTypeName: 'Unassigned' });
+    }
+
+    const byRoomType: RoomTypeKpis[] = segments.map((segment) => {
+      const rooms = roomsByType.get(segment.roomTypeId) ?? 0;
+      const ofType = (stay: KpiStay) => stay.roomTypeId === segment.roomTypeId;
+      return {
+        ...segment,
+        rooms,
+        current: calculateKpis(period, rooms, stays.filter(ofType)),
+        lastYear: comparisonPeriod ? calculateKpis(comparisonPeriod, rooms, lastYearStays.filter(ofType)) : null,
+      };
+    });
+    // Retired room types only show up while they still have rooms or sold nights
+    const activeSegments = byRoomType.filter(
+      (segment) => segment.rooms > 0 || segment.current.roomNightsSold > 0 || (segment.lastYear?.roomNightsSold ?? 0) > 0,
+    );
+
+    return {
+      period,
+      comparisonPeriod,
+      rooms: units.length,
+      current: calculateKpis(period, units.length, stays),
+      lastYear: comparisonPeriod ? calculateKpis(comparisonPeriod, units.length, lastYearStays) : null,
+      byRoomType: activeSegments,
+      sourceMix: calculateSourceMix(period, stays),
+      pickup: calculatePickup(period, stays, pickupSince),
+    };
+  }
+
+  async exportKpiReportCsv(query: KpiReportQueryDto, currentUser: User): Promise<string> {
+    const report = await this.getKpiReport(query, currentUser);
+
+    const metricHeaders = [
+      'Segment',
+      'Period',
+      'Start Date',
+      'End Date',
+      'Rooms',
+      'Room Nights Available',
+      'Room Nights Sold',
+      'Occupancy %',
+      'Room Revenue',
+      'ADR',
+      'RevPAR',
+      'Arrivals',
+      'Avg Length of Stay',
+      'Avg Lead Time (days)',
+    ];
+    const metricRow = (segment: string, label: string, period: KpiPeriod, rooms: number, metrics: KpiMetrics) => [
+      segment,
+      label,
+      period.startDate,
+      period.endDate,
+      rooms,
+      metrics.roomNightsAvailable,
+      metrics.roomNightsSold,
+      metrics.occupancyRate,
+      metrics.roomRevenue,
+      metrics.adr,
+      metrics.revpar,
+      metrics.arrivals,
+      metrics.averageLengthOfStay,
+      metrics.averageLeadTime,
+    ];
+
+    const metricRows = [
+      { segment: 'All rooms', rooms: report.rooms, current: report.current, lastYear: report.lastYear },
+      ...report.byRoomType.map((segment) => ({ ...segment, segment: segment.roomTypeName })),
+    ].flatMap((row) => [
+      metricRow(row.segment, 'Current', report.period, row.rooms, row.current),
+      ...(row.lastYear && report.comparisonPeriod
+        ? [metricRow(row.segment, 'Last Year', report.comparisonPeriod, row.rooms, row.lastYear)]
+        : []),
+    ]);
+
+    const rows: (string | number)[][] = [
+      metricHeaders,
+      ...metricRows,
+      [],
+      ['Source', 'Bookings', 'Room Nights', 'Room Revenue', 'Share %'],
+      ...report.sourceMix.map((entry) => [entry.source, entry.bookings, entry.roomNights, entry.roomRevenue, entry.share]),
+      [],
+      ['Pickup Since', 'Bookings', 'Room Nights', 'Room Revenue'],
+      [report.pickup.since, report.pickup.bookings, report.pickup.roomNights, report.pickup.roomRevenue],
+    ];
+
+    return rows.map((row) => row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(',')).join('\n');
+  }
+
+  private async findStays(propertyId: string, period: KpiPeriod, roomTypeId?: string): Promise<KpiStay[]> {
+    const dayAfterEnd = new Date(`${period.endDate}T00:00:00Z`);
+    dayAfterEnd.setUTCDate(dayAfterEnd.getUTCDate() + 1);
+
+    const reservations = await this.prisma.reservation.findMany({
+      where: {
+        propertyId,
+        status: { in: [ReservationStatus.CONFIRMED, ReservationStatus.CHECKED_IN, ReservationStatus.CHECKED_OUT] },
+        checkInDate: { lt: dayAfterEnd },
+        checkOutDate: { gt: new Date(`${period.startDate}T00:00:00Z`) },
+        ...(roomTypeId && { unit: { roomTypeId } }),
+      },
+      select: {
+        checkInDate: true,
+        checkOutDate: true,
+        createdAt: true,
+        source: true,
+        totalAmount: true,
+        nightlyRates: true,
+        unit: { select: { roomTypeId: true } },
+      },
+    });
+
+    return reservations.map((reservation) => ({
+      roomTypeId: reservation.unit.roomTypeId,
+      checkInDate: reservation.checkInDate,
+      checkOutDate: reservation.checkOutDate,
+      createdAt: reservation.createdAt,
+      source: reservation.source,
+      nights: stayNights(reservation),
+    }));
+  }
+}
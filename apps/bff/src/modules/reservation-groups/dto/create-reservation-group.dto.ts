@@ -0,0 +1,74 @@
+import {
+  IsString,
+  IsDateString,
+  IsEnum,
+  IsOptional,
+  IsEmail,
+  IsArray,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { ReservationGroupType, ReservationGroupStatus, GroupBillingType } from '@prisma/client';
+import { RoomBlockDto } from './room-block.dto';
+
+export class CreateReservationGroupDto {
+  @ApiProperty({ example: 'Smith-Garcia Wedding' })
+  @IsString()
+  name: string;
+
+  @ApiPropertyOptional({ example: 'SMITHWED25', description: 'Generated when omitted' })
+  @IsOptional()
+  @IsString()
+  groupCode?: string;
+
+  @ApiPropertyOptional({ enum: ReservationGroupType, example: ReservationGroupType.WEDDING })
+  @IsOptional()
+  @IsEnum(ReservationGroupType)
+  groupType?: ReservationGroupType;
+
+  @ApiPropertyOptional({ enum: ReservationGroupStatus, example: ReservationGroupStatus.TENTATIVE })
+  @IsOptional()
+  @IsEnum(ReservationGroupStatus)
+  status?: ReservationGroupStatus;
+
+  @ApiPropertyOptional({ enum: GroupBillingType, example: GroupBillingType.MASTER_ACCOUNT })
+  @IsOptional()
+  @IsEnum(GroupBillingType)
+  billingType?: GroupBillingType;
+
+  @ApiPropertyOptional({ example: 'Ana Garcia' })
+  @IsOptional()
+  @IsString()
+  contactName?: string;
+
+  @ApiPropertyOptional({ example: 'ana@example.com' })
+  @IsOptional()
+  @IsEmail()
+  contactEmail?: string;
+
+  @ApiPropertyOptional({ example: '+1-555-0100' })
+  @IsOptional()
+  @IsString()
+  contactPhone?: string;
+
+  @ApiProperty({ example: '2025-06-12' })
+  @IsDateString()
+  arrivalDate: string;
+
+  @ApiProperty({ example: '2025-06-15' })
+  @IsDateString()
+  departureDate: string;
+
+  @ApiPropertyOptional({ example: 'Welcome bags at check-in' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+
+  @ApiPropertyOptional({ type: [RoomBlockDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RoomBlockDto)
+  blocks?: RoomBlockDto[];
+}
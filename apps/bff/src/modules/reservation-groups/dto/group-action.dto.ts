@@ -0,0 +1,17 @@
+import { IsArray, IsOptional, IsString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class GroupCheckInDto {
+  @ApiPropertyOptional({ type: [String], description: 'Defaults to every confirmed reservation arriving today or earlier' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  reservationIds?: string[];
+}
+
+export class CancelReservationGroupDto {
+  @ApiPropertyOptional({ example: 'Event postponed' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
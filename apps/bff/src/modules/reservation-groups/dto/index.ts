@@ -0,0 +1,5 @@
+export * from './room-block.dto';
+export * from './create-reservation-group.dto';
+export * from './update-reservation-group.dto';
+export * from './rooming-list.dto';
+export * from './group-action.dto';
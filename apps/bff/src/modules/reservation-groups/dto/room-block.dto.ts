@@ -0,0 +1,32 @@
+import { IsString, IsDateString, IsInt, IsOptional, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+export class RoomBlockDto {
+  @ApiProperty({ example: 'roomtype-123' })
+  @IsString()
+  roomTypeId: string;
+
+  @ApiPropertyOptional({ example: 'rateplan-123', description: 'Negotiated group rate plan for rooms picked up from this block' })
+  @IsOptional()
+  @IsString()
+  ratePlanId?: string;
+
+  @ApiProperty({ example: '2025-06-12' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ example: '2025-06-15', description: 'Departure date of the block (exclusive)' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiProperty({ example: 20 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  roomsBlocked: number;
+
+  @ApiProperty({ example: '2025-05-12', description: 'Cutoff after which unpicked rooms return to inventory' })
+  @IsDateString()
+  releaseDate: string;
+}
@@ -0,0 +1,102 @@
+import {
+  IsString,
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsEmail,
+  IsArray,
+  IsBoolean,
+  ValidateNested,
+  Min,
+  Max,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type, Transform } from 'class-transformer';
+
+export class RoomingListEntryDto {
+  @ApiProperty({ example: 'John' })
+  @IsString()
+  firstName: string;
+
+  @ApiProperty({ example: 'Smith' })
+  @IsString()
+  lastName: string;
+
+  @ApiPropertyOptional({ example: 'john@example.com', description: 'Used to match an existing guest profile' })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiPropertyOptional({ example: '+1-555-0101' })
+  @IsOptional()
+  @IsString()
+  phoneNumber?: string;
+
+  @ApiPropertyOptional({ example: 'roomtype-123', description: 'Required when the group has blocks for several room types' })
+  @IsOptional()
+  @IsString()
+  roomTypeId?: string;
+
+  @ApiPropertyOptional({ example: 'DLX', description: 'Room type code, as used in CSV rooming lists' })
+  @IsOptional()
+  @IsString()
+  roomTypeCode?: string;
+
+  @ApiPropertyOptional({ example: '204', description: 'Specific unit; a free unit of the block room type is assigned otherwise' })
+  @IsOptional()
+  @IsString()
+  unitNumber?: string;
+
+  @ApiPropertyOptional({ example: '2025-06-12', description: 'Defaults to the block start date' })
+  @IsOptional()
+  @IsDateString()
+  checkInDate?: string;
+
+  @ApiPropertyOptional({ example: '2025-06-15', description: 'Defaults to the block end date' })
+  @IsOptional()
+  @IsDateString()
+  checkOutDate?: string;
+
+  @ApiPropertyOptional({ example: 2 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  adults?: number;
+
+  @ApiPropertyOptional({ example: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  children?: number;
+
+  @ApiPropertyOptional({ example: 'Twin beds' })
+  @IsOptional()
+  @IsString()
+  specialRequests?: string;
+}
+
+export class RoomingListImportDto {
+  @ApiProperty({ type: [RoomingListEntryDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RoomingListEntryDto)
+  entries: RoomingListEntryDto[];
+
+  @ApiPropertyOptional({ description: 'Validate only without creating reservations', default: false })
+  @IsOptional()
+  @IsBoolean()
+  validateOnly?: boolean;
+}
+
+export class RoomingListCsvImportDto {
+  @ApiPropertyOptional({ description: 'Validate only without creating reservations', default: false })
+  @IsOptional()
+  // Multipart form fields arrive as strings
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  validateOnly?: boolean;
+}
@@ -0,0 +1,6 @@
+import { PartialType, OmitType } from '@nestjs/swagger';
+import { CreateReservationGroupDto } from './create-reservation-group.dto';
+
+export class UpdateReservationGroupDto extends PartialType(
+  OmitType(CreateReservationGroupDto, ['blocks', 'groupCode'] as const)
+) {}
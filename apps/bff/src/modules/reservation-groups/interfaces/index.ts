@@ -0,0 +1,66 @@
+import { ReservationGroup, RoomBlock, RoomType, Reservation, Unit, Guest, GroupBillingType } from '@prisma/client';
+
+export interface RoomBlockSummary extends RoomBlock {
+  roomType: Pick<RoomType, 'id' | 'code' | 'name'>;
+  pickedUp: number;
+  remaining: number;
+  isReleased: boolean;
+}
+
+export interface ReservationGroupWithDetails extends ReservationGroup {
+  blocks: RoomBlockSummary[];
+  reservations: (Reservation & { unit: Unit; guest: Guest })[];
+}
+
+export interface RoomingListImportResult {
+  successCount: number;
+  failureCount: number;
+  successful: Array<{
+    row: number;
+    guestName: string;
+    reservationId?: string;
+    unitNumber: string;
+    status: string;
+  }>;
+  failed: Array<{
+    row: number;
+    guestName: string;
+    error: string;
+  }>;
+}
+
+export interface GroupActionResult {
+  succeeded: string[];
+  failed: Array<{
+    reservationId: string;
+    reservationNumber: string;
+    error: string;
+  }>;
+}
+
+export interface GroupBillingLine {
+  reservationId: string;
+  reservationNumber: string;
+  guestName: string;
+  unitNumber: string;
+  status: string;
+  totalAmount: number;
+  roomAmount: number;
+  paidAmount: number;
+  balance: number;
+  billedTo: 'MASTER' | 'GUEST';
+}
+
+export interface GroupBillingSummary {
+  groupId: string;
+  billingType: GroupBillingType;
+  currency: string;
+  reservationCount: number;
+  roomTotal: number;
+  chargesTotal: number;
+  paidTotal: number;
+  balance: number;
+  masterAccountTotal: number;
+  guestAccountTotal: number;
+  lines: GroupBillingLine[];
+}
@@ -0,0 +1,183 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiConsumes, ApiQuery } from '@nestjs/swagger';
+import { memoryStorage } from 'multer';
+import { ReservationGroupsService } from './reservation-groups.service';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { PermissionGuard } from '../../shared/guards/permission.guard';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { RequirePermission } from '../../shared/decorators/require-permission.decorator';
+import { Audit } from '../../shared/decorators/audit.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+import {
+  CreateReservationGroupDto,
+  UpdateReservationGroupDto,
+  RoomBlockDto,
+  RoomingListImportDto,
+  RoomingListCsvImportDto,
+  GroupCheckInDto,
+  CancelReservationGroupDto,
+} from './dto';
+import { parseRoomingListCsv } from './rooming-list';
+import { User, ReservationGroupStatus } from '@prisma/client';
+
+@ApiTags('Reservation Groups')
+@Controller('reservation-groups')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class ReservationGroupsController {
+  constructor(private readonly reservationGroupsService: ReservationGroupsService) {}
+
+  @Post()
+  @RequirePermission('reservation.create.property')
+  @Audit({ action: 'CREATE', entity: 'ReservationGroup' })
+  @ApiOperation({ summary: 'Create a group master booking with optional room blocks' })
+  @ApiResponse({ status: 201, description: 'Reservation group created successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid dates or duplicate group code' })
+  async create(@Body() createGroupDto: CreateReservationGroupDto, @CurrentUser() currentUser: User) {
+    const group = await this.reservationGroupsService.create(createGroupDto, currentUser);
+    return CustomApiResponse.success(group, 'Reservation group created successfully');
+  }
+
+  @Get()
+  @RequirePermission('reservation.read.property')
+  @ApiOperation({ summary: 'List reservation groups' })
+  @ApiQuery({ name: 'status', required: false, enum: ReservationGroupStatus })
+  @ApiResponse({ status: 200, description: 'Reservation groups retrieved successfully' })
+  async findAll(@Query('status') status: ReservationGroupStatus | undefined, @CurrentUser() currentUser: User) {
+    const groups = await this.reservationGroupsService.findAll(currentUser, status);
+    return CustomApiResponse.success(groups, 'Reservation groups retrieved successfully');
+  }
+
+  @Get(':id')
+  @RequirePermission('reservation.read.property')
+  @ApiOperation({ summary: 'Get a reservation group with blocks, pickup and reservations' })
+  @ApiResponse({ status: 200, description: 'Reservation group retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Reservation group not found' })
+  async findOne(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    const group = await this.reservationGroupsService.findOne(id, currentUser);
+    return CustomApiResponse.success(group, 'Reservation group retrieved successfully');
+  }
+
+  @Patch(':id')
+  @RequirePermission('reservation.update.property')
+  @Audit({ action: 'UPDATE', entity: 'ReservationGroup' })
+  @ApiOperation({ summary: 'Update reservation group details' })
+  @ApiResponse({ status: 200, description: 'Reservation group updated successfully' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateGroupDto: UpdateReservationGroupDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const group = await this.reservationGroupsService.update(id, updateGroupDto, currentUser);
+    return CustomApiResponse.success(group, 'Reservation group updated successfully');
+  }
+
+  @Post(':id/blocks')
+  @RequirePermission('reservation.update.property')
+  @Audit({ action: 'CREATE', entity: 'RoomBlock' })
+  @ApiOperation({ summary: 'Hold a block of rooms for the group' })
+  @ApiResponse({ status: 201, description: 'Room block added successfully' })
+  async addBlock(@Param('id') id: string, @Body() blockDto: RoomBlockDto, @CurrentUser() currentUser: User) {
+    const group = await this.reservationGroupsService.addBlock(id, blockDto, currentUser);
+    return CustomApiResponse.success(group, 'Room block added successfully');
+  }
+
+  @Post(':id/blocks/:blockId/release')
+  @RequirePermission('reservation.update.property')
+  @Audit({ action: 'RELEASE', entity: 'RoomBlock' })
+  @ApiOperation({ summary: 'Release unpicked rooms of a block back to inventory' })
+  @ApiResponse({ status: 200, description: 'Room block released successfully' })
+  async releaseBlock(@Param('id') id: string, @Param('blockId') blockId: string, @CurrentUser() currentUser: User) {
+    const group = await this.reservationGroupsService.releaseBlock(id, blockId, currentUser);
+    return CustomApiResponse.success(group, 'Room block released successfully');
+  }
+
+  @Post(':id/rooming-list')
+  @RequirePermission('reservation.create.property')
+  @Audit({ action: 'IMPORT', entity: 'ReservationGroup' })
+  @ApiOperation({ summary: 'Import a rooming list, creating one reservation per guest' })
+  @ApiResponse({ status: 201, description: 'Rooming list processed' })
+  async importRoomingList(
+    @Param('id') id: string,
+    @Body() importDto: RoomingListImportDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const result = await this.reservationGroupsService.importRoomingList(id, importDto, currentUser);
+    return CustomApiResponse.success(result, 'Rooming list processed');
+  }
+
+  @Post(':id/rooming-list/csv')
+  @RequirePermission('reservation.create.property')
+  @UseInterceptors(FileInterceptor('file', { storage: memoryStorage() }))
+  @Audit({ action: 'CSV_IMPORT', entity: 'ReservationGroup' })
+  @ApiOperation({ summary: 'Import a rooming list from a CSV file' })
+  @ApiConsumes('multipart/form-data')
+  @ApiResponse({ status: 201, description: 'Rooming list processed' })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid CSV format' })
+  async importRoomingListCsv(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() csvImportDto: RoomingListCsvImportDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    const entries = parseRoomingListCsv(file.buffer.toString('utf-8'));
+    const result = await this.reservationGroupsService.importRoomingList(
+      id,
+      { entries, validateOnly: csvImportDto.validateOnly || false },
+      currentUser,
+    );
+
+    return CustomApiResponse.success(result, 'Rooming list processed');
+  }
+
+  @Post(':id/check-in')
+  @RequirePermission('reservation.update.property')
+  @Audit({ action: 'CHECK_IN', entity: 'ReservationGroup' })
+  @ApiOperation({ summary: 'Check in all arriving reservations of the group' })
+  @ApiResponse({ status: 200, description: 'Group check-in processed' })
+  async checkIn(@Param('id') id: string, @Body() checkInDto: GroupCheckInDto, @CurrentUser() currentUser: User) {
+    const result = await this.reservationGroupsService.checkIn(id, checkInDto, currentUser);
+    return CustomApiResponse.success(result, 'Group check-in processed');
+  }
+
+  @Post(':id/cancel')
+  @RequirePermission('reservation.update.property')
+  @Audit({ action: 'CANCEL', entity: 'ReservationGroup' })
+  @ApiOperation({ summary: 'Cancel the group, its open reservations and room blocks' })
+  @ApiResponse({ status: 200, description: 'Reservation group cancelled successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Group has guests in house' })
+  async cancel(
+    @Param('id') id: string,
+    @Body() cancelDto: CancelReservationGroupDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const result = await this.reservationGroupsService.cancel(id, cancelDto, currentUser);
+    return CustomApiResponse.success(result, 'Reservation group cancelled successfully');
+  }
+
+  @Get(':id/billing')
+  @RequirePermission('reservation.read.property')
+  @ApiOperation({ summary: 'Group billing summary (master account vs individual)' })
+  @ApiResponse({ status: 200, description: 'Group billing retrieved successfully' })
+  async getBilling(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    const billing = await this.reservationGroupsService.getBilling(id, currentUser);
+    return CustomApiResponse.success(billing, 'Group billing retrieved successfully');
+  }
+}
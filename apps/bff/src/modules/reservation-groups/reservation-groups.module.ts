@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ReservationGroupsService } from './reservation-groups.service';
+import { ReservationGroupsController } from './reservation-groups.controller';
+import { ReservationsModule } from '../reservations/reservations.module';
+
+@Module({
+  imports: [ReservationsModule],
+  providers: [ReservationGroupsService],
+  controllers: [ReservationGroupsController],
+  exports: [ReservationGroupsService],
+})
+export class ReservationGroupsModule {}
@@ -0,0 +1,616 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { ReservationsService } from '../reservations/reservations.service';
+import {
+  CreateReservationGroupDto,
+  UpdateReservationGroupDto,
+  RoomBlockDto,
+  RoomingListImportDto,
+  RoomingListEntryDto,
+  GroupCheckInDto,
+  CancelReservationGroupDto,
+} from './dto';
+import {
+  ReservationGroupWithDetails,
+  RoomBlockSummary,
+  RoomingListImportResult,
+  GroupActionResult,
+  GroupBillingSummary,
+} from './interfaces';
+import { isBlockReleased } from './rooming-list';
+import { summarizeFolioLines, roundCurrency } from '@staffnbdt/shared';
+import {
+  User,
+  RoomBlock,
+  ReservationStatus,
+  ReservationGroupStatus,
+  GroupBillingType,
+  Prisma,
+} from '@prisma/client';
+import * as crypto from 'crypto';
+
+// Reservations in these statuses no longer consume a room from their block
+const RELEASED_RESERVATION_STATUSES: ReservationStatus[] = [ReservationStatus.CANCELLED, ReservationStatus.NO_SHOW];
+
+@Injectable()
+export class ReservationGroupsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+    private readonly reservationsService: ReservationsService,
+  ) {}
+
+  private generateGroupCode(): string {
+    return `GRP${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+  }
+
+  async create(createGroupDto: CreateReservationGroupDto, currentUser: User): Promise<ReservationGroupWithDetails> {
+    const { blocks, ...groupData } = createGroupDto;
+    const groupCode = groupData.groupCode || this.generateGroupCode();
+
+    this.validateDates(groupData.arrivalDate, groupData.departureDate);
+    for (const block of blocks ?? []) {
+      await this.validateBlock(block, currentUser);
+    }
+
+    const existing = await this.prisma.reservationGroup.findFirst({
+      where: { propertyId: currentUser.propertyId!, groupCode },
+    });
+    if (existing) {
+      throw new BadRequestException('Group code already exists for this property');
+    }
+
+    const group = await this.prisma.reservationGroup.create({
+      data: {
+        ...groupData,
+        groupCode,
+        arrivalDate: new Date(groupData.arrivalDate),
+        departureDate: new Date(groupData.departureDate),
+        organizationId: currentUser.organizationId,
+        propertyId: currentUser.propertyId!,
+        createdBy: currentUser.id,
+        blocks: blocks?.length ? { create: blocks.map((block) => this.toBlockData(block)) } : undefined,
+      },
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'ReservationGroup', group.id, group);
+
+    return this.findOne(group.id, currentUser);
+  }
+
+  async findAll(currentUser: User, status?: ReservationGroupStatus) {
+    const groups = await this.prisma.reservationGroup.findMany({
+      where: {
+        propertyId: currentUser.propertyId!,
+        ...(status ? { status } : {}),
+      },
+      include: {
+        blocks: true,
+        _count: { select: { reservations: true } },
+      },
+      orderBy: { arrivalDate: 'asc' },
+    });
+
+    return groups.map(({ _count, blocks, ...group }) => ({
+      ...group,
+      roomsBlocked: blocks.reduce((sum, block) => sum + block.roomsBlocked, 0),
+      reservationCount: _count.reservations,
+    }));
+  }
+
+  async findOne(id: string, currentUser: User): Promise<ReservationGroupWithDetails> {
+    const group = await this.prisma.reservationGroup.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+      include: {
+        blocks: {
+          include: { roomType: { select: { id: true, code: true, name: true } } },
+          orderBy: { startDate: 'asc' },
+        },
+        reservations: {
+          include: { unit: true, guest: true },
+          orderBy: [{ checkInDate: 'asc' }, { createdAt: 'asc' }],
+        },
+      },
+    });
+
+    if (!group) {
+      throw new NotFoundException('Reservation group not found');
+    }
+
+    const pickups = this.countPickups(group.reservations);
+
+    return {
+      ...group,
+      blocks: group.blocks.map((block) => this.toBlockSummary(block, pickups.get(block.id) ?? 0)),
+    };
+  }
+
+  async update(id: string, updateGroupDto: UpdateReservationGroupDto, currentUser: User): Promise<ReservationGroupWithDetails> {
+    const existing = await this.findOne(id, currentUser);
+
+    if (existing.status === ReservationGroupStatus.CANCELLED) {
+      throw new BadRequestException('Cancelled groups cannot be modified');
+    }
+    if (updateGroupDto.status === ReservationGroupStatus.CANCELLED) {
+      throw new BadRequestException('Use the cancel action to cancel a group');
+    }
+
+    this.validateDates(
+      updateGroupDto.arrivalDate ?? existing.arrivalDate.toISOString(),
+      updateGroupDto.departureDate ?? existing.departureDate.toISOString(),
+    );
+
+    const group = await this.prisma.reservationGroup.update({
+      where: { id },
+      data: {
+        ...updateGroupDto,
+        arrivalDate: updateGroupDto.arrivalDate ? new Date(updateGroupDto.arrivalDate) : undefined,
+        departureDate: updateGroupDto.departureDate ? new Date(updateGroupDto.departureDate) : undefined,
+      },
+    });
+
+    await this.auditService.logUpdate(currentUser.id, 'ReservationGroup', id, existing, group);
+
+    return this.findOne(id, currentUser);
+  }
+
+  async addBlock(id: string, blockDto: RoomBlockDto, currentUser: User): Promise<ReservationGroupWithDetails> {
+    const group = await this.findOne(id, currentUser);
+    if (group.status === ReservationGroupStatus.CANCELLED) {
+      throw new BadRequestException('Cannot add blocks to a cancelled group');
+    }
+
+    await this.validateBlock(blockDto, currentUser);
+
+    const block = await this.prisma.roomBlock.create({
+      data: { ...this.toBlockData(blockDto), group: { connect: { id } } },
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'RoomBlock', block.id, block);
+
+    return this.findOne(id, currentUser);
+  }
+
+  async releaseBlock(id: string, blockId: string, currentUser: User): Promise<ReservationGroupWithDetails> {
+    const group = await this.findOne(id, currentUser);
+    const block = group.blocks.find((candidate) => candidate.id === blockId);
+
+    if (!block) {
+      throw new NotFoundException('Room block not found');
+    }
+    if (block.releasedAt) {
+      throw new BadRequestException('Room block is already released');
+    }
+
+    const releasedAt = new Date();
+    await this.prisma.roomBlock.update({ where: { id: blockId }, data: { releasedAt } });
+    await this.auditService.logUpdate(currentUser.id, 'RoomBlock', blockId, { releasedAt: null }, { releasedAt });
+
+    return this.findOne(id, currentUser);
+  }
+
+  /**
+   * Books one reservation per rooming-list entry against the group's blocks.
+   * Rows are processed independently so a bad row does not block the rest of
+   * the list; `validateOnly` resolves blocks, units and guests without booking.
+   */
+  async importRoomingList(
+    id: string,
+    importDto: RoomingListImportDto,
+    currentUser: User,
+  ): Promise<RoomingListImportResult> {
+    const group = await this.findOne(id, currentUser);
+    if (group.status === ReservationGroupStatus.CANCELLED) {
+      throw new BadRequestException('Cannot import a rooming list into a cancelled group');
+    }
+    if (group.blocks.length === 0) {
+      throw new BadRequestException('Add a room block before importing a rooming list');
+    }
+
+    const result: RoomingListImportResult = {
+      successCount: 0,
+      failureCount: 0,
+      successful: [],
+      failed: [],
+    };
+
+    // Rooms taken by earlier rows of this import, so validate-only runs don't double book
+    const remainingByBlock = new Map(group.blocks.map((block) => [block.id, block.remaining]));
+    const assignedUnits: { unitId: string; checkIn: Date; checkOut: Date }[] = [];
+
+    for (let i = 0; i < importDto.entries.length; i++) {
+      const entry = importDto.entries[i];
+      const row = i + 1;
+      const guestName = `${entry.firstName} ${entry.lastName}`.trim();
+
+      try {
+        if (!entry.firstName || !entry.lastName) {
+          throw new Error('First and last name are required');
+        }
+
+        const block = this.resolveBlock(group.blocks, entry);
+        if (isBlockReleased(block)) {
+          throw new Error(`Block for ${block.roomType.name} was released; book this guest as a regular reservation`);
+        }
+        if ((remainingByBlock.get(block.id) ?? 0) <= 0) {
+          throw new Error(`Block for ${block.roomType.name} is fully picked up`);
+        }
+
+        const checkIn = entry.checkInDate ? new Date(entry.checkInDate) : block.startDate;
+        const checkOut = entry.checkOutDate ? new Date(entry.checkOutDate) : block.endDate;
+        if (checkIn >= checkOut) {
+          throw new Error('Check-out date must be after check-in date');
+        }
+        if (checkIn < block.startDate || checkOut > block.endDate) {
+          throw new Error('Stay must fall within the block dates');
+        }
+
+        const adults = entry.adults ?? 1;
+        const children = entry.children ?? 0;
+        const unit = await this.findUnitForEntry(block, entry, checkIn, checkOut, adults + children, assignedUnits, currentUser);
+
+        if (importDto.validateOnly) {
+          result.successful.push({ row, guestName, unitNumber: unit.unitNumber, status: 'Valid' });
+        } else {
+          const guestId = await this.findOrCreateGuest(entry, currentUser);
+          const reservation = await this.reservationsService.create(
+            {
+              unitId: unit.id,
+              guestId,
+              checkInDate: checkIn.toISOString(),
+              checkOutDate: checkOut.toISOString(),
+              adults,
+              children,
+              status: ReservationStatus.CONFIRMED,
+              ratePlanId: block.ratePlanId ?? undefined,
+              specialRequests: entry.specialRequests,
+              source: 'GROUP',
+              notes: `Group ${group.groupCode} - ${group.name}`,
+            },
+            currentUser,
+            { groupId: group.id, roomBlockId: block.id },
+          );
+          result.successful.push({
+            row,
+            guestName,
+            reservationId: reservation.id,
+            unitNumber: unit.unitNumber,
+            status: 'Booked',
+          });
+        }
+
+        remainingByBlock.set(block.id, (remainingByBlock.get(block.id) ?? 0) - 1);
+        assignedUnits.push({ unitId: unit.id, checkIn, checkOut });
+        result.successCount++;
+      } catch (error) {
+        result.failed.push({ row, guestName, error: error.message });
+        result.failureCount++;
+      }
+    }
+
+    if (!importDto.validateOnly && result.successCount > 0) {
+      await this.auditService.logCreate(currentUser.id, 'RoomingListImport', group.id, {
+        successCount: result.successCount,
+        failureCount: result.failureCount,
+      });
+    }
+
+    return result;
+  }
+
+  async checkIn(id: string, checkInDto: GroupCheckInDto, currentUser: User): Promise<GroupActionResult> {
+    const group = await this.findOne(id, currentUser);
+    const endOfToday = new Date();
+    endOfToday.setHours(23, 59, 59, 999);
+
+    const candidates = checkInDto.reservationIds?.length
+      ? group.reservations.filter((reservation) => checkInDto.reservationIds!.includes(reservation.id))
+      : group.reservations.filter(
+          (reservation) => reservation.status === ReservationStatus.CONFIRMED && reservation.checkInDate <= endOfToday,
+        );
+
+    if (candidates.length === 0) {
+      throw new BadRequestException('No reservations in this group are ready to check in');
+    }
+
+    const result: GroupActionResult = { succeeded: [], failed: [] };
+    for (const reservation of candidates) {
+      try {
+        await this.reservationsService.checkIn(reservation.id, { notes: `Group check-in (${group.groupCode})` }, currentUser);
+        result.succeeded.push(reservation.id);
+      } catch (error) {
+        result.failed.push({
+          reservationId: reservation.id,
+          reservationNumber: reservation.reservationNumber,
+          error: error.message,
+        });
+      }
+    }
+
+    if (group.status === ReservationGroupStatus.TENTATIVE && result.succeeded.length > 0) {
+      await this.prisma.reservationGroup.update({ where: { id }, data: { status: ReservationGroupStatus.DEFINITE } });
+    }
+
+    return result;
+  }
+
+  /**
+   * Cancels every open reservation of the group and releases its blocks.
+   * Groups with guests in house must be checked out first. If any member
+   * cannot be cancelled the group stays open with its blocks, and the result
+   * lists the failures so the action can be retried.
+   */
+  async cancel(id: string, cancelDto: CancelReservationGroupDto, currentUser: User): Promise<GroupActionResult> {
+    const group = await this.findOne(id, currentUser);
+
+    if (group.status === ReservationGroupStatus.CANCELLED) {
+      throw new BadRequestException('Reservation group is already cancelled');
+    }
+
+    const inHouse = group.reservations.filter((reservation) => reservation.status === ReservationStatus.CHECKED_IN);
+    if (inHouse.length > 0) {
+      throw new BadRequestException(
+        `${inHouse.length} reservation(s) are checked in; check them out before cancelling the group`,
+      );
+    }
+
+    const reason = cancelDto.reason || `Group ${group.groupCode} cancelled`;
+    const result: GroupActionResult = { succeeded: [], failed: [] };
+
+    for (const reservation of group.reservations.filter((r) => r.status === ReservationStatus.CONFIRMED)) {
+      try {
+        await this.reservationsService.cancel(reservation.id, reason, currentUser);
+        result.succeeded.push(reservation.id);
+      } catch (error) {
+        result.failed.push({
+          reservationId: reservation.id,
+          reservationNumber: reservation.reservationNumber,
+          error: error.message,
+        });
+      }
+    }
+
+    if (result.failed.length > 0) {
+      return result;
+    }
+
+    const cancelledAt = new Date();
+    await this.prisma.$transaction([
+      this.prisma.roomBlock.updateMany({
+        where: { groupId: id, releasedAt: null },
+        data: { releasedAt: cancelledAt },
+      }),
+      this.prisma.reservationGroup.update({
+        where: { id },
+        data: {
+          status: ReservationGroupStatus.CANCELLED,
+          cancelledAt,
+          cancelledBy: currentUser.id,
+          notes: cancelDto.reason ? `${group.notes || ''}\nCancellation: ${cancelDto.reason}`.trim() : group.notes,
+        },
+      }),
+    ]);
+
+    await this.auditService.logUpdate(
+      currentUser.id,
+      'ReservationGroup',
+      id,
+      { status: group.status },
+      { status: ReservationGroupStatus.CANCELLED, cancelledAt, reason },
+    );
+
+    return result;
+  }
+
+  /**
+   * Folio balances of every active reservation, routed to the master account
+   * or to the individual guests depending on the group's billing type.
+   */
+  async getBilling(id: string, currentUser: User): Promise<GroupBillingSummary> {
+    const group = await this.findOne(id, currentUser);
+    const billedTo = group.billingType === GroupBillingType.MASTER_ACCOUNT ? 'MASTER' : 'GUEST';
+
+    const members = group.reservations.filter(
+      (reservation) => !RELEASED_RESERVATION_STATUSES.includes(reservation.status),
+    );
+    const folios = await this.prisma.folio.findMany({
+      where: { reservationId: { in: members.map((reservation) => reservation.id) } },
+      include: { lines: { select: { category: true, status: true, amount: true } } },
+    });
+
+    const lines = members.map((reservation) => {
+      const totals = summarizeFolioLines(
+        folios
+          .filter((folio) => folio.reservationId === reservation.id)
+          .flatMap((folio) => folio.lines)
+          .map((line) => ({ category: line.category, status: line.status, amount: line.amount.toNumber() })),
+      );
+      return {
+        reservationId: reservation.id,
+        reservationNumber: reservation.reservationNumber,
+        guestName: `${reservation.guest.firstName} ${reservation.guest.lastName}`.trim(),
+        unitNumber: reservation.unit.unitNumber,
+        status: reservation.status,
+        totalAmount: totals.charges,
+        roomAmount: roundCurrency((totals.byCategory.ROOM ?? 0) + (totals.byCategory.TAX ?? 0)),
+        paidAmount: totals.credits,
+        balance: totals.balance,
+        billedTo: billedTo as 'MASTER' | 'GUEST',
+      };
+    });
+
+    const sum = (pick: (line: (typeof lines)[number]) => number) =>
+      roundCurrency(lines.reduce((total, line) => total + pick(line), 0));
+    const chargesTotal = sum((line) => line.totalAmount);
+
+    return {
+      groupId: group.id,
+      billingType: group.billingType,
+      currency: group.reservations[0]?.currency ?? 'USD',
+      reservationCount: lines.length,
+      roomTotal: sum((line) => line.roomAmount),
+      chargesTotal,
+      paidTotal: sum((line) => line.paidAmount),
+      balance: sum((line) => line.balance),
+      masterAccountTotal: billedTo === 'MASTER' ? chargesTotal : 0,
+      guestAccountTotal: billedTo === 'GUEST' ? chargesTotal : 0,
+      lines,
+    };
+  }
+
+  private countPickups(reservations: { roomBlockId: string | null; status: ReservationStatus }[]): Map<string, number> {
+    const pickups = new Map<string, number>();
+    for (const reservation of reservations) {
+      if (reservation.roomBlockId && !RELEASED_RESERVATION_STATUSES.includes(reservation.status)) {
+        pickups.set(reservation.roomBlockId, (pickups.get(reservation.roomBlockId) ?? 0) + 1);
+      }
+    }
+    return pickups;
+  }
+
+  private toBlockSummary(block: RoomBlock & { roomType: RoomBlockSummary['roomType'] }, pickedUp: number): RoomBlockSummary {
+    return {
+      ...block,
+      pickedUp,
+      remaining: Math.max(0, block.roomsBlocked - pickedUp),
+      isReleased: isBlockReleased(block),
+    };
+  }
+
+  private resolveBlock(blocks: RoomBlockSummary[], entry: RoomingListEntryDto): RoomBlockSummary {
+    let candidates = blocks;
+    if (entry.roomTypeId) {
+      candidates = blocks.filter((block) => block.roomTypeId === entry.roomTypeId);
+    } else if (entry.roomTypeCode) {
+      const code = entry.roomTypeCode.toLowerCase();
+      candidates = blocks.filter(
+        (block) => block.roomType.code.toLowerCase() === code || block.roomType.name.toLowerCase() === code,
+      );
+    } else if (new Set(blocks.map((block) => block.roomTypeId)).size > 1) {
+      throw new Error('Room type is required because the group has blocks for several room types');
+    }
+
+    if (candidates.length === 0) {
+      throw new Error(`No block for room type ${entry.roomTypeCode ?? entry.roomTypeId}`);
+    }
+
+    // Prefer the block that covers the guest's stay and still has rooms left
+    const checkIn = entry.checkInDate ? new Date(entry.checkInDate) : null;
+    return (
+      candidates.find(
+        (block) => block.remaining > 0 && !isBlockReleased(block) && (!checkIn || (block.startDate <= checkIn && checkIn < block.endDate)),
+      ) ?? candidates[0]
+    );
+  }
+
+  private async findUnitForEntry(
+    block: RoomBlockSummary,
+    entry: RoomingListEntryDto,
+    checkIn: Date,
+    checkOut: Date,
+    totalGuests: number,
+    assignedUnits: { unitId: string; checkIn: Date; checkOut: Date }[],
+    currentUser: User,
+  ) {
+    const overlapsAssigned = (unitId: string) =>
+      assignedUnits.some((assigned) => assigned.unitId === unitId && assigned.checkIn < checkOut && assigned.checkOut > checkIn);
+
+    const units = await this.prisma.unit.findMany({
+      where: {
+        propertyId: currentUser.propertyId!,
+        roomTypeId: block.roomTypeId,
+        isActive: true,
+        deletedAt: null,
+        maxOccupancy: { gte: totalGuests },
+        ...(entry.unitNumber ? { unitNumber: entry.unitNumber } : {}),
+        reservations: {
+          none: {
+            status: { in: [ReservationStatus.CONFIRMED, ReservationStatus.CHECKED_IN] },
+            checkInDate: { lt: checkOut },
+            checkOutDate: { gt: checkIn },
+          },
+        },
+      },
+      orderBy: [{ floor: 'asc' }, { unitNumber: 'asc' }],
+    });
+
+    const unit = units.find((candidate) => !overlapsAssigned(candidate.id));
+    if (!unit) {
+      throw new Error(
+        entry.unitNumber
+          ? `Unit ${entry.unitNumber} is not a free ${block.roomType.name} for these dates`
+          : `No free ${block.roomType.name} unit for ${totalGuests} guest(s) on these dates`,
+      );
+    }
+
+    return unit;
+  }
+
+  private async findOrCreateGuest(entry: RoomingListEntryDto, currentUser: User): Promise<string> {
+    if (entry.email) {
+      const existing = await this.prisma.guest.findFirst({
+        where: { propertyId: currentUser.propertyId!, email: entry.email, deletedAt: null },
+      });
+      if (existing) {
+        return existing.id;
+      }
+    }
+
+    const guest = await this.prisma.guest.create({
+      data: {
+        propertyId: currentUser.propertyId!,
+        firstName: entry.firstName,
+        lastName: entry.lastName,
+        email: entry.email,
+        phoneNumber: entry.phoneNumber,
+      },
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'Guest', guest.id, guest);
+
+    return guest.id;
+  }
+
+  private validateDates(arrivalDate: string, departureDate: string): void {
+    if (new Date(arrivalDate) >= new Date(departureDate)) {
+      throw new BadRequestException('Departure date must be after arrival date');
+    }
+  }
+
+  private async validateBlock(block: RoomBlockDto, currentUser: User): Promise<void> {
+    if (new Date(block.startDate) >= new Date(block.endDate)) {
+      throw new BadRequestException('Block end date must be after its start date');
+    }
+    if (new Date(block.releaseDate) > new Date(block.startDate)) {
+      throw new BadRequestException('Block release date must be on or before the block start date');
+    }
+
+    const roomType = await this.prisma.roomType.findFirst({
+      where: { id: block.roomTypeId, propertyId: currentUser.propertyId!, isActive: true },
+    });
+    if (!roomType) {
+      throw new NotFoundException('Room type not found');
+    }
+
+    if (block.ratePlanId) {
+      const ratePlan = await this.prisma.ratePlan.findFirst({
+        where: { id: block.ratePlanId, propertyId: currentUser.propertyId!, isActive: true },
+      });
+      if (!ratePlan || ratePlan.roomTypeId !== block.roomTypeId) {
+        throw new BadRequestException('Block rate plan must be an active plan of the same room type');
+      }
+    }
+  }
+
+  private toBlockData(block: RoomBlockDto): Prisma.RoomBlockCreateWithoutGroupInput {
+    return {
+      roomType: { connect: { id: block.roomTypeId } },
+      ratePlan: block.ratePlanId ? { connect: { id: block.ratePlanId } } : undefined,
+      startDate: new Date(block.startDate),
+      endDate: new Date(block.endDate),
+      roomsBlocked: block.roomsBlocked,
+      releaseDate: new Date(block.releaseDate),
+    };
+  }
+}
@@ -0,0 +1,50 @@
+import { BadRequestException } from '@nestjs/common';
+import { parseRoomingListCsv, isBlockReleased } from './rooming-list';
+
+describe('rooming-list', () => {
+  describe('parseRoomingListCsv', () => {
+    it('maps common header spellings and leaves blank cells undefined', () => {
+      const entries = parseRoomingListCsv(
+        [
+          'First Name,Last_Name,Email,Room Type,Arrival,Departure,Adults',
+          'John,Smith,john@example.com,DLX,2025-06-12,2025-06-15,2',
+          '# comment lines are ignored',
+          'Ana,Garcia,,,,,',
+        ].join('\n'),
+      );
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({
+        firstName: 'John',
+        lastName: 'Smith',
+        email: 'john@example.com',
+        roomTypeCode: 'DLX',
+        checkInDate: '2025-06-12',
+        checkOutDate: '2025-06-15',
+        adults: 2,
+      });
+      expect(entries[1]).toMatchObject({ firstName: 'Ana', lastName: 'Garcia', email: undefined, adults: undefined });
+    });
+
+    it('rejects lists without guest name columns', () => {
+      expect(() => parseRoomingListCsv('email,room\njohn@example.com,101')).toThrow(BadRequestException);
+    });
+
+    it('rejects non-numeric occupancy', () => {
+      expect(() => parseRoomingListCsv('first,last,adults\nJohn,Smith,two')).toThrow('Row 2: adults must be a number');
+    });
+  });
+
+  describe('isBlockReleased', () => {
+    const block = { releaseDate: new Date('2025-05-12T00:00:00Z'), releasedAt: null };
+
+    it('keeps the block through its release date', () => {
+      expect(isBlockReleased(block, new Date('2025-05-12T22:00:00Z'))).toBe(false);
+      expect(isBlockReleased(block, new Date('2025-05-13T00:00:00Z'))).toBe(true);
+    });
+
+    it('treats manually released blocks as released', () => {
+      expect(isBlockReleased({ ...block, releasedAt: new Date('2025-05-01') }, new Date('2025-05-02'))).toBe(true);
+    });
+  });
+});
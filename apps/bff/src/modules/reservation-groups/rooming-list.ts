@@ -0,0 +1,97 @@
+import { BadRequestException } from '@nestjs/common';
+import { RoomingListEntryDto } from './dto';
+
+// Accepted header spellings, compared after lower-casing and stripping spaces/underscores
+const HEADER_VARIATIONS: Record<keyof RoomingListEntryDto, string[]> = {
+  firstName: ['firstname', 'first', 'fname', 'givenname'],
+  lastName: ['lastname', 'last', 'lname', 'surname'],
+  email: ['email', 'emailaddress', 'e-mail'],
+  phoneNumber: ['phonenumber', 'phone', 'mobile'],
+  roomTypeId: ['roomtypeid'],
+  roomTypeCode: ['roomtype', 'roomtypecode', 'type'],
+  unitNumber: ['unitnumber', 'unit', 'room', 'roomnumber'],
+  checkInDate: ['checkindate', 'checkin', 'arrival', 'arrivaldate'],
+  checkOutDate: ['checkoutdate', 'checkout', 'departure', 'departuredate'],
+  adults: ['adults'],
+  children: ['children', 'kids'],
+  specialRequests: ['specialrequests', 'requests', 'notes'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s_]+/g, '');
+
+/**
+ * Parses a CSV rooming list into import entries. Only first and last name are
+ * required; everything else falls back to the block defaults during import.
+ */
+export function parseRoomingListCsv(csvData: string): RoomingListEntryDto[] {
+  const lines = csvData
+    .split(/\r?\n/)
+    .filter((line) => line.trim() && !line.trim().startsWith('#'));
+
+  if (lines.length < 2) {
+    throw new BadRequestException('Rooming list must contain headers and at least one guest row');
+  }
+
+  const headers = lines[0].split(',').map((header) => normalizeHeader(header.trim()));
+  const columns = new Map<keyof RoomingListEntryDto, number>();
+
+  for (const [field, variations] of Object.entries(HEADER_VARIATIONS) as [keyof RoomingListEntryDto, string[]][]) {
+    const index = headers.findIndex((header) => variations.includes(header));
+    if (index >= 0) {
+      columns.set(field, index);
+    }
+  }
+
+  const missing = (['firstName', 'lastName'] as const).filter((field) => !columns.has(field));
+  if (missing.length > 0) {
+    throw new BadRequestException(`Missing required headers: ${missing.join(', ')}`);
+  }
+
+  return lines.slice(1).map((line, index) => {
+    const values = line.split(',').map((value) => value.trim());
+    if (values.length > headers.length) {
+      throw new BadRequestException(`Row ${index + 2} has more columns than the header`);
+    }
+
+    const read = (field: keyof RoomingListEntryDto) => {
+      const column = columns.get(field);
+      return column === undefined ? undefined : values[column] || undefined;
+    };
+    const readNumber = (field: keyof RoomingListEntryDto) => {
+      const value = read(field);
+      if (value === undefined) return undefined;
+      const parsed = parseInt(value, 10);
+      if (Number.isNaN(parsed)) {
+        throw new BadRequestException(`Row ${index + 2}: ${field} must be a number`);
+      }
+      return parsed;
+    };
+
+    return {
+      firstName: read('firstName') ?? '',
+      lastName: read('lastName') ?? '',
+      email: read('email'),
+      phoneNumber: read('phoneNumber'),
+      roomTypeId: read('roomTypeId'),
+      roomTypeCode: read('roomTypeCode'),
+      unitNumber: read('unitNumber'),
+      checkInDate: read('checkInDate'),
+      checkOutDate: read('checkOutDate'),
+      adults: readNumber('adults'),
+      children: readNumber('children'),
+      specialRequests: read('specialRequests'),
+    };
+  });
+}
+
+/**
+ * A block is released once staff release it manually or the day after its
+ * cutoff date, so rooms can still be picked up on the release date itself.
+ */
+export function isBlockReleased(
+  block: { releaseDate: Date; releasedAt: Date | null },
+  now: Date = new Date(),
+): boolean {
+  const toDateKey = (date: Date) => date.toISOString().split('T')[0];
+  return block.releasedAt !== null || toDateKey(now) > toDateKey(block.releaseDate);
+}
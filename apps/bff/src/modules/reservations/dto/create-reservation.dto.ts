@@ -1,6 +1,6 @@
 import { IsString, IsDateString, IsInt, IsEnum, IsOptional, IsNumber, Min, Max } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { ReservationStatus, PaymentStatus } from '@prisma/client';
+import { ReservationStatus } from '@prisma/client';
 import { Type } from 'class-transformer';
 
 export class CreateReservationDto {
@@ -31,18 +31,21 @@ export class CreateReservationDto {
   @IsInt()
   @Min(0)
   @Max(10)
-  children?: number = 0;
+  children?: number;
 
   @ApiProperty({ enum: ReservationStatus, example: ReservationStatus.CONFIRMED })
   @IsEnum(ReservationStatus)
   status: ReservationStatus;
 
-  @ApiProperty({ example: 450.00 })
-  @Type(() => Number)
-  @IsNumber()
-  totalAmount: number;
+  @ApiPropertyOptional({ example: 'rateplan-123', description: 'Defaults to the room type default plan' })
+  @IsOptional()
+  @IsString()
+  ratePlanId?: string;
 
-  @ApiPropertyOptional({ example: 0.00 })
+  @ApiPropertyOptional({
+    example: 0.00,
+    description: 'Amount taken at booking; recorded in the payments ledger, which sets the payment status',
+  })
   @IsOptional()
   @Type(() => Number)
   @IsNumber()
@@ -51,11 +54,7 @@ export class CreateReservationDto {
   @ApiPropertyOptional({ example: 'USD' })
   @IsOptional()
   @IsString()
-  currency?: string = 'USD';
-
-  @ApiProperty({ enum: PaymentStatus, example: PaymentStatus.PENDING })
-  @IsEnum(PaymentStatus)
-  paymentStatus: PaymentStatus;
+  currency?: string;
 
   @ApiPropertyOptional({ example: 'Credit Card' })
   @IsOptional()
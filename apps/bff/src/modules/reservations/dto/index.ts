@@ -2,4 +2,7 @@ export * from './create-reservation.dto';
 export * from './update-reservation.dto';
 export * from './reservation-filter.dto';
 export * from './check-in.dto';
-export * from './check-out.dto';
\ No newline at end of file
+export * from './check-out.dto';
+export * from './move-reservation.dto';
+export * from './timeline-query.dto';
+export * from './room-move.dto';
\ No newline at end of file
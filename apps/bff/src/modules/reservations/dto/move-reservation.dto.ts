@@ -0,0 +1,19 @@
+import { IsDateString, IsOptional, IsString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class MoveReservationDto {
+  @ApiPropertyOptional({ example: 'unit-123', description: 'Target unit; defaults to the current unit' })
+  @IsOptional()
+  @IsString()
+  unitId?: string;
+
+  @ApiPropertyOptional({ example: '2024-03-16' })
+  @IsOptional()
+  @IsDateString()
+  checkInDate?: string;
+
+  @ApiPropertyOptional({ example: '2024-03-19' })
+  @IsOptional()
+  @IsDateString()
+  checkOutDate?: string;
+}
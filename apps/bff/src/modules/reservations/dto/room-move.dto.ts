@@ -0,0 +1,19 @@
+import { IsDateString, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RoomMoveDto {
+  @ApiProperty({ example: 'unit-456', description: 'Unit the in-house guest is moving into' })
+  @IsString()
+  @IsNotEmpty()
+  unitId: string;
+
+  @ApiPropertyOptional({ example: 'Air conditioning not working' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+
+  @ApiPropertyOptional({ example: '2024-03-17T14:00:00Z', description: 'When the guest changed rooms; defaults to now' })
+  @IsOptional()
+  @IsDateString()
+  movedAt?: string;
+}
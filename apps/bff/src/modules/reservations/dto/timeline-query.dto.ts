@@ -0,0 +1,12 @@
+import { IsDateString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TimelineQueryDto {
+  @ApiProperty({ example: '2024-03-01' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ example: '2024-03-15', description: 'Exclusive end of the visible range' })
+  @IsDateString()
+  endDate: string;
+}
@@ -2,5 +2,6 @@ import { PartialType, OmitType } from '@nestjs/swagger';
 import { CreateReservationDto } from './create-reservation.dto';
 
 export class UpdateReservationDto extends PartialType(
-  OmitType(CreateReservationDto, ['unitId', 'guestId'] as const)
+  // Payments are changed through the payments ledger, which keeps paidAmount in sync
+  OmitType(CreateReservationDto, ['unitId', 'guestId', 'paidAmount'] as const)
 ) {}
\ No newline at end of file
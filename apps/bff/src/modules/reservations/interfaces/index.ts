@@ -1,4 +1,4 @@
-import { Reservation, Unit, Guest } from '@prisma/client';
+import { Reservation, ReservationStatus, ReservationStaySegment, Unit, UnitBlock, Guest } from '@prisma/client';
 
 export interface ReservationWithDetails extends Reservation {
   unit: Unit;
@@ -38,5 +38,39 @@ export interface OccupancyAnalytics {
 export interface ConflictCheckResult {
   hasConflict: boolean;
   conflictingReservations: Reservation[];
+  conflictingBlocks: UnitBlock[];
   suggestedUnits: Unit[];
-}
\ No newline at end of file
+}
+
+export interface TimelineUnit {
+  id: string;
+  unitNumber: string;
+  unitType: string;
+  roomTypeId: string | null;
+  roomTypeName: string | null;
+  status: string;
+  maxOccupancy: number;
+}
+
+export interface TimelineReservation {
+  id: string;
+  unitId: string;
+  reservationNumber: string;
+  guestName: string;
+  checkInDate: Date;
+  checkOutDate: Date;
+  status: ReservationStatus;
+  adults: number;
+  children: number;
+}
+
+export interface ReservationTimeline {
+  startDate: string;
+  endDate: string;
+  units: TimelineUnit[];
+  reservations: TimelineReservation[];
+}
+
+export interface StaySegmentWithUnit extends ReservationStaySegment {
+  unit: Pick<Unit, 'id' | 'unitNumber' | 'unitType'>;
+}
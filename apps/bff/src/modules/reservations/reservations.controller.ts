@@ -16,7 +16,16 @@ import { CurrentUser } from '../../shared/decorators/current-user.decorator';
 import { RequirePermission } from '../../shared/decorators/require-permission.decorator';
 import { Audit } from '../../shared/decorators/audit.decorator';
 import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
-import { CreateReservationDto, UpdateReservationDto, ReservationFilterDto, CheckInDto, CheckOutDto } from './dto';
+import {
+  CreateReservationDto,
+  UpdateReservationDto,
+  ReservationFilterDto,
+  CheckInDto,
+  CheckOutDto,
+  MoveReservationDto,
+  TimelineQueryDto,
+  RoomMoveDto,
+} from './dto';
 import { User } from '@prisma/client';
 
 @ApiTags('Reservations')
@@ -63,6 +72,15 @@ export class ReservationsController {
     return CustomApiResponse.success(stats, 'Reservation statistics retrieved successfully');
   }
 
+  @Get('timeline')
+  @RequirePermission('reservation.read.property')
+  @ApiOperation({ summary: 'Get units and reservations for the tape chart' })
+  @ApiResponse({ status: 200, description: 'Timeline retrieved successfully' })
+  async getTimeline(@Query() query: TimelineQueryDto, @CurrentUser() currentUser: User) {
+    const timeline = await this.reservationsService.getTimeline(query, currentUser);
+    return CustomApiResponse.success(timeline, 'Timeline retrieved successfully');
+  }
+
   @Get('conflicts/:unitId')
   @RequirePermission('reservation.read.property')
   @ApiOperation({ summary: 'Check for reservation conflicts on a unit' })
@@ -124,11 +142,76 @@ export class ReservationsController {
     return CustomApiResponse.success(reservation, 'Reservation updated successfully');
   }
 
+  @Post(':id/move')
+  @RequirePermission('reservation.update.property')
+  @Audit({ action: 'MOVE', entity: 'Reservation' })
+  @ApiOperation({ summary: 'Move a reservation to another unit and/or dates' })
+  @ApiResponse({ status: 200, description: 'Reservation moved successfully' })
+  @ApiResponse({ status: 404, description: 'Reservation or unit not found' })
+  @ApiResponse({ status: 400, description: 'Bad request - Reservation cannot be moved' })
+  @ApiResponse({ status: 409, description: 'Conflict - Target unit is booked for the requested dates' })
+  async move(
+    @Param('id') id: string,
+    @Body() moveReservationDto: MoveReservationDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const reservation = await this.reservationsService.move(id, moveReservationDto, currentUser);
+    return CustomApiResponse.success(reservation, 'Reservation moved successfully');
+  }
+
+  @Post(':id/room-move')
+  @RequirePermission('reservation.update.property')
+  @Audit({ action: 'ROOM_MOVE', entity: 'Reservation' })
+  @ApiOperation({ summary: 'Move an in-house guest to another unit mid-stay' })
+  @ApiResponse({ status: 200, description: 'Guest moved successfully' })
+  @ApiResponse({ status: 404, description: 'Reservation or unit not found' })
+  @ApiResponse({ status: 400, description: 'Bad request - Guest is not checked in or unit is unavailable' })
+  @ApiResponse({ status: 409, description: 'Conflict - Target unit is booked for the rest of the stay' })
+  async roomMove(
+    @Param('id') id: string,
+    @Body() roomMoveDto: RoomMoveDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const reservation = await this.reservationsService.roomMove(id, roomMoveDto, currentUser);
+    return CustomApiResponse.success(reservation, 'Guest moved successfully');
+  }
+
+  @Get(':id/stay-segments')
+  @RequirePermission('reservation.read.property')
+  @ApiOperation({ summary: 'Get the units a guest stayed in during a reservation' })
+  @ApiResponse({ status: 200, description: 'Stay segments retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Reservation not found' })
+  async getStaySegments(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    const segments = await this.reservationsService.getStaySegments(id, currentUser);
+    return CustomApiResponse.success(segments, 'Stay segments retrieved successfully');
+  }
+
+  @Get(':id/cancellation-quote')
+  @RequirePermission('reservation.read.property')
+  @ApiOperation({ summary: 'Preview the fee due if the reservation were cancelled now' })
+  @ApiResponse({ status: 200, description: 'Cancellation quote calculated successfully' })
+  @ApiResponse({ status: 404, description: 'Reservation not found' })
+  async getCancellationQuote(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: User,
+  ) {
+    const quote = await this.reservationsService.getCancellationQuote(id, currentUser);
+    return CustomApiResponse.success(quote, 'Cancellation quote calculated successfully');
+  }
+
   @Post(':id/cancel')
   @RequirePermission('reservation.update.property')
   @Audit({ action: 'CANCEL', entity: 'Reservation' })
   @ApiOperation({ summary: 'Cancel a reservation' })
-  @ApiBody({ schema: { type: 'object', properties: { reason: { type: 'string' } } } })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        reason: { type: 'string' },
+        waivePenalty: { type: 'boolean', description: 'Skip the cancellation fee due under the booked policy' },
+      },
+    },
+  })
   @ApiResponse({ status: 200, description: 'Reservation cancelled successfully' })
   @ApiResponse({ status: 404, description: 'Reservation not found' })
   @ApiResponse({ status: 400, description: 'Bad request - Cannot cancel this reservation' })
@@ -136,9 +219,10 @@ export class ReservationsController {
   async cancel(
     @Param('id') id: string,
     @Body('reason') reason: string,
+    @Body('waivePenalty') waivePenalty: boolean | undefined,
     @CurrentUser() currentUser: User,
   ) {
-    const reservation = await this.reservationsService.cancel(id, reason, currentUser);
+    const reservation = await this.reservationsService.cancel(id, reason, currentUser, { waivePenalty: waivePenalty === true });
     return CustomApiResponse.success(reservation, 'Reservation cancelled successfully');
   }
 
@@ -1,8 +1,14 @@
 import { Module } from '@nestjs/common';
 import { ReservationsService } from './reservations.service';
 import { ReservationsController } from './reservations.controller';
+import { RatePlansModule } from '../rate-plans/rate-plans.module';
+import { FoliosModule } from '../folios/folios.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { HousekeepingModule } from '../housekeeping/housekeeping.module';
+import { CancellationPoliciesModule } from '../cancellation-policies/cancellation-policies.module';
 
 @Module({
+  imports: [RatePlansModule, FoliosModule, PaymentsModule, HousekeepingModule, CancellationPoliciesModule],
   providers: [ReservationsService],
   controllers: [ReservationsController],
   exports: [ReservationsService],
@@ -0,0 +1,190 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma, ReservationStatus, PaymentTransactionStatus, User } from '@prisma/client';
+import { ReservationsService } from './reservations.service';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { RatePlansService } from '../rate-plans/rate-plans.service';
+import { FoliosService } from '../folios/folios.service';
+import { PaymentsService } from '../payments/payments.service';
+import { HousekeepingService } from '../housekeeping/housekeeping.service';
+import { CancellationPoliciesService } from '../cancellation-policies/cancellation-policies.service';
+
+describe('ReservationsService', () => {
+  let service: ReservationsService;
+  let prismaService: any;
+  let ratePlansService: any;
+  let foliosService: any;
+  let paymentsService: any;
+  let cancellationPoliciesService: any;
+
+  const currentUser = { id: 'user1', organizationId: 'org1', propertyId: 'prop1' } as User;
+
+  const unit = { id: 'unit1', unitNumber: '101', roomTypeId: 'type1', maxOccupancy: 2 };
+  const guest = { id: 'guest1', firstName: 'Ana', lastName: 'Silva', blacklisted: false };
+
+  const quote = {
+    ratePlanId: 'plan1',
+    roomTypeId: 'type1',
+    currency: 'USD',
+    totalAmount: 300,
+    nights: [
+      { date: '2099-03-10', total: 150 },
+      { date: '2099-03-11', total: 150 },
+    ],
+    isBookable: true,
+    restrictionViolations: [],
+  };
+
+  const reservation = {
+    id: 'res1',
+    propertyId: 'prop1',
+    reservationNumber: 'RES1',
+    unitId: unit.id,
+    guestId: guest.id,
+    status: ReservationStatus.CONFIRMED,
+    ratePlanId: 'plan1',
+    currency: 'USD',
+    adults: 2,
+    children: 0,
+    checkInDate: new Date('2099-03-10T00:00:00Z'),
+    checkOutDate: new Date('2099-03-12T00:00:00Z'),
+    totalAmount: new Prisma.Decimal(300),
+    nightlyRates: quote.nights,
+    unit,
+    guest,
+  };
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      unit: { findFirst: jest.fn().mockResolvedValue(unit), update: jest.fn() },
+      guest: { findFirst: jest.fn().mockResolvedValue(guest) },
+      reservation: {
+        create: jest.fn().mockResolvedValue(reservation),
+        update: jest.fn().mockResolvedValue(reservation),
+        findFirst: jest.fn().mockResolvedValue(reservation),
+      },
+      paymentTransaction: { create: jest.fn().mockResolvedValue({ id: 'payment1' }) },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReservationsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: { logCreate: jest.fn(), logUpdate: jest.fn() } },
+        { provide: RatePlansService, useValue: { quote: jest.fn().mockResolvedValue(quote) } },
+        {
+          provide: FoliosService,
+          useValue: { ensurePrimaryFolio: jest.fn(), recordSettlement: jest.fn() },
+        },
+        { provide: PaymentsService, useValue: { recalculate: jest.fn() } },
+        { provide: HousekeepingService, useValue: {} },
+        {
+          provide: CancellationPoliciesService,
+          useValue: { resolveSnapshot: jest.fn().mockResolvedValue(null) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReservationsService>(ReservationsService);
+    prismaService = module.get(PrismaService);
+    ratePlansService = module.get(RatePlansService);
+    foliosService = module.get(FoliosService);
+    paymentsService = module.get(PaymentsService);
+    cancellationPoliciesService = module.get(CancellationPoliciesService);
+
+    jest.spyOn(service, 'checkReservationConflict').mockResolvedValue({
+      hasConflict: false,
+      conflictingReservations: [],
+      conflictingBlocks: [],
+      suggestedUnits: [],
+    } as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    const createDto = {
+      unitId: unit.id,
+      guestId: guest.id,
+      checkInDate: '2099-03-10',
+      checkOutDate: '2099-03-12',
+      adults: 2,
+      status: ReservationStatus.CONFIRMED,
+    };
+
+    it('records the amount paid at booking in the ledger and on the folio', async () => {
+      await service.create({ ...createDto, paidAmount: 100, paymentMethod: 'Cash' }, currentUser);
+
+      expect(prismaService.reservation.create.mock.calls[0][0].data).not.toHaveProperty('paymentStatus');
+      expect(prismaService.paymentTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          reservationId: reservation.id,
+          status: PaymentTransactionStatus.CAPTURED,
+          amount: new Prisma.Decimal(100),
+        }),
+      });
+      expect(foliosService.recordSettlement).toHaveBeenCalledWith(
+        reservation,
+        expect.objectContaining({ amount: -100, reference: 'payment1' }),
+        currentUser,
+      );
+      expect(paymentsService.recalculate).toHaveBeenCalledWith(reservation.id);
+    });
+
+    it('derives the payment status from the ledger when nothing was paid', async () => {
+      await service.create(createDto, currentUser);
+
+      expect(prismaService.paymentTransaction.create).not.toHaveBeenCalled();
+      expect(foliosService.recordSettlement).not.toHaveBeenCalled();
+      expect(paymentsService.recalculate).toHaveBeenCalledWith(reservation.id);
+    });
+  });
+
+  describe('move', () => {
+    it('re-prices the stay and recalculates the payment status', async () => {
+      ratePlansService.quote.mockResolvedValue({ ...quote, totalAmount: 450 });
+
+      await service.move(reservation.id, { checkOutDate: '2099-03-13' }, currentUser);
+
+      expect(prismaService.reservation.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ totalAmount: new Prisma.Decimal(450) }),
+        }),
+      );
+      expect(paymentsService.recalculate).toHaveBeenCalledWith(reservation.id);
+    });
+
+    it('keeps the booked cancellation policy when only the dates change', async () => {
+      await service.move(reservation.id, { checkOutDate: '2099-03-13' }, currentUser);
+
+      expect(cancellationPoliciesService.resolveSnapshot).not.toHaveBeenCalled();
+      expect(prismaService.reservation.update.mock.calls[0][0].data.cancellationPolicy).toBeUndefined();
+    });
+
+    it('rebooks under the new room type\'s cancellation policy', async () => {
+      const snapshot = {
+        policyId: 'policy2',
+        code: 'SUITE',
+        name: 'Suite policy',
+        freeCancellationHours: 72,
+        penaltyType: 'PERCENTAGE',
+        penaltyPercent: 50,
+        isNonRefundable: false,
+      };
+      prismaService.unit.findFirst.mockResolvedValue({ ...unit, id: 'unit2', roomTypeId: 'type2' });
+      ratePlansService.quote.mockResolvedValue({ ...quote, ratePlanId: 'plan2', roomTypeId: 'type2' });
+      cancellationPoliciesService.resolveSnapshot.mockResolvedValue(snapshot);
+
+      await service.move(reservation.id, { unitId: 'unit2' }, currentUser);
+
+      expect(cancellationPoliciesService.resolveSnapshot).toHaveBeenCalledWith('plan2', 'type2', 'prop1');
+      expect(prismaService.reservation.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ unitId: 'unit2', ratePlanId: 'plan2', cancellationPolicy: snapshot }),
+        }),
+      );
+    });
+  });
+});
@@ -1,10 +1,50 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
 import { PrismaService } from '../../shared/database/prisma.service';
 import { AuditService } from '../../shared/audit/audit.service';
 import { PaginatedResponse } from '../../shared/dto/pagination.dto';
-import { CreateReservationDto, UpdateReservationDto, ReservationFilterDto, CheckInDto, CheckOutDto } from './dto';
-import { ReservationWithDetails, ReservationStats, ConflictCheckResult } from './interfaces';
-import { User, Reservation, ReservationStatus, UnitStatus, PaymentStatus, Prisma } from '@prisma/client';
+import {
+  CreateReservationDto,
+  UpdateReservationDto,
+  ReservationFilterDto,
+  CheckInDto,
+  CheckOutDto,
+  MoveReservationDto,
+  TimelineQueryDto,
+  RoomMoveDto,
+} from './dto';
+import {
+  ReservationWithDetails,
+  ReservationStats,
+  ConflictCheckResult,
+  ReservationTimeline,
+  StaySegmentWithUnit,
+} from './interfaces';
+import { RatePlansService } from '../rate-plans/rate-plans.service';
+import { FoliosService } from '../folios/folios.service';
+import { PaymentsService } from '../payments/payments.service';
+import { HousekeepingService } from '../housekeeping/housekeeping.service';
+import { CancellationPoliciesService } from '../cancellation-policies/cancellation-policies.service';
+import { CancellationQuote } from '../cancellation-policies/interfaces';
+import {
+  calculateCancellationPenalty,
+  CancellableStay,
+  CancellationPolicySnapshot,
+} from '../cancellation-policies/cancellation-penalty';
+import { overlappingBlocksWhere, stayNights } from '@staffnbdt/shared';
+import { PRE_ARRIVAL_OBJECT_TYPE } from '../pre-arrival/pre-arrival-submission';
+import {
+  User,
+  Reservation,
+  ReservationStatus,
+  UnitStatus,
+  PaymentStatus,
+  TaskPriority,
+  PaymentTransactionType,
+  PaymentTransactionStatus,
+  PaymentMethod,
+  HousekeepingStatus,
+  Prisma,
+} from '@prisma/client';
 import * as crypto from 'crypto';
 
 @Injectable()
@@ -12,6 +52,11 @@ export class ReservationsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly auditService: AuditService,
+    private readonly ratePlansService: RatePlansService,
+    private readonly foliosService: FoliosService,
+    private readonly paymentsService: PaymentsService,
+    private readonly housekeepingService: HousekeepingService,
+    private readonly cancellationPoliciesService: CancellationPoliciesService,
   ) {}
 
   private generateReservationNumber(): string {
@@ -20,13 +65,23 @@ export class ReservationsService {
     return `RES${timestamp}${random}`;
   }
 
+  private toCancellableStay(reservation: Reservation): CancellableStay {
+    return {
+      checkInDate: reservation.checkInDate,
+      totalAmount: reservation.totalAmount.toNumber(),
+      nights: stayNights(reservation),
+    };
+  }
+
   private generateConfirmationCode(): string {
     return crypto.randomBytes(4).toString('hex').toUpperCase();
   }
 
+  /** `groupPlacement` books the stay straight into a group's room block */
   async create(
     createReservationDto: CreateReservationDto,
     currentUser: User,
+    groupPlacement?: { groupId: string; roomBlockId: string },
   ): Promise<ReservationWithDetails> {
     const { unitId, guestId, checkInDate, checkOutDate } = createReservationDto;
 
@@ -98,19 +153,40 @@ export class ReservationsService {
     const reservationNumber = this.generateReservationNumber();
     const confirmationCode = createReservationDto.confirmationCode || this.generateConfirmationCode();
 
-    // Coerce numeric/decimal fields
-    const totalAmount = createReservationDto.totalAmount ?? 0;
+    // Price the stay server-side; the client never supplies the total
+    const quote = await this.ratePlansService.quote(
+      {
+        unitId,
+        ratePlanId: createReservationDto.ratePlanId,
+        checkInDate,
+        checkOutDate,
+        adults: createReservationDto.adults,
+        children: createReservationDto.children || 0,
+      },
+      currentUser,
+    );
+    if (!quote.isBookable) {
+      throw new BadRequestException(quote.restrictionViolations.join('; '));
+    }
+
     const paidAmount = createReservationDto.paidAmount ?? 0;
 
+    const cancellationPolicy = await this.cancellationPoliciesService.resolveSnapshot(
+      quote.ratePlanId,
+      quote.roomTypeId,
+      currentUser.propertyId!,
+    );
+
     const reservation = await this.prisma.reservation.create({
       data: {
         unitId,
         guestId,
         status: createReservationDto.status,
-        paymentStatus: createReservationDto.paymentStatus,
-        totalAmount: new Prisma.Decimal(totalAmount),
-        paidAmount: new Prisma.Decimal(paidAmount),
-        currency: createReservationDto.currency || 'USD',
+        totalAmount: new Prisma.Decimal(quote.totalAmount),
+        currency: quote.currency,
+        ratePlanId: quote.ratePlanId,
+        nightlyRates: quote.nights as unknown as Prisma.InputJsonValue,
+        cancellationPolicy: cancellationPolicy ? (cancellationPolicy as unknown as Prisma.InputJsonValue) : undefined,
         paymentMethod: createReservationDto.paymentMethod,
         source: createReservationDto.source,
         specialRequests: createReservationDto.specialRequests,
@@ -119,8 +195,11 @@ export class ReservationsService {
         propertyId: currentUser.propertyId!,
         checkInDate: checkIn,
         checkOutDate: checkOut,
+        adults: createReservationDto.adults,
         children: createReservationDto.children || 0,
         reservationNumber,
+        groupId: groupPlacement?.groupId,
+        roomBlockId: groupPlacement?.roomBlockId,
       },
       include: {
         unit: true,
@@ -128,6 +207,33 @@ export class ReservationsService {
       },
     });
 
+    await this.foliosService.ensurePrimaryFolio(reservation);
+
+    // An amount taken at booking opens the payments ledger and is mirrored onto the folio
+    if (paidAmount > 0) {
+      const payment = await this.prisma.paymentTransaction.create({
+        data: {
+          propertyId: currentUser.propertyId!,
+          reservationId: reservation.id,
+          type: PaymentTransactionType.PAYMENT,
+          status: PaymentTransactionStatus.CAPTURED,
+          method: PaymentMethod.OTHER,
+          amount: new Prisma.Decimal(paidAmount),
+          currency: quote.currency,
+          reference: createReservationDto.paymentMethod,
+          provider: 'manual',
+          capturedBy: currentUser.id,
+          capturedAt: new Date(),
+        },
+      });
+      await this.foliosService.recordSettlement(
+        reservation,
+        { amount: -paidAmount, description: 'Payment at booking', reference: payment.id },
+        currentUser,
+      );
+    }
+    await this.paymentsService.recalculate(reservation.id);
+
     // Update unit status if reservation is confirmed
     if (createReservationDto.status === ReservationStatus.CONFIRMED) {
       await this.prisma.unit.update({
@@ -139,7 +245,7 @@ export class ReservationsService {
     // Log reservation creation
     await this.auditService.logCreate(currentUser.id, 'Reservation', reservation.id, reservation);
 
-    return reservation;
+    return this.findOne(reservation.id, currentUser);
   }
 
   async findAll(
@@ -294,12 +400,15 @@ export class ReservationsService {
       throw new NotFoundException('Reservation not found');
     }
 
+    let checkIn = existingReservation.checkInDate;
+    let checkOut = existingReservation.checkOutDate;
+
     // Validate date changes if provided
     if (updateReservationDto.checkInDate || updateReservationDto.checkOutDate) {
-      const checkIn = updateReservationDto.checkInDate 
+      checkIn = updateReservationDto.checkInDate 
         ? new Date(updateReservationDto.checkInDate)
         : existingReservation.checkInDate;
-      const checkOut = updateReservationDto.checkOutDate
+      checkOut = updateReservationDto.checkOutDate
         ? new Date(updateReservationDto.checkOutDate)
         : existingReservation.checkOutDate;
 
@@ -323,10 +432,48 @@ export class ReservationsService {
       }
     }
 
+    // Re-price when anything that affects the rate changes
+    let pricing: Prisma.ReservationUncheckedUpdateInput = {};
+    const repriceFields = ['checkInDate', 'checkOutDate', 'adults', 'children', 'ratePlanId'] as const;
+    if (repriceFields.some((field) => updateReservationDto[field] !== undefined)) {
+      const quote = await this.ratePlansService.quote(
+        {
+          unitId: existingReservation.unitId,
+          ratePlanId: updateReservationDto.ratePlanId ?? existingReservation.ratePlanId ?? undefined,
+          checkInDate: checkIn.toISOString(),
+          checkOutDate: checkOut.toISOString(),
+          adults: updateReservationDto.adults ?? existingReservation.adults,
+          children: updateReservationDto.children ?? existingReservation.children,
+        },
+        currentUser,
+      );
+      if (!quote.isBookable) {
+        throw new BadRequestException(quote.restrictionViolations.join('; '));
+      }
+      pricing = {
+        totalAmount: new Prisma.Decimal(quote.totalAmount),
+        currency: quote.currency,
+        nightlyRates: quote.nights as unknown as Prisma.InputJsonValue,
+      };
+
+      // Switching rate plans rebooks the stay under the new plan's policy
+      if (quote.ratePlanId !== existingReservation.ratePlanId) {
+        const cancellationPolicy = await this.cancellationPoliciesService.resolveSnapshot(
+          quote.ratePlanId,
+          quote.roomTypeId,
+          currentUser.propertyId!,
+        );
+        pricing.cancellationPolicy = cancellationPolicy
+          ? (cancellationPolicy as unknown as Prisma.InputJsonValue)
+          : Prisma.DbNull;
+      }
+    }
+
     const reservation = await this.prisma.reservation.update({
       where: { id },
       data: {
         ...updateReservationDto,
+        ...pricing,
         checkInDate: updateReservationDto.checkInDate ? new Date(updateReservationDto.checkInDate) : undefined,
         checkOutDate: updateReservationDto.checkOutDate ? new Date(updateReservationDto.checkOutDate) : undefined,
       },
@@ -339,10 +486,394 @@ export class ReservationsService {
     // Log reservation update
     await this.auditService.logUpdate(currentUser.id, 'Reservation', reservation.id, existingReservation, reservation);
 
+    // A new total can move the reservation between PARTIAL and PAID
+    if (pricing.totalAmount !== undefined) {
+      await this.paymentsService.recalculate(reservation.id);
+      return this.findOne(reservation.id, currentUser);
+    }
+
+    return reservation;
+  }
+
+  async getTimeline(query: TimelineQueryDto, currentUser: User): Promise<ReservationTimeline> {
+    const startDate = new Date(query.startDate);
+    const endDate = new Date(query.endDate);
+
+    if (startDate >= endDate) {
+      throw new BadRequestException('End date must be after start date');
+    }
+
+    const [units, reservations] = await Promise.all([
+      this.prisma.unit.findMany({
+        where: { propertyId: currentUser.propertyId!, isActive: true, deletedAt: null },
+        include: { roomType: { select: { name: true } } },
+        orderBy: [{ floor: 'asc' }, { unitNumber: 'asc' }],
+      }),
+      this.prisma.reservation.findMany({
+        where: {
+          propertyId: currentUser.propertyId!,
+          status: { in: [ReservationStatus.CONFIRMED, ReservationStatus.CHECKED_IN, ReservationStatus.CHECKED_OUT] },
+          checkInDate: { lt: endDate },
+          checkOutDate: { gt: startDate },
+        },
+        include: { guest: { select: { firstName: true, lastName: true } } },
+        orderBy: { checkInDate: 'asc' },
+      }),
+    ]);
+
+    return {
+      startDate: query.startDate,
+      endDate: query.endDate,
+      units: units.map((unit) => ({
+        id: unit.id,
+        unitNumber: unit.unitNumber,
+        unitType: unit.unitType,
+        roomTypeId: unit.roomTypeId,
+        roomTypeName: unit.roomType?.name ?? null,
+        status: unit.status,
+        maxOccupancy: unit.maxOccupancy,
+      })),
+      reservations: reservations.map((reservation) => ({
+        id: reservation.id,
+        unitId: reservation.unitId,
+        reservationNumber: reservation.reservationNumber,
+        guestName: `${reservation.guest.firstName} ${reservation.guest.lastName}`.trim(),
+        checkInDate: reservation.checkInDate,
+        checkOutDate: reservation.checkOutDate,
+        status: reservation.status,
+        adults: reservation.adults,
+        children: reservation.children,
+      })),
+    };
+  }
+
+  /**
+   * Moves a reservation to another unit and/or new dates (tape chart drag and
+   * resize). The target slot is validated with checkReservationConflict and the
+   * stay is re-priced for the new unit and dates.
+   */
+  async move(id: string, moveDto: MoveReservationDto, currentUser: User): Promise<ReservationWithDetails> {
+    const existingReservation = await this.prisma.reservation.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+      include: { unit: true },
+    });
+
+    if (!existingReservation) {
+      throw new NotFoundException('Reservation not found');
+    }
+
+    const { status } = existingReservation;
+    if (status !== ReservationStatus.CONFIRMED && status !== ReservationStatus.CHECKED_IN) {
+      throw new BadRequestException(`Cannot move a reservation with status ${status}`);
+    }
+
+    const unitId = moveDto.unitId ?? existingReservation.unitId;
+    const checkIn = moveDto.checkInDate ? new Date(moveDto.checkInDate) : existingReservation.checkInDate;
+    const checkOut = moveDto.checkOutDate ? new Date(moveDto.checkOutDate) : existingReservation.checkOutDate;
+
+    if (checkIn >= checkOut) {
+      throw new BadRequestException('Check-out date must be after check-in date');
+    }
+
+    if (status === ReservationStatus.CHECKED_IN) {
+      if (unitId !== existingReservation.unitId) {
+        throw new BadRequestException('Guest is already checked in; use a room move to change units');
+      }
+      if (checkIn.getTime() !== existingReservation.checkInDate.getTime()) {
+        throw new BadRequestException('Guest is already checked in; only the departure date can be changed');
+      }
+    }
+
+    const unit =
+      unitId === existingReservation.unitId
+        ? existingReservation.unit
+        : await this.prisma.unit.findFirst({
+            where: { id: unitId, propertyId: currentUser.propertyId!, isActive: true, deletedAt: null },
+          });
+
+    if (!unit) {
+      throw new NotFoundException('Unit not found or not active');
+    }
+
+    const totalGuests = existingReservation.adults + existingReservation.children;
+    if (unit.maxOccupancy < totalGuests) {
+      throw new BadRequestException(
+        `Unit ${unit.unitNumber} sleeps ${unit.maxOccupancy} but the reservation has ${totalGuests} guests`,
+      );
+    }
+
+    const conflict = await this.checkReservationConflict(unit.id, checkIn, checkOut, currentUser, id);
+    if (conflict.hasConflict) {
+      const details = conflict.conflictingReservations
+        .map(
+          (reservation) =>
+            `${reservation.reservationNumber} (${reservation.checkInDate.toISOString().split('T')[0]} to ${
+              reservation.checkOutDate.toISOString().split('T')[0]
+            })`,
+        )
+        .concat(conflict.conflictingBlocks.map((block) => `a block (${block.reason})`))
+        .join(', ');
+      throw new ConflictException({
+        message: `Unit ${unit.unitNumber} is already booked for these dates by ${details}`,
+        conflictingReservations: conflict.conflictingReservations,
+        conflictingBlocks: conflict.conflictingBlocks,
+        suggestedUnits: conflict.suggestedUnits,
+      });
+    }
+
+    // Keep the guest's rate plan unless the unit is of a different room type
+    const sameRoomType = unit.roomTypeId === existingReservation.unit.roomTypeId;
+    const keepRatePlan = existingReservation.ratePlanId && sameRoomType;
+    const quote = await this.ratePlansService.quote(
+      {
+        unitId: unit.id,
+        ratePlanId: keepRatePlan ? existingReservation.ratePlanId! : undefined,
+        checkInDate: checkIn.toISOString(),
+        checkOutDate: checkOut.toISOString(),
+        adults: existingReservation.adults,
+        children: existingReservation.children,
+      },
+      currentUser,
+    );
+    if (!quote.isBookable) {
+      throw new BadRequestException(quote.restrictionViolations.join('; '));
+    }
+
+    // A different rate plan or room type rebooks the stay under its policy, as in update()
+    let cancellationPolicy: Prisma.InputJsonValue | typeof Prisma.DbNull | undefined;
+    if (quote.ratePlanId !== existingReservation.ratePlanId || !sameRoomType) {
+      const snapshot = await this.cancellationPoliciesService.resolveSnapshot(
+        quote.ratePlanId,
+        quote.roomTypeId,
+        currentUser.propertyId!,
+      );
+      cancellationPolicy = snapshot ? (snapshot as unknown as Prisma.InputJsonValue) : Prisma.DbNull;
+    }
+
+    const reservation = await this.prisma.reservation.update({
+      where: { id },
+      data: {
+        unitId: unit.id,
+        checkInDate: checkIn,
+        checkOutDate: checkOut,
+        ratePlanId: quote.ratePlanId,
+        totalAmount: new Prisma.Decimal(quote.totalAmount),
+        currency: quote.currency,
+        nightlyRates: quote.nights as unknown as Prisma.InputJsonValue,
+        cancellationPolicy,
+      },
+      include: {
+        unit: true,
+        guest: true,
+      },
+    });
+
+    await this.auditService.logUpdate(
+      currentUser.id,
+      'Reservation',
+      id,
+      {
+        unitId: existingReservation.unitId,
+        checkInDate: existingReservation.checkInDate,
+        checkOutDate: existingReservation.checkOutDate,
+        totalAmount: existingReservation.totalAmount,
+      },
+      { unitId: unit.id, checkInDate: checkIn, checkOutDate: checkOut, totalAmount: reservation.totalAmount },
+    );
+
+    // The new total can move the reservation between PARTIAL and PAID
+    await this.paymentsService.recalculate(reservation.id);
+    return this.findOne(reservation.id, currentUser);
+  }
+
+  /**
+   * Moves an in-house guest to another unit mid-stay. The open stay segment is
+   * closed and a new one opened on the target unit, the vacated unit goes to
+   * CLEANING with a housekeeping task, and the target unit becomes OCCUPIED.
+   * The stay keeps its original rate; use move() for stays not yet checked in.
+   */
+  async roomMove(id: string, roomMoveDto: RoomMoveDto, currentUser: User): Promise<ReservationWithDetails> {
+    const existingReservation = await this.prisma.reservation.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+      include: { unit: true },
+    });
+
+    if (!existingReservation) {
+      throw new NotFoundException('Reservation not found');
+    }
+
+    if (existingReservation.status !== ReservationStatus.CHECKED_IN) {
+      throw new BadRequestException('Only checked-in guests can change rooms mid-stay');
+    }
+
+    if (roomMoveDto.unitId === existingReservation.unitId) {
+      throw new BadRequestException('Guest is already in this unit');
+    }
+
+    const movedAt = roomMoveDto.movedAt ? new Date(roomMoveDto.movedAt) : new Date();
+    const stayStart = existingReservation.checkedInAt ?? existingReservation.checkInDate;
+    if (movedAt < stayStart || movedAt >= existingReservation.checkOutDate) {
+      throw new BadRequestException('Move time must fall within the current stay');
+    }
+
+    const unit = await this.prisma.unit.findFirst({
+      where: { id: roomMoveDto.unitId, propertyId: currentUser.propertyId!, isActive: true, deletedAt: null },
+    });
+
+    if (!unit) {
+      throw new NotFoundException('Unit not found or not active');
+    }
+
+    if (unit.status === UnitStatus.OUT_OF_ORDER || unit.status === UnitStatus.MAINTENANCE) {
+      throw new BadRequestException(`Unit ${unit.unitNumber} is ${unit.status.toLowerCase().replace(/_/g, ' ')}`);
+    }
+
+    if (unit.housekeepingStatus !== HousekeepingStatus.INSPECTED) {
+      throw new BadRequestException(`Unit ${unit.unitNumber} has not passed housekeeping inspection`);
+    }
+
+    const totalGuests = existingReservation.adults + existingReservation.children;
+    if (unit.maxOccupancy < totalGuests) {
+      throw new BadRequestException(
+        `Unit ${unit.unitNumber} sleeps ${unit.maxOccupancy} but the reservation has ${totalGuests} guests`,
+      );
+    }
+
+    const conflict = await this.checkReservationConflict(
+      unit.id,
+      movedAt,
+      existingReservation.checkOutDate,
+      currentUser,
+      id,
+    );
+    if (conflict.hasConflict) {
+      throw new ConflictException({
+        message: `Unit ${unit.unitNumber} is occupied, booked or blocked for the rest of this stay`,
+        conflictingReservations: conflict.conflictingReservations,
+        conflictingBlocks: conflict.conflictingBlocks,
+        suggestedUnits: conflict.suggestedUnits,
+      });
+    }
+
+    const reservation = await this.prisma.$transaction(async (tx) => {
+      const openSegment = await tx.reservationStaySegment.findFirst({
+        where: { reservationId: id, endDate: null },
+        orderBy: { startDate: 'desc' },
+      });
+
+      // Stays checked in before segments were recorded get their first segment backfilled
+      if (openSegment) {
+        await tx.reservationStaySegment.update({
+          where: { id: openSegment.id },
+          data: { endDate: movedAt },
+        });
+      } else {
+        await tx.reservationStaySegment.create({
+          data: {
+            reservationId: id,
+            unitId: existingReservation.unitId,
+            startDate: stayStart,
+            endDate: movedAt,
+          },
+        });
+      }
+
+      await tx.reservationStaySegment.create({
+        data: {
+          reservationId: id,
+          unitId: unit.id,
+          startDate: movedAt,
+          reason: roomMoveDto.reason,
+          movedBy: currentUser.id,
+        },
+      });
+
+      await tx.unit.update({
+        where: { id: unit.id },
+        data: { status: UnitStatus.OCCUPIED },
+      });
+
+      await this.housekeepingService.scheduleCleaning(
+        existingReservation.unit,
+        {
+          title: `Clean unit ${existingReservation.unit.unitNumber} after room move`,
+          description: `Guest on ${existingReservation.reservationNumber} moved to unit ${unit.unitNumber}${
+            roomMoveDto.reason ? `: ${roomMoveDto.reason}` : ''
+          }`,
+          priority: TaskPriority.HIGH,
+          reservationId: id,
+          dueDate: movedAt,
+        },
+        currentUser,
+        tx,
+      );
+
+      return tx.reservation.update({
+        where: { id },
+        data: { unitId: unit.id },
+        include: {
+          unit: true,
+          guest: true,
+        },
+      });
+    });
+
+    await this.auditService.logUpdate(
+      currentUser.id,
+      'Reservation',
+      id,
+      { unitId: existingReservation.unitId },
+      { unitId: unit.id, movedAt, reason: roomMoveDto.reason },
+    );
+
     return reservation;
   }
 
-  async cancel(id: string, reason: string, currentUser: User): Promise<ReservationWithDetails> {
+  async getStaySegments(id: string, currentUser: User): Promise<StaySegmentWithUnit[]> {
+    const reservation = await this.prisma.reservation.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+      select: { id: true },
+    });
+
+    if (!reservation) {
+      throw new NotFoundException('Reservation not found');
+    }
+
+    return this.prisma.reservationStaySegment.findMany({
+      where: { reservationId: id },
+      include: { unit: { select: { id: true, unitNumber: true, unitType: true } } },
+      orderBy: { startDate: 'asc' },
+    });
+  }
+
+  /** Fee the reservation would owe if it were cancelled now */
+  async getCancellationQuote(id: string, currentUser: User): Promise<CancellationQuote> {
+    const reservation = await this.prisma.reservation.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+    });
+
+    if (!reservation) {
+      throw new NotFoundException('Reservation not found');
+    }
+
+    const policy = reservation.cancellationPolicy as unknown as CancellationPolicySnapshot | null;
+    return {
+      reservationId: reservation.id,
+      policy,
+      penalty: calculateCancellationPenalty(policy, this.toCancellableStay(reservation), new Date()),
+    };
+  }
+
+  /**
+   * Cancels the reservation and charges the fee due under the policy it was
+   * booked with. The fee is posted to the primary folio unless waived.
+   */
+  async cancel(
+    id: string,
+    reason: string,
+    currentUser: User,
+    options: { waivePenalty?: boolean } = {},
+  ): Promise<ReservationWithDetails> {
     const reservation = await this.prisma.reservation.findFirst({
       where: {
         id,
@@ -366,10 +897,19 @@ export class ReservationsService {
       throw new BadRequestException('Cannot cancel completed reservation');
     }
 
+    const cancelledAt = new Date();
+    const policy = reservation.cancellationPolicy as unknown as CancellationPolicySnapshot | null;
+    const penalty = calculateCancellationPenalty(policy, this.toCancellableStay(reservation), cancelledAt);
+    const cancellationFee = options.waivePenalty ? 0 : penalty.amount;
+
     const updatedReservation = await this.prisma.reservation.update({
       where: { id },
       data: {
         status: ReservationStatus.CANCELLED,
+        cancelledAt,
+        cancelledBy: currentUser.id,
+        cancellationReason: reason,
+        cancellationFee: new Prisma.Decimal(cancellationFee),
         notes: `${reservation.notes || ''}\nCancellation reason: ${reason}`.trim(),
       },
       include: {
@@ -378,6 +918,14 @@ export class ReservationsService {
       },
     });
 
+    if (cancellationFee > 0) {
+      await this.foliosService.postCancellationFee(
+        reservation,
+        { amount: cancellationFee, description: penalty.description },
+        currentUser,
+      );
+    }
+
     // Update unit status back to available if it was reserved
     if (reservation.unit.status === UnitStatus.RESERVED) {
       await this.prisma.unit.update({
@@ -392,7 +940,12 @@ export class ReservationsService {
       'Reservation',
       id,
       { status: reservation.status },
-      { status: ReservationStatus.CANCELLED, cancellationReason: reason }
+      {
+        status: ReservationStatus.CANCELLED,
+        cancellationReason: reason,
+        cancellationFee,
+        penaltyWaived: !!options.waivePenalty && penalty.amount > 0,
+      }
     );
 
     return updatedReservation;
@@ -422,6 +975,12 @@ export class ReservationsService {
       throw new BadRequestException('Reservation is already checked in');
     }
 
+    if (reservation.unit.housekeepingStatus !== HousekeepingStatus.INSPECTED) {
+      throw new BadRequestException(
+        `Unit ${reservation.unit.unitNumber} is ${reservation.unit.housekeepingStatus.toLowerCase()} and has not been inspected yet`,
+      );
+    }
+
     const checkedInAt = checkInDto.checkedInAt ? new Date(checkInDto.checkedInAt) : new Date();
     
     const updatedReservation = await this.prisma.reservation.update({
@@ -443,6 +1002,21 @@ export class ReservationsService {
       data: { status: UnitStatus.OCCUPIED },
     });
 
+    // Open the first stay segment; room moves close it and start the next
+    await this.prisma.reservationStaySegment.create({
+      data: {
+        reservationId: id,
+        unitId: reservation.unitId,
+        startDate: checkedInAt,
+      },
+    });
+
+    // The front desk's pre-arrival item is done once the guest is in
+    await this.prisma.conciergeObject.updateMany({
+      where: { reservationId: id, propertyId: reservation.propertyId, type: PRE_ARRIVAL_OBJECT_TYPE, status: 'open' },
+      data: { status: 'completed' },
+    });
+
     // Log check-in
     await this.auditService.logUpdate(
       currentUser.id,
@@ -480,19 +1054,12 @@ export class ReservationsService {
     }
 
     const checkedOutAt = checkOutDto.checkedOutAt ? new Date(checkOutDto.checkedOutAt) : new Date();
-    
-    // Calculate additional charges
-    let finalAmount = reservation.totalAmount.toNumber();
-    if (checkOutDto.additionalCharges) {
-      finalAmount += checkOutDto.additionalCharges;
-    }
 
     const updatedReservation = await this.prisma.reservation.update({
       where: { id },
       data: {
         status: ReservationStatus.CHECKED_OUT,
         checkedOutAt,
-        totalAmount: finalAmount,
         notes: checkOutDto.notes ? `${reservation.notes || ''}\nCheck-out notes: ${checkOutDto.notes}`.trim() : reservation.notes,
       },
       include: {
@@ -501,19 +1068,37 @@ export class ReservationsService {
       },
     });
 
-    // Update unit status to available (assuming cleaning will be handled separately)
-    await this.prisma.unit.update({
-      where: { id: reservation.unitId },
-      data: { status: UnitStatus.AVAILABLE },
+    // The room is sold again only after housekeeping cleans and inspects it
+    await this.housekeepingService.scheduleCleaning(
+      reservation.unit,
+      {
+        title: `Clean unit ${reservation.unit.unitNumber} after check-out`,
+        description: `Departure of reservation ${reservation.reservationNumber}`,
+        reservationId: id,
+      },
+      currentUser,
+    );
+
+    await this.prisma.reservationStaySegment.updateMany({
+      where: { reservationId: id, endDate: null },
+      data: { endDate: checkedOutAt },
     });
 
+    // Post any unbilled nights and extras to the folio and close it out; extras are billed
+    // there only, the reservation total stays the price of the stay
+    await this.foliosService.closeOutReservation(
+      reservation,
+      { amount: checkOutDto.additionalCharges, description: checkOutDto.additionalChargesDescription },
+      currentUser,
+    );
+
     // Log check-out
     await this.auditService.logUpdate(
       currentUser.id,
       'Reservation',
       id,
-      { status: reservation.status, totalAmount: reservation.totalAmount },
-      { status: ReservationStatus.CHECKED_OUT, checkedOutAt, totalAmount: finalAmount }
+      { status: reservation.status },
+      { status: ReservationStatus.CHECKED_OUT, checkedOutAt }
     );
 
     return updatedReservation;
@@ -542,11 +1127,16 @@ export class ReservationsService {
       whereClause.id = { not: excludeReservationId };
     }
 
-    const conflictingReservations = await this.prisma.reservation.findMany({
-      where: whereClause,
-    });
+    const [conflictingReservations, conflictingBlocks] = await Promise.all([
+      this.prisma.reservation.findMany({
+        where: whereClause,
+      }),
+      this.prisma.unitBlock.findMany({
+        where: { unitId, ...overlappingBlocksWhere(checkInDate, checkOutDate) },
+      }),
+    ]);
 
-    const hasConflict = conflictingReservations.length > 0;
+    const hasConflict = conflictingReservations.length > 0 || conflictingBlocks.length > 0;
 
     // If there's a conflict, suggest alternative units
     let suggestedUnits: any[] = [];
@@ -569,6 +1159,7 @@ export class ReservationsService {
               ],
             },
           },
+          blocks: { none: overlappingBlocksWhere(checkInDate, checkOutDate) },
         },
         take: 5,
       });
@@ -577,6 +1168,7 @@ export class ReservationsService {
     return {
       hasConflict,
       conflictingReservations,
+      conflictingBlocks,
       suggestedUnits,
     };
   }
@@ -0,0 +1 @@
+export * from './inventory-query.dto';
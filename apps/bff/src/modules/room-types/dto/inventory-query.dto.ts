@@ -0,0 +1,12 @@
+import { IsDateString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class InventoryQueryDto {
+  @ApiProperty({ example: '2025-03-01', description: 'First night of the range' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ example: '2025-03-31', description: 'Last night of the range (inclusive)' })
+  @IsDateString()
+  endDate: string;
+}
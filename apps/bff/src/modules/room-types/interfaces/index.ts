@@ -0,0 +1,23 @@
+export interface InventoryCell {
+  date: string;
+  total: number;
+  sold: number;
+  outOfOrder: number;
+  blocked: number;
+  available: number;
+}
+
+export interface RoomTypeInventory {
+  roomTypeId: string | null;
+  code: string | null;
+  name: string;
+  days: InventoryCell[];
+}
+
+export interface InventoryMatrix {
+  startDate: string;
+  endDate: string;
+  dates: string[];
+  roomTypes: RoomTypeInventory[];
+  totals: InventoryCell[];
+}
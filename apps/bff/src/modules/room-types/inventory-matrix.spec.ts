@@ -0,0 +1,92 @@
+import { buildInventoryMatrix, listNights } from './inventory-matrix';
+
+describe('inventory-matrix', () => {
+  const roomTypes = [
+    { id: 'rt-std', code: 'STD', name: 'Standard' },
+    { id: 'rt-ste', code: 'STE', name: 'Suite' },
+  ];
+
+  it('lists every night of the range inclusively', () => {
+    expect(listNights(new Date('2025-03-30'), new Date('2025-04-01'))).toEqual([
+      '2025-03-30',
+      '2025-03-31',
+      '2025-04-01',
+    ]);
+  });
+
+  it('counts sold nights up to but excluding the check-out date', () => {
+    const matrix = buildInventoryMatrix(
+      roomTypes,
+      [
+        { id: 'u1', roomTypeId: 'rt-std', isOutOfOrder: false },
+        { id: 'u2', roomTypeId: 'rt-std', isOutOfOrder: false },
+        { id: 'u3', roomTypeId: 'rt-ste', isOutOfOrder: false },
+      ],
+      [{ unitId: 'u1', checkInDate: new Date('2025-03-01T15:00:00Z'), checkOutDate: new Date('2025-03-03T11:00:00Z') }],
+      new Date('2025-03-01'),
+      new Date('2025-03-03'),
+    );
+
+    expect(matrix.roomTypes[0].days.map((day) => day.sold)).toEqual([1, 1, 0]);
+    expect(matrix.roomTypes[0].days.map((day) => day.available)).toEqual([1, 1, 2]);
+    expect(matrix.totals[0]).toEqual({ date: '2025-03-01', total: 3, sold: 1, outOfOrder: 0, blocked: 0, available: 2 });
+  });
+
+  it('does not double count out-of-order units that hold a stay and groups units without a room type', () => {
+    const matrix = buildInventoryMatrix(
+      roomTypes,
+      [
+        { id: 'u1', roomTypeId: 'rt-ste', isOutOfOrder: true },
+        { id: 'u2', roomTypeId: 'rt-ste', isOutOfOrder: true },
+        { id: 'u3', roomTypeId: null, isOutOfOrder: false },
+      ],
+      [{ unitId: 'u1', checkInDate: new Date('2025-03-01'), checkOutDate: new Date('2025-03-02') }],
+      new Date('2025-03-01'),
+      new Date('2025-03-01'),
+    );
+
+    expect(matrix.roomTypes[1].days[0]).toEqual({ date: '2025-03-01', total: 2, sold: 1, outOfOrder: 1, blocked: 0, available: 0 });
+    expect(matrix.roomTypes[2]).toMatchObject({ roomTypeId: null, name: 'Unassigned' });
+    expect(matrix.roomTypes[2].days[0].available).toBe(1);
+  });
+
+  it('holds unpicked block rooms without exceeding the free rooms', () => {
+    const matrix = buildInventoryMatrix(
+      roomTypes,
+      [
+        { id: 'u1', roomTypeId: 'rt-std', isOutOfOrder: false },
+        { id: 'u2', roomTypeId: 'rt-std', isOutOfOrder: false },
+        { id: 'u3', roomTypeId: 'rt-std', isOutOfOrder: false },
+      ],
+      [{ unitId: 'u1', checkInDate: new Date('2025-03-01'), checkOutDate: new Date('2025-03-02') }],
+      new Date('2025-03-01'),
+      new Date('2025-03-03'),
+      [{ roomTypeId: 'rt-std', startDate: new Date('2025-03-01'), endDate: new Date('2025-03-03'), rooms: 3 }],
+    );
+
+    expect(matrix.roomTypes[0].days.map((day) => day.blocked)).toEqual([2, 3, 0]);
+    expect(matrix.roomTypes[0].days.map((day) => day.available)).toEqual([0, 0, 3]);
+  });
+
+  it('takes units off sale only on the nights their blocks cover', () => {
+    const matrix = buildInventoryMatrix(
+      roomTypes,
+      [
+        { id: 'u1', roomTypeId: 'rt-std', isOutOfOrder: false },
+        { id: 'u2', roomTypeId: 'rt-std', isOutOfOrder: false },
+      ],
+      [{ unitId: 'u2', checkInDate: new Date('2025-03-01'), checkOutDate: new Date('2025-03-02') }],
+      new Date('2025-03-01'),
+      new Date('2025-03-04'),
+      [],
+      [
+        { unitId: 'u1', startDate: new Date('2025-03-02'), endDate: new Date('2025-03-04') },
+        { unitId: 'u2', startDate: new Date('2025-03-01'), endDate: new Date('2025-03-02') },
+      ],
+    );
+
+    expect(matrix.roomTypes[0].days.map((day) => day.outOfOrder)).toEqual([0, 1, 1, 0]);
+    expect(matrix.roomTypes[0].days.map((day) => day.sold)).toEqual([1, 0, 0, 0]);
+    expect(matrix.roomTypes[0].days.map((day) => day.available)).toEqual([1, 1, 1, 2]);
+  });
+});
@@ -0,0 +1,157 @@
+import { InventoryCell, InventoryMatrix, RoomTypeInventory } from './interfaces';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export interface InventoryRoomType {
+  id: string;
+  code: string;
+  name: string;
+}
+
+export interface InventoryUnit {
+  id: string;
+  roomTypeId: string | null;
+  isOutOfOrder: boolean;
+}
+
+/** Unpicked rooms of a group block that are still held against a room type */
+export interface InventoryHold {
+  roomTypeId: string;
+  startDate: Date;
+  endDate: Date;
+  rooms: number;
+}
+
+export interface InventoryReservation {
+  unitId: string;
+  checkInDate: Date;
+  checkOutDate: Date;
+}
+
+/** Dated out-of-order, out-of-service or owner-use block on a single unit */
+export interface InventoryUnitBlock {
+  unitId: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+export function listNights(startDate: Date, endDate: Date): string[] {
+  const start = Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), startDate.getUTCDate());
+  const end = Date.UTC(endDate.getUTCFullYear(), endDate.getUTCMonth(), endDate.getUTCDate());
+  const nights: string[] = [];
+
+  for (let time = start; time <= end; time += MS_PER_DAY) {
+    nights.push(toDateKey(new Date(time)));
+  }
+
+  return nights;
+}
+
+const nightsByUnit = (
+  stays: { unitId: string; startDate: Date; endDate: Date }[],
+  dates: string[],
+): Map<string, Set<string>> => {
+  const byUnit = new Map<string, Set<string>>();
+  for (const stay of stays) {
+    const start = toDateKey(stay.startDate);
+    const end = toDateKey(stay.endDate);
+    const nights = byUnit.get(stay.unitId) ?? new Set<string>();
+    dates.filter((date) => start <= date && date < end).forEach((date) => nights.add(date));
+    byUnit.set(stay.unitId, nights);
+  }
+  return byUnit;
+};
+
+/**
+ * Builds the night-by-room-type availability matrix. Each unit is counted once
+ * per night: a unit with a stay is sold even if it is also flagged out of
+ * order, and group holds only take rooms that are otherwise free, so
+ * `sold + outOfOrder + blocked + available` always equals `total`. Unit
+ * blocks of any type count as out of order on the nights they cover.
+ */
+export function buildInventoryMatrix(
+  roomTypes: InventoryRoomType[],
+  units: InventoryUnit[],
+  reservations: InventoryReservation[],
+  startDate: Date,
+  endDate: Date,
+  holds: InventoryHold[] = [],
+  unitBlocks: InventoryUnitBlock[] = [],
+): InventoryMatrix {
+  const dates = listNights(startDate, endDate);
+
+  const occupiedNights = nightsByUnit(
+    reservations.map((reservation) => ({
+      unitId: reservation.unitId,
+      startDate: reservation.checkInDate,
+      endDate: reservation.checkOutDate,
+    })),
+    dates,
+  );
+  const blockedNights = nightsByUnit(unitBlocks, dates);
+
+  const rows: { roomTypeId: string | null; code: string | null; name: string }[] = roomTypes.map((roomType) => ({
+    roomTypeId: roomType.id,
+    code: roomType.code,
+    name: roomType.name,
+  }));
+  const knownRoomTypes = new Set(roomTypes.map((roomType) => roomType.id));
+  const unassignedUnits = units.filter((unit) => !unit.roomTypeId || !knownRoomTypes.has(unit.roomTypeId));
+  if (unassignedUnits.length > 0) {
+    rows.push({ roomTypeId: null, code: null, name: 'Unassigned' });
+  }
+
+  const inventory: RoomTypeInventory[] = rows.map((row) => {
+    const rowUnits = row.roomTypeId
+      ? units.filter((unit) => unit.roomTypeId === row.roomTypeId)
+      : unassignedUnits;
+
+    return {
+      ...row,
+      days: dates.map((date) => {
+        let sold = 0;
+        let outOfOrder = 0;
+        for (const unit of rowUnits) {
+          if (occupiedNights.get(unit.id)?.has(date)) {
+            sold++;
+          } else if (unit.isOutOfOrder || blockedNights.get(unit.id)?.has(date)) {
+            outOfOrder++;
+          }
+        }
+        const total = rowUnits.length;
+        const held = holds
+          .filter(
+            (hold) =>
+              hold.roomTypeId === row.roomTypeId && toDateKey(hold.startDate) <= date && date < toDateKey(hold.endDate),
+          )
+          .reduce((sum, hold) => sum + hold.rooms, 0);
+        const blocked = Math.min(held, total - sold - outOfOrder);
+        return { date, total, sold, outOfOrder, blocked, available: total - sold - outOfOrder - blocked };
+      }),
+    };
+  });
+
+  const totals: InventoryCell[] = dates.map((date, index) =>
+    inventory.reduce(
+      (sum, row) => ({
+        date,
+        total: sum.total + row.days[index].total,
+        sold: sum.sold + row.days[index].sold,
+        outOfOrder: sum.outOfOrder + row.days[index].outOfOrder,
+        blocked: sum.blocked + row.days[index].blocked,
+        available: sum.available + row.days[index].available,
+      }),
+      { date, total: 0, sold: 0, outOfOrder: 0, blocked: 0, available: 0 },
+    ),
+  );
+
+  return {
+    startDate: dates[0],
+    endDate: dates[dates.length - 1],
+    dates,
+    roomTypes: inventory,
+    totals,
+  };
+}
@@ -1,4 +1,4 @@
-import { Controller, Get, Post, Patch, Delete, Body, Param, UseGuards } from '@nestjs/common';
+import { Controller, Get, Post, Patch, Delete, Body, Param, Query, UseGuards } from '@nestjs/common';
 import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
 import { RoomTypesService } from './room-types.service';
 import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
@@ -8,6 +8,7 @@ import { RequirePermission } from '../../shared/decorators/require-permission.de
 import { Audit } from '../../shared/decorators/audit.decorator';
 import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
 import { User } from '@prisma/client';
+import { InventoryQueryDto } from './dto';
 
 @ApiTags('Room Types')
 @Controller('room-types')
@@ -33,6 +34,15 @@ export class RoomTypesController {
     return CustomApiResponse.success(list, 'Room types retrieved');
   }
 
+  @Get('inventory')
+  @RequirePermission('unit_type.read.property')
+  @ApiOperation({ summary: 'Nightly inventory matrix per room type (total, sold, out of order, available)' })
+  @ApiResponse({ status: 200, description: 'Inventory retrieved successfully' })
+  async getInventory(@Query() query: InventoryQueryDto, @CurrentUser() currentUser: User) {
+    const inventory = await this.service.getInventory(query, currentUser);
+    return CustomApiResponse.success(inventory, 'Inventory retrieved');
+  }
+
   @Patch(':id')
   @RequirePermission('unit_type.update.property')
   @Audit({ action: 'UPDATE', entity: 'RoomType' })
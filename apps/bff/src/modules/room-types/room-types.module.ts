@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { RoomTypesService } from './room-types.service';
 import { RoomTypesController } from './room-types.controller';
 import { SharedModule } from '../../shared/shared.module';
+import { CancellationPoliciesModule } from '../cancellation-policies/cancellation-policies.module';
 
 @Module({
-  imports: [SharedModule],
+  imports: [SharedModule, CancellationPoliciesModule],
   controllers: [RoomTypesController],
   providers: [RoomTypesService],
 })
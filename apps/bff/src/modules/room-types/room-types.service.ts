@@ -1,11 +1,19 @@
 import { Injectable, BadRequestException, NotFoundException, ForbiddenException } from '@nestjs/common';
 import { PrismaService } from '../../shared/database/prisma.service';
+import { CancellationPoliciesService } from '../cancellation-policies/cancellation-policies.service';
 import { User } from '@prisma/client';
+import { InventoryQueryDto } from './dto';
+import { InventoryMatrix } from './interfaces';
+import { buildInventoryMatrix } from './inventory-matrix';
+import { overlappingBlocksWhere } from '@staffnbdt/shared';
+
+const MAX_INVENTORY_DAYS = 93;
 
 @Injectable()
 export class RoomTypesService {
   constructor(
     private readonly prisma: PrismaService,
+    private readonly cancellationPoliciesService: CancellationPoliciesService,
   ) {}
 
   async create(dto: any, currentUser: User) {
@@ -30,6 +38,11 @@ export class RoomTypesService {
       propertyId,
     };
 
+    if (dto.cancellationPolicyId) {
+      await this.cancellationPoliciesService.assertAssignable(dto.cancellationPolicyId, currentUser);
+      dataWithTenant.cancellationPolicyId = dto.cancellationPolicyId;
+    }
+
     // Unique per property
     const exists = await this.prisma.roomType.findFirst({
       where: {
@@ -58,6 +71,99 @@ export class RoomTypesService {
     });
   }
 
+  /**
+   * Night-by-night sellable inventory per room type. Reservations that are
+   * checked out still hold their past nights so the grid reflects history;
+   * unpicked group block rooms are held until the block is released.
+   */
+  async getInventory(query: InventoryQueryDto, currentUser: User): Promise<InventoryMatrix> {
+    const propertyId = (currentUser as any).propertyId;
+    if (!propertyId) {
+      throw new ForbiddenException('Tenant context missing. Select a property and try again.');
+    }
+
+    const startDate = new Date(query.startDate);
+    const endDate = new Date(query.endDate);
+    if (startDate > endDate) {
+      throw new BadRequestException('End date must not be before start date');
+    }
+    const days = Math.round((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+    if (days > MAX_INVENTORY_DAYS) {
+      throw new BadRequestException(`Inventory range cannot exceed ${MAX_INVENTORY_DAYS} days`);
+    }
+    // Exclusive upper bound so stays arriving on the last night are included
+    const rangeEnd = new Date(endDate.getTime() + 1000 * 60 * 60 * 24);
+
+    const [roomTypes, units] = await Promise.all([
+      this.prisma.roomType.findMany({
+        where: { propertyId, isActive: true },
+        select: { id: true, code: true, name: true },
+        orderBy: { name: 'asc' },
+      }),
+      this.prisma.unit.findMany({
+        where: { propertyId, isActive: true, deletedAt: null },
+        select: {
+          id: true,
+          roomTypeId: true,
+          status: true,
+          blocks: { where: { releasedAt: null, appliedAt: { not: null } }, select: { id: true } },
+        },
+      }),
+    ]);
+
+    // Blocks count until released; the release date itself still holds rooms
+    const startOfToday = new Date(new Date().toISOString().split('T')[0]);
+    const blocks = await this.prisma.roomBlock.findMany({
+      where: {
+        roomType: { propertyId },
+        releasedAt: null,
+        releaseDate: { gte: startOfToday },
+        startDate: { lt: rangeEnd },
+        endDate: { gt: startDate },
+      },
+      include: {
+        _count: {
+          select: { reservations: { where: { status: { notIn: ['CANCELLED', 'NO_SHOW'] } } } },
+        },
+      },
+    });
+
+    const reservations = await this.prisma.reservation.findMany({
+      where: {
+        propertyId,
+        status: { in: ['CONFIRMED', 'CHECKED_IN', 'CHECKED_OUT'] },
+        checkInDate: { lt: rangeEnd },
+        checkOutDate: { gt: startDate },
+      },
+      select: { unitId: true, checkInDate: true, checkOutDate: true },
+    });
+
+    const unitBlocks = await this.prisma.unitBlock.findMany({
+      where: { propertyId, ...overlappingBlocksWhere(startDate, rangeEnd) },
+      select: { unitId: true, startDate: true, endDate: true },
+    });
+
+    return buildInventoryMatrix(
+      roomTypes,
+      units.map((unit) => ({
+        id: unit.id,
+        roomTypeId: unit.roomTypeId,
+        // A status set by a running block only applies on the block's own nights
+        isOutOfOrder: (unit.status === 'OUT_OF_ORDER' || unit.status === 'MAINTENANCE') && unit.blocks.length === 0,
+      })),
+      reservations,
+      startDate,
+      endDate,
+      blocks.map((block) => ({
+        roomTypeId: block.roomTypeId,
+        startDate: block.startDate,
+        endDate: block.endDate,
+        rooms: Math.max(0, block.roomsBlocked - block._count.reservations),
+      })),
+      unitBlocks,
+    );
+  }
+
   async update(id: string, dto: any, currentUser: User) {
     // Ensure belongs to tenant
     const rt = await this.prisma.roomType.findUnique({ where: { id } });
@@ -73,6 +179,12 @@ export class RoomTypesService {
     if (dto.maxCapacity !== undefined) data.maxCapacity = dto.maxCapacity;
     if (dto.amenities !== undefined) data.amenities = Array.isArray(dto.amenities) ? dto.amenities : [];
     if (dto.isActive !== undefined) data.isActive = dto.isActive;
+    if (dto.cancellationPolicyId !== undefined) {
+      if (dto.cancellationPolicyId) {
+        await this.cancellationPoliciesService.assertAssignable(dto.cancellationPolicyId, currentUser);
+      }
+      data.cancellationPolicyId = dto.cancellationPolicyId || null;
+    }
 
     return this.prisma.roomType.update({ where: { id }, data });
   }
@@ -0,0 +1,3 @@
+export * from './shift-template.dto';
+export * from './roster.dto';
+export * from './shift-swap.dto';
\ No newline at end of file
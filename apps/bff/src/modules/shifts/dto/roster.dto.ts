@@ -0,0 +1,111 @@
+import { IsDateString, IsInt, IsOptional, IsString, Matches, Max, MaxLength, Min, ValidateIf } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+const TIME_FORMAT = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class RosterQueryDto {
+  @ApiProperty({ example: 'dept-123' })
+  @IsString()
+  departmentId: string;
+
+  @ApiProperty({ example: '2025-09-01', description: 'Any day of the week; rosters start on Monday' })
+  @IsDateString()
+  weekStart: string;
+}
+
+export class CreateRosterDto extends RosterQueryDto {}
+
+export class CreateShiftDto {
+  @ApiPropertyOptional({ example: 'template-123', description: 'Copies the times, break and position' })
+  @IsOptional()
+  @IsString()
+  templateId?: string;
+
+  @ApiPropertyOptional({ example: 'user-123', description: 'Omit to leave the shift open' })
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @ApiProperty({ example: '2025-09-02' })
+  @IsDateString()
+  date: string;
+
+  @ApiPropertyOptional({ example: '07:00', description: 'Required without a template' })
+  @ValidateIf((shift) => !shift.templateId || shift.startTime !== undefined)
+  @Matches(TIME_FORMAT, { message: 'startTime must be in HH:mm format' })
+  startTime?: string;
+
+  @ApiPropertyOptional({ example: '15:00', description: 'Required without a template' })
+  @ValidateIf((shift) => !shift.templateId || shift.endTime !== undefined)
+  @Matches(TIME_FORMAT, { message: 'endTime must be in HH:mm format' })
+  endTime?: string;
+
+  @ApiPropertyOptional({ example: 30 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  breakMinutes?: number;
+
+  @ApiPropertyOptional({ example: 'Front Desk Agent' })
+  @IsOptional()
+  @IsString()
+  position?: string;
+
+  @ApiPropertyOptional({ example: 'Covers the airport pickup' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+/** Moving a shift to another person or day, as when it is dragged on the roster */
+export class UpdateShiftDto {
+  @ApiPropertyOptional({ example: 'user-123', nullable: true, description: 'Null leaves the shift open' })
+  @ValidateIf((shift) => shift.userId !== undefined && shift.userId !== null)
+  @IsString()
+  userId?: string | null;
+
+  @ApiPropertyOptional({ example: '2025-09-03' })
+  @IsOptional()
+  @IsDateString()
+  date?: string;
+
+  @ApiPropertyOptional({ example: '07:00' })
+  @IsOptional()
+  @Matches(TIME_FORMAT, { message: 'startTime must be in HH:mm format' })
+  startTime?: string;
+
+  @ApiPropertyOptional({ example: '15:00' })
+  @IsOptional()
+  @Matches(TIME_FORMAT, { message: 'endTime must be in HH:mm format' })
+  endTime?: string;
+
+  @ApiPropertyOptional({ example: 30 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  breakMinutes?: number;
+
+  @ApiPropertyOptional({ example: 'Front Desk Agent' })
+  @IsOptional()
+  @IsString()
+  position?: string;
+
+  @ApiPropertyOptional({ example: 'Covers the airport pickup' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export class MyShiftsQueryDto {
+  @ApiProperty({ example: '2025-09-01' })
+  @IsDateString()
+  from: string;
+
+  @ApiProperty({ example: '2025-09-30' })
+  @IsDateString()
+  to: string;
+}
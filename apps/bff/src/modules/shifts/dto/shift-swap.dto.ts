@@ -0,0 +1,31 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateShiftSwapDto {
+  @ApiProperty({ example: 'shift-123', description: 'One of your published shifts' })
+  @IsString()
+  shiftId: string;
+
+  @ApiProperty({ example: 'user-456', description: 'The colleague who would work it' })
+  @IsString()
+  targetUserId: string;
+
+  @ApiPropertyOptional({ example: 'shift-456', description: "The colleague's shift you would work in return" })
+  @IsOptional()
+  @IsString()
+  targetShiftId?: string;
+
+  @ApiPropertyOptional({ example: 'Family event' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class ShiftSwapDecisionDto {
+  @ApiPropertyOptional({ example: 'Both of you are trained for nights' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  comment?: string;
+}
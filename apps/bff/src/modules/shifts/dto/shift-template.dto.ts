@@ -0,0 +1,47 @@
+import { IsBoolean, IsInt, IsOptional, IsString, Matches, Max, MaxLength, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, OmitType, PartialType } from '@nestjs/swagger';
+
+const TIME_FORMAT = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class CreateShiftTemplateDto {
+  @ApiProperty({ example: 'dept-123' })
+  @IsString()
+  departmentId: string;
+
+  @ApiProperty({ example: 'Morning' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ example: '07:00', description: 'Local time (HH:mm) at the property' })
+  @Matches(TIME_FORMAT, { message: 'startTime must be in HH:mm format' })
+  startTime: string;
+
+  @ApiProperty({ example: '15:00', description: 'At or before startTime for shifts that end the next day' })
+  @Matches(TIME_FORMAT, { message: 'endTime must be in HH:mm format' })
+  endTime: string;
+
+  @ApiPropertyOptional({ example: 30, description: 'Unpaid break in minutes' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  breakMinutes?: number;
+
+  @ApiPropertyOptional({ example: 'Front Desk Agent' })
+  @IsOptional()
+  @IsString()
+  position?: string;
+
+  @ApiPropertyOptional({ example: '#4f9d69' })
+  @IsOptional()
+  @Matches(/^#[0-9a-fA-F]{6}$/, { message: 'color must be a hex color such as #4f9d69' })
+  color?: string;
+}
+
+export class UpdateShiftTemplateDto extends PartialType(OmitType(CreateShiftTemplateDto, ['departmentId'] as const)) {
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
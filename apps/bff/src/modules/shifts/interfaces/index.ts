@@ -0,0 +1,44 @@
+import { Roster, Shift, ShiftSwapRequest } from '@prisma/client';
+import { ShiftConflict } from '../shift-rules';
+
+type Person = { id: string; firstName: string; lastName: string };
+
+export interface RosterShift extends Shift {
+  user: Person | null;
+  template: { id: string; name: string; color: string | null } | null;
+}
+
+export interface RosterView extends Roster {
+  department: { id: string; name: string };
+  shifts: RosterShift[];
+  // The department's staff, the rows of the roster
+  staff: (Person & { position: string | null })[];
+  // Keyed by shift id; shifts without conflicts are left out
+  conflicts: Record<string, ShiftConflict[]>;
+  maxWeeklyHours: number;
+}
+
+export interface ShiftAssignment {
+  shift: RosterShift;
+  // Warnings only; blocking conflicts reject the change
+  conflicts: ShiftConflict[];
+}
+
+export interface RosterPublication {
+  roster: RosterView;
+  notifiedCount: number;
+  warnings: string[];
+}
+
+// Someone the current user can swap with, and the published shifts they could swap
+export interface Colleague extends Person {
+  position: string | null;
+  shifts: Pick<Shift, 'id' | 'date' | 'startTime' | 'endTime'>[];
+}
+
+export interface ShiftSwapWithShifts extends ShiftSwapRequest {
+  shift: Shift & { roster: { propertyId: string; departmentId: string } };
+  targetShift: Shift | null;
+  requester: Person;
+  targetUser: Person;
+}
@@ -0,0 +1,94 @@
+import { Controller, Get, Post, Body, Patch, Param, Delete, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { Role, User } from '@prisma/client';
+import { RostersService } from './rosters.service';
+import { CreateRosterDto, CreateShiftDto, MyShiftsQueryDto, RosterQueryDto, UpdateShiftDto } from './dto';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../shared/guards/roles.guard';
+import { Roles } from '../../shared/decorators/roles.decorator';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+import { ShiftAssignment } from './interfaces';
+
+const assignmentMessage = (assignment: ShiftAssignment, action: string) =>
+  assignment.conflicts.length > 0
+    ? `Shift ${action} with warnings: ${assignment.conflicts.map((conflict) => conflict.message).join('; ')}`
+    : `Shift ${action} successfully`;
+
+@ApiTags('Shifts')
+@Controller('rosters')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class RostersController {
+  constructor(private readonly rostersService: RostersService) {}
+
+  @Get()
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER, Role.DEPARTMENT_ADMIN)
+  @ApiOperation({ summary: "Get a department's roster for a week, with its conflicts" })
+  async findOne(@Query() query: RosterQueryDto, @CurrentUser() currentUser: User) {
+    const roster = await this.rostersService.findRoster(query, currentUser);
+    return CustomApiResponse.success(roster, 'Roster retrieved successfully');
+  }
+
+  @Get('my-shifts')
+  @ApiOperation({ summary: 'Get my shifts on published rosters' })
+  async findMyShifts(@Query() query: MyShiftsQueryDto, @CurrentUser() currentUser: User) {
+    const shifts = await this.rostersService.findMyShifts(query, currentUser);
+    return CustomApiResponse.success(shifts, 'Shifts retrieved successfully');
+  }
+
+  @Get('colleagues')
+  @ApiOperation({ summary: 'Get the people in my department I can swap shifts with' })
+  async findColleagues(@CurrentUser() currentUser: User) {
+    const colleagues = await this.rostersService.findColleagues(currentUser);
+    return CustomApiResponse.success(colleagues, 'Colleagues retrieved successfully');
+  }
+
+  @Post()
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER, Role.DEPARTMENT_ADMIN)
+  @ApiOperation({ summary: 'Start a draft roster for a department and week' })
+  async create(@Body() createDto: CreateRosterDto, @CurrentUser() currentUser: User) {
+    const roster = await this.rostersService.createRoster(createDto, currentUser);
+    return CustomApiResponse.success(roster, 'Roster created successfully');
+  }
+
+  @Post(':id/publish')
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER, Role.DEPARTMENT_ADMIN)
+  @ApiOperation({ summary: 'Publish roster and notify the staff on it' })
+  async publish(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    const publication = await this.rostersService.publish(id, currentUser);
+    const message =
+      publication.warnings.length > 0
+        ? `Roster published with warnings: ${publication.warnings.join('; ')}`
+        : 'Roster published successfully';
+    return CustomApiResponse.success(publication, message);
+  }
+
+  @Post(':id/shifts')
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER, Role.DEPARTMENT_ADMIN)
+  @ApiOperation({ summary: 'Add shift to roster' })
+  async addShift(@Param('id') id: string, @Body() createDto: CreateShiftDto, @CurrentUser() currentUser: User) {
+    const assignment = await this.rostersService.addShift(id, createDto, currentUser);
+    return CustomApiResponse.success(assignment, assignmentMessage(assignment, 'added'));
+  }
+
+  @Patch('shifts/:shiftId')
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER, Role.DEPARTMENT_ADMIN)
+  @ApiOperation({ summary: 'Move or change shift' })
+  async updateShift(
+    @Param('shiftId') shiftId: string,
+    @Body() updateDto: UpdateShiftDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const assignment = await this.rostersService.updateShift(shiftId, updateDto, currentUser);
+    return CustomApiResponse.success(assignment, assignmentMessage(assignment, 'updated'));
+  }
+
+  @Delete('shifts/:shiftId')
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER, Role.DEPARTMENT_ADMIN)
+  @ApiOperation({ summary: 'Remove shift' })
+  async removeShift(@Param('shiftId') shiftId: string, @CurrentUser() currentUser: User) {
+    await this.rostersService.removeShift(shiftId, currentUser);
+    return CustomApiResponse.success(null, 'Shift deleted successfully');
+  }
+}
@@ -0,0 +1,495 @@
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException, ConflictException } from '@nestjs/common';
+import { Prisma, Roster, RosterStatus, Role, Shift, User, VacationStatus } from '@prisma/client';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { CreateRosterDto, CreateShiftDto, MyShiftsQueryDto, RosterQueryDto, UpdateShiftDto } from './dto';
+import { Colleague, RosterPublication, RosterShift, RosterView, ShiftAssignment } from './interfaces';
+import { RosteredShift, ShiftConflict, shiftConflicts, weekStartOf } from './shift-rules';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const shiftInclude = {
+  user: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  template: {
+    select: {
+      id: true,
+      name: true,
+      color: true,
+    },
+  },
+} satisfies Prisma.ShiftInclude;
+
+type RosterWithLimits = Roster & {
+  department: { id: string; name: string; maxWeeklyHours: number | null };
+  property: { maxWeeklyHours: number };
+};
+
+export type ProposedShift = RosteredShift & { userId: string | null };
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+@Injectable()
+export class RostersService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  /** The department's roster for the week containing weekStart, or null when none was started */
+  async findRoster(query: RosterQueryDto, currentUser: User): Promise<RosterView | null> {
+    this.assertDepartmentAccess(currentUser, query.departmentId);
+
+    const roster = await this.prisma.roster.findUnique({
+      where: {
+        departmentId_weekStart: {
+          departmentId: query.departmentId,
+          weekStart: weekStartOf(new Date(query.weekStart)),
+        },
+      },
+      include: this.rosterInclude(),
+    });
+    if (!roster || roster.propertyId !== currentUser.propertyId) {
+      return null;
+    }
+
+    return this.toView(roster);
+  }
+
+  async createRoster(createDto: CreateRosterDto, currentUser: User): Promise<RosterView> {
+    this.assertDepartmentAccess(currentUser, createDto.departmentId);
+    const department = await this.prisma.department.findFirst({
+      where: { id: createDto.departmentId, propertyId: currentUser.propertyId! },
+    });
+    if (!department) {
+      throw new NotFoundException('Department not found');
+    }
+
+    const weekStart = weekStartOf(new Date(createDto.weekStart));
+    const existing = await this.prisma.roster.findUnique({
+      where: { departmentId_weekStart: { departmentId: department.id, weekStart } },
+    });
+    if (existing) {
+      throw new ConflictException(`${department.name} already has a roster for the week of ${toDateKey(weekStart)}`);
+    }
+
+    const roster = await this.prisma.roster.create({
+      data: {
+        propertyId: currentUser.propertyId!,
+        departmentId: department.id,
+        weekStart,
+      },
+      include: this.rosterInclude(),
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'Roster', roster.id, roster);
+
+    return this.toView(roster);
+  }
+
+  /**
+   * Adds a shift, from a template or with its own times. Assigning someone on
+   * approved leave or already working at that time is refused.
+   */
+  async addShift(rosterId: string, createDto: CreateShiftDto, currentUser: User): Promise<ShiftAssignment> {
+    const roster = await this.findRosterWithLimits(rosterId, currentUser);
+    const date = new Date(createDto.date);
+    this.assertWithinWeek(roster, date);
+
+    const template = createDto.templateId
+      ? await this.prisma.shiftTemplate.findFirst({
+          where: { id: createDto.templateId, departmentId: roster.departmentId, isActive: true },
+        })
+      : null;
+    if (createDto.templateId && !template) {
+      throw new NotFoundException('Shift template not found');
+    }
+    if (createDto.userId) {
+      await this.findStaffMember(createDto.userId, currentUser);
+    }
+
+    const proposed: ProposedShift = {
+      id: 'new',
+      userId: createDto.userId ?? null,
+      date,
+      startTime: createDto.startTime ?? template!.startTime,
+      endTime: createDto.endTime ?? template!.endTime,
+      breakMinutes: createDto.breakMinutes ?? template?.breakMinutes ?? 0,
+    };
+    const conflicts = await this.assertAssignable(proposed, this.maxWeeklyHours(roster));
+
+    const shift = await this.prisma.shift.create({
+      data: {
+        rosterId,
+        templateId: template?.id,
+        userId: proposed.userId,
+        date,
+        startTime: proposed.startTime,
+        endTime: proposed.endTime,
+        breakMinutes: proposed.breakMinutes,
+        position: createDto.position ?? template?.position,
+        notes: createDto.notes,
+      },
+      include: shiftInclude,
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'Shift', shift.id, shift);
+
+    if (roster.status === RosterStatus.PUBLISHED && shift.userId) {
+      await this.notifyShiftChange(roster, shift.userId, `You have a new shift: ${this.describeShift(shift)}`);
+    }
+
+    return { shift, conflicts };
+  }
+
+  /** Moves a shift to another person, day or time; staff already notified of the roster hear about it */
+  async updateShift(shiftId: string, updateDto: UpdateShiftDto, currentUser: User): Promise<ShiftAssignment> {
+    const existing = await this.findShift(shiftId, currentUser);
+    const roster = await this.findRosterWithLimits(existing.rosterId, currentUser);
+    const date = updateDto.date ? new Date(updateDto.date) : existing.date;
+    this.assertWithinWeek(roster, date);
+    if (updateDto.userId) {
+      await this.findStaffMember(updateDto.userId, currentUser);
+    }
+
+    const proposed: ProposedShift = {
+      id: existing.id,
+      userId: updateDto.userId !== undefined ? updateDto.userId : existing.userId,
+      date,
+      startTime: updateDto.startTime ?? existing.startTime,
+      endTime: updateDto.endTime ?? existing.endTime,
+      breakMinutes: updateDto.breakMinutes ?? existing.breakMinutes,
+    };
+    const conflicts = await this.assertAssignable(proposed, this.maxWeeklyHours(roster));
+
+    const shift = await this.prisma.shift.update({
+      where: { id: shiftId },
+      data: {
+        userId: proposed.userId,
+        date,
+        startTime: proposed.startTime,
+        endTime: proposed.endTime,
+        breakMinutes: proposed.breakMinutes,
+        position: updateDto.position,
+        notes: updateDto.notes,
+      },
+      include: shiftInclude,
+    });
+
+    await this.auditService.logUpdate(currentUser.id, 'Shift', shiftId, existing, shift);
+
+    if (roster.status === RosterStatus.PUBLISHED) {
+      if (existing.userId && existing.userId !== shift.userId) {
+        await this.notifyShiftChange(roster, existing.userId, `Your shift on ${this.describeShift(existing)} was reassigned`);
+      }
+      if (shift.userId) {
+        await this.notifyShiftChange(roster, shift.userId, `Your shift changed: ${this.describeShift(shift)}`);
+      }
+    }
+
+    return { shift, conflicts };
+  }
+
+  async removeShift(shiftId: string, currentUser: User): Promise<void> {
+    const shift = await this.findShift(shiftId, currentUser);
+    const roster = await this.findRosterWithLimits(shift.rosterId, currentUser);
+
+    await this.prisma.shift.delete({ where: { id: shiftId } });
+
+    await this.auditService.logDelete(currentUser.id, 'Shift', shiftId, shift);
+
+    if (roster.status === RosterStatus.PUBLISHED && shift.userId) {
+      await this.notifyShiftChange(roster, shift.userId, `Your shift on ${this.describeShift(shift)} was removed`);
+    }
+  }
+
+  /**
+   * Makes the roster visible to staff and tells everyone rostered. Conflicts
+   * that arose since the shifts were assigned, such as leave approved later,
+   * have to be resolved first; hours over the limit are returned as warnings.
+   */
+  async publish(rosterId: string, currentUser: User): Promise<RosterPublication> {
+    const roster = await this.findRosterWithLimits(rosterId, currentUser);
+    if (roster.status === RosterStatus.PUBLISHED) {
+      throw new BadRequestException('This roster is already published');
+    }
+
+    const shifts = await this.prisma.shift.findMany({ where: { rosterId }, include: shiftInclude });
+    const conflicts = await this.checkAssignments(shifts, this.maxWeeklyHours(roster));
+    const blocking = shifts.flatMap((shift) =>
+      (conflicts[shift.id] ?? [])
+        .filter((conflict) => conflict.blocking)
+        .map((conflict) => `${shift.user!.firstName} ${shift.user!.lastName} on ${toDateKey(shift.date)}: ${conflict.message}`),
+    );
+    if (blocking.length > 0) {
+      throw new BadRequestException(`Resolve these conflicts before publishing: ${blocking.join('; ')}`);
+    }
+
+    const publishedRoster = await this.prisma.roster.update({
+      where: { id: rosterId },
+      data: {
+        status: RosterStatus.PUBLISHED,
+        publishedAt: new Date(),
+        publishedBy: currentUser.id,
+      },
+      include: this.rosterInclude(),
+    });
+
+    await this.auditService.logUpdate(currentUser.id, 'Roster', rosterId, roster, publishedRoster);
+
+    const shiftsByUser = new Map<string, number>();
+    shifts
+      .filter((shift) => shift.userId)
+      .forEach((shift) => shiftsByUser.set(shift.userId!, (shiftsByUser.get(shift.userId!) ?? 0) + 1));
+    for (const [userId, count] of shiftsByUser) {
+      await this.notificationsService.createNotification({
+        userId,
+        propertyId: roster.propertyId,
+        type: 'ROSTER_PUBLISHED',
+        title: `${roster.department.name} roster published`,
+        message: `You have ${count} shift${count === 1 ? '' : 's'} in the week of ${toDateKey(roster.weekStart)}.`,
+        data: { rosterId, weekStart: toDateKey(roster.weekStart) },
+      });
+    }
+
+    const view = await this.toView(publishedRoster);
+    const warnings = Object.values(view.conflicts)
+      .flat()
+      .map((conflict) => conflict.message);
+
+    return { roster: view, notifiedCount: shiftsByUser.size, warnings: [...new Set(warnings)] };
+  }
+
+  /** The current user's shifts on published rosters */
+  async findMyShifts(query: MyShiftsQueryDto, currentUser: User): Promise<RosterShift[]> {
+    return this.prisma.shift.findMany({
+      where: {
+        userId: currentUser.id,
+        date: { gte: new Date(query.from), lte: new Date(query.to) },
+        roster: { status: RosterStatus.PUBLISHED },
+      },
+      include: shiftInclude,
+      orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
+    });
+  }
+
+  /** People in the current user's department, who they can ask to swap with, and their upcoming shifts */
+  async findColleagues(currentUser: User): Promise<Colleague[]> {
+    if (!currentUser.departmentId) {
+      return [];
+    }
+
+    return this.prisma.user.findMany({
+      where: { departmentId: currentUser.departmentId, deletedAt: null, id: { not: currentUser.id } },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        position: true,
+        shifts: {
+          where: {
+            date: { gte: new Date(toDateKey(new Date())) },
+            roster: { status: RosterStatus.PUBLISHED },
+          },
+          select: {
+            id: true,
+            date: true,
+            startTime: true,
+            endTime: true,
+          },
+          orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
+        },
+      },
+      orderBy: [{ firstName: 'asc' }, { lastName: 'asc' }],
+    });
+  }
+
+  /**
+   * Conflicts for shifts as they would be assigned, keyed by shift id. The
+   * shifts are checked against each other and every other shift the people
+   * work, whichever roster it is on, so swaps can be checked before they happen.
+   */
+  async checkAssignments(proposed: ProposedShift[], maxWeeklyHours: number): Promise<Record<string, ShiftConflict[]>> {
+    const assigned = proposed.filter((shift) => shift.userId);
+    if (assigned.length === 0) {
+      return {};
+    }
+
+    const userIds = [...new Set(assigned.map((shift) => shift.userId!))];
+    const dates = assigned.map((shift) => weekStartOf(shift.date).getTime());
+    // A day either side catches overnight shifts running across the week boundary
+    const from = new Date(Math.min(...dates) - DAY_MS);
+    const to = new Date(Math.max(...dates) + 7 * DAY_MS);
+    const proposedIds = new Set(proposed.map((shift) => shift.id));
+
+    const [shifts, vacations] = await Promise.all([
+      this.prisma.shift.findMany({
+        where: { userId: { in: userIds }, date: { gte: from, lte: to }, id: { notIn: [...proposedIds] } },
+      }),
+      this.prisma.vacation.findMany({
+        where: {
+          userId: { in: userIds },
+          status: VacationStatus.APPROVED,
+          startDate: { lte: to },
+          endDate: { gte: from },
+        },
+      }),
+    ]);
+
+    const conflicts: Record<string, ShiftConflict[]> = {};
+    for (const shift of assigned) {
+      const found = shiftConflicts(shift, {
+        shifts: [...shifts, ...assigned].filter((other) => other.userId === shift.userId),
+        leave: vacations.filter((vacation) => vacation.userId === shift.userId),
+        maxWeeklyHours,
+      });
+      if (found.length > 0) {
+        conflicts[shift.id] = found;
+      }
+    }
+    return conflicts;
+  }
+
+  /** The hours limit for the department of a shift's roster */
+  async maxWeeklyHoursFor(shift: Shift): Promise<number> {
+    const roster = await this.prisma.roster.findUniqueOrThrow({
+      where: { id: shift.rosterId },
+      include: {
+        department: { select: { maxWeeklyHours: true } },
+        property: { select: { maxWeeklyHours: true } },
+      },
+    });
+    return roster.department.maxWeeklyHours ?? roster.property.maxWeeklyHours;
+  }
+
+  private async assertAssignable(shift: ProposedShift, maxWeeklyHours: number): Promise<ShiftConflict[]> {
+    const conflicts = (await this.checkAssignments([shift], maxWeeklyHours))[shift.id] ?? [];
+    const blocking = conflicts.filter((conflict) => conflict.blocking);
+    if (blocking.length > 0) {
+      throw new BadRequestException(blocking.map((conflict) => conflict.message).join('; '));
+    }
+    return conflicts;
+  }
+
+  private async toView(roster: RosterWithLimits & { shifts: RosterShift[] }): Promise<RosterView> {
+    const maxWeeklyHours = this.maxWeeklyHours(roster);
+    const [staff, conflicts] = await Promise.all([
+      this.prisma.user.findMany({
+        where: { departmentId: roster.departmentId, deletedAt: null },
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          position: true,
+        },
+        orderBy: [{ firstName: 'asc' }, { lastName: 'asc' }],
+      }),
+      this.checkAssignments(roster.shifts, maxWeeklyHours),
+    ]);
+
+    const { property: _property, ...rest } = roster;
+    return {
+      ...rest,
+      department: { id: roster.department.id, name: roster.department.name },
+      staff,
+      conflicts,
+      maxWeeklyHours,
+    };
+  }
+
+  private rosterInclude() {
+    return {
+      department: {
+        select: {
+          id: true,
+          name: true,
+          maxWeeklyHours: true,
+        },
+      },
+      property: { select: { maxWeeklyHours: true } },
+      shifts: {
+        include: shiftInclude,
+        orderBy: [{ date: 'asc' as const }, { startTime: 'asc' as const }],
+      },
+    };
+  }
+
+  private maxWeeklyHours(roster: RosterWithLimits): number {
+    return roster.department.maxWeeklyHours ?? roster.property.maxWeeklyHours;
+  }
+
+  private async findRosterWithLimits(id: string, currentUser: User): Promise<RosterWithLimits> {
+    const roster = await this.prisma.roster.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+      include: {
+        department: {
+          select: {
+            id: true,
+            name: true,
+            maxWeeklyHours: true,
+          },
+        },
+        property: { select: { maxWeeklyHours: true } },
+      },
+    });
+    if (!roster) {
+      throw new NotFoundException('Roster not found');
+    }
+    this.assertDepartmentAccess(currentUser, roster.departmentId);
+    return roster;
+  }
+
+  private async findShift(id: string, currentUser: User): Promise<Shift> {
+    const shift = await this.prisma.shift.findFirst({
+      where: { id, roster: { propertyId: currentUser.propertyId! } },
+    });
+    if (!shift) {
+      throw new NotFoundException('Shift not found');
+    }
+    return shift;
+  }
+
+  private async findStaffMember(userId: string, currentUser: User): Promise<void> {
+    const user = await this.prisma.user.findFirst({
+      where: { id: userId, propertyId: currentUser.propertyId!, deletedAt: null },
+    });
+    if (!user) {
+      throw new NotFoundException('Staff member not found');
+    }
+  }
+
+  private assertWithinWeek(roster: Roster, date: Date): void {
+    if (weekStartOf(date).getTime() !== roster.weekStart.getTime()) {
+      throw new BadRequestException(`The shift must fall in the week of ${toDateKey(roster.weekStart)}`);
+    }
+  }
+
+  /** Department admins only schedule their own department */
+  private assertDepartmentAccess(currentUser: User, departmentId: string): void {
+    if (currentUser.role === Role.DEPARTMENT_ADMIN && departmentId !== currentUser.departmentId) {
+      throw new ForbiddenException('Cannot access rosters of other departments');
+    }
+  }
+
+  private describeShift(shift: Pick<Shift, 'date' | 'startTime' | 'endTime'>): string {
+    return `${toDateKey(shift.date)} ${shift.startTime}-${shift.endTime}`;
+  }
+
+  private async notifyShiftChange(roster: Roster, userId: string, message: string): Promise<void> {
+    await this.notificationsService.createNotification({
+      userId,
+      propertyId: roster.propertyId,
+      type: 'SHIFT_CHANGED',
+      title: 'Your roster changed',
+      message,
+      data: { rosterId: roster.id, weekStart: toDateKey(roster.weekStart) },
+    });
+  }
+}
@@ -0,0 +1,69 @@
+import { RosteredShift, shiftConflicts, shiftHours, weekStartOf } from './shift-rules';
+
+describe('shift rules', () => {
+  const shift = (id: string, date: string, startTime: string, endTime: string, breakMinutes = 30): RosteredShift => ({
+    id,
+    date: new Date(date),
+    startTime,
+    endTime,
+    breakMinutes,
+  });
+
+  it('counts worked hours after the break, including overnight shifts', () => {
+    expect(shiftHours(shift('day', '2025-09-01', '07:00', '15:00'))).toBe(7.5);
+    expect(shiftHours(shift('night', '2025-09-01', '23:00', '07:00', 0))).toBe(8);
+  });
+
+  it('starts weeks on Monday', () => {
+    expect(weekStartOf(new Date('2025-09-07')).toISOString()).toBe('2025-09-01T00:00:00.000Z');
+    expect(weekStartOf(new Date('2025-09-01')).toISOString()).toBe('2025-09-01T00:00:00.000Z');
+  });
+
+  it('blocks shifts during approved leave', () => {
+    const [conflict] = shiftConflicts(shift('new', '2025-09-03', '07:00', '15:00'), {
+      shifts: [],
+      leave: [{ startDate: new Date('2025-09-02'), endDate: new Date('2025-09-04') }],
+      maxWeeklyHours: 48,
+    });
+
+    expect(conflict).toEqual({
+      kind: 'LEAVE',
+      blocking: true,
+      message: 'On approved leave from 2025-09-02 to 2025-09-04',
+    });
+  });
+
+  it('blocks shifts that overlap another, across midnight', () => {
+    const conflicts = shiftConflicts(shift('early', '2025-09-02', '06:00', '14:00'), {
+      shifts: [shift('night', '2025-09-01', '22:00', '07:00')],
+      leave: [],
+      maxWeeklyHours: 48,
+    });
+
+    expect(conflicts.map((conflict) => conflict.kind)).toEqual(['OVERLAP']);
+    expect(shiftConflicts(shift('late', '2025-09-02', '07:00', '15:00'), {
+      shifts: [shift('night', '2025-09-01', '22:00', '07:00')],
+      leave: [],
+      maxWeeklyHours: 48,
+    })).toEqual([]);
+  });
+
+  it('warns when the week goes over the hours limit', () => {
+    const week = ['2025-09-01', '2025-09-02', '2025-09-03', '2025-09-04', '2025-09-05'].map((date) =>
+      shift(date, date, '07:00', '17:00'),
+    );
+    const conflicts = shiftConflicts(shift('saturday', '2025-09-06', '07:00', '12:00', 0), {
+      shifts: [...week, shift('next-week', '2025-09-08', '07:00', '17:00')],
+      leave: [],
+      maxWeeklyHours: 48,
+    });
+
+    expect(conflicts).toEqual([
+      {
+        kind: 'MAX_HOURS',
+        blocking: false,
+        message: '52.5 hours rostered in the week of 2025-09-01, over the limit of 48',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+import { Shift } from '@prisma/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+export type ShiftTimes = Pick<Shift, 'date' | 'startTime' | 'endTime' | 'breakMinutes'>;
+
+export interface RosteredShift extends ShiftTimes {
+  id: string;
+}
+
+export interface LeavePeriod {
+  startDate: Date;
+  endDate: Date;
+}
+
+export type ShiftConflictKind = 'LEAVE' | 'OVERLAP' | 'MAX_HOURS';
+
+export interface ShiftConflict {
+  kind: ShiftConflictKind;
+  // Blocking conflicts stop an assignment or a publish; the rest are warnings
+  blocking: boolean;
+  message: string;
+}
+
+export interface ConflictContext {
+  // The person's other shifts, at least those in the same week
+  shifts: RosteredShift[];
+  // The person's approved leave
+  leave: LeavePeriod[];
+  maxWeeklyHours: number;
+}
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+/** Minutes after midnight for an HH:mm time */
+export function parseTime(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/** The shift as minutes since the epoch in local time; ends at or before the start run into the next day */
+export function shiftInterval(shift: ShiftTimes): { start: number; end: number } {
+  const dayStart = Math.round(new Date(`${toDateKey(shift.date)}T00:00:00.000Z`).getTime() / 60000);
+  const start = dayStart + parseTime(shift.startTime);
+  let end = dayStart + parseTime(shift.endTime);
+  if (end <= start) end += DAY_MINUTES;
+  return { start, end };
+}
+
+/** Worked hours, after the unpaid break */
+export function shiftHours(shift: ShiftTimes): number {
+  const { start, end } = shiftInterval(shift);
+  return Math.max(0, end - start - shift.breakMinutes) / 60;
+}
+
+/** The Monday of the week a date falls in */
+export function weekStartOf(date: Date): Date {
+  const day = new Date(`${toDateKey(date)}T00:00:00.000Z`);
+  const isoWeekday = day.getUTCDay() || 7;
+  return new Date(day.getTime() - (isoWeekday - 1) * DAY_MS);
+}
+
+const describeHours = (hours: number): string => (Number.isInteger(hours) ? `${hours}` : hours.toFixed(1));
+
+/**
+ * Why a person should not work a shift: approved leave on its date or a
+ * shift that overlaps it block the assignment; going over the weekly hours
+ * limit only warns, since managers sometimes roster overtime on purpose.
+ */
+export function shiftConflicts(shift: RosteredShift, context: ConflictContext): ShiftConflict[] {
+  const conflicts: ShiftConflict[] = [];
+  const date = toDateKey(shift.date);
+
+  const leave = context.leave.find((period) => toDateKey(period.startDate) <= date && date <= toDateKey(period.endDate));
+  if (leave) {
+    conflicts.push({
+      kind: 'LEAVE',
+      blocking: true,
+      message: `On approved leave from ${toDateKey(leave.startDate)} to ${toDateKey(leave.endDate)}`,
+    });
+  }
+
+  const { start, end } = shiftInterval(shift);
+  const others = context.shifts.filter((other) => other.id !== shift.id);
+  const overlapping = others.find((other) => {
+    const interval = shiftInterval(other);
+    return interval.start < end && start < interval.end;
+  });
+  if (overlapping) {
+    conflicts.push({
+      kind: 'OVERLAP',
+      blocking: true,
+      message: `Already working ${overlapping.startTime}-${overlapping.endTime} on ${toDateKey(overlapping.date)}`,
+    });
+  }
+
+  const week = weekStartOf(shift.date).getTime();
+  const weeklyHours = [shift, ...others]
+    .filter((other) => weekStartOf(other.date).getTime() === week)
+    .reduce((total, other) => total + shiftHours(other), 0);
+  if (weeklyHours > context.maxWeeklyHours) {
+    conflicts.push({
+      kind: 'MAX_HOURS',
+      blocking: false,
+      message: `${describeHours(weeklyHours)} hours rostered in the week of ${toDateKey(new Date(week))}, over the limit of ${context.maxWeeklyHours}`,
+    });
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,69 @@
+import { Controller, Get, Post, Body, Param, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { Role, User } from '@prisma/client';
+import { ShiftSwapsService } from './shift-swaps.service';
+import { CreateShiftSwapDto, ShiftSwapDecisionDto } from './dto';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../shared/guards/roles.guard';
+import { Roles } from '../../shared/decorators/roles.decorator';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+
+@ApiTags('Shifts')
+@Controller('shift-swaps')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ShiftSwapsController {
+  constructor(private readonly shiftSwapsService: ShiftSwapsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get my swap requests and, for managers, those waiting for approval' })
+  async findAll(@CurrentUser() currentUser: User) {
+    const swaps = await this.shiftSwapsService.findAll(currentUser);
+    return CustomApiResponse.success(swaps, 'Shift swap requests retrieved successfully');
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Ask a colleague to take or swap one of my shifts' })
+  async create(@Body() createDto: CreateShiftSwapDto, @CurrentUser() currentUser: User) {
+    const swap = await this.shiftSwapsService.create(createDto, currentUser);
+    return CustomApiResponse.success(swap, 'Shift swap requested successfully');
+  }
+
+  @Post(':id/accept')
+  @ApiOperation({ summary: 'Accept a swap I was asked to take; it then goes to a manager' })
+  async accept(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    const swap = await this.shiftSwapsService.accept(id, currentUser);
+    return CustomApiResponse.success(swap, 'Shift swap accepted successfully');
+  }
+
+  @Post(':id/decline')
+  @ApiOperation({ summary: 'Decline a swap I was asked to take' })
+  async decline(@Param('id') id: string, @Body() decisionDto: ShiftSwapDecisionDto, @CurrentUser() currentUser: User) {
+    const swap = await this.shiftSwapsService.decline(id, decisionDto.comment, currentUser);
+    return CustomApiResponse.success(swap, 'Shift swap declined successfully');
+  }
+
+  @Post(':id/approve')
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER, Role.DEPARTMENT_ADMIN)
+  @ApiOperation({ summary: 'Approve an accepted swap; the shifts change hands' })
+  async approve(@Param('id') id: string, @Body() decisionDto: ShiftSwapDecisionDto, @CurrentUser() currentUser: User) {
+    const swap = await this.shiftSwapsService.approve(id, decisionDto.comment, currentUser);
+    return CustomApiResponse.success(swap, 'Shift swap approved successfully');
+  }
+
+  @Post(':id/reject')
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER, Role.DEPARTMENT_ADMIN)
+  @ApiOperation({ summary: 'Reject an accepted swap' })
+  async reject(@Param('id') id: string, @Body() decisionDto: ShiftSwapDecisionDto, @CurrentUser() currentUser: User) {
+    const swap = await this.shiftSwapsService.reject(id, decisionDto.comment, currentUser);
+    return CustomApiResponse.success(swap, 'Shift swap rejected successfully');
+  }
+
+  @Post(':id/cancel')
+  @ApiOperation({ summary: 'Cancel my swap request' })
+  async cancel(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    const swap = await this.shiftSwapsService.cancel(id, currentUser);
+    return CustomApiResponse.success(swap, 'Shift swap cancelled successfully');
+  }
+}
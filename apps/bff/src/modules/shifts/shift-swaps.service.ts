@@ -0,0 +1,356 @@
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { Prisma, Role, RosterStatus, Shift, ShiftSwapStatus, User } from '@prisma/client';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { CreateShiftSwapDto } from './dto';
+import { ShiftSwapWithShifts } from './interfaces';
+import { RostersService } from './rosters.service';
+
+const personSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+} satisfies Prisma.UserSelect;
+
+const swapInclude = {
+  shift: {
+    include: {
+      roster: {
+        select: {
+          propertyId: true,
+          departmentId: true,
+        },
+      },
+    },
+  },
+  targetShift: true,
+  requester: { select: personSelect },
+  targetUser: { select: personSelect },
+} satisfies Prisma.ShiftSwapRequestInclude;
+
+const OPEN_STATUSES: ShiftSwapStatus[] = [ShiftSwapStatus.PENDING, ShiftSwapStatus.ACCEPTED];
+
+// Roles that approve swaps; department admins only for their own department
+const MANAGER_ROLES: Role[] = [
+  Role.PLATFORM_ADMIN,
+  Role.ORGANIZATION_ADMIN,
+  Role.PROPERTY_MANAGER,
+  Role.DEPARTMENT_ADMIN,
+];
+
+const describeShift = (shift: Shift): string =>
+  `${shift.date.toISOString().split('T')[0]} ${shift.startTime}-${shift.endTime}`;
+
+@Injectable()
+export class ShiftSwapsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+    private readonly notificationsService: NotificationsService,
+    private readonly rostersService: RostersService,
+  ) {}
+
+  /** Swaps the current user asked for or was asked to take, plus, for managers, those waiting on them */
+  async findAll(currentUser: User): Promise<ShiftSwapWithShifts[]> {
+    const isManager = MANAGER_ROLES.includes(currentUser.role);
+
+    return this.prisma.shiftSwapRequest.findMany({
+      where: {
+        OR: [
+          { requesterId: currentUser.id },
+          { targetUserId: currentUser.id },
+          ...(isManager
+            ? [
+                {
+                  status: ShiftSwapStatus.ACCEPTED,
+                  shift: {
+                    roster: {
+                      propertyId: currentUser.propertyId!,
+                      ...(currentUser.role === Role.DEPARTMENT_ADMIN && { departmentId: currentUser.departmentId! }),
+                    },
+                  },
+                },
+              ]
+            : []),
+        ],
+      },
+      include: swapInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async create(createDto: CreateShiftSwapDto, currentUser: User): Promise<ShiftSwapWithShifts> {
+    const shift = await this.findPublishedShift(createDto.shiftId, currentUser);
+    if (shift.userId !== currentUser.id) {
+      throw new ForbiddenException('Can only swap your own shifts');
+    }
+    if (createDto.targetUserId === currentUser.id) {
+      throw new BadRequestException('Choose a colleague to swap with');
+    }
+
+    const targetUser = await this.prisma.user.findFirst({
+      where: { id: createDto.targetUserId, propertyId: currentUser.propertyId!, deletedAt: null },
+    });
+    if (!targetUser) {
+      throw new NotFoundException('Colleague not found');
+    }
+
+    if (createDto.targetShiftId) {
+      const targetShift = await this.findPublishedShift(createDto.targetShiftId, currentUser);
+      if (targetShift.userId !== targetUser.id) {
+        throw new BadRequestException(`That shift is not one of ${targetUser.firstName}'s`);
+      }
+    }
+
+    const open = await this.prisma.shiftSwapRequest.findFirst({
+      where: { shiftId: shift.id, status: { in: OPEN_STATUSES } },
+    });
+    if (open) {
+      throw new BadRequestException('This shift already has an open swap request');
+    }
+
+    const swap = await this.prisma.shiftSwapRequest.create({
+      data: {
+        shiftId: shift.id,
+        requesterId: currentUser.id,
+        targetUserId: targetUser.id,
+        targetShiftId: createDto.targetShiftId,
+        reason: createDto.reason,
+      },
+      include: swapInclude,
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'ShiftSwapRequest', swap.id, swap);
+
+    await this.notify(
+      swap,
+      targetUser.id,
+      'SHIFT_SWAP_REQUESTED',
+      'Shift swap request',
+      swap.targetShift
+        ? `${currentUser.firstName} ${currentUser.lastName} offers ${describeShift(swap.shift)} for your ${describeShift(swap.targetShift)}`
+        : `${currentUser.firstName} ${currentUser.lastName} asks you to take ${describeShift(swap.shift)}`,
+    );
+
+    return swap;
+  }
+
+  /** The colleague agrees; the swap then waits for a manager */
+  async accept(id: string, currentUser: User): Promise<ShiftSwapWithShifts> {
+    const swap = await this.findSwap(id, currentUser);
+    if (swap.targetUserId !== currentUser.id) {
+      throw new ForbiddenException('Only the colleague asked can accept this swap');
+    }
+    this.assertStatus(swap, ShiftSwapStatus.PENDING);
+    await this.assertNoConflicts(swap);
+
+    const updatedSwap = await this.updateStatus(swap, ShiftSwapStatus.ACCEPTED, currentUser);
+
+    const department = await this.prisma.department.findUnique({
+      where: { id: swap.shift.roster.departmentId },
+      select: { managerId: true },
+    });
+    if (department?.managerId) {
+      await this.notify(
+        updatedSwap,
+        department.managerId,
+        'SHIFT_SWAP_ACCEPTED',
+        'Shift swap waiting for approval',
+        `${swap.requester.firstName} ${swap.requester.lastName} and ${swap.targetUser.firstName} ${swap.targetUser.lastName} agreed to swap ${describeShift(swap.shift)}`,
+      );
+    }
+
+    return updatedSwap;
+  }
+
+  async decline(id: string, comment: string | undefined, currentUser: User): Promise<ShiftSwapWithShifts> {
+    const swap = await this.findSwap(id, currentUser);
+    if (swap.targetUserId !== currentUser.id) {
+      throw new ForbiddenException('Only the colleague asked can decline this swap');
+    }
+    this.assertStatus(swap, ShiftSwapStatus.PENDING);
+
+    const updatedSwap = await this.updateStatus(swap, ShiftSwapStatus.DECLINED, currentUser, comment);
+    await this.notify(
+      updatedSwap,
+      swap.requesterId,
+      'SHIFT_SWAP_DECLINED',
+      'Shift swap declined',
+      `${swap.targetUser.firstName} ${swap.targetUser.lastName} cannot take ${describeShift(swap.shift)}`,
+    );
+
+    return updatedSwap;
+  }
+
+  /** A manager approves; the shifts change hands unless someone would end up on leave or double-booked */
+  async approve(id: string, comment: string | undefined, currentUser: User): Promise<ShiftSwapWithShifts> {
+    const swap = await this.findSwap(id, currentUser);
+    this.assertManagerOf(swap, currentUser);
+    this.assertStatus(swap, ShiftSwapStatus.ACCEPTED);
+    await this.assertNoConflicts(swap);
+
+    const shiftIds = [swap.shiftId, ...(swap.targetShiftId ? [swap.targetShiftId] : [])];
+    await this.prisma.$transaction([
+      this.prisma.shift.update({ where: { id: swap.shiftId }, data: { userId: swap.targetUserId } }),
+      ...(swap.targetShiftId
+        ? [this.prisma.shift.update({ where: { id: swap.targetShiftId }, data: { userId: swap.requesterId } })]
+        : []),
+      // Other requests for the same shifts no longer make sense
+      this.prisma.shiftSwapRequest.updateMany({
+        where: {
+          id: { not: swap.id },
+          status: { in: OPEN_STATUSES },
+          OR: [{ shiftId: { in: shiftIds } }, { targetShiftId: { in: shiftIds } }],
+        },
+        data: { status: ShiftSwapStatus.CANCELLED },
+      }),
+    ]);
+
+    const updatedSwap = await this.updateStatus(swap, ShiftSwapStatus.APPROVED, currentUser, comment);
+    for (const userId of [swap.requesterId, swap.targetUserId]) {
+      await this.notify(
+        updatedSwap,
+        userId,
+        'SHIFT_SWAP_APPROVED',
+        'Shift swap approved',
+        `The swap of ${describeShift(swap.shift)} was approved`,
+      );
+    }
+
+    return updatedSwap;
+  }
+
+  async reject(id: string, comment: string | undefined, currentUser: User): Promise<ShiftSwapWithShifts> {
+    const swap = await this.findSwap(id, currentUser);
+    this.assertManagerOf(swap, currentUser);
+    this.assertStatus(swap, ShiftSwapStatus.ACCEPTED);
+
+    const updatedSwap = await this.updateStatus(swap, ShiftSwapStatus.REJECTED, currentUser, comment);
+    for (const userId of [swap.requesterId, swap.targetUserId]) {
+      await this.notify(
+        updatedSwap,
+        userId,
+        'SHIFT_SWAP_REJECTED',
+        'Shift swap rejected',
+        comment
+          ? `The swap of ${describeShift(swap.shift)} was rejected: ${comment}`
+          : `The swap of ${describeShift(swap.shift)} was rejected`,
+      );
+    }
+
+    return updatedSwap;
+  }
+
+  async cancel(id: string, currentUser: User): Promise<ShiftSwapWithShifts> {
+    const swap = await this.findSwap(id, currentUser);
+    if (swap.requesterId !== currentUser.id) {
+      throw new ForbiddenException('Can only cancel your own swap requests');
+    }
+    if (!OPEN_STATUSES.includes(swap.status)) {
+      throw new BadRequestException('Only open swap requests can be cancelled');
+    }
+
+    return this.updateStatus(swap, ShiftSwapStatus.CANCELLED, currentUser);
+  }
+
+  /** Checks both shifts as they would be after the swap */
+  private async assertNoConflicts(swap: ShiftSwapWithShifts): Promise<void> {
+    if (swap.shift.userId !== swap.requesterId || (swap.targetShift && swap.targetShift.userId !== swap.targetUserId)) {
+      throw new BadRequestException('The shifts were reassigned since the swap was requested');
+    }
+
+    const { roster: _roster, ...shift } = swap.shift;
+    const proposed = [
+      { ...shift, userId: swap.targetUserId },
+      ...(swap.targetShift ? [{ ...swap.targetShift, userId: swap.requesterId }] : []),
+    ];
+    const conflicts = await this.rostersService.checkAssignments(
+      proposed,
+      await this.rostersService.maxWeeklyHoursFor(shift),
+    );
+    const blocking = proposed.flatMap((candidate) =>
+      (conflicts[candidate.id] ?? [])
+        .filter((conflict) => conflict.blocking)
+        .map((conflict) => {
+          const person = candidate.userId === swap.targetUserId ? swap.targetUser : swap.requester;
+          return `${person.firstName}: ${conflict.message}`;
+        }),
+    );
+    if (blocking.length > 0) {
+      throw new BadRequestException(`The swap would cause conflicts: ${blocking.join('; ')}`);
+    }
+  }
+
+  private async updateStatus(
+    swap: ShiftSwapWithShifts,
+    status: ShiftSwapStatus,
+    currentUser: User,
+    comment?: string,
+  ): Promise<ShiftSwapWithShifts> {
+    const decided = status === ShiftSwapStatus.APPROVED || status === ShiftSwapStatus.REJECTED;
+    const updatedSwap = await this.prisma.shiftSwapRequest.update({
+      where: { id: swap.id },
+      data: {
+        status,
+        ...(decided && { decidedBy: currentUser.id, decidedAt: new Date() }),
+        ...(comment !== undefined && { comment }),
+      },
+      include: swapInclude,
+    });
+
+    await this.auditService.logUpdate(currentUser.id, 'ShiftSwapRequest', swap.id, swap, updatedSwap);
+
+    return updatedSwap;
+  }
+
+  private assertStatus(swap: ShiftSwapWithShifts, status: ShiftSwapStatus): void {
+    if (swap.status !== status) {
+      throw new BadRequestException(`This swap is ${swap.status.toLowerCase()}`);
+    }
+  }
+
+  private assertManagerOf(swap: ShiftSwapWithShifts, currentUser: User): void {
+    if (!MANAGER_ROLES.includes(currentUser.role)) {
+      throw new ForbiddenException('Only managers can decide shift swaps');
+    }
+    if (currentUser.role === Role.DEPARTMENT_ADMIN && swap.shift.roster.departmentId !== currentUser.departmentId) {
+      throw new ForbiddenException('Cannot decide swaps for other departments');
+    }
+  }
+
+  private async findPublishedShift(id: string, currentUser: User): Promise<Shift> {
+    const shift = await this.prisma.shift.findFirst({
+      where: { id, roster: { propertyId: currentUser.propertyId!, status: RosterStatus.PUBLISHED } },
+    });
+    if (!shift) {
+      throw new NotFoundException('Shift not found');
+    }
+    if (shift.date < new Date(new Date().toISOString().split('T')[0])) {
+      throw new BadRequestException('Past shifts cannot be swapped');
+    }
+    return shift;
+  }
+
+  private async findSwap(id: string, currentUser: User): Promise<ShiftSwapWithShifts> {
+    const swap = await this.prisma.shiftSwapRequest.findFirst({
+      where: { id, shift: { roster: { propertyId: currentUser.propertyId! } } },
+      include: swapInclude,
+    });
+    if (!swap) {
+      throw new NotFoundException('Shift swap request not found');
+    }
+    return swap;
+  }
+
+  private async notify(swap: ShiftSwapWithShifts, userId: string, type: string, title: string, message: string) {
+    await this.notificationsService.createNotification({
+      userId,
+      propertyId: swap.shift.roster.propertyId,
+      type,
+      title,
+      message,
+      data: { shiftSwapRequestId: swap.id, shiftId: swap.shiftId, targetShiftId: swap.targetShiftId },
+    });
+  }
+}
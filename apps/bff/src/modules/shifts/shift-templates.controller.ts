@@ -0,0 +1,55 @@
+import { Controller, Get, Post, Body, Patch, Param, Delete, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { Role, User } from '@prisma/client';
+import { ShiftTemplatesService } from './shift-templates.service';
+import { CreateShiftTemplateDto, UpdateShiftTemplateDto } from './dto';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../shared/guards/roles.guard';
+import { Roles } from '../../shared/decorators/roles.decorator';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+
+@ApiTags('Shifts')
+@Controller('shift-templates')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ShiftTemplatesController {
+  constructor(private readonly shiftTemplatesService: ShiftTemplatesService) {}
+
+  @Get()
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER, Role.DEPARTMENT_ADMIN)
+  @ApiOperation({ summary: 'Get shift templates' })
+  @ApiQuery({ name: 'departmentId', required: false })
+  async findAll(@Query('departmentId') departmentId: string | undefined, @CurrentUser() currentUser: User) {
+    const templates = await this.shiftTemplatesService.findAll(currentUser, departmentId);
+    return CustomApiResponse.success(templates, 'Shift templates retrieved successfully');
+  }
+
+  @Post()
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER, Role.DEPARTMENT_ADMIN)
+  @ApiOperation({ summary: 'Create shift template' })
+  async create(@Body() createDto: CreateShiftTemplateDto, @CurrentUser() currentUser: User) {
+    const template = await this.shiftTemplatesService.create(createDto, currentUser);
+    return CustomApiResponse.success(template, 'Shift template created successfully');
+  }
+
+  @Patch(':id')
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER, Role.DEPARTMENT_ADMIN)
+  @ApiOperation({ summary: 'Update shift template' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateShiftTemplateDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const template = await this.shiftTemplatesService.update(id, updateDto, currentUser);
+    return CustomApiResponse.success(template, 'Shift template updated successfully');
+  }
+
+  @Delete(':id')
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER, Role.DEPARTMENT_ADMIN)
+  @ApiOperation({ summary: 'Delete shift template' })
+  async remove(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    await this.shiftTemplatesService.remove(id, currentUser);
+    return CustomApiResponse.success(null, 'Shift template deleted successfully');
+  }
+}
@@ -0,0 +1,88 @@
+import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { Role, ShiftTemplate, User } from '@prisma/client';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { CreateShiftTemplateDto, UpdateShiftTemplateDto } from './dto';
+
+@Injectable()
+export class ShiftTemplatesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async findAll(currentUser: User, departmentId?: string): Promise<ShiftTemplate[]> {
+    const scope = currentUser.role === Role.DEPARTMENT_ADMIN ? currentUser.departmentId : departmentId;
+    if (departmentId && scope !== departmentId) {
+      throw new ForbiddenException('Cannot access shift templates of other departments');
+    }
+
+    return this.prisma.shiftTemplate.findMany({
+      where: {
+        propertyId: currentUser.propertyId!,
+        ...(scope && { departmentId: scope }),
+      },
+      orderBy: [{ isActive: 'desc' }, { startTime: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async create(createDto: CreateShiftTemplateDto, currentUser: User): Promise<ShiftTemplate> {
+    this.assertDepartmentAccess(currentUser, createDto.departmentId);
+    const department = await this.prisma.department.findFirst({
+      where: { id: createDto.departmentId, propertyId: currentUser.propertyId! },
+    });
+    if (!department) {
+      throw new NotFoundException('Department not found');
+    }
+
+    const template = await this.prisma.shiftTemplate.create({
+      data: {
+        ...createDto,
+        propertyId: currentUser.propertyId!,
+      },
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'ShiftTemplate', template.id, template);
+
+    return template;
+  }
+
+  /** Shifts already on a roster keep the times they were created with */
+  async update(id: string, updateDto: UpdateShiftTemplateDto, currentUser: User): Promise<ShiftTemplate> {
+    const template = await this.findOne(id, currentUser);
+
+    const updatedTemplate = await this.prisma.shiftTemplate.update({
+      where: { id },
+      data: updateDto,
+    });
+
+    await this.auditService.logUpdate(currentUser.id, 'ShiftTemplate', id, template, updatedTemplate);
+
+    return updatedTemplate;
+  }
+
+  async remove(id: string, currentUser: User): Promise<void> {
+    const template = await this.findOne(id, currentUser);
+
+    await this.prisma.shiftTemplate.delete({ where: { id } });
+
+    await this.auditService.logDelete(currentUser.id, 'ShiftTemplate', id, template);
+  }
+
+  private async findOne(id: string, currentUser: User): Promise<ShiftTemplate> {
+    const template = await this.prisma.shiftTemplate.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+    });
+    if (!template) {
+      throw new NotFoundException('Shift template not found');
+    }
+    this.assertDepartmentAccess(currentUser, template.departmentId);
+    return template;
+  }
+
+  private assertDepartmentAccess(currentUser: User, departmentId: string): void {
+    if (currentUser.role === Role.DEPARTMENT_ADMIN && departmentId !== currentUser.departmentId) {
+      throw new ForbiddenException('Department admins can only manage shift templates for their own department');
+    }
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { ShiftTemplatesService } from './shift-templates.service';
+import { ShiftTemplatesController } from './shift-templates.controller';
+import { RostersService } from './rosters.service';
+import { RostersController } from './rosters.controller';
+import { ShiftSwapsService } from './shift-swaps.service';
+import { ShiftSwapsController } from './shift-swaps.controller';
+
+@Module({
+  imports: [NotificationsModule],
+  providers: [ShiftTemplatesService, RostersService, ShiftSwapsService],
+  controllers: [ShiftTemplatesController, RostersController, ShiftSwapsController],
+  exports: [RostersService],
+})
+export class ShiftsModule {}
@@ -0,0 +1,31 @@
+import { IsDateString, IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UnitBlockType } from '@prisma/client';
+
+export class CreateUnitBlockDto {
+  @ApiProperty({ example: 'clx1234567890' })
+  @IsString()
+  unitId: string;
+
+  @ApiProperty({ enum: UnitBlockType, example: UnitBlockType.OUT_OF_ORDER })
+  @IsEnum(UnitBlockType)
+  type: UnitBlockType;
+
+  @ApiProperty({ example: '2025-07-01', description: 'First day the unit is off sale' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ example: '2025-07-15', description: 'Day the unit is back in service (exclusive)' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiProperty({ example: 'Villa renovation' })
+  @IsString()
+  @MaxLength(200)
+  reason: string;
+
+  @ApiPropertyOptional({ example: 'Contractor on site from 8am' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
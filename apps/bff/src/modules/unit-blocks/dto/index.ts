@@ -0,0 +1,3 @@
+export * from './create-unit-block.dto';
+export * from './update-unit-block.dto';
+export * from './unit-block-filter.dto';
\ No newline at end of file
@@ -0,0 +1,6 @@
+import { PartialType, OmitType } from '@nestjs/swagger';
+import { CreateUnitBlockDto } from './create-unit-block.dto';
+
+export class UpdateUnitBlockDto extends PartialType(
+  OmitType(CreateUnitBlockDto, ['unitId'] as const)
+) {}
@@ -0,0 +1,5 @@
+import { UnitBlock } from '@prisma/client';
+
+export interface UnitBlockWithUnit extends UnitBlock {
+  unit: { id: string; unitNumber: string };
+}
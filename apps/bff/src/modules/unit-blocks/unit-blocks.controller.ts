@@ -0,0 +1,73 @@
+import { Controller, Get, Post, Patch, Body, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { UnitBlocksService } from './unit-blocks.service';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { PermissionGuard } from '../../shared/guards/permission.guard';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { RequirePermission } from '../../shared/decorators/require-permission.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+import { CreateUnitBlockDto, UpdateUnitBlockDto, UnitBlockFilterDto } from './dto';
+import { User } from '@prisma/client';
+
+@ApiTags('Unit Blocks')
+@Controller('unit-blocks')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class UnitBlocksController {
+  constructor(private readonly unitBlocksService: UnitBlocksService) {}
+
+  @Post()
+  @RequirePermission('unit.update.property')
+  @ApiOperation({ summary: 'Schedule an out-of-order, out-of-service or owner-use block for a unit' })
+  @ApiResponse({ status: 201, description: 'Unit block created successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid date range' })
+  @ApiResponse({ status: 409, description: 'Conflict - Unit has reservations or another block in the range' })
+  async create(@Body() createDto: CreateUnitBlockDto, @CurrentUser() currentUser: User) {
+    const block = await this.unitBlocksService.create(createDto, currentUser);
+    return CustomApiResponse.success(block, 'Unit block created successfully');
+  }
+
+  @Get()
+  @RequirePermission('unit.read.property')
+  @ApiOperation({ summary: 'List unit blocks, current and upcoming by default' })
+  @ApiResponse({ status: 200, description: 'Unit blocks retrieved successfully' })
+  async findAll(@Query() filterDto: UnitBlockFilterDto, @CurrentUser() currentUser: User) {
+    const blocks = await this.unitBlocksService.findAll(filterDto, currentUser);
+    return CustomApiResponse.success(blocks, 'Unit blocks retrieved successfully');
+  }
+
+  @Get(':id')
+  @RequirePermission('unit.read.property')
+  @ApiOperation({ summary: 'Get a unit block' })
+  @ApiResponse({ status: 200, description: 'Unit block retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Unit block not found' })
+  async findOne(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    const block = await this.unitBlocksService.findOne(id, currentUser);
+    return CustomApiResponse.success(block, 'Unit block retrieved successfully');
+  }
+
+  @Patch(':id')
+  @RequirePermission('unit.update.property')
+  @ApiOperation({ summary: 'Change the dates, type or reason of a unit block' })
+  @ApiResponse({ status: 200, description: 'Unit block updated successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Block has ended or already started' })
+  @ApiResponse({ status: 409, description: 'Conflict - Unit has reservations or another block in the range' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateUnitBlockDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const block = await this.unitBlocksService.update(id, updateDto, currentUser);
+    return CustomApiResponse.success(block, 'Unit block updated successfully');
+  }
+
+  @Post(':id/release')
+  @RequirePermission('unit.update.property')
+  @ApiOperation({ summary: 'End a block early or cancel one that has not started' })
+  @ApiResponse({ status: 200, description: 'Unit block released successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Block has already ended' })
+  async release(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    const block = await this.unitBlocksService.release(id, currentUser);
+    return CustomApiResponse.success(block, 'Unit block released successfully');
+  }
+}
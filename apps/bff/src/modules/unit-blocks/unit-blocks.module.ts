@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { UnitBlocksService } from './unit-blocks.service';
+import { UnitBlocksController } from './unit-blocks.controller';
+
+@Module({
+  providers: [UnitBlocksService],
+  controllers: [UnitBlocksController],
+})
+export class UnitBlocksModule {}
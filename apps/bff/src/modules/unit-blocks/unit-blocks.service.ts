@@ -0,0 +1,200 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { WorkerQueueService } from '../../shared/queue/worker-queue.service';
+import { CreateUnitBlockDto, UpdateUnitBlockDto, UnitBlockFilterDto } from './dto';
+import { UnitBlockWithUnit } from './interfaces';
+import {
+  UNIT_BLOCK_STATUS,
+  nextBlockTransition,
+  overlappingBlocksWhere,
+  statusAfterBlock,
+} from '@staffnbdt/shared';
+import { User, UnitBlock, ReservationStatus } from '@prisma/client';
+
+const unitSummary = { select: { id: true, unitNumber: true } };
+
+@Injectable()
+export class UnitBlocksService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+    private readonly workerQueue: WorkerQueueService,
+  ) {}
+
+  async create(createDto: CreateUnitBlockDto, currentUser: User): Promise<UnitBlockWithUnit> {
+    const unit = await this.prisma.unit.findFirst({
+      where: { id: createDto.unitId, propertyId: currentUser.propertyId!, deletedAt: null },
+    });
+    if (!unit) {
+      throw new NotFoundException('Unit not found');
+    }
+
+    const startDate = new Date(createDto.startDate);
+    const endDate = new Date(createDto.endDate);
+    await this.assertRangeFree(unit.id, startDate, endDate);
+
+    const block = await this.prisma.unitBlock.create({
+      data: {
+        ...createDto,
+        startDate,
+        endDate,
+        propertyId: currentUser.propertyId!,
+        createdBy: currentUser.id,
+      },
+      include: { unit: unitSummary },
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'UnitBlock', block.id, block);
+
+    await this.scheduleIfDue(block);
+
+    return block;
+  }
+
+  async findAll(filterDto: UnitBlockFilterDto, currentUser: User): Promise<UnitBlockWithUnit[]> {
+    return this.prisma.unitBlock.findMany({
+      where: {
+        propertyId: currentUser.propertyId!,
+        unitId: filterDto.unitId,
+        releasedAt: filterDto.includeReleased ? undefined : null,
+        ...(filterDto.startDate && { endDate: { gt: new Date(filterDto.startDate) } }),
+        ...(filterDto.endDate && { startDate: { lt: new Date(filterDto.endDate) } }),
+      },
+      include: { unit: unitSummary },
+      orderBy: [{ startDate: 'asc' }, { unit: { unitNumber: 'asc' } }],
+    });
+  }
+
+  async findOne(id: string, currentUser: User): Promise<UnitBlockWithUnit> {
+    const block = await this.prisma.unitBlock.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+      include: { unit: unitSummary },
+    });
+
+    if (!block) {
+      throw new NotFoundException('Unit block not found');
+    }
+
+    return block;
+  }
+
+  async update(id: string, updateDto: UpdateUnitBlockDto, currentUser: User): Promise<UnitBlockWithUnit> {
+    const existing = await this.findOne(id, currentUser);
+    if (existing.releasedAt) {
+      throw new BadRequestException('Block has already ended');
+    }
+
+    const startDate = updateDto.startDate ? new Date(updateDto.startDate) : existing.startDate;
+    const endDate = updateDto.endDate ? new Date(updateDto.endDate) : existing.endDate;
+    if (existing.appliedAt && startDate.getTime() !== existing.startDate.getTime()) {
+      throw new BadRequestException('Block has already started; only its end date can be changed');
+    }
+    await this.assertRangeFree(existing.unitId, startDate, endDate, id);
+
+    const block = await this.prisma.unitBlock.update({
+      where: { id },
+      data: { ...updateDto, startDate, endDate },
+      include: { unit: unitSummary },
+    });
+
+    // A running block that changes type moves the unit to the new status
+    if (block.appliedAt && block.type !== existing.type) {
+      await this.prisma.unit.updateMany({
+        where: { id: block.unitId, status: UNIT_BLOCK_STATUS[existing.type] },
+        data: { status: UNIT_BLOCK_STATUS[block.type] },
+      });
+    }
+
+    await this.auditService.logUpdate(currentUser.id, 'UnitBlock', id, existing, block);
+
+    await this.scheduleIfDue(block);
+
+    return block;
+  }
+
+  /** Ends a running block early, or cancels one that has not started */
+  async release(id: string, currentUser: User): Promise<UnitBlockWithUnit> {
+    const existing = await this.findOne(id, currentUser);
+    if (existing.releasedAt) {
+      throw new BadRequestException('Block has already ended');
+    }
+
+    const block = await this.releaseBlock(existing);
+
+    await this.auditService.logUpdate(
+      currentUser.id,
+      'UnitBlock',
+      id,
+      { releasedAt: null },
+      { releasedAt: block.releasedAt },
+    );
+
+    return block;
+  }
+
+  /** Blocks that start or end right away are switched by the worker instead of waiting for its sweep */
+  private async scheduleIfDue(block: UnitBlock): Promise<void> {
+    if (nextBlockTransition(block, new Date())) {
+      await this.workerQueue.addJob('unit-blocks', 'sync-unit-block', { blockId: block.id });
+    }
+  }
+
+  private async releaseBlock(block: UnitBlock, now: Date = new Date()): Promise<UnitBlockWithUnit> {
+    return this.prisma.$transaction(async (tx) => {
+      if (block.appliedAt) {
+        const unit = await tx.unit.findUnique({ where: { id: block.unitId } });
+        // Leave the unit alone if someone changed its status while the block ran
+        if (unit && unit.status === UNIT_BLOCK_STATUS[block.type]) {
+          await tx.unit.update({
+            where: { id: unit.id },
+            data: { status: statusAfterBlock(unit.housekeepingStatus) },
+          });
+        }
+      }
+
+      return tx.unitBlock.update({
+        where: { id: block.id },
+        data: { releasedAt: now },
+        include: { unit: unitSummary },
+      });
+    });
+  }
+
+  private async assertRangeFree(unitId: string, startDate: Date, endDate: Date, excludeBlockId?: string): Promise<void> {
+    if (startDate >= endDate) {
+      throw new BadRequestException('End date must be after start date');
+    }
+
+    const [blocks, reservations] = await Promise.all([
+      this.prisma.unitBlock.findMany({
+        where: {
+          unitId,
+          id: excludeBlockId ? { not: excludeBlockId } : undefined,
+          ...overlappingBlocksWhere(startDate, endDate),
+        },
+      }),
+      this.prisma.reservation.findMany({
+        where: {
+          unitId,
+          status: { in: [ReservationStatus.CONFIRMED, ReservationStatus.CHECKED_IN] },
+          checkInDate: { lt: endDate },
+          checkOutDate: { gt: startDate },
+        },
+        select: { id: true, reservationNumber: true, checkInDate: true, checkOutDate: true },
+      }),
+    ]);
+
+    if (blocks.length > 0) {
+      throw new ConflictException('Unit already has a block overlapping these dates');
+    }
+    if (reservations.length > 0) {
+      throw new ConflictException({
+        message: `Unit has reservations during the block: ${reservations
+          .map((reservation) => reservation.reservationNumber)
+          .join(', ')}. Move them to another unit first.`,
+        conflictingReservations: reservations,
+      });
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { Unit } from '@prisma/client';
+import { Unit, UnitBlock } from '@prisma/client';
 
 export interface UnitWithReservations extends Unit {
   reservations?: any[];
@@ -9,6 +9,7 @@ export interface UnitAvailability {
   unit: Unit;
   isAvailable: boolean;
   conflictingReservations?: any[];
+  conflictingBlocks?: UnitBlock[];
   availableFrom?: Date;
   availableUntil?: Date;
 }
@@ -5,7 +5,8 @@ import { PaginatedResponse } from '../../shared/dto/pagination.dto';
 import { applySoftDelete } from '../../shared/utils/soft-delete';
 import { CreateUnitDto, UpdateUnitDto, UnitFilterDto, UnitAvailabilityDto } from './dto';
 import { UnitWithReservations, UnitAvailability, UnitStats } from './interfaces';
-import { User, Unit, UnitStatus } from '@prisma/client';
+import { UNIT_BLOCK_STATUS, overlappingBlocksWhere, rangesOverlap } from '@staffnbdt/shared';
+import { User, Unit, UnitStatus, HousekeepingStatus } from '@prisma/client';
 
 @Injectable()
 export class UnitsService {
@@ -162,6 +163,8 @@ export class UnitsService {
       throw new NotFoundException('Unit not found');
     }
 
+    this.assertSellable(existingUnit, updateUnitDto.status);
+
     const unit = await this.prisma.unit.update({
       where: { id },
       data: {
@@ -251,6 +254,8 @@ export class UnitsService {
       throw new NotFoundException('Unit not found');
     }
 
+    this.assertSellable(existingUnit, status);
+
     const unit = await this.prisma.unit.update({
       where: { id },
       data: { status },
@@ -296,15 +301,27 @@ export class UnitsService {
             ],
           },
         },
+        // Overlapping blocks, plus the running one that explains the unit's current status
+        blocks: {
+          where: { OR: [overlappingBlocksWhere(checkIn, checkOut), { releasedAt: null, appliedAt: { not: null } }] },
+        },
       },
     });
 
-    return units.map(unit => ({
-      unitId: unit.id,
-      unit,
-      isAvailable: unit.reservations.length === 0 && unit.status === 'AVAILABLE',
-      conflictingReservations: unit.reservations.length > 0 ? unit.reservations : undefined,
-    }));
+    return units.map(({ blocks, ...unit }) => {
+      const conflictingBlocks = blocks.filter(block => rangesOverlap(block.startDate, block.endDate, checkIn, checkOut));
+      const runningBlock = blocks.find(block => block.appliedAt);
+      // A unit off sale because of a block is available again once the block is over
+      const sellable = unit.status === 'AVAILABLE' || (!!runningBlock && unit.status === UNIT_BLOCK_STATUS[runningBlock.type]);
+
+      return {
+        unitId: unit.id,
+        unit,
+        isAvailable: unit.reservations.length === 0 && conflictingBlocks.length === 0 && sellable,
+        conflictingReservations: unit.reservations.length > 0 ? unit.reservations : undefined,
+        conflictingBlocks: conflictingBlocks.length > 0 ? conflictingBlocks : undefined,
+      };
+    });
   }
 
   async getAvailableUnits(
@@ -365,4 +382,13 @@ export class UnitsService {
       averageDailyRate: Math.round(averageDailyRate * 100) / 100,
     };
   }
+
+  // Dirty rooms go back on sale through housekeeping inspection, not a manual status change
+  private assertSellable(unit: Unit, status?: UnitStatus): void {
+    if (status === UnitStatus.AVAILABLE && unit.housekeepingStatus !== HousekeepingStatus.INSPECTED) {
+      throw new BadRequestException(
+        `Unit ${unit.unitNumber} is ${unit.housekeepingStatus.toLowerCase()} and must pass housekeeping inspection first`,
+      );
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,8 @@
+import { IsBoolean } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ChangeDutyDto {
+  @ApiProperty({ example: true, description: 'true to clock in, false to clock out' })
+  @IsBoolean()
+  onDuty: boolean;
+}
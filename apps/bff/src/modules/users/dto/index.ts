@@ -4,4 +4,5 @@ export * from './user-filter.dto';
 export * from './change-role.dto';
 export * from './change-status.dto';
 export * from './change-department.dto';
-export * from './bulk-import.dto';
\ No newline at end of file
+export * from './bulk-import.dto';
+export * from './change-duty.dto';
\ No newline at end of file
@@ -1,5 +1,6 @@
-import { IsEmail, IsString, IsOptional, IsDateString, IsObject } from 'class-validator';
+import { IsEmail, IsString, IsOptional, IsDateString, IsObject, IsArray, IsEnum } from 'class-validator';
 import { ApiPropertyOptional } from '@nestjs/swagger';
+import { EmploymentType } from '@prisma/client';
 
 export class UpdateUserDto {
   @ApiPropertyOptional({ example: 'user@example.com' })
@@ -35,6 +36,11 @@ export class UpdateUserDto {
   @IsDateString()
   hireDate?: string;
 
+  @ApiPropertyOptional({ enum: EmploymentType, description: 'Selects the leave policy that applies' })
+  @IsOptional()
+  @IsEnum(EmploymentType)
+  employmentType?: EmploymentType;
+
   @ApiPropertyOptional({ example: '+1234567890' })
   @IsOptional()
   @IsString()
@@ -51,4 +57,16 @@ export class UpdateUserDto {
   @IsOptional()
   @IsString()
   profilePhoto?: string;
+
+  @ApiPropertyOptional({ example: ['Plumbing', 'Electrical'], description: 'Matched against task requirements when assigning tasks' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  skills?: string[];
+
+  @ApiPropertyOptional({ example: ['en', 'es'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  languages?: string[];
 }
\ No newline at end of file
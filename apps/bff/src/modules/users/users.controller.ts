@@ -25,7 +25,7 @@ import { RequirePermission, PERMISSIONS } from '../../shared/decorators/require-
 import { PermissionGuard } from '../../shared/guards/permission.guard';
 import { Audit } from '../../shared/decorators/audit.decorator';
 import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
-import { CreateUserDto, UpdateUserDto, UserFilterDto, ChangeRoleDto, ChangeStatusDto, ChangeDepartmentDto, BulkImportDto, CsvImportDto } from './dto';
+import { CreateUserDto, UpdateUserDto, UserFilterDto, ChangeRoleDto, ChangeStatusDto, ChangeDepartmentDto, ChangeDutyDto, BulkImportDto, CsvImportDto } from './dto';
 import { User, Role } from '@prisma/client';
 import { memoryStorage } from 'multer';
 
@@ -185,6 +185,21 @@ export class UsersController {
     return CustomApiResponse.success(user, 'User status changed successfully');
   }
 
+  @Patch(':id/duty')
+  @RequirePermission('user.update.all', 'user.update.organization', 'user.update.property', 'user.update.department', 'user.update.own')
+  @Audit({ action: 'CHANGE_DUTY', entity: 'User' })
+  @ApiOperation({ summary: 'Clock a user in or out of duty' })
+  @ApiResponse({ status: 200, description: 'User duty status changed successfully' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async changeDuty(
+    @Param('id') id: string,
+    @Body() changeDutyDto: ChangeDutyDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const user = await this.usersService.changeDuty(id, changeDutyDto, currentUser);
+    return CustomApiResponse.success(user, 'User duty status changed successfully');
+  }
+
   @Patch(':id/department')
   @Roles(Role.PLATFORM_ADMIN, Role.DEPARTMENT_ADMIN)  // Backwards compatibility
   @RequirePermission('user.update.all', 'user.update.organization', 'user.update.property', 'user.update.department')
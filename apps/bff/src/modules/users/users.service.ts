@@ -4,7 +4,7 @@ import { AuditService } from '../../shared/audit/audit.service';
 import { PermissionService } from '../../shared/services/permission.service';
 import { PaginatedResponse } from '../../shared/dto/pagination.dto';
 import { applySoftDelete } from '../../shared/utils/soft-delete';
-import { CreateUserDto, UpdateUserDto, UserFilterDto, ChangeRoleDto, ChangeStatusDto, ChangeDepartmentDto, BulkImportDto, BulkImportResultDto, BulkImportUserDto } from './dto';
+import { CreateUserDto, UpdateUserDto, UserFilterDto, ChangeRoleDto, ChangeStatusDto, ChangeDepartmentDto, ChangeDutyDto, BulkImportDto, BulkImportResultDto, BulkImportUserDto } from './dto';
 import { UserWithDepartment, UserStats, UserPermissions } from './interfaces';
 import { User, Role } from '@prisma/client';
 
@@ -234,6 +234,34 @@ export class UsersService {
     return updatedUser;
   }
 
+  /** Clocks a user in or out; only staff on duty are picked for automatic task assignment */
+  async changeDuty(
+    id: string,
+    changeDutyDto: ChangeDutyDto,
+    currentUser: User,
+  ): Promise<UserWithDepartment> {
+    const existingUser = await this.findOne(id, currentUser);
+    const dutyStartedAt = changeDutyDto.onDuty ? existingUser.dutyStartedAt ?? new Date() : null;
+
+    const updatedUser = await this.prisma.user.update({
+      where: { id },
+      data: { dutyStartedAt },
+      include: {
+        department: true,
+      },
+    });
+
+    await this.auditService.logUpdate(
+      currentUser.id,
+      'User',
+      id,
+      { dutyStartedAt: existingUser.dutyStartedAt },
+      { dutyStartedAt },
+    );
+
+    return updatedUser;
+  }
+
   async remove(id: string, currentUser: User): Promise<void> {
     // Only platform admins can delete users
     if (currentUser.role !== Role.PLATFORM_ADMIN) {
@@ -0,0 +1,54 @@
+import { Controller, Get, Post, Body, Patch, Param, Delete, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { CoverageService } from './coverage.service';
+import { CreateCoverageRuleDto, UpdateCoverageRuleDto } from './dto';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../shared/guards/roles.guard';
+import { Roles } from '../../shared/decorators/roles.decorator';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+import { Role, User } from '@prisma/client';
+
+@ApiTags('Vacation')
+@Controller('coverage-rules')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class CoverageRulesController {
+  constructor(private readonly coverageService: CoverageService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get coverage rules, including property-wide ones' })
+  @ApiQuery({ name: 'departmentId', required: false })
+  async findAll(@Query('departmentId') departmentId: string | undefined, @CurrentUser() currentUser: User) {
+    const rules = await this.coverageService.findRules(currentUser, departmentId);
+    return CustomApiResponse.success(rules, 'Coverage rules retrieved successfully');
+  }
+
+  @Post()
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER, Role.DEPARTMENT_ADMIN)
+  @ApiOperation({ summary: 'Create coverage rule' })
+  async create(@Body() createDto: CreateCoverageRuleDto, @CurrentUser() currentUser: User) {
+    const rule = await this.coverageService.createRule(createDto, currentUser);
+    return CustomApiResponse.success(rule, 'Coverage rule created successfully');
+  }
+
+  @Patch(':id')
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER, Role.DEPARTMENT_ADMIN)
+  @ApiOperation({ summary: 'Update coverage rule' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateCoverageRuleDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const rule = await this.coverageService.updateRule(id, updateDto, currentUser);
+    return CustomApiResponse.success(rule, 'Coverage rule updated successfully');
+  }
+
+  @Delete(':id')
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER, Role.DEPARTMENT_ADMIN)
+  @ApiOperation({ summary: 'Delete coverage rule' })
+  async remove(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    await this.coverageService.removeRule(id, currentUser);
+    return CustomApiResponse.success(null, 'Coverage rule deleted successfully');
+  }
+}
@@ -0,0 +1,116 @@
+import { CoverageRuleSettings, coverageViolations, dateKeys, teamCalendarDays } from './coverage-rules';
+
+describe('coverage rules', () => {
+  const rule = (overrides: Partial<CoverageRuleSettings>): CoverageRuleSettings => ({
+    id: 'rule',
+    name: 'Front desk cover',
+    type: 'MAX_ABSENT',
+    enforcement: 'BLOCK',
+    maxAbsent: 2,
+    position: 'Front Desk Agent',
+    startDate: null,
+    endDate: null,
+    leaveTypes: [],
+    ...overrides,
+  });
+
+  const absence = (userId: string, startDate: string, endDate: string, position = 'Front Desk Agent') => ({
+    userId,
+    position,
+    startDate: new Date(startDate),
+    endDate: new Date(endDate),
+  });
+
+  const request = {
+    ...absence('me', '2025-12-23', '2025-12-26', 'front desk agent'),
+    type: 'ANNUAL' as const,
+    workingDays: ['2025-12-23', '2025-12-24', '2025-12-25', '2025-12-26'],
+  };
+
+  it('lists every date in a range', () => {
+    expect(dateKeys(new Date('2025-12-30'), new Date('2026-01-02'))).toEqual([
+      '2025-12-30',
+      '2025-12-31',
+      '2026-01-01',
+      '2026-01-02',
+    ]);
+  });
+
+  it('flags the days on which too many people with the position would be away', () => {
+    const violations = coverageViolations(request, [rule({})], [
+      absence('ana', '2025-12-20', '2025-12-24'),
+      absence('ben', '2025-12-24', '2025-12-31'),
+      absence('ben', '2025-12-25', '2025-12-25'),
+      absence('chef', '2025-12-20', '2025-12-31', 'Chef'),
+      absence('me', '2025-12-01', '2025-12-02'),
+    ]);
+
+    expect(violations).toEqual([
+      {
+        ruleId: 'rule',
+        ruleName: 'Front desk cover',
+        enforcement: 'BLOCK',
+        dates: ['2025-12-24'],
+        message: 'Front desk cover: at most 2 Front Desk Agent may be off, 2 already away on 2025-12-24',
+      },
+    ]);
+  });
+
+  it('flags requests that touch a blackout period', () => {
+    const blackout = rule({
+      type: 'BLACKOUT',
+      name: 'New Year peak',
+      enforcement: 'WARN',
+      maxAbsent: null,
+      position: null,
+      startDate: new Date('2025-12-26'),
+      endDate: new Date('2026-01-02'),
+    });
+
+    const [violation] = coverageViolations(request, [blackout], []);
+    expect(violation.enforcement).toBe('WARN');
+    expect(violation.message).toBe('New Year peak: no leave on 2025-12-26');
+  });
+
+  it('only checks the days the request is charged for', () => {
+    // Christmas Day is a holiday and the 24th is a day off for this person
+    const dayOff = { ...request, workingDays: ['2025-12-23', '2025-12-26'] };
+    const blackout = rule({ type: 'BLACKOUT', startDate: new Date('2025-12-24'), endDate: new Date('2025-12-25') });
+
+    expect(coverageViolations(dayOff, [blackout], [])).toEqual([]);
+    expect(
+      coverageViolations(dayOff, [rule({ maxAbsent: 1 })], [absence('ana', '2025-12-24', '2025-12-25')]),
+    ).toEqual([]);
+  });
+
+  it('skips limits that were never set', () => {
+    const unset = rule({ maxAbsent: null });
+    expect(coverageViolations(request, [unset], [absence('ana', '2025-12-24', '2025-12-24')])).toEqual([]);
+  });
+
+  it('ignores rules for other leave types, positions or periods', () => {
+    const rules = [
+      rule({ maxAbsent: 0, leaveTypes: ['SICK'] }),
+      rule({ maxAbsent: 0, position: 'Chef' }),
+      rule({ maxAbsent: 0, startDate: new Date('2026-07-01'), endDate: new Date('2026-08-31') }),
+    ];
+
+    expect(coverageViolations(request, rules, [])).toEqual([]);
+  });
+
+  it('counts approved and pending absences per day', () => {
+    const days = teamCalendarDays(
+      [
+        { ...absence('ana', '2025-12-20', '2025-12-24'), status: 'APPROVED' },
+        { ...absence('ben', '2025-12-24', '2025-12-25'), status: 'PENDING' },
+      ],
+      new Date('2025-12-24'),
+      new Date('2025-12-25'),
+    );
+
+    expect(days).toEqual([
+      { date: '2025-12-24', approved: 1, pending: 1 },
+      { date: '2025-12-25', approved: 0, pending: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import { CoverageRule, VacationStatus, VacationType } from '@prisma/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Absence {
+  userId: string;
+  position: string | null;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface CoverageRequest extends Absence {
+  type: VacationType;
+  // Days the request is charged for; days off and holidays need no cover
+  workingDays: string[];
+}
+
+export type CoverageRuleSettings = Pick<
+  CoverageRule,
+  'id' | 'name' | 'type' | 'enforcement' | 'maxAbsent' | 'position' | 'startDate' | 'endDate' | 'leaveTypes'
+>;
+
+export interface CoverageViolation {
+  ruleId: string;
+  ruleName: string;
+  enforcement: CoverageRule['enforcement'];
+  dates: string[];
+  message: string;
+}
+
+export interface TeamCalendarDay {
+  date: string;
+  approved: number;
+  pending: number;
+}
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+/** Every date from `startDate` to `endDate`, both included */
+export function dateKeys(startDate: Date, endDate: Date): string[] {
+  const keys: string[] = [];
+  const last = toDateKey(endDate);
+  for (let day = new Date(`${toDateKey(startDate)}T00:00:00.000Z`); toDateKey(day) <= last; day = new Date(day.getTime() + DAY_MS)) {
+    keys.push(toDateKey(day));
+  }
+  return keys;
+}
+
+const samePosition = (rulePosition: string | null, position: string | null): boolean =>
+  !rulePosition || rulePosition.trim().toLowerCase() === (position ?? '').trim().toLowerCase();
+
+const covers = (absence: Absence, date: string): boolean =>
+  toDateKey(absence.startDate) <= date && date <= toDateKey(absence.endDate);
+
+const describeDates = (dates: string[]): string =>
+  dates.length > 3 ? `${dates[0]} to ${dates[dates.length - 1]} (${dates.length} days)` : dates.join(', ');
+
+/**
+ * Rules a request would break on its working days, given who else is already
+ * away. A rule only counts staff with its position, only looks at leave types
+ * it lists (all when empty) and, when it has a period, only at days within it.
+ */
+export function coverageViolations(
+  request: CoverageRequest,
+  rules: CoverageRuleSettings[],
+  absences: Absence[],
+): CoverageViolation[] {
+  const violations: CoverageViolation[] = [];
+  const others = absences.filter((absence) => absence.userId !== request.userId);
+
+  for (const rule of rules) {
+    if (rule.leaveTypes.length > 0 && !rule.leaveTypes.includes(request.type)) continue;
+    if (!samePosition(rule.position, request.position)) continue;
+
+    const days = request.workingDays.filter(
+      (date) =>
+        (!rule.startDate || date >= toDateKey(rule.startDate)) && (!rule.endDate || date <= toDateKey(rule.endDate)),
+    );
+    if (days.length === 0) continue;
+
+    if (rule.type === 'BLACKOUT') {
+      violations.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        enforcement: rule.enforcement,
+        dates: days,
+        message: `${rule.name}: no leave on ${describeDates(days)}`,
+      });
+      continue;
+    }
+
+    // Rules saved without a limit have nothing to enforce
+    const { maxAbsent } = rule;
+    if (maxAbsent === null) continue;
+
+    let peak = 0;
+    const overLimit = days.filter((date) => {
+      const away = new Set(
+        others
+          .filter((absence) => samePosition(rule.position, absence.position) && covers(absence, date))
+          .map((absence) => absence.userId),
+      ).size;
+      peak = Math.max(peak, away);
+      return away + 1 > maxAbsent;
+    });
+
+    if (overLimit.length > 0) {
+      const who = rule.position ?? 'people';
+      violations.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        enforcement: rule.enforcement,
+        dates: overLimit,
+        message: `${rule.name}: at most ${maxAbsent} ${who} may be off, ${peak} already away on ${describeDates(overLimit)}`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/** How many people are away each day, split by approved and still pending */
+export function teamCalendarDays(
+  absences: (Absence & { status: VacationStatus })[],
+  from: Date,
+  to: Date,
+): TeamCalendarDay[] {
+  return dateKeys(from, to).map((date) => {
+    const away = absences.filter((absence) => covers(absence, date));
+    return {
+      date,
+      approved: new Set(away.filter((absence) => absence.status === 'APPROVED').map((absence) => absence.userId)).size,
+      pending: new Set(away.filter((absence) => absence.status === 'PENDING').map((absence) => absence.userId)).size,
+    };
+  });
+}
@@ -0,0 +1,290 @@
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { CoverageRule, Prisma, Role, User, Vacation, VacationStatus } from '@prisma/client';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { CreateCoverageRuleDto, TeamCalendarQueryDto, UpdateCoverageRuleDto } from './dto';
+import { CoverageViolation, TeamCalendarDay, coverageViolations, teamCalendarDays } from './coverage-rules';
+import { HolidayCalendarService } from './holiday-calendar.service';
+
+// Longest range the team calendar returns at once
+const MAX_CALENDAR_DAYS = 93;
+
+export interface TeamCalendar {
+  departmentId: string;
+  from: Date;
+  to: Date;
+  absences: {
+    id: string;
+    userId: string;
+    name: string;
+    position: string | null;
+    type: Vacation['type'];
+    status: VacationStatus;
+    startDate: Date;
+    endDate: Date;
+    days: Prisma.Decimal | null;
+  }[];
+  days: TeamCalendarDay[];
+  rules: CoverageRule[];
+}
+
+@Injectable()
+export class CoverageService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+    private readonly holidayCalendarService: HolidayCalendarService,
+  ) {}
+
+  async findRules(currentUser: User, departmentId?: string): Promise<CoverageRule[]> {
+    const scope = this.departmentScope(currentUser, departmentId);
+
+    return this.prisma.coverageRule.findMany({
+      where: {
+        propertyId: currentUser.propertyId!,
+        ...(scope && { OR: [{ departmentId: scope }, { departmentId: null }] }),
+      },
+      include: {
+        department: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: [{ type: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async createRule(createDto: CreateCoverageRuleDto, currentUser: User): Promise<CoverageRule> {
+    if (currentUser.role === Role.DEPARTMENT_ADMIN && createDto.departmentId !== currentUser.departmentId) {
+      throw new ForbiddenException('Department admins can only add rules for their own department');
+    }
+    if (createDto.departmentId) {
+      const department = await this.prisma.department.findFirst({
+        where: { id: createDto.departmentId, propertyId: currentUser.propertyId! },
+      });
+      if (!department) {
+        throw new NotFoundException('Department not found');
+      }
+    }
+    this.assertValidPeriod(createDto.startDate, createDto.endDate);
+
+    const rule = await this.prisma.coverageRule.create({
+      data: {
+        ...createDto,
+        propertyId: currentUser.propertyId!,
+        startDate: createDto.startDate ? new Date(createDto.startDate) : undefined,
+        endDate: createDto.endDate ? new Date(createDto.endDate) : undefined,
+        leaveTypes: createDto.leaveTypes ?? [],
+      },
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'CoverageRule', rule.id, rule);
+
+    return rule;
+  }
+
+  async updateRule(id: string, updateDto: UpdateCoverageRuleDto, currentUser: User): Promise<CoverageRule> {
+    const rule = await this.findRule(id, currentUser);
+    this.assertValidPeriod(
+      updateDto.startDate ?? rule.startDate?.toISOString(),
+      updateDto.endDate ?? rule.endDate?.toISOString(),
+    );
+
+    const updatedRule = await this.prisma.coverageRule.update({
+      where: { id },
+      data: {
+        ...updateDto,
+        startDate: updateDto.startDate ? new Date(updateDto.startDate) : undefined,
+        endDate: updateDto.endDate ? new Date(updateDto.endDate) : undefined,
+      },
+    });
+
+    await this.auditService.logUpdate(currentUser.id, 'CoverageRule', id, rule, updatedRule);
+
+    return updatedRule;
+  }
+
+  async removeRule(id: string, currentUser: User): Promise<void> {
+    const rule = await this.findRule(id, currentUser);
+
+    await this.prisma.coverageRule.delete({ where: { id } });
+
+    await this.auditService.logDelete(currentUser.id, 'CoverageRule', id, rule);
+  }
+
+  /** Approved and pending absences of a department, with the rules that apply to it */
+  async getTeamCalendar(query: TeamCalendarQueryDto, currentUser: User): Promise<TeamCalendar> {
+    const departmentId = this.departmentScope(currentUser, query.departmentId) ?? currentUser.departmentId;
+    if (!departmentId) {
+      throw new BadRequestException('A department is required');
+    }
+
+    const from = new Date(query.from);
+    const to = new Date(query.to);
+    if (to < from) {
+      throw new BadRequestException('The end of the range cannot be before its start');
+    }
+    if ((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000) >= MAX_CALENDAR_DAYS) {
+      throw new BadRequestException(`The calendar covers at most ${MAX_CALENDAR_DAYS} days at a time`);
+    }
+
+    const [vacations, rules] = await Promise.all([
+      this.prisma.vacation.findMany({
+        where: {
+          status: { in: [VacationStatus.APPROVED, VacationStatus.PENDING] },
+          startDate: { lte: to },
+          endDate: { gte: from },
+          user: { departmentId, deletedAt: null },
+        },
+        include: {
+          user: {
+            select: {
+              firstName: true,
+              lastName: true,
+              position: true,
+            },
+          },
+        },
+        orderBy: { startDate: 'asc' },
+      }),
+      this.prisma.coverageRule.findMany({
+        where: {
+          propertyId: currentUser.propertyId!,
+          isActive: true,
+          OR: [{ departmentId }, { departmentId: null }],
+        },
+      }),
+    ]);
+
+    const absences = vacations.map((vacation) => ({
+      id: vacation.id,
+      userId: vacation.userId,
+      name: `${vacation.user.firstName} ${vacation.user.lastName}`,
+      position: vacation.user.position,
+      type: vacation.type,
+      status: vacation.status,
+      startDate: vacation.startDate,
+      endDate: vacation.endDate,
+      days: vacation.days,
+    }));
+
+    return { departmentId, from, to, absences, days: teamCalendarDays(absences, from, to), rules };
+  }
+
+  /**
+   * Rules that approving the vacation would break on the requester's working
+   * days. Department rules count the department's approved absences;
+   * property-wide rules count the whole property's.
+   */
+  async checkApproval(vacation: Vacation): Promise<CoverageViolation[]> {
+    const requester = await this.prisma.user.findUnique({
+      where: { id: vacation.userId },
+      select: {
+        departmentId: true,
+        position: true,
+        propertyId: true,
+      },
+    });
+    const propertyId = vacation.propertyId ?? requester?.propertyId;
+    if (!requester || !propertyId) {
+      return [];
+    }
+
+    const rules = await this.prisma.coverageRule.findMany({
+      where: {
+        propertyId,
+        isActive: true,
+        OR: [{ departmentId: null }, ...(requester.departmentId ? [{ departmentId: requester.departmentId }] : [])],
+      },
+    });
+    if (rules.length === 0) {
+      return [];
+    }
+
+    const approved = await this.prisma.vacation.findMany({
+      where: {
+        id: { not: vacation.id },
+        status: VacationStatus.APPROVED,
+        startDate: { lte: vacation.endDate },
+        endDate: { gte: vacation.startDate },
+        user: { propertyId, deletedAt: null },
+      },
+      select: {
+        userId: true,
+        startDate: true,
+        endDate: true,
+        user: {
+          select: {
+            departmentId: true,
+            position: true,
+          },
+        },
+      },
+    });
+    const absences = approved.map((absence) => ({
+      userId: absence.userId,
+      position: absence.user.position,
+      departmentId: absence.user.departmentId,
+      startDate: absence.startDate,
+      endDate: absence.endDate,
+    }));
+
+    const { breakdown } = await this.holidayCalendarService.countLeaveDays(
+      { propertyId, departmentId: requester.departmentId },
+      vacation.startDate,
+      vacation.endDate,
+    );
+
+    const request = {
+      userId: vacation.userId,
+      position: requester.position,
+      type: vacation.type,
+      startDate: vacation.startDate,
+      endDate: vacation.endDate,
+      workingDays: breakdown.filter((day) => day.charged > 0).map((day) => day.date),
+    };
+    const departmentRules = rules.filter((rule) => rule.departmentId);
+    const propertyRules = rules.filter((rule) => !rule.departmentId);
+
+    return [
+      ...coverageViolations(
+        request,
+        departmentRules,
+        absences.filter((absence) => absence.departmentId === requester.departmentId),
+      ),
+      ...coverageViolations(request, propertyRules, absences),
+    ];
+  }
+
+  /** Department admins are limited to their own department */
+  private departmentScope(currentUser: User, departmentId?: string): string | undefined {
+    if (currentUser.role === Role.DEPARTMENT_ADMIN || currentUser.role === Role.STAFF) {
+      if (departmentId && departmentId !== currentUser.departmentId) {
+        throw new ForbiddenException('Cannot access other departments');
+      }
+      return currentUser.departmentId ?? undefined;
+    }
+    return departmentId;
+  }
+
+  private assertValidPeriod(startDate?: string, endDate?: string): void {
+    if (startDate && endDate && new Date(endDate) < new Date(startDate)) {
+      throw new BadRequestException('The period cannot end before it starts');
+    }
+  }
+
+  private async findRule(id: string, currentUser: User): Promise<CoverageRule> {
+    const rule = await this.prisma.coverageRule.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+    });
+    if (!rule) {
+      throw new NotFoundException('Coverage rule not found');
+    }
+    if (currentUser.role === Role.DEPARTMENT_ADMIN && rule.departmentId !== currentUser.departmentId) {
+      throw new ForbiddenException('Department admins can only change rules for their own department');
+    }
+    return rule;
+  }
+}
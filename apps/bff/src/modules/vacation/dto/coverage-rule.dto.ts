@@ -0,0 +1,95 @@
+import {
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, OmitType, PartialType } from '@nestjs/swagger';
+import { CoverageEnforcement, CoverageRuleType, VacationType } from '@prisma/client';
+
+export class CreateCoverageRuleDto {
+  @ApiProperty({ example: 'Front desk cover' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ enum: CoverageRuleType, example: CoverageRuleType.MAX_ABSENT })
+  @IsEnum(CoverageRuleType)
+  type: CoverageRuleType;
+
+  @ApiPropertyOptional({ enum: CoverageEnforcement, example: CoverageEnforcement.BLOCK })
+  @IsOptional()
+  @IsEnum(CoverageEnforcement)
+  enforcement?: CoverageEnforcement;
+
+  @ApiPropertyOptional({ example: 'dept-123', description: 'Omit to cover the whole property' })
+  @IsOptional()
+  @IsString()
+  departmentId?: string;
+
+  @ApiPropertyOptional({ example: 2, description: 'Required for MAX_ABSENT rules' })
+  @ValidateIf((rule) => rule.type === CoverageRuleType.MAX_ABSENT || rule.maxAbsent !== undefined)
+  @IsInt()
+  @Min(0)
+  maxAbsent?: number;
+
+  @ApiPropertyOptional({ example: 'Front Desk Agent', description: 'Only counts staff with this position' })
+  @IsOptional()
+  @IsString()
+  position?: string;
+
+  @ApiPropertyOptional({ example: '2025-12-20', description: 'Required for BLACKOUT rules' })
+  @ValidateIf((rule) => rule.type === CoverageRuleType.BLACKOUT || rule.startDate !== undefined)
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({ example: '2026-01-05', description: 'Last day of the period; required for BLACKOUT rules' })
+  @ValidateIf((rule) => rule.type === CoverageRuleType.BLACKOUT || rule.endDate !== undefined)
+  @IsDateString()
+  endDate?: string;
+
+  @ApiPropertyOptional({ enum: VacationType, isArray: true, description: 'Omit to apply to every leave type' })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(VacationType, { each: true })
+  leaveTypes?: VacationType[];
+}
+
+export class UpdateCoverageRuleDto extends PartialType(
+  OmitType(CreateCoverageRuleDto, ['type', 'departmentId'] as const)
+) {
+  // May be changed but not cleared: a MAX_ABSENT rule without a limit would block every request
+  @ApiPropertyOptional({ example: 2 })
+  @ValidateIf((rule) => rule.maxAbsent !== undefined)
+  @IsInt()
+  @Min(0)
+  maxAbsent?: number;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class TeamCalendarQueryDto {
+  @ApiProperty({ example: '2025-12-01' })
+  @IsDateString()
+  from: string;
+
+  @ApiProperty({ example: '2025-12-31' })
+  @IsDateString()
+  to: string;
+
+  @ApiPropertyOptional({ example: 'dept-123', description: "Defaults to the current user's department" })
+  @IsOptional()
+  @IsString()
+  departmentId?: string;
+}
@@ -0,0 +1,71 @@
+import {
+  ArrayMaxSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, OmitType, PartialType } from '@nestjs/swagger';
+
+export class CreateHolidayDto {
+  @ApiProperty({ example: '2025-12-25' })
+  @IsDateString()
+  date: string;
+
+  @ApiProperty({ example: 'Christmas Day' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ example: false, description: 'Only the afternoon is off' })
+  @IsOptional()
+  @IsBoolean()
+  isHalfDay?: boolean;
+}
+
+export class UpdateHolidayDto extends PartialType(OmitType(CreateHolidayDto, ['date'] as const)) {}
+
+export class UpdateWorkWeekDto {
+  @ApiProperty({ example: [1, 2, 3, 4, 5], description: 'ISO weekdays, 1 = Monday; empty clears a department override' })
+  @IsArray()
+  @ArrayUnique()
+  @ArrayMaxSize(7)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(7, { each: true })
+  workWeek: number[];
+
+  @ApiPropertyOptional({ example: 'dept-123', description: 'Sets the department override instead of the property work week' })
+  @IsOptional()
+  @IsString()
+  departmentId?: string;
+}
+
+export class LeaveDaysQueryDto {
+  @ApiProperty({ example: '2025-12-22' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ example: '2025-12-26', description: 'Last day of leave' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiPropertyOptional({ example: false, description: 'Leave starts at midday' })
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  halfDayStart?: boolean;
+
+  @ApiPropertyOptional({ example: false, description: 'Leave ends at midday' })
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  halfDayEnd?: boolean;
+}
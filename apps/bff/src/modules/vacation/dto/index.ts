@@ -0,0 +1,4 @@
+export * from './leave-policy.dto';
+export * from './leave-adjustment.dto';
+export * from './holiday.dto';
+export * from './coverage-rule.dto';
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { IsEnum, IsNumber, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { VacationType } from '@prisma/client';
+
+export class CreateLeaveAdjustmentDto {
+  @ApiProperty({ example: 'clx1234567890' })
+  @IsString()
+  userId: string;
+
+  @ApiProperty({ enum: VacationType, example: VacationType.ANNUAL })
+  @IsEnum(VacationType)
+  leaveType: VacationType;
+
+  @ApiProperty({ example: 2.5, description: 'Positive credits the balance, negative debits it' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  days: number;
+
+  @ApiProperty({ example: 'Days carried over from the previous system' })
+  @IsString()
+  @MaxLength(500)
+  note: string;
+}
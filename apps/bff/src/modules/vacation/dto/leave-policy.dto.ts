@@ -0,0 +1,61 @@
+import { IsBoolean, IsDateString, IsEnum, IsNumber, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, OmitType, PartialType } from '@nestjs/swagger';
+import { EmploymentType, VacationType } from '@prisma/client';
+
+export class CreateLeavePolicyDto {
+  @ApiProperty({ example: 'Annual leave' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ enum: VacationType, example: VacationType.ANNUAL })
+  @IsEnum(VacationType)
+  leaveType: VacationType;
+
+  @ApiPropertyOptional({ example: 'dept-123', description: 'Limits the policy to one department' })
+  @IsOptional()
+  @IsString()
+  departmentId?: string;
+
+  @ApiPropertyOptional({ enum: EmploymentType, description: 'Limits the policy to one employment type' })
+  @IsOptional()
+  @IsEnum(EmploymentType)
+  employmentType?: EmploymentType;
+
+  @ApiProperty({ example: 15, description: 'Days accrued per year, credited monthly' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(366)
+  annualDays: number;
+
+  @ApiPropertyOptional({ example: 5, description: 'Days carried into the next year; omit to carry everything over' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  carryOverCap?: number;
+
+  @ApiPropertyOptional({ example: 90, description: 'Days after hiring before this leave can be taken' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 0 })
+  @Min(0)
+  probationDays?: number;
+
+  @ApiPropertyOptional({ example: false, description: 'Accept requests beyond the balance with a warning' })
+  @IsOptional()
+  @IsBoolean()
+  allowNegativeBalance?: boolean;
+
+  @ApiPropertyOptional({ example: '2025-01-01', description: 'Accrual starts on this date; defaults to today' })
+  @IsOptional()
+  @IsDateString()
+  effectiveFrom?: string;
+}
+
+export class UpdateLeavePolicyDto extends PartialType(
+  OmitType(CreateLeavePolicyDto, ['leaveType', 'departmentId', 'employmentType'] as const)
+) {
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,239 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { PublicHoliday, User } from '@prisma/client';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { CreateHolidayDto, UpdateHolidayDto, UpdateWorkWeekDto } from './dto';
+import { ICalendarFormatError } from '@staffnbdt/shared';
+import { LeaveDayCount, ParsedHolidays, countLeaveDays, effectiveWorkWeek, parseIcsHolidays } from './holiday-calendar';
+
+export interface HolidayImportResult {
+  created: number;
+  updated: number;
+  skipped: string[];
+}
+
+@Injectable()
+export class HolidayCalendarService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async findHolidays(currentUser: User, year?: number): Promise<PublicHoliday[]> {
+    return this.prisma.publicHoliday.findMany({
+      where: {
+        propertyId: currentUser.propertyId!,
+        ...(year && {
+          date: {
+            gte: new Date(Date.UTC(year, 0, 1)),
+            lt: new Date(Date.UTC(year + 1, 0, 1)),
+          },
+        }),
+      },
+      orderBy: { date: 'asc' },
+    });
+  }
+
+  async createHoliday(createDto: CreateHolidayDto, currentUser: User): Promise<PublicHoliday> {
+    const date = new Date(createDto.date);
+    const existing = await this.prisma.publicHoliday.findUnique({
+      where: { propertyId_date: { propertyId: currentUser.propertyId!, date } },
+    });
+    if (existing) {
+      throw new ConflictException(`${createDto.date} is already a holiday (${existing.name})`);
+    }
+
+    const holiday = await this.prisma.publicHoliday.create({
+      data: {
+        propertyId: currentUser.propertyId!,
+        date,
+        name: createDto.name,
+        isHalfDay: createDto.isHalfDay ?? false,
+      },
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'PublicHoliday', holiday.id, holiday);
+
+    return holiday;
+  }
+
+  async updateHoliday(id: string, updateDto: UpdateHolidayDto, currentUser: User): Promise<PublicHoliday> {
+    const holiday = await this.findHoliday(id, currentUser);
+
+    const updatedHoliday = await this.prisma.publicHoliday.update({
+      where: { id },
+      data: updateDto,
+    });
+
+    await this.auditService.logUpdate(currentUser.id, 'PublicHoliday', id, holiday, updatedHoliday);
+
+    return updatedHoliday;
+  }
+
+  async removeHoliday(id: string, currentUser: User): Promise<void> {
+    const holiday = await this.findHoliday(id, currentUser);
+
+    await this.prisma.publicHoliday.delete({ where: { id } });
+
+    await this.auditService.logDelete(currentUser.id, 'PublicHoliday', id, holiday);
+  }
+
+  /**
+   * Adds the days of an .ics calendar as holidays. Dates that are already
+   * holidays take the imported name and keep their half-day setting.
+   */
+  async importIcs(ics: string, currentUser: User): Promise<HolidayImportResult> {
+    let parsed: ParsedHolidays;
+    try {
+      parsed = parseIcsHolidays(ics);
+    } catch (error) {
+      if (error instanceof ICalendarFormatError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+    const { holidays, skipped } = parsed;
+    if (holidays.length === 0) {
+      throw new BadRequestException('The calendar has no all-day events');
+    }
+
+    const propertyId = currentUser.propertyId!;
+    const existing = await this.prisma.publicHoliday.findMany({
+      where: { propertyId, date: { in: holidays.map((holiday) => new Date(holiday.date)) } },
+      select: { date: true },
+    });
+    const existingDates = new Set(existing.map((holiday) => holiday.date.toISOString().split('T')[0]));
+
+    await this.prisma.$transaction(
+      holidays.map((holiday) =>
+        this.prisma.publicHoliday.upsert({
+          where: { propertyId_date: { propertyId, date: new Date(holiday.date) } },
+          create: { propertyId, date: new Date(holiday.date), name: holiday.name },
+          update: { name: holiday.name },
+        }),
+      ),
+    );
+
+    const result = {
+      created: holidays.filter((holiday) => !existingDates.has(holiday.date)).length,
+      updated: holidays.filter((holiday) => existingDates.has(holiday.date)).length,
+    };
+    await this.auditService.logCreate(currentUser.id, 'PublicHoliday', propertyId, { import: 'ics', ...result });
+
+    return { ...result, skipped };
+  }
+
+  async getWorkWeek(currentUser: User) {
+    const property = await this.prisma.property.findUnique({
+      where: { id: currentUser.propertyId! },
+      select: {
+        workWeek: true,
+        departments: {
+          where: { workWeek: { isEmpty: false } },
+          select: {
+            id: true,
+            name: true,
+            workWeek: true,
+          },
+        },
+      },
+    });
+    if (!property) {
+      throw new NotFoundException('Property not found');
+    }
+
+    return property;
+  }
+
+  async updateWorkWeek(updateDto: UpdateWorkWeekDto, currentUser: User) {
+    const workWeek = [...updateDto.workWeek].sort((a, b) => a - b);
+
+    if (updateDto.departmentId) {
+      const department = await this.prisma.department.findFirst({
+        where: { id: updateDto.departmentId, propertyId: currentUser.propertyId! },
+      });
+      if (!department) {
+        throw new NotFoundException('Department not found');
+      }
+
+      await this.prisma.department.update({ where: { id: department.id }, data: { workWeek } });
+      await this.auditService.logUpdate(
+        currentUser.id,
+        'Department',
+        department.id,
+        { workWeek: department.workWeek },
+        { workWeek },
+      );
+    } else {
+      if (workWeek.length === 0) {
+        throw new BadRequestException('The property work week needs at least one working day');
+      }
+
+      const { workWeek: previous } = await this.getWorkWeek(currentUser);
+      await this.prisma.property.update({
+        where: { id: currentUser.propertyId! },
+        data: { workWeek },
+      });
+      await this.auditService.logUpdate(
+        currentUser.id,
+        'Property',
+        currentUser.propertyId!,
+        { workWeek: previous },
+        { workWeek },
+      );
+    }
+
+    return this.getWorkWeek(currentUser);
+  }
+
+  /** Leave days a request would be charged, using the user's department work week and the property holidays */
+  async countLeaveDays(
+    user: Pick<User, 'propertyId' | 'departmentId'>,
+    startDate: Date,
+    endDate: Date,
+    halfDayStart = false,
+    halfDayEnd = false,
+  ): Promise<LeaveDayCount> {
+    const firstDay = new Date(startDate.toISOString().split('T')[0]);
+    const lastDay = new Date(endDate.toISOString().split('T')[0]);
+    const [property, department, holidays] = await Promise.all([
+      user.propertyId
+        ? this.prisma.property.findUnique({ where: { id: user.propertyId }, select: { workWeek: true } })
+        : null,
+      user.departmentId
+        ? this.prisma.department.findUnique({ where: { id: user.departmentId }, select: { workWeek: true } })
+        : null,
+      user.propertyId
+        ? this.prisma.publicHoliday.findMany({
+            where: { propertyId: user.propertyId, date: { gte: firstDay, lte: lastDay } },
+          })
+        : ([] as PublicHoliday[]),
+    ]);
+
+    return countLeaveDays(
+      startDate,
+      endDate,
+      {
+        workWeek: effectiveWorkWeek(property?.workWeek ?? [1, 2, 3, 4, 5], department?.workWeek),
+        holidays: new Map(
+          holidays.map((holiday) => [
+            holiday.date.toISOString().split('T')[0],
+            { name: holiday.name, isHalfDay: holiday.isHalfDay },
+          ]),
+        ),
+      },
+      halfDayStart,
+      halfDayEnd,
+    );
+  }
+
+  private async findHoliday(id: string, currentUser: User): Promise<PublicHoliday> {
+    const holiday = await this.prisma.publicHoliday.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+    });
+    if (!holiday) {
+      throw new NotFoundException('Holiday not found');
+    }
+    return holiday;
+  }
+}
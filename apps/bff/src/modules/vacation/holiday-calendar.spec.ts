@@ -0,0 +1,86 @@
+import { countLeaveDays, effectiveWorkWeek, parseIcsHolidays } from './holiday-calendar';
+
+describe('holiday calendar', () => {
+  const calendar = {
+    workWeek: [1, 2, 3, 4, 5],
+    holidays: new Map([
+      ['2025-12-24', { name: 'Christmas Eve', isHalfDay: true }],
+      ['2025-12-25', { name: 'Christmas Day', isHalfDay: false }],
+    ]),
+  };
+
+  it('charges only working days that are not holidays', () => {
+    const count = countLeaveDays(new Date('2025-12-19'), new Date('2025-12-26'), calendar);
+
+    expect(count.days).toBe(4.5);
+    expect(count.breakdown).toEqual([
+      { date: '2025-12-19', charged: 1, note: null },
+      { date: '2025-12-20', charged: 0, note: 'Saturday is not a working day' },
+      { date: '2025-12-21', charged: 0, note: 'Sunday is not a working day' },
+      { date: '2025-12-22', charged: 1, note: null },
+      { date: '2025-12-23', charged: 1, note: null },
+      { date: '2025-12-24', charged: 0.5, note: 'Christmas Eve (half-day holiday)' },
+      { date: '2025-12-25', charged: 0, note: 'Christmas Day' },
+      { date: '2025-12-26', charged: 1, note: null },
+    ]);
+  });
+
+  it('charges half days at either end of a request', () => {
+    expect(countLeaveDays(new Date('2025-06-02'), new Date('2025-06-04'), calendar, true, true).days).toBe(2);
+    expect(countLeaveDays(new Date('2025-06-02'), new Date('2025-06-02'), calendar, true).days).toBe(0.5);
+    // Saturday stays free even when the request ends there at midday
+    expect(countLeaveDays(new Date('2025-06-06'), new Date('2025-06-07'), calendar, false, true).days).toBe(1);
+  });
+
+  it('uses the department work week when it has one', () => {
+    expect(effectiveWorkWeek([1, 2, 3, 4, 5], [])).toEqual([1, 2, 3, 4, 5]);
+    expect(effectiveWorkWeek([1, 2, 3, 4, 5], [3, 4, 5, 6, 7])).toEqual([3, 4, 5, 6, 7]);
+
+    const weekendShift = { workWeek: [3, 4, 5, 6, 7], holidays: new Map() };
+    expect(countLeaveDays(new Date('2025-06-02'), new Date('2025-06-08'), weekendShift).days).toBe(5);
+  });
+
+  it('imports all-day events from an .ics file', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VEVENT',
+      'UID:2025-01-01@holidays',
+      'DTSTART;VALUE=DATE:20250101',
+      'DTEND;VALUE=DATE:20250102',
+      'SUMMARY:New Year\'s Day',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:2025-12-25@holidays',
+      'DTSTART;VALUE=DATE:20251225',
+      'DTEND;VALUE=DATE:20251227',
+      'SUMMARY:Christmas\\, Boxing',
+      '  Day',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:2025-05-01@holidays',
+      'DTSTART:20250501T000000Z',
+      'SUMMARY:Labour Day',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20251231',
+      'SUMMARY:New Year\'s Eve',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    expect(parseIcsHolidays(ics)).toEqual({
+      holidays: [
+        { date: '2025-01-01', name: "New Year's Day" },
+        { date: '2025-12-25', name: 'Christmas, Boxing Day' },
+        { date: '2025-12-26', name: 'Christmas, Boxing Day' },
+        { date: '2025-05-01', name: 'Labour Day' },
+      ],
+      skipped: ['Event #4: missing UID'],
+    });
+  });
+
+  it('rejects files that are not calendars', () => {
+    expect(() => parseIcsHolidays('date,name\n2025-01-01,New Year')).toThrow('Feed is not an iCalendar document');
+  });
+});
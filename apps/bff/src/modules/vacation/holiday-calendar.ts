@@ -0,0 +1,110 @@
+import { parseICalendar } from '@staffnbdt/shared';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ParsedHoliday {
+  date: string;
+  name: string;
+}
+
+export interface ParsedHolidays {
+  holidays: ParsedHoliday[];
+  // Events that could not be read, described for the import result
+  skipped: string[];
+}
+
+export interface HolidayDay {
+  name: string;
+  isHalfDay: boolean;
+}
+
+export interface WorkCalendar {
+  // ISO weekdays, 1 = Monday
+  workWeek: number[];
+  holidays: Map<string, HolidayDay>;
+}
+
+export interface LeaveDay {
+  date: string;
+  charged: number;
+  // Why less than a full day is charged
+  note: string | null;
+}
+
+export interface LeaveDayCount {
+  days: number;
+  breakdown: LeaveDay[];
+}
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+const isoWeekday = (date: Date): number => date.getUTCDay() || 7;
+
+const WEEKDAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+/** The department's work week when it has one, otherwise the property's */
+export function effectiveWorkWeek(propertyWorkWeek: number[], departmentWorkWeek: number[] = []): number[] {
+  return departmentWorkWeek.length > 0 ? departmentWorkWeek : propertyWorkWeek;
+}
+
+/**
+ * Leave charged for each day from `startDate` to `endDate` inclusive. Days
+ * outside the work week and public holidays are free, half-day holidays cost
+ * half a day, and a request may start or end at midday.
+ */
+export function countLeaveDays(
+  startDate: Date,
+  endDate: Date,
+  calendar: WorkCalendar,
+  halfDayStart = false,
+  halfDayEnd = false,
+): LeaveDayCount {
+  const first = toDateKey(startDate);
+  const last = toDateKey(endDate);
+  const breakdown: LeaveDay[] = [];
+
+  for (let day = new Date(`${first}T00:00:00.000Z`); toDateKey(day) <= last; day = new Date(day.getTime() + DAY_MS)) {
+    const date = toDateKey(day);
+    const holiday = calendar.holidays.get(date);
+    let charged = 1;
+    let note: string | null = null;
+
+    if (!calendar.workWeek.includes(isoWeekday(day))) {
+      charged = 0;
+      note = `${WEEKDAY_NAMES[isoWeekday(day) - 1]} is not a working day`;
+    } else if (holiday) {
+      charged = holiday.isHalfDay ? 0.5 : 0;
+      note = holiday.isHalfDay ? `${holiday.name} (half-day holiday)` : holiday.name;
+    }
+
+    if (charged > 0.5 && ((date === first && halfDayStart) || (date === last && halfDayEnd))) {
+      charged = 0.5;
+      note = 'Half day';
+    }
+
+    breakdown.push({ date, charged, note });
+  }
+
+  return { days: breakdown.reduce((sum, day) => sum + day.charged, 0), breakdown };
+}
+
+/**
+ * Reads the all-day events of an iCalendar (.ics) file as holidays, one per
+ * day for events spanning several days (DTEND is exclusive). Recurrence rules
+ * are not expanded; public holiday feeds list each year's dates.
+ */
+export function parseIcsHolidays(ics: string): ParsedHolidays {
+  const { events, errors } = parseICalendar(ics);
+  const holidays: ParsedHoliday[] = [];
+
+  for (const event of events) {
+    const name = event.summary?.replace(/\s+/g, ' ').trim() || 'Holiday';
+    let day = new Date(`${event.startDate}T00:00:00.000Z`);
+    while (toDateKey(day) < event.endDate) {
+      holidays.push({ date: toDateKey(day), name });
+      day = new Date(day.getTime() + DAY_MS);
+    }
+  }
+
+  return { holidays, skipped: errors };
+}
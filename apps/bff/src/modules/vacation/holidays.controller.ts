@@ -0,0 +1,103 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  ParseIntPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiConsumes, ApiQuery } from '@nestjs/swagger';
+import { memoryStorage } from 'multer';
+import { HolidayCalendarService } from './holiday-calendar.service';
+import { CreateHolidayDto, UpdateHolidayDto, UpdateWorkWeekDto } from './dto';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../shared/guards/roles.guard';
+import { Roles } from '../../shared/decorators/roles.decorator';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+import { Role, User } from '@prisma/client';
+
+@ApiTags('Vacation')
+@Controller('holidays')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class HolidaysController {
+  constructor(private readonly holidayCalendarService: HolidayCalendarService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get the property holiday calendar' })
+  @ApiQuery({ name: 'year', required: false, type: Number })
+  async findAll(
+    @Query('year', new ParseIntPipe({ optional: true })) year: number | undefined,
+    @CurrentUser() currentUser: User,
+  ) {
+    const holidays = await this.holidayCalendarService.findHolidays(currentUser, year);
+    return CustomApiResponse.success(holidays, 'Holidays retrieved successfully');
+  }
+
+  @Post()
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER)
+  @ApiOperation({ summary: 'Add a holiday' })
+  async create(@Body() createDto: CreateHolidayDto, @CurrentUser() currentUser: User) {
+    const holiday = await this.holidayCalendarService.createHoliday(createDto, currentUser);
+    return CustomApiResponse.success(holiday, 'Holiday created successfully');
+  }
+
+  @Post('import')
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER)
+  @UseInterceptors(FileInterceptor('file', { storage: memoryStorage() }))
+  @ApiOperation({ summary: 'Import holidays from an iCalendar (.ics) file' })
+  @ApiConsumes('multipart/form-data')
+  async importIcs(@UploadedFile() file: Express.Multer.File, @CurrentUser() currentUser: User) {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    const result = await this.holidayCalendarService.importIcs(file.buffer.toString('utf-8'), currentUser);
+    return CustomApiResponse.success(result, 'Holidays imported successfully');
+  }
+
+  @Get('work-week')
+  @ApiOperation({ summary: 'Get the property work week and department overrides' })
+  async getWorkWeek(@CurrentUser() currentUser: User) {
+    const workWeek = await this.holidayCalendarService.getWorkWeek(currentUser);
+    return CustomApiResponse.success(workWeek, 'Work week retrieved successfully');
+  }
+
+  @Put('work-week')
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER)
+  @ApiOperation({ summary: 'Set the property work week or a department override' })
+  async updateWorkWeek(@Body() updateDto: UpdateWorkWeekDto, @CurrentUser() currentUser: User) {
+    const workWeek = await this.holidayCalendarService.updateWorkWeek(updateDto, currentUser);
+    return CustomApiResponse.success(workWeek, 'Work week updated successfully');
+  }
+
+  @Patch(':id')
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER)
+  @ApiOperation({ summary: 'Update a holiday' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateHolidayDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const holiday = await this.holidayCalendarService.updateHoliday(id, updateDto, currentUser);
+    return CustomApiResponse.success(holiday, 'Holiday updated successfully');
+  }
+
+  @Delete(':id')
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER)
+  @ApiOperation({ summary: 'Delete a holiday' })
+  async remove(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    await this.holidayCalendarService.removeHoliday(id, currentUser);
+    return CustomApiResponse.success(null, 'Holiday deleted successfully');
+  }
+}
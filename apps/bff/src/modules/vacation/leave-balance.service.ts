@@ -0,0 +1,371 @@
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { LeavePolicy, Prisma, Role, User, Vacation, VacationStatus, VacationType } from '@prisma/client';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { CreateLeaveAdjustmentDto, CreateLeavePolicyDto, UpdateLeavePolicyDto } from './dto';
+import {
+  LedgerEntry,
+  accrualStart,
+  assessRequest,
+  leaveDays,
+  ledgerBalance,
+  matchLeavePolicy,
+  pendingPostings,
+  probationEndsAt,
+  roundDays,
+} from './leave-balance';
+
+type LeaveHolder = Pick<User, 'id' | 'propertyId' | 'departmentId' | 'employmentType' | 'hireDate'>;
+
+export interface LeaveBalance {
+  leaveType: VacationType;
+  policy: Pick<LeavePolicy, 'id' | 'name' | 'annualDays' | 'carryOverCap' | 'allowNegativeBalance'>;
+  balance: number;
+  // Days in requests still awaiting approval
+  pending: number;
+  available: number;
+  probationEndsAt: Date | null;
+}
+
+export interface RequestCheck {
+  policy: LeavePolicy | null;
+  warning: string | null;
+}
+
+/** Days a request is charged, for rows created before the count was stored */
+export const vacationDays = (vacation: Pick<Vacation, 'days' | 'startDate' | 'endDate'>): number =>
+  vacation.days !== null ? Number(vacation.days) : leaveDays(vacation.startDate, vacation.endDate);
+
+@Injectable()
+export class LeaveBalanceService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async findPolicies(currentUser: User): Promise<LeavePolicy[]> {
+    return this.prisma.leavePolicy.findMany({
+      where: { propertyId: currentUser.propertyId! },
+      include: {
+        department: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: [{ leaveType: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async createPolicy(createDto: CreateLeavePolicyDto, currentUser: User): Promise<LeavePolicy> {
+    if (createDto.departmentId) {
+      const department = await this.prisma.department.findFirst({
+        where: { id: createDto.departmentId, propertyId: currentUser.propertyId! },
+      });
+      if (!department) {
+        throw new NotFoundException('Department not found');
+      }
+    }
+
+    const policy = await this.prisma.leavePolicy.create({
+      data: {
+        ...createDto,
+        propertyId: currentUser.propertyId!,
+        effectiveFrom: createDto.effectiveFrom ? new Date(createDto.effectiveFrom) : undefined,
+      },
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'LeavePolicy', policy.id, policy);
+
+    return policy;
+  }
+
+  async updatePolicy(id: string, updateDto: UpdateLeavePolicyDto, currentUser: User): Promise<LeavePolicy> {
+    const policy = await this.findPolicy(id, currentUser);
+
+    const updatedPolicy = await this.prisma.leavePolicy.update({
+      where: { id },
+      data: {
+        ...updateDto,
+        effectiveFrom: updateDto.effectiveFrom ? new Date(updateDto.effectiveFrom) : undefined,
+      },
+    });
+
+    await this.auditService.logUpdate(currentUser.id, 'LeavePolicy', id, policy, updatedPolicy);
+
+    return updatedPolicy;
+  }
+
+  async removePolicy(id: string, currentUser: User): Promise<void> {
+    const policy = await this.findPolicy(id, currentUser);
+
+    await this.prisma.leavePolicy.delete({ where: { id } });
+
+    await this.auditService.logDelete(currentUser.id, 'LeavePolicy', id, policy);
+  }
+
+  async getBalances(userId: string, currentUser: User, now: Date = new Date()): Promise<LeaveBalance[]> {
+    const user = await this.findLeaveHolder(userId, currentUser);
+    const policies = await this.prisma.leavePolicy.findMany({
+      where: { propertyId: user.propertyId ?? undefined, isActive: true },
+    });
+
+    const balances: LeaveBalance[] = [];
+    for (const leaveType of Object.values(VacationType)) {
+      const policy = matchLeavePolicy(
+        policies.filter((candidate) => candidate.leaveType === leaveType),
+        user,
+      );
+      // Leave types without a policy are not limited
+      if (!policy) continue;
+
+      const balance = ledgerBalance(await this.syncLedger(user, leaveType, policy, now));
+      const pending = await this.pendingDays(user.id, leaveType);
+      balances.push({
+        leaveType,
+        policy: {
+          id: policy.id,
+          name: policy.name,
+          annualDays: policy.annualDays,
+          carryOverCap: policy.carryOverCap,
+          allowNegativeBalance: policy.allowNegativeBalance,
+        },
+        balance,
+        pending,
+        available: roundDays(balance - pending),
+        probationEndsAt: probationEndsAt(user.hireDate, policy.probationDays),
+      });
+    }
+
+    return balances;
+  }
+
+  async getLedger(userId: string, leaveType: VacationType, currentUser: User) {
+    await this.findLeaveHolder(userId, currentUser);
+
+    return this.prisma.leaveBalanceEntry.findMany({
+      where: { userId, leaveType },
+      orderBy: [{ effectiveDate: 'desc' }, { createdAt: 'desc' }],
+    });
+  }
+
+  async adjust(adjustmentDto: CreateLeaveAdjustmentDto, currentUser: User) {
+    if (currentUser.role === Role.STAFF) {
+      throw new ForbiddenException('Only admins can adjust leave balances');
+    }
+
+    await this.findLeaveHolder(adjustmentDto.userId, currentUser);
+
+    const entry = await this.prisma.leaveBalanceEntry.create({
+      data: {
+        userId: adjustmentDto.userId,
+        leaveType: adjustmentDto.leaveType,
+        kind: 'ADJUSTMENT',
+        days: adjustmentDto.days,
+        effectiveDate: new Date(),
+        note: adjustmentDto.note,
+        createdBy: currentUser.id,
+      },
+    });
+
+    await this.auditService.logCreate(currentUser.id, 'LeaveBalanceEntry', entry.id, entry);
+
+    return entry;
+  }
+
+  /**
+   * Checks a request against the policy that applies to the user. Throws when
+   * it falls within probation or would overdraw a balance that may not go
+   * negative; otherwise returns the warning to show, if any. Pass the
+   * transaction when the request is being approved inside one.
+   */
+  async checkRequest(
+    user: LeaveHolder,
+    leaveType: VacationType,
+    startDate: Date,
+    days: number,
+    excludeVacationId?: string,
+    now: Date = new Date(),
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<RequestCheck> {
+    const policy = await this.policyFor(user, leaveType, tx);
+    if (!policy) {
+      return { policy: null, warning: null };
+    }
+
+    const probationEnd = probationEndsAt(user.hireDate, policy.probationDays);
+    if (probationEnd && startDate < probationEnd) {
+      throw new BadRequestException(
+        `${policy.name} can only be taken from ${probationEnd.toISOString().split('T')[0]}, after probation`,
+      );
+    }
+
+    const balance = ledgerBalance(await this.syncLedger(user, leaveType, policy, now, tx));
+    const pending = await this.pendingDays(user.id, leaveType, excludeVacationId, tx);
+    const assessment = assessRequest(balance, pending, days, policy.allowNegativeBalance);
+    if (!assessment.allowed) {
+      throw new BadRequestException(assessment.warning);
+    }
+
+    return { policy, warning: assessment.warning };
+  }
+
+  /** Ledger debit for an approved request */
+  usageEntry(vacation: Vacation, currentUser: User): Prisma.LeaveBalanceEntryCreateManyInput {
+    const days = vacationDays(vacation);
+    return {
+      userId: vacation.userId,
+      leaveType: vacation.type,
+      kind: 'USAGE',
+      days: -days,
+      effectiveDate: new Date(),
+      vacationId: vacation.id,
+      note: `${days} days from ${vacation.startDate.toISOString().split('T')[0]}`,
+      createdBy: currentUser.id,
+    };
+  }
+
+  /** Ledger credit giving back what a cancelled request was charged, if anything */
+  async reversalEntry(vacation: Vacation, currentUser: User): Promise<Prisma.LeaveBalanceEntryCreateManyInput | null> {
+    const charged = await this.prisma.leaveBalanceEntry.aggregate({
+      where: { vacationId: vacation.id },
+      _sum: { days: true },
+    });
+    const days = -Number(charged._sum.days ?? 0);
+    if (days <= 0) {
+      return null;
+    }
+
+    return {
+      userId: vacation.userId,
+      leaveType: vacation.type,
+      kind: 'REVERSAL',
+      days,
+      effectiveDate: new Date(),
+      vacationId: vacation.id,
+      note: 'Approved request cancelled',
+      createdBy: currentUser.id,
+    };
+  }
+
+  async policyFor(
+    user: LeaveHolder,
+    leaveType: VacationType,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<LeavePolicy | null> {
+    if (!user.propertyId) {
+      return null;
+    }
+
+    const policies = await tx.leavePolicy.findMany({
+      where: { propertyId: user.propertyId, leaveType, isActive: true },
+    });
+    return matchLeavePolicy(policies, user);
+  }
+
+  /** Posts the accruals and expiries that have come due and returns the whole ledger */
+  private async syncLedger(
+    user: LeaveHolder,
+    leaveType: VacationType,
+    policy: LeavePolicy,
+    now: Date,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<LedgerEntry[]> {
+    const entries = await tx.leaveBalanceEntry.findMany({
+      where: { userId: user.id, leaveType },
+      select: {
+        kind: true,
+        days: true,
+        effectiveDate: true,
+        period: true,
+      },
+    });
+    const ledger = entries.map((entry) => ({ ...entry, days: Number(entry.days) }));
+
+    const postings = pendingPostings(
+      {
+        annualDays: Number(policy.annualDays),
+        carryOverCap: policy.carryOverCap !== null ? Number(policy.carryOverCap) : null,
+      },
+      accrualStart(user.hireDate, policy.effectiveFrom),
+      ledger,
+      now,
+    );
+    if (postings.length > 0) {
+      // Concurrent reads may race to post the same period; the unique period key keeps one
+      await tx.leaveBalanceEntry.createMany({
+        data: postings.map((posting) => ({ userId: user.id, leaveType, ...posting })),
+        skipDuplicates: true,
+      });
+    }
+
+    return [...ledger, ...postings];
+  }
+
+  private async pendingDays(
+    userId: string,
+    leaveType: VacationType,
+    excludeVacationId?: string,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<number> {
+    const pending = await tx.vacation.findMany({
+      where: {
+        userId,
+        type: leaveType,
+        status: VacationStatus.PENDING,
+        ...(excludeVacationId && { id: { not: excludeVacationId } }),
+      },
+      select: {
+        days: true,
+        startDate: true,
+        endDate: true,
+      },
+    });
+    return roundDays(pending.reduce((sum, vacation) => sum + vacationDays(vacation), 0));
+  }
+
+  private async findPolicy(id: string, currentUser: User): Promise<LeavePolicy> {
+    const policy = await this.prisma.leavePolicy.findFirst({
+      where: { id, propertyId: currentUser.propertyId! },
+    });
+    if (!policy) {
+      throw new NotFoundException('Leave policy not found');
+    }
+    return policy;
+  }
+
+  /**
+   * Staff see their own balance; department admins see their department's.
+   * Nobody reaches users of another property.
+   */
+  private async findLeaveHolder(userId: string, currentUser: User): Promise<LeaveHolder> {
+    if (currentUser.role === Role.STAFF && userId !== currentUser.id) {
+      throw new ForbiddenException('Can only access your own leave balance');
+    }
+
+    const user = await this.prisma.user.findFirst({
+      where: { id: userId, propertyId: currentUser.propertyId!, deletedAt: null },
+      select: {
+        id: true,
+        propertyId: true,
+        departmentId: true,
+        employmentType: true,
+        hireDate: true,
+      },
+    });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (
+      currentUser.role === Role.DEPARTMENT_ADMIN &&
+      user.id !== currentUser.id &&
+      user.departmentId !== currentUser.departmentId
+    ) {
+      throw new ForbiddenException('Cannot access leave balances from other departments');
+    }
+
+    return user;
+  }
+}
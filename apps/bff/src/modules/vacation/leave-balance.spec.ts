@@ -0,0 +1,124 @@
+import {
+  LedgerEntry,
+  accrualStart,
+  assessRequest,
+  leaveDays,
+  ledgerBalance,
+  matchLeavePolicy,
+  pendingPostings,
+  probationEndsAt,
+} from './leave-balance';
+
+describe('leave balance', () => {
+  it('counts both the first and the last day of a request', () => {
+    expect(leaveDays(new Date('2025-07-07'), new Date('2025-07-07'))).toBe(1);
+    expect(leaveDays(new Date('2025-07-07T00:00:00Z'), new Date('2025-07-11T23:59:59Z'))).toBe(5);
+  });
+
+  it('picks the most specific policy that covers the user', () => {
+    const policies = [
+      { id: 'property', departmentId: null, employmentType: null },
+      { id: 'part-time', departmentId: null, employmentType: 'PART_TIME' as const },
+      { id: 'kitchen', departmentId: 'kitchen', employmentType: null },
+      { id: 'kitchen-seasonal', departmentId: 'kitchen', employmentType: 'SEASONAL' as const },
+    ];
+
+    expect(matchLeavePolicy(policies, { departmentId: 'kitchen', employmentType: 'SEASONAL' })?.id).toBe('kitchen-seasonal');
+    expect(matchLeavePolicy(policies, { departmentId: 'kitchen', employmentType: 'PART_TIME' })?.id).toBe('kitchen');
+    expect(matchLeavePolicy(policies, { departmentId: 'spa', employmentType: 'PART_TIME' })?.id).toBe('part-time');
+    expect(matchLeavePolicy(policies, { departmentId: null, employmentType: null })?.id).toBe('property');
+    expect(matchLeavePolicy(policies.slice(1), { departmentId: 'spa', employmentType: 'FULL_TIME' })).toBeNull();
+  });
+
+  it('starts accruing at the hire date or the policy date, whichever is later', () => {
+    const policyDate = new Date('2025-01-01');
+    expect(accrualStart(new Date('2020-03-15'), policyDate)).toBe(policyDate);
+    expect(accrualStart(new Date('2025-03-15'), policyDate)).toEqual(new Date('2025-03-15'));
+    expect(accrualStart(null, policyDate)).toBe(policyDate);
+  });
+
+  it('ends probation the given number of days after the hire date', () => {
+    expect(probationEndsAt(new Date('2025-03-15T09:00:00Z'), 90)).toEqual(new Date('2025-06-13T00:00:00Z'));
+    expect(probationEndsAt(new Date('2025-03-15'), 0)).toBeNull();
+    expect(probationEndsAt(null, 90)).toBeNull();
+  });
+
+  it('accrues each full month once, adding up to the annual days', () => {
+    const postings = pendingPostings(
+      { annualDays: 20, carryOverCap: null },
+      new Date('2025-01-01'),
+      [],
+      new Date('2026-01-01'),
+    );
+
+    expect(postings).toHaveLength(12);
+    expect(postings[0]).toEqual({
+      kind: 'ACCRUAL',
+      days: 1.67,
+      effectiveDate: new Date('2025-01-31'),
+      period: '2025-01',
+      note: 'Accrual for 2025-01',
+    });
+    expect(ledgerBalance(postings)).toBe(20);
+
+    const later = pendingPostings(
+      { annualDays: 20, carryOverCap: null },
+      new Date('2025-01-01'),
+      postings,
+      new Date('2026-02-10'),
+    );
+    expect(later.map((posting) => posting.period)).toEqual(['2026-01']);
+  });
+
+  it('skips the month someone joined part-way through', () => {
+    const postings = pendingPostings(
+      { annualDays: 12, carryOverCap: null },
+      new Date('2025-03-15'),
+      [],
+      new Date('2025-06-01'),
+    );
+
+    expect(postings.map((posting) => posting.period)).toEqual(['2025-04', '2025-05']);
+  });
+
+  it('expires the balance above the carry-over cap at year end', () => {
+    const used: LedgerEntry = {
+      kind: 'USAGE',
+      days: -4,
+      effectiveDate: new Date('2025-08-01'),
+      period: null,
+    };
+
+    const postings = pendingPostings(
+      { annualDays: 12, carryOverCap: 5 },
+      new Date('2025-01-01'),
+      [used],
+      new Date('2026-03-01'),
+    );
+
+    const expiry = postings.find((posting) => posting.kind === 'EXPIRY');
+    expect(expiry).toEqual({
+      kind: 'EXPIRY',
+      days: -3,
+      effectiveDate: new Date('2026-01-01'),
+      period: '2025',
+      note: '3 days above the 5-day carry-over cap expired at the end of 2025',
+    });
+    expect(ledgerBalance([used, ...postings])).toBe(7);
+    expect(ledgerBalance([used, ...postings], new Date('2026-01-01'))).toBe(8);
+  });
+
+  it('refuses or warns when a request would overdraw the balance', () => {
+    expect(assessRequest(10, 2, 5, false)).toEqual({ allowed: true, remaining: 3, warning: null });
+    expect(assessRequest(10, 2, 9, false)).toEqual({
+      allowed: false,
+      remaining: -1,
+      warning: 'Requested 9 days but only 8 are available',
+    });
+    expect(assessRequest(10, 2, 9, true)).toEqual({
+      allowed: true,
+      remaining: -1,
+      warning: 'Requested 9 days but only 8 are available; the balance will be -1 days',
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { EmploymentType, LeaveEntryKind } from '@prisma/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LedgerEntry {
+  kind: LeaveEntryKind;
+  days: number;
+  effectiveDate: Date;
+  period: string | null;
+}
+
+export interface LedgerPosting extends LedgerEntry {
+  kind: 'ACCRUAL' | 'EXPIRY';
+  period: string;
+  note: string;
+}
+
+export interface AccrualSettings {
+  annualDays: number;
+  // null carries the whole balance over
+  carryOverCap: number | null;
+}
+
+export interface PolicyScope {
+  departmentId: string | null;
+  employmentType: EmploymentType | null;
+}
+
+export interface RequestAssessment {
+  allowed: boolean;
+  // Balance left once this and the other pending requests are approved
+  remaining: number;
+  warning: string | null;
+}
+
+export const roundDays = (days: number): number => Math.round(days * 100) / 100;
+
+const utcMidnight = (date: Date): number => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+/** Days charged for a request; both the start and the end date are leave days */
+export function leaveDays(startDate: Date, endDate: Date): number {
+  return Math.round((utcMidnight(endDate) - utcMidnight(startDate)) / DAY_MS) + 1;
+}
+
+/**
+ * The most specific policy that covers the user: one matching both department
+ * and employment type beats one matching the department, which beats one
+ * matching the employment type, which beats the property default.
+ */
+export function matchLeavePolicy<T extends PolicyScope>(policies: T[], user: PolicyScope): T | null {
+  const specificity = (policy: T): number =>
+    (policy.departmentId ? 2 : 0) + (policy.employmentType ? 1 : 0);
+
+  const applicable = policies.filter(
+    (policy) =>
+      (!policy.departmentId || policy.departmentId === user.departmentId) &&
+      (!policy.employmentType || policy.employmentType === user.employmentType),
+  );
+
+  return applicable.sort((a, b) => specificity(b) - specificity(a))[0] ?? null;
+}
+
+/** Accrual starts at the later of the hire date and the policy's effective date */
+export function accrualStart(hireDate: Date | null, effectiveFrom: Date): Date {
+  return hireDate && hireDate > effectiveFrom ? hireDate : effectiveFrom;
+}
+
+export function probationEndsAt(hireDate: Date | null, probationDays: number): Date | null {
+  if (!hireDate || probationDays <= 0) {
+    return null;
+  }
+  return new Date(utcMidnight(hireDate) + probationDays * DAY_MS);
+}
+
+export function ledgerBalance(entries: Pick<LedgerEntry, 'days' | 'effectiveDate'>[], before?: Date): number {
+  return roundDays(
+    entries
+      .filter((entry) => !before || entry.effectiveDate < before)
+      .reduce((sum, entry) => sum + entry.days, 0),
+  );
+}
+
+/**
+ * Ledger entries still to be posted at `today`: one accrual for each full
+ * month since accrual started, dated on the month's last day, and an expiry at
+ * the start of each new year for whatever exceeded the carry-over cap at the
+ * end of the previous one. Periods already in the ledger are not posted again.
+ */
+export function pendingPostings(
+  settings: AccrualSettings,
+  from: Date,
+  entries: LedgerEntry[],
+  today: Date,
+): LedgerPosting[] {
+  const posted = new Set(entries.filter((entry) => entry.period).map((entry) => `${entry.kind}:${entry.period}`));
+  const ledger: LedgerEntry[] = [...entries];
+  const postings: LedgerPosting[] = [];
+  // Rounded cumulatively so the twelve credits add up to the annual days exactly
+  const accrued = (months: number): number => roundDays((settings.annualDays * months) / 12);
+
+  const post = (posting: LedgerPosting) => {
+    if (!posted.has(`${posting.kind}:${posting.period}`)) {
+      postings.push(posting);
+      ledger.push(posting);
+    }
+  };
+
+  // A month joined part-way through is not accrued
+  let monthStart = new Date(
+    Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + (from.getUTCDate() === 1 ? 0 : 1), 1),
+  );
+
+  for (;;) {
+    const nextMonth = new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 1));
+    if (nextMonth > today) break;
+
+    const period = `${monthStart.getUTCFullYear()}-${String(monthStart.getUTCMonth() + 1).padStart(2, '0')}`;
+    post({
+      kind: 'ACCRUAL',
+      days: roundDays(accrued(monthStart.getUTCMonth() + 1) - accrued(monthStart.getUTCMonth())),
+      effectiveDate: new Date(nextMonth.getTime() - DAY_MS),
+      period,
+      note: `Accrual for ${period}`,
+    });
+
+    if (nextMonth.getUTCMonth() === 0 && settings.carryOverCap !== null) {
+      const closedYear = String(monthStart.getUTCFullYear());
+      const excess = roundDays(ledgerBalance(ledger, nextMonth) - settings.carryOverCap);
+      if (excess > 0) {
+        post({
+          kind: 'EXPIRY',
+          days: -excess,
+          effectiveDate: nextMonth,
+          period: closedYear,
+          note: `${excess} days above the ${settings.carryOverCap}-day carry-over cap expired at the end of ${closedYear}`,
+        });
+      }
+    }
+
+    monthStart = nextMonth;
+  }
+
+  return postings;
+}
+
+/**
+ * Checks a request against the balance. Requests that would overdraw it are
+ * refused, or accepted with a warning when the policy allows a negative balance.
+ */
+export function assessRequest(
+  balance: number,
+  pendingDays: number,
+  requestedDays: number,
+  allowNegativeBalance: boolean,
+): RequestAssessment {
+  const remaining = roundDays(balance - pendingDays - requestedDays);
+  if (remaining >= 0) {
+    return { allowed: true, remaining, warning: null };
+  }
+
+  const available = roundDays(balance - pendingDays);
+  const message = `Requested ${requestedDays} days but only ${available} are available`;
+  return allowNegativeBalance
+    ? { allowed: true, remaining, warning: `${message}; the balance will be ${remaining} days` }
+    : { allowed: false, remaining, warning: message };
+}
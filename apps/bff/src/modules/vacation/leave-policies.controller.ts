@@ -0,0 +1,53 @@
+import { Controller, Get, Post, Body, Patch, Param, Delete, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { LeaveBalanceService } from './leave-balance.service';
+import { CreateLeavePolicyDto, UpdateLeavePolicyDto } from './dto';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../shared/guards/roles.guard';
+import { Roles } from '../../shared/decorators/roles.decorator';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
+import { Role, User } from '@prisma/client';
+
+@ApiTags('Vacation')
+@Controller('leave-policies')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class LeavePoliciesController {
+  constructor(private readonly leaveBalanceService: LeaveBalanceService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get leave policies for the property' })
+  async findAll(@CurrentUser() currentUser: User) {
+    const policies = await this.leaveBalanceService.findPolicies(currentUser);
+    return CustomApiResponse.success(policies, 'Leave policies retrieved successfully');
+  }
+
+  @Post()
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER)
+  @ApiOperation({ summary: 'Create leave policy' })
+  async create(@Body() createDto: CreateLeavePolicyDto, @CurrentUser() currentUser: User) {
+    const policy = await this.leaveBalanceService.createPolicy(createDto, currentUser);
+    return CustomApiResponse.success(policy, 'Leave policy created successfully');
+  }
+
+  @Patch(':id')
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER)
+  @ApiOperation({ summary: 'Update leave policy' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateLeavePolicyDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    const policy = await this.leaveBalanceService.updatePolicy(id, updateDto, currentUser);
+    return CustomApiResponse.success(policy, 'Leave policy updated successfully');
+  }
+
+  @Delete(':id')
+  @Roles(Role.PLATFORM_ADMIN, Role.ORGANIZATION_ADMIN, Role.PROPERTY_MANAGER)
+  @ApiOperation({ summary: 'Delete leave policy' })
+  async remove(@Param('id') id: string, @CurrentUser() currentUser: User) {
+    await this.leaveBalanceService.removePolicy(id, currentUser);
+    return CustomApiResponse.success(null, 'Leave policy deleted successfully');
+  }
+}
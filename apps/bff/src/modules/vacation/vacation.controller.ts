@@ -1,18 +1,27 @@
-import { Controller, Get, Post, Body, Patch, Param, Query, UseGuards } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { Controller, Get, Post, Body, Patch, Param, Query, UseGuards, ParseEnumPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { VacationService } from './vacation.service';
+import { LeaveBalanceService } from './leave-balance.service';
+import { HolidayCalendarService } from './holiday-calendar.service';
+import { CoverageService } from './coverage.service';
+import { CreateLeaveAdjustmentDto, LeaveDaysQueryDto, TeamCalendarQueryDto } from './dto';
 import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
 import { RolesGuard } from '../../shared/guards/roles.guard';
 import { CurrentUser } from '../../shared/decorators/current-user.decorator';
 import { ApiResponse as CustomApiResponse } from '../../shared/dto/response.dto';
-import { User } from '@prisma/client';
+import { User, VacationStatus, VacationType } from '@prisma/client';
 
 @ApiTags('Vacation')
 @Controller('vacation')
 @UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth()
 export class VacationController {
-  constructor(private readonly vacationService: VacationService) {}
+  constructor(
+    private readonly vacationService: VacationService,
+    private readonly leaveBalanceService: LeaveBalanceService,
+    private readonly holidayCalendarService: HolidayCalendarService,
+    private readonly coverageService: CoverageService,
+  ) {}
 
   @Post()
   @ApiOperation({ summary: 'Create vacation request' })
@@ -28,6 +37,54 @@ export class VacationController {
     return CustomApiResponse.success(result, 'Vacation requests retrieved successfully');
   }
 
+  @Get('working-days')
+  @ApiOperation({ summary: 'Preview the leave days a request would be charged' })
+  async countWorkingDays(@Query() query: LeaveDaysQueryDto, @CurrentUser() currentUser: User) {
+    const count = await this.holidayCalendarService.countLeaveDays(
+      currentUser,
+      new Date(query.startDate),
+      new Date(query.endDate),
+      query.halfDayStart,
+      query.halfDayEnd,
+    );
+    return CustomApiResponse.success(count, 'Leave days calculated successfully');
+  }
+
+  @Get('team-calendar')
+  @ApiOperation({ summary: "Get a department's approved and pending absences with its coverage rules" })
+  async getTeamCalendar(@Query() query: TeamCalendarQueryDto, @CurrentUser() currentUser: User) {
+    const calendar = await this.coverageService.getTeamCalendar(query, currentUser);
+    return CustomApiResponse.success(calendar, 'Team calendar retrieved successfully');
+  }
+
+  @Get('balances')
+  @ApiOperation({ summary: 'Get leave balances, accruing any days that have come due' })
+  @ApiQuery({ name: 'userId', required: false, description: 'Defaults to the current user' })
+  async getBalances(@Query('userId') userId: string | undefined, @CurrentUser() currentUser: User) {
+    const balances = await this.leaveBalanceService.getBalances(userId || currentUser.id, currentUser);
+    return CustomApiResponse.success(balances, 'Leave balances retrieved successfully');
+  }
+
+  @Get('balances/ledger')
+  @ApiOperation({ summary: 'Get the leave balance ledger for one leave type' })
+  @ApiQuery({ name: 'leaveType', enum: VacationType })
+  @ApiQuery({ name: 'userId', required: false, description: 'Defaults to the current user' })
+  async getLedger(
+    @Query('leaveType', new ParseEnumPipe(VacationType)) leaveType: VacationType,
+    @Query('userId') userId: string | undefined,
+    @CurrentUser() currentUser: User,
+  ) {
+    const entries = await this.leaveBalanceService.getLedger(userId || currentUser.id, leaveType, currentUser);
+    return CustomApiResponse.success(entries, 'Leave ledger retrieved successfully');
+  }
+
+  @Post('balances/adjustments')
+  @ApiOperation({ summary: 'Manually credit or debit a leave balance' })
+  async adjustBalance(@Body() adjustmentDto: CreateLeaveAdjustmentDto, @CurrentUser() currentUser: User) {
+    const entry = await this.leaveBalanceService.adjust(adjustmentDto, currentUser);
+    return CustomApiResponse.success(entry, 'Leave balance adjusted successfully');
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get vacation request by ID' })
   async findOne(@Param('id') id: string, @CurrentUser() currentUser: User) {
@@ -39,7 +96,13 @@ export class VacationController {
   @ApiOperation({ summary: 'Approve vacation request' })
   async approve(@Param('id') id: string, @CurrentUser() currentUser: User) {
     const vacation = await this.vacationService.approve(id, currentUser);
-    return CustomApiResponse.success(vacation, 'Vacation request approved successfully');
+    const message =
+      vacation.status === VacationStatus.PENDING
+        ? 'Approval recorded; the request moved to the next approver'
+        : vacation.coverageWarnings.length > 0
+        ? `Vacation request approved with warnings: ${vacation.coverageWarnings.join('; ')}`
+        : 'Vacation request approved successfully';
+    return CustomApiResponse.success(vacation, message);
   }
 
   @Patch(':id/reject')
@@ -1,10 +1,18 @@
 import { Module } from '@nestjs/common';
 import { VacationService } from './vacation.service';
 import { VacationController } from './vacation.controller';
+import { LeaveBalanceService } from './leave-balance.service';
+import { LeavePoliciesController } from './leave-policies.controller';
+import { HolidayCalendarService } from './holiday-calendar.service';
+import { HolidaysController } from './holidays.controller';
+import { CoverageService } from './coverage.service';
+import { CoverageRulesController } from './coverage-rules.controller';
+import { ApprovalsModule } from '../approvals/approvals.module';
 
 @Module({
-  providers: [VacationService],
-  controllers: [VacationController],
-  exports: [VacationService],
+  imports: [ApprovalsModule],
+  providers: [VacationService, LeaveBalanceService, HolidayCalendarService, CoverageService],
+  controllers: [VacationController, LeavePoliciesController, HolidaysController, CoverageRulesController],
+  exports: [VacationService, LeaveBalanceService, HolidayCalendarService, CoverageService],
 })
 export class VacationModule {}
\ No newline at end of file
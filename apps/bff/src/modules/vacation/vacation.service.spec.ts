@@ -0,0 +1,169 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { ApprovalSubjectType, Role, VacationStatus, VacationType } from '@prisma/client';
+import { VacationService } from './vacation.service';
+import { PrismaService } from '../../shared/database/prisma.service';
+import { AuditService } from '../../shared/audit/audit.service';
+import { LeaveBalanceService } from './leave-balance.service';
+import { HolidayCalendarService } from './holiday-calendar.service';
+import { CoverageService } from './coverage.service';
+import { ApprovalsService } from '../approvals/approvals.service';
+
+describe('VacationService', () => {
+  let service: VacationService;
+  let prismaService: any;
+  let leaveBalanceService: any;
+  let approvalsService: any;
+
+  const mockUser = {
+    id: 'user1',
+    role: Role.STAFF,
+    departmentId: 'dept1',
+    propertyId: 'prop1',
+  } as any;
+
+  const mockAdmin = { ...mockUser, id: 'admin1', role: Role.PROPERTY_MANAGER } as any;
+
+  const reversal = { userId: 'user1', leaveType: VacationType.ANNUAL, kind: 'REVERSAL', days: 3 };
+
+  const vacation = (overrides: Record<string, unknown> = {}) => ({
+    id: 'vacation1',
+    userId: mockUser.id,
+    type: VacationType.ANNUAL,
+    status: VacationStatus.APPROVED,
+    startDate: new Date('2025-06-16T00:00:00Z'),
+    endDate: new Date('2025-06-18T00:00:00Z'),
+    days: 3,
+    user: { id: mockUser.id, departmentId: 'dept1' },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-06-10T08:00:00Z'));
+
+    const mockPrismaService: any = {
+      vacation: {
+        findUnique: jest.fn(),
+        findUniqueOrThrow: jest.fn(),
+        update: jest.fn().mockImplementation(({ data }) => Promise.resolve({ ...vacation(), ...data })),
+      },
+      user: { findUniqueOrThrow: jest.fn().mockResolvedValue(mockUser) },
+      leaveBalanceEntry: {
+        create: jest.fn(),
+        createMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    mockPrismaService.$transaction = jest.fn((arg) =>
+      Array.isArray(arg) ? Promise.all(arg) : arg(mockPrismaService),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VacationService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: AuditService,
+          useValue: { logUpdate: jest.fn() },
+        },
+        {
+          provide: LeaveBalanceService,
+          useValue: {
+            checkRequest: jest.fn().mockResolvedValue({ policy: null, warning: null }),
+            reversalEntry: jest.fn().mockResolvedValue(reversal),
+          },
+        },
+        {
+          provide: HolidayCalendarService,
+          useValue: {},
+        },
+        {
+          provide: CoverageService,
+          useValue: { checkApproval: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: ApprovalsService,
+          useValue: {
+            registerHandler: jest.fn(),
+            findForSubject: jest.fn().mockResolvedValue(null),
+            cancelForSubject: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<VacationService>(VacationService);
+    prismaService = module.get(PrismaService);
+    leaveBalanceService = module.get(LeaveBalanceService);
+    approvalsService = module.get(ApprovalsService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  describe('cancel', () => {
+    it('credits approved leave that has not started back to the balance', async () => {
+      prismaService.vacation.findUnique.mockResolvedValue(vacation());
+
+      const result = await service.cancel('vacation1', mockUser);
+
+      expect(result.status).toBe(VacationStatus.CANCELLED);
+      expect(prismaService.leaveBalanceEntry.createMany).toHaveBeenCalledWith({ data: [reversal] });
+      expect(approvalsService.cancelForSubject).toHaveBeenCalledWith(
+        ApprovalSubjectType.VACATION,
+        'vacation1',
+        mockUser,
+      );
+    });
+
+    it('refuses approved leave that has already started', async () => {
+      prismaService.vacation.findUnique.mockResolvedValue(
+        vacation({ startDate: new Date('2025-06-09T00:00:00Z'), endDate: new Date('2025-06-11T00:00:00Z') }),
+      );
+
+      await expect(service.cancel('vacation1', mockUser)).rejects.toThrow(BadRequestException);
+      expect(prismaService.vacation.update).not.toHaveBeenCalled();
+      expect(leaveBalanceService.reversalEntry).not.toHaveBeenCalled();
+    });
+
+    it('lets a pending request be withdrawn whatever its dates', async () => {
+      prismaService.vacation.findUnique.mockResolvedValue(
+        vacation({ status: VacationStatus.PENDING, startDate: new Date('2025-06-09T00:00:00Z') }),
+      );
+      leaveBalanceService.reversalEntry.mockResolvedValue(null);
+
+      await service.cancel('vacation1', mockUser);
+
+      expect(prismaService.leaveBalanceEntry.createMany).toHaveBeenCalledWith({ data: [] });
+    });
+
+    it("refuses someone else's request", async () => {
+      prismaService.vacation.findUnique.mockResolvedValue(vacation({ userId: 'user2' }));
+
+      await expect(service.cancel('vacation1', mockAdmin)).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('approve', () => {
+    it('checks the balance inside the approval transaction', async () => {
+      prismaService.vacation.findUnique.mockResolvedValue(vacation({ status: VacationStatus.PENDING }));
+      prismaService.vacation.findUniqueOrThrow.mockResolvedValue(vacation({ status: VacationStatus.PENDING }));
+
+      await service.approve('vacation1', mockAdmin);
+
+      expect(leaveBalanceService.checkRequest).toHaveBeenCalledWith(
+        mockUser,
+        VacationType.ANNUAL,
+        vacation().startDate,
+        3,
+        'vacation1',
+        expect.any(Date),
+        prismaService,
+      );
+    });
+  });
+});
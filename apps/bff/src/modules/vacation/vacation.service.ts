@@ -1,13 +1,29 @@
-import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException, OnModuleInit } from '@nestjs/common';
 import { PrismaService } from '../../shared/database/prisma.service';
 import { AuditService } from '../../shared/audit/audit.service';
 import { PaginatedResponse } from '../../shared/dto/pagination.dto';
-import { User, Vacation, VacationType, VacationStatus, Role } from '@prisma/client';
+import {
+  User,
+  Vacation,
+  VacationType,
+  VacationStatus,
+  Role,
+  ApprovalStatus,
+  ApprovalSubjectType,
+  Prisma,
+} from '@prisma/client';
+import { LeaveBalanceService, vacationDays } from './leave-balance.service';
+import { HolidayCalendarService } from './holiday-calendar.service';
+import { CoverageService } from './coverage.service';
+import { ApprovalsService } from '../approvals/approvals.service';
+import { ApprovalRequestWithSteps } from '../approvals/interfaces';
 
 interface CreateVacationDto {
   type: VacationType;
   startDate: string;
   endDate: string;
+  halfDayStart?: boolean;
+  halfDayEnd?: boolean;
   reason?: string;
   attachments?: string[];
 }
@@ -20,20 +36,56 @@ interface VacationFilterDto {
   userId?: string;
 }
 
+export type VacationRequest = Vacation & {
+  // Set when the policy lets the request overdraw the balance
+  balanceWarning: string | null;
+  // Set when an approval chain applies to the request
+  approval: ApprovalRequestWithSteps | null;
+};
+
+export type VacationApproval = Vacation & {
+  // Coverage rules that only warn and were broken by the approval
+  coverageWarnings: string[];
+};
+
+const userSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  departmentId: true,
+};
+
 @Injectable()
-export class VacationService {
+export class VacationService implements OnModuleInit {
   constructor(
     private readonly prisma: PrismaService,
     private readonly auditService: AuditService,
+    private readonly leaveBalanceService: LeaveBalanceService,
+    private readonly holidayCalendarService: HolidayCalendarService,
+    private readonly coverageService: CoverageService,
+    private readonly approvalsService: ApprovalsService,
   ) {}
 
-  async create(createVacationDto: CreateVacationDto, currentUser: User): Promise<Vacation> {
+  onModuleInit() {
+    this.approvalsService.registerHandler(ApprovalSubjectType.VACATION, {
+      onApproved: async (vacationId, approver, tx) => {
+        const { coverageWarnings } = await this.finalizeApproval(vacationId, approver, tx);
+        return coverageWarnings;
+      },
+      onRejected: async (vacationId, approver, comment, tx) => {
+        await this.finalizeRejection(vacationId, comment ?? '', approver, tx);
+      },
+    });
+  }
+
+  async create(createVacationDto: CreateVacationDto, currentUser: User): Promise<VacationRequest> {
     const startDate = new Date(createVacationDto.startDate);
     const endDate = new Date(createVacationDto.endDate);
 
-    // Validate dates
-    if (startDate >= endDate) {
-      throw new BadRequestException('End date must be after start date');
+    // Validate dates; the end date is the last day of leave
+    if (startDate > endDate) {
+      throw new BadRequestException('End date cannot be before start date');
     }
 
     if (startDate < new Date()) {
@@ -58,6 +110,26 @@ export class VacationService {
       throw new BadRequestException('You have an overlapping vacation request');
     }
 
+    const halfDayStart = createVacationDto.halfDayStart === true;
+    const halfDayEnd = createVacationDto.halfDayEnd === true;
+    const { days } = await this.holidayCalendarService.countLeaveDays(
+      currentUser,
+      startDate,
+      endDate,
+      halfDayStart,
+      halfDayEnd,
+    );
+    if (days === 0) {
+      throw new BadRequestException('The requested dates contain no working days');
+    }
+
+    const { warning } = await this.leaveBalanceService.checkRequest(
+      currentUser,
+      createVacationDto.type,
+      startDate,
+      days,
+    );
+
     const vacation = await this.prisma.vacation.create({
       data: {
         userId: currentUser.id,
@@ -65,6 +137,9 @@ export class VacationService {
         type: createVacationDto.type,
         startDate,
         endDate,
+        days,
+        halfDayStart,
+        halfDayEnd,
         reason: createVacationDto.reason,
         attachments: createVacationDto.attachments || [],
       },
@@ -84,7 +159,22 @@ export class VacationService {
     // Log vacation request
     await this.auditService.logCreate(currentUser.id, 'Vacation', vacation.id, vacation);
 
-    return vacation;
+    let approval: ApprovalRequestWithSteps | null;
+    try {
+      approval = await this.approvalsService.submit({
+        subjectType: ApprovalSubjectType.VACATION,
+        subjectId: vacation.id,
+        requester: currentUser,
+        amount: days,
+        summary: `${vacation.type} leave from ${createVacationDto.startDate} to ${createVacationDto.endDate} (${days} days)`,
+      });
+    } catch (error) {
+      // A request nobody can approve is not kept
+      await this.prisma.vacation.delete({ where: { id: vacation.id } });
+      throw error;
+    }
+
+    return { ...vacation, balanceWarning: warning, approval };
   }
 
   async findAll(filterDto: VacationFilterDto, currentUser: User): Promise<PaginatedResponse<Vacation>> {
@@ -181,7 +271,21 @@ export class VacationService {
     return vacation;
   }
 
-  async approve(id: string, currentUser: User): Promise<Vacation> {
+  /**
+   * Approves a request. Requests with an approval chain record the current
+   * user's step and are only approved by the last approver.
+   */
+  async approve(id: string, currentUser: User): Promise<VacationApproval> {
+    const approval = await this.pendingApproval(id);
+    if (approval) {
+      const decision = await this.approvalsService.approve(approval.id, currentUser);
+      const vacation = await this.prisma.vacation.findUniqueOrThrow({
+        where: { id },
+        include: { user: { select: userSelect } },
+      });
+      return { ...vacation, coverageWarnings: decision.warnings };
+    }
+
     // Only admins can approve vacation requests
     if (currentUser.role === Role.STAFF) {
       throw new ForbiddenException('Only admins can approve vacation requests');
@@ -189,81 +293,78 @@ export class VacationService {
 
     const vacation = await this.findOne(id, currentUser);
 
-    if (vacation.status !== VacationStatus.PENDING) {
-      throw new BadRequestException('Can only approve pending vacation requests');
-    }
-
     // Department admins cannot approve their own requests
     if (currentUser.role === Role.DEPARTMENT_ADMIN && vacation.userId === currentUser.id) {
       throw new ForbiddenException('Cannot approve your own vacation request');
     }
 
-    const updatedVacation = await this.prisma.vacation.update({
-      where: { id },
-      data: {
-        status: VacationStatus.APPROVED,
-        approvedBy: currentUser.id,
-        approvedAt: new Date(),
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            departmentId: true,
-          },
-        },
-      },
-    });
-
-    // Log vacation approval
-    await this.auditService.logUpdate(
-      currentUser.id,
-      'Vacation',
-      id,
-      vacation,
-      updatedVacation,
-    );
-
-    return updatedVacation;
+    return this.prisma.$transaction((tx) => this.finalizeApproval(id, currentUser, tx));
   }
 
   async reject(id: string, reason: string, currentUser: User): Promise<Vacation> {
+    const approval = await this.pendingApproval(id);
+    if (approval) {
+      await this.approvalsService.reject(approval.id, currentUser, reason);
+      return this.prisma.vacation.findUniqueOrThrow({
+        where: { id },
+        include: { user: { select: userSelect } },
+      });
+    }
+
     // Only admins can reject vacation requests
     if (currentUser.role === Role.STAFF) {
       throw new ForbiddenException('Only admins can reject vacation requests');
     }
 
+    await this.findOne(id, currentUser);
+
+    return this.finalizeRejection(id, reason, currentUser);
+  }
+
+  async cancel(id: string, currentUser: User): Promise<Vacation> {
     const vacation = await this.findOne(id, currentUser);
 
-    if (vacation.status !== VacationStatus.PENDING) {
-      throw new BadRequestException('Can only reject pending vacation requests');
+    // Only the user who created the request can cancel it
+    if (vacation.userId !== currentUser.id) {
+      throw new ForbiddenException('Can only cancel your own vacation requests');
     }
 
-    const updatedVacation = await this.prisma.vacation.update({
-      where: { id },
-      data: {
-        status: VacationStatus.REJECTED,
-        rejectedReason: reason,
-        approvedBy: currentUser.id,
-        approvedAt: new Date(),
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            departmentId: true,
+    if (vacation.status === VacationStatus.CANCELLED) {
+      throw new BadRequestException('Vacation request is already cancelled');
+    }
+
+    // Days already taken stay charged, so leave can only be cancelled before it starts
+    if (vacation.status === VacationStatus.APPROVED && vacation.startDate <= new Date()) {
+      throw new BadRequestException('Approved leave that has already started cannot be cancelled');
+    }
+
+    // Approved leave that was charged to the balance is credited back in full
+    const reversal = await this.leaveBalanceService.reversalEntry(vacation, currentUser);
+
+    const [updatedVacation] = await this.prisma.$transaction([
+      this.prisma.vacation.update({
+        where: { id },
+        data: {
+          status: VacationStatus.CANCELLED,
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+              departmentId: true,
+            },
           },
         },
-      },
-    });
+      }),
+      this.prisma.leaveBalanceEntry.createMany({
+        data: reversal ? [reversal] : [],
+      }),
+    ]);
 
-    // Log vacation rejection
+    // Log vacation cancellation
     await this.auditService.logUpdate(
       currentUser.id,
       'Vacation',
@@ -272,47 +373,91 @@ export class VacationService {
       updatedVacation,
     );
 
+    await this.approvalsService.cancelForSubject(ApprovalSubjectType.VACATION, id, currentUser);
+
     return updatedVacation;
   }
 
-  async cancel(id: string, currentUser: User): Promise<Vacation> {
-    const vacation = await this.findOne(id, currentUser);
+  private async pendingApproval(vacationId: string): Promise<ApprovalRequestWithSteps | null> {
+    const approval = await this.approvalsService.findForSubject(ApprovalSubjectType.VACATION, vacationId);
+    return approval?.status === ApprovalStatus.PENDING ? approval : null;
+  }
 
-    // Only the user who created the request can cancel it
-    if (vacation.userId !== currentUser.id) {
-      throw new ForbiddenException('Can only cancel your own vacation requests');
+  /**
+   * Marks the request approved and charges it to the balance, after checking
+   * coverage. Runs inside the caller's transaction so both writes land together.
+   */
+  private async finalizeApproval(id: string, approver: User, tx: Prisma.TransactionClient): Promise<VacationApproval> {
+    const vacation = await tx.vacation.findUniqueOrThrow({ where: { id } });
+
+    if (vacation.status !== VacationStatus.PENDING) {
+      throw new BadRequestException('Can only approve pending vacation requests');
     }
 
-    if (vacation.status === VacationStatus.CANCELLED) {
-      throw new BadRequestException('Vacation request is already cancelled');
+    const violations = await this.coverageService.checkApproval(vacation);
+    const blocking = violations.filter((violation) => violation.enforcement === 'BLOCK');
+    if (blocking.length > 0) {
+      throw new BadRequestException(
+        `Approving would break coverage rules: ${blocking.map((violation) => violation.message).join('; ')}`,
+      );
     }
 
-    const updatedVacation = await this.prisma.vacation.update({
+    // The balance may have changed since the request was made
+    const requester = await tx.user.findUniqueOrThrow({ where: { id: vacation.userId } });
+    const { policy } = await this.leaveBalanceService.checkRequest(
+      requester,
+      vacation.type,
+      vacation.startDate,
+      vacationDays(vacation),
+      vacation.id,
+      new Date(),
+      tx,
+    );
+
+    const updatedVacation = await tx.vacation.update({
       where: { id },
       data: {
-        status: VacationStatus.CANCELLED,
+        status: VacationStatus.APPROVED,
+        approvedBy: approver.id,
+        approvedAt: new Date(),
       },
-      include: {
-        user: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            departmentId: true,
-          },
-        },
+      include: { user: { select: userSelect } },
+    });
+    if (policy) {
+      await tx.leaveBalanceEntry.create({ data: this.leaveBalanceService.usageEntry(vacation, approver) });
+    }
+
+    // Log vacation approval
+    await this.auditService.logUpdate(approver.id, 'Vacation', id, vacation, updatedVacation);
+
+    return { ...updatedVacation, coverageWarnings: violations.map((violation) => violation.message) };
+  }
+
+  private async finalizeRejection(
+    id: string,
+    reason: string,
+    approver: User,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<Vacation> {
+    const vacation = await tx.vacation.findUniqueOrThrow({ where: { id } });
+
+    if (vacation.status !== VacationStatus.PENDING) {
+      throw new BadRequestException('Can only reject pending vacation requests');
+    }
+
+    const updatedVacation = await tx.vacation.update({
+      where: { id },
+      data: {
+        status: VacationStatus.REJECTED,
+        rejectedReason: reason,
+        approvedBy: approver.id,
+        approvedAt: new Date(),
       },
+      include: { user: { select: userSelect } },
     });
 
-    // Log vacation cancellation
-    await this.auditService.logUpdate(
-      currentUser.id,
-      'Vacation',
-      id,
-      vacation,
-      updatedVacation,
-    );
+    // Log vacation rejection
+    await this.auditService.logUpdate(approver.id, 'Vacation', id, vacation, updatedVacation);
 
     return updatedVacation;
   }
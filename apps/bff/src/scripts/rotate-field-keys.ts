@@ -0,0 +1,212 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Field Encryption Key Rotation CLI Script
+ *
+ * Re-encrypts every encrypted column with the current key version
+ * (FIELD_ENCRYPTION_KEY_VERSION, or the highest in FIELD_ENCRYPTION_KEYS).
+ * Clear-text values left from before encryption was enabled are encrypted too.
+ * Keep retired key versions configured until this script has completed.
+ *
+ * Usage:
+ * npm run script:rotate-field-keys -- --help
+ * npm run script:rotate-field-keys -- --dry-run
+ * npm run script:rotate-field-keys -- --batch-size=500
+ * npm run script:rotate-field-keys -- --reindex
+ */
+
+import { Logger } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import { FieldCipher, PLATFORM_SCOPE, parseFieldCipherConfig } from '../shared/encryption/field-cipher';
+import { ENCRYPTED_FIELDS } from '../shared/encryption/field-encryption.middleware';
+
+interface CliOptions {
+  dryRun?: boolean;
+  reindex?: boolean;
+  batchSize: number;
+  help?: boolean;
+}
+
+interface RotationStats {
+  scanned: number;
+  rotated: number;
+}
+
+function parseArgs(): CliOptions {
+  const options: CliOptions = { batchSize: 200 };
+
+  for (const arg of process.argv.slice(2)) {
+    if (arg === '--help' || arg === '-h') {
+      options.help = true;
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--reindex') {
+      options.reindex = true;
+    } else if (arg.startsWith('--batch-size=')) {
+      options.batchSize = parseInt(arg.split('=')[1]);
+    }
+  }
+
+  return options;
+}
+
+function printHelp() {
+  console.log(`
+Field Encryption Key Rotation CLI Tool
+
+Usage: npm run script:rotate-field-keys -- [options]
+
+Options:
+  --dry-run          Count the rows that would be rewritten without changing them
+  --reindex          Also rewrite rows already on the current key, recomputing
+                     blind indexes (use after changing FIELD_BLIND_INDEX_KEY)
+  --batch-size=N     Rows read per batch (default: 200)
+  --help, -h         Show this help message
+  `);
+}
+
+/**
+ * Returns the value re-encrypted under the current key, or null when it is
+ * already current. Clear-text values are encrypted for the first time.
+ */
+function rotateValue(
+  cipher: FieldCipher,
+  value: unknown,
+  scope: string,
+  json: boolean,
+  reindex: boolean,
+): { ciphertext: string; plaintext: string } | null {
+  const info = FieldCipher.isEncrypted(value) ? FieldCipher.describe(value) : null;
+  if (info && info.version === cipher.currentVersion && info.scope === scope && !reindex) {
+    return null;
+  }
+
+  const plaintext = info ? cipher.decrypt(value as string) : json ? JSON.stringify(value) : String(value);
+  return { ciphertext: cipher.encrypt(plaintext, scope), plaintext };
+}
+
+async function rotateGuests(prisma: PrismaClient, cipher: FieldCipher, options: CliOptions): Promise<RotationStats> {
+  const stats: RotationStats = { scanned: 0, rotated: 0 };
+  let cursor: string | undefined;
+
+  for (;;) {
+    const guests = await prisma.guest.findMany({
+      where: { OR: [{ passportNumber: { not: null } }, { idNumber: { not: null } }] },
+      select: { id: true, passportNumber: true, idNumber: true, property: { select: { organizationId: true } } },
+      orderBy: { id: 'asc' },
+      take: options.batchSize,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+    if (guests.length === 0) break;
+    cursor = guests[guests.length - 1].id;
+
+    for (const guest of guests) {
+      stats.scanned++;
+      const data: Record<string, string> = {};
+
+      for (const field of ENCRYPTED_FIELDS.Guest) {
+        const value = guest[field.name as 'passportNumber' | 'idNumber'];
+        if (value === null) continue;
+
+        const rotated = rotateValue(cipher, value, guest.property.organizationId, false, !!options.reindex);
+        if (!rotated) continue;
+        data[field.name] = rotated.ciphertext;
+        data[field.index!] = cipher.blindIndex(rotated.plaintext);
+      }
+
+      if (Object.keys(data).length > 0) {
+        stats.rotated++;
+        if (!options.dryRun) {
+          await prisma.guest.update({ where: { id: guest.id }, data });
+        }
+      }
+    }
+  }
+
+  return stats;
+}
+
+async function rotateUsers(prisma: PrismaClient, cipher: FieldCipher, options: CliOptions): Promise<RotationStats> {
+  const stats: RotationStats = { scanned: 0, rotated: 0 };
+  let cursor: string | undefined;
+
+  for (;;) {
+    const users = await prisma.user.findMany({
+      select: { id: true, organizationId: true, idDocument: true, emergencyContact: true },
+      orderBy: { id: 'asc' },
+      take: options.batchSize,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+    if (users.length === 0) break;
+    cursor = users[users.length - 1].id;
+
+    for (const user of users) {
+      stats.scanned++;
+      const scope = user.organizationId ?? PLATFORM_SCOPE;
+      const data: Record<string, string> = {};
+
+      for (const field of ENCRYPTED_FIELDS.User) {
+        const value = user[field.name as 'idDocument' | 'emergencyContact'];
+        if (value === null) continue;
+
+        const rotated = rotateValue(cipher, value, scope, !!field.json, !!options.reindex);
+        if (rotated) {
+          data[field.name] = rotated.ciphertext;
+        }
+      }
+
+      if (Object.keys(data).length > 0) {
+        stats.rotated++;
+        if (!options.dryRun) {
+          await prisma.user.update({ where: { id: user.id }, data });
+        }
+      }
+    }
+  }
+
+  return stats;
+}
+
+async function main() {
+  const logger = new Logger('FieldKeyRotationCLI');
+  const options = parseArgs();
+
+  if (options.help) {
+    printHelp();
+    process.exit(0);
+  }
+
+  const config = parseFieldCipherConfig(process.env);
+  if (!config) {
+    logger.error('FIELD_ENCRYPTION_KEYS and FIELD_BLIND_INDEX_KEY must be set');
+    process.exit(1);
+  }
+
+  const cipher = new FieldCipher(config);
+  // A plain client: the rotation needs to see stored ciphertexts as they are
+  const prisma = new PrismaClient();
+
+  try {
+    logger.log(
+      `Rotating encrypted fields to key version ${cipher.currentVersion}${options.dryRun ? ' (dry run)' : ''}`,
+    );
+
+    const guests = await rotateGuests(prisma, cipher, options);
+    logger.log(`Guests: ${guests.rotated} of ${guests.scanned} rewritten`);
+
+    const users = await rotateUsers(prisma, cipher, options);
+    logger.log(`Users: ${users.rotated} of ${users.scanned} rewritten`);
+
+    await prisma.$disconnect();
+    process.exit(0);
+  } catch (error) {
+    logger.error('Key rotation failed:', error);
+    await prisma.$disconnect();
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('CLI script failed:', error);
+  process.exit(1);
+});
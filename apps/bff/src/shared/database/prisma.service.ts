@@ -1,5 +1,7 @@
 import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/common';
 import { PrismaClient } from '@prisma/client';
+import { FieldCipher, parseFieldCipherConfig } from '../encryption/field-cipher';
+import { createFieldEncryptionMiddleware } from '../encryption/field-encryption.middleware';
 
 @Injectable()
 export class PrismaService extends PrismaClient implements OnModuleInit, OnModuleDestroy {
@@ -40,6 +42,13 @@ export class PrismaService extends PrismaClient implements OnModuleInit, OnModul
     // Initialize properties after super() call
     this.logger = new Logger(PrismaService.name);
     this.databaseAvailable = !!databaseUrl;
+
+    const cipherConfig = parseFieldCipherConfig(process.env);
+    if (cipherConfig) {
+      this.$use(createFieldEncryptionMiddleware(new FieldCipher(cipherConfig), this));
+    } else if (process.env.NODE_ENV === 'production') {
+      this.logger.warn('FIELD_ENCRYPTION_KEYS not set - identity data is stored unencrypted');
+    }
   }
 
   async onModuleInit() {
@@ -0,0 +1,128 @@
+import * as crypto from 'crypto';
+
+const PREFIX = 'enc';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_INFO = 'staffnbdt-field-encryption';
+
+/** Scope used for records that don't belong to an organization (platform users) */
+export const PLATFORM_SCOPE = 'platform';
+
+export interface FieldCipherConfig {
+  /** Master keys by version; each organization's key is derived from them */
+  keys: Map<number, Buffer>;
+  currentVersion: number;
+  /** Secret for blind indexes; shared across organizations so lookups need no tenant */
+  blindIndexKey: Buffer;
+}
+
+export interface EncryptedValueInfo {
+  version: number;
+  scope: string;
+}
+
+/**
+ * Parses `FIELD_ENCRYPTION_KEYS` ("1:<base64>,2:<base64>") and
+ * `FIELD_BLIND_INDEX_KEY`. Returns null when encryption isn't configured.
+ */
+export function parseFieldCipherConfig(env: NodeJS.ProcessEnv): FieldCipherConfig | null {
+  if (!env.FIELD_ENCRYPTION_KEYS || !env.FIELD_BLIND_INDEX_KEY) {
+    return null;
+  }
+
+  const keys = new Map<number, Buffer>();
+  for (const entry of env.FIELD_ENCRYPTION_KEYS.split(',')) {
+    const [version, encoded] = entry.trim().split(':');
+    const key = Buffer.from(encoded ?? '', 'base64');
+    if (!/^\d+$/.test(version) || key.length !== 32) {
+      throw new Error('FIELD_ENCRYPTION_KEYS must be a list of <version>:<base64 32-byte key>');
+    }
+    keys.set(Number(version), key);
+  }
+
+  const currentVersion = env.FIELD_ENCRYPTION_KEY_VERSION
+    ? Number(env.FIELD_ENCRYPTION_KEY_VERSION)
+    : Math.max(...keys.keys());
+  if (!keys.has(currentVersion)) {
+    throw new Error(`FIELD_ENCRYPTION_KEY_VERSION ${currentVersion} has no matching key`);
+  }
+
+  return { keys, currentVersion, blindIndexKey: Buffer.from(env.FIELD_BLIND_INDEX_KEY, 'base64') };
+}
+
+/** Identity documents compare without case, spaces or punctuation */
+export const normalizeForIndex = (value: string): string => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * AES-256-GCM encryption of individual column values. Every organization
+ * gets its own key, derived from the versioned master key, so one tenant's
+ * key never decrypts another's data. Ciphertexts carry the key version and
+ * scope (`enc:<version>:<scope>:<payload>`), which lets old versions be read
+ * while rows are rotated to the current key.
+ */
+export class FieldCipher {
+  private readonly derivedKeys = new Map<string, Buffer>();
+
+  constructor(private readonly config: FieldCipherConfig) {}
+
+  get currentVersion(): number {
+    return this.config.currentVersion;
+  }
+
+  static isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(`${PREFIX}:`);
+  }
+
+  static describe(value: string): EncryptedValueInfo | null {
+    if (!FieldCipher.isEncrypted(value)) return null;
+    const [, version, scope] = value.split(':');
+    return { version: Number(version), scope };
+  }
+
+  encrypt(plaintext: string, scope: string): string {
+    const version = this.config.currentVersion;
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.keyFor(version, scope), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const payload = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+
+    return `${PREFIX}:${version}:${scope}:${payload}`;
+  }
+
+  decrypt(value: string): string {
+    const [prefix, version, scope, payload] = value.split(':');
+    if (prefix !== PREFIX || !payload) {
+      throw new Error('Value is not an encrypted field');
+    }
+
+    const data = Buffer.from(payload, 'base64');
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      this.keyFor(Number(version), scope),
+      data.subarray(0, IV_LENGTH),
+    );
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+
+    return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf8');
+  }
+
+  /** Deterministic keyed hash for exact-match lookups on an encrypted column */
+  blindIndex(value: string): string {
+    return crypto.createHmac('sha256', this.config.blindIndexKey).update(normalizeForIndex(value)).digest('hex');
+  }
+
+  private keyFor(version: number, scope: string): Buffer {
+    const cacheKey = `${version}:${scope}`;
+    const cached = this.derivedKeys.get(cacheKey);
+    if (cached) return cached;
+
+    const master = this.config.keys.get(version);
+    if (!master) {
+      throw new Error(`No field encryption key for version ${version}`);
+    }
+
+    const key = Buffer.from(crypto.hkdfSync('sha256', master, scope, KEY_INFO, 32));
+    this.derivedKeys.set(cacheKey, key);
+    return key;
+  }
+}
@@ -0,0 +1,216 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { FieldCipher, PLATFORM_SCOPE } from './field-cipher';
+
+interface EncryptedField {
+  name: string;
+  /** Json columns are serialized before encryption and stored as a JSON string */
+  json?: boolean;
+  /** Column holding the blind index used for exact-match lookups */
+  index?: string;
+}
+
+export const ENCRYPTED_FIELDS: Record<string, EncryptedField[]> = {
+  Guest: [
+    { name: 'passportNumber', index: 'passportIndex' },
+    { name: 'idNumber', index: 'idNumberIndex' },
+  ],
+  User: [{ name: 'idDocument' }, { name: 'emergencyContact', json: true }],
+};
+
+const REDACTED = '[encrypted]';
+
+const WRITE_ACTIONS = new Set<string>(['create', 'createMany', 'update', 'updateMany', 'upsert']);
+
+const FIELD_BY_NAME = new Map(
+  Object.values(ENCRYPTED_FIELDS)
+    .flat()
+    .map((field) => [field.name, field]),
+);
+
+const INDEX_COLUMNS = new Set(
+  Object.values(ENCRYPTED_FIELDS)
+    .flat()
+    .map((field) => field.index)
+    .filter(Boolean),
+);
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  value !== null &&
+  typeof value === 'object' &&
+  (Object.getPrototypeOf(value) === Object.prototype || Object.getPrototypeOf(value) === null);
+
+const isNullValue = (value: unknown): boolean =>
+  value === null || value === Prisma.DbNull || value === Prisma.JsonNull || value === Prisma.AnyNull;
+
+/**
+ * Transparent encryption of identity data in the Prisma layer.
+ *
+ * Writes to the fields in ENCRYPTED_FIELDS are encrypted with the owning
+ * organization's key and get a blind index; results are decrypted wherever
+ * those fields appear, including nested includes. Equality and `contains`
+ * filters on indexed fields become exact matches on the blind index.
+ *
+ * Nested writes (e.g. creating a guest inside a reservation create) are not
+ * intercepted and must be done as separate top-level calls.
+ */
+export function createFieldEncryptionMiddleware(cipher: FieldCipher, client: PrismaClient): Prisma.Middleware {
+  const propertyOrganizations = new Map<string, string>();
+
+  const organizationForProperty = async (propertyId: string): Promise<string> => {
+    const cached = propertyOrganizations.get(propertyId);
+    if (cached) return cached;
+
+    const property = await client.property.findUnique({
+      where: { id: propertyId },
+      select: { organizationId: true },
+    });
+    if (!property) {
+      throw new Error(`Cannot encrypt fields for unknown property ${propertyId}`);
+    }
+
+    propertyOrganizations.set(propertyId, property.organizationId);
+    return property.organizationId;
+  };
+
+  const resolveScope = async (model: string, action: string, args: any, data: any): Promise<string> => {
+    if (model === 'Guest') {
+      const propertyId = data.propertyId ?? data.property?.connect?.id;
+      if (typeof propertyId === 'string') {
+        return organizationForProperty(propertyId);
+      }
+
+      const existing =
+        action === 'updateMany'
+          ? await client.guest.findMany({ where: args.where, select: { propertyId: true }, distinct: ['propertyId'] })
+          : [await client.guest.findUnique({ where: args.where, select: { propertyId: true } })].filter(Boolean);
+      const organizations = new Set(
+        await Promise.all(existing.map((guest) => organizationForProperty(guest!.propertyId))),
+      );
+      if (organizations.size !== 1) {
+        throw new Error('Encrypted guest fields must be written for guests of a single organization');
+      }
+      return [...organizations][0];
+    }
+
+    if (data.organizationId !== undefined || data.organization?.connect) {
+      return data.organizationId ?? data.organization?.connect?.id ?? PLATFORM_SCOPE;
+    }
+    if (action === 'updateMany') {
+      throw new Error('Encrypted user fields cannot be written with updateMany');
+    }
+    const user = await client.user.findUnique({ where: args.where, select: { organizationId: true } });
+    return user?.organizationId ?? PLATFORM_SCOPE;
+  };
+
+  const encryptData = async (model: string, action: string, args: any, data: any): Promise<void> => {
+    const fields = ENCRYPTED_FIELDS[model].filter((field) => data[field.name] !== undefined);
+    if (fields.length === 0) return;
+
+    let scope: string | null = null;
+    for (const field of fields) {
+      let value = data[field.name];
+      if (!field.json && isPlainObject(value) && 'set' in value) {
+        value = value.set;
+      }
+
+      if (isNullValue(value)) {
+        if (field.index) data[field.index] = null;
+        continue;
+      }
+      if (FieldCipher.isEncrypted(value)) continue;
+
+      scope ??= await resolveScope(model, action, args, data);
+      const plaintext = field.json ? JSON.stringify(value) : String(value);
+      data[field.name] = cipher.encrypt(plaintext, scope);
+      if (field.index) {
+        data[field.index] = cipher.blindIndex(plaintext);
+      }
+    }
+  };
+
+  const rewriteWhere = (where: any): void => {
+    if (!isPlainObject(where)) return;
+
+    for (const key of Object.keys(where)) {
+      const value = where[key];
+
+      if (key === 'AND' || key === 'OR' || key === 'NOT') {
+        (Array.isArray(value) ? value : [value]).forEach(rewriteWhere);
+        continue;
+      }
+
+      const field = FIELD_BY_NAME.get(key);
+      if (!field?.index) continue;
+
+      const term =
+        typeof value === 'string' ? value : isPlainObject(value) ? (value.equals ?? value.contains) : undefined;
+      if (typeof term === 'string') {
+        delete where[key];
+        where[field.index] = cipher.blindIndex(term);
+      }
+    }
+  };
+
+  const redact = (value: any): any => {
+    if (Array.isArray(value)) return value.map(redact);
+    if (!isPlainObject(value)) return value;
+
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !INDEX_COLUMNS.has(key))
+        .map(([key, entry]) => [key, FIELD_BY_NAME.has(key) && !isNullValue(entry) ? REDACTED : redact(entry)]),
+    );
+  };
+
+  const decryptResult = (value: any): any => {
+    if (Array.isArray(value)) {
+      value.forEach(decryptResult);
+    } else if (isPlainObject(value)) {
+      for (const key of Object.keys(value)) {
+        if (INDEX_COLUMNS.has(key)) {
+          delete value[key];
+          continue;
+        }
+
+        const field = FIELD_BY_NAME.get(key);
+        if (field && FieldCipher.isEncrypted(value[key])) {
+          const plaintext = cipher.decrypt(value[key]);
+          value[key] = field.json ? JSON.parse(plaintext) : plaintext;
+        } else {
+          decryptResult(value[key]);
+        }
+      }
+    }
+    return value;
+  };
+
+  return async (params, next) => {
+    const { model, action, args } = params;
+
+    // Audit snapshots would otherwise keep a clear-text copy of encrypted fields
+    if (model === 'AuditLog' && action === 'create' && args?.data) {
+      args.data = { ...args.data, oldData: redact(args.data.oldData), newData: redact(args.data.newData) };
+    }
+
+    if (model && ENCRYPTED_FIELDS[model] && args) {
+      if (model === 'Guest') {
+        rewriteWhere(args.where);
+      }
+
+      if (WRITE_ACTIONS.has(action)) {
+        if (action === 'upsert') {
+          await encryptData(model, 'create', args, args.create);
+          await encryptData(model, 'update', args, args.update);
+        } else if (Array.isArray(args.data)) {
+          for (const data of args.data) {
+            await encryptData(model, action, args, data);
+          }
+        } else if (args.data) {
+          await encryptData(model, action, args, args.data);
+        }
+      }
+    }
+
+    return decryptResult(await next(params));
+  };
+}
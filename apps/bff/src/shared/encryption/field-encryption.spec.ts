@@ -0,0 +1,136 @@
+import { PrismaClient } from '@prisma/client';
+import { FieldCipher, parseFieldCipherConfig } from './field-cipher';
+import { createFieldEncryptionMiddleware } from './field-encryption.middleware';
+
+describe('field encryption', () => {
+  const key = (fill: number) => Buffer.alloc(32, fill).toString('base64');
+  const env = {
+    FIELD_ENCRYPTION_KEYS: `1:${key(1)},2:${key(2)}`,
+    FIELD_BLIND_INDEX_KEY: key(9),
+  };
+  const cipher = new FieldCipher(parseFieldCipherConfig(env)!);
+
+  describe('FieldCipher', () => {
+    it('round-trips values with the current key version and organization scope', () => {
+      const encrypted = cipher.encrypt('X1234567', 'org-1');
+
+      expect(encrypted).toMatch(/^enc:2:org-1:/);
+      expect(encrypted).not.toContain('X1234567');
+      expect(cipher.decrypt(encrypted)).toBe('X1234567');
+    });
+
+    it('uses a different key per organization', () => {
+      const encrypted = cipher.encrypt('X1234567', 'org-1');
+      const forged = encrypted.replace(':org-1:', ':org-2:');
+
+      expect(() => cipher.decrypt(forged)).toThrow();
+    });
+
+    it('still reads values written with an older key version', () => {
+      const old = new FieldCipher(parseFieldCipherConfig({ ...env, FIELD_ENCRYPTION_KEY_VERSION: '1' })!);
+      const encrypted = old.encrypt('secret', 'org-1');
+
+      expect(FieldCipher.describe(encrypted)).toEqual({ version: 1, scope: 'org-1' });
+      expect(cipher.decrypt(encrypted)).toBe('secret');
+    });
+
+    it('computes blind indexes that ignore case and punctuation', () => {
+      expect(cipher.blindIndex('x1234-567')).toBe(cipher.blindIndex('X 1234567'));
+      expect(cipher.blindIndex('X1234567')).not.toBe(cipher.blindIndex('X1234568'));
+    });
+
+    it('is disabled when keys are missing and rejects malformed keys', () => {
+      expect(parseFieldCipherConfig({})).toBeNull();
+      expect(() => parseFieldCipherConfig({ ...env, FIELD_ENCRYPTION_KEYS: '1:short' })).toThrow();
+    });
+  });
+
+  describe('middleware', () => {
+    const client = {
+      property: { findUnique: jest.fn().mockResolvedValue({ organizationId: 'org-1' }) },
+      guest: { findUnique: jest.fn().mockResolvedValue({ propertyId: 'prop-1' }) },
+      user: { findUnique: jest.fn().mockResolvedValue({ organizationId: null }) },
+    } as unknown as PrismaClient;
+    const middleware = createFieldEncryptionMiddleware(cipher, client);
+
+    const run = async (params: any, result: any = null) => {
+      const next = jest.fn().mockResolvedValue(result);
+      const output = await middleware(params, next);
+      return { output, sent: next.mock.calls[0][0] };
+    };
+
+    it('encrypts and indexes guest identity fields on create', async () => {
+      const { sent } = await run({
+        model: 'Guest',
+        action: 'create',
+        args: { data: { propertyId: 'prop-1', firstName: 'Ana', passportNumber: 'X1234567', idNumber: null } },
+      });
+
+      expect(sent.args.data.passportNumber).toMatch(/^enc:2:org-1:/);
+      expect(sent.args.data.passportIndex).toBe(cipher.blindIndex('X1234567'));
+      expect(sent.args.data.idNumber).toBeNull();
+      expect(sent.args.data.idNumberIndex).toBeNull();
+    });
+
+    it('serializes json fields and scopes platform users', async () => {
+      const { sent } = await run({
+        model: 'User',
+        action: 'update',
+        args: { where: { id: 'user-1' }, data: { emergencyContact: { name: 'Ana', phone: '555' } } },
+      });
+
+      expect(sent.args.data.emergencyContact).toMatch(/^enc:2:platform:/);
+      expect(JSON.parse(cipher.decrypt(sent.args.data.emergencyContact))).toEqual({ name: 'Ana', phone: '555' });
+    });
+
+    it('turns passport searches into blind index lookups', async () => {
+      const { sent } = await run(
+        {
+          model: 'Guest',
+          action: 'findMany',
+          args: {
+            where: {
+              propertyId: 'prop-1',
+              OR: [
+                { firstName: { contains: 'x1234567' } },
+                { passportNumber: { contains: 'x1234567', mode: 'insensitive' } },
+              ],
+            },
+          },
+        },
+        [],
+      );
+
+      expect(sent.args.where.OR[1]).toEqual({ passportIndex: cipher.blindIndex('X1234567') });
+    });
+
+    it('decrypts nested results and hides index columns', async () => {
+      const { output } = await run(
+        { model: 'Reservation', action: 'findFirst', args: {} },
+        {
+          id: 'res-1',
+          guest: {
+            passportNumber: cipher.encrypt('X1234567', 'org-1'),
+            passportIndex: 'abc',
+            idNumber: 'legacy-clear',
+          },
+        },
+      );
+
+      expect(output.guest).toEqual({ passportNumber: 'X1234567', idNumber: 'legacy-clear' });
+    });
+
+    it('redacts encrypted fields from audit snapshots', async () => {
+      const newData = { id: 'guest-1', passportNumber: 'X1234567', idNumber: null, firstName: 'Ana' };
+      const { sent } = await run({ model: 'AuditLog', action: 'create', args: { data: { entity: 'Guest', newData } } });
+
+      expect(sent.args.data.newData).toEqual({
+        id: 'guest-1',
+        passportNumber: '[encrypted]',
+        idNumber: null,
+        firstName: 'Ana',
+      });
+      expect(newData.passportNumber).toBe('X1234567');
+    });
+  });
+});
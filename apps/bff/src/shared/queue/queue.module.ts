@@ -0,0 +1,11 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { WorkerQueueService } from './worker-queue.service';
+
+@Global()
+@Module({
+  imports: [ConfigModule],
+  providers: [WorkerQueueService],
+  exports: [WorkerQueueService],
+})
+export class QueueModule {}
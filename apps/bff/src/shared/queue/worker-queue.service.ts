@@ -0,0 +1,41 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Bull, { JobOptions, Queue } from 'bull';
+
+/**
+ * Producer side of the worker's Bull queues. The worker registers the
+ * processors; the BFF only adds jobs, using the same Redis and queue names.
+ */
+@Injectable()
+export class WorkerQueueService implements OnModuleDestroy {
+  private readonly logger = new Logger(WorkerQueueService.name);
+  private readonly queues = new Map<string, Queue>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async addJob<T>(queueName: string, jobName: string, data: T, options?: JobOptions): Promise<void> {
+    const job = await this.getQueue(queueName).add(jobName, data, options);
+    this.logger.log(`Job ${job.id} added to queue ${queueName}`);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await Promise.all([...this.queues.values()].map((queue) => queue.close()));
+  }
+
+  private getQueue(queueName: string): Queue {
+    let queue = this.queues.get(queueName);
+    if (!queue) {
+      queue = new Bull(queueName, this.configService.get('REDIS_URL') || 'redis://localhost:6379', {
+        // Same retry policy the worker applies to the jobs it adds itself
+        defaultJobOptions: {
+          attempts: 3,
+          backoff: { type: 'exponential', delay: 5000 },
+          removeOnComplete: 50,
+          removeOnFail: 100,
+        },
+      });
+      this.queues.set(queueName, queue);
+    }
+    return queue;
+  }
+}
@@ -0,0 +1,38 @@
+import { inflateRawSync } from 'zlib';
+import { createZip, crc32 } from './zip';
+
+describe('zip', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('writes entries that can be read back through the central directory', () => {
+    const zip = createZip([
+      { name: 'guest.json', content: JSON.stringify({ firstName: 'José' }) },
+      { name: 'notes/readme.txt', content: Buffer.from('hello') },
+    ]);
+
+    const end = zip.length - 22;
+    expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+    expect(zip.readUInt16LE(end + 10)).toBe(2);
+
+    let pointer = zip.readUInt32LE(end + 16);
+    const files: Record<string, string> = {};
+    for (let i = 0; i < 2; i++) {
+      expect(zip.readUInt32LE(pointer)).toBe(0x02014b50);
+      const compressedSize = zip.readUInt32LE(pointer + 20);
+      const nameLength = zip.readUInt16LE(pointer + 28);
+      const localOffset = zip.readUInt32LE(pointer + 42);
+      const name = zip.toString('utf8', pointer + 46, pointer + 46 + nameLength);
+
+      const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26);
+      const data = inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize));
+      expect(crc32(data)).toBe(zip.readUInt32LE(pointer + 16));
+      files[name] = data.toString('utf8');
+
+      pointer += 46 + nameLength;
+    }
+
+    expect(files).toEqual({ 'guest.json': '{"firstName":"José"}', 'notes/readme.txt': 'hello' });
+  });
+});
@@ -14,6 +14,7 @@ import ProfilePage from './pages/ProfilePage';
 import DocumentsPage from './pages/DocumentsPage';
 import PayrollPage from './pages/PayrollPage';
 import VacationPage from './pages/VacationPage';
+import RosterPage from './pages/RosterPage';
 import TrainingPage from './pages/TrainingPage';
 import BenefitsPage from './pages/BenefitsPage';
 import NotificationsPage from './pages/NotificationsPage';
@@ -30,6 +31,11 @@ import RoomsPage from './pages/hotel/RoomsPage';
 import GuestsPage from './pages/hotel/GuestsPage';
 import ReservationsPage from './pages/hotel/ReservationsPage';
 import RoomTypesPage from './pages/hotel/RoomTypesPage';
+import RatePlansPage from './pages/hotel/RatePlansPage';
+import ReservationGroupsPage from './pages/hotel/ReservationGroupsPage';
+import HousekeepingBoardPage from './pages/hotel/HousekeepingBoardPage';
+import PerformanceReportPage from './pages/hotel/PerformanceReportPage';
+import RoomInventoryPage from './pages/hotel/RoomInventoryPage';
 import ConciergePage from './pages/modules/ConciergePage';
 import VendorsPage from './pages/modules/VendorsPage';
 
@@ -214,6 +220,16 @@ const App: React.FC = () => {
             </ProtectedRoute>
           } 
         />
+        <Route 
+          path="/roster" 
+          element={
+            <ProtectedRoute>
+              <Layout>
+                <RosterPage />
+              </Layout>
+            </ProtectedRoute>
+          } 
+        />
         <Route 
           path="/training" 
           element={
@@ -349,6 +365,61 @@ const App: React.FC = () => {
             </ProtectedRoute>
           } 
         />
+
+        <Route 
+          path="/hotel/room-inventory" 
+          element={
+            <ProtectedRoute roles={['PLATFORM_ADMIN', 'ORGANIZATION_OWNER', 'ORGANIZATION_ADMIN', 'PROPERTY_MANAGER', 'DEPARTMENT_ADMIN']}>
+              <Layout>
+                <RoomInventoryPage />
+              </Layout>
+            </ProtectedRoute>
+          } 
+        />
+
+        <Route 
+          path="/hotel/rate-plans" 
+          element={
+            <ProtectedRoute roles={['PLATFORM_ADMIN', 'ORGANIZATION_OWNER', 'ORGANIZATION_ADMIN', 'PROPERTY_MANAGER', 'DEPARTMENT_ADMIN']}>
+              <Layout>
+                <RatePlansPage />
+              </Layout>
+            </ProtectedRoute>
+          } 
+        />
+
+        <Route 
+          path="/hotel/groups" 
+          element={
+            <ProtectedRoute roles={['PLATFORM_ADMIN', 'ORGANIZATION_OWNER', 'ORGANIZATION_ADMIN', 'PROPERTY_MANAGER', 'DEPARTMENT_ADMIN']}>
+              <Layout>
+                <ReservationGroupsPage />
+              </Layout>
+            </ProtectedRoute>
+          } 
+        />
+
+        <Route 
+          path="/hotel/housekeeping" 
+          element={
+            <ProtectedRoute roles={['PLATFORM_ADMIN', 'ORGANIZATION_OWNER', 'ORGANIZATION_ADMIN', 'PROPERTY_MANAGER', 'DEPARTMENT_ADMIN', 'STAFF']}>
+              <Layout>
+                <HousekeepingBoardPage />
+              </Layout>
+            </ProtectedRoute>
+          } 
+        />
+
+        <Route 
+          path="/hotel/performance" 
+          element={
+            <ProtectedRoute roles={['PLATFORM_ADMIN', 'ORGANIZATION_OWNER', 'ORGANIZATION_ADMIN', 'PROPERTY_MANAGER']}>
+              <Layout>
+                <PerformanceReportPage />
+              </Layout>
+            </ProtectedRoute>
+          } 
+        />
         
         {/* Admin Routes */}
         <Route 
@@ -422,6 +493,16 @@ const App: React.FC = () => {
             </ProtectedRoute>
           } 
         />
+        <Route 
+          path="/concierge/reservation-360/:reservationId" 
+          element={
+            <ProtectedRoute permissionsAny={[{ resource: 'concierge', action: 'objects', scope: 'read.property' }]}>
+              <Layout>
+                <Reservation360Page />
+              </Layout>
+            </ProtectedRoute>
+          } 
+        />
         <Route 
           path="/concierge/timeline/:guestId" 
           element={
@@ -0,0 +1,108 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { approvalService, ApprovalRequest, ApprovalSubjectType } from '../services/approvalService';
+
+const subjectLabels: Record<ApprovalSubjectType, string> = {
+  VACATION: 'Leave',
+};
+
+const stepColors: Record<ApprovalRequest['steps'][number]['status'], string> = {
+  WAITING: 'bg-gray-100 text-gray-600',
+  PENDING: 'bg-orange-100 text-orange-800',
+  APPROVED: 'bg-green-100 text-green-800',
+  REJECTED: 'bg-red-100 text-red-800',
+  SKIPPED: 'bg-gray-100 text-gray-400',
+};
+
+/** Requests from any module that are waiting on the current user */
+const ApprovalInbox: React.FC = () => {
+  const [requests, setRequests] = useState<ApprovalRequest[]>([]);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadInbox = useCallback(() => {
+    approvalService
+      .getInbox()
+      .then(response => setRequests(response.data))
+      .catch(error => console.error('Failed to load the approval inbox:', error));
+  }, []);
+
+  useEffect(() => {
+    loadInbox();
+  }, [loadInbox]);
+
+  const decide = (request: ApprovalRequest, decision: 'approve' | 'reject') => {
+    setBusyId(request.id);
+    approvalService[decision](request.id, comments[request.id] || undefined)
+      .then(response => {
+        toast.success(response.message);
+        loadInbox();
+      })
+      .catch(err => toast.error(err.response?.data?.message || `Failed to ${decision} the request`))
+      .finally(() => setBusyId(null));
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3 className="text-lg font-semibold text-charcoal">Waiting for My Approval</h3>
+      </div>
+      <div className="card-body space-y-4">
+        {requests.map(request => (
+          <div key={request.id} className="border border-gray-200 rounded-lg p-4">
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="font-medium text-charcoal">
+                  {request.requester.firstName} {request.requester.lastName}
+                  <span className="text-gray-500 font-normal ml-2">· {subjectLabels[request.subjectType]}</span>
+                </p>
+                <p className="text-sm text-gray-600">{request.summary}</p>
+              </div>
+              <span className="text-xs text-gray-500">{new Date(request.createdAt).toLocaleDateString()}</span>
+            </div>
+
+            <div className="flex flex-wrap gap-2 mt-3">
+              {request.steps.map(step => (
+                <span
+                  key={step.id}
+                  title={`${step.approver.firstName} ${step.approver.lastName}${step.comment ? `: ${step.comment}` : ''}`}
+                  className={`text-xs px-2 py-1 rounded-full ${stepColors[step.status]}`}
+                >
+                  {step.position}. {step.name}
+                </span>
+              ))}
+            </div>
+
+            <div className="flex items-center space-x-2 mt-3">
+              <input
+                type="text"
+                className="form-input flex-1"
+                placeholder="Comment (optional)"
+                value={comments[request.id] || ''}
+                onChange={e => setComments(prev => ({ ...prev, [request.id]: e.target.value }))}
+              />
+              <button
+                className="btn btn-primary btn-sm"
+                disabled={busyId === request.id}
+                onClick={() => decide(request, 'approve')}
+              >
+                Approve
+              </button>
+              <button
+                className="btn btn-outline btn-sm"
+                disabled={busyId === request.id}
+                onClick={() => decide(request, 'reject')}
+              >
+                Reject
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ApprovalInbox;
@@ -41,6 +41,7 @@ const Breadcrumb: React.FC<BreadcrumbProps> = ({
     '/documents': { label: 'nav.documents', icon: '📁' },
     '/payroll': { label: 'nav.payroll', icon: '💰' },
     '/vacation': { label: 'nav.vacation', icon: '🏖️' },
+    '/roster': { label: 'nav.roster', icon: '🗓️' },
     '/training': { label: 'nav.training', icon: '🎓' },
     '/benefits': { label: 'nav.benefits', icon: '🎁' },
     '/notifications': { label: 'nav.notifications', icon: '🔔' },
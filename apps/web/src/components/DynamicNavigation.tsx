@@ -72,6 +72,41 @@ const getDefaultNavigation = (userType: UserType): NavigationSection[] => {
         path: '/hotel/room-types',
         icon: '🏷️',
         requiredPermissions: ['roomtype.read.property'],
+      },
+      {
+        id: 'room-inventory',
+        label: 'nav.roomInventory',
+        path: '/hotel/room-inventory',
+        icon: '📅',
+        requiredPermissions: ['roomtype.read.property'],
+      },
+      {
+        id: 'rate-plans',
+        label: 'nav.ratePlans',
+        path: '/hotel/rate-plans',
+        icon: '💲',
+        requiredPermissions: ['rate_plan.read.property'],
+      },
+      {
+        id: 'reservation-groups',
+        label: 'nav.reservationGroups',
+        path: '/hotel/groups',
+        icon: '👥',
+        requiredPermissions: ['reservation.read.property'],
+      },
+      {
+        id: 'housekeeping-board',
+        label: 'nav.housekeepingBoard',
+        path: '/hotel/housekeeping',
+        icon: '🧹',
+        requiredPermissions: ['housekeeping.read.property'],
+      },
+      {
+        id: 'performance-report',
+        label: 'nav.performanceReport',
+        path: '/hotel/performance',
+        icon: '📈',
+        requiredPermissions: ['report.read.property'],
       }
     ]
   };
@@ -157,6 +192,14 @@ const getDefaultNavigation = (userType: UserType): NavigationSection[] => {
         requiredPermissions: ['vacation.read.own'],
         moduleId: 'hr',
       },
+      {
+        id: 'roster',
+        label: 'nav.roster',
+        path: '/roster',
+        icon: '🗓️',
+        requiredPermissions: [],
+        moduleId: 'hr',
+      },
       {
         id: 'training',
         label: 'nav.training',
@@ -68,6 +68,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
       '/documents': 'nav.documents',
       '/payroll': 'nav.payroll',
       '/vacation': 'nav.vacation',
+      '/roster': 'nav.roster',
       '/training': 'nav.training',
       '/benefits': 'nav.benefits',
       '/hotel/rooms': 'nav.rooms',
@@ -0,0 +1,300 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { departmentService, Department } from '../services/departmentService';
+import { shiftService, Roster, Shift, ShiftTemplate } from '../services/shiftService';
+import LoadingSpinner from './LoadingSpinner';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Row key for shifts nobody has been assigned to yet
+const OPEN = 'open';
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0];
+
+const mondayOf = (date: Date) => {
+  const day = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  return toDateKey(new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS));
+};
+
+const addDays = (dateKey: string, days: number) => toDateKey(new Date(new Date(dateKey).getTime() + days * DAY_MS));
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const shiftHours = (shift: Pick<Shift, 'startTime' | 'endTime' | 'breakMinutes'>) => {
+  const start = toMinutes(shift.startTime);
+  const end = toMinutes(shift.endTime);
+  return ((end > start ? end - start : end + 24 * 60 - start) - shift.breakMinutes) / 60;
+};
+
+const RosterBoard: React.FC = () => {
+  const { user } = useAuth();
+  const isDepartmentAdmin = user?.role === 'DEPARTMENT_ADMIN';
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [departmentId, setDepartmentId] = useState(isDepartmentAdmin ? user?.departmentId || '' : '');
+  const [weekStart, setWeekStart] = useState(mondayOf(new Date()));
+  const [roster, setRoster] = useState<Roster | null>(null);
+  const [templates, setTemplates] = useState<ShiftTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isDepartmentAdmin) return;
+    departmentService
+      .getDepartments()
+      .then(response => {
+        const list: Department[] = response.data || [];
+        setDepartments(list);
+        setDepartmentId(current => current || list[0]?.id || '');
+      })
+      .catch(() => toast.error('Failed to load departments'));
+  }, [isDepartmentAdmin]);
+
+  const loadRoster = useCallback(async () => {
+    if (!departmentId) return;
+    const [rosterResponse, templatesResponse] = await Promise.all([
+      shiftService.getRoster(departmentId, weekStart),
+      shiftService.getTemplates(departmentId),
+    ]);
+    setRoster(rosterResponse.data);
+    setTemplates((templatesResponse.data || []).filter((template: ShiftTemplate) => template.isActive));
+  }, [departmentId, weekStart]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadRoster()
+      .catch(err => toast.error(err.response?.data?.message || 'Failed to load the roster'))
+      .finally(() => setIsLoading(false));
+  }, [loadRoster]);
+
+  const days = useMemo(() => Array.from({ length: 7 }, (_, index) => addDays(weekStart, index)), [weekStart]);
+
+  const rows = useMemo(
+    () => [
+      ...(roster?.staff || []).map(person => ({
+        key: person.id,
+        name: `${person.firstName} ${person.lastName}`,
+        position: person.position,
+      })),
+      { key: OPEN, name: 'Open shifts', position: null },
+    ],
+    [roster]
+  );
+
+  const shiftsIn = (rowKey: string, date: string) =>
+    (roster?.shifts || []).filter(shift => (shift.userId || OPEN) === rowKey && shift.date.slice(0, 10) === date);
+
+  const weeklyHours = (rowKey: string) =>
+    (roster?.shifts || [])
+      .filter(shift => shift.userId === rowKey)
+      .reduce((total, shift) => total + shiftHours(shift), 0);
+
+  // Runs a change to the roster, then reloads it so conflicts are recalculated
+  const save = async (change: () => Promise<{ message?: string }>) => {
+    setIsSaving(true);
+    try {
+      const response = await change();
+      if (response.message?.includes('warnings')) {
+        toast(response.message, { icon: '⚠️' });
+      } else {
+        toast.success(response.message || 'Roster updated');
+      }
+      await loadRoster();
+    } catch (err) {
+      const message = (err as { response?: { data?: { message?: string } } }).response?.data?.message;
+      toast.error(message || 'Failed to update the roster');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent, rowKey: string, date: string) => {
+    event.preventDefault();
+    if (!roster) return;
+    const [kind, id] = event.dataTransfer.getData('text/plain').split(':');
+    const userId = rowKey === OPEN ? null : rowKey;
+
+    if (kind === 'template') {
+      save(() => shiftService.addShift(roster.id, { templateId: id, userId: userId || undefined, date }));
+    } else if (kind === 'shift') {
+      const shift = roster.shifts.find(candidate => candidate.id === id);
+      if (shift && (shift.userId !== userId || shift.date.slice(0, 10) !== date)) {
+        save(() => shiftService.moveShift(id, { userId, date }));
+      }
+    }
+  };
+
+  const handleRemoveDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    const [kind, id] = event.dataTransfer.getData('text/plain').split(':');
+    if (kind === 'shift') {
+      save(() => shiftService.removeShift(id));
+    }
+  };
+
+  const chipBorder = (shift: Shift) => {
+    const conflicts = roster?.conflicts[shift.id] || [];
+    if (conflicts.some(conflict => conflict.blocking)) return 'border-red-500';
+    if (conflicts.length > 0) return 'border-amber-400';
+    return 'border-transparent';
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center space-x-3">
+          <h3 className="text-lg font-semibold text-charcoal">Roster</h3>
+          {roster && (
+            <span
+              className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                roster.status === 'PUBLISHED' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+              }`}
+            >
+              {roster.status === 'PUBLISHED' ? 'Published' : 'Draft'}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          {!isDepartmentAdmin && (
+            <select
+              className="form-input text-sm"
+              value={departmentId}
+              onChange={event => setDepartmentId(event.target.value)}
+            >
+              {departments.map(department => (
+                <option key={department.id} value={department.id}>{department.name}</option>
+              ))}
+            </select>
+          )}
+          <button className="btn btn-outline btn-sm" onClick={() => setWeekStart(addDays(weekStart, -7))}>‹</button>
+          <span className="text-sm font-medium w-36 text-center">
+            Week of {new Date(`${weekStart}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+          </span>
+          <button className="btn btn-outline btn-sm" onClick={() => setWeekStart(addDays(weekStart, 7))}>›</button>
+          {roster && (
+            <button
+              className="btn btn-primary btn-sm"
+              disabled={isSaving}
+              onClick={() => save(() => shiftService.publishRoster(roster.id))}
+            >
+              {roster.status === 'PUBLISHED' ? 'Re-publish' : 'Publish'}
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="card-body">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : !departmentId ? (
+          <p className="text-sm text-gray-600">Choose a department to plan its roster.</p>
+        ) : !roster ? (
+          <div className="text-center py-8">
+            <p className="text-sm text-gray-600 mb-4">There is no roster for this week yet.</p>
+            <button
+              className="btn btn-primary"
+              disabled={isSaving}
+              onClick={() => save(() => shiftService.createRoster(departmentId, weekStart))}
+            >
+              Start roster
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              {templates.map(template => (
+                <div
+                  key={template.id}
+                  draggable
+                  onDragStart={event => event.dataTransfer.setData('text/plain', `template:${template.id}`)}
+                  className="px-3 py-1 rounded-md text-xs font-medium text-white cursor-move"
+                  style={{ backgroundColor: template.color || '#6b7280' }}
+                  title="Drag onto the roster"
+                >
+                  {template.name} · {template.startTime}–{template.endTime}
+                </div>
+              ))}
+              {templates.length === 0 && (
+                <span className="text-sm text-gray-600">Add shift templates for this department to start rostering.</span>
+              )}
+              <div
+                onDragOver={event => event.preventDefault()}
+                onDrop={handleRemoveDrop}
+                className="ml-auto px-3 py-1 rounded-md border border-dashed border-red-300 text-xs text-red-600"
+              >
+                Drop here to remove
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="text-xs border-collapse w-full">
+                <thead>
+                  <tr>
+                    <th className="text-left pr-4 py-1 font-medium text-gray-600 sticky left-0 bg-white">Staff</th>
+                    {days.map(day => (
+                      <th key={day} className="min-w-[7rem] text-center font-normal text-gray-600">
+                        {new Date(`${day}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' })}
+                      </th>
+                    ))}
+                    <th className="text-right pl-2 font-medium text-gray-600">Hours</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => {
+                    const hours = row.key === OPEN ? null : weeklyHours(row.key);
+                    return (
+                      <tr key={row.key} className={`border-t ${row.key === OPEN ? 'border-gray-300' : 'border-gray-100'}`}>
+                        <td className="pr-4 py-1 whitespace-nowrap sticky left-0 bg-white">
+                          <span className={`font-medium ${row.key === OPEN ? 'text-gray-600' : 'text-charcoal'}`}>{row.name}</span>
+                          {row.position && <span className="text-gray-500 ml-1">· {row.position}</span>}
+                        </td>
+                        {days.map(day => (
+                          <td
+                            key={day}
+                            onDragOver={event => event.preventDefault()}
+                            onDrop={event => handleDrop(event, row.key, day)}
+                            className="p-1 align-top h-10 border-l border-gray-100"
+                          >
+                            {shiftsIn(row.key, day).map(shift => (
+                              <div
+                                key={shift.id}
+                                draggable
+                                onDragStart={event => event.dataTransfer.setData('text/plain', `shift:${shift.id}`)}
+                                title={(roster.conflicts[shift.id] || []).map(conflict => conflict.message).join('\n') || undefined}
+                                className={`mb-1 px-1.5 py-0.5 rounded border-2 text-white cursor-move ${chipBorder(shift)}`}
+                                style={{ backgroundColor: shift.template?.color || '#6b7280' }}
+                              >
+                                {shift.startTime}–{shift.endTime}
+                                {shift.template && <span className="block opacity-80">{shift.template.name}</span>}
+                              </div>
+                            ))}
+                          </td>
+                        ))}
+                        <td
+                          className={`text-right pl-2 ${
+                            hours !== null && hours > roster.maxWeeklyHours ? 'text-amber-600 font-bold' : 'text-gray-600'
+                          }`}
+                        >
+                          {hours !== null && hours.toFixed(1)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex flex-wrap gap-4 mt-4 text-xs text-gray-600">
+              <span className="flex items-center"><span className="w-3 h-3 rounded-sm border-2 border-red-500 mr-1" />Blocks publishing</span>
+              <span className="flex items-center"><span className="w-3 h-3 rounded-sm border-2 border-amber-400 mr-1" />Warning</span>
+              <span>At most {roster.maxWeeklyHours} hours per week</span>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RosterBoard;
@@ -0,0 +1,177 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { vacationService, TeamCalendar, TeamCalendarAbsence } from '../services/vacationService';
+import LoadingSpinner from './LoadingSpinner';
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0];
+
+const monthRange = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return {
+    from: toDateKey(new Date(Date.UTC(year, monthIndex - 1, 1))),
+    to: toDateKey(new Date(Date.UTC(year, monthIndex, 0))),
+  };
+};
+
+const shiftMonth = (month: string, months: number) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return toDateKey(new Date(Date.UTC(year, monthIndex - 1 + months, 1))).slice(0, 7);
+};
+
+const statusColors: Record<TeamCalendarAbsence['status'], string> = {
+  APPROVED: 'bg-green-500',
+  PENDING: 'bg-orange-300',
+};
+
+const TeamAbsenceCalendar: React.FC = () => {
+  const [month, setMonth] = useState(toDateKey(new Date()).slice(0, 7));
+  const [calendar, setCalendar] = useState<TeamCalendar | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const { from, to } = monthRange(month);
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    vacationService
+      .getTeamCalendar(from, to)
+      .then(response => {
+        if (!cancelled) setCalendar(response.data);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.response?.data?.message || 'Failed to load the team calendar');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [month]);
+
+  const people = useMemo(() => {
+    const grouped: Record<string, { name: string; position: string | null; absences: TeamCalendarAbsence[] }> = {};
+    (calendar?.absences || []).forEach(absence => {
+      (grouped[absence.userId] ||= { name: absence.name, position: absence.position, absences: [] }).absences.push(absence);
+    });
+    return Object.entries(grouped).sort(([, a], [, b]) => a.name.localeCompare(b.name));
+  }, [calendar]);
+
+  // Department-wide head-count limit; position-specific limits are checked on approval
+  const maxAbsent = useMemo(() => {
+    const limits = (calendar?.rules || [])
+      .filter(rule => rule.type === 'MAX_ABSENT' && !rule.position && !rule.startDate && rule.maxAbsent !== null)
+      .map(rule => rule.maxAbsent as number);
+    return limits.length > 0 ? Math.min(...limits) : null;
+  }, [calendar]);
+
+  const blackoutFor = (date: string) =>
+    (calendar?.rules || []).find(
+      rule => rule.type === 'BLACKOUT' && rule.startDate && rule.endDate &&
+        rule.startDate.slice(0, 10) <= date && date <= rule.endDate.slice(0, 10)
+    );
+
+  const absenceOn = (absences: TeamCalendarAbsence[], date: string) =>
+    absences.find(absence => absence.startDate.slice(0, 10) <= date && date <= absence.endDate.slice(0, 10));
+
+  const days = calendar?.days || [];
+
+  return (
+    <div className="card">
+      <div className="card-header flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-charcoal">Team Calendar</h3>
+        <div className="flex items-center space-x-2">
+          <button className="btn btn-outline btn-sm" onClick={() => setMonth(shiftMonth(month, -1))}>‹</button>
+          <span className="text-sm font-medium w-28 text-center">
+            {new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+          </span>
+          <button className="btn btn-outline btn-sm" onClick={() => setMonth(shiftMonth(month, 1))}>›</button>
+        </div>
+      </div>
+      <div className="card-body">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="text-xs border-collapse">
+                <thead>
+                  <tr>
+                    <th className="text-left pr-4 py-1 font-medium text-gray-600 sticky left-0 bg-white">Staff</th>
+                    {days.map(day => {
+                      const blackout = blackoutFor(day.date);
+                      return (
+                        <th
+                          key={day.date}
+                          title={blackout ? `${blackout.name} (blackout)` : undefined}
+                          className={`w-7 text-center font-normal ${blackout ? 'bg-gray-200' : ''}`}
+                        >
+                          {Number(day.date.slice(8, 10))}
+                        </th>
+                      );
+                    })}
+                  </tr>
+                </thead>
+                <tbody>
+                  {people.map(([userId, person]) => (
+                    <tr key={userId} className="border-t border-gray-100">
+                      <td className="pr-4 py-1 whitespace-nowrap sticky left-0 bg-white">
+                        <span className="font-medium text-charcoal">{person.name}</span>
+                        {person.position && <span className="text-gray-500 ml-1">· {person.position}</span>}
+                      </td>
+                      {days.map(day => {
+                        const absence = absenceOn(person.absences, day.date);
+                        return (
+                          <td key={day.date} className="p-0.5">
+                            {absence && (
+                              <div
+                                title={`${absence.type} · ${absence.status.toLowerCase()}`}
+                                className={`h-4 rounded-sm ${statusColors[absence.status]}`}
+                              />
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                  <tr className="border-t border-gray-300">
+                    <td className="pr-4 py-1 font-medium text-gray-600 sticky left-0 bg-white">Away</td>
+                    {days.map(day => {
+                      const overLimit = maxAbsent !== null && day.approved + day.pending > maxAbsent;
+                      return (
+                        <td
+                          key={day.date}
+                          title={`${day.approved} approved, ${day.pending} pending`}
+                          className={`text-center ${overLimit ? 'text-red-600 font-bold' : 'text-gray-600'}`}
+                        >
+                          {day.approved + day.pending || ''}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+            {people.length === 0 && (
+              <p className="text-sm text-gray-600 mt-4">Nobody in the team is away this month.</p>
+            )}
+            <div className="flex flex-wrap gap-4 mt-4 text-xs text-gray-600">
+              <span className="flex items-center"><span className="w-3 h-3 rounded-sm bg-green-500 mr-1" />Approved</span>
+              <span className="flex items-center"><span className="w-3 h-3 rounded-sm bg-orange-300 mr-1" />Pending</span>
+              <span className="flex items-center"><span className="w-3 h-3 bg-gray-200 mr-1" />Blackout</span>
+              {maxAbsent !== null && <span>At most {maxAbsent} away per day</span>}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TeamAbsenceCalendar;
@@ -1,7 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useForm } from 'react-hook-form';
 import { CreateReservationInput, Reservation, ReservationSource } from '../../types/hotel';
-import { useCreateReservation, useUpdateReservation } from '../../hooks/useHotel';
+import { useCreateReservation, useUpdateReservation, useRatePlans, useRateQuote } from '../../hooks/useHotel';
 import { hotelService } from '../../services/hotelService';
 
 // Form data type that matches HTML form inputs
@@ -15,11 +15,11 @@ interface ReservationFormData {
   };
   roomTypeId: string;
   roomId?: string;
+  ratePlanId?: string;
   checkInDate: string; // HTML date input returns string
   checkOutDate: string; // HTML date input returns string
   adults: number;
   children?: number;
-  rate: number;
   source: ReservationSource;
   paymentMethod?: string;
   specialRequests?: string; // Form handles as string, will convert to array
@@ -45,7 +45,6 @@ const CreateReservationModal: React.FC<CreateReservationModalProps> = ({
   const [selectedGuestId, setSelectedGuestId] = useState<string>('');
   const [roomTypes, setRoomTypes] = useState<any[]>([]);
   const [availableRooms, setAvailableRooms] = useState<any[]>([]);
-  const [calculatedRate, setCalculatedRate] = useState<number>(0);
   
   const createReservation = useCreateReservation();
   const updateReservation = useUpdateReservation();
@@ -62,6 +61,28 @@ const CreateReservationModal: React.FC<CreateReservationModalProps> = ({
   const watchedCheckIn = watch('checkInDate');
   const watchedCheckOut = watch('checkOutDate');
   const watchedRoomTypeId = watch('roomTypeId');
+  const watchedRoomId = watch('roomId');
+  const watchedRatePlanId = watch('ratePlanId');
+  const watchedAdults = watch('adults');
+  const watchedChildren = watch('children');
+
+  const { data: ratePlans = [] } = useRatePlans(watchedRoomTypeId || undefined);
+
+  // Totals are always priced by the backend rate engine
+  const quoteInput = useMemo(() => {
+    if (!watchedCheckIn || !watchedCheckOut || (!watchedRoomId && !watchedRoomTypeId)) return null;
+    return {
+      unitId: watchedRoomId || undefined,
+      roomTypeId: watchedRoomId ? undefined : watchedRoomTypeId,
+      ratePlanId: watchedRatePlanId || undefined,
+      checkInDate: watchedCheckIn,
+      checkOutDate: watchedCheckOut,
+      adults: Number(watchedAdults || 1),
+      children: Number(watchedChildren || 0),
+    };
+  }, [watchedCheckIn, watchedCheckOut, watchedRoomId, watchedRoomTypeId, watchedRatePlanId, watchedAdults, watchedChildren]);
+
+  const { data: quote, error: quoteError } = useRateQuote(quoteInput);
 
   // Load room types on mount and handle availability checks
   useEffect(() => {
@@ -82,7 +103,7 @@ const CreateReservationModal: React.FC<CreateReservationModalProps> = ({
           setValue('adults', reservation.adults);
           setValue('children', reservation.children || 0);
           setValue('source', reservation.source);
-          setValue('rate', reservation.rate);
+          setValue('ratePlanId', (reservation as any).ratePlanId || '');
           
           if (reservation.guest) {
             setSelectedGuestId(reservation.guest.id);
@@ -104,7 +125,7 @@ const CreateReservationModal: React.FC<CreateReservationModalProps> = ({
     loadData();
   }, [isOpen, mode, reservation, setValue, reset]);
 
-  // Calculate rate and available rooms when dates/room type change
+  // Load available rooms when dates/room type change
   useEffect(() => {
     if (isOpen && watchedCheckIn && watchedCheckOut && watchedRoomTypeId) {
       loadAvailableRooms();
@@ -132,17 +153,9 @@ const CreateReservationModal: React.FC<CreateReservationModalProps> = ({
         new Date(watchedCheckOut)
       );
       setAvailableRooms(response.data || []);
-      
-      // Calculate rate based on room type
-      const selectedRoomType = roomTypes.find(rt => rt.id === watchedRoomTypeId);
-      if (selectedRoomType) {
-        setCalculatedRate(selectedRoomType.baseRate);
-        setValue('rate', selectedRoomType.baseRate);
-      }
     } catch (error) {
       console.error('Failed to load available rooms:', error);
       setAvailableRooms([]);
-      setCalculatedRate(0);
       // Could add toast notification here for better user feedback
     }
   };
@@ -169,16 +182,6 @@ const CreateReservationModal: React.FC<CreateReservationModalProps> = ({
     setGuestSearchResults([]);
   };
 
-  const calculateTotal = () => {
-    if (!watchedCheckIn || !watchedCheckOut || !calculatedRate) return 0;
-    
-    const checkIn = new Date(watchedCheckIn);
-    const checkOut = new Date(watchedCheckOut);
-    const nights = Math.ceil((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24));
-    
-    return nights * calculatedRate;
-  };
-
   const onSubmit = async (data: ReservationFormData) => {
     try {
       const submissionData: CreateReservationInput = {
@@ -201,12 +204,13 @@ const CreateReservationModal: React.FC<CreateReservationModalProps> = ({
         } : undefined,
         roomTypeId: data.roomTypeId,
         roomId: data.roomId,
+        ratePlanId: data.ratePlanId || undefined,
         checkInDate: new Date(data.checkInDate),
         checkOutDate: new Date(data.checkOutDate),
         numberOfGuests: (data.adults || 1) + (data.children || 0),
         adults: data.adults,
         children: data.children || 0,
-        rate: data.rate,
+        rate: quote?.averageNightlyRate ?? 0,
         source: data.source,
         paymentMethod: data.paymentMethod,
         specialRequests: data.specialRequests ? (data.specialRequests.trim() ? data.specialRequests.trim().split('\n').map(req => req.trim()).filter(req => req.length > 0) : []) : [],
@@ -231,7 +235,6 @@ const CreateReservationModal: React.FC<CreateReservationModalProps> = ({
       setGuestSearchResults([]);
       setRoomTypes([]);
       setAvailableRooms([]);
-      setCalculatedRate(0);
     } catch (error) {
       console.error('Error saving reservation:', error);
       // Could add toast notification here for better user feedback
@@ -242,7 +245,8 @@ const CreateReservationModal: React.FC<CreateReservationModalProps> = ({
   if (!isOpen) return null;
 
   const isLoading = createReservation.isPending || updateReservation.isPending;
-  const totalAmount = calculateTotal();
+  const totalAmount = quote?.totalAmount ?? 0;
+  const canBook = !!quote && quote.isBookable && totalAmount > 0;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
@@ -574,26 +578,22 @@ const CreateReservationModal: React.FC<CreateReservationModalProps> = ({
                   )}
                 </div>
 
-                {/* Rate */}
+                {/* Rate Plan */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Rate per Night *
+                    Rate Plan
                   </label>
-                  <div className="relative">
-                    <span className="absolute left-3 top-2 text-gray-500">$</span>
-                    <input
-                      type="number"
-                      step="0.01"
-                      {...register('rate', { 
-                        required: 'Rate is required',
-                        min: { value: 0.01, message: 'Rate must be greater than 0' }
-                      })}
-                      className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    />
-                  </div>
-                  {errors.rate && (
-                    <p className="mt-1 text-sm text-red-600">{errors.rate.message}</p>
-                  )}
+                  <select
+                    {...register('ratePlanId')}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Default rate</option>
+                    {ratePlans.map((plan) => (
+                      <option key={plan.id} value={plan.id}>
+                        {plan.name} ({plan.planType.replace(/_/g, ' ')})
+                      </option>
+                    ))}
+                  </select>
                 </div>
               </div>
 
@@ -610,8 +610,13 @@ const CreateReservationModal: React.FC<CreateReservationModalProps> = ({
                 />
               </div>
 
-              {/* Total Summary */}
-              {totalAmount > 0 && (
+              {/* Quote Summary */}
+              {quoteError && (
+                <div className="bg-red-50 p-4 rounded-md text-sm text-red-700">
+                  {(quoteError as any)?.response?.data?.message || 'Unable to price this stay'}
+                </div>
+              )}
+              {quote && (
                 <div className="bg-gray-50 p-4 rounded-md">
                   <h4 className="font-medium text-gray-900 mb-2">Booking Summary</h4>
                   <div className="space-y-1 text-sm">
@@ -622,14 +627,28 @@ const CreateReservationModal: React.FC<CreateReservationModalProps> = ({
                         {watchedCheckOut && new Date(watchedCheckOut).toLocaleDateString()}
                       </span>
                     </div>
-                    <div className="flex justify-between">
-                      <span>Rate per night:</span>
-                      <span>${calculatedRate}</span>
-                    </div>
+                    {quote.nights.map((night) => (
+                      <div key={night.date} className="flex justify-between text-gray-600">
+                        <span>
+                          {new Date(`${night.date}T00:00:00`).toLocaleDateString()}
+                          {night.seasonName ? ` · ${night.seasonName}` : ''}
+                        </span>
+                        <span>${night.total.toFixed(2)}</span>
+                      </div>
+                    ))}
+                    {quote.surchargeTotal > 0 && (
+                      <div className="flex justify-between">
+                        <span>Includes occupancy surcharges:</span>
+                        <span>${quote.surchargeTotal.toFixed(2)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between font-medium text-base pt-2 border-t">
                       <span>Total Amount:</span>
-                      <span className="text-green-600">${totalAmount.toLocaleString()}</span>
+                      <span className="text-green-600">{quote.currency} {totalAmount.toLocaleString()}</span>
                     </div>
+                    {quote.restrictionViolations.map((violation) => (
+                      <p key={violation} className="text-red-600">{violation}</p>
+                    ))}
                   </div>
                 </div>
               )}
@@ -647,7 +666,7 @@ const CreateReservationModal: React.FC<CreateReservationModalProps> = ({
                 <button
                   type="submit"
                   className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                  disabled={isLoading || totalAmount === 0}
+                  disabled={isLoading || !canBook}
                 >
                   {isLoading ? (
                     <>
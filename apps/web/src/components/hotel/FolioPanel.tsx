@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import {
+  useReservationFolios,
+  useFolioPdfStatus,
+  useCreateFolio,
+  usePostFolioCharge,
+  usePostFolioRoomCharges,
+  useVoidFolioLine,
+  useTransferFolioLine,
+  useRequestFolioPdf,
+} from '../../hooks/useHotel';
+import { Folio, FolioChargeCategory, FolioLine } from '../../types/hotel';
+import { PermissionGate } from '..';
+import LoadingSpinner from '../LoadingSpinner';
+
+interface FolioPanelProps {
+  reservationId: string;
+}
+
+const CHARGE_CATEGORIES: FolioChargeCategory[] = ['FOOD_BEVERAGE', 'SPA', 'CONCIERGE', 'MISC', 'ADJUSTMENT', 'ROOM'];
+
+const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+
+const lineStatusClass = (line: FolioLine) => {
+  if (line.status === 'VOIDED') return 'line-through text-gray-400';
+  if (line.status === 'TRANSFERRED') return 'italic text-gray-400';
+  return '';
+};
+
+const FolioPdfButton: React.FC<{ folioId: string }> = ({ folioId }) => {
+  const { data: pdfStatus } = useFolioPdfStatus(folioId);
+  const requestPdf = useRequestFolioPdf();
+
+  if (pdfStatus?.status === 'READY' && pdfStatus.downloadUrl) {
+    return (
+      <div className="flex gap-2">
+        <a className="btn btn-secondary" href={pdfStatus.downloadUrl} target="_blank" rel="noreferrer">Download PDF</a>
+        <button className="btn btn-secondary" onClick={() => requestPdf.mutate(folioId)} disabled={requestPdf.isPending}>
+          Regenerate
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <button
+      className="btn btn-secondary"
+      onClick={() => requestPdf.mutate(folioId)}
+      disabled={requestPdf.isPending || pdfStatus?.status === 'PENDING'}
+    >
+      {pdfStatus?.status === 'PENDING' ? 'Generating PDF...' : 'Request PDF'}
+    </button>
+  );
+};
+
+const FolioPanel: React.FC<FolioPanelProps> = ({ reservationId }) => {
+  const { data: folios = [], isLoading } = useReservationFolios(reservationId);
+  const createFolio = useCreateFolio(reservationId);
+  const postCharge = usePostFolioCharge(reservationId);
+  const postRoomCharges = usePostFolioRoomCharges(reservationId);
+  const voidLine = useVoidFolioLine(reservationId);
+  const transferLine = useTransferFolioLine(reservationId);
+
+  const [activeFolioId, setActiveFolioId] = useState('');
+  const [category, setCategory] = useState<FolioChargeCategory>('FOOD_BEVERAGE');
+  const [description, setDescription] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [unitAmount, setUnitAmount] = useState('');
+  const [taxRate, setTaxRate] = useState('');
+
+  useEffect(() => {
+    if (!folios.some(folio => folio.id === activeFolioId) && folios.length > 0) {
+      setActiveFolioId(folios[0].id);
+    }
+  }, [folios, activeFolioId]);
+
+  const folio: Folio | undefined = folios.find(f => f.id === activeFolioId);
+  const otherOpenFolios = folios.filter(f => f.id !== activeFolioId && f.status === 'OPEN');
+  const isOpen = folio?.status === 'OPEN';
+
+  const submitCharge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!folio || !description || !unitAmount) return;
+    await postCharge.mutateAsync({
+      folioId: folio.id,
+      input: {
+        category,
+        description,
+        quantity: Number(quantity) || 1,
+        unitAmount: Number(unitAmount),
+        taxRate: taxRate ? Number(taxRate) : undefined,
+      },
+    });
+    setDescription('');
+    setQuantity('1');
+    setUnitAmount('');
+    setTaxRate('');
+  };
+
+  const handleVoid = (line: FolioLine) => {
+    const reason = window.prompt(`Reason for voiding "${line.description}"?`);
+    if (reason && folio) {
+      voidLine.mutate({ folioId: folio.id, lineId: line.id, reason });
+    }
+  };
+
+  const handleOpenFolio = () => {
+    const name = window.prompt('Name for the new folio (e.g. Company, Incidentals)');
+    if (name) {
+      createFolio.mutate(name);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="bg-white border rounded-lg p-6 flex justify-center">
+        <LoadingSpinner size="md" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white border rounded-lg p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="font-semibold text-charcoal">Folios</h3>
+        <div className="flex flex-wrap gap-2">
+          {folios.map(f => (
+            <button
+              key={f.id}
+              className={`px-3 py-1 rounded border text-sm ${f.id === activeFolioId ? 'bg-blue-600 text-white' : 'bg-white'}`}
+              onClick={() => setActiveFolioId(f.id)}
+            >
+              {f.name} · {f.folioNumber}
+              {f.status === 'CLOSED' && ' (closed)'}
+            </button>
+          ))}
+          <PermissionGate resource="folio" action="create" scope="property" hideOnDenied>
+            <button className="px-3 py-1 rounded border text-sm" onClick={handleOpenFolio} disabled={createFolio.isPending}>
+              + New Folio
+            </button>
+          </PermissionGate>
+        </div>
+      </div>
+
+      {folio && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="bg-gray-50 text-left">
+                  <th className="p-2">Date</th>
+                  <th className="p-2">Category</th>
+                  <th className="p-2">Description</th>
+                  <th className="p-2 text-right">Qty</th>
+                  <th className="p-2 text-right">Amount</th>
+                  <th className="p-2 print:hidden"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {folio.lines.map(line => (
+                  <tr key={line.id} className={`border-t ${lineStatusClass(line)}`}>
+                    <td className="p-2 whitespace-nowrap">{new Date(line.serviceDate).toLocaleDateString()}</td>
+                    <td className="p-2">{line.category}</td>
+                    <td className="p-2">
+                      {line.description}
+                      {line.voidReason && <div className="text-xs">Voided: {line.voidReason}</div>}
+                      {line.status === 'TRANSFERRED' && <div className="text-xs">Transferred</div>}
+                    </td>
+                    <td className="p-2 text-right">{line.quantity}</td>
+                    <td className="p-2 text-right">{formatMoney(line.amount, folio.currency)}</td>
+                    <td className="p-2 text-right whitespace-nowrap print:hidden">
+                      {isOpen && line.status === 'POSTED' && !line.parentLineId && (
+                        <PermissionGate resource="folio" action="update" scope="property" hideOnDenied>
+                          {line.category !== 'PAYMENT' && (
+                            <button className="text-red-600 mr-3" onClick={() => handleVoid(line)}>Void</button>
+                          )}
+                          {otherOpenFolios.length > 0 && (
+                            <select
+                              className="border rounded p-1 text-xs"
+                              value=""
+                              onChange={e =>
+                                e.target.value &&
+                                transferLine.mutate({ folioId: folio.id, lineId: line.id, targetFolioId: e.target.value })
+                              }
+                            >
+                              <option value="">Transfer to...</option>
+                              {otherOpenFolios.map(target => (
+                                <option key={target.id} value={target.id}>{target.name}</option>
+                              ))}
+                            </select>
+                          )}
+                        </PermissionGate>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {folio.lines.length === 0 && (
+                  <tr><td className="p-4 text-gray-500" colSpan={6}>No charges posted yet.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end mt-4">
+            <dl className="w-64 text-sm space-y-1">
+              <div className="flex justify-between"><dt>Charges</dt><dd>{formatMoney(folio.totals.charges, folio.currency)}</dd></div>
+              <div className="flex justify-between"><dt>Payments & credits</dt><dd>{formatMoney(folio.totals.credits, folio.currency)}</dd></div>
+              <div className="flex justify-between font-semibold border-t pt-1"><dt>Balance</dt><dd>{formatMoney(folio.totals.balance, folio.currency)}</dd></div>
+            </dl>
+          </div>
+
+          {isOpen && (
+            <PermissionGate resource="folio" action="create" scope="property" hideOnDenied>
+              <form onSubmit={submitCharge} className="mt-6 grid grid-cols-2 md:grid-cols-6 gap-3 print:hidden">
+                <select className="form-input" value={category} onChange={e => setCategory(e.target.value as FolioChargeCategory)}>
+                  {CHARGE_CATEGORIES.map(option => (
+                    <option key={option} value={option}>{option.replace('_', ' ')}</option>
+                  ))}
+                </select>
+                <input
+                  className="form-input md:col-span-2"
+                  placeholder="Description"
+                  value={description}
+                  onChange={e => setDescription(e.target.value)}
+                  required
+                />
+                <input className="form-input" type="number" min="1" placeholder="Qty" value={quantity} onChange={e => setQuantity(e.target.value)} />
+                <input
+                  className="form-input"
+                  type="number"
+                  step="0.01"
+                  placeholder="Unit amount"
+                  value={unitAmount}
+                  onChange={e => setUnitAmount(e.target.value)}
+                  required
+                />
+                <input
+                  className="form-input"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  placeholder="Tax %"
+                  value={taxRate}
+                  onChange={e => setTaxRate(e.target.value)}
+                />
+                <button className="btn btn-primary md:col-span-2" type="submit" disabled={postCharge.isPending}>
+                  {postCharge.isPending ? 'Posting...' : 'Post Charge'}
+                </button>
+                <button
+                  className="btn btn-secondary md:col-span-2"
+                  type="button"
+                  onClick={() => postRoomCharges.mutate(folio.id)}
+                  disabled={postRoomCharges.isPending}
+                >
+                  Post Room Nights
+                </button>
+              </form>
+            </PermissionGate>
+          )}
+
+          <div className="flex justify-end gap-2 mt-6 print:hidden">
+            <button className="btn btn-secondary" onClick={() => window.print()}>Print</button>
+            <FolioPdfButton folioId={folio.id} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FolioPanel;
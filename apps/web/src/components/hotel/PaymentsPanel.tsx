@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import {
+  useReservationPayments,
+  useRecordPayment,
+  useRefundPayment,
+  useAddDeposit,
+  useWaiveDeposit,
+} from '../../hooks/useHotel';
+import { PaymentMethodType, PaymentTransaction } from '../../types/hotel';
+import { PermissionGate } from '..';
+import LoadingSpinner from '../LoadingSpinner';
+
+interface PaymentsPanelProps {
+  reservationId: string;
+}
+
+const PAYMENT_METHODS: PaymentMethodType[] = ['CARD', 'CASH', 'BANK_TRANSFER', 'OTHER'];
+
+const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+
+const transactionStatusClass: Record<PaymentTransaction['status'], string> = {
+  CAPTURED: 'bg-green-100 text-green-800',
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  FAILED: 'bg-red-100 text-red-800',
+};
+
+const PaymentsPanel: React.FC<PaymentsPanelProps> = ({ reservationId }) => {
+  const { data: summary, isLoading } = useReservationPayments(reservationId);
+  const recordPayment = useRecordPayment(reservationId);
+  const refundPayment = useRefundPayment(reservationId);
+  const addDeposit = useAddDeposit(reservationId);
+  const waiveDeposit = useWaiveDeposit(reservationId);
+
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethodType>('CARD');
+  const [depositId, setDepositId] = useState('');
+  const [reference, setReference] = useState('');
+  const [depositAmount, setDepositAmount] = useState('');
+  const [depositDueDate, setDepositDueDate] = useState('');
+
+  if (isLoading || !summary) {
+    return (
+      <div className="bg-white border rounded-lg p-6 flex justify-center">
+        <LoadingSpinner size="md" />
+      </div>
+    );
+  }
+
+  const { currency } = summary;
+  const pendingDeposits = summary.deposits.filter(deposit => deposit.status === 'PENDING');
+
+  const submitPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!amount) return;
+    await recordPayment.mutateAsync({
+      amount: Number(amount),
+      method,
+      depositId: depositId || undefined,
+      reference: reference || undefined,
+    });
+    setAmount('');
+    setDepositId('');
+    setReference('');
+  };
+
+  const submitDeposit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!depositAmount || !depositDueDate) return;
+    await addDeposit.mutateAsync({ amount: Number(depositAmount), dueDate: depositDueDate });
+    setDepositAmount('');
+    setDepositDueDate('');
+  };
+
+  const handleRefund = (transaction: PaymentTransaction) => {
+    const input = window.prompt(
+      `Refund amount (up to ${transaction.refundableAmount.toFixed(2)} ${currency})`,
+      transaction.refundableAmount.toFixed(2),
+    );
+    if (!input) return;
+    const reason = window.prompt('Reason for the refund?');
+    if (!reason) return;
+    refundPayment.mutate({ transactionId: transaction.id, reason, amount: Number(input) });
+  };
+
+  return (
+    <div className="bg-white border rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-charcoal">Payments</h3>
+        <span className="px-2 py-1 bg-gray-100 text-gray-800 text-xs font-medium rounded">{summary.paymentStatus}</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 text-sm">
+        <div><div className="text-gray-500">Total</div><div className="font-medium">{formatMoney(summary.totalAmount, currency)}</div></div>
+        <div><div className="text-gray-500">Paid</div><div className="font-medium">{formatMoney(summary.paidAmount, currency)}</div></div>
+        <div><div className="text-gray-500">Refunded</div><div className="font-medium">{formatMoney(summary.refundedAmount, currency)}</div></div>
+        <div><div className="text-gray-500">Balance</div><div className="font-semibold">{formatMoney(summary.balance, currency)}</div></div>
+      </div>
+
+      <h4 className="text-sm font-medium text-gray-700 mb-2">Deposit schedule</h4>
+      {summary.deposits.length > 0 ? (
+        <ul className="space-y-2 mb-4">
+          {summary.deposits.map(deposit => (
+            <li key={deposit.id} className="flex items-center justify-between text-sm border rounded p-2">
+              <div>
+                <span className="font-medium">{formatMoney(deposit.amount, currency)}</span>
+                <span className="text-gray-500"> due {new Date(deposit.dueDate).toLocaleDateString()}</span>
+                {deposit.description && <span className="text-gray-500"> · {deposit.description}</span>}
+                {deposit.status === 'PENDING' && deposit.paidAmount > 0 && (
+                  <span className="text-gray-500"> · {formatMoney(deposit.paidAmount, currency)} received</span>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                <span className={`text-xs font-medium ${deposit.isOverdue ? 'text-red-600' : 'text-gray-600'}`}>
+                  {deposit.isOverdue ? 'OVERDUE' : deposit.status}
+                </span>
+                {deposit.status === 'PENDING' && (
+                  <PermissionGate resource="payment" action="update" scope="property" hideOnDenied>
+                    <button className="text-xs text-gray-600 underline" onClick={() => waiveDeposit.mutate(deposit.id)}>
+                      Waive
+                    </button>
+                  </PermissionGate>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">No deposits scheduled.</p>
+      )}
+
+      <PermissionGate resource="payment" action="create" scope="property" hideOnDenied>
+        <form onSubmit={submitDeposit} className="flex flex-wrap gap-3 mb-6">
+          <input
+            className="form-input w-32"
+            type="number"
+            step="0.01"
+            min="0.01"
+            placeholder="Amount"
+            value={depositAmount}
+            onChange={e => setDepositAmount(e.target.value)}
+            required
+          />
+          <input className="form-input" type="date" value={depositDueDate} onChange={e => setDepositDueDate(e.target.value)} required />
+          <button className="btn btn-secondary" type="submit" disabled={addDeposit.isPending}>Schedule Deposit</button>
+        </form>
+      </PermissionGate>
+
+      <h4 className="text-sm font-medium text-gray-700 mb-2">Transactions</h4>
+      <div className="overflow-x-auto mb-4">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="bg-gray-50 text-left">
+              <th className="p-2">Date</th>
+              <th className="p-2">Type</th>
+              <th className="p-2">Method</th>
+              <th className="p-2">Reference</th>
+              <th className="p-2 text-right">Amount</th>
+              <th className="p-2">Status</th>
+              <th className="p-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.transactions.map(transaction => (
+              <tr key={transaction.id} className="border-t">
+                <td className="p-2 whitespace-nowrap">{new Date(transaction.capturedAt || transaction.createdAt).toLocaleString()}</td>
+                <td className="p-2">{transaction.type}</td>
+                <td className="p-2">{transaction.method.replace('_', ' ')}</td>
+                <td className="p-2">
+                  {transaction.reference || transaction.providerReference || '-'}
+                  {transaction.failureReason && <div className="text-xs text-red-600">{transaction.failureReason}</div>}
+                  {transaction.type === 'REFUND' && transaction.notes && <div className="text-xs text-gray-500">{transaction.notes}</div>}
+                </td>
+                <td className="p-2 text-right">
+                  {transaction.type === 'REFUND' ? '-' : ''}{formatMoney(Number(transaction.amount), currency)}
+                </td>
+                <td className="p-2">
+                  <span className={`px-2 py-0.5 rounded text-xs ${transactionStatusClass[transaction.status]}`}>{transaction.status}</span>
+                </td>
+                <td className="p-2 text-right">
+                  {transaction.refundableAmount > 0 && (
+                    <PermissionGate resource="payment" action="update" scope="property" hideOnDenied>
+                      <button className="text-red-600 text-xs" onClick={() => handleRefund(transaction)} disabled={refundPayment.isPending}>
+                        Refund
+                      </button>
+                    </PermissionGate>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {summary.transactions.length === 0 && (
+              <tr><td className="p-4 text-gray-500" colSpan={7}>No payments recorded yet.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <PermissionGate resource="payment" action="create" scope="property" hideOnDenied>
+        <form onSubmit={submitPayment} className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <input
+            className="form-input"
+            type="number"
+            step="0.01"
+            min="0.01"
+            placeholder="Amount"
+            value={amount}
+            onChange={e => setAmount(e.target.value)}
+            required
+          />
+          <select className="form-input" value={method} onChange={e => setMethod(e.target.value as PaymentMethodType)}>
+            {PAYMENT_METHODS.map(option => (
+              <option key={option} value={option}>{option.replace('_', ' ')}</option>
+            ))}
+          </select>
+          <select className="form-input" value={depositId} onChange={e => setDepositId(e.target.value)}>
+            <option value="">General payment</option>
+            {pendingDeposits.map(deposit => (
+              <option key={deposit.id} value={deposit.id}>
+                Deposit due {new Date(deposit.dueDate).toLocaleDateString()}
+              </option>
+            ))}
+          </select>
+          <input className="form-input" placeholder="Reference" value={reference} onChange={e => setReference(e.target.value)} />
+          <button className="btn btn-primary" type="submit" disabled={recordPayment.isPending}>
+            {recordPayment.isPending ? 'Processing...' : 'Take Payment'}
+          </button>
+        </form>
+      </PermissionGate>
+    </div>
+  );
+};
+
+export default PaymentsPanel;
@@ -1,4 +1,5 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { Reservation, ReservationStatus, PaymentStatus } from '../../types/hotel';
 import { useCheckIn, useCheckOut, useCancelReservation } from '../../hooks/useHotel';
 
@@ -175,7 +176,7 @@ const ReservationCard: React.FC<ReservationCardProps> = ({ reservation, onClick,
           <div>
             <div className="text-sm font-medium text-gray-700">Room</div>
             <div className="font-semibold text-gray-900">
-              {reservation.room?.number || 'TBD'} ({reservation.roomType?.name || 'Unknown Type'})
+              {reservation.unit?.unitNumber || reservation.room?.number || 'TBD'} ({reservation.roomType?.name || 'Unknown Type'})
             </div>
           </div>
           <div>
@@ -256,6 +257,15 @@ const ReservationCard: React.FC<ReservationCardProps> = ({ reservation, onClick,
               Check Out
             </button>
           )}
+          {reservation.status === 'CHECKED_IN' && (
+            <Link
+              to={`/concierge/reservation-360/${reservation.id}`}
+              className="px-3 py-1 border border-gray-300 text-gray-700 rounded text-xs hover:bg-gray-100 transition-colors"
+              onClick={e => e.stopPropagation()}
+            >
+              Change Room
+            </Link>
+          )}
           {['CONFIRMED', 'PENDING'].includes(reservation.status) && (
             <button
               className="px-3 py-1 bg-red-600 text-white rounded text-xs hover:bg-red-700 transition-colors"
@@ -18,10 +18,10 @@ const statusColors: Record<RoomStatus, string> = {
 };
 
 const housekeepingColors: Record<HousekeepingStatus, string> = {
-  CLEAN: 'bg-green-50 text-green-700',
   DIRTY: 'bg-red-50 text-red-700',
-  INSPECTED: 'bg-blue-50 text-blue-700',
-  OUT_OF_ORDER: 'bg-gray-50 text-gray-700',
+  CLEANING: 'bg-purple-50 text-purple-700',
+  CLEAN: 'bg-blue-50 text-blue-700',
+  INSPECTED: 'bg-green-50 text-green-700',
 };
 
 const RoomCard: React.FC<RoomCardProps> = ({ room, onClick, compact = false }) => {
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { useReservation, useRooms, useRoomMove, useStaySegments } from '../../hooks/useHotel';
+import LoadingSpinner from '../LoadingSpinner';
+
+interface StaySegmentsPanelProps {
+  reservationId: string;
+}
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const StaySegmentsPanel: React.FC<StaySegmentsPanelProps> = ({ reservationId }) => {
+  const { data: reservation } = useReservation(reservationId);
+  const { data: segments = [], isLoading } = useStaySegments(reservationId);
+  const isInHouse = reservation?.status === 'CHECKED_IN';
+  const { data: roomsResponse } = useRooms(isInHouse ? { status: ['AVAILABLE'] } : undefined);
+  const roomMove = useRoomMove();
+
+  const [unitId, setUnitId] = useState('');
+  const [reason, setReason] = useState('');
+
+  const availableRooms = (roomsResponse?.data || []).filter(room => room.id !== reservation?.unitId);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!unitId) return;
+    await roomMove.mutateAsync({ id: reservationId, input: { unitId, reason: reason || undefined } });
+    setUnitId('');
+    setReason('');
+  };
+
+  return (
+    <div className="bg-white border rounded-lg p-6">
+      <h3 className="font-semibold text-charcoal mb-4">Stay History</h3>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner size="md" />
+        </div>
+      ) : segments.length > 0 ? (
+        <ol className="space-y-3">
+          {segments.map(segment => (
+            <li key={segment.id} className="flex items-start justify-between border-l-4 border-blue-400 pl-3">
+              <div>
+                <div className="font-medium">Room {segment.unit.unitNumber}</div>
+                <div className="text-sm text-gray-600">
+                  {formatDateTime(segment.startDate)} → {segment.endDate ? formatDateTime(segment.endDate) : 'now'}
+                </div>
+                {segment.reason && <div className="text-sm text-gray-500 mt-1">Moved: {segment.reason}</div>}
+              </div>
+              {!segment.endDate && (
+                <span className="px-2 py-1 bg-green-100 text-green-800 text-xs font-medium rounded">Current</span>
+              )}
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-sm text-gray-500">No stay recorded yet. Segments start when the guest checks in.</p>
+      )}
+
+      {isInHouse && (
+        <form onSubmit={submit} className="mt-6 grid grid-cols-1 md:grid-cols-4 gap-3">
+          <select className="form-input" value={unitId} onChange={e => setUnitId(e.target.value)} required>
+            <option value="">Move to room...</option>
+            {availableRooms.map(room => (
+              <option key={room.id} value={room.id}>
+                {room.unitNumber} ({room.unitType}, sleeps {room.maxOccupancy})
+              </option>
+            ))}
+          </select>
+          <input
+            className="form-input md:col-span-2"
+            placeholder="Reason (e.g. noisy neighbours, upgrade)"
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+          />
+          <button className="btn btn-primary" type="submit" disabled={!unitId || roomMove.isPending}>
+            {roomMove.isPending ? 'Moving...' : 'Move Guest'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default StaySegmentsPanel;
@@ -0,0 +1,252 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { isAxiosError } from 'axios';
+import { useReservationTimeline, useMoveReservation } from '../../hooks/useHotel';
+import { TimelineReservation, MoveReservationInput } from '../../types/hotel';
+import LoadingSpinner from '../LoadingSpinner';
+
+interface TapeChartProps {
+  // Called with the reservation id
+  onReservationClick?: React.Dispatch<string>;
+}
+
+interface DragState {
+  reservation: TimelineReservation;
+  mode: 'move' | 'resize';
+  grabOffset: number;
+}
+
+// Body of a rejected move; conflicts come with units that are free for the stay
+interface MoveErrorResponse {
+  message?: string;
+  error?: { suggestedUnits?: { unitNumber: string }[] };
+}
+
+const CELL_WIDTH = 48;
+const RANGE_OPTIONS = [7, 14, 30];
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0];
+
+const addDays = (dateKey: string, days: number) => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateKey(date);
+};
+
+// Day index under the pointer, relative to the left edge of the element being hovered
+const dayUnderPointer = (e: React.DragEvent<HTMLElement>) =>
+  Math.floor((e.clientX - e.currentTarget.getBoundingClientRect().left) / CELL_WIDTH);
+
+const diffDays = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / (1000 * 60 * 60 * 24));
+
+const statusColors: Record<string, string> = {
+  CONFIRMED: 'bg-blue-500 hover:bg-blue-600',
+  CHECKED_IN: 'bg-green-500 hover:bg-green-600',
+  CHECKED_OUT: 'bg-gray-400',
+};
+
+const TapeChart: React.FC<TapeChartProps> = ({ onReservationClick }) => {
+  const [startDate, setStartDate] = useState(toDateKey(new Date()));
+  const [rangeDays, setRangeDays] = useState(14);
+  const [moveError, setMoveError] = useState<{ message: string; suggestedUnits: string[] } | null>(null);
+  const dragState = useRef<DragState | null>(null);
+
+  const endDate = addDays(startDate, rangeDays);
+  const { data: timeline, isLoading } = useReservationTimeline(startDate, endDate);
+  const moveReservation = useMoveReservation();
+
+  const dates = useMemo(
+    () => Array.from({ length: rangeDays }, (_, index) => addDays(startDate, index)),
+    [startDate, rangeDays],
+  );
+
+  const reservationsByUnit = useMemo(() => {
+    const grouped: Record<string, TimelineReservation[]> = {};
+    (timeline?.reservations || []).forEach(reservation => {
+      (grouped[reservation.unitId] ||= []).push(reservation);
+    });
+    return grouped;
+  }, [timeline]);
+
+  const submitMove = (reservation: TimelineReservation, input: MoveReservationInput) => {
+    setMoveError(null);
+    moveReservation.mutate(
+      { id: reservation.id, input },
+      {
+        onError: error => {
+          const data = isAxiosError<MoveErrorResponse>(error) ? error.response?.data : undefined;
+          setMoveError({
+            message: data?.message || 'Failed to move reservation',
+            suggestedUnits: (data?.error?.suggestedUnits || []).map(unit => unit.unitNumber),
+          });
+        },
+      },
+    );
+  };
+
+  const handleDrop = (unitId: string, dayIndex: number) => {
+    const drag = dragState.current;
+    dragState.current = null;
+    if (!drag) return;
+
+    const { reservation } = drag;
+    const checkIn = reservation.checkInDate.split('T')[0];
+    const checkOut = reservation.checkOutDate.split('T')[0];
+
+    if (drag.mode === 'resize') {
+      const newCheckOut = addDays(dates[dayIndex], 1);
+      if (newCheckOut === checkOut || unitId !== reservation.unitId) return;
+      if (newCheckOut <= checkIn) {
+        setMoveError({ message: 'Check-out date must be after check-in date', suggestedUnits: [] });
+        return;
+      }
+      submitMove(reservation, { checkOutDate: newCheckOut });
+      return;
+    }
+
+    const nights = diffDays(checkIn, checkOut);
+    const newCheckIn = addDays(dates[dayIndex], -drag.grabOffset);
+    if (newCheckIn === checkIn && unitId === reservation.unitId) return;
+
+    submitMove(reservation, {
+      unitId: unitId !== reservation.unitId ? unitId : undefined,
+      checkInDate: newCheckIn !== checkIn ? newCheckIn : undefined,
+      checkOutDate: newCheckIn !== checkIn ? addDays(newCheckIn, nights) : undefined,
+    });
+  };
+
+  const renderBar = (reservation: TimelineReservation) => {
+    const checkIn = reservation.checkInDate.split('T')[0];
+    const checkOut = reservation.checkOutDate.split('T')[0];
+    const startIndex = Math.max(0, diffDays(startDate, checkIn));
+    const endIndex = Math.min(rangeDays, diffDays(startDate, checkOut));
+    if (endIndex <= startIndex) return null;
+
+    const canMove = reservation.status === 'CONFIRMED';
+    const canResize = reservation.status === 'CONFIRMED' || reservation.status === 'CHECKED_IN';
+
+    return (
+      <div
+        key={reservation.id}
+        draggable={canMove}
+        onDragStart={e => {
+          const grabbedDay = dayUnderPointer(e);
+          dragState.current = {
+            reservation,
+            mode: 'move',
+            grabOffset: grabbedDay + Math.max(0, diffDays(checkIn, startDate)),
+          };
+          e.dataTransfer.effectAllowed = 'move';
+        }}
+        // Bars cover the cells beneath them, so drops onto a bar resolve to the day under the pointer
+        onDragOver={e => e.preventDefault()}
+        onDrop={e => {
+          e.preventDefault();
+          e.stopPropagation();
+          handleDrop(reservation.unitId, Math.min(rangeDays - 1, startIndex + dayUnderPointer(e)));
+        }}
+        onClick={() => onReservationClick?.(reservation.id)}
+        className={`absolute top-1 bottom-1 rounded text-white text-xs px-2 flex items-center overflow-hidden ${
+          statusColors[reservation.status] || 'bg-gray-400'
+        } ${canMove ? 'cursor-move' : 'cursor-pointer'}`}
+        style={{ left: startIndex * CELL_WIDTH + 2, width: (endIndex - startIndex) * CELL_WIDTH - 4 }}
+        title={`${reservation.guestName} · ${reservation.reservationNumber} · ${checkIn} → ${checkOut}`}
+      >
+        <span className="truncate">{reservation.guestName}</span>
+        {canResize && (
+          <span
+            draggable
+            onDragStart={e => {
+              e.stopPropagation();
+              dragState.current = { reservation, mode: 'resize', grabOffset: 0 };
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize bg-black bg-opacity-20"
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="card p-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <button className="px-3 py-1 border rounded" onClick={() => setStartDate(addDays(startDate, -rangeDays))}>←</button>
+        <input className="border px-2 py-1 rounded" type="date" value={startDate} onChange={e => e.target.value && setStartDate(e.target.value)} />
+        <button className="px-3 py-1 border rounded" onClick={() => setStartDate(addDays(startDate, rangeDays))}>→</button>
+        <select className="border px-2 py-1 rounded" value={rangeDays} onChange={e => setRangeDays(Number(e.target.value))}>
+          {RANGE_OPTIONS.map(days => (
+            <option key={days} value={days}>{days} nights</option>
+          ))}
+        </select>
+        <button className="px-3 py-1 border rounded" onClick={() => setStartDate(toDateKey(new Date()))}>Today</button>
+        <span className="text-xs text-gray-500">Drag a stay to another room or date; drag its right edge to change the departure.</span>
+      </div>
+
+      {moveError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded p-3 flex justify-between">
+          <div>
+            <p>{moveError.message}</p>
+            {moveError.suggestedUnits.length > 0 && (
+              <p className="mt-1">Available instead: {moveError.suggestedUnits.join(', ')}</p>
+            )}
+          </div>
+          <button onClick={() => setMoveError(null)} className="ml-4">✕</button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <div style={{ minWidth: 128 + rangeDays * CELL_WIDTH }}>
+            <div className="flex border-b">
+              <div className="w-32 flex-shrink-0 p-2 text-xs font-medium text-gray-600">Room</div>
+              {dates.map(date => {
+                const day = new Date(`${date}T00:00:00Z`);
+                return (
+                  <div key={date} className="text-center text-xs text-gray-600 py-1 border-l" style={{ width: CELL_WIDTH }}>
+                    <div>{day.toLocaleDateString(undefined, { weekday: 'short', timeZone: 'UTC' })}</div>
+                    <div className="font-medium">{day.getUTCDate()}</div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {(timeline?.units || []).map(unit => (
+              <div key={unit.id} className="flex border-b h-10">
+                <div className="w-32 flex-shrink-0 px-2 flex flex-col justify-center">
+                  <span className="text-sm font-medium">{unit.unitNumber}</span>
+                  <span className="text-xs text-gray-500 truncate">{unit.roomTypeName || unit.unitType}</span>
+                </div>
+                <div className="relative flex">
+                  {dates.map((date, dayIndex) => (
+                    <div
+                      key={date}
+                      className="border-l h-full"
+                      style={{ width: CELL_WIDTH }}
+                      onDragOver={e => e.preventDefault()}
+                      onDrop={e => {
+                        e.preventDefault();
+                        handleDrop(unit.id, dayIndex);
+                      }}
+                    />
+                  ))}
+                  {(reservationsByUnit[unit.id] || []).map(renderBar)}
+                </div>
+              </div>
+            ))}
+
+            {timeline && timeline.units.length === 0 && (
+              <p className="p-4 text-gray-500 text-sm">No rooms configured for this property.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TapeChart;
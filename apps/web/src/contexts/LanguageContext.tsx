@@ -16,6 +16,7 @@ const translations = {
     'nav.documents': 'Documents',
     'nav.payroll': 'Payroll',
     'nav.vacation': 'Vacation',
+    'nav.roster': 'Roster',
     'nav.training': 'Training',
     'nav.benefits': 'Benefits',
     'nav.users': 'Users',
@@ -29,6 +30,11 @@ const translations = {
     // Hotel Operations
     'nav.rooms': 'Rooms',
     'nav.roomTypes': 'Room Types',
+    'nav.roomInventory': 'Room Inventory',
+    'nav.ratePlans': 'Rate Plans',
+    'nav.reservationGroups': 'Groups',
+    'nav.housekeepingBoard': 'Housekeeping',
+    'nav.performanceReport': 'Performance',
     'nav.guests': 'Guests', 
     'nav.reservations': 'Reservations',
     'nav.concierge': 'Concierge',
@@ -289,6 +295,7 @@ const translations = {
     'nav.documents': 'Documentos',
     'nav.payroll': 'Nómina',
     'nav.vacation': 'Vacaciones',
+    'nav.roster': 'Turnos',
     'nav.training': 'Capacitación',
     'nav.benefits': 'Beneficios',
     'nav.users': 'Usuarios',
@@ -302,6 +309,11 @@ const translations = {
     // Hotel Operations
     'nav.rooms': 'Habitaciones',
     'nav.roomTypes': 'Tipos de Habitación',
+    'nav.roomInventory': 'Inventario de Habitaciones',
+    'nav.ratePlans': 'Planes de Tarifa',
+    'nav.reservationGroups': 'Grupos',
+    'nav.housekeepingBoard': 'Limpieza',
+    'nav.performanceReport': 'Desempeño',
     'nav.guests': 'Huéspedes',
     'nav.reservations': 'Reservaciones',
     'nav.concierge': 'Conserjería',
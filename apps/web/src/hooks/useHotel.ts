@@ -1,4 +1,4 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, MutationFunction } from '@tanstack/react-query';
 import { hotelService } from '../services/hotelService';
 import { useTenant } from '../contexts/TenantContext';
 import {
@@ -9,6 +9,18 @@ import {
   UpdateRoomInput,
   CreateGuestInput,
   CreateReservationInput,
+  CreateRatePlanInput,
+  RateQuoteInput,
+  MoveReservationInput,
+  RoomMoveInput,
+  ReservationGroupStatus,
+  CreateReservationGroupInput,
+  RoomBlockInput,
+  PostFolioChargeInput,
+  RecordPaymentInput,
+  CreateDepositInput,
+  HousekeepingBoardFilter,
+  KpiReportFilter,
 } from '../types/hotel';
 import { toast } from 'react-hot-toast';
 
@@ -19,7 +31,12 @@ export const hotelQueryKeys = {
   roomsList: (filters?: RoomFilter) => [...hotelQueryKeys.rooms(), 'list', filters] as const,
   room: (id: string) => [...hotelQueryKeys.rooms(), 'detail', id] as const,
   roomTypes: () => [...hotelQueryKeys.rooms(), 'types'] as const,
+  roomTypeInventory: (startDate: string, endDate: string) => [...hotelQueryKeys.roomTypes(), 'inventory', startDate, endDate] as const,
   roomAvailability: (startDate: Date, endDate: Date) => [...hotelQueryKeys.rooms(), 'availability', startDate.toISOString(), endDate.toISOString()] as const,
+
+  ratePlans: () => [...hotelQueryKeys.all, 'rate-plans'] as const,
+  ratePlansList: (roomTypeId?: string) => [...hotelQueryKeys.ratePlans(), 'list', roomTypeId] as const,
+  rateQuote: (input: RateQuoteInput) => [...hotelQueryKeys.ratePlans(), 'quote', input] as const,
   
   guests: () => [...hotelQueryKeys.all, 'guests'] as const,
   guestsList: (filters?: GuestFilter) => [...hotelQueryKeys.guests(), 'list', filters] as const,
@@ -29,6 +46,21 @@ export const hotelQueryKeys = {
   reservations: () => [...hotelQueryKeys.all, 'reservations'] as const,
   reservationsList: (filters?: ReservationFilter) => [...hotelQueryKeys.reservations(), 'list', filters] as const,
   reservation: (id: string) => [...hotelQueryKeys.reservations(), 'detail', id] as const,
+  reservationTimeline: (startDate: string, endDate: string) => [...hotelQueryKeys.reservations(), 'timeline', startDate, endDate] as const,
+  staySegments: (id: string) => [...hotelQueryKeys.reservations(), 'stay-segments', id] as const,
+  folios: (reservationId: string) => [...hotelQueryKeys.reservations(), 'folios', reservationId] as const,
+  folioPdf: (folioId: string) => [...hotelQueryKeys.reservations(), 'folio-pdf', folioId] as const,
+  payments: (reservationId: string) => [...hotelQueryKeys.reservations(), 'payments', reservationId] as const,
+
+  groups: () => [...hotelQueryKeys.all, 'groups'] as const,
+  groupsList: (status?: ReservationGroupStatus) => [...hotelQueryKeys.groups(), 'list', status] as const,
+  group: (id: string) => [...hotelQueryKeys.groups(), 'detail', id] as const,
+  groupBilling: (id: string) => [...hotelQueryKeys.groups(), 'billing', id] as const,
+  
+  housekeeping: () => [...hotelQueryKeys.all, 'housekeeping'] as const,
+  housekeepingBoard: (filter?: HousekeepingBoardFilter) => [...hotelQueryKeys.housekeeping(), 'board', filter] as const,
+
+  kpiReport: (filter: KpiReportFilter) => [...hotelQueryKeys.all, 'kpi-report', filter] as const,
   
   stats: () => [...hotelQueryKeys.all, 'stats'] as const,
   arrivals: () => [...hotelQueryKeys.all, 'arrivals'] as const,
@@ -63,6 +95,16 @@ export function useRoomTypes() {
   });
 }
 
+export function useRoomTypeInventory(startDate: string, endDate: string) {
+  const { tenantKey } = useTenant();
+  return useQuery({
+    queryKey: [...hotelQueryKeys.roomTypeInventory(startDate, endDate), tenantKey],
+    queryFn: () => hotelService.getRoomTypeInventory(startDate, endDate),
+    select: (data) => data.data,
+    enabled: !!startDate && !!endDate,
+  });
+}
+
 export function useCreateRoomType() {
   const queryClient = useQueryClient();
   const { tenantKey } = useTenant();
@@ -96,6 +138,69 @@ export function useDeleteRoomType() {
   });
 }
 
+// Rate Plan Hooks
+export function useRatePlans(roomTypeId?: string) {
+  const { tenantKey } = useTenant();
+  return useQuery({
+    queryKey: [...hotelQueryKeys.ratePlansList(roomTypeId), tenantKey],
+    queryFn: () => hotelService.getRatePlans(roomTypeId),
+    select: (data) => data.data,
+  });
+}
+
+export function useCreateRatePlan() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: CreateRatePlanInput) => hotelService.createRatePlan(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: hotelQueryKeys.ratePlans() });
+      toast.success('Rate plan created successfully');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to create rate plan');
+    },
+  });
+}
+
+export function useUpdateRatePlan() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: Partial<CreateRatePlanInput> }) =>
+      hotelService.updateRatePlan(id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: hotelQueryKeys.ratePlans() });
+      toast.success('Rate plan updated successfully');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to update rate plan');
+    },
+  });
+}
+
+export function useDeleteRatePlan() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => hotelService.deleteRatePlan(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: hotelQueryKeys.ratePlans() });
+      toast.success('Rate plan deactivated');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to deactivate rate plan');
+    },
+  });
+}
+
+export function useRateQuote(input: RateQuoteInput | null) {
+  return useQuery({
+    queryKey: hotelQueryKeys.rateQuote(input as RateQuoteInput),
+    queryFn: () => hotelService.getRateQuote(input as RateQuoteInput),
+    select: (data) => data.data,
+    enabled: !!input && !!input.checkInDate && !!input.checkOutDate && (!!input.unitId || !!input.roomTypeId),
+    retry: false,
+  });
+}
+
 export function useRoomAvailability(startDate: Date, endDate: Date) {
   return useQuery({
     queryKey: hotelQueryKeys.roomAvailability(startDate, endDate),
@@ -247,6 +352,62 @@ export function useCreateReservation() {
   });
 }
 
+export function useReservationTimeline(startDate: string, endDate: string) {
+  const { tenantKey } = useTenant();
+  return useQuery({
+    queryKey: [...hotelQueryKeys.reservationTimeline(startDate, endDate), tenantKey],
+    queryFn: () => hotelService.getReservationTimeline(startDate, endDate),
+    select: (data) => data.data,
+    enabled: !!startDate && !!endDate,
+  });
+}
+
+export function useMoveReservation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: MoveReservationInput }) =>
+      hotelService.moveReservation(id, input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: hotelQueryKeys.reservations() });
+      queryClient.invalidateQueries({ queryKey: hotelQueryKeys.reservation(variables.id) });
+      queryClient.invalidateQueries({ queryKey: hotelQueryKeys.rooms() });
+      toast.success('Reservation moved successfully');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to move reservation');
+    },
+  });
+}
+
+export function useStaySegments(reservationId: string) {
+  const { tenantKey } = useTenant();
+  return useQuery({
+    queryKey: [...hotelQueryKeys.staySegments(reservationId), tenantKey],
+    queryFn: () => hotelService.getStaySegments(reservationId),
+    select: (data) => data.data,
+    enabled: !!reservationId,
+  });
+}
+
+export function useRoomMove() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: RoomMoveInput }) => hotelService.roomMove(id, input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: hotelQueryKeys.reservations() });
+      queryClient.invalidateQueries({ queryKey: hotelQueryKeys.reservation(variables.id) });
+      queryClient.invalidateQueries({ queryKey: hotelQueryKeys.rooms() });
+      queryClient.invalidateQueries({ queryKey: hotelQueryKeys.inHouse() });
+      toast.success('Guest moved successfully');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to move guest');
+    },
+  });
+}
+
 export function useUpdateReservation() {
   const queryClient = useQueryClient();
   
@@ -319,6 +480,430 @@ export function useCancelReservation() {
   });
 }
 
+// Reservation Group Hooks
+export function useReservationGroups(status?: ReservationGroupStatus) {
+  const { tenantKey } = useTenant();
+  return useQuery({
+    queryKey: [...hotelQueryKeys.groupsList(status), tenantKey],
+    queryFn: () => hotelService.getReservationGroups(status),
+    select: (data) => data.data,
+  });
+}
+
+export function useReservationGroup(id: string) {
+  const { tenantKey } = useTenant();
+  return useQuery({
+    queryKey: [...hotelQueryKeys.group(id), tenantKey],
+    queryFn: () => hotelService.getReservationGroup(id),
+    select: (data) => data.data,
+    enabled: !!id,
+  });
+}
+
+export function useGroupBilling(id: string) {
+  const { tenantKey } = useTenant();
+  return useQuery({
+    queryKey: [...hotelQueryKeys.groupBilling(id), tenantKey],
+    queryFn: () => hotelService.getGroupBilling(id),
+    select: (data) => data.data,
+    enabled: !!id,
+  });
+}
+
+// Group changes move rooms in and out of inventory, so availability views are refreshed too
+const invalidateGroupQueries = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: hotelQueryKeys.groups() });
+  queryClient.invalidateQueries({ queryKey: hotelQueryKeys.reservations() });
+  queryClient.invalidateQueries({ queryKey: hotelQueryKeys.rooms() });
+  queryClient.invalidateQueries({ queryKey: hotelQueryKeys.stats() });
+};
+
+export function useCreateReservationGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateReservationGroupInput) => hotelService.createReservationGroup(input),
+    onSuccess: () => {
+      invalidateGroupQueries(queryClient);
+      toast.success('Group created successfully');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to create group');
+    },
+  });
+}
+
+export function useUpdateReservationGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: Partial<CreateReservationGroupInput> }) =>
+      hotelService.updateReservationGroup(id, input),
+    onSuccess: () => {
+      invalidateGroupQueries(queryClient);
+      toast.success('Group updated successfully');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to update group');
+    },
+  });
+}
+
+export function useAddRoomBlock() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ groupId, input }: { groupId: string; input: RoomBlockInput }) =>
+      hotelService.addRoomBlock(groupId, input),
+    onSuccess: () => {
+      invalidateGroupQueries(queryClient);
+      toast.success('Room block added successfully');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to add room block');
+    },
+  });
+}
+
+export function useReleaseRoomBlock() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ groupId, blockId }: { groupId: string; blockId: string }) =>
+      hotelService.releaseRoomBlock(groupId, blockId),
+    onSuccess: () => {
+      invalidateGroupQueries(queryClient);
+      toast.success('Unpicked rooms released to inventory');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to release room block');
+    },
+  });
+}
+
+export function useImportRoomingList() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ groupId, file, validateOnly }: { groupId: string; file: File; validateOnly?: boolean }) =>
+      hotelService.importRoomingList(groupId, file, validateOnly),
+    onSuccess: (response, variables) => {
+      if (variables.validateOnly) return;
+      invalidateGroupQueries(queryClient);
+      toast.success(`Imported ${response.data.successCount} of ${response.data.successCount + response.data.failureCount} guests`);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to import rooming list');
+    },
+  });
+}
+
+export function useCheckInReservationGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ groupId, reservationIds }: { groupId: string; reservationIds?: string[] }) =>
+      hotelService.checkInReservationGroup(groupId, reservationIds),
+    onSuccess: (response) => {
+      invalidateGroupQueries(queryClient);
+      queryClient.invalidateQueries({ queryKey: hotelQueryKeys.inHouse() });
+      const { succeeded, failed } = response.data;
+      if (failed.length > 0) {
+        toast.error(`Checked in ${succeeded.length} guests, ${failed.length} failed`);
+      } else {
+        toast.success(`Checked in ${succeeded.length} guests`);
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to check in group');
+    },
+  });
+}
+
+export function useCancelReservationGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ groupId, reason }: { groupId: string; reason?: string }) =>
+      hotelService.cancelReservationGroup(groupId, reason),
+    onSuccess: (response) => {
+      invalidateGroupQueries(queryClient);
+      const { succeeded, failed } = response.data;
+      if (failed.length > 0) {
+        toast.error(`Cancelled ${succeeded.length} reservations, ${failed.length} failed; the group is still open`);
+      } else {
+        toast.success('Group cancelled successfully');
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to cancel group');
+    },
+  });
+}
+
+// Folio Hooks
+export function useReservationFolios(reservationId: string) {
+  const { tenantKey } = useTenant();
+  return useQuery({
+    queryKey: [...hotelQueryKeys.folios(reservationId), tenantKey],
+    queryFn: () => hotelService.getReservationFolios(reservationId),
+    select: (data) => data.data,
+    enabled: !!reservationId,
+  });
+}
+
+export function useFolioPdfStatus(folioId: string) {
+  const { tenantKey } = useTenant();
+  return useQuery({
+    queryKey: [...hotelQueryKeys.folioPdf(folioId), tenantKey],
+    queryFn: () => hotelService.getFolioPdfStatus(folioId),
+    select: (data) => data.data,
+    enabled: !!folioId,
+    // Poll while the worker is rendering
+    refetchInterval: (query) => (query.state.data?.data.status === 'PENDING' ? 5000 : false),
+  });
+}
+
+function useFolioMutation<TVariables>(
+  reservationId: string,
+  mutationFn: MutationFunction<unknown, TVariables>,
+  successMessage: string,
+  errorMessage: string,
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: hotelQueryKeys.folios(reservationId) });
+      toast.success(successMessage);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || errorMessage);
+    },
+  });
+}
+
+export function useCreateFolio(reservationId: string) {
+  return useFolioMutation(
+    reservationId,
+    (name: string) => hotelService.createFolio(reservationId, name),
+    'Folio opened successfully',
+    'Failed to open folio',
+  );
+}
+
+export function usePostFolioCharge(reservationId: string) {
+  return useFolioMutation(
+    reservationId,
+    ({ folioId, input }: { folioId: string; input: PostFolioChargeInput }) => hotelService.postFolioCharge(folioId, input),
+    'Charge posted successfully',
+    'Failed to post charge',
+  );
+}
+
+export function usePostFolioRoomCharges(reservationId: string) {
+  return useFolioMutation(
+    reservationId,
+    (folioId: string) => hotelService.postFolioRoomCharges(folioId),
+    'Room charges posted successfully',
+    'Failed to post room charges',
+  );
+}
+
+export function useVoidFolioLine(reservationId: string) {
+  return useFolioMutation(
+    reservationId,
+    ({ folioId, lineId, reason }: { folioId: string; lineId: string; reason: string }) =>
+      hotelService.voidFolioLine(folioId, lineId, reason),
+    'Line voided successfully',
+    'Failed to void line',
+  );
+}
+
+export function useTransferFolioLine(reservationId: string) {
+  return useFolioMutation(
+    reservationId,
+    ({ folioId, lineId, targetFolioId }: { folioId: string; lineId: string; targetFolioId: string }) =>
+      hotelService.transferFolioLine(folioId, lineId, targetFolioId),
+    'Line transferred successfully',
+    'Failed to transfer line',
+  );
+}
+
+export function useRequestFolioPdf() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (folioId: string) => hotelService.requestFolioPdf(folioId),
+    onSuccess: (_, folioId) => {
+      queryClient.invalidateQueries({ queryKey: hotelQueryKeys.folioPdf(folioId) });
+      toast.success('Folio PDF requested');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to request folio PDF');
+    },
+  });
+}
+
+// Payment Hooks
+export function useReservationPayments(reservationId: string) {
+  const { tenantKey } = useTenant();
+  return useQuery({
+    queryKey: [...hotelQueryKeys.payments(reservationId), tenantKey],
+    queryFn: () => hotelService.getReservationPayments(reservationId),
+    select: (data) => data.data,
+    enabled: !!reservationId,
+  });
+}
+
+// Payments change the reservation balance and post to its folio
+function usePaymentMutation<TVariables>(
+  reservationId: string,
+  mutationFn: MutationFunction<unknown, TVariables>,
+  successMessage: string,
+  errorMessage: string,
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: hotelQueryKeys.payments(reservationId) });
+      queryClient.invalidateQueries({ queryKey: hotelQueryKeys.folios(reservationId) });
+      queryClient.invalidateQueries({ queryKey: hotelQueryKeys.reservation(reservationId) });
+      toast.success(successMessage);
+    },
+    onError: (error: any) => {
+      // Declines are recorded on the ledger, so refresh it even on failure
+      queryClient.invalidateQueries({ queryKey: hotelQueryKeys.payments(reservationId) });
+      toast.error(error.response?.data?.message || errorMessage);
+    },
+  });
+}
+
+export function useRecordPayment(reservationId: string) {
+  return usePaymentMutation(
+    reservationId,
+    (input: RecordPaymentInput) => hotelService.recordPayment(reservationId, input),
+    'Payment recorded successfully',
+    'Failed to record payment',
+  );
+}
+
+export function useRefundPayment(reservationId: string) {
+  return usePaymentMutation(
+    reservationId,
+    ({ transactionId, reason, amount }: { transactionId: string; reason: string; amount?: number }) =>
+      hotelService.refundPayment(transactionId, reason, amount),
+    'Refund processed successfully',
+    'Failed to refund payment',
+  );
+}
+
+export function useAddDeposit(reservationId: string) {
+  return usePaymentMutation(
+    reservationId,
+    (input: CreateDepositInput) => hotelService.addDeposit(reservationId, input),
+    'Deposit scheduled successfully',
+    'Failed to schedule deposit',
+  );
+}
+
+export function useWaiveDeposit(reservationId: string) {
+  return usePaymentMutation(
+    reservationId,
+    (depositId: string) => hotelService.waiveDeposit(depositId),
+    'Deposit waived',
+    'Failed to waive deposit',
+  );
+}
+
+// Housekeeping Hooks
+export function useHousekeepingBoard(filter?: HousekeepingBoardFilter) {
+  const { tenantKey } = useTenant();
+  return useQuery({
+    queryKey: [...hotelQueryKeys.housekeepingBoard(filter), tenantKey],
+    queryFn: () => hotelService.getHousekeepingBoard(filter),
+    select: (data) => data.data,
+    refetchInterval: 60 * 1000,
+  });
+}
+
+// Housekeeping changes decide whether rooms can be sold, so room lists are refreshed too
+function useHousekeepingMutation<TVariables>(
+  mutationFn: MutationFunction<unknown, TVariables>,
+  successMessage: string,
+  errorMessage: string,
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: hotelQueryKeys.housekeeping() });
+      queryClient.invalidateQueries({ queryKey: hotelQueryKeys.rooms() });
+      toast.success(successMessage);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || errorMessage);
+    },
+  });
+}
+
+export function useMarkRoomDirty() {
+  return useHousekeepingMutation(
+    ({ unitId, notes }: { unitId: string; notes?: string }) => hotelService.markRoomDirty(unitId, notes),
+    'Room marked dirty',
+    'Failed to mark room dirty',
+  );
+}
+
+export function useStartCleaning() {
+  return useHousekeepingMutation(
+    (unitId: string) => hotelService.startCleaning(unitId),
+    'Cleaning started',
+    'Failed to start cleaning',
+  );
+}
+
+export function useFinishCleaning() {
+  return useHousekeepingMutation(
+    ({ unitId, notes }: { unitId: string; notes?: string }) => hotelService.finishCleaning(unitId, notes),
+    'Room ready for inspection',
+    'Failed to finish cleaning',
+  );
+}
+
+export function useInspectRoom() {
+  return useHousekeepingMutation(
+    ({ unitId, passed, notes }: { unitId: string; passed: boolean; notes?: string }) =>
+      hotelService.inspectRoom(unitId, passed, notes),
+    'Inspection recorded',
+    'Failed to record inspection',
+  );
+}
+
+export function useAssignHousekeepingTask() {
+  return useHousekeepingMutation(
+    ({ taskId, assignedToId }: { taskId: string; assignedToId: string }) =>
+      hotelService.assignHousekeepingTask(taskId, assignedToId),
+    'Task assigned',
+    'Failed to assign task',
+  );
+}
+
+// Report Hooks
+export function useKpiReport(filter: KpiReportFilter) {
+  const { tenantKey } = useTenant();
+  return useQuery({
+    queryKey: [...hotelQueryKeys.kpiReport(filter), tenantKey],
+    queryFn: () => hotelService.getKpiReport(filter),
+    select: (data) => data.data,
+    enabled: !!filter.startDate && !!filter.endDate && filter.startDate <= filter.endDate,
+  });
+}
+
 // Dashboard Hooks
 export function useHotelStats() {
   return useQuery({
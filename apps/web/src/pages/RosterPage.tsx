@@ -0,0 +1,258 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import RosterBoard from '../components/RosterBoard';
+import { useAuth } from '../contexts/AuthContext';
+import { shiftService, Colleague, Shift, ShiftSwap } from '../services/shiftService';
+
+const UPCOMING_DAYS = 28;
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0];
+
+const formatShift = (shift: Pick<Shift, 'date' | 'startTime' | 'endTime'>) =>
+  `${new Date(`${shift.date.slice(0, 10)}T00:00:00`).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  })} · ${shift.startTime}–${shift.endTime}`;
+
+const swapStatusColors: Record<ShiftSwap['status'], string> = {
+  PENDING: 'bg-orange-100 text-orange-800',
+  ACCEPTED: 'bg-blue-100 text-blue-800',
+  APPROVED: 'bg-green-100 text-green-800',
+  DECLINED: 'bg-gray-100 text-gray-600',
+  REJECTED: 'bg-red-100 text-red-800',
+  CANCELLED: 'bg-gray-100 text-gray-400',
+};
+
+const swapStatusLabels: Record<ShiftSwap['status'], string> = {
+  PENDING: 'Waiting for colleague',
+  ACCEPTED: 'Waiting for manager',
+  APPROVED: 'Approved',
+  DECLINED: 'Declined',
+  REJECTED: 'Rejected',
+  CANCELLED: 'Cancelled',
+};
+
+const RosterPage: React.FC = () => {
+  const { user } = useAuth();
+  const isManager = !!user && user.role !== 'STAFF';
+  const [myShifts, setMyShifts] = useState<Shift[]>([]);
+  const [colleagues, setColleagues] = useState<Colleague[]>([]);
+  const [swaps, setSwaps] = useState<ShiftSwap[]>([]);
+  const [swapShiftId, setSwapShiftId] = useState<string | null>(null);
+  const [swapForm, setSwapForm] = useState({ targetUserId: '', targetShiftId: '', reason: '' });
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadShifts = useCallback(() => {
+    const today = new Date();
+    shiftService
+      .getMyShifts(toDateKey(today), toDateKey(new Date(today.getTime() + UPCOMING_DAYS * 24 * 60 * 60 * 1000)))
+      .then(response => setMyShifts(response.data))
+      .catch(error => console.error('Failed to load shifts:', error));
+    shiftService
+      .getSwaps()
+      .then(response => setSwaps(response.data))
+      .catch(error => console.error('Failed to load shift swaps:', error));
+  }, []);
+
+  useEffect(() => {
+    loadShifts();
+    shiftService
+      .getColleagues()
+      .then(response => setColleagues(response.data))
+      .catch(error => console.error('Failed to load colleagues:', error));
+  }, [loadShifts]);
+
+  const openSwapForm = (shiftId: string) => {
+    setSwapShiftId(shiftId);
+    setSwapForm({ targetUserId: '', targetShiftId: '', reason: '' });
+  };
+
+  const handleRequestSwap = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!swapShiftId) return;
+    setBusyId(swapShiftId);
+    shiftService
+      .requestSwap({
+        shiftId: swapShiftId,
+        targetUserId: swapForm.targetUserId,
+        targetShiftId: swapForm.targetShiftId || undefined,
+        reason: swapForm.reason || undefined,
+      })
+      .then(response => {
+        toast.success(response.message);
+        setSwapShiftId(null);
+        loadShifts();
+      })
+      .catch(err => toast.error(err.response?.data?.message || 'Failed to request the swap'))
+      .finally(() => setBusyId(null));
+  };
+
+  const respond = (swap: ShiftSwap, action: 'accept' | 'decline' | 'approve' | 'reject' | 'cancel') => {
+    setBusyId(swap.id);
+    shiftService
+      .respondToSwap(swap.id, action)
+      .then(response => {
+        toast.success(response.message);
+        loadShifts();
+      })
+      .catch(err => toast.error(err.response?.data?.message || 'Failed to update the swap'))
+      .finally(() => setBusyId(null));
+  };
+
+  const swapActions = (swap: ShiftSwap) => {
+    const actions: { action: 'accept' | 'decline' | 'approve' | 'reject' | 'cancel'; label: string; primary?: boolean }[] = [];
+    if (swap.status === 'PENDING' && swap.targetUserId === user?.id) {
+      actions.push({ action: 'accept', label: 'Accept', primary: true }, { action: 'decline', label: 'Decline' });
+    }
+    if (swap.status === 'ACCEPTED' && isManager && swap.requesterId !== user?.id && swap.targetUserId !== user?.id) {
+      actions.push({ action: 'approve', label: 'Approve', primary: true }, { action: 'reject', label: 'Reject' });
+    }
+    if ((swap.status === 'PENDING' || swap.status === 'ACCEPTED') && swap.requesterId === user?.id) {
+      actions.push({ action: 'cancel', label: 'Cancel' });
+    }
+    return actions;
+  };
+
+  const selectedColleague = colleagues.find(colleague => colleague.id === swapForm.targetUserId);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="heading-2">Roster</h1>
+        <p className="text-gray-600">Your upcoming shifts and shift swaps</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="card">
+          <div className="card-header">
+            <h3 className="text-lg font-semibold text-charcoal">My Shifts</h3>
+          </div>
+          <div className="card-body">
+            {myShifts.length === 0 ? (
+              <p className="text-sm text-gray-600">No published shifts in the next {UPCOMING_DAYS} days.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {myShifts.map(shift => (
+                  <li key={shift.id} className="py-3">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-charcoal">{formatShift(shift)}</p>
+                        <p className="text-xs text-gray-500">
+                          {[shift.template?.name, shift.position].filter(Boolean).join(' · ')}
+                        </p>
+                      </div>
+                      <button className="btn btn-outline btn-sm" onClick={() => openSwapForm(shift.id)}>
+                        Swap
+                      </button>
+                    </div>
+                    {swapShiftId === shift.id && (
+                      <form onSubmit={handleRequestSwap} className="mt-3 space-y-2">
+                        <select
+                          required
+                          className="form-input text-sm"
+                          value={swapForm.targetUserId}
+                          onChange={e => setSwapForm({ ...swapForm, targetUserId: e.target.value, targetShiftId: '' })}
+                        >
+                          <option value="">Choose a colleague</option>
+                          {colleagues.map(colleague => (
+                            <option key={colleague.id} value={colleague.id}>
+                              {colleague.firstName} {colleague.lastName}
+                              {colleague.position ? ` · ${colleague.position}` : ''}
+                            </option>
+                          ))}
+                        </select>
+                        {selectedColleague && (
+                          <select
+                            className="form-input text-sm"
+                            value={swapForm.targetShiftId}
+                            onChange={e => setSwapForm({ ...swapForm, targetShiftId: e.target.value })}
+                          >
+                            <option value="">Ask them to take my shift</option>
+                            {selectedColleague.shifts.map(colleagueShift => (
+                              <option key={colleagueShift.id} value={colleagueShift.id}>
+                                Work their shift on {formatShift(colleagueShift)} in return
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                        <input
+                          type="text"
+                          className="form-input text-sm"
+                          placeholder="Reason (optional)"
+                          value={swapForm.reason}
+                          onChange={e => setSwapForm({ ...swapForm, reason: e.target.value })}
+                        />
+                        <div className="flex justify-end space-x-2">
+                          <button type="button" className="btn btn-outline btn-sm" onClick={() => setSwapShiftId(null)}>
+                            Cancel
+                          </button>
+                          <button type="submit" className="btn btn-primary btn-sm" disabled={busyId === shift.id}>
+                            Request swap
+                          </button>
+                        </div>
+                      </form>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="card-header">
+            <h3 className="text-lg font-semibold text-charcoal">Shift Swaps</h3>
+          </div>
+          <div className="card-body">
+            {swaps.length === 0 ? (
+              <p className="text-sm text-gray-600">No swap requests.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {swaps.map(swap => (
+                  <li key={swap.id} className="py-3">
+                    <div className="flex items-start justify-between">
+                      <div className="text-sm">
+                        <p className="font-medium text-charcoal">
+                          {swap.requester.firstName} {swap.requester.lastName} → {swap.targetUser.firstName}{' '}
+                          {swap.targetUser.lastName}
+                        </p>
+                        <p className="text-gray-600">{formatShift(swap.shift)}</p>
+                        {swap.targetShift && (
+                          <p className="text-gray-600">In return: {formatShift(swap.targetShift)}</p>
+                        )}
+                        {swap.reason && <p className="text-xs text-gray-500 mt-1">{swap.reason}</p>}
+                        {swap.comment && <p className="text-xs text-gray-500 mt-1">Comment: {swap.comment}</p>}
+                      </div>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${swapStatusColors[swap.status]}`}>
+                        {swapStatusLabels[swap.status]}
+                      </span>
+                    </div>
+                    {swapActions(swap).length > 0 && (
+                      <div className="flex justify-end space-x-2 mt-2">
+                        {swapActions(swap).map(({ action, label, primary }) => (
+                          <button
+                            key={action}
+                            className={`btn btn-sm ${primary ? 'btn-primary' : 'btn-outline'}`}
+                            disabled={busyId === swap.id}
+                            onClick={() => respond(swap, action)}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {isManager && <RosterBoard />}
+    </div>
+  );
+};
+
+export default RosterPage;
@@ -1,5 +1,9 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import LoadingSpinner from '../components/LoadingSpinner';
+import TeamAbsenceCalendar from '../components/TeamAbsenceCalendar';
+import ApprovalInbox from '../components/ApprovalInbox';
+import { useAuth } from '../contexts/AuthContext';
+import { vacationService, LeaveDayCount } from '../services/vacationService';
 
 interface VacationRequest {
   id: string;
@@ -14,14 +18,18 @@ interface VacationRequest {
 }
 
 const VacationPage: React.FC = () => {
+  const { user } = useAuth();
   const [showRequestForm, setShowRequestForm] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formData, setFormData] = useState({
     startDate: '',
     endDate: '',
+    halfDayStart: false,
+    halfDayEnd: false,
     type: 'vacation' as const,
     reason: ''
   });
+  const [leaveDayCount, setLeaveDayCount] = useState<LeaveDayCount | null>(null);
 
   // Mock data - replace with actual API call
   const vacationRequests: VacationRequest[] = [
@@ -67,12 +75,37 @@ const VacationPage: React.FC = () => {
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
+    const checked = e.target instanceof HTMLInputElement && e.target.type === 'checkbox' ? e.target.checked : undefined;
     setFormData(prev => ({
       ...prev,
-      [name]: value
+      [name]: checked ?? value
     }));
   };
 
+  // Weekends, public holidays and half days are not charged; the server knows the calendar
+  const { startDate, endDate, halfDayStart, halfDayEnd } = formData;
+  useEffect(() => {
+    if (!startDate || !endDate || endDate < startDate) {
+      setLeaveDayCount(null);
+      return;
+    }
+
+    let cancelled = false;
+    vacationService
+      .countWorkingDays({ startDate, endDate, halfDayStart, halfDayEnd })
+      .then(response => {
+        if (!cancelled) setLeaveDayCount(response.data);
+      })
+      .catch(error => {
+        console.error('Failed to count leave days:', error);
+        if (!cancelled) setLeaveDayCount(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [startDate, endDate, halfDayStart, halfDayEnd]);
+
   const calculateDays = (start: string, end: string) => {
     if (!start || !end) return 0;
     const startDate = new Date(start);
@@ -96,6 +129,8 @@ const VacationPage: React.FC = () => {
       setFormData({
         startDate: '',
         endDate: '',
+        halfDayStart: false,
+        halfDayEnd: false,
         type: 'vacation',
         reason: ''
       });
@@ -135,7 +170,9 @@ const VacationPage: React.FC = () => {
     }
   };
 
-  const requestedDays = calculateDays(formData.startDate, formData.endDate);
+  // Calendar days until the server count arrives
+  const requestedDays = leaveDayCount?.days ?? calculateDays(formData.startDate, formData.endDate);
+  const freeDays = leaveDayCount?.breakdown.filter(day => day.note) ?? [];
 
   return (
     <div className="space-y-6">
@@ -214,6 +251,12 @@ const VacationPage: React.FC = () => {
         </div>
       </div>
 
+      {/* Requests that reached the current user's step of an approval chain */}
+      <ApprovalInbox />
+
+      {/* Who else is away, for the people approving requests */}
+      {user && user.role !== 'STAFF' && <TeamAbsenceCalendar />}
+
       {/* Vacation Requests */}
       <div className="card">
         <div className="card-header">
@@ -353,11 +396,44 @@ const VacationPage: React.FC = () => {
                   </div>
                 </div>
 
-                {requestedDays > 0 && (
+                <div className="flex flex-wrap gap-4">
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      name="halfDayStart"
+                      checked={formData.halfDayStart}
+                      onChange={handleInputChange}
+                      className="mr-2"
+                    />
+                    Start at midday
+                  </label>
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      name="halfDayEnd"
+                      checked={formData.halfDayEnd}
+                      onChange={handleInputChange}
+                      className="mr-2"
+                    />
+                    End at midday
+                  </label>
+                </div>
+
+                {(formData.startDate && formData.endDate) && (
                   <div className="p-3 bg-blue-50 rounded-lg">
                     <p className="text-sm text-blue-800">
-                      <span className="font-medium">Total days requested:</span> {requestedDays}
+                      <span className="font-medium">Leave days charged:</span> {requestedDays}
                     </p>
+                    {freeDays.length > 0 && (
+                      <ul className="text-xs text-blue-700 mt-1 space-y-0.5">
+                        {freeDays.map(day => (
+                          <li key={day.date}>
+                            {new Date(`${day.date}T00:00:00`).toLocaleDateString()}: {day.note}
+                            {day.charged > 0 && ` (${day.charged} day)`}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                     {requestedDays > vacationBalance.remainingDays && (
                       <p className="text-sm text-red-600 mt-1">
                         ⚠️ This exceeds your remaining vacation balance
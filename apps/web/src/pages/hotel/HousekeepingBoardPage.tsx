@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import {
+  useHousekeepingBoard,
+  useMarkRoomDirty,
+  useStartCleaning,
+  useFinishCleaning,
+  useInspectRoom,
+  useAssignHousekeepingTask,
+} from '../../hooks/useHotel';
+import { useUsers } from '../../hooks/useUsers';
+import { HousekeepingBoardUnit, HousekeepingStatus, UnitOccupancy } from '../../types/hotel';
+import { PermissionGate } from '../../components';
+import LoadingSpinner from '../../components/LoadingSpinner';
+
+const STATUSES: HousekeepingStatus[] = ['DIRTY', 'CLEANING', 'CLEAN', 'INSPECTED'];
+
+const statusClass: Record<HousekeepingStatus, string> = {
+  DIRTY: 'border-red-300 bg-red-50',
+  CLEANING: 'border-purple-300 bg-purple-50',
+  CLEAN: 'border-blue-300 bg-blue-50',
+  INSPECTED: 'border-green-300 bg-green-50',
+};
+
+const occupancyLabel: Record<UnitOccupancy, string> = {
+  VACANT: 'Vacant',
+  ARRIVAL: 'Arrival',
+  STAYOVER: 'Stayover',
+  DEPARTURE: 'Due out',
+  TURNOVER: 'Out / In',
+  DEPARTED: 'Departed',
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const UnitTile: React.FC<{ unit: HousekeepingBoardUnit; housekeepers: { id: string; firstName: string; lastName: string }[] }> = ({
+  unit,
+  housekeepers,
+}) => {
+  const markDirty = useMarkRoomDirty();
+  const startCleaning = useStartCleaning();
+  const finishCleaning = useFinishCleaning();
+  const inspectRoom = useInspectRoom();
+  const assignTask = useAssignHousekeepingTask();
+
+  const arrivalAtRisk = (unit.occupancy === 'ARRIVAL' || unit.occupancy === 'TURNOVER') && unit.housekeepingStatus !== 'INSPECTED';
+
+  const handleFailInspection = () => {
+    const notes = window.prompt(`What needs to be redone in ${unit.unitNumber}?`);
+    if (notes) {
+      inspectRoom.mutate({ unitId: unit.id, passed: false, notes });
+    }
+  };
+
+  return (
+    <div className={`border rounded-lg p-3 text-sm ${statusClass[unit.housekeepingStatus]} ${arrivalAtRisk ? 'ring-2 ring-orange-400' : ''}`}>
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">{unit.unitNumber}</span>
+        <span className="text-xs text-gray-600">{occupancyLabel[unit.occupancy]}</span>
+      </div>
+      <div className="text-xs text-gray-600">{unit.unitType.replace('_', ' ')} · {unit.status}</div>
+      <div className="mt-1 text-xs font-medium">{unit.housekeepingStatus}</div>
+      {unit.task && (
+        <div className="mt-1 text-xs text-gray-600">
+          {unit.task.priority} · {unit.task.assignedTo ? `${unit.task.assignedTo.firstName} ${unit.task.assignedTo.lastName}` : 'Unassigned'}
+        </div>
+      )}
+
+      <div className="mt-2 flex flex-wrap gap-2">
+        <PermissionGate resource="housekeeping" action="update" scope="property" hideOnDenied>
+          {unit.housekeepingStatus === 'DIRTY' && (
+            <button className="text-xs underline" onClick={() => startCleaning.mutate(unit.id)} disabled={startCleaning.isPending}>
+              Start
+            </button>
+          )}
+          {unit.housekeepingStatus === 'CLEANING' && (
+            <button className="text-xs underline" onClick={() => finishCleaning.mutate({ unitId: unit.id })} disabled={finishCleaning.isPending}>
+              Finish
+            </button>
+          )}
+          {(unit.housekeepingStatus === 'CLEAN' || unit.housekeepingStatus === 'INSPECTED') && (
+            <button className="text-xs underline text-red-600" onClick={() => markDirty.mutate({ unitId: unit.id })} disabled={markDirty.isPending}>
+              Mark dirty
+            </button>
+          )}
+        </PermissionGate>
+        {unit.housekeepingStatus === 'CLEAN' && (
+          <PermissionGate resource="housekeeping" action="approve" scope="property" hideOnDenied>
+            <button
+              className="text-xs underline text-green-700"
+              onClick={() => inspectRoom.mutate({ unitId: unit.id, passed: true })}
+              disabled={inspectRoom.isPending}
+            >
+              Pass
+            </button>
+            <button className="text-xs underline text-red-600" onClick={handleFailInspection} disabled={inspectRoom.isPending}>
+              Fail
+            </button>
+          </PermissionGate>
+        )}
+      </div>
+
+      {unit.task && (
+        <PermissionGate resource="housekeeping" action="assign" scope="property" hideOnDenied>
+          <select
+            className="mt-2 w-full border rounded p-1 text-xs"
+            value={unit.task.assignedTo?.id ?? ''}
+            onChange={e => e.target.value && assignTask.mutate({ taskId: unit.task!.id, assignedToId: e.target.value })}
+          >
+            <option value="">Assign to...</option>
+            {housekeepers.map(user => (
+              <option key={user.id} value={user.id}>{user.firstName} {user.lastName}</option>
+            ))}
+          </select>
+        </PermissionGate>
+      )}
+    </div>
+  );
+};
+
+const HousekeepingBoardPage: React.FC = () => {
+  const [date, setDate] = useState(today());
+  const [building, setBuilding] = useState('');
+  const { data: board, isLoading } = useHousekeepingBoard({ date, building: building || undefined });
+  const { data: usersResponse } = useUsers({ limit: 100 });
+  const housekeepers = usersResponse?.data?.data ?? [];
+
+  const buildings = Array.from(new Set((board?.floors ?? []).map(floor => floor.building).filter(Boolean))) as string[];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h1 className="text-2xl font-semibold">Housekeeping</h1>
+        <div className="flex gap-2">
+          <select className="border p-2 rounded" value={building} onChange={e => setBuilding(e.target.value)}>
+            <option value="">All buildings</option>
+            {buildings.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <input className="border p-2 rounded" type="date" value={date} onChange={e => setDate(e.target.value)} />
+        </div>
+      </div>
+
+      {isLoading || !board ? (
+        <div className="flex justify-center p-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+            {STATUSES.map(status => (
+              <div key={status} className={`border rounded-lg p-3 ${statusClass[status]}`}>
+                <div className="text-gray-600">{status}</div>
+                <div className="text-xl font-semibold">{board.summary[status]}</div>
+              </div>
+            ))}
+            <div className="border rounded-lg p-3 border-orange-300 bg-orange-50">
+              <div className="text-gray-600">Arrivals not ready</div>
+              <div className="text-xl font-semibold">{board.summary.arrivalsNotReady}</div>
+            </div>
+          </div>
+
+          {board.floors.map(floor => (
+            <section key={`${floor.building ?? ''}-${floor.floor ?? ''}`}>
+              <h2 className="text-lg font-medium mb-2">
+                {floor.building ? `${floor.building} · ` : ''}
+                {floor.floor !== null ? `Floor ${floor.floor}` : 'No floor'}
+              </h2>
+              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3">
+                {floor.units.map(unit => (
+                  <UnitTile key={unit.id} unit={unit} housekeepers={housekeepers} />
+                ))}
+              </div>
+            </section>
+          ))}
+          {board.floors.length === 0 && <p className="text-gray-500">No rooms to show.</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HousekeepingBoardPage;
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useKpiReport, useRoomTypes } from '../../hooks/useHotel';
+import { hotelService } from '../../services/hotelService';
+import { KpiMetrics } from '../../types/hotel';
+import LoadingSpinner from '../../components/LoadingSpinner';
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const monthStart = () => {
+  const now = new Date();
+  return toDateInput(new Date(Date.UTC(now.getFullYear(), now.getMonth(), 1)));
+};
+
+const monthEnd = () => {
+  const now = new Date();
+  return toDateInput(new Date(Date.UTC(now.getFullYear(), now.getMonth() + 1, 0)));
+};
+
+const currency = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const KPIS: { key: keyof KpiMetrics; label: string; format: typeof currency }[] = [
+  { key: 'occupancyRate', label: 'Occupancy', format: value => `${value.toFixed(1)}%` },
+  { key: 'adr', label: 'ADR', format: currency },
+  { key: 'revpar', label: 'RevPAR', format: currency },
+  { key: 'roomRevenue', label: 'Room revenue', format: currency },
+  { key: 'roomNightsSold', label: 'Room nights sold', format: value => value.toString() },
+  { key: 'averageLengthOfStay', label: 'Avg length of stay', format: value => `${value.toFixed(1)} nights` },
+  { key: 'averageLeadTime', label: 'Avg booking lead time', format: value => `${value.toFixed(1)} days` },
+  { key: 'arrivals', label: 'Arrivals', format: value => value.toString() },
+];
+
+const Change: React.FC<{ current: number; lastYear?: number }> = ({ current, lastYear }) => {
+  if (lastYear === undefined) return null;
+  if (lastYear === 0) return <span className="text-xs text-gray-500">LY: 0</span>;
+
+  const change = ((current - lastYear) / lastYear) * 100;
+  return (
+    <span className={`text-xs ${change >= 0 ? 'text-green-700' : 'text-red-600'}`}>
+      {change >= 0 ? '▲' : '▼'} {Math.abs(change).toFixed(1)}% vs LY
+    </span>
+  );
+};
+
+const PerformanceReportPage: React.FC = () => {
+  const [startDate, setStartDate] = useState(monthStart());
+  const [endDate, setEndDate] = useState(monthEnd());
+  const [roomTypeId, setRoomTypeId] = useState('');
+  const [compareLastYear, setCompareLastYear] = useState(true);
+  const [exporting, setExporting] = useState(false);
+
+  const filter = { startDate, endDate, roomTypeId: roomTypeId || undefined, compareLastYear };
+  const { data: report, isLoading } = useKpiReport(filter);
+  const { data: roomTypes = [] } = useRoomTypes();
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const blob = await hotelService.exportKpiReport(filter);
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `kpi-report-${startDate}-to-${endDate}.csv`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export KPI report:', error);
+      toast.error('Failed to export KPI report');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h1 className="text-2xl font-semibold">Performance</h1>
+        <div className="flex flex-wrap items-center gap-2">
+          <input className="border p-2 rounded" type="date" value={startDate} onChange={e => setStartDate(e.target.value)} />
+          <span className="text-gray-500">to</span>
+          <input className="border p-2 rounded" type="date" value={endDate} onChange={e => setEndDate(e.target.value)} />
+          <select className="border p-2 rounded" value={roomTypeId} onChange={e => setRoomTypeId(e.target.value)}>
+            <option value="">All room types</option>
+            {roomTypes.map(roomType => (
+              <option key={roomType.id} value={roomType.id}>{roomType.name}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-sm">
+            <input type="checkbox" checked={compareLastYear} onChange={e => setCompareLastYear(e.target.checked)} />
+            Compare to last year
+          </label>
+          <button className="btn btn-secondary" onClick={handleExport} disabled={exporting || !report}>
+            {exporting ? 'Exporting...' : 'Export CSV'}
+          </button>
+        </div>
+      </div>
+
+      {isLoading || !report ? (
+        <div className="flex justify-center p-12">
+          {startDate > endDate ? <p className="text-gray-500">End date must not be before start date.</p> : <LoadingSpinner size="lg" />}
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            {KPIS.map(kpi => (
+              <div key={kpi.key} className="border rounded-lg p-3 bg-white">
+                <div className="text-gray-600">{kpi.label}</div>
+                <div className="text-xl font-semibold">{kpi.format(report.current[kpi.key])}</div>
+                <Change current={report.current[kpi.key]} lastYear={report.lastYear?.[kpi.key]} />
+              </div>
+            ))}
+          </div>
+
+          <section>
+            <h2 className="text-lg font-medium mb-2">By room type</h2>
+            <div className="overflow-x-auto border rounded-lg bg-white">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="p-2">Room type</th>
+                    <th className="p-2">Rooms</th>
+                    <th className="p-2">Occupancy</th>
+                    <th className="p-2">ADR</th>
+                    <th className="p-2">RevPAR</th>
+                    <th className="p-2">Revenue</th>
+                    {report.lastYear && <th className="p-2">RevPAR LY</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.byRoomType.map(segment => (
+                    <tr key={segment.roomTypeId ?? 'unassigned'} className="border-t">
+                      <td className="p-2 font-medium">{segment.roomTypeName}</td>
+                      <td className="p-2">{segment.rooms}</td>
+                      <td className="p-2">{segment.current.occupancyRate.toFixed(1)}%</td>
+                      <td className="p-2">{currency(segment.current.adr)}</td>
+                      <td className="p-2">{currency(segment.current.revpar)}</td>
+                      <td className="p-2">{currency(segment.current.roomRevenue)}</td>
+                      {report.lastYear && <td className="p-2">{currency(segment.lastYear?.revpar ?? 0)}</td>}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <section>
+              <h2 className="text-lg font-medium mb-2">Source mix</h2>
+              <div className="border rounded-lg bg-white divide-y text-sm">
+                {report.sourceMix.map(entry => (
+                  <div key={entry.source} className="p-2">
+                    <div className="flex justify-between">
+                      <span className="font-medium">{entry.source}</span>
+                      <span>{entry.share.toFixed(1)}% · {entry.roomNights} nights</span>
+                    </div>
+                    <div className="mt-1 h-2 bg-gray-100 rounded">
+                      <div className="h-2 bg-blue-500 rounded" style={{ width: `${entry.share}%` }} />
+                    </div>
+                  </div>
+                ))}
+                {report.sourceMix.length === 0 && <p className="p-2 text-gray-500">No room nights sold.</p>}
+              </div>
+            </section>
+
+            <section>
+              <h2 className="text-lg font-medium mb-2">Pickup since {report.pickup.since}</h2>
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div className="border rounded-lg p-3 bg-white">
+                  <div className="text-gray-600">Bookings</div>
+                  <div className="text-xl font-semibold">{report.pickup.bookings}</div>
+                </div>
+                <div className="border rounded-lg p-3 bg-white">
+                  <div className="text-gray-600">Room nights</div>
+                  <div className="text-xl font-semibold">{report.pickup.roomNights}</div>
+                </div>
+                <div className="border rounded-lg p-3 bg-white">
+                  <div className="text-gray-600">Revenue</div>
+                  <div className="text-xl font-semibold">{currency(report.pickup.roomRevenue)}</div>
+                </div>
+              </div>
+            </section>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PerformanceReportPage;
@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { useRoomTypes, useRatePlans, useCreateRatePlan, useUpdateRatePlan, useDeleteRatePlan } from '../../hooks/useHotel';
+import { CreateRatePlanInput, RatePlan, RatePlanType, RateSeason } from '../../types/hotel';
+
+const PLAN_TYPES: RatePlanType[] = ['BAR', 'NON_REFUNDABLE', 'CORPORATE', 'PACKAGE'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+type RatePlanForm = Pick<CreateRatePlanInput, 'roomTypeId' | 'code' | 'name' | 'planType' | 'currency' | 'baseOccupancy' | 'isDefault'> & {
+  baseRate: number;
+  extraAdultRate: number;
+  extraChildRate: number;
+  packageRate: number;
+  // Kept as text so the fields can be left empty
+  minLengthOfStay: string;
+  maxLengthOfStay: string;
+};
+
+const emptyForm = (): RatePlanForm => ({
+  roomTypeId: '',
+  code: '',
+  name: '',
+  planType: 'BAR',
+  currency: 'USD',
+  baseRate: 0,
+  baseOccupancy: 2,
+  extraAdultRate: 0,
+  extraChildRate: 0,
+  packageRate: 0,
+  minLengthOfStay: '',
+  maxLengthOfStay: '',
+  isDefault: false,
+});
+
+const emptySeason = (): RateSeason => ({ name: '', startDate: '', endDate: '', nightlyRate: 0 });
+
+const optionalNumber = (value: string | number) => (value === '' ? null : Number(value));
+
+const RatePlansPage: React.FC = () => {
+  const { data: roomTypes = [] } = useRoomTypes();
+  const [roomTypeFilter, setRoomTypeFilter] = useState('');
+  const { data: ratePlans = [] } = useRatePlans(roomTypeFilter || undefined);
+  const createRP = useCreateRatePlan();
+  const updateRP = useUpdateRatePlan();
+  const deleteRP = useDeleteRatePlan();
+
+  const [form, setForm] = useState<RatePlanForm>(emptyForm());
+  const [weekdayModifiers, setWeekdayModifiers] = useState<Record<string, string>>({});
+  const [seasons, setSeasons] = useState<RateSeason[]>([]);
+  const [editingSeasonsFor, setEditingSeasonsFor] = useState<RatePlan | null>(null);
+
+  const toModifiers = () => {
+    const modifiers: Record<string, number> = {};
+    Object.entries(weekdayModifiers).forEach(([day, value]) => {
+      if (value !== '' && Number(value) > 0 && Number(value) !== 1) modifiers[day] = Number(value);
+    });
+    return Object.keys(modifiers).length ? modifiers : null;
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await createRP.mutateAsync({
+      ...form,
+      minLengthOfStay: optionalNumber(form.minLengthOfStay),
+      maxLengthOfStay: optionalNumber(form.maxLengthOfStay),
+      dayOfWeekModifiers: toModifiers(),
+      inclusions: [],
+      isRefundable: form.planType !== 'NON_REFUNDABLE',
+      seasons: seasons.filter(s => s.name && s.startDate && s.endDate),
+    });
+    setForm(emptyForm());
+    setWeekdayModifiers({});
+    setSeasons([]);
+  };
+
+  const saveSeasons = async () => {
+    if (!editingSeasonsFor) return;
+    await updateRP.mutateAsync({
+      id: editingSeasonsFor.id,
+      input: { seasons: seasons.filter(s => s.name && s.startDate && s.endDate) },
+    });
+    setEditingSeasonsFor(null);
+    setSeasons([]);
+  };
+
+  const updateSeason = (index: number, patch: Partial<RateSeason>) => {
+    setSeasons(seasons.map((season, i) => (i === index ? { ...season, ...patch } : season)));
+  };
+
+  const roomTypeName = (id: string) => roomTypes.find(rt => rt.id === id)?.name || '-';
+
+  const seasonEditor = (
+    <div className="md:col-span-6 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">Seasons</span>
+        <button type="button" className="text-blue-600" onClick={() => setSeasons([...seasons, emptySeason()])}>+ Add Season</button>
+      </div>
+      {seasons.map((season, index) => (
+        <div key={index} className="grid grid-cols-1 md:grid-cols-6 gap-2">
+          <input className="border p-2 rounded md:col-span-2" placeholder="Season name" value={season.name} onChange={e => updateSeason(index, { name: e.target.value })} />
+          <input className="border p-2 rounded" type="date" value={season.startDate.slice(0, 10)} onChange={e => updateSeason(index, { startDate: e.target.value })} />
+          <input className="border p-2 rounded" type="date" value={season.endDate.slice(0, 10)} onChange={e => updateSeason(index, { endDate: e.target.value })} />
+          <input className="border p-2 rounded" type="number" step="0.01" placeholder="Nightly rate" value={season.nightlyRate} onChange={e => updateSeason(index, { nightlyRate: Number(e.target.value) })} />
+          <button type="button" className="text-red-600" onClick={() => setSeasons(seasons.filter((_, i) => i !== index))}>Remove</button>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-semibold">Rate Plans</h1>
+        <select className="border p-2 rounded" value={roomTypeFilter} onChange={e => setRoomTypeFilter(e.target.value)}>
+          <option value="">All room types</option>
+          {roomTypes.map(rt => (
+            <option key={rt.id} value={rt.id}>{rt.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {!editingSeasonsFor && (
+        <form onSubmit={submit} className="grid grid-cols-1 md:grid-cols-6 gap-4 mb-8">
+          <select className="border p-2 rounded md:col-span-2" value={form.roomTypeId} onChange={e => setForm({ ...form, roomTypeId: e.target.value })} required>
+            <option value="">Room type</option>
+            {roomTypes.map(rt => (
+              <option key={rt.id} value={rt.id}>{rt.name}</option>
+            ))}
+          </select>
+          <input className="border p-2 rounded md:col-span-1" placeholder="Code" value={form.code} onChange={e => setForm({ ...form, code: e.target.value })} required />
+          <input className="border p-2 rounded md:col-span-2" placeholder="Name" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} required />
+          <select className="border p-2 rounded md:col-span-1" value={form.planType} onChange={e => setForm({ ...form, planType: e.target.value as RatePlanType })}>
+            {PLAN_TYPES.map(type => (
+              <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>
+            ))}
+          </select>
+          <input className="border p-2 rounded" type="number" step="0.01" placeholder="Base Rate" value={form.baseRate} onChange={e => setForm({ ...form, baseRate: Number(e.target.value) })} />
+          <input className="border p-2 rounded" type="number" placeholder="Base Occupancy" value={form.baseOccupancy} onChange={e => setForm({ ...form, baseOccupancy: Number(e.target.value) })} />
+          <input className="border p-2 rounded" type="number" step="0.01" placeholder="Extra Adult" value={form.extraAdultRate} onChange={e => setForm({ ...form, extraAdultRate: Number(e.target.value) })} />
+          <input className="border p-2 rounded" type="number" step="0.01" placeholder="Extra Child" value={form.extraChildRate} onChange={e => setForm({ ...form, extraChildRate: Number(e.target.value) })} />
+          <input className="border p-2 rounded" type="number" placeholder="Min LOS" value={form.minLengthOfStay} onChange={e => setForm({ ...form, minLengthOfStay: e.target.value })} />
+          <input className="border p-2 rounded" type="number" placeholder="Max LOS" value={form.maxLengthOfStay} onChange={e => setForm({ ...form, maxLengthOfStay: e.target.value })} />
+          {form.planType === 'PACKAGE' && (
+            <input className="border p-2 rounded md:col-span-2" type="number" step="0.01" placeholder="Package price per night" value={form.packageRate} onChange={e => setForm({ ...form, packageRate: Number(e.target.value) })} />
+          )}
+          <div className="md:col-span-6 grid grid-cols-7 gap-2">
+            {WEEKDAYS.map((day, index) => (
+              <input
+                key={day}
+                className="border p-2 rounded"
+                type="number"
+                step="0.01"
+                placeholder={`${day} ×1.00`}
+                value={weekdayModifiers[index] ?? ''}
+                onChange={e => setWeekdayModifiers({ ...weekdayModifiers, [index]: e.target.value })}
+              />
+            ))}
+          </div>
+          {seasonEditor}
+          <label className="md:col-span-6 flex items-center gap-2">
+            <input type="checkbox" checked={form.isDefault} onChange={e => setForm({ ...form, isDefault: e.target.checked })} />
+            Default plan for this room type
+          </label>
+          <div className="md:col-span-6">
+            <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded">Add Rate Plan</button>
+          </div>
+        </form>
+      )}
+
+      {editingSeasonsFor && (
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-4 mb-8 border rounded p-4">
+          <h2 className="md:col-span-6 text-lg font-medium">Seasons for {editingSeasonsFor.name}</h2>
+          {seasonEditor}
+          <div className="md:col-span-6 flex gap-3">
+            <button type="button" className="px-4 py-2 bg-blue-600 text-white rounded" onClick={saveSeasons}>Save Seasons</button>
+            <button type="button" className="px-4 py-2 border rounded" onClick={() => { setEditingSeasonsFor(null); setSeasons([]); }}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full border rounded">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="text-left p-2">Code</th>
+              <th className="text-left p-2">Name</th>
+              <th className="text-left p-2">Room Type</th>
+              <th className="text-left p-2">Type</th>
+              <th className="text-left p-2">Base Rate</th>
+              <th className="text-left p-2">Seasons</th>
+              <th className="text-left p-2">Default</th>
+              <th className="text-left p-2">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ratePlans.map((rp) => (
+              <tr key={rp.id} className="border-t">
+                <td className="p-2">{rp.code}</td>
+                <td className="p-2">{rp.name}</td>
+                <td className="p-2">{roomTypeName(rp.roomTypeId)}</td>
+                <td className="p-2">{rp.planType.replace(/_/g, ' ')}</td>
+                <td className="p-2">{rp.baseRate != null ? `${rp.currency} ${Number(rp.baseRate).toFixed(2)}` : 'Rack rate'}</td>
+                <td className="p-2">{rp.seasons.length}</td>
+                <td className="p-2">
+                  <input
+                    type="checkbox"
+                    checked={rp.isDefault}
+                    onChange={() => updateRP.mutate({ id: rp.id, input: { isDefault: !rp.isDefault } })}
+                  />
+                </td>
+                <td className="p-2">
+                  <button className="text-blue-600 mr-3" onClick={() => {
+                    const name = prompt('New name', rp.name);
+                    if (name) updateRP.mutate({ id: rp.id, input: { name } });
+                  }}>Edit</button>
+                  <button className="text-blue-600 mr-3" onClick={() => {
+                    setEditingSeasonsFor(rp);
+                    setSeasons(rp.seasons.map(s => ({ ...s })));
+                  }}>Seasons</button>
+                  <button className="text-red-600" onClick={() => {
+                    if (confirm('Deactivate rate plan?')) deleteRP.mutate(rp.id);
+                  }}>Delete</button>
+                </td>
+              </tr>
+            ))}
+            {ratePlans.length === 0 && (
+              <tr><td className="p-4 text-gray-500" colSpan={8}>No rate plans yet.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RatePlansPage;
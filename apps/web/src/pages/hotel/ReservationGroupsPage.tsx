@@ -0,0 +1,395 @@
+import React, { useState } from 'react';
+import {
+  useRoomTypes,
+  useRatePlans,
+  useReservationGroups,
+  useReservationGroup,
+  useGroupBilling,
+  useCreateReservationGroup,
+  useAddRoomBlock,
+  useReleaseRoomBlock,
+  useImportRoomingList,
+  useCheckInReservationGroup,
+  useCancelReservationGroup,
+} from '../../hooks/useHotel';
+import {
+  ReservationGroupType,
+  ReservationGroupStatus,
+  GroupBillingType,
+  RoomBlockInput,
+  RoomingListImportResult,
+} from '../../types/hotel';
+
+const GROUP_TYPES: ReservationGroupType[] = ['WEDDING', 'CORPORATE', 'TOUR', 'CONFERENCE', 'OTHER'];
+const STATUSES: ReservationGroupStatus[] = ['TENTATIVE', 'DEFINITE', 'CANCELLED', 'COMPLETED'];
+
+const emptyForm = () => ({
+  name: '',
+  groupCode: '',
+  groupType: 'OTHER' as ReservationGroupType,
+  billingType: 'INDIVIDUAL' as GroupBillingType,
+  contactName: '',
+  contactEmail: '',
+  contactPhone: '',
+  arrivalDate: '',
+  departureDate: '',
+  notes: '',
+});
+
+const emptyBlock = (): RoomBlockInput => ({
+  roomTypeId: '',
+  ratePlanId: '',
+  startDate: '',
+  endDate: '',
+  roomsBlocked: 1,
+  releaseDate: '',
+});
+
+const toBlockInput = (block: RoomBlockInput): RoomBlockInput => ({
+  ...block,
+  ratePlanId: block.ratePlanId || undefined,
+  roomsBlocked: Number(block.roomsBlocked),
+});
+
+const formatDate = (date: string | Date) => new Date(date).toISOString().slice(0, 10);
+
+const money = (amount: number, currency: string) => `${currency} ${Number(amount).toFixed(2)}`;
+
+const BlockEditor: React.FC<{
+  block: RoomBlockInput;
+  onChange: React.Dispatch<RoomBlockInput>;
+  onRemove?: () => void;
+}> = ({ block, onChange, onRemove }) => {
+  const { data: roomTypes = [] } = useRoomTypes();
+  const { data: ratePlans = [] } = useRatePlans(block.roomTypeId || undefined);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+      <select className="border p-2 rounded" value={block.roomTypeId} onChange={e => onChange({ ...block, roomTypeId: e.target.value, ratePlanId: '' })} required>
+        <option value="">Room type</option>
+        {roomTypes.map(rt => (
+          <option key={rt.id} value={rt.id}>{rt.name}</option>
+        ))}
+      </select>
+      <select className="border p-2 rounded" value={block.ratePlanId} onChange={e => onChange({ ...block, ratePlanId: e.target.value })}>
+        <option value="">Default rate</option>
+        {ratePlans.map(plan => (
+          <option key={plan.id} value={plan.id}>{plan.name}</option>
+        ))}
+      </select>
+      <input className="border p-2 rounded" type="date" title="Block start" value={block.startDate} onChange={e => onChange({ ...block, startDate: e.target.value })} required />
+      <input className="border p-2 rounded" type="date" title="Block end" value={block.endDate} onChange={e => onChange({ ...block, endDate: e.target.value })} required />
+      <input className="border p-2 rounded" type="number" min={1} placeholder="Rooms" value={block.roomsBlocked} onChange={e => onChange({ ...block, roomsBlocked: Number(e.target.value) })} required />
+      <input className="border p-2 rounded" type="date" title="Release (cutoff) date" value={block.releaseDate} onChange={e => onChange({ ...block, releaseDate: e.target.value })} required />
+      {onRemove && <button type="button" className="text-red-600" onClick={onRemove}>Remove</button>}
+    </div>
+  );
+};
+
+const GroupDetail: React.FC<{ groupId: string; onClose: () => void }> = ({ groupId, onClose }) => {
+  const { data: group } = useReservationGroup(groupId);
+  const { data: billing } = useGroupBilling(groupId);
+  const addBlock = useAddRoomBlock();
+  const releaseBlock = useReleaseRoomBlock();
+  const importRoomingList = useImportRoomingList();
+  const checkInGroup = useCheckInReservationGroup();
+  const cancelGroup = useCancelReservationGroup();
+
+  const [newBlock, setNewBlock] = useState<RoomBlockInput | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [validateOnly, setValidateOnly] = useState(true);
+  const [importResult, setImportResult] = useState<RoomingListImportResult | null>(null);
+
+  if (!group) return <p className="text-gray-500">Loading group...</p>;
+
+  const isClosed = group.status === 'CANCELLED' || group.status === 'COMPLETED';
+
+  const submitBlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newBlock) return;
+    await addBlock.mutateAsync({ groupId, input: toBlockInput(newBlock) });
+    setNewBlock(null);
+  };
+
+  const submitImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    const response = await importRoomingList.mutateAsync({ groupId, file, validateOnly });
+    setImportResult(response.data);
+  };
+
+  const cancel = () => {
+    const reason = window.prompt('Reason for cancelling this group?');
+    if (reason === null) return;
+    cancelGroup.mutate({ groupId, reason: reason || undefined });
+  };
+
+  return (
+    <div className="border rounded p-4 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-xl font-semibold">{group.name} <span className="text-gray-500 text-base">({group.groupCode})</span></h2>
+          <p className="text-sm text-gray-600">
+            {group.groupType} · {group.status} · {group.billingType.replace(/_/g, ' ')} · {formatDate(group.arrivalDate)} → {formatDate(group.departureDate)}
+          </p>
+          {group.contactName && (
+            <p className="text-sm text-gray-600">{group.contactName} {group.contactEmail} {group.contactPhone}</p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {!isClosed && (
+            <>
+              <button className="px-3 py-2 bg-green-600 text-white rounded" onClick={() => checkInGroup.mutate({ groupId })} disabled={checkInGroup.isPending}>
+                Check in arrivals
+              </button>
+              <button className="px-3 py-2 border border-red-600 text-red-600 rounded" onClick={cancel} disabled={cancelGroup.isPending}>
+                Cancel group
+              </button>
+            </>
+          )}
+          <button className="px-3 py-2 border rounded" onClick={onClose}>Close</button>
+        </div>
+      </div>
+
+      <section>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-medium">Room blocks</h3>
+          {!isClosed && !newBlock && (
+            <button className="text-blue-600" onClick={() => setNewBlock(emptyBlock())}>+ Add Block</button>
+          )}
+        </div>
+        <table className="min-w-full border rounded">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="text-left p-2">Room Type</th>
+              <th className="text-left p-2">Dates</th>
+              <th className="text-left p-2">Release</th>
+              <th className="text-left p-2">Blocked</th>
+              <th className="text-left p-2">Picked up</th>
+              <th className="text-left p-2">Remaining</th>
+              <th className="text-left p-2">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(group.blocks || []).map(block => (
+              <tr key={block.id} className="border-t">
+                <td className="p-2">{block.roomType.name}</td>
+                <td className="p-2">{formatDate(block.startDate)} → {formatDate(block.endDate)}</td>
+                <td className="p-2">{formatDate(block.releaseDate)}</td>
+                <td className="p-2">{block.roomsBlocked}</td>
+                <td className="p-2">{block.pickedUp}</td>
+                <td className="p-2">{block.isReleased ? <span className="text-gray-500">Released</span> : block.remaining}</td>
+                <td className="p-2">
+                  {!block.isReleased && block.remaining > 0 && (
+                    <button className="text-red-600" onClick={() => releaseBlock.mutate({ groupId, blockId: block.id })}>Release</button>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {(group.blocks || []).length === 0 && (
+              <tr><td className="p-4 text-gray-500" colSpan={7}>No room blocks yet.</td></tr>
+            )}
+          </tbody>
+        </table>
+        {newBlock && (
+          <form onSubmit={submitBlock} className="mt-3 space-y-2">
+            <BlockEditor block={newBlock} onChange={setNewBlock} />
+            <div className="flex gap-2">
+              <button className="px-4 py-2 bg-blue-600 text-white rounded" type="submit" disabled={addBlock.isPending}>Save Block</button>
+              <button className="px-4 py-2 border rounded" type="button" onClick={() => setNewBlock(null)}>Cancel</button>
+            </div>
+          </form>
+        )}
+      </section>
+
+      {!isClosed && (
+        <section>
+          <h3 className="font-medium mb-2">Rooming list</h3>
+          <form onSubmit={submitImport} className="flex flex-wrap items-center gap-3">
+            <input type="file" accept=".csv" onChange={e => { setFile(e.target.files?.[0] || null); setImportResult(null); }} />
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={validateOnly} onChange={e => setValidateOnly(e.target.checked)} />
+              Validate only
+            </label>
+            <button className="px-4 py-2 bg-blue-600 text-white rounded" type="submit" disabled={!file || importRoomingList.isPending}>
+              {validateOnly ? 'Validate' : 'Import'}
+            </button>
+          </form>
+          <p className="text-xs text-gray-500 mt-1">
+            Columns: firstName, lastName, email, phone, roomType, unitNumber, checkIn, checkOut, adults, children, notes. Only names are required.
+          </p>
+          {importResult && (
+            <div className="mt-3 text-sm">
+              <p className="mb-2">{importResult.successCount} ready, {importResult.failureCount} failed</p>
+              <ul className="space-y-1">
+                {importResult.successful.map(row => (
+                  <li key={`ok-${row.row}`} className="text-green-700">Row {row.row}: {row.guestName} → {row.unitNumber} ({row.status})</li>
+                ))}
+                {importResult.failed.map(row => (
+                  <li key={`failed-${row.row}`} className="text-red-700">Row {row.row}: {row.guestName} — {row.error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+      )}
+
+      <section>
+        <h3 className="font-medium mb-2">Reservations</h3>
+        <table className="min-w-full border rounded">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="text-left p-2">Number</th>
+              <th className="text-left p-2">Guest</th>
+              <th className="text-left p-2">Room</th>
+              <th className="text-left p-2">Stay</th>
+              <th className="text-left p-2">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(group.reservations || []).map(reservation => (
+              <tr key={reservation.id} className="border-t">
+                <td className="p-2">{reservation.confirmationNumber}</td>
+                <td className="p-2">{reservation.guest ? `${reservation.guest.firstName} ${reservation.guest.lastName}` : '-'}</td>
+                <td className="p-2">{reservation.unit?.unitNumber || reservation.room?.number || '-'}</td>
+                <td className="p-2">{formatDate(reservation.checkInDate)} → {formatDate(reservation.checkOutDate)}</td>
+                <td className="p-2">{reservation.status}</td>
+              </tr>
+            ))}
+            {(group.reservations || []).length === 0 && (
+              <tr><td className="p-4 text-gray-500" colSpan={5}>No guests picked up yet.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </section>
+
+      {billing && (
+        <section>
+          <h3 className="font-medium mb-2">Billing</h3>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4 text-sm">
+            <div><div className="text-gray-500">Room total</div>{money(billing.roomTotal, billing.currency)}</div>
+            <div><div className="text-gray-500">All charges</div>{money(billing.chargesTotal, billing.currency)}</div>
+            <div><div className="text-gray-500">Paid</div>{money(billing.paidTotal, billing.currency)}</div>
+            <div><div className="text-gray-500">Balance</div>{money(billing.balance, billing.currency)}</div>
+            <div><div className="text-gray-500">Master account</div>{money(billing.masterAccountTotal, billing.currency)}</div>
+            <div><div className="text-gray-500">Guest accounts</div>{money(billing.guestAccountTotal, billing.currency)}</div>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+const ReservationGroupsPage: React.FC = () => {
+  const [statusFilter, setStatusFilter] = useState<ReservationGroupStatus | ''>('');
+  const { data: groups = [] } = useReservationGroups(statusFilter || undefined);
+  const createGroup = useCreateReservationGroup();
+
+  const [form, setForm] = useState(emptyForm());
+  const [blocks, setBlocks] = useState<RoomBlockInput[]>([]);
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const response = await createGroup.mutateAsync({
+      ...form,
+      groupCode: form.groupCode || undefined,
+      contactName: form.contactName || undefined,
+      contactEmail: form.contactEmail || undefined,
+      contactPhone: form.contactPhone || undefined,
+      notes: form.notes || undefined,
+      blocks: blocks.map(toBlockInput),
+    });
+    setForm(emptyForm());
+    setBlocks([]);
+    setSelectedGroupId(response.data.id);
+  };
+
+  const updateBlock = (index: number, block: RoomBlockInput) => {
+    setBlocks(blocks.map((existing, i) => (i === index ? block : existing)));
+  };
+
+  return (
+    <div className="p-6 space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">Groups</h1>
+        <select className="border p-2 rounded" value={statusFilter} onChange={e => setStatusFilter(e.target.value as ReservationGroupStatus | '')}>
+          <option value="">All statuses</option>
+          {STATUSES.map(status => (
+            <option key={status} value={status}>{status}</option>
+          ))}
+        </select>
+      </div>
+
+      {selectedGroupId && <GroupDetail groupId={selectedGroupId} onClose={() => setSelectedGroupId(null)} />}
+
+      <table className="min-w-full border rounded">
+        <thead>
+          <tr className="bg-gray-50">
+            <th className="text-left p-2">Code</th>
+            <th className="text-left p-2">Name</th>
+            <th className="text-left p-2">Type</th>
+            <th className="text-left p-2">Dates</th>
+            <th className="text-left p-2">Rooms blocked</th>
+            <th className="text-left p-2">Reservations</th>
+            <th className="text-left p-2">Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map(group => (
+            <tr key={group.id} className="border-t cursor-pointer hover:bg-gray-50" onClick={() => setSelectedGroupId(group.id)}>
+              <td className="p-2">{group.groupCode}</td>
+              <td className="p-2">{group.name}</td>
+              <td className="p-2">{group.groupType}</td>
+              <td className="p-2">{formatDate(group.arrivalDate)} → {formatDate(group.departureDate)}</td>
+              <td className="p-2">{group.roomsBlocked ?? 0}</td>
+              <td className="p-2">{group.reservationCount ?? 0}</td>
+              <td className="p-2">{group.status}</td>
+            </tr>
+          ))}
+          {groups.length === 0 && (
+            <tr><td className="p-4 text-gray-500" colSpan={7}>No groups yet.</td></tr>
+          )}
+        </tbody>
+      </table>
+
+      <form onSubmit={submit} className="grid grid-cols-1 md:grid-cols-6 gap-4">
+        <h2 className="md:col-span-6 text-lg font-medium">New Group</h2>
+        <input className="border p-2 rounded md:col-span-2" placeholder="Group name" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} required />
+        <input className="border p-2 rounded" placeholder="Code (optional)" value={form.groupCode} onChange={e => setForm({ ...form, groupCode: e.target.value })} />
+        <select className="border p-2 rounded" value={form.groupType} onChange={e => setForm({ ...form, groupType: e.target.value as ReservationGroupType })}>
+          {GROUP_TYPES.map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+        <select className="border p-2 rounded md:col-span-2" value={form.billingType} onChange={e => setForm({ ...form, billingType: e.target.value as GroupBillingType })}>
+          <option value="INDIVIDUAL">Guests pay individually</option>
+          <option value="MASTER_ACCOUNT">Master account</option>
+        </select>
+        <input className="border p-2 rounded md:col-span-2" placeholder="Contact name" value={form.contactName} onChange={e => setForm({ ...form, contactName: e.target.value })} />
+        <input className="border p-2 rounded md:col-span-2" type="email" placeholder="Contact email" value={form.contactEmail} onChange={e => setForm({ ...form, contactEmail: e.target.value })} />
+        <input className="border p-2 rounded md:col-span-2" placeholder="Contact phone" value={form.contactPhone} onChange={e => setForm({ ...form, contactPhone: e.target.value })} />
+        <input className="border p-2 rounded md:col-span-3" type="date" title="Arrival" value={form.arrivalDate} onChange={e => setForm({ ...form, arrivalDate: e.target.value })} required />
+        <input className="border p-2 rounded md:col-span-3" type="date" title="Departure" value={form.departureDate} onChange={e => setForm({ ...form, departureDate: e.target.value })} required />
+        <textarea className="border p-2 rounded md:col-span-6" placeholder="Notes" value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} />
+        <div className="md:col-span-6 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">Room blocks</span>
+            <button type="button" className="text-blue-600" onClick={() => setBlocks([...blocks, emptyBlock()])}>+ Add Block</button>
+          </div>
+          {blocks.map((block, index) => (
+            <BlockEditor
+              key={index}
+              block={block}
+              onChange={updated => updateBlock(index, updated)}
+              onRemove={() => setBlocks(blocks.filter((_, i) => i !== index))}
+            />
+          ))}
+        </div>
+        <button className="px-4 py-2 bg-blue-600 text-white rounded md:col-span-1" type="submit" disabled={createGroup.isPending}>Create Group</button>
+      </form>
+    </div>
+  );
+};
+
+export default ReservationGroupsPage;
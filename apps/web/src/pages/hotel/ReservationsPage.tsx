@@ -3,13 +3,15 @@ import { useReservations, useHotelStats, useTodayArrivals, useTodayDepartures }
 import { ReservationFilter, ReservationStatus, PaymentStatus, ReservationSource } from '../../types/hotel';
 import ReservationCard from '../../components/hotel/ReservationCard';
 import CreateReservationModal from '../../components/hotel/CreateReservationModal';
+import TapeChart from '../../components/hotel/TapeChart';
 import LoadingSpinner from '../../components/LoadingSpinner';
 import PermissionGate from '../../components/PermissionGate';
 import { Reservation } from '../../types/hotel';
+import { hotelService } from '../../services/hotelService';
 
 const ReservationsPage: React.FC = () => {
   const [filter, setFilter] = useState<ReservationFilter>({});
-  const [viewMode, setViewMode] = useState<'grid' | 'list' | 'calendar'>('grid');
+  const [viewMode, setViewMode] = useState<'grid' | 'list' | 'timeline'>('grid');
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [selectedReservation, setSelectedReservation] = useState<Reservation | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
@@ -103,6 +105,11 @@ const ReservationsPage: React.FC = () => {
     setShowEditModal(true);
   };
 
+  const handleTimelineReservationClick = async (reservationId: string) => {
+    const response = await hotelService.getReservation(reservationId);
+    handleReservationClick(response.data);
+  };
+
   const clearFilters = () => {
     setFilter({});
   };
@@ -380,6 +387,15 @@ const ReservationsPage: React.FC = () => {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h16M4 18h16" />
               </svg>
             </button>
+            <button
+              onClick={() => setViewMode('timeline')}
+              title="Tape chart"
+              className={`p-1 rounded ${viewMode === 'timeline' ? 'bg-blue-100 text-blue-600' : 'text-gray-400'}`}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 6h8M7 12h12M3 18h10" />
+              </svg>
+            </button>
           </div>
         </div>
       </div>
@@ -391,8 +407,10 @@ const ReservationsPage: React.FC = () => {
         </p>
       </div>
 
-      {/* Reservations Grid/List */}
-      {normalizedReservations.length === 0 ? (
+      {/* Reservations Grid/List/Tape Chart */}
+      {viewMode === 'timeline' ? (
+        <TapeChart onReservationClick={handleTimelineReservationClick} />
+      ) : normalizedReservations.length === 0 ? (
         <div className="text-center py-12">
           <div className="text-gray-400 text-6xl mb-4">📅</div>
           <h3 className="text-lg font-medium text-gray-900 mb-2">No reservations found</h3>
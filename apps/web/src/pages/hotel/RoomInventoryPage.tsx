@@ -0,0 +1,99 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useRoomTypeInventory } from '../../hooks/useHotel';
+import { InventoryCell } from '../../types/hotel';
+
+const RANGE_OPTIONS = [7, 14, 30, 60];
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0];
+
+const addDays = (dateKey: string, days: number) => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateKey(date);
+};
+
+const cellColor = (cell: InventoryCell) => {
+  if (cell.total === 0) return 'bg-gray-50 text-gray-400';
+  if (cell.available === 0) return 'bg-red-100 text-red-800';
+  if (cell.available / cell.total <= 0.2) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-green-50 text-green-800';
+};
+
+const InventoryRow: React.FC<{ label: string; days: InventoryCell[]; bold?: boolean }> = ({ label, days, bold }) => (
+  <tr className={`border-t ${bold ? 'font-semibold' : ''}`}>
+    <td className="p-2 sticky left-0 bg-white whitespace-nowrap">{label}</td>
+    {days.map(cell => (
+      <td
+        key={cell.date}
+        className={`p-2 text-center text-sm ${cellColor(cell)}`}
+        title={`Total ${cell.total} · Sold ${cell.sold} · Out of order ${cell.outOfOrder} · Group blocks ${cell.blocked} · Available ${cell.available}`}
+      >
+        {cell.available}/{cell.total}
+      </td>
+    ))}
+  </tr>
+);
+
+const RoomInventoryPage: React.FC = () => {
+  const [startDate, setStartDate] = useState(toDateKey(new Date()));
+  const [rangeDays, setRangeDays] = useState(14);
+  const endDate = useMemo(() => (startDate ? addDays(startDate, rangeDays - 1) : ''), [startDate, rangeDays]);
+  const { data: inventory, isLoading } = useRoomTypeInventory(startDate, endDate);
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-semibold">Room Inventory</h1>
+        <Link to="/hotel/room-types" className="text-blue-600">Room Types</Link>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <button className="px-3 py-2 border rounded" onClick={() => setStartDate(addDays(startDate, -rangeDays))}>←</button>
+        <input className="border p-2 rounded" type="date" value={startDate} onChange={e => setStartDate(e.target.value)} />
+        <button className="px-3 py-2 border rounded" onClick={() => setStartDate(addDays(startDate, rangeDays))}>→</button>
+        <select className="border p-2 rounded" value={rangeDays} onChange={e => setRangeDays(Number(e.target.value))}>
+          {RANGE_OPTIONS.map(days => (
+            <option key={days} value={days}>{days} nights</option>
+          ))}
+        </select>
+        <button className="px-3 py-2 border rounded" onClick={() => setStartDate(toDateKey(new Date()))}>Today</button>
+      </div>
+
+      {isLoading && <p className="text-gray-500">Loading inventory...</p>}
+
+      {inventory && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full border rounded">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="text-left p-2 sticky left-0 bg-gray-50">Room Type</th>
+                {inventory.dates.map(date => {
+                  const day = new Date(`${date}T00:00:00Z`);
+                  return (
+                    <th key={date} className="p-2 text-xs font-medium text-center whitespace-nowrap">
+                      <div>{day.toLocaleDateString(undefined, { weekday: 'short', timeZone: 'UTC' })}</div>
+                      <div>{day.toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' })}</div>
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {inventory.roomTypes.map(row => (
+                <InventoryRow key={row.roomTypeId ?? 'unassigned'} label={row.name} days={row.days} />
+              ))}
+              {inventory.roomTypes.length === 0 && (
+                <tr><td className="p-4 text-gray-500" colSpan={inventory.dates.length + 1}>No room types yet.</td></tr>
+              )}
+              {inventory.roomTypes.length > 0 && <InventoryRow label="Total" days={inventory.totals} bold />}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-2">Cells show available / total rooms. Hover a cell for sold, out-of-order and group block counts.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoomInventoryPage;
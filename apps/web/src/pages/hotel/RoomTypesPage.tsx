@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useRoomTypes, useCreateRoomType, useUpdateRoomType, useDeleteRoomType } from '../../hooks/useHotel';
 
 const RoomTypesPage: React.FC = () => {
@@ -29,6 +30,7 @@ const RoomTypesPage: React.FC = () => {
     <div className="p-6">
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-semibold">Room Types</h1>
+        <Link to="/hotel/room-inventory" className="text-blue-600">Inventory Grid</Link>
       </div>
 
       <form onSubmit={submit} className="grid grid-cols-1 md:grid-cols-6 gap-4 mb-8">
@@ -6,6 +6,9 @@ import LoadingSpinner from '../../components/LoadingSpinner';
 import { PermissionGate } from '../../components';
 import toastService from '../../services/toastService';
 import CreateConciergeObjectModal from '../../components/concierge/CreateConciergeObjectModal';
+import StaySegmentsPanel from '../../components/hotel/StaySegmentsPanel';
+import FolioPanel from '../../components/hotel/FolioPanel';
+import PaymentsPanel from '../../components/hotel/PaymentsPanel';
 
 interface Reservation360PageProps {
   reservationId?: string; // Optional prop, falls back to URL params
@@ -250,6 +253,21 @@ const Reservation360Page: React.FC<Reservation360PageProps> = ({ reservationId:
           </div>
         </div>
 
+        {/* Stay Segments & Room Moves */}
+        <PermissionGate resource="reservation" action="read" scope="property" hideOnDenied>
+          <StaySegmentsPanel reservationId={reservationId} />
+        </PermissionGate>
+
+        {/* Folios */}
+        <PermissionGate resource="folio" action="read" scope="property" hideOnDenied>
+          <FolioPanel reservationId={reservationId} />
+        </PermissionGate>
+
+        {/* Payments & Deposits */}
+        <PermissionGate resource="payment" action="read" scope="property" hideOnDenied>
+          <PaymentsPanel reservationId={reservationId} />
+        </PermissionGate>
+
         {/* Quick Create Templates */}
         <div className="bg-white border rounded-lg p-6">
           <h3 className="font-semibold text-charcoal mb-4">Quick Create from Templates</h3>
@@ -0,0 +1,54 @@
+import api from './api';
+
+export type ApprovalSubjectType = 'VACATION';
+
+interface Person {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface ApprovalStep {
+  id: string;
+  position: number;
+  name: string;
+  approverId: string;
+  // Set when the step was handed on by delegation or escalation
+  originalApproverId: string | null;
+  status: 'WAITING' | 'PENDING' | 'APPROVED' | 'REJECTED' | 'SKIPPED';
+  decidedAt: string | null;
+  comment: string | null;
+  approver: Person;
+}
+
+export interface ApprovalRequest {
+  id: string;
+  subjectType: ApprovalSubjectType;
+  subjectId: string;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+  currentPosition: number;
+  summary: string;
+  createdAt: string;
+  requester: Person;
+  steps: ApprovalStep[];
+}
+
+class ApprovalService {
+  // Requests waiting on the current user
+  async getInbox() {
+    const response = await api.get('/approvals/inbox');
+    return response.data;
+  }
+
+  async approve(id: string, comment?: string) {
+    const response = await api.post(`/approvals/${id}/approve`, { comment });
+    return response.data;
+  }
+
+  async reject(id: string, comment?: string) {
+    const response = await api.post(`/approvals/${id}/reject`, { comment });
+    return response.data;
+  }
+}
+
+export const approvalService = new ApprovalService();
@@ -13,6 +13,32 @@ import {
   HotelStats,
   RoomAvailability,
   RoomType,
+  RatePlan,
+  CreateRatePlanInput,
+  RateQuote,
+  RateQuoteInput,
+  InventoryMatrix,
+  ReservationTimeline,
+  MoveReservationInput,
+  RoomMoveInput,
+  StaySegment,
+  ReservationGroup,
+  ReservationGroupStatus,
+  CreateReservationGroupInput,
+  RoomBlockInput,
+  RoomingListImportResult,
+  GroupActionResult,
+  GroupBillingSummary,
+  Folio,
+  FolioPdfStatus,
+  PostFolioChargeInput,
+  ReservationPaymentSummary,
+  RecordPaymentInput,
+  CreateDepositInput,
+  HousekeepingBoard,
+  HousekeepingBoardFilter,
+  HotelKpiReport,
+  KpiReportFilter,
 } from '../types/hotel';
 
 export interface ApiResponse<T> {
@@ -38,7 +64,7 @@ class HotelService {
       capacity: unit.maxOccupancy || unit.capacity, // Map maxOccupancy to capacity
       rate: unit.dailyRate || unit.rate || 0, // Map dailyRate to rate
       type: unit.type || (unit.unitType ? { name: unit.unitType } : undefined), // Handle type mapping
-      housekeepingStatus: unit.housekeepingStatus || 'CLEAN', // Default housekeeping status
+      housekeepingStatus: unit.housekeepingStatus || 'INSPECTED', // Units default to inspected
       maintenanceIssues: unit.maintenanceIssues || [], // Default to empty array
     };
   }
@@ -238,6 +264,70 @@ class HotelService {
     return resp.data;
   }
 
+  async getRoomTypeInventory(startDate: string, endDate: string): Promise<ApiResponse<InventoryMatrix>> {
+    const params = new URLSearchParams({ startDate, endDate });
+    const response = await api.get(`/room-types/inventory?${params.toString()}`);
+    return response.data;
+  }
+
+  // Rate Plans
+  private transformRatePlan = (plan: any): RatePlan => {
+    const toNumberOrNull = (value: any) => (value === null || value === undefined ? null : Number(value));
+    return {
+      ...plan,
+      baseRate: toNumberOrNull(plan?.baseRate),
+      extraAdultRate: toNumberOrNull(plan?.extraAdultRate),
+      extraChildRate: toNumberOrNull(plan?.extraChildRate),
+      packageRate: toNumberOrNull(plan?.packageRate),
+      inclusions: Array.isArray(plan?.inclusions) ? plan.inclusions : [],
+      seasons: (plan?.seasons || []).map((season: any) => ({
+        ...season,
+        startDate: String(season.startDate).split('T')[0],
+        endDate: String(season.endDate).split('T')[0],
+        nightlyRate: Number(season.nightlyRate ?? 0),
+      })),
+    } as RatePlan;
+  };
+
+  async getRatePlans(roomTypeId?: string): Promise<ApiResponse<RatePlan[]>> {
+    const params = new URLSearchParams();
+    if (roomTypeId) params.append('roomTypeId', roomTypeId);
+    const response = await api.get(`/rate-plans?${params.toString()}`);
+    return {
+      ...response.data,
+      data: (response.data?.data || []).map((plan: any) => this.transformRatePlan(plan))
+    };
+  }
+
+  async createRatePlan(input: CreateRatePlanInput): Promise<ApiResponse<RatePlan>> {
+    const response = await api.post('/rate-plans', input);
+    return {
+      ...response.data,
+      data: this.transformRatePlan(response.data?.data)
+    };
+  }
+
+  async updateRatePlan(id: string, input: Partial<CreateRatePlanInput>): Promise<ApiResponse<RatePlan>> {
+    // Room type is fixed once the plan exists
+    const payload: any = { ...input };
+    delete payload.roomTypeId;
+    const response = await api.patch(`/rate-plans/${id}`, payload);
+    return {
+      ...response.data,
+      data: this.transformRatePlan(response.data?.data)
+    };
+  }
+
+  async deleteRatePlan(id: string): Promise<ApiResponse<void>> {
+    const response = await api.delete(`/rate-plans/${id}`);
+    return response.data;
+  }
+
+  async getRateQuote(input: RateQuoteInput): Promise<ApiResponse<RateQuote>> {
+    const response = await api.post('/rate-plans/quote', input);
+    return response.data;
+  }
+
   async getRoomAvailability(startDate: Date, endDate: Date): Promise<ApiResponse<RoomAvailability[]>> {
     const response = await api.get(`/units/availability?startDate=${startDate.toISOString()}&endDate=${endDate.toISOString()}`);
     return response.data;
@@ -337,9 +427,6 @@ class HotelService {
     }
     const checkInISO = new Date(reservation.checkInDate).toISOString();
     const checkOutISO = new Date(reservation.checkOutDate).toISOString();
-    const msPerDay = 1000 * 60 * 60 * 24;
-    const nights = Math.max(1, Math.ceil((new Date(checkOutISO).getTime() - new Date(checkInISO).getTime()) / msPerDay));
-    const computedTotal = Number(reservation.rate ?? 0) * nights;
 
     const payload: any = {
       unitId: String(reservation.roomId), // backend expects unitId
@@ -349,8 +436,7 @@ class HotelService {
       adults: Number(reservation.adults ?? 1),
       children: Number(reservation.children ?? 0),
       status: 'CONFIRMED',
-      paymentStatus: 'PENDING',
-      totalAmount: computedTotal,
+      ratePlanId: reservation.ratePlanId || undefined, // total is priced by the backend
       paidAmount: 0,
       currency: 'USD',
       paymentMethod: reservation.paymentMethod,
@@ -375,6 +461,238 @@ class HotelService {
     };
   }
 
+  async getReservationTimeline(startDate: string, endDate: string): Promise<ApiResponse<ReservationTimeline>> {
+    const params = new URLSearchParams({ startDate, endDate });
+    const response = await api.get(`/reservations/timeline?${params.toString()}`);
+    return response.data;
+  }
+
+  async moveReservation(id: string, input: MoveReservationInput): Promise<ApiResponse<Reservation>> {
+    const response = await api.post(`/reservations/${id}/move`, input);
+    return {
+      ...response.data,
+      data: this.transformReservation(response.data?.data)
+    };
+  }
+
+  async roomMove(id: string, input: RoomMoveInput): Promise<ApiResponse<Reservation>> {
+    const response = await api.post(`/reservations/${id}/room-move`, input);
+    return {
+      ...response.data,
+      data: this.transformReservation(response.data?.data)
+    };
+  }
+
+  async getStaySegments(id: string): Promise<ApiResponse<StaySegment[]>> {
+    const response = await api.get(`/reservations/${id}/stay-segments`);
+    return response.data;
+  }
+
+  // Reservation Groups
+  private transformReservationGroup = (group: any): ReservationGroup => ({
+    ...group,
+    reservations: group?.reservations?.map((reservation: any) => this.transformReservation(reservation)),
+  });
+
+  async getReservationGroups(status?: ReservationGroupStatus): Promise<ApiResponse<ReservationGroup[]>> {
+    const params = new URLSearchParams();
+    if (status) params.append('status', status);
+    const response = await api.get(`/reservation-groups?${params.toString()}`);
+    return response.data;
+  }
+
+  async getReservationGroup(id: string): Promise<ApiResponse<ReservationGroup>> {
+    const response = await api.get(`/reservation-groups/${id}`);
+    return {
+      ...response.data,
+      data: this.transformReservationGroup(response.data?.data)
+    };
+  }
+
+  async createReservationGroup(input: CreateReservationGroupInput): Promise<ApiResponse<ReservationGroup>> {
+    const response = await api.post('/reservation-groups', input);
+    return {
+      ...response.data,
+      data: this.transformReservationGroup(response.data?.data)
+    };
+  }
+
+  async updateReservationGroup(id: string, input: Partial<CreateReservationGroupInput>): Promise<ApiResponse<ReservationGroup>> {
+    const response = await api.patch(`/reservation-groups/${id}`, input);
+    return {
+      ...response.data,
+      data: this.transformReservationGroup(response.data?.data)
+    };
+  }
+
+  async addRoomBlock(groupId: string, input: RoomBlockInput): Promise<ApiResponse<ReservationGroup>> {
+    const response = await api.post(`/reservation-groups/${groupId}/blocks`, input);
+    return {
+      ...response.data,
+      data: this.transformReservationGroup(response.data?.data)
+    };
+  }
+
+  async releaseRoomBlock(groupId: string, blockId: string): Promise<ApiResponse<ReservationGroup>> {
+    const response = await api.post(`/reservation-groups/${groupId}/blocks/${blockId}/release`);
+    return {
+      ...response.data,
+      data: this.transformReservationGroup(response.data?.data)
+    };
+  }
+
+  async importRoomingList(groupId: string, file: File, validateOnly = false): Promise<ApiResponse<RoomingListImportResult>> {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('validateOnly', String(validateOnly));
+
+    const response = await api.post(`/reservation-groups/${groupId}/rooming-list/csv`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+    return response.data;
+  }
+
+  async checkInReservationGroup(groupId: string, reservationIds?: string[]): Promise<ApiResponse<GroupActionResult>> {
+    const response = await api.post(`/reservation-groups/${groupId}/check-in`, reservationIds ? { reservationIds } : {});
+    return response.data;
+  }
+
+  async cancelReservationGroup(groupId: string, reason?: string): Promise<ApiResponse<GroupActionResult>> {
+    const response = await api.post(`/reservation-groups/${groupId}/cancel`, { reason });
+    return response.data;
+  }
+
+  async getGroupBilling(groupId: string): Promise<ApiResponse<GroupBillingSummary>> {
+    const response = await api.get(`/reservation-groups/${groupId}/billing`);
+    return response.data;
+  }
+
+  // Folios
+  async getReservationFolios(reservationId: string): Promise<ApiResponse<Folio[]>> {
+    const response = await api.get(`/folios/reservation/${reservationId}`);
+    return response.data;
+  }
+
+  async createFolio(reservationId: string, name: string): Promise<ApiResponse<Folio>> {
+    const response = await api.post(`/folios/reservation/${reservationId}`, { name });
+    return response.data;
+  }
+
+  async postFolioCharge(folioId: string, input: PostFolioChargeInput): Promise<ApiResponse<Folio>> {
+    const response = await api.post(`/folios/${folioId}/charges`, input);
+    return response.data;
+  }
+
+  async postFolioRoomCharges(folioId: string, throughDate?: string): Promise<ApiResponse<Folio>> {
+    const response = await api.post(`/folios/${folioId}/room-charges`, throughDate ? { throughDate } : {});
+    return response.data;
+  }
+
+  async voidFolioLine(folioId: string, lineId: string, reason: string): Promise<ApiResponse<Folio>> {
+    const response = await api.post(`/folios/${folioId}/lines/${lineId}/void`, { reason });
+    return response.data;
+  }
+
+  async transferFolioLine(folioId: string, lineId: string, targetFolioId: string, reason?: string): Promise<ApiResponse<Folio>> {
+    const response = await api.post(`/folios/${folioId}/lines/${lineId}/transfer`, { targetFolioId, reason });
+    return response.data;
+  }
+
+  async requestFolioPdf(folioId: string): Promise<ApiResponse<FolioPdfStatus>> {
+    const response = await api.post(`/folios/${folioId}/pdf`);
+    return response.data;
+  }
+
+  async getFolioPdfStatus(folioId: string): Promise<ApiResponse<FolioPdfStatus>> {
+    const response = await api.get(`/folios/${folioId}/pdf`);
+    return response.data;
+  }
+
+  // Payments
+  async getReservationPayments(reservationId: string): Promise<ApiResponse<ReservationPaymentSummary>> {
+    const response = await api.get(`/payments/reservation/${reservationId}`);
+    return response.data;
+  }
+
+  async recordPayment(reservationId: string, input: RecordPaymentInput): Promise<ApiResponse<ReservationPaymentSummary>> {
+    const response = await api.post(`/payments/reservation/${reservationId}`, input);
+    return response.data;
+  }
+
+  async refundPayment(transactionId: string, reason: string, amount?: number): Promise<ApiResponse<ReservationPaymentSummary>> {
+    const response = await api.post(`/payments/${transactionId}/refund`, { reason, amount });
+    return response.data;
+  }
+
+  async addDeposit(reservationId: string, input: CreateDepositInput): Promise<ApiResponse<ReservationPaymentSummary>> {
+    const response = await api.post(`/payments/reservation/${reservationId}/deposits`, input);
+    return response.data;
+  }
+
+  async waiveDeposit(depositId: string): Promise<ApiResponse<ReservationPaymentSummary>> {
+    const response = await api.post(`/payments/deposits/${depositId}/waive`);
+    return response.data;
+  }
+
+  // Housekeeping
+  async getHousekeepingBoard(filter?: HousekeepingBoardFilter): Promise<ApiResponse<HousekeepingBoard>> {
+    const params = new URLSearchParams();
+    if (filter?.date) params.append('date', filter.date);
+    if (filter?.building) params.append('building', filter.building);
+    if (filter?.floor !== undefined) params.append('floor', filter.floor.toString());
+
+    const response = await api.get(`/housekeeping/board?${params.toString()}`);
+    return response.data;
+  }
+
+  async markRoomDirty(unitId: string, notes?: string): Promise<ApiResponse<Room>> {
+    const response = await api.post(`/housekeeping/units/${unitId}/dirty`, { notes });
+    return { ...response.data, data: this.transformUnitToRoom(response.data?.data) };
+  }
+
+  async startCleaning(unitId: string): Promise<ApiResponse<Room>> {
+    const response = await api.post(`/housekeeping/units/${unitId}/start`);
+    return { ...response.data, data: this.transformUnitToRoom(response.data?.data) };
+  }
+
+  async finishCleaning(unitId: string, notes?: string): Promise<ApiResponse<Room>> {
+    const response = await api.post(`/housekeeping/units/${unitId}/finish`, { notes });
+    return { ...response.data, data: this.transformUnitToRoom(response.data?.data) };
+  }
+
+  async inspectRoom(unitId: string, passed: boolean, notes?: string): Promise<ApiResponse<Room>> {
+    const response = await api.post(`/housekeeping/units/${unitId}/inspect`, { passed, notes });
+    return { ...response.data, data: this.transformUnitToRoom(response.data?.data) };
+  }
+
+  async assignHousekeepingTask(taskId: string, assignedToId: string): Promise<ApiResponse<unknown>> {
+    const response = await api.post(`/housekeeping/tasks/${taskId}/assign`, { assignedToId });
+    return response.data;
+  }
+
+  // Reports
+  private kpiReportParams(filter: KpiReportFilter): URLSearchParams {
+    const params = new URLSearchParams({ startDate: filter.startDate, endDate: filter.endDate });
+    if (filter.roomTypeId) params.append('roomTypeId', filter.roomTypeId);
+    if (filter.compareLastYear !== undefined) params.append('compareLastYear', String(filter.compareLastYear));
+    if (filter.pickupDays) params.append('pickupDays', filter.pickupDays.toString());
+    return params;
+  }
+
+  async getKpiReport(filter: KpiReportFilter): Promise<ApiResponse<HotelKpiReport>> {
+    const response = await api.get(`/reports/kpis?${this.kpiReportParams(filter).toString()}`);
+    return response.data;
+  }
+
+  async exportKpiReport(filter: KpiReportFilter): Promise<Blob> {
+    const response = await api.get(`/reports/kpis/csv?${this.kpiReportParams(filter).toString()}`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  }
+
   async cancelReservation(id: string, reason: string): Promise<ApiResponse<Reservation>> {
     const response = await api.post(`/reservations/${id}/cancel`, { reason });
     return {
@@ -0,0 +1,159 @@
+import api from './api';
+
+interface Person {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface ShiftTemplate {
+  id: string;
+  departmentId: string;
+  name: string;
+  startTime: string;
+  endTime: string;
+  breakMinutes: number;
+  position: string | null;
+  color: string | null;
+  isActive: boolean;
+}
+
+export interface Shift {
+  id: string;
+  rosterId: string;
+  templateId: string | null;
+  userId: string | null;
+  date: string;
+  startTime: string;
+  endTime: string;
+  breakMinutes: number;
+  position: string | null;
+  notes: string | null;
+  user: Person | null;
+  template: { id: string; name: string; color: string | null } | null;
+}
+
+export interface ShiftConflict {
+  kind: 'LEAVE' | 'OVERLAP' | 'MAX_HOURS';
+  // Blocking conflicts stop an assignment or a publish; the rest are warnings
+  blocking: boolean;
+  message: string;
+}
+
+export type StaffMember = Person & { position: string | null };
+
+export interface Roster {
+  id: string;
+  departmentId: string;
+  weekStart: string;
+  status: 'DRAFT' | 'PUBLISHED';
+  publishedAt: string | null;
+  department: { id: string; name: string };
+  shifts: Shift[];
+  staff: StaffMember[];
+  // Keyed by shift id
+  conflicts: Record<string, ShiftConflict[]>;
+  maxWeeklyHours: number;
+}
+
+export interface Colleague extends StaffMember {
+  // Their upcoming published shifts, which can be offered in return
+  shifts: Pick<Shift, 'id' | 'date' | 'startTime' | 'endTime'>[];
+}
+
+export interface ShiftPlacement {
+  templateId?: string;
+  userId?: string | null;
+  date: string;
+}
+
+export interface ShiftSwap {
+  id: string;
+  shiftId: string;
+  requesterId: string;
+  targetUserId: string;
+  targetShiftId: string | null;
+  status: 'PENDING' | 'ACCEPTED' | 'APPROVED' | 'DECLINED' | 'REJECTED' | 'CANCELLED';
+  reason: string | null;
+  comment: string | null;
+  createdAt: string;
+  shift: Omit<Shift, 'user' | 'template'>;
+  targetShift: Omit<Shift, 'user' | 'template'> | null;
+  requester: Person;
+  targetUser: Person;
+}
+
+export interface ShiftSwapInput {
+  shiftId: string;
+  targetUserId: string;
+  targetShiftId?: string;
+  reason?: string;
+}
+
+class ShiftService {
+  async getTemplates(departmentId?: string) {
+    const params = departmentId ? `?departmentId=${departmentId}` : '';
+    const response = await api.get(`/shift-templates${params}`);
+    return response.data;
+  }
+
+  // Null data when the department has no roster for the week yet
+  async getRoster(departmentId: string, weekStart: string) {
+    const params = new URLSearchParams({ departmentId, weekStart });
+    const response = await api.get(`/rosters?${params.toString()}`);
+    return response.data;
+  }
+
+  async createRoster(departmentId: string, weekStart: string) {
+    const response = await api.post('/rosters', { departmentId, weekStart });
+    return response.data;
+  }
+
+  async publishRoster(id: string) {
+    const response = await api.post(`/rosters/${id}/publish`);
+    return response.data;
+  }
+
+  async addShift(rosterId: string, placement: ShiftPlacement) {
+    const response = await api.post(`/rosters/${rosterId}/shifts`, placement);
+    return response.data;
+  }
+
+  async moveShift(shiftId: string, placement: Omit<ShiftPlacement, 'templateId'>) {
+    const response = await api.patch(`/rosters/shifts/${shiftId}`, placement);
+    return response.data;
+  }
+
+  async removeShift(shiftId: string) {
+    const response = await api.delete(`/rosters/shifts/${shiftId}`);
+    return response.data;
+  }
+
+  async getMyShifts(from: string, to: string) {
+    const params = new URLSearchParams({ from, to });
+    const response = await api.get(`/rosters/my-shifts?${params.toString()}`);
+    return response.data;
+  }
+
+  async getColleagues() {
+    const response = await api.get('/rosters/colleagues');
+    return response.data;
+  }
+
+  async getSwaps() {
+    const response = await api.get('/shift-swaps');
+    return response.data;
+  }
+
+  async requestSwap(swap: ShiftSwapInput) {
+    const response = await api.post('/shift-swaps', swap);
+    return response.data;
+  }
+
+  async respondToSwap(id: string, action: 'accept' | 'decline' | 'approve' | 'reject' | 'cancel', comment?: string) {
+    const response = await api.post(`/shift-swaps/${id}/${action}`, { comment });
+    return response.data;
+  }
+}
+
+export const shiftService = new ShiftService();
@@ -0,0 +1,76 @@
+import api from './api';
+
+export interface LeaveDay {
+  date: string;
+  charged: number;
+  // Why less than a full day is charged, e.g. a weekend or public holiday
+  note: string | null;
+}
+
+export interface LeaveDayCount {
+  days: number;
+  breakdown: LeaveDay[];
+}
+
+export interface LeaveDaysQuery {
+  startDate: string;
+  endDate: string;
+  halfDayStart?: boolean;
+  halfDayEnd?: boolean;
+}
+
+export interface TeamCalendarAbsence {
+  id: string;
+  userId: string;
+  name: string;
+  position: string | null;
+  type: 'ANNUAL' | 'SICK' | 'PERSONAL' | 'UNPAID';
+  status: 'APPROVED' | 'PENDING';
+  startDate: string;
+  endDate: string;
+  days: string | null;
+}
+
+export interface CoverageRule {
+  id: string;
+  name: string;
+  type: 'MAX_ABSENT' | 'BLACKOUT';
+  enforcement: 'WARN' | 'BLOCK';
+  departmentId: string | null;
+  maxAbsent: number | null;
+  position: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  leaveTypes: string[];
+}
+
+export interface TeamCalendar {
+  departmentId: string;
+  from: string;
+  to: string;
+  absences: TeamCalendarAbsence[];
+  days: { date: string; approved: number; pending: number }[];
+  rules: CoverageRule[];
+}
+
+class VacationService {
+  // Days a request would be charged, after work week, holidays and half days
+  async countWorkingDays(query: LeaveDaysQuery) {
+    const params = new URLSearchParams({ startDate: query.startDate, endDate: query.endDate });
+    if (query.halfDayStart) params.append('halfDayStart', 'true');
+    if (query.halfDayEnd) params.append('halfDayEnd', 'true');
+
+    const response = await api.get(`/vacation/working-days?${params.toString()}`);
+    return response.data;
+  }
+
+  async getTeamCalendar(from: string, to: string, departmentId?: string) {
+    const params = new URLSearchParams({ from, to });
+    if (departmentId) params.append('departmentId', departmentId);
+
+    const response = await api.get(`/vacation/team-calendar?${params.toString()}`);
+    return response.data;
+  }
+}
+
+export const vacationService = new VacationService();
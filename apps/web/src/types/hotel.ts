@@ -20,7 +20,8 @@ export interface Room {
   notes?: string;
   dailyRate?: number; // Backend field name
   rate?: number; // For backward compatibility
-  housekeepingStatus?: HousekeepingStatus; // Optional since backend doesn't have this
+  housekeepingStatus?: HousekeepingStatus;
+  housekeepingUpdatedAt?: string;
   lastCleaned?: Date;
   maintenanceIssues?: MaintenanceIssue[]; // Optional since backend might not include this
   createdAt: Date;
@@ -39,6 +40,389 @@ export interface RoomType {
   image?: string;
 }
 
+export type RatePlanType = 'BAR' | 'NON_REFUNDABLE' | 'CORPORATE' | 'PACKAGE';
+
+export interface RateSeason {
+  id?: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  nightlyRate: number;
+  dayOfWeekModifiers?: Record<string, number> | null;
+  minLengthOfStay?: number | null;
+  maxLengthOfStay?: number | null;
+}
+
+export interface RatePlan {
+  id: string;
+  roomTypeId: string;
+  code: string;
+  name: string;
+  description?: string;
+  planType: RatePlanType;
+  currency: string;
+  baseRate?: number | null;
+  dayOfWeekModifiers?: Record<string, number> | null;
+  minLengthOfStay?: number | null;
+  maxLengthOfStay?: number | null;
+  baseOccupancy: number;
+  extraAdultRate?: number | null;
+  extraChildRate?: number | null;
+  packageRate?: number | null;
+  inclusions: string[];
+  isRefundable: boolean;
+  isDefault: boolean;
+  isActive: boolean;
+  seasons: RateSeason[];
+}
+
+export type CreateRatePlanInput = Omit<RatePlan, 'id' | 'isActive' | 'seasons'> & {
+  seasons?: RateSeason[];
+};
+
+export interface NightlyRate {
+  date: string;
+  seasonName: string | null;
+  baseRate: number;
+  dayOfWeekModifier: number;
+  roomRate: number;
+  occupancySurcharge: number;
+  packageRate: number;
+  total: number;
+}
+
+export interface RateQuote {
+  ratePlanId: string | null;
+  ratePlanCode: string | null;
+  roomTypeId: string | null;
+  currency: string;
+  checkInDate: string;
+  checkOutDate: string;
+  numberOfNights: number;
+  nights: NightlyRate[];
+  roomTotal: number;
+  surchargeTotal: number;
+  packageTotal: number;
+  totalAmount: number;
+  averageNightlyRate: number;
+  isBookable: boolean;
+  restrictionViolations: string[];
+}
+
+export interface RateQuoteInput {
+  unitId?: string;
+  roomTypeId?: string;
+  ratePlanId?: string;
+  checkInDate: string;
+  checkOutDate: string;
+  adults: number;
+  children?: number;
+}
+
+export interface InventoryCell {
+  date: string;
+  total: number;
+  sold: number;
+  outOfOrder: number;
+  blocked: number;
+  available: number;
+}
+
+export interface RoomTypeInventory {
+  roomTypeId: string | null;
+  code: string | null;
+  name: string;
+  days: InventoryCell[];
+}
+
+export interface InventoryMatrix {
+  startDate: string;
+  endDate: string;
+  dates: string[];
+  roomTypes: RoomTypeInventory[];
+  totals: InventoryCell[];
+}
+
+export interface TimelineUnit {
+  id: string;
+  unitNumber: string;
+  unitType: string;
+  roomTypeId: string | null;
+  roomTypeName: string | null;
+  status: string;
+  maxOccupancy: number;
+}
+
+export interface TimelineReservation {
+  id: string;
+  unitId: string;
+  reservationNumber: string;
+  guestName: string;
+  checkInDate: string;
+  checkOutDate: string;
+  status: ReservationStatus;
+  adults: number;
+  children: number;
+}
+
+export interface ReservationTimeline {
+  startDate: string;
+  endDate: string;
+  units: TimelineUnit[];
+  reservations: TimelineReservation[];
+}
+
+export interface MoveReservationInput {
+  unitId?: string;
+  checkInDate?: string;
+  checkOutDate?: string;
+}
+
+export interface RoomMoveInput {
+  unitId: string;
+  reason?: string;
+  movedAt?: string;
+}
+
+export interface StaySegment {
+  id: string;
+  reservationId: string;
+  unitId: string;
+  unit: { id: string; unitNumber: string; unitType: string };
+  startDate: string;
+  endDate: string | null;
+  reason?: string;
+  movedBy?: string;
+}
+
+export type ReservationGroupType = 'WEDDING' | 'CORPORATE' | 'TOUR' | 'CONFERENCE' | 'OTHER';
+export type ReservationGroupStatus = 'TENTATIVE' | 'DEFINITE' | 'CANCELLED' | 'COMPLETED';
+export type GroupBillingType = 'MASTER_ACCOUNT' | 'INDIVIDUAL';
+
+export interface RoomBlockInput {
+  roomTypeId: string;
+  ratePlanId?: string;
+  startDate: string;
+  endDate: string;
+  roomsBlocked: number;
+  releaseDate: string;
+}
+
+export interface RoomBlock extends RoomBlockInput {
+  id: string;
+  releasedAt: string | null;
+  roomType: { id: string; code: string; name: string };
+  pickedUp: number;
+  remaining: number;
+  isReleased: boolean;
+}
+
+export interface ReservationGroup {
+  id: string;
+  groupCode: string;
+  name: string;
+  groupType: ReservationGroupType;
+  status: ReservationGroupStatus;
+  billingType: GroupBillingType;
+  contactName?: string;
+  contactEmail?: string;
+  contactPhone?: string;
+  arrivalDate: string;
+  departureDate: string;
+  notes?: string;
+  blocks?: RoomBlock[];
+  reservations?: Reservation[];
+  roomsBlocked?: number;
+  reservationCount?: number;
+}
+
+export interface CreateReservationGroupInput {
+  name: string;
+  groupCode?: string;
+  groupType?: ReservationGroupType;
+  status?: ReservationGroupStatus;
+  billingType?: GroupBillingType;
+  contactName?: string;
+  contactEmail?: string;
+  contactPhone?: string;
+  arrivalDate: string;
+  departureDate: string;
+  notes?: string;
+  blocks?: RoomBlockInput[];
+}
+
+export interface RoomingListImportResult {
+  successCount: number;
+  failureCount: number;
+  successful: { row: number; guestName: string; reservationId?: string; unitNumber: string; status: string }[];
+  failed: { row: number; guestName: string; error: string }[];
+}
+
+export interface GroupActionResult {
+  succeeded: string[];
+  failed: { reservationId: string; reservationNumber: string; error: string }[];
+}
+
+export interface GroupBillingSummary {
+  groupId: string;
+  billingType: GroupBillingType;
+  currency: string;
+  reservationCount: number;
+  roomTotal: number;
+  chargesTotal: number;
+  paidTotal: number;
+  balance: number;
+  masterAccountTotal: number;
+  guestAccountTotal: number;
+  lines: {
+    reservationId: string;
+    reservationNumber: string;
+    guestName: string;
+    unitNumber: string;
+    status: string;
+    totalAmount: number;
+    roomAmount: number;
+    paidAmount: number;
+    balance: number;
+    billedTo: 'MASTER' | 'GUEST';
+  }[];
+}
+
+export type FolioStatus = 'OPEN' | 'CLOSED';
+export type FolioChargeCategory =
+  | 'ROOM'
+  | 'FOOD_BEVERAGE'
+  | 'SPA'
+  | 'CONCIERGE'
+  | 'TAX'
+  | 'MISC'
+  | 'ADJUSTMENT'
+  | 'PAYMENT'
+  | 'CANCELLATION';
+export type FolioLineStatus = 'POSTED' | 'VOIDED' | 'TRANSFERRED';
+
+export interface FolioLine {
+  id: string;
+  folioId: string;
+  category: FolioChargeCategory;
+  status: FolioLineStatus;
+  description: string;
+  quantity: number;
+  unitAmount: number;
+  amount: number;
+  serviceDate: string;
+  reference?: string;
+  parentLineId?: string;
+  transferredFromLineId?: string;
+  voidReason?: string;
+  voidedAt?: string;
+  transferredAt?: string;
+  createdAt: string;
+}
+
+export interface FolioTotals {
+  charges: number;
+  credits: number;
+  balance: number;
+  byCategory: Partial<Record<FolioChargeCategory, number>>;
+}
+
+export interface Folio {
+  id: string;
+  reservationId: string;
+  folioNumber: string;
+  name: string;
+  isPrimary: boolean;
+  status: FolioStatus;
+  currency: string;
+  closedAt?: string;
+  lines: FolioLine[];
+  totals: FolioTotals;
+}
+
+export interface PostFolioChargeInput {
+  category: FolioChargeCategory;
+  description: string;
+  quantity?: number;
+  unitAmount: number;
+  serviceDate?: string;
+  reference?: string;
+  taxRate?: number;
+}
+
+export interface FolioPdfStatus {
+  folioId: string;
+  status: 'NOT_REQUESTED' | 'PENDING' | 'READY';
+  requestedAt: string | null;
+  generatedAt: string | null;
+  downloadUrl: string | null;
+}
+
+export type PaymentTransactionType = 'PAYMENT' | 'DEPOSIT' | 'REFUND';
+export type PaymentTransactionStatus = 'PENDING' | 'CAPTURED' | 'FAILED';
+export type PaymentMethodType = 'CASH' | 'CARD' | 'BANK_TRANSFER' | 'OTHER';
+export type DepositStatus = 'PENDING' | 'PAID' | 'WAIVED';
+
+export interface PaymentTransaction {
+  id: string;
+  reservationId: string;
+  type: PaymentTransactionType;
+  status: PaymentTransactionStatus;
+  method: PaymentMethodType;
+  amount: number;
+  currency: string;
+  reference?: string;
+  provider: string;
+  providerReference?: string;
+  failureReason?: string;
+  originalTransactionId?: string;
+  depositId?: string;
+  notes?: string;
+  capturedAt?: string;
+  createdAt: string;
+  refundableAmount: number;
+}
+
+export interface ReservationDeposit {
+  id: string;
+  reservationId: string;
+  amount: number;
+  dueDate: string;
+  description?: string;
+  status: DepositStatus;
+  paidAt?: string;
+  paidAmount: number;
+  isOverdue: boolean;
+}
+
+export interface ReservationPaymentSummary {
+  reservationId: string;
+  currency: string;
+  totalAmount: number;
+  paidAmount: number;
+  refundedAmount: number;
+  balance: number;
+  paymentStatus: PaymentStatus;
+  transactions: PaymentTransaction[];
+  deposits: ReservationDeposit[];
+}
+
+export interface RecordPaymentInput {
+  amount: number;
+  method: PaymentMethodType;
+  type?: 'PAYMENT' | 'DEPOSIT';
+  depositId?: string;
+  paymentToken?: string;
+  reference?: string;
+  notes?: string;
+}
+
+export interface CreateDepositInput {
+  amount: number;
+  dueDate: string;
+  description?: string;
+}
+
 export type RoomStatus = 
   | 'AVAILABLE' 
   | 'OCCUPIED' 
@@ -48,10 +432,101 @@ export type RoomStatus =
   | 'RESERVED';
 
 export type HousekeepingStatus = 
-  | 'CLEAN' 
   | 'DIRTY' 
-  | 'INSPECTED' 
-  | 'OUT_OF_ORDER';
+  | 'CLEANING' 
+  | 'CLEAN' 
+  | 'INSPECTED';
+
+export type UnitOccupancy = 'VACANT' | 'ARRIVAL' | 'STAYOVER' | 'DEPARTURE' | 'TURNOVER' | 'DEPARTED';
+
+export interface HousekeepingBoardUnit {
+  id: string;
+  unitNumber: string;
+  unitType: string;
+  building: string | null;
+  floor: number | null;
+  status: RoomStatus;
+  housekeepingStatus: HousekeepingStatus;
+  housekeepingUpdatedAt: string | null;
+  occupancy: UnitOccupancy;
+  task: {
+    id: string;
+    status: string;
+    priority: string;
+    assignedTo: { id: string; firstName: string; lastName: string } | null;
+  } | null;
+}
+
+export interface HousekeepingBoard {
+  date: string;
+  summary: Record<HousekeepingStatus, number> & { arrivalsNotReady: number };
+  floors: {
+    building: string | null;
+    floor: number | null;
+    units: HousekeepingBoardUnit[];
+  }[];
+}
+
+export interface HousekeepingBoardFilter {
+  date?: string;
+  building?: string;
+  floor?: number;
+}
+
+export interface KpiPeriod {
+  startDate: string;
+  endDate: string;
+}
+
+export interface KpiMetrics {
+  roomNightsAvailable: number;
+  roomNightsSold: number;
+  occupancyRate: number;
+  roomRevenue: number;
+  adr: number;
+  revpar: number;
+  arrivals: number;
+  averageLengthOfStay: number;
+  averageLeadTime: number;
+}
+
+export interface RoomTypeKpis {
+  roomTypeId: string | null;
+  roomTypeName: string;
+  rooms: number;
+  current: KpiMetrics;
+  lastYear: KpiMetrics | null;
+}
+
+export interface HotelKpiReport {
+  period: KpiPeriod;
+  comparisonPeriod: KpiPeriod | null;
+  rooms: number;
+  current: KpiMetrics;
+  lastYear: KpiMetrics | null;
+  byRoomType: RoomTypeKpis[];
+  sourceMix: {
+    source: string;
+    bookings: number;
+    roomNights: number;
+    roomRevenue: number;
+    share: number;
+  }[];
+  pickup: {
+    since: string;
+    bookings: number;
+    roomNights: number;
+    roomRevenue: number;
+  };
+}
+
+export interface KpiReportFilter {
+  startDate: string;
+  endDate: string;
+  roomTypeId?: string;
+  compareLastYear?: boolean;
+  pickupDays?: number;
+}
 
 export interface MaintenanceIssue {
   id: string;
@@ -114,6 +589,8 @@ export interface Reservation {
   guestId: string;
   room?: Room;
   roomId?: string;
+  unit?: Room; // Backend field name
+  unitId?: string; // Backend field name
   roomType: RoomType;
   checkInDate: Date;
   checkOutDate: Date;
@@ -274,6 +751,7 @@ export interface CreateReservationInput {
   guest?: CreateGuestInput;
   roomTypeId: string;
   roomId?: string;
+  ratePlanId?: string;
   checkInDate: Date;
   checkOutDate: Date;
   numberOfGuests: number;
@@ -0,0 +1,101 @@
+import { Job } from 'bull';
+import { PrismaClient } from '@prisma/client';
+import { ApprovalReminderProcessor } from './approval-reminder.processor';
+
+jest.mock('../services/logger.service', () => ({
+  Logger: jest.fn().mockImplementation(() => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() })),
+}));
+
+describe('ApprovalReminderProcessor', () => {
+  const now = new Date('2025-08-10T12:00:00Z');
+
+  const step = {
+    id: 'step-1',
+    name: 'Manager approval',
+    approverId: 'manager-1',
+    originalApproverId: null,
+    escalationRole: 'PROPERTY_MANAGER',
+    activatedAt: new Date('2025-08-10T10:00:00Z'),
+    remindedAt: null,
+    escalatedAt: null,
+    reminderHours: 24,
+    escalateAfterHours: null,
+    request: {
+      id: 'request-1',
+      propertyId: 'property-1',
+      requesterId: 'requester-1',
+      subjectType: 'VACATION',
+      subjectId: 'vacation-1',
+      summary: 'Annual leave',
+      requester: { firstName: 'Ana', lastName: 'Silva' },
+    },
+  };
+
+  const delegation = (delegatorId: string, delegateId: string) => ({
+    delegatorId,
+    delegateId,
+    startDate: new Date('2025-08-01T00:00:00Z'),
+    endDate: new Date('2025-08-31T00:00:00Z'),
+  });
+
+  let prisma: any;
+  let processor: ApprovalReminderProcessor;
+
+  const runSweep = () => processor.process({ data: {} } as Job);
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(now);
+
+    prisma = {
+      approvalStep: {
+        findMany: jest.fn().mockResolvedValue([step]),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      approvalDelegation: { findMany: jest.fn().mockResolvedValue([]) },
+      user: { findFirst: jest.fn().mockResolvedValue({ id: 'gm-1' }) },
+      notification: { create: jest.fn().mockResolvedValue({}) },
+    };
+
+    processor = new ApprovalReminderProcessor(prisma as PrismaClient);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('moves a waiting step to the delegate of an approver who is away', async () => {
+    prisma.approvalDelegation.findMany.mockResolvedValue([delegation('manager-1', 'deputy-1')]);
+
+    await expect(runSweep()).resolves.toEqual({ remindedCount: 0, escalatedCount: 0, delegatedCount: 1 });
+
+    expect(prisma.approvalStep.update).toHaveBeenCalledWith({
+      where: { id: 'step-1' },
+      data: { approverId: 'deputy-1', originalApproverId: 'manager-1' },
+    });
+  });
+
+  it('never hands a request to its own requester', async () => {
+    prisma.approvalDelegation.findMany.mockResolvedValue([delegation('manager-1', 'requester-1')]);
+
+    await runSweep();
+
+    expect(prisma.user.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ role: 'PROPERTY_MANAGER', id: { not: 'requester-1' } }),
+      })
+    );
+    expect(prisma.approvalStep.update).toHaveBeenCalledWith({
+      where: { id: 'step-1' },
+      data: { approverId: 'gm-1', originalApproverId: 'manager-1' },
+    });
+  });
+
+  it('leaves the step with its approver when nobody else can take it', async () => {
+    prisma.approvalDelegation.findMany.mockResolvedValue([delegation('manager-1', 'requester-1')]);
+    prisma.user.findFirst.mockResolvedValue(null);
+
+    await expect(runSweep()).resolves.toEqual({ remindedCount: 0, escalatedCount: 0, delegatedCount: 0 });
+
+    expect(prisma.approvalStep.update).not.toHaveBeenCalled();
+  });
+});
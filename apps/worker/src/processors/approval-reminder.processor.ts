@@ -0,0 +1,194 @@
+import { Job } from 'bull';
+import { ApprovalStep, PrismaClient } from '@prisma/client';
+import { DelegationWindow, activeDelegate } from '@staffnbdt/shared';
+import { Logger } from '../services/logger.service';
+
+export type ReminderAction = 'remind' | 'escalate';
+
+export interface ApprovalReminderResult {
+  remindedCount: number;
+  escalatedCount: number;
+  delegatedCount: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * What a step still waiting on its approver needs: escalation once it has
+ * waited escalateAfterHours (only once), otherwise a reminder every reminderHours.
+ */
+export function reminderAction(
+  step: Pick<ApprovalStep, 'activatedAt' | 'remindedAt' | 'escalatedAt' | 'reminderHours' | 'escalateAfterHours'>,
+  now: Date,
+): ReminderAction | null {
+  if (!step.activatedAt) return null;
+
+  const waiting = now.getTime() - step.activatedAt.getTime();
+  if (step.escalateAfterHours !== null && !step.escalatedAt && waiting >= step.escalateAfterHours * HOUR_MS) {
+    return 'escalate';
+  }
+
+  const lastNudge = Math.max(
+    step.activatedAt.getTime(),
+    step.remindedAt?.getTime() ?? 0,
+    step.escalatedAt?.getTime() ?? 0,
+  );
+  if (step.reminderHours > 0 && now.getTime() - lastNudge >= step.reminderHours * HOUR_MS) {
+    return 'remind';
+  }
+
+  return null;
+}
+
+export class ApprovalReminderProcessor {
+  private readonly logger = new Logger('ApprovalReminderProcessor');
+
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Sweeps the steps waiting on an approver: steps whose approver has since
+   * delegated move to the delegate, stale steps escalate to someone with the
+   * step's escalation role, and the rest get periodic reminders.
+   */
+  async process(_job: Job): Promise<ApprovalReminderResult> {
+    const now = new Date();
+    const result: ApprovalReminderResult = { remindedCount: 0, escalatedCount: 0, delegatedCount: 0 };
+
+    const [steps, delegations] = await Promise.all([
+      this.prisma.approvalStep.findMany({
+        where: { status: 'PENDING', request: { status: 'PENDING' } },
+        include: {
+          request: {
+            include: { requester: { select: { firstName: true, lastName: true } } },
+          },
+        },
+      }),
+      this.prisma.approvalDelegation.findMany({
+        where: { startDate: { lte: now }, endDate: { gte: now } },
+      }),
+    ]);
+
+    for (const step of steps) {
+      try {
+        const { request } = step;
+        const requesterName = `${request.requester.firstName} ${request.requester.lastName}`;
+        const notify = (userId: string, type: string, title: string, message: string) =>
+          this.prisma.notification.create({
+            data: {
+              userId,
+              propertyId: request.propertyId,
+              type,
+              title,
+              message,
+              data: { approvalRequestId: request.id, subjectType: request.subjectType, subjectId: request.subjectId },
+            },
+          });
+
+        const delegateId = await this.delegateFor(step, delegations, now);
+        if (delegateId !== step.approverId) {
+          await this.prisma.approvalStep.update({
+            where: { id: step.id },
+            data: { approverId: delegateId, originalApproverId: step.originalApproverId ?? step.approverId },
+          });
+          await notify(delegateId, 'APPROVAL_REQUESTED', `Approval needed: ${step.name}`, `${requesterName}: ${request.summary}`);
+          result.delegatedCount++;
+          continue;
+        }
+
+        const action = reminderAction(step, now);
+        if (action === 'remind') {
+          await this.prisma.approvalStep.update({
+            where: { id: step.id },
+            data: { remindedAt: now, reminderCount: { increment: 1 } },
+          });
+          await notify(
+            step.approverId,
+            'APPROVAL_REMINDER',
+            `Still waiting for your approval: ${step.name}`,
+            `${requesterName}: ${request.summary}`,
+          );
+          result.remindedCount++;
+        } else if (action === 'escalate') {
+          const escalateTo = await this.prisma.user.findFirst({
+            where: {
+              propertyId: request.propertyId,
+              role: step.escalationRole,
+              deletedAt: null,
+              id: { notIn: [request.requesterId, step.approverId] },
+            },
+            select: { id: true },
+            orderBy: { createdAt: 'asc' },
+          });
+
+          // Marked as escalated either way so the sweep does not retry every run
+          await this.prisma.approvalStep.update({
+            where: { id: step.id },
+            data: {
+              escalatedAt: now,
+              ...(escalateTo && {
+                approverId: escalateTo.id,
+                originalApproverId: step.originalApproverId ?? step.approverId,
+              }),
+            },
+          });
+
+          if (!escalateTo) {
+            this.logger.warn('Stale approval has nobody to escalate to', {
+              approvalRequestId: request.id,
+              escalationRole: step.escalationRole,
+            });
+            continue;
+          }
+
+          await notify(
+            escalateTo.id,
+            'APPROVAL_ESCALATED',
+            `Approval escalated to you: ${step.name}`,
+            `${requesterName}: ${request.summary} has waited ${step.escalateAfterHours} hours for a decision.`,
+          );
+          await notify(
+            step.approverId,
+            'APPROVAL_ESCALATED',
+            `Approval handed on: ${step.name}`,
+            `${requesterName}: ${request.summary} was passed to another approver after ${step.escalateAfterHours} hours.`,
+          );
+          result.escalatedCount++;
+        }
+      } catch (error) {
+        this.logger.error('Approval reminder failed', error, { approvalStepId: step.id });
+      }
+    }
+
+    if (result.remindedCount + result.escalatedCount + result.delegatedCount > 0) {
+      this.logger.info('Stale approvals followed up', result);
+    }
+    return result;
+  }
+
+  /**
+   * Who acts for the step's approver. A delegation never hands a request to its
+   * requester; those go to whoever the step escalates to, or stay put when there is nobody.
+   */
+  private async delegateFor(
+    step: ApprovalStep & { request: { requesterId: string; propertyId: string } },
+    delegations: DelegationWindow[],
+    now: Date
+  ): Promise<string> {
+    const delegateId = activeDelegate(step.approverId, delegations, now);
+    if (delegateId !== step.request.requesterId) {
+      return delegateId;
+    }
+
+    const fallback = await this.prisma.user.findFirst({
+      where: {
+        propertyId: step.request.propertyId,
+        role: step.escalationRole,
+        deletedAt: null,
+        id: { not: step.request.requesterId },
+      },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    return fallback?.id ?? step.approverId;
+  }
+}
@@ -0,0 +1,180 @@
+import { Job } from 'bull';
+import { PrismaClient } from '@prisma/client';
+import { buildICalendar, fetchFeed } from '@staffnbdt/shared';
+import { CalendarFeedSyncJobData, CalendarFeedSyncProcessor } from './calendar-feed-sync.processor';
+
+jest.mock('../services/logger.service', () => ({
+  Logger: jest.fn().mockImplementation(() => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() })),
+}));
+jest.mock('@staffnbdt/shared', () => ({
+  ...jest.requireActual('@staffnbdt/shared'),
+  fetchFeed: jest.fn(),
+}));
+
+describe('CalendarFeedSyncProcessor', () => {
+  const feed = {
+    id: 'feed-1',
+    propertyId: 'property-1',
+    unitId: 'unit-1',
+    channel: 'airbnb',
+    url: 'https://www.airbnb.com/calendar/ical/1.ics',
+    isActive: true,
+    createdBy: 'user-1',
+  };
+
+  const calendar = (...events: Array<[uid: string, startDate: string, endDate: string]>) =>
+    buildICalendar(
+      'Airbnb',
+      events.map(([uid, startDate, endDate]) => ({ uid, summary: 'Reserved', startDate, endDate }))
+    );
+
+  let prisma: any;
+  let processor: CalendarFeedSyncProcessor;
+  let imported: unknown[];
+  let conflicting: unknown[];
+
+  const runSweep = () => processor.process({ data: {} } as Job<CalendarFeedSyncJobData>);
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-06-01T10:00:00Z'));
+    imported = [];
+    conflicting = [];
+
+    prisma = {
+      calendarFeed: {
+        findMany: jest.fn().mockResolvedValue([feed]),
+        findUnique: jest.fn().mockResolvedValue(feed),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      user: { findFirst: jest.fn().mockResolvedValue({ id: 'user-1' }) },
+      reservation: {
+        findMany: jest.fn().mockImplementation(({ where }) =>
+          Promise.resolve(where.calendarFeedId ? imported : conflicting)
+        ),
+        findUnique: jest.fn().mockResolvedValue({ notes: null }),
+        create: jest
+          .fn()
+          .mockImplementation(({ data }) => Promise.resolve({ id: `reservation-${data.externalUid}`, currency: 'USD' })),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      unitBlock: { findMany: jest.fn().mockResolvedValue([]) },
+      unit: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+      guest: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockResolvedValue({ id: 'guest-airbnb' }),
+      },
+      folio: { create: jest.fn().mockResolvedValue({}) },
+    };
+    prisma.$transaction = jest.fn((arg) => (Array.isArray(arg) ? Promise.all(arg) : arg(prisma)));
+
+    processor = new CalendarFeedSyncProcessor(prisma as PrismaClient);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('imports new stays with a primary folio and records the result on the feed', async () => {
+    (fetchFeed as jest.Mock).mockResolvedValue(calendar(['a@airbnb.com', '2025-06-12', '2025-06-15']));
+
+    const [result] = await runSweep();
+
+    expect(result).toMatchObject({ feedId: feed.id, created: 1, conflicts: [], errors: [] });
+    expect(prisma.reservation.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        unitId: feed.unitId,
+        status: 'CONFIRMED',
+        source: 'airbnb',
+        calendarFeedId: feed.id,
+        externalUid: 'a@airbnb.com',
+        checkInDate: new Date('2025-06-12T00:00:00Z'),
+      }),
+    });
+    expect(prisma.folio.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ reservationId: 'reservation-a@airbnb.com', isPrimary: true }),
+    });
+    expect(prisma.calendarFeed.update).toHaveBeenCalledWith({
+      where: { id: feed.id },
+      data: expect.objectContaining({ lastSyncStatus: 'SUCCESS', lastError: null }),
+    });
+  });
+
+  it('files every booking from a channel under one placeholder guest', async () => {
+    (fetchFeed as jest.Mock).mockResolvedValue(
+      calendar(['a@airbnb.com', '2025-06-12', '2025-06-15'], ['b@airbnb.com', '2025-06-20', '2025-06-22'])
+    );
+    prisma.guest.findFirst.mockResolvedValueOnce(null).mockResolvedValue({ id: 'guest-airbnb' });
+
+    await runSweep();
+
+    expect(prisma.guest.create).toHaveBeenCalledTimes(1);
+    expect(prisma.guest.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ propertyId: feed.propertyId, firstName: 'Airbnb', lastName: 'Guest' }),
+    });
+    expect(prisma.reservation.create.mock.calls.map(([{ data }]: any[]) => data.guestId)).toEqual([
+      'guest-airbnb',
+      'guest-airbnb',
+    ]);
+  });
+
+  it('reports stays that clash with existing bookings instead of importing them', async () => {
+    (fetchFeed as jest.Mock).mockResolvedValue(calendar(['a@airbnb.com', '2025-06-12', '2025-06-15']));
+    conflicting = [{ reservationNumber: 'RES1001' }];
+
+    const [result] = await runSweep();
+
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({ uid: 'a@airbnb.com', conflictingReservations: ['RES1001'] }),
+    ]);
+    expect(prisma.reservation.create).not.toHaveBeenCalled();
+    expect(prisma.calendarFeed.update).toHaveBeenCalledWith({
+      where: { id: feed.id },
+      data: expect.objectContaining({ lastSyncStatus: 'CONFLICTS' }),
+    });
+  });
+
+  it('cancels stays dropped from the feed and puts the unit back on sale', async () => {
+    (fetchFeed as jest.Mock).mockResolvedValue(calendar());
+    imported = [
+      {
+        id: 'reservation-1',
+        externalUid: 'gone@airbnb.com',
+        status: 'CONFIRMED',
+        checkInDate: new Date('2025-06-12T00:00:00Z'),
+        checkOutDate: new Date('2025-06-15T00:00:00Z'),
+      },
+    ];
+
+    const [result] = await runSweep();
+
+    expect(result.cancelled).toBe(1);
+    expect(prisma.reservation.update).toHaveBeenCalledWith({
+      where: { id: 'reservation-1' },
+      data: expect.objectContaining({ status: 'CANCELLED', cancelledBy: 'user-1' }),
+    });
+    expect(prisma.unit.updateMany).toHaveBeenCalledWith({
+      where: { id: feed.unitId, status: 'RESERVED' },
+      data: { status: 'AVAILABLE' },
+    });
+  });
+
+  it('records a failing feed and carries on with the rest of the sweep', async () => {
+    const otherFeed = { ...feed, id: 'feed-2', url: 'https://admin.booking.com/ical/2.ics' };
+    prisma.calendarFeed.findMany.mockResolvedValue([feed, otherFeed]);
+    (fetchFeed as jest.Mock)
+      .mockRejectedValueOnce(new Error('Feed responded with HTTP 503'))
+      .mockResolvedValueOnce(calendar(['a@booking.com', '2025-06-12', '2025-06-15']));
+
+    const results = await runSweep();
+
+    expect(results.map((result) => [result.feedId, result.created, result.errors])).toEqual([
+      ['feed-1', 0, ['Feed responded with HTTP 503']],
+      ['feed-2', 1, []],
+    ]);
+    expect(prisma.calendarFeed.update).toHaveBeenCalledWith({
+      where: { id: 'feed-1' },
+      data: expect.objectContaining({ lastSyncStatus: 'FAILED', lastError: 'Feed responded with HTTP 503' }),
+    });
+  });
+});
@@ -0,0 +1,280 @@
+import { Job } from 'bull';
+import { CalendarFeed, Prisma, PrismaClient } from '@prisma/client';
+import * as crypto from 'crypto';
+import {
+  CalendarFeedConflict,
+  CalendarFeedSyncResult,
+  ICalEvent,
+  fetchFeed,
+  overlappingBlocksWhere,
+  parseICalendar,
+  planFeedSync,
+} from '@staffnbdt/shared';
+import { Logger } from '../services/logger.service';
+
+export interface CalendarFeedSyncJobData {
+  // Without a feedId the job is the periodic sweep over every active feed
+  feedId?: string;
+}
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+const toDate = (dateKey: string): Date => new Date(`${dateKey}T00:00:00.000Z`);
+
+const channelName = (channel: string): string => channel.charAt(0).toUpperCase() + channel.slice(1);
+
+// Same formats the BFF issues for bookings taken at the desk
+const generateReservationNumber = (): string =>
+  `RES${Date.now().toString().slice(-6)}${crypto.randomBytes(2).toString('hex').toUpperCase()}`;
+
+const generateConfirmationCode = (): string => crypto.randomBytes(4).toString('hex').toUpperCase();
+
+// Marks the one guest profile per channel that imported bookings are filed under
+const placeholderNote = (channel: string): string => `Placeholder guest for ${channel} calendar bookings`;
+
+/**
+ * Imports channel iCal feeds (Airbnb, Booking.com, ...) as reservations on the
+ * feed's unit. Channels only publish dates, so stays are filed under one
+ * placeholder guest per channel and priced at zero; the channel collects payment.
+ */
+export class CalendarFeedSyncProcessor {
+  private readonly logger = new Logger('CalendarFeedSyncProcessor');
+
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async process(job: Job<CalendarFeedSyncJobData>): Promise<CalendarFeedSyncResult[]> {
+    const { feedId } = job.data;
+
+    if (feedId) {
+      const feed = await this.prisma.calendarFeed.findUnique({ where: { id: feedId } });
+      if (!feed) {
+        throw new Error(`Calendar feed ${feedId} not found`);
+      }
+      return [await this.syncFeedSafely(feed)];
+    }
+
+    const feeds = await this.prisma.calendarFeed.findMany({ where: { isActive: true } });
+    const results: CalendarFeedSyncResult[] = [];
+
+    for (const feed of feeds) {
+      // One unreachable or broken feed must not hold back the others; it is retried next sweep
+      results.push(await this.syncFeedSafely(feed));
+    }
+
+    return results;
+  }
+
+  private async syncFeedSafely(feed: CalendarFeed): Promise<CalendarFeedSyncResult> {
+    try {
+      return await this.syncFeed(feed);
+    } catch (error) {
+      return this.recordFailure(feed, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async syncFeed(feed: CalendarFeed): Promise<CalendarFeedSyncResult> {
+    const owner = await this.prisma.user.findFirst({ where: { id: feed.createdBy, deletedAt: null } });
+    if (!owner) {
+      return this.recordFailure(feed, 'The user who added this feed no longer exists; re-add the feed');
+    }
+
+    const { events, errors } = parseICalendar(await fetchFeed(feed.url));
+
+    const imported = await this.prisma.reservation.findMany({
+      where: { calendarFeedId: feed.id },
+      select: { id: true, externalUid: true, status: true, checkInDate: true, checkOutDate: true },
+    });
+
+    const plan = planFeedSync(events, imported, toDateKey(new Date()));
+    const conflicts: CalendarFeedConflict[] = [];
+    const result: CalendarFeedSyncResult = {
+      feedId: feed.id,
+      syncedAt: new Date(),
+      created: 0,
+      updated: 0,
+      cancelled: 0,
+      conflicts,
+      errors,
+    };
+
+    for (const event of plan.create) {
+      const conflict = await this.findConflict(feed, event);
+      if (conflict) {
+        conflicts.push(conflict);
+        continue;
+      }
+
+      await this.createReservation(feed, event);
+      result.created++;
+    }
+
+    for (const { reservationId, event } of plan.update) {
+      const conflict = await this.findConflict(feed, event, reservationId);
+      if (conflict) {
+        conflicts.push(conflict);
+        continue;
+      }
+
+      await this.prisma.reservation.update({
+        where: { id: reservationId },
+        data: { status: 'CONFIRMED', checkInDate: toDate(event.startDate), checkOutDate: toDate(event.endDate) },
+      });
+      result.updated++;
+    }
+
+    for (const reservationId of plan.cancel) {
+      await this.cancelReservation(feed, reservationId, owner.id);
+      result.cancelled++;
+    }
+
+    await this.prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: {
+        lastSyncedAt: result.syncedAt,
+        lastSyncStatus: conflicts.length > 0 ? 'CONFLICTS' : 'SUCCESS',
+        lastSyncResult: result as unknown as Prisma.InputJsonValue,
+        lastError: errors.length > 0 ? errors.join('; ') : null,
+      },
+    });
+
+    this.logger.info('Calendar feed synced', {
+      feedId: feed.id,
+      channel: feed.channel,
+      created: result.created,
+      updated: result.updated,
+      cancelled: result.cancelled,
+      conflicts: conflicts.length,
+    });
+
+    return result;
+  }
+
+  /** Same rule as the booking screens: confirmed or in-house stays and running blocks take the unit */
+  private async findConflict(
+    feed: CalendarFeed,
+    event: ICalEvent,
+    excludeReservationId?: string
+  ): Promise<CalendarFeedConflict | null> {
+    const checkInDate = toDate(event.startDate);
+    const checkOutDate = toDate(event.endDate);
+
+    const [reservations, blocks] = await Promise.all([
+      this.prisma.reservation.findMany({
+        where: {
+          unitId: feed.unitId,
+          status: { in: ['CONFIRMED', 'CHECKED_IN'] },
+          checkInDate: { lt: checkOutDate },
+          checkOutDate: { gt: checkInDate },
+          ...(excludeReservationId ? { id: { not: excludeReservationId } } : {}),
+        },
+        select: { reservationNumber: true },
+      }),
+      this.prisma.unitBlock.findMany({
+        where: { unitId: feed.unitId, ...overlappingBlocksWhere(checkInDate, checkOutDate) },
+        select: { reason: true },
+      }),
+    ]);
+    if (reservations.length === 0 && blocks.length === 0) return null;
+
+    return {
+      uid: event.uid,
+      summary: event.summary,
+      startDate: event.startDate,
+      endDate: event.endDate,
+      conflictingReservations: reservations.map((reservation) => reservation.reservationNumber),
+      conflictingBlocks: blocks.map((block) => block.reason),
+    };
+  }
+
+  private async createReservation(feed: CalendarFeed, event: ICalEvent): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const guestId = await this.placeholderGuestId(tx, feed);
+      const reservationNumber = generateReservationNumber();
+
+      const reservation = await tx.reservation.create({
+        data: {
+          propertyId: feed.propertyId,
+          unitId: feed.unitId,
+          guestId,
+          checkInDate: toDate(event.startDate),
+          checkOutDate: toDate(event.endDate),
+          status: 'CONFIRMED',
+          totalAmount: new Prisma.Decimal(0),
+          source: feed.channel,
+          notes: event.summary,
+          calendarFeedId: feed.id,
+          externalUid: event.uid,
+          reservationNumber,
+          confirmationCode: generateConfirmationCode(),
+        },
+      });
+
+      // Every stay gets its primary folio at booking, as in the BFF
+      await tx.folio.create({
+        data: {
+          propertyId: feed.propertyId,
+          reservationId: reservation.id,
+          folioNumber: `${reservationNumber}-1`,
+          isPrimary: true,
+          currency: reservation.currency,
+        },
+      });
+    });
+  }
+
+  /**
+   * One shared guest profile per channel and property. A profile per booking
+   * would make every "Airbnb Guest" look like a duplicate of the others.
+   */
+  private async placeholderGuestId(tx: Prisma.TransactionClient, feed: CalendarFeed): Promise<string> {
+    const notes = placeholderNote(feed.channel);
+    const existing = await tx.guest.findFirst({
+      where: { propertyId: feed.propertyId, notes, deletedAt: null },
+      select: { id: true },
+    });
+    if (existing) return existing.id;
+
+    const guest = await tx.guest.create({
+      data: { propertyId: feed.propertyId, firstName: channelName(feed.channel), lastName: 'Guest', notes },
+    });
+    return guest.id;
+  }
+
+  /** The channel owns the booking, so no cancellation fee applies */
+  private async cancelReservation(feed: CalendarFeed, reservationId: string, cancelledBy: string): Promise<void> {
+    const reason = `Removed from ${feed.channel} calendar`;
+    const reservation = await this.prisma.reservation.findUnique({
+      where: { id: reservationId },
+      select: { notes: true },
+    });
+
+    await this.prisma.$transaction([
+      this.prisma.reservation.update({
+        where: { id: reservationId },
+        data: {
+          status: 'CANCELLED',
+          cancelledAt: new Date(),
+          cancelledBy,
+          cancellationReason: reason,
+          notes: `${reservation?.notes || ''}\nCancellation reason: ${reason}`.trim(),
+        },
+      }),
+      this.prisma.unit.updateMany({
+        where: { id: feed.unitId, status: 'RESERVED' },
+        data: { status: 'AVAILABLE' },
+      }),
+    ]);
+  }
+
+  private async recordFailure(feed: CalendarFeed, message: string): Promise<CalendarFeedSyncResult> {
+    const syncedAt = new Date();
+    await this.prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastSyncedAt: syncedAt, lastSyncStatus: 'FAILED', lastError: message },
+    });
+
+    this.logger.warn('Calendar feed failed to sync', { feedId: feed.id, channel: feed.channel, error: message });
+
+    return { feedId: feed.id, syncedAt, created: 0, updated: 0, cancelled: 0, conflicts: [], errors: [message] };
+  }
+}
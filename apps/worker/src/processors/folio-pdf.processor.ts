@@ -0,0 +1,105 @@
+import { Job } from 'bull';
+import { PrismaClient } from '@prisma/client';
+import { Logger } from '../services/logger.service';
+import { PDFService } from '../services/pdf.service';
+import { StorageService } from '../services/storage.service';
+
+export interface FolioPdfJobData {
+  folioId: string;
+  requestedBy?: string;
+}
+
+export class FolioPdfProcessor {
+  private readonly logger = new Logger('FolioPdfProcessor');
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly pdfService: PDFService,
+    private readonly storageService: StorageService
+  ) {}
+
+  async process(job: Job<FolioPdfJobData>): Promise<{ folioId: string; fileKey: string }> {
+    const { folioId, requestedBy } = job.data;
+
+    this.logger.info('Generating folio PDF', { folioId });
+
+    const folio = await this.prisma.folio.findUnique({
+      where: { id: folioId },
+      include: {
+        lines: { orderBy: [{ serviceDate: 'asc' }, { createdAt: 'asc' }] },
+        property: true,
+        reservation: { include: { guest: true, unit: true } },
+      },
+    });
+
+    if (!folio) {
+      throw new Error(`Folio ${folioId} not found`);
+    }
+
+    // Only posted lines are printed; voided and transferred lines stay in the audit trail
+    const lines = folio.lines
+      .filter((line) => line.status === 'POSTED')
+      .map((line) => ({
+        serviceDate: line.serviceDate,
+        category: line.category,
+        description: line.description,
+        quantity: line.quantity,
+        amount: line.amount.toNumber(),
+      }));
+
+    const charges = lines.filter((line) => line.amount > 0).reduce((sum, line) => sum + line.amount, 0);
+    const credits = lines.filter((line) => line.amount < 0).reduce((sum, line) => sum - line.amount, 0);
+
+    const pdf = await this.pdfService.generateFolio({
+      folio: {
+        folioNumber: folio.folioNumber,
+        name: folio.name,
+        status: folio.status,
+        currency: folio.currency,
+        closedAt: folio.closedAt,
+      },
+      reservation: {
+        reservationNumber: folio.reservation.reservationNumber,
+        checkInDate: folio.reservation.checkInDate,
+        checkOutDate: folio.reservation.checkOutDate,
+        unitNumber: folio.reservation.unit.unitNumber,
+      },
+      guest: {
+        firstName: folio.reservation.guest.firstName,
+        lastName: folio.reservation.guest.lastName,
+        email: folio.reservation.guest.email,
+      },
+      lines,
+      totals: {
+        charges: Math.round(charges * 100) / 100,
+        credits: Math.round(credits * 100) / 100,
+        balance: Math.round((charges - credits) * 100) / 100,
+      },
+      property: {
+        name: folio.property.name,
+        email: folio.property.email,
+        phoneNumber: folio.property.phoneNumber,
+      },
+      generatedAt: new Date(),
+    });
+
+    const upload = await this.storageService.uploadFolio(
+      pdf,
+      `folio-${folio.folioNumber}.pdf`,
+      folio.id,
+      requestedBy
+    );
+
+    await this.prisma.folio.update({
+      where: { id: folio.id },
+      data: {
+        pdfFileKey: upload.key,
+        pdfUrl: upload.url,
+        pdfGeneratedAt: new Date(),
+      },
+    });
+
+    this.logger.info('Folio PDF generated', { folioId, fileKey: upload.key });
+    return { folioId, fileKey: upload.key };
+  }
+}
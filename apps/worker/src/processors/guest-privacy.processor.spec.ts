@@ -0,0 +1,182 @@
+import { Job } from 'bull';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { GuestPrivacyJobData, GuestPrivacyProcessor, scrubGuestFromAuditData } from './guest-privacy.processor';
+
+jest.mock('../services/logger.service', () => ({
+  Logger: jest.fn().mockImplementation(() => ({ info: jest.fn(), error: jest.fn() })),
+}));
+
+describe('scrubGuestFromAuditData', () => {
+  const guestId = 'guest-1';
+
+  it('replaces embedded copies of the profile', () => {
+    const entry = {
+      id: 'reservation-1',
+      status: 'CONFIRMED',
+      guest: { id: guestId, firstName: 'Ana', email: 'ana@example.com' },
+    };
+
+    expect(scrubGuestFromAuditData(entry, guestId)).toEqual({
+      id: 'reservation-1',
+      status: 'CONFIRMED',
+      guest: { redacted: true },
+    });
+  });
+
+  it("clears the free text of the guest's reservations", () => {
+    expect(
+      scrubGuestFromAuditData({ id: 'reservation-1', guestId, notes: 'Allergic to nuts', adults: 2 }, guestId)
+    ).toEqual({ id: 'reservation-1', guestId, notes: null, adults: 2 });
+    expect(scrubGuestFromAuditData({ specialRequests: 'Late arrival' }, guestId, true)).toEqual({
+      specialRequests: null,
+    });
+  });
+
+  it('leaves entries about other guests alone', () => {
+    const entry = {
+      id: 'reservation-2',
+      guestId: 'guest-2',
+      notes: 'VIP',
+      guest: { id: 'guest-2', firstName: 'Rui' },
+    };
+
+    expect(scrubGuestFromAuditData(entry, guestId)).toEqual(entry);
+  });
+});
+
+describe('GuestPrivacyProcessor', () => {
+  const guest = {
+    id: 'guest-1',
+    propertyId: 'property-1',
+    firstName: 'Ana',
+    lastName: 'Silva',
+    anonymizedAt: null as Date | null,
+  };
+
+  let prisma: any;
+  let processor: GuestPrivacyProcessor;
+  let auditEntries: unknown[];
+
+  const anonymize = () => processor.process({ data: { guestId: guest.id } } as Job<GuestPrivacyJobData>);
+
+  beforeEach(() => {
+    auditEntries = [];
+
+    prisma = {
+      guest: {
+        findUnique: jest.fn().mockResolvedValue(guest),
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn().mockImplementation(({ data }) => Promise.resolve({ ...guest, ...data })),
+      },
+      property: { findMany: jest.fn().mockResolvedValue([]) },
+      reservation: {
+        findMany: jest.fn().mockResolvedValue([{ id: 'reservation-1' }]),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      conciergeObject: { findMany: jest.fn().mockResolvedValue([{ id: 'object-1' }]) },
+      folio: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+      conciergeAttribute: { updateMany: jest.fn().mockResolvedValue({ count: 0 }) },
+      guestMerge: { updateMany: jest.fn().mockResolvedValue({ count: 0 }) },
+      auditLog: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findMany: jest.fn().mockImplementation(() => Promise.resolve(auditEntries)),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      $queryRaw: jest.fn().mockResolvedValue([{ id: 'audit-3' }]),
+    };
+    prisma.$transaction = jest.fn((arg) => (Array.isArray(arg) ? Promise.all(arg) : arg(prisma)));
+
+    processor = new GuestPrivacyProcessor(prisma as PrismaClient);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('scrubs the profile and the personal data copied onto its stays', async () => {
+    const anonymized = await anonymize();
+
+    expect(prisma.guest.update).toHaveBeenCalledWith({
+      where: { id: guest.id },
+      data: expect.objectContaining({ firstName: 'Anonymized', email: null, address: Prisma.DbNull }),
+    });
+    expect(prisma.reservation.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['reservation-1'] } },
+      data: { specialRequests: null, notes: null },
+    });
+    expect(prisma.folio.updateMany).toHaveBeenCalledWith({
+      where: { reservationId: { in: ['reservation-1'] }, isPrimary: true },
+      data: { name: 'Guest' },
+    });
+    expect(anonymized).toEqual(expect.objectContaining({ anonymizedAt: expect.any(Date) }));
+  });
+
+  it('redacts every audit entry that references the guest', async () => {
+    auditEntries = [
+      {
+        id: 'audit-2',
+        entity: 'Reservation',
+        entityId: 'reservation-1',
+        oldData: { status: 'CONFIRMED', specialRequests: 'Ground floor' },
+        newData: null,
+      },
+      {
+        id: 'audit-3',
+        entity: 'Folio',
+        entityId: 'folio-9',
+        oldData: null,
+        newData: { reservation: { id: 'reservation-1', guest: { id: guest.id, firstName: 'Ana' } } },
+      },
+    ];
+
+    await anonymize();
+
+    expect(prisma.auditLog.updateMany).toHaveBeenCalledWith({
+      where: {
+        OR: [
+          { entity: 'Guest', entityId: guest.id },
+          { entity: 'ConciergeObject', entityId: { in: ['object-1'] } },
+        ],
+      },
+      data: { oldData: { redacted: true }, newData: { redacted: true } },
+    });
+    expect(prisma.auditLog.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          OR: [{ id: { in: ['audit-3'] } }, { entity: 'Reservation', entityId: { in: ['reservation-1'] } }],
+        }),
+      })
+    );
+    expect(prisma.auditLog.update).toHaveBeenCalledWith({
+      where: { id: 'audit-2' },
+      data: { oldData: { status: 'CONFIRMED', specialRequests: null }, newData: undefined },
+    });
+    expect(prisma.auditLog.update).toHaveBeenCalledWith({
+      where: { id: 'audit-3' },
+      data: { oldData: undefined, newData: { reservation: { id: 'reservation-1', guest: { redacted: true } } } },
+    });
+  });
+
+  it('leaves profiles that were already anonymized alone', async () => {
+    prisma.guest.findUnique.mockResolvedValue({ ...guest, anonymizedAt: new Date('2025-01-01') });
+
+    await anonymize();
+
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('anonymizes guests inactive for longer than the retention period', async () => {
+    prisma.property.findMany.mockResolvedValue([{ id: 'property-1', piiRetentionMonths: 24 }]);
+    prisma.guest.findMany.mockResolvedValue([guest]);
+
+    const results = await processor.applyRetentionPolicies(new Date('2025-03-10T00:00:00Z'));
+
+    expect(results).toEqual([{ propertyId: 'property-1', cutoff: new Date('2023-03-10T00:00:00Z'), anonymized: 1 }]);
+    expect(prisma.guest.findMany).toHaveBeenCalledWith({
+      where: expect.objectContaining({
+        propertyId: 'property-1',
+        updatedAt: { lt: new Date('2023-03-10T00:00:00Z') },
+      }),
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { Job } from 'bull';
+import { Guest, Prisma, PrismaClient } from '@prisma/client';
+import { Logger } from '../services/logger.service';
+
+export interface GuestPrivacyJobData {
+  // Without a guestId the job is the periodic retention sweep over every property
+  guestId?: string;
+}
+
+export interface GuestRetentionResult {
+  propertyId: string;
+  cutoff: Date;
+  anonymized: number;
+}
+
+const ACTIVE_STATUSES = ['CONFIRMED', 'CHECKED_IN'] as const;
+
+const REDACTED = { redacted: true };
+
+// Reservation fields that may carry what the guest told the hotel
+const RESERVATION_PII_FIELDS = ['specialRequests', 'notes'];
+
+/**
+ * Personal data removed from an anonymized profile. Nationality, VIP tier and
+ * blacklisting stay so guest statistics and front-desk warnings still work.
+ */
+const ANONYMIZED_GUEST: Prisma.GuestUpdateInput = {
+  firstName: 'Anonymized',
+  lastName: 'Guest',
+  email: null,
+  phoneNumber: null,
+  dateOfBirth: null,
+  passportNumber: null,
+  passportIndex: null,
+  idNumber: null,
+  idNumberIndex: null,
+  address: Prisma.DbNull,
+  preferences: Prisma.DbNull,
+  notes: null,
+  blacklistReason: null,
+};
+
+/**
+ * Removes a guest from an audit snapshot: any embedded copy of the profile is
+ * replaced, and objects belonging to the guest (their reservations, or the
+ * snapshot itself when `ownedByGuest`) lose their free-text fields.
+ */
+export function scrubGuestFromAuditData(
+  value: Prisma.JsonValue,
+  guestId: string,
+  ownedByGuest = false
+): Prisma.JsonValue {
+  if (Array.isArray(value)) {
+    return value.map((item) => scrubGuestFromAuditData(item, guestId));
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (value.id === guestId) {
+    return REDACTED;
+  }
+
+  const owned = ownedByGuest || value.guestId === guestId;
+  const scrubbed: Prisma.JsonObject = {};
+  for (const [key, field] of Object.entries(value)) {
+    scrubbed[key] =
+      owned && RESERVATION_PII_FIELDS.includes(key) ? null : scrubGuestFromAuditData(field ?? null, guestId);
+  }
+  return scrubbed;
+}
+
+/**
+ * Anonymizes guest profiles: on request from the front office, and on a
+ * schedule for guests inactive longer than their property's retention period.
+ */
+export class GuestPrivacyProcessor {
+  private readonly logger = new Logger('GuestPrivacyProcessor');
+
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async process(job: Job<GuestPrivacyJobData>): Promise<GuestRetentionResult[] | Guest> {
+    const { guestId } = job.data;
+
+    if (guestId) {
+      const guest = await this.prisma.guest.findUnique({ where: { id: guestId } });
+      if (!guest) {
+        throw new Error(`Guest ${guestId} not found`);
+      }
+      if (guest.anonymizedAt) {
+        return guest;
+      }
+      return this.anonymizeGuest(guest);
+    }
+
+    return this.applyRetentionPolicies(new Date());
+  }
+
+  /**
+   * Anonymizes guests that have been inactive for longer than their
+   * property's retention period: no stay ending, no profile change and no
+   * upcoming reservation within the window.
+   */
+  async applyRetentionPolicies(now: Date): Promise<GuestRetentionResult[]> {
+    const properties = await this.prisma.property.findMany({
+      where: { piiRetentionMonths: { not: null }, isActive: true, deletedAt: null },
+      select: { id: true, piiRetentionMonths: true },
+    });
+    const results: GuestRetentionResult[] = [];
+
+    for (const property of properties) {
+      const cutoff = new Date(now);
+      cutoff.setMonth(cutoff.getMonth() - property.piiRetentionMonths!);
+
+      const guests = await this.prisma.guest.findMany({
+        where: {
+          propertyId: property.id,
+          anonymizedAt: null,
+          updatedAt: { lt: cutoff },
+          reservations: {
+            none: { OR: [{ checkOutDate: { gte: cutoff } }, { status: { in: [...ACTIVE_STATUSES] } }] },
+          },
+        },
+      });
+
+      let anonymized = 0;
+      for (const guest of guests) {
+        try {
+          await this.anonymizeGuest(guest);
+          anonymized++;
+        } catch (error) {
+          // One failing profile must not hold back the others; it is retried next sweep
+          this.logger.error('Guest anonymization failed', error, { guestId: guest.id });
+        }
+      }
+
+      if (anonymized > 0) {
+        this.logger.info('Guests past their retention period anonymized', {
+          propertyId: property.id,
+          cutoff: cutoff.toISOString().split('T')[0],
+          anonymized,
+        });
+      }
+      results.push({ propertyId: property.id, cutoff, anonymized });
+    }
+
+    return results;
+  }
+
+  /**
+   * Scrubs personal data from the profile and everything that copies it.
+   * Stays, amounts and payments are kept so occupancy and revenue reporting
+   * are unaffected.
+   */
+  async anonymizeGuest(guest: Guest): Promise<Guest> {
+    return this.prisma.$transaction(async (tx) => {
+      const [reservations, conciergeObjects] = await Promise.all([
+        tx.reservation.findMany({ where: { guestId: guest.id }, select: { id: true } }),
+        tx.conciergeObject.findMany({
+          where: { guestId: guest.id, propertyId: guest.propertyId },
+          select: { id: true },
+        }),
+      ]);
+      const reservationIds = reservations.map((reservation) => reservation.id);
+
+      await tx.reservation.updateMany({
+        where: { id: { in: reservationIds } },
+        data: { specialRequests: null, notes: null },
+      });
+      await tx.folio.updateMany({
+        where: { reservationId: { in: reservationIds }, isPrimary: true },
+        data: { name: 'Guest' },
+      });
+
+      await tx.conciergeAttribute.updateMany({
+        where: { object: { guestId: guest.id, propertyId: guest.propertyId } },
+        data: { stringValue: null, jsonValue: Prisma.DbNull, fileValue: null },
+      });
+
+      await this.redactAuditEntries(tx, guest, reservationIds, conciergeObjects.map((object) => object.id));
+
+      await tx.guestMerge.updateMany({
+        where: { OR: [{ survivorId: guest.id }, { mergedGuestId: guest.id }] },
+        data: { survivorSnapshot: REDACTED },
+      });
+
+      return tx.guest.update({
+        where: { id: guest.id },
+        data: { ...ANONYMIZED_GUEST, anonymizedAt: new Date() },
+      });
+    });
+  }
+
+  /**
+   * Audit snapshots repeat personal data: the profile's own entries, its
+   * reservations and concierge records, and any other entry that embeds the
+   * guest (a reservation logged with its guest, a merge, ...).
+   */
+  private async redactAuditEntries(
+    tx: Prisma.TransactionClient,
+    guest: Guest,
+    reservationIds: string[],
+    conciergeObjectIds: string[]
+  ): Promise<void> {
+    const pattern = `%${guest.id}%`;
+    const mentions = await tx.$queryRaw<{ id: string }[]>`
+      SELECT id FROM "AuditLog" WHERE "oldData"::text LIKE ${pattern} OR "newData"::text LIKE ${pattern}
+    `;
+
+    // Profile and concierge snapshots are personal data throughout
+    await tx.auditLog.updateMany({
+      where: {
+        OR: [
+          { entity: 'Guest', entityId: guest.id },
+          { entity: 'ConciergeObject', entityId: { in: conciergeObjectIds } },
+        ],
+      },
+      data: { oldData: REDACTED, newData: REDACTED },
+    });
+
+    const entries = await tx.auditLog.findMany({
+      where: {
+        OR: [
+          { id: { in: mentions.map((mention) => mention.id) } },
+          { entity: 'Reservation', entityId: { in: reservationIds } },
+        ],
+        NOT: [
+          { entity: 'Guest', entityId: guest.id },
+          { entity: 'ConciergeObject', entityId: { in: conciergeObjectIds } },
+        ],
+      },
+      select: { id: true, entity: true, entityId: true, oldData: true, newData: true },
+    });
+
+    for (const entry of entries) {
+      const ownedByGuest = entry.entity === 'Reservation' && reservationIds.includes(entry.entityId);
+      const scrub = (data: Prisma.JsonValue | null) =>
+        data === null ? undefined : (scrubGuestFromAuditData(data, guest.id, ownedByGuest) as Prisma.InputJsonValue);
+
+      await tx.auditLog.update({
+        where: { id: entry.id },
+        data: { oldData: scrub(entry.oldData), newData: scrub(entry.newData) },
+      });
+    }
+  }
+}
@@ -0,0 +1,210 @@
+import { Job } from 'bull';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { PDFService } from '../services/pdf.service';
+import { StorageService } from '../services/storage.service';
+import { NightAuditJobData, NightAuditProcessor, latestClosableBusinessDate } from './night-audit.processor';
+
+jest.mock('../services/logger.service', () => ({
+  Logger: jest.fn().mockImplementation(() => ({ info: jest.fn(), error: jest.fn() })),
+}));
+jest.mock('../services/pdf.service', () => ({ PDFService: jest.fn() }));
+jest.mock('../services/storage.service', () => ({ StorageService: jest.fn() }));
+
+describe('latestClosableBusinessDate', () => {
+  it('closes the previous day once an early-morning audit time has passed', () => {
+    expect(latestClosableBusinessDate(new Date('2025-03-10T10:00:00Z'), 'UTC', '03:00')).toBe('2025-03-09');
+    expect(latestClosableBusinessDate(new Date('2025-03-10T02:00:00Z'), 'UTC', '03:00')).toBe('2025-03-08');
+  });
+
+  it('closes the same day once an evening audit time has passed', () => {
+    expect(latestClosableBusinessDate(new Date('2025-03-10T23:30:00Z'), 'UTC', '23:00')).toBe('2025-03-10');
+    expect(latestClosableBusinessDate(new Date('2025-03-10T22:00:00Z'), 'UTC', '23:00')).toBe('2025-03-09');
+  });
+
+  it("reads the audit time on the property's clock", () => {
+    // 05:00 UTC is 01:00 in New York, before the 03:00 audit
+    expect(latestClosableBusinessDate(new Date('2025-03-10T05:00:00Z'), 'America/New_York', '03:00')).toBe('2025-03-08');
+  });
+});
+
+describe('NightAuditProcessor sweep', () => {
+  const property = {
+    id: 'property-1',
+    name: 'Harbour Hotel',
+    timezone: 'UTC',
+    nightAuditTime: '03:00',
+    roomTaxRate: new Prisma.Decimal(10),
+    businessDate: null as Date | null,
+  };
+
+  const reservation = {
+    id: 'reservation-1',
+    propertyId: property.id,
+    reservationNumber: 'R-1001',
+    currency: 'EUR',
+    checkInDate: new Date('2025-03-08T00:00:00Z'),
+    checkOutDate: new Date('2025-03-11T00:00:00Z'),
+    totalAmount: new Prisma.Decimal(360),
+    nightlyRates: [
+      { date: '2025-03-08', total: 120 },
+      { date: '2025-03-09', total: 120 },
+      { date: '2025-03-10', total: 120 },
+    ],
+    guest: { firstName: 'Ana', lastName: 'Silva' },
+    unit: { unitNumber: '204' },
+  };
+
+  const folioLine = (category: 'ROOM' | 'TAX', amount: number, parentCategory?: string) => ({
+    category,
+    amount: new Prisma.Decimal(amount),
+    parentLine: parentCategory ? { category: parentCategory } : null,
+  });
+
+  let prisma: any;
+  let pdfService: { generateNightAuditReport: jest.Mock };
+  let storageService: { uploadNightAuditReport: jest.Mock };
+  let processor: NightAuditProcessor;
+  let inHouse: unknown[];
+  let stays: unknown[];
+  let missedArrivals: unknown[];
+
+  const runSweep = () => processor.process({ data: {} } as Job<NightAuditJobData>);
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-03-10T10:00:00Z'));
+    inHouse = [];
+    stays = [];
+    missedArrivals = [];
+
+    prisma = {
+      property: {
+        findMany: jest.fn().mockResolvedValue([property]),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      nightAudit: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        upsert: jest.fn().mockResolvedValue({ id: 'audit-1' }),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      reservation: {
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+        count: jest.fn().mockResolvedValue(0),
+        findMany: jest.fn().mockImplementation(({ where }) => {
+          if (where.status === 'CONFIRMED') return Promise.resolve(missedArrivals);
+          if (where.status === 'CHECKED_IN') return Promise.resolve(inHouse);
+          if (where.status === 'NO_SHOW') return Promise.resolve([]);
+          return Promise.resolve(stays);
+        }),
+      },
+      unit: {
+        count: jest.fn().mockResolvedValue(2),
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      },
+      folio: {
+        findFirst: jest.fn().mockResolvedValue({ id: 'folio-1', status: 'OPEN' }),
+        create: jest.fn(),
+      },
+      folioLine: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockImplementation(({ data }) => Promise.resolve({ id: `line-${data.category}`, ...data })),
+      },
+    };
+    prisma.$transaction = jest.fn((arg) => (Array.isArray(arg) ? Promise.all(arg) : arg(prisma)));
+
+    pdfService = { generateNightAuditReport: jest.fn().mockResolvedValue(Buffer.from('pdf')) };
+    storageService = {
+      uploadNightAuditReport: jest.fn().mockResolvedValue({ key: 'reports/night-audit.pdf', url: 'https://files/report' }),
+    };
+    processor = new NightAuditProcessor(
+      prisma as PrismaClient,
+      pdfService as unknown as PDFService,
+      storageService as unknown as StorageService
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('opens the first business date without auditing anything', async () => {
+    property.businessDate = null;
+
+    await expect(runSweep()).resolves.toEqual([]);
+
+    expect(prisma.property.update).toHaveBeenCalledWith({
+      where: { id: property.id },
+      data: { businessDate: new Date('2025-03-10T00:00:00Z') },
+    });
+    expect(prisma.nightAudit.upsert).not.toHaveBeenCalled();
+  });
+
+  it('catches up one business date at a time', async () => {
+    property.businessDate = new Date('2025-03-07T00:00:00Z');
+
+    const results = await runSweep();
+
+    expect(results.map((result) => result.businessDate)).toEqual(['2025-03-07', '2025-03-08', '2025-03-09']);
+    expect(prisma.property.update).toHaveBeenLastCalledWith({
+      where: { id: property.id },
+      data: { businessDate: new Date('2025-03-10T00:00:00Z') },
+    });
+  });
+
+  it('marks missed arrivals as no-shows and puts their units back on sale', async () => {
+    property.businessDate = new Date('2025-03-09T00:00:00Z');
+    missedArrivals = [{ id: 'reservation-2', unitId: 'unit-7' }];
+
+    await runSweep();
+
+    expect(prisma.reservation.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['reservation-2'] } },
+      data: { status: 'NO_SHOW' },
+    });
+    expect(prisma.unit.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['unit-7'] }, status: 'RESERVED' },
+      data: { status: 'AVAILABLE' },
+    });
+  });
+
+  it('posts the missing room night with tax', async () => {
+    property.businessDate = new Date('2025-03-09T00:00:00Z');
+    inHouse = [reservation];
+
+    const [result] = await runSweep();
+
+    expect(result.roomNightsPosted).toBe(1);
+    expect(prisma.folioLine.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ category: 'ROOM', amount: 120, serviceDate: new Date('2025-03-09T00:00:00Z') }),
+    });
+    expect(prisma.folioLine.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ category: 'TAX', amount: 12, parentLineId: 'line-ROOM' }),
+    });
+  });
+
+  it('reports room revenue already posted by the front desk', async () => {
+    property.businessDate = new Date('2025-03-09T00:00:00Z');
+    inHouse = [reservation];
+    stays = [
+      {
+        ...reservation,
+        folios: [{ lines: [folioLine('ROOM', 150), folioLine('TAX', 15, 'ROOM'), folioLine('TAX', 2, 'FOOD_BEVERAGE')] }],
+      },
+    ];
+    prisma.folioLine.findFirst.mockResolvedValue({ id: 'posted-early' });
+
+    const [result] = await runSweep();
+
+    expect(result.roomNightsPosted).toBe(0);
+    expect(prisma.folioLine.create).not.toHaveBeenCalled();
+    expect(pdfService.generateNightAuditReport).toHaveBeenCalledWith(
+      expect.objectContaining({
+        currency: 'EUR',
+        statistics: expect.objectContaining({ totalUnits: 2, occupiedUnits: 1, occupancyRate: 50, adr: 150, revpar: 75 }),
+        roomCharges: [
+          { reservationNumber: 'R-1001', guestName: 'Ana Silva', unitNumber: '204', roomAmount: 150, taxAmount: 15 },
+        ],
+        totals: { roomRevenue: 150, taxRevenue: 15 },
+      })
+    );
+  });
+});
@@ -0,0 +1,432 @@
+import { Job } from 'bull';
+import { Prisma, PrismaClient, Property } from '@prisma/client';
+import { Logger } from '../services/logger.service';
+import { NightAuditReportData, PDFService } from '../services/pdf.service';
+import { StorageService } from '../services/storage.service';
+// Billing rules shared with the folio API keep nightly postings identical
+import { calculateTax, roundCurrency, stayNights } from '@staffnbdt/shared';
+
+export interface NightAuditJobData {
+  // Without a propertyId the job is the periodic sweep over every property
+  propertyId?: string;
+  businessDate?: string;
+}
+
+export interface NightAuditResult {
+  propertyId: string;
+  businessDate: string;
+  noShowCount: number;
+  roomNightsPosted: number;
+  reportFileKey: string;
+}
+
+type NightRoomCharge = NightAuditReportData['roomCharges'][number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+const fromDateKey = (dateKey: string): Date => new Date(`${dateKey}T00:00:00.000Z`);
+
+const addDays = (dateKey: string, days: number): string =>
+  toDateKey(new Date(fromDateKey(dateKey).getTime() + days * DAY_MS));
+
+/** Calendar date and minutes past midnight on the property's wall clock */
+function localClock(now: Date, timeZone: string): { date: string; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '0';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+/**
+ * Latest business date the audit may close at `now`. Audit times before noon
+ * close the previous day (03:00 closes yesterday); later ones close the same day.
+ */
+export function latestClosableBusinessDate(now: Date, timeZone: string, auditTime: string): string {
+  const [hours, minutes] = auditTime.split(':').map(Number);
+  const auditMinutes = hours * 60 + (minutes || 0);
+  const clock = localClock(now, timeZone);
+  const reached = clock.minutes >= auditMinutes;
+
+  if (auditMinutes < 12 * 60) {
+    return addDays(clock.date, reached ? -1 : -2);
+  }
+  return reached ? clock.date : addDays(clock.date, -1);
+}
+
+export class NightAuditProcessor {
+  private readonly logger = new Logger('NightAuditProcessor');
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly pdfService: PDFService,
+    private readonly storageService: StorageService
+  ) {}
+
+  async process(job: Job<NightAuditJobData>): Promise<NightAuditResult[]> {
+    const { propertyId, businessDate } = job.data;
+
+    if (propertyId) {
+      const property = await this.prisma.property.findUnique({ where: { id: propertyId } });
+      if (!property) {
+        throw new Error(`Property ${propertyId} not found`);
+      }
+
+      const dateKey = businessDate ?? (property.businessDate ? toDateKey(property.businessDate) : null);
+      if (!dateKey) {
+        throw new Error(`Property ${propertyId} has no business date to audit`);
+      }
+      return [await this.auditProperty(property, dateKey)];
+    }
+
+    return this.sweep(new Date());
+  }
+
+  /**
+   * Audits every property whose audit time has passed, catching up one
+   * business date at a time if the worker was down for several nights.
+   */
+  private async sweep(now: Date): Promise<NightAuditResult[]> {
+    const properties = await this.prisma.property.findMany({
+      where: { isActive: true, deletedAt: null },
+    });
+    const results: NightAuditResult[] = [];
+
+    for (const property of properties) {
+      try {
+        const latest = latestClosableBusinessDate(now, property.timezone, property.nightAuditTime);
+
+        // First run for this property: start from the open day without closing anything
+        if (!property.businessDate) {
+          await this.prisma.property.update({
+            where: { id: property.id },
+            data: { businessDate: fromDateKey(addDays(latest, 1)) },
+          });
+          continue;
+        }
+
+        let dateKey = toDateKey(property.businessDate);
+        while (dateKey <= latest) {
+          results.push(await this.auditProperty(property, dateKey));
+          dateKey = addDays(dateKey, 1);
+        }
+      } catch (error) {
+        // One failing property must not hold back the others; it is retried next sweep
+        this.logger.error('Night audit failed', error, { propertyId: property.id });
+      }
+    }
+
+    return results;
+  }
+
+  private async auditProperty(property: Property, businessDate: string): Promise<NightAuditResult> {
+    const date = fromDateKey(businessDate);
+    const nextDate = fromDateKey(addDays(businessDate, 1));
+
+    this.logger.info('Running night audit', { propertyId: property.id, businessDate });
+
+    const existing = await this.prisma.nightAudit.findUnique({
+      where: { propertyId_businessDate: { propertyId: property.id, businessDate: date } },
+    });
+    if (existing?.status === 'COMPLETED') {
+      await this.rollBusinessDate(property.id, nextDate);
+      return {
+        propertyId: property.id,
+        businessDate,
+        noShowCount: existing.noShowCount,
+        roomNightsPosted: existing.roomNightsPosted,
+        reportFileKey: existing.reportFileKey ?? '',
+      };
+    }
+
+    const audit = await this.prisma.nightAudit.upsert({
+      where: { propertyId_businessDate: { propertyId: property.id, businessDate: date } },
+      create: { propertyId: property.id, businessDate: date },
+      update: { status: 'RUNNING', error: null, startedAt: new Date() },
+    });
+
+    try {
+      // Guests due on or before the business date who never checked in
+      const missedArrivals = await this.prisma.reservation.findMany({
+        where: { propertyId: property.id, status: 'CONFIRMED', checkInDate: { lt: nextDate } },
+        select: { id: true, unitId: true },
+      });
+      if (missedArrivals.length > 0) {
+        await this.prisma.$transaction([
+          this.prisma.reservation.updateMany({
+            where: { id: { in: missedArrivals.map((reservation) => reservation.id) } },
+            data: { status: 'NO_SHOW' },
+          }),
+          // As with a cancellation, a unit held for the guest goes back on sale
+          this.prisma.unit.updateMany({
+            where: { id: { in: missedArrivals.map((reservation) => reservation.unitId) }, status: 'RESERVED' },
+            data: { status: 'AVAILABLE' },
+          }),
+        ]);
+      }
+
+      const roomNightsPosted = await this.postRoomCharges(property, businessDate);
+
+      const noShows = await this.prisma.reservation.findMany({
+        where: { propertyId: property.id, status: 'NO_SHOW', checkInDate: { gte: date, lt: nextDate } },
+        include: { guest: true, unit: true },
+        orderBy: { reservationNumber: 'asc' },
+      });
+
+      const [totalUnits, arrivals, departures, stays] = await Promise.all([
+        this.prisma.unit.count({ where: { propertyId: property.id, isActive: true, deletedAt: null } }),
+        this.prisma.reservation.count({
+          where: { propertyId: property.id, checkedInAt: { not: null }, checkInDate: { gte: date, lt: nextDate } },
+        }),
+        this.prisma.reservation.count({
+          where: { propertyId: property.id, status: 'CHECKED_OUT', checkOutDate: { gte: date, lt: nextDate } },
+        }),
+        this.findStays(property.id, businessDate),
+      ]);
+
+      // Everything charged for the night counts, whether the front desk, an
+      // earlier partial run or this run posted it
+      const roomCharges: NightRoomCharge[] = stays.map((stay) => {
+        const lines = stay.folios.flatMap((folio) => folio.lines);
+        const sum = (category: 'ROOM' | 'TAX') =>
+          roundCurrency(
+            lines
+              .filter((line) => line.category === category && (category === 'ROOM' || line.parentLine?.category === 'ROOM'))
+              .reduce((total, line) => total + line.amount.toNumber(), 0)
+          );
+
+        return {
+          reservationNumber: stay.reservationNumber,
+          guestName: `${stay.guest.firstName} ${stay.guest.lastName}`,
+          unitNumber: stay.unit.unitNumber,
+          roomAmount: sum('ROOM'),
+          taxAmount: sum('TAX'),
+        };
+      });
+
+      const roomRevenue = roundCurrency(roomCharges.reduce((sum, charge) => sum + charge.roomAmount, 0));
+      const taxRevenue = roundCurrency(roomCharges.reduce((sum, charge) => sum + charge.taxAmount, 0));
+      const occupiedUnits = stays.length;
+
+      const pdf = await this.pdfService.generateNightAuditReport({
+        businessDate,
+        property: { name: property.name, timezone: property.timezone },
+        currency: stays[0]?.currency ?? 'USD',
+        statistics: {
+          totalUnits,
+          occupiedUnits,
+          occupancyRate: totalUnits > 0 ? Math.round((occupiedUnits / totalUnits) * 1000) / 10 : 0,
+          adr: occupiedUnits > 0 ? roundCurrency(roomRevenue / occupiedUnits) : 0,
+          revpar: totalUnits > 0 ? roundCurrency(roomRevenue / totalUnits) : 0,
+          arrivals,
+          departures,
+        },
+        noShows: noShows.map((reservation) => ({
+          reservationNumber: reservation.reservationNumber,
+          guestName: `${reservation.guest.firstName} ${reservation.guest.lastName}`,
+          unitNumber: reservation.unit.unitNumber,
+        })),
+        roomCharges,
+        totals: { roomRevenue, taxRevenue },
+        generatedAt: new Date(),
+      });
+
+      const upload = await this.storageService.uploadNightAuditReport(
+        pdf,
+        `night-audit-${businessDate}.pdf`,
+        property.id,
+        businessDate
+      );
+
+      await this.prisma.$transaction([
+        this.prisma.nightAudit.update({
+          where: { id: audit.id },
+          data: {
+            status: 'COMPLETED',
+            noShowCount: noShows.length,
+            roomNightsPosted,
+            roomRevenue,
+            taxRevenue,
+            reportFileKey: upload.key,
+            reportUrl: upload.url,
+            completedAt: new Date(),
+          },
+        }),
+        this.prisma.property.update({
+          where: { id: property.id },
+          data: { businessDate: nextDate },
+        }),
+      ]);
+
+      this.logger.info('Night audit completed', {
+        propertyId: property.id,
+        businessDate,
+        noShows: noShows.length,
+        roomNightsPosted,
+      });
+
+      return {
+        propertyId: property.id,
+        businessDate,
+        noShowCount: noShows.length,
+        roomNightsPosted,
+        reportFileKey: upload.key,
+      };
+    } catch (error) {
+      await this.prisma.nightAudit.update({
+        where: { id: audit.id },
+        data: { status: 'FAILED', error: error instanceof Error ? error.message : String(error) },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Posts the business date's room night, plus room tax when the property
+   * charges it, to the primary folio of every in-house reservation. Nights
+   * already on a folio (posted early, voided or transferred) are left alone,
+   * so a re-run after a failure does not double-charge. Returns how many
+   * nights this run posted.
+   */
+  private async postRoomCharges(property: Property, businessDate: string): Promise<number> {
+    const date = fromDateKey(businessDate);
+    const taxRate = property.roomTaxRate.toNumber();
+
+    const inHouse = await this.prisma.reservation.findMany({
+      where: {
+        propertyId: property.id,
+        status: 'CHECKED_IN',
+        checkInDate: { lt: fromDateKey(addDays(businessDate, 1)) },
+        checkOutDate: { gt: date },
+      },
+      orderBy: { reservationNumber: 'asc' },
+    });
+
+    let posted = 0;
+
+    for (const reservation of inHouse) {
+      const alreadyPosted = await this.prisma.folioLine.findFirst({
+        where: {
+          folio: { reservationId: reservation.id },
+          category: 'ROOM',
+          transferredFromLineId: null,
+          serviceDate: date,
+        },
+      });
+
+      const night = stayNights(reservation).find((entry) => entry.date === businessDate);
+      if (alreadyPosted || !night) continue;
+
+      const taxAmount = taxRate > 0 ? calculateTax(night.total, taxRate) : 0;
+
+      await this.prisma.$transaction(async (tx) => {
+        const folio = await this.ensurePrimaryFolio(reservation, tx);
+        if (folio.status !== 'OPEN') return;
+
+        const description = `Room charge - night of ${businessDate}`;
+        const roomLine = await tx.folioLine.create({
+          data: {
+            folioId: folio.id,
+            category: 'ROOM',
+            description,
+            unitAmount: night.total,
+            amount: night.total,
+            serviceDate: date,
+            reference: reservation.reservationNumber,
+          },
+        });
+
+        if (taxAmount > 0) {
+          await tx.folioLine.create({
+            data: {
+              folioId: folio.id,
+              category: 'TAX',
+              description: `Tax ${taxRate}% on ${description}`,
+              unitAmount: taxAmount,
+              amount: taxAmount,
+              serviceDate: date,
+              reference: reservation.reservationNumber,
+              parentLineId: roomLine.id,
+            },
+          });
+        }
+
+        posted += 1;
+      });
+    }
+
+    return posted;
+  }
+
+  /**
+   * Stays that occupied a room on the business date, with the room and tax
+   * lines still posted for that night. Guests who left early are not counted.
+   */
+  private async findStays(propertyId: string, businessDate: string) {
+    const date = fromDateKey(businessDate);
+    const nextDate = fromDateKey(addDays(businessDate, 1));
+
+    return this.prisma.reservation.findMany({
+      where: {
+        propertyId,
+        status: { in: ['CHECKED_IN', 'CHECKED_OUT'] },
+        checkedInAt: { not: null },
+        checkInDate: { lt: nextDate },
+        checkOutDate: { gt: date },
+        OR: [{ checkedOutAt: null }, { checkedOutAt: { gte: nextDate } }],
+      },
+      include: {
+        guest: true,
+        unit: true,
+        folios: {
+          select: {
+            lines: {
+              where: { status: 'POSTED', serviceDate: date, category: { in: ['ROOM', 'TAX'] } },
+              select: { category: true, amount: true, parentLine: { select: { category: true } } },
+            },
+          },
+        },
+      },
+      orderBy: { reservationNumber: 'asc' },
+    });
+  }
+
+  private async ensurePrimaryFolio(
+    reservation: { id: string; propertyId: string; reservationNumber: string; currency: string },
+    tx: Prisma.TransactionClient
+  ) {
+    const existing = await tx.folio.findFirst({
+      where: { reservationId: reservation.id, isPrimary: true },
+    });
+    if (existing) return existing;
+
+    return tx.folio.create({
+      data: {
+        propertyId: reservation.propertyId,
+        reservationId: reservation.id,
+        folioNumber: `${reservation.reservationNumber}-1`,
+        isPrimary: true,
+        currency: reservation.currency,
+      },
+    });
+  }
+
+  private async rollBusinessDate(propertyId: string, nextDate: Date): Promise<void> {
+    await this.prisma.property.update({
+      where: { id: propertyId },
+      data: { businessDate: nextDate },
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import { Job } from 'bull';
+import { PrismaClient } from '@prisma/client';
+import { hashPortalToken } from '@staffnbdt/shared';
+import { EmailService } from '../services/email.service';
+import { PreArrivalLinkJobData, PreArrivalLinkProcessor } from './pre-arrival-link.processor';
+
+jest.mock('../services/logger.service', () => ({
+  Logger: jest.fn().mockImplementation(() => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() })),
+}));
+jest.mock('../services/email.service', () => ({ EmailService: jest.fn() }));
+
+describe('PreArrivalLinkProcessor', () => {
+  const arrival = (id: string, email: string) => ({
+    id,
+    propertyId: 'property-1',
+    guestId: `guest-${id}`,
+    reservationNumber: `R-${id}`,
+    checkInDate: new Date('2025-06-12T00:00:00Z'),
+    guest: { email, firstName: 'Ana' },
+    property: { name: 'Harbour Hotel', organizationId: 'org-1' },
+  });
+
+  let prisma: any;
+  let emailService: { sendEmail: jest.Mock };
+  let processor: PreArrivalLinkProcessor;
+
+  const runSweep = () => processor.process({ data: {} } as Job<PreArrivalLinkJobData>);
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-06-10T08:00:00Z'));
+
+    prisma = {
+      reservation: {
+        findMany: jest.fn().mockResolvedValue([arrival('1', 'ana@example.com'), arrival('2', 'rui@example.com')]),
+      },
+      guestPortalToken: {
+        findMany: jest.fn().mockResolvedValue([{ reservationId: '2' }]),
+        create: jest.fn().mockResolvedValue({}),
+      },
+    };
+    emailService = { sendEmail: jest.fn().mockResolvedValue(undefined) };
+    processor = new PreArrivalLinkProcessor(prisma as PrismaClient, emailService as unknown as EmailService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('emails a link to arrivals within the lead time that have not had one', async () => {
+    await expect(runSweep()).resolves.toEqual({ sent: 1 });
+
+    expect(prisma.reservation.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          checkInDate: { gte: new Date('2025-06-10T00:00:00Z'), lt: new Date('2025-06-14T00:00:00Z') },
+        }),
+      })
+    );
+    expect(prisma.guestPortalToken.create).toHaveBeenCalledTimes(1);
+    expect(prisma.guestPortalToken.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ reservationId: '1', expiresAt: new Date('2025-06-13T00:00:00Z') }),
+    });
+
+    const { tokenHash } = prisma.guestPortalToken.create.mock.calls[0][0].data;
+    const [email] = emailService.sendEmail.mock.calls[0];
+    const token = email.text.match(/\/pre-arrival\/(\S+)/)[1];
+    expect(email.to).toBe('ana@example.com');
+    expect(hashPortalToken(token)).toBe(tokenHash);
+  });
+
+  it('carries on when an email cannot be sent', async () => {
+    prisma.guestPortalToken.findMany.mockResolvedValue([]);
+    emailService.sendEmail.mockRejectedValueOnce(new Error('SMTP down'));
+
+    await expect(runSweep()).resolves.toEqual({ sent: 1 });
+
+    expect(emailService.sendEmail).toHaveBeenCalledTimes(2);
+  });
+});
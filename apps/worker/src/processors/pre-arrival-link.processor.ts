@@ -0,0 +1,106 @@
+import { Job } from 'bull';
+import { PrismaClient } from '@prisma/client';
+import {
+  buildPreArrivalEmail,
+  generatePortalToken,
+  hashPortalToken,
+  preArrivalLinkExpiry,
+  preArrivalPortalUrl,
+} from '@staffnbdt/shared';
+import { EmailService } from '../services/email.service';
+import { Logger } from '../services/logger.service';
+
+// The sweep takes no parameters; guests are picked by their arrival date
+export type PreArrivalLinkJobData = Record<string, never>;
+
+export interface PreArrivalLinkResult {
+  sent: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Emails pre-arrival check-in links to guests arriving within
+ * PRE_ARRIVAL_LEAD_DAYS who have an email address and haven't been sent one
+ * yet. Links sent by staff from the reservation count as sent.
+ */
+export class PreArrivalLinkProcessor {
+  private readonly logger = new Logger('PreArrivalLinkProcessor');
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly emailService: EmailService
+  ) {}
+
+  async process(_job: Job<PreArrivalLinkJobData>): Promise<PreArrivalLinkResult> {
+    const leadDays = parseInt(process.env.PRE_ARRIVAL_LEAD_DAYS ?? '3');
+    if (!leadDays) {
+      return { sent: 0 };
+    }
+
+    const now = new Date();
+    const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const reservations = await this.prisma.reservation.findMany({
+      where: {
+        status: 'CONFIRMED',
+        checkedInAt: null,
+        preArrivalCompletedAt: null,
+        checkInDate: { gte: today, lt: new Date(today.getTime() + (leadDays + 1) * DAY_MS) },
+        guest: { email: { not: null }, deletedAt: null },
+      },
+      include: { guest: true, property: { select: { name: true, organizationId: true } } },
+    });
+    if (reservations.length === 0) return { sent: 0 };
+
+    const alreadySent = await this.prisma.guestPortalToken.findMany({
+      where: { reservationId: { in: reservations.map((reservation) => reservation.id) } },
+      select: { reservationId: true },
+      distinct: ['reservationId'],
+    });
+    const sentIds = new Set(alreadySent.map((link) => link.reservationId));
+
+    let sent = 0;
+    for (const reservation of reservations.filter((candidate) => !sentIds.has(candidate.id))) {
+      const token = generatePortalToken();
+      const expiresAt = preArrivalLinkExpiry(reservation.checkInDate);
+
+      try {
+        await this.prisma.guestPortalToken.create({
+          data: {
+            organizationId: reservation.property.organizationId,
+            propertyId: reservation.propertyId,
+            reservationId: reservation.id,
+            guestId: reservation.guestId,
+            tokenHash: hashPortalToken(token),
+            expiresAt,
+            metadata: { createdBy: null },
+          },
+        });
+
+        await this.emailService.sendEmail({
+          to: reservation.guest.email!,
+          ...buildPreArrivalEmail({
+            email: reservation.guest.email!,
+            firstName: reservation.guest.firstName,
+            propertyName: reservation.property.name,
+            checkInDate: reservation.checkInDate,
+            portalUrl: preArrivalPortalUrl(process.env.FRONTEND_URL, token),
+            expiresAt,
+          }),
+        });
+        sent++;
+      } catch (error) {
+        // The link stays issued; staff can resend it from the reservation
+        this.logger.warn('Could not send pre-arrival link', {
+          reservationNumber: reservation.reservationNumber,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (sent > 0) {
+      this.logger.info('Pre-arrival check-in links sent', { sent });
+    }
+    return { sent };
+  }
+}
@@ -0,0 +1,224 @@
+import { Job } from 'bull';
+import { MaintenanceFrequency, MaintenanceSchedule, PrismaClient } from '@prisma/client';
+import { Logger } from '../services/logger.service';
+import { TaskAssignmentService } from '../services/task-assignment.service';
+
+export interface PreventiveMaintenanceJobData {
+  // Without a scheduleId the job is the periodic sweep over every active schedule
+  scheduleId?: string;
+}
+
+export interface PreventiveMaintenanceResult {
+  scheduleId: string;
+  tasksCreated: number;
+}
+
+type ScheduleWithProperty = MaintenanceSchedule & { property: { timezone: string } };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+const fromDateKey = (dateKey: string): Date => new Date(`${dateKey}T00:00:00.000Z`);
+
+const addDays = (dateKey: string, days: number): string =>
+  toDateKey(new Date(fromDateKey(dateKey).getTime() + days * DAY_MS));
+
+/** Same day of month N months later, clamped to the month's last day (31 Jan + 1 month = 28/29 Feb) */
+const addMonths = (dateKey: string, months: number): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return toDateKey(new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))));
+};
+
+/** Calendar date on the property's wall clock */
+const localDate = (now: Date, timeZone: string): string =>
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+
+/**
+ * Occurrences of a calendar schedule after `after` (exclusive) up to `horizon`.
+ * Occurrences missed while the worker was down are not backfilled one by one:
+ * only the latest one before `today` is kept, as a single overdue task.
+ */
+export function dueOccurrences(
+  frequency: MaintenanceFrequency,
+  interval: number,
+  startDate: string,
+  after: string | null,
+  today: string,
+  horizon: string
+): string[] {
+  if (frequency === 'STAYS') {
+    return [];
+  }
+
+  const step = Math.max(1, interval);
+  const occurrences: string[] = [];
+  let missed: string | null = null;
+
+  for (let k = 0; ; k++) {
+    const occurrence =
+      frequency === 'MONTHLY'
+        ? addMonths(startDate, k * step)
+        : addDays(startDate, k * step * (frequency === 'WEEKLY' ? 7 : 1));
+    if (occurrence > horizon) break;
+    if (after && occurrence <= after) continue;
+
+    if (occurrence < today) {
+      missed = occurrence;
+    } else {
+      occurrences.push(occurrence);
+    }
+  }
+
+  return missed ? [missed, ...occurrences] : occurrences;
+}
+
+export class PreventiveMaintenanceProcessor {
+  private readonly logger = new Logger('PreventiveMaintenanceProcessor');
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly taskAssignmentService: TaskAssignmentService
+  ) {}
+
+  async process(job: Job<PreventiveMaintenanceJobData>): Promise<PreventiveMaintenanceResult[]> {
+    const { scheduleId } = job.data;
+    const now = new Date();
+
+    if (scheduleId) {
+      const schedule = await this.prisma.maintenanceSchedule.findUnique({
+        where: { id: scheduleId },
+        include: { property: { select: { timezone: true } } },
+      });
+      if (!schedule) {
+        throw new Error(`Maintenance schedule ${scheduleId} not found`);
+      }
+      return [await this.materialize(schedule, now)];
+    }
+
+    return this.sweep(now);
+  }
+
+  private async sweep(now: Date): Promise<PreventiveMaintenanceResult[]> {
+    const schedules = await this.prisma.maintenanceSchedule.findMany({
+      where: { isActive: true, property: { isActive: true, deletedAt: null } },
+      include: { property: { select: { timezone: true } } },
+    });
+    const results: PreventiveMaintenanceResult[] = [];
+
+    for (const schedule of schedules) {
+      try {
+        const result = await this.materialize(schedule, now);
+        if (result.tasksCreated > 0) {
+          results.push(result);
+        }
+      } catch (error) {
+        // One broken schedule must not hold back the others; it is retried next sweep
+        this.logger.error('Preventive maintenance generation failed', error, { scheduleId: schedule.id });
+      }
+    }
+
+    return results;
+  }
+
+  /** Creates the tasks that are due for each unit (or the department) the schedule covers */
+  private async materialize(schedule: ScheduleWithProperty, now: Date): Promise<PreventiveMaintenanceResult> {
+    const today = localDate(now, schedule.property.timezone);
+    const unitIds = await this.targetUnitIds(schedule);
+    // Scheduled work gets the type's checklist; SLA targets only apply to tasks raised on demand
+    const checklist = await this.prisma.taskChecklistTemplate.findFirst({
+      where: { propertyId: schedule.propertyId, taskType: schedule.taskType, isActive: true },
+    });
+    const checklistSteps = (Array.isArray(checklist?.items) ? checklist!.items : []) as {
+      label: string;
+      requiresPhoto?: boolean;
+    }[];
+    let tasksCreated = 0;
+
+    for (const unitId of unitIds) {
+      const last = await this.prisma.task.findFirst({
+        where: { maintenanceScheduleId: schedule.id, unitId },
+        orderBy: { occurrenceDate: 'desc' },
+      });
+
+      const occurrences =
+        schedule.frequency === 'STAYS'
+          ? await this.stayOccurrences(schedule, unitId!, last?.createdAt ?? schedule.startDate, today)
+          : dueOccurrences(
+              schedule.frequency,
+              schedule.interval,
+              toDateKey(schedule.startDate),
+              last?.occurrenceDate ? toDateKey(last.occurrenceDate) : null,
+              today,
+              addDays(today, schedule.leadDays)
+            );
+
+      for (const occurrence of occurrences) {
+        const task = await this.prisma.task.create({
+          data: {
+            propertyId: schedule.propertyId,
+            title: schedule.title,
+            description: schedule.description,
+            taskType: schedule.taskType,
+            priority: schedule.priority,
+            assignedToId: schedule.assignedToId,
+            departmentId: schedule.departmentId,
+            unitId,
+            estimatedTime: schedule.estimatedTime,
+            dueDate: fromDateKey(occurrence),
+            occurrenceDate: fromDateKey(occurrence),
+            maintenanceScheduleId: schedule.id,
+            createdBy: schedule.createdBy,
+            checklistItems: {
+              create: checklistSteps.map((step, index) => ({
+                position: index + 1,
+                label: step.label,
+                requiresPhoto: step.requiresPhoto === true,
+              })),
+            },
+          },
+        });
+        tasksCreated++;
+
+        // Nobody on the schedule: let the department's assignment rule choose
+        if (!task.assignedToId && task.departmentId) {
+          await this.taskAssignmentService.autoAssign(task.id, now);
+        }
+      }
+    }
+
+    if (tasksCreated > 0) {
+      this.logger.info('Preventive maintenance tasks created', { scheduleId: schedule.id, tasksCreated });
+    }
+    return { scheduleId: schedule.id, tasksCreated };
+  }
+
+  /** Room type schedules cover every active unit of the type; department schedules have no unit */
+  private async targetUnitIds(schedule: MaintenanceSchedule): Promise<(string | null)[]> {
+    if (schedule.unitId) {
+      return [schedule.unitId];
+    }
+    if (schedule.roomTypeId) {
+      const units = await this.prisma.unit.findMany({
+        where: { roomTypeId: schedule.roomTypeId, isActive: true, deletedAt: null },
+        select: { id: true },
+      });
+      return units.map((unit) => unit.id);
+    }
+    return [null];
+  }
+
+  /** One task, due today, once the unit has had `interval` check-outs since the previous one was created */
+  private async stayOccurrences(
+    schedule: MaintenanceSchedule,
+    unitId: string,
+    since: Date,
+    today: string
+  ): Promise<string[]> {
+    const stays = await this.prisma.reservation.count({
+      where: { unitId, status: 'CHECKED_OUT', checkedOutAt: { gte: since } },
+    });
+    return stays >= schedule.interval ? [today] : [];
+  }
+}
@@ -0,0 +1,96 @@
+import { Job } from 'bull';
+import { PrismaClient } from '@prisma/client';
+import { TaskSlaEscalationProcessor } from './task-sla-escalation.processor';
+
+jest.mock('../services/logger.service', () => ({
+  Logger: jest.fn().mockImplementation(() => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() })),
+}));
+
+describe('TaskSlaEscalationProcessor', () => {
+  const now = new Date('2025-06-10T11:00:00Z');
+
+  const task = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    propertyId: 'property-1',
+    title: `Fix leak ${id}`,
+    status: 'PENDING',
+    priority: 'MEDIUM',
+    startedAt: null,
+    responseDueAt: new Date('2025-06-10T08:15:00Z'),
+    resolutionDueAt: new Date('2025-06-10T10:00:00Z'),
+    responseEscalatedAt: null,
+    resolutionEscalatedAt: null,
+    department: { name: 'Maintenance', managerId: 'manager-1' },
+    ...overrides,
+  });
+
+  let prisma: any;
+  let processor: TaskSlaEscalationProcessor;
+
+  const runSweep = () => processor.process({ data: {} } as Job);
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(now);
+
+    prisma = {
+      task: {
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      notification: { create: jest.fn().mockResolvedValue({}) },
+    };
+
+    processor = new TaskSlaEscalationProcessor(prisma as PrismaClient);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('raises the priority once per breach and notifies the department manager', async () => {
+    prisma.task.findMany.mockResolvedValue([task('1')]);
+
+    await expect(runSweep()).resolves.toEqual({ escalatedCount: 1, notifiedCount: 1 });
+
+    expect(prisma.task.update).toHaveBeenCalledWith({
+      where: { id: '1' },
+      data: { priority: 'URGENT', responseEscalatedAt: now, resolutionEscalatedAt: now },
+    });
+    expect(prisma.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'manager-1',
+        type: 'TASK_SLA_BREACH',
+        data: { taskId: '1', breaches: ['response', 'resolution'], previousPriority: 'MEDIUM', priority: 'URGENT' },
+      }),
+    });
+  });
+
+  it('does not escalate a breach twice', async () => {
+    prisma.task.findMany.mockResolvedValue([task('1', { responseEscalatedAt: new Date('2025-06-10T08:20:00Z') })]);
+
+    await runSweep();
+
+    expect(prisma.task.update).toHaveBeenCalledWith({
+      where: { id: '1' },
+      data: { priority: 'HIGH', resolutionEscalatedAt: now },
+    });
+  });
+
+  it('escalates without notifying when the department has no manager', async () => {
+    prisma.task.findMany.mockResolvedValue([task('1', { department: { name: 'Maintenance', managerId: null } })]);
+
+    await expect(runSweep()).resolves.toEqual({ escalatedCount: 1, notifiedCount: 0 });
+
+    expect(prisma.task.update).toHaveBeenCalled();
+    expect(prisma.notification.create).not.toHaveBeenCalled();
+  });
+
+  it('carries on when one task cannot be escalated', async () => {
+    prisma.task.findMany.mockResolvedValue([task('1'), task('2')]);
+    prisma.task.update.mockRejectedValueOnce(new Error('deadlock'));
+
+    await expect(runSweep()).resolves.toEqual({ escalatedCount: 2, notifiedCount: 1 });
+
+    expect(prisma.notification.create).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,77 @@
+import { Job } from 'bull';
+import { PrismaClient } from '@prisma/client';
+import { escalatedPriority, unescalatedBreaches } from '@staffnbdt/shared';
+import { Logger } from '../services/logger.service';
+
+export interface TaskSlaEscalationResult {
+  escalatedCount: number;
+  notifiedCount: number;
+}
+
+export class TaskSlaEscalationProcessor {
+  private readonly logger = new Logger('TaskSlaEscalationProcessor');
+
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Escalates each response and resolution breach once: the task moves up a
+   * priority and its department manager is notified. On-hold tasks are skipped.
+   */
+  async process(_job: Job): Promise<TaskSlaEscalationResult> {
+    const now = new Date();
+
+    const tasks = await this.prisma.task.findMany({
+      where: {
+        status: { in: ['PENDING', 'IN_PROGRESS'] },
+        OR: [
+          { responseEscalatedAt: null, startedAt: null, responseDueAt: { lte: now } },
+          { resolutionEscalatedAt: null, resolutionDueAt: { lte: now } },
+        ],
+      },
+      include: { department: { select: { name: true, managerId: true } } },
+    });
+
+    let notifiedCount = 0;
+    for (const task of tasks) {
+      try {
+        const breaches = unescalatedBreaches(task, now);
+
+        const priority = escalatedPriority(task.priority, breaches.length);
+        await this.prisma.task.update({
+          where: { id: task.id },
+          data: {
+            priority,
+            ...(breaches.includes('response') && { responseEscalatedAt: now }),
+            ...(breaches.includes('resolution') && { resolutionEscalatedAt: now }),
+          },
+        });
+
+        const managerId = task.department?.managerId;
+        if (!managerId) {
+          this.logger.warn('SLA breach has no department manager to notify', { taskId: task.id, breaches });
+          continue;
+        }
+
+        const missed = breaches.includes('resolution') ? 'resolution' : 'response';
+        await this.prisma.notification.create({
+          data: {
+            userId: managerId,
+            propertyId: task.propertyId,
+            type: 'TASK_SLA_BREACH',
+            title: `Task missed its ${missed} target`,
+            message: `"${task.title}" in ${task.department!.name} missed its ${breaches.join(' and ')} target and is now ${priority} priority.`,
+            data: { taskId: task.id, breaches, previousPriority: task.priority, priority },
+          },
+        });
+        notifiedCount++;
+      } catch (error) {
+        this.logger.error('Task SLA escalation failed', error, { taskId: task.id });
+      }
+    }
+
+    if (tasks.length > 0) {
+      this.logger.info('Task SLA breaches escalated', { escalatedCount: tasks.length, notifiedCount });
+    }
+    return { escalatedCount: tasks.length, notifiedCount };
+  }
+}
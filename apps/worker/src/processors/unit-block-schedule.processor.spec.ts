@@ -0,0 +1,95 @@
+import { Job } from 'bull';
+import { PrismaClient } from '@prisma/client';
+import { UnitBlockScheduleJobData, UnitBlockScheduleProcessor } from './unit-block-schedule.processor';
+
+jest.mock('../services/logger.service', () => ({
+  Logger: jest.fn().mockImplementation(() => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() })),
+}));
+
+describe('UnitBlockScheduleProcessor', () => {
+  const now = new Date('2025-06-10T08:00:00Z');
+
+  const block = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    unitId: `unit-${id}`,
+    type: 'OUT_OF_ORDER',
+    startDate: new Date('2025-06-10T00:00:00Z'),
+    endDate: new Date('2025-06-12T00:00:00Z'),
+    appliedAt: null,
+    releasedAt: null,
+    ...overrides,
+  });
+
+  let prisma: any;
+  let processor: UnitBlockScheduleProcessor;
+
+  const runSweep = () => processor.process({ data: {} } as Job<UnitBlockScheduleJobData>);
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(now);
+
+    prisma = {
+      unitBlock: {
+        findUnique: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      unit: {
+        findUnique: jest.fn(),
+        update: jest.fn().mockResolvedValue({}),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    prisma.$transaction = jest.fn((arg) => (Array.isArray(arg) ? Promise.all(arg) : arg(prisma)));
+
+    processor = new UnitBlockScheduleProcessor(prisma as PrismaClient);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('takes the unit off sale when its block starts', async () => {
+    prisma.unitBlock.findMany.mockResolvedValue([block('1', { type: 'OUT_OF_SERVICE' })]);
+
+    await expect(runSweep()).resolves.toEqual({ changed: 1 });
+
+    expect(prisma.unit.updateMany).toHaveBeenCalledWith({
+      where: { id: 'unit-1', status: { not: 'OCCUPIED' } },
+      data: { status: 'MAINTENANCE' },
+    });
+    expect(prisma.unitBlock.update).toHaveBeenCalledWith({ where: { id: '1' }, data: { appliedAt: now } });
+  });
+
+  it('waits for a guest still in the room to leave', async () => {
+    prisma.unitBlock.findMany.mockResolvedValue([block('1')]);
+    prisma.unit.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(runSweep()).resolves.toEqual({ changed: 0 });
+
+    expect(prisma.unitBlock.update).not.toHaveBeenCalled();
+  });
+
+  it('sends the unit through housekeeping when its block is over', async () => {
+    prisma.unitBlock.findUnique.mockResolvedValue(
+      block('1', { endDate: new Date('2025-06-10T00:00:00Z'), appliedAt: new Date('2025-06-08T00:00:00Z') })
+    );
+    prisma.unit.findUnique.mockResolvedValue({ id: 'unit-1', status: 'OUT_OF_ORDER', housekeepingStatus: 'DIRTY' });
+
+    await expect(processor.process({ data: { blockId: '1' } } as Job<UnitBlockScheduleJobData>)).resolves.toEqual({
+      changed: 1,
+    });
+
+    expect(prisma.unit.update).toHaveBeenCalledWith({ where: { id: 'unit-1' }, data: { status: 'CLEANING' } });
+    expect(prisma.unitBlock.update).toHaveBeenCalledWith({ where: { id: '1' }, data: { releasedAt: now } });
+  });
+
+  it('carries on when one block cannot be updated', async () => {
+    prisma.unitBlock.findMany.mockResolvedValue([block('1'), block('2')]);
+    prisma.unit.updateMany.mockRejectedValueOnce(new Error('deadlock')).mockResolvedValueOnce({ count: 1 });
+
+    await expect(runSweep()).resolves.toEqual({ changed: 1 });
+
+    expect(prisma.unitBlock.update).toHaveBeenCalledWith({ where: { id: '2' }, data: { appliedAt: now } });
+  });
+});
@@ -0,0 +1,105 @@
+import { Job } from 'bull';
+import { PrismaClient, UnitBlock } from '@prisma/client';
+import { UNIT_BLOCK_STATUS, nextBlockTransition, statusAfterBlock } from '@staffnbdt/shared';
+import { Logger } from '../services/logger.service';
+
+export interface UnitBlockScheduleJobData {
+  // Without a blockId the job is the periodic sweep over every block that is due
+  blockId?: string;
+}
+
+export interface UnitBlockScheduleResult {
+  changed: number;
+}
+
+/**
+ * Takes units off sale when their out-of-order, out-of-service or owner-use
+ * block starts and hands them back when it is over. Blocks released early by
+ * staff are handled by the BFF and never reach here.
+ */
+export class UnitBlockScheduleProcessor {
+  private readonly logger = new Logger('UnitBlockScheduleProcessor');
+
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async process(job: Job<UnitBlockScheduleJobData>): Promise<UnitBlockScheduleResult> {
+    const now = new Date();
+    const { blockId } = job.data;
+
+    if (blockId) {
+      const block = await this.prisma.unitBlock.findUnique({ where: { id: blockId } });
+      if (!block) {
+        throw new Error(`Unit block ${blockId} not found`);
+      }
+      return { changed: (await this.syncBlock(block, now)) ? 1 : 0 };
+    }
+
+    const due = await this.prisma.unitBlock.findMany({
+      where: {
+        releasedAt: null,
+        OR: [{ appliedAt: null, startDate: { lte: now } }, { endDate: { lte: now } }],
+      },
+    });
+
+    let changed = 0;
+    for (const block of due) {
+      // One block that fails must not hold back the others; it is retried next sweep
+      try {
+        if (await this.syncBlock(block, now)) {
+          changed++;
+        }
+      } catch (error) {
+        this.logger.error('Failed to update unit block', {
+          blockId: block.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (changed > 0) {
+      this.logger.info('Unit blocks updated', { changed });
+    }
+    return { changed };
+  }
+
+  /** Returns whether the block started or ended */
+  private async syncBlock(block: UnitBlock, now: Date): Promise<boolean> {
+    const transition = nextBlockTransition(block, now);
+
+    if (transition === 'release') {
+      await this.prisma.$transaction(async (tx) => {
+        if (block.appliedAt) {
+          const unit = await tx.unit.findUnique({ where: { id: block.unitId } });
+          // Leave the unit alone if someone changed its status while the block ran
+          if (unit && unit.status === UNIT_BLOCK_STATUS[block.type]) {
+            await tx.unit.update({
+              where: { id: unit.id },
+              data: { status: statusAfterBlock(unit.housekeepingStatus) },
+            });
+          }
+        }
+
+        await tx.unitBlock.update({ where: { id: block.id }, data: { releasedAt: now } });
+      });
+      return true;
+    }
+
+    if (transition === 'apply') {
+      return this.prisma.$transaction(async (tx) => {
+        // A guest still in the room keeps it occupied; the block applies on the next run after they leave
+        const switched = await tx.unit.updateMany({
+          where: { id: block.unitId, status: { not: 'OCCUPIED' } },
+          data: { status: UNIT_BLOCK_STATUS[block.type] },
+        });
+        if (switched.count === 0) {
+          return false;
+        }
+
+        await tx.unitBlock.update({ where: { id: block.id }, data: { appliedAt: now } });
+        return true;
+      });
+    }
+
+    return false;
+  }
+}
@@ -59,6 +59,80 @@ export interface CertificateData {
   };
 }
 
+export interface FolioData {
+  folio: {
+    folioNumber: string;
+    name: string;
+    status: string;
+    currency: string;
+    closedAt?: Date | null;
+  };
+  reservation: {
+    reservationNumber: string;
+    checkInDate: Date;
+    checkOutDate: Date;
+    unitNumber: string;
+  };
+  guest: {
+    firstName: string;
+    lastName: string;
+    email?: string | null;
+  };
+  lines: Array<{
+    serviceDate: Date;
+    category: string;
+    description: string;
+    quantity: number;
+    amount: number;
+  }>;
+  totals: {
+    charges: number;
+    credits: number;
+    balance: number;
+  };
+  property: {
+    name: string;
+    email?: string | null;
+    phoneNumber?: string | null;
+  };
+  generatedAt: Date;
+}
+
+export interface NightAuditReportData {
+  businessDate: string;
+  property: {
+    name: string;
+    timezone: string;
+  };
+  currency: string;
+  statistics: {
+    totalUnits: number;
+    occupiedUnits: number;
+    occupancyRate: number;
+    adr: number;
+    revpar: number;
+    arrivals: number;
+    departures: number;
+  };
+  noShows: Array<{
+    reservationNumber: string;
+    guestName: string;
+    unitNumber: string;
+  }>;
+  roomCharges: Array<{
+    reservationNumber: string;
+    guestName: string;
+    unitNumber: string;
+    roomAmount: number;
+    taxAmount: number;
+  }>;
+  totals: {
+    roomRevenue: number;
+    taxRevenue: number;
+  };
+  generatedAt: Date;
+}
+
 export class PDFService {
   private readonly logger = new Logger('PDFService');
   private browser: Browser | null = null;
@@ -214,6 +288,57 @@ export class PDFService {
     }
   }
 
+  async generateFolio(data: FolioData, options?: PDFGenerationOptions): Promise<Buffer> {
+    try {
+      const html = await this.renderTemplate('folio', data);
+
+      const defaultOptions: PDFGenerationOptions = {
+        format: 'A4',
+        orientation: 'portrait',
+        displayHeaderFooter: true,
+        footerTemplate: `
+          <div style="font-size: 10px; padding: 10px; width: 100%; text-align: center;">
+            Folio ${data.folio.folioNumber} | Page <span class="pageNumber"></span> of <span class="totalPages"></span>
+          </div>
+        `,
+      };
+
+      return this.generatePDFFromHTML(html, { ...defaultOptions, ...options });
+
+    } catch (error) {
+      this.logger.error('Failed to generate folio PDF:', error, {
+        folioNumber: data.folio.folioNumber,
+      });
+      throw error;
+    }
+  }
+
+  async generateNightAuditReport(data: NightAuditReportData, options?: PDFGenerationOptions): Promise<Buffer> {
+    try {
+      const html = await this.renderTemplate('night-audit', data);
+
+      const defaultOptions: PDFGenerationOptions = {
+        format: 'A4',
+        orientation: 'portrait',
+        displayHeaderFooter: true,
+        footerTemplate: `
+          <div style="font-size: 10px; padding: 10px; width: 100%; text-align: center;">
+            Night audit ${data.businessDate} | Page <span class="pageNumber"></span> of <span class="totalPages"></span>
+          </div>
+        `,
+      };
+
+      return this.generatePDFFromHTML(html, { ...defaultOptions, ...options });
+
+    } catch (error) {
+      this.logger.error('Failed to generate night audit report:', error, {
+        property: data.property.name,
+        businessDate: data.businessDate,
+      });
+      throw error;
+    }
+  }
+
   private async renderTemplate(templateName: string, data: any): Promise<string> {
     try {
       let template = this.compiledTemplates.get(templateName);
@@ -239,7 +364,7 @@ export class PDFService {
   }
 
   private precompileTemplates(): void {
-    const templates = ['payslip', 'certificate'];
+    const templates = ['payslip', 'certificate', 'folio', 'night-audit'];
 
     templates.forEach(templateName => {
       const templatePath = join(this.templatesPath, `${templateName}.hbs`);
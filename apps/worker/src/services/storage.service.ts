@@ -268,6 +268,35 @@ export class StorageService {
     }, 'payslips');
   }
 
+  async uploadFolio(
+    file: Buffer,
+    fileName: string,
+    folioId: string,
+    requestedBy?: string
+  ): Promise<UploadResult> {
+    return this.uploadFile(file, {
+      originalName: fileName,
+      size: file.length,
+      mimeType: 'application/pdf',
+      uploadedBy: requestedBy,
+      tags: { type: 'folio', folioId },
+    }, 'folios');
+  }
+
+  async uploadNightAuditReport(
+    file: Buffer,
+    fileName: string,
+    propertyId: string,
+    businessDate: string
+  ): Promise<UploadResult> {
+    return this.uploadFile(file, {
+      originalName: fileName,
+      size: file.length,
+      mimeType: 'application/pdf',
+      tags: { type: 'night-audit', propertyId, businessDate },
+    }, 'night-audits');
+  }
+
   async uploadTrainingAsset(
     file: Buffer,
     originalName: string,
@@ -0,0 +1,77 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AssignmentDecision, assignmentCandidates, chooseAssignee } from '@staffnbdt/shared';
+
+/**
+ * Runs a department's assignment rule for tasks the worker creates, the same
+ * way the BFF does for tasks created there.
+ */
+export class TaskAssignmentService {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /** Stores the decision on the task; returns null when the department has no enabled rule */
+  async autoAssign(taskId: string, now: Date = new Date()): Promise<AssignmentDecision | null> {
+    const task = await this.prisma.task.findUnique({
+      where: { id: taskId },
+      include: { unit: { select: { building: true, floor: true } } },
+    });
+    if (!task?.departmentId) {
+      return null;
+    }
+
+    const rule = await this.prisma.taskAssignmentRule.findUnique({ where: { departmentId: task.departmentId } });
+    if (!rule?.isEnabled) {
+      return null;
+    }
+
+    const staff = await this.prisma.user.findMany({
+      where: { departmentId: task.departmentId, deletedAt: null },
+      select: { id: true, firstName: true, lastName: true, skills: true, languages: true, dutyStartedAt: true },
+    });
+    const staffIds = staff.map((user) => user.id);
+    const startOfDay = new Date(now);
+    startOfDay.setUTCHours(0, 0, 0, 0);
+
+    const [openTasks, onLeave, recentTasks] = await Promise.all([
+      this.prisma.task.groupBy({
+        by: ['assignedToId'],
+        where: { assignedToId: { in: staffIds }, status: { in: ['PENDING', 'IN_PROGRESS'] }, id: { not: task.id } },
+        _count: { _all: true },
+      }),
+      this.prisma.vacation.findMany({
+        where: { userId: { in: staffIds }, status: 'APPROVED', startDate: { lte: now }, endDate: { gte: startOfDay } },
+        select: { userId: true },
+      }),
+      this.prisma.task.findMany({
+        where: {
+          assignedToId: { in: staffIds },
+          unitId: { not: null },
+          OR: [{ status: 'IN_PROGRESS' }, { status: 'COMPLETED', completedAt: { gte: startOfDay } }],
+        },
+        select: { assignedToId: true, status: true, unit: { select: { building: true, floor: true } } },
+        orderBy: { updatedAt: 'desc' },
+      }),
+    ]);
+
+    const decision = chooseAssignee(
+      { requiredSkills: task.requiredSkills, language: task.language, location: task.unit },
+      assignmentCandidates(
+        staff,
+        new Map(openTasks.map((row) => [row.assignedToId!, row._count._all])),
+        new Set(onLeave.map((vacation) => vacation.userId)),
+        recentTasks
+      ),
+      rule,
+      now
+    );
+
+    await this.prisma.task.update({
+      where: { id: task.id },
+      data: {
+        assignedToId: decision.assignedToId ?? task.assignedToId,
+        assignmentExplanation: decision as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    return decision;
+  }
+}
@@ -8,11 +8,21 @@ import { FileProcessingProcessor } from './processors/file-processing.processor'
 import { VacationNotificationProcessor } from './processors/vacation-notification.processor';
 import { ConciergeSLAProcessor } from './processors/concierge-sla.processor';
 import { ConciergePlaybookProcessor } from './processors/concierge-playbook.processor';
+import { FolioPdfProcessor } from './processors/folio-pdf.processor';
+import { NightAuditProcessor } from './processors/night-audit.processor';
+import { PreventiveMaintenanceProcessor } from './processors/preventive-maintenance.processor';
+import { TaskSlaEscalationProcessor } from './processors/task-sla-escalation.processor';
+import { ApprovalReminderProcessor } from './processors/approval-reminder.processor';
+import { CalendarFeedSyncProcessor } from './processors/calendar-feed-sync.processor';
+import { GuestPrivacyProcessor } from './processors/guest-privacy.processor';
+import { PreArrivalLinkProcessor } from './processors/pre-arrival-link.processor';
+import { UnitBlockScheduleProcessor } from './processors/unit-block-schedule.processor';
 import { Logger } from './services/logger.service';
 import { EmailService } from './services/email.service';
 import { StorageService } from './services/storage.service';
 import { PDFService } from './services/pdf.service';
 import { AntivirusService } from './services/antivirus.service';
+import { TaskAssignmentService } from './services/task-assignment.service';
 
 export class WorkerApplication {
   private readonly logger = new Logger('WorkerApplication');
@@ -22,6 +32,7 @@ export class WorkerApplication {
   private readonly storageService: StorageService;
   private readonly pdfService: PDFService;
   private readonly antivirusService: AntivirusService;
+  private readonly taskAssignmentService: TaskAssignmentService;
 
   // Processors
   private readonly payrollImportProcessor: PayrollImportProcessor;
@@ -32,6 +43,15 @@ export class WorkerApplication {
   private readonly vacationNotificationProcessor: VacationNotificationProcessor;
   private readonly conciergeSLAProcessor: ConciergeSLAProcessor;
   private readonly conciergePlaybookProcessor: ConciergePlaybookProcessor;
+  private readonly folioPdfProcessor: FolioPdfProcessor;
+  private readonly nightAuditProcessor: NightAuditProcessor;
+  private readonly preventiveMaintenanceProcessor: PreventiveMaintenanceProcessor;
+  private readonly taskSlaEscalationProcessor: TaskSlaEscalationProcessor;
+  private readonly approvalReminderProcessor: ApprovalReminderProcessor;
+  private readonly calendarFeedSyncProcessor: CalendarFeedSyncProcessor;
+  private readonly guestPrivacyProcessor: GuestPrivacyProcessor;
+  private readonly preArrivalLinkProcessor: PreArrivalLinkProcessor;
+  private readonly unitBlockScheduleProcessor: UnitBlockScheduleProcessor;
 
   constructor() {
     this.logger.info('Initializing Worker Application...');
@@ -46,6 +66,7 @@ export class WorkerApplication {
     this.storageService = new StorageService();
     this.pdfService = new PDFService();
     this.antivirusService = new AntivirusService();
+    this.taskAssignmentService = new TaskAssignmentService(this.prisma);
 
     // Initialize queue manager
     this.queueManager = new QueueManager();
@@ -86,6 +107,26 @@ export class WorkerApplication {
 
     this.conciergeSLAProcessor = new ConciergeSLAProcessor(this.prisma);
     this.conciergePlaybookProcessor = new ConciergePlaybookProcessor(this.prisma);
+
+    this.folioPdfProcessor = new FolioPdfProcessor(
+      this.prisma,
+      this.pdfService,
+      this.storageService
+    );
+
+    this.nightAuditProcessor = new NightAuditProcessor(
+      this.prisma,
+      this.pdfService,
+      this.storageService
+    );
+
+    this.preventiveMaintenanceProcessor = new PreventiveMaintenanceProcessor(this.prisma, this.taskAssignmentService);
+    this.taskSlaEscalationProcessor = new TaskSlaEscalationProcessor(this.prisma);
+    this.approvalReminderProcessor = new ApprovalReminderProcessor(this.prisma);
+    this.calendarFeedSyncProcessor = new CalendarFeedSyncProcessor(this.prisma);
+    this.guestPrivacyProcessor = new GuestPrivacyProcessor(this.prisma);
+    this.preArrivalLinkProcessor = new PreArrivalLinkProcessor(this.prisma, this.emailService);
+    this.unitBlockScheduleProcessor = new UnitBlockScheduleProcessor(this.prisma);
   }
 
   async start(): Promise<void> {
@@ -178,6 +219,100 @@ export class WorkerApplication {
       this.conciergePlaybookProcessor.process.bind(this.conciergePlaybookProcessor)
     );
 
+    // Register folio PDF processor
+    await this.queueManager.registerProcessor(
+      'folio-pdf-generation',
+      this.folioPdfProcessor.process.bind(this.folioPdfProcessor)
+    );
+
+    // Register night audit processor; the repeating sweep finds properties whose audit time has passed
+    await this.queueManager.registerProcessor(
+      'night-audit',
+      this.nightAuditProcessor.process.bind(this.nightAuditProcessor)
+    );
+
+    await this.queueManager.addJob('night-audit', 'night-audit-sweep', {}, {
+      jobId: 'night-audit-sweep',
+      repeat: { every: parseInt(process.env.NIGHT_AUDIT_SWEEP_INTERVAL_MS || '900000') },
+    });
+
+    // Register preventive maintenance processor; the repeating sweep creates upcoming scheduled tasks
+    await this.queueManager.registerProcessor(
+      'preventive-maintenance',
+      this.preventiveMaintenanceProcessor.process.bind(this.preventiveMaintenanceProcessor)
+    );
+
+    await this.queueManager.addJob('preventive-maintenance', 'preventive-maintenance-sweep', {}, {
+      jobId: 'preventive-maintenance-sweep',
+      repeat: { every: parseInt(process.env.PREVENTIVE_MAINTENANCE_SWEEP_INTERVAL_MS || '3600000') },
+    });
+
+    // Register task SLA escalation processor; the repeating sweep escalates tasks past their targets
+    await this.queueManager.registerProcessor(
+      'task-sla-escalation',
+      this.taskSlaEscalationProcessor.process.bind(this.taskSlaEscalationProcessor)
+    );
+
+    await this.queueManager.addJob('task-sla-escalation', 'task-sla-escalation-sweep', {}, {
+      jobId: 'task-sla-escalation-sweep',
+      repeat: { every: parseInt(process.env.TASK_SLA_SWEEP_INTERVAL_MS || '300000') },
+    });
+
+    // Register approval reminder processor; the repeating sweep reminds, delegates and escalates stale approvals
+    await this.queueManager.registerProcessor(
+      'approval-reminder',
+      this.approvalReminderProcessor.process.bind(this.approvalReminderProcessor)
+    );
+
+    await this.queueManager.addJob('approval-reminder', 'approval-reminder-sweep', {}, {
+      jobId: 'approval-reminder-sweep',
+      repeat: { every: parseInt(process.env.APPROVAL_REMINDER_SWEEP_INTERVAL_MS || '900000') },
+    });
+
+    // Register calendar feed sync processor; the repeating sweep imports every active channel feed
+    await this.queueManager.registerProcessor(
+      'calendar-feed-sync',
+      this.calendarFeedSyncProcessor.process.bind(this.calendarFeedSyncProcessor)
+    );
+
+    await this.queueManager.addJob('calendar-feed-sync', 'calendar-feed-sync-sweep', {}, {
+      jobId: 'calendar-feed-sync-sweep',
+      repeat: { every: parseInt(process.env.CALENDAR_FEED_SYNC_INTERVAL_MS || '1800000') },
+    });
+
+    // Register guest privacy processor; the repeating sweep anonymizes guests past their retention period
+    await this.queueManager.registerProcessor(
+      'guest-privacy',
+      this.guestPrivacyProcessor.process.bind(this.guestPrivacyProcessor)
+    );
+
+    await this.queueManager.addJob('guest-privacy', 'guest-retention-sweep', {}, {
+      jobId: 'guest-retention-sweep',
+      repeat: { every: parseInt(process.env.GUEST_RETENTION_SWEEP_INTERVAL_MS || '86400000') },
+    });
+
+    // Register pre-arrival link processor; the repeating sweep emails check-in links to upcoming arrivals
+    await this.queueManager.registerProcessor(
+      'pre-arrival-links',
+      this.preArrivalLinkProcessor.process.bind(this.preArrivalLinkProcessor)
+    );
+
+    await this.queueManager.addJob('pre-arrival-links', 'pre-arrival-links-sweep', {}, {
+      jobId: 'pre-arrival-links-sweep',
+      repeat: { every: parseInt(process.env.PRE_ARRIVAL_LINK_SWEEP_INTERVAL_MS || '3600000') },
+    });
+
+    // Register unit block processor; the repeating sweep starts and ends out-of-order and owner-use blocks
+    await this.queueManager.registerProcessor(
+      'unit-blocks',
+      this.unitBlockScheduleProcessor.process.bind(this.unitBlockScheduleProcessor)
+    );
+
+    await this.queueManager.addJob('unit-blocks', 'unit-block-schedule-sweep', {}, {
+      jobId: 'unit-block-schedule-sweep',
+      repeat: { every: parseInt(process.env.UNIT_BLOCK_SWEEP_INTERVAL_MS || '900000') },
+    });
+
     this.logger.info('All processors registered successfully');
   }
 
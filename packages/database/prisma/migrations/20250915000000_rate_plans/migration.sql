@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "RatePlanType" AS ENUM ('BAR', 'NON_REFUNDABLE', 'CORPORATE', 'PACKAGE');
+
+-- AlterTable
+ALTER TABLE "Reservation" ADD COLUMN "ratePlanId" TEXT;
+ALTER TABLE "Reservation" ADD COLUMN "nightlyRates" JSONB;
+
+-- CreateTable
+CREATE TABLE "RatePlan" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT,
+    "propertyId" TEXT NOT NULL,
+    "roomTypeId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "planType" "RatePlanType" NOT NULL DEFAULT 'BAR',
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "baseRate" DECIMAL(10,2),
+    "dayOfWeekModifiers" JSONB,
+    "minLengthOfStay" INTEGER,
+    "maxLengthOfStay" INTEGER,
+    "baseOccupancy" INTEGER NOT NULL DEFAULT 2,
+    "extraAdultRate" DECIMAL(10,2),
+    "extraChildRate" DECIMAL(10,2),
+    "packageRate" DECIMAL(10,2),
+    "inclusions" TEXT[],
+    "isRefundable" BOOLEAN NOT NULL DEFAULT true,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RatePlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RateSeason" (
+    "id" TEXT NOT NULL,
+    "ratePlanId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "nightlyRate" DECIMAL(10,2) NOT NULL,
+    "dayOfWeekModifiers" JSONB,
+    "minLengthOfStay" INTEGER,
+    "maxLengthOfStay" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RateSeason_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RatePlan_propertyId_code_key" ON "RatePlan"("propertyId", "code");
+CREATE INDEX "RatePlan_propertyId_idx" ON "RatePlan"("propertyId");
+CREATE INDEX "RatePlan_roomTypeId_idx" ON "RatePlan"("roomTypeId");
+CREATE INDEX "RatePlan_isActive_idx" ON "RatePlan"("isActive");
+CREATE INDEX "RateSeason_ratePlanId_idx" ON "RateSeason"("ratePlanId");
+CREATE INDEX "RateSeason_startDate_endDate_idx" ON "RateSeason"("startDate", "endDate");
+CREATE INDEX "Reservation_ratePlanId_idx" ON "Reservation"("ratePlanId");
+
+-- AddForeignKey
+ALTER TABLE "RatePlan" ADD CONSTRAINT "RatePlan_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "RatePlan" ADD CONSTRAINT "RatePlan_roomTypeId_fkey" FOREIGN KEY ("roomTypeId") REFERENCES "RoomType"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "RateSeason" ADD CONSTRAINT "RateSeason_ratePlanId_fkey" FOREIGN KEY ("ratePlanId") REFERENCES "RatePlan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "Reservation" ADD CONSTRAINT "Reservation_ratePlanId_fkey" FOREIGN KEY ("ratePlanId") REFERENCES "RatePlan"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,73 @@
+-- CreateEnum
+CREATE TYPE "ReservationGroupType" AS ENUM ('WEDDING', 'CORPORATE', 'TOUR', 'CONFERENCE', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "ReservationGroupStatus" AS ENUM ('TENTATIVE', 'DEFINITE', 'CANCELLED', 'COMPLETED');
+
+-- CreateEnum
+CREATE TYPE "GroupBillingType" AS ENUM ('MASTER_ACCOUNT', 'INDIVIDUAL');
+
+-- AlterTable
+ALTER TABLE "Reservation" ADD COLUMN "groupId" TEXT;
+ALTER TABLE "Reservation" ADD COLUMN "roomBlockId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ReservationGroup" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT,
+    "propertyId" TEXT NOT NULL,
+    "groupCode" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "groupType" "ReservationGroupType" NOT NULL DEFAULT 'OTHER',
+    "status" "ReservationGroupStatus" NOT NULL DEFAULT 'TENTATIVE',
+    "billingType" "GroupBillingType" NOT NULL DEFAULT 'MASTER_ACCOUNT',
+    "contactName" TEXT,
+    "contactEmail" TEXT,
+    "contactPhone" TEXT,
+    "arrivalDate" TIMESTAMP(3) NOT NULL,
+    "departureDate" TIMESTAMP(3) NOT NULL,
+    "notes" TEXT,
+    "createdBy" TEXT,
+    "cancelledAt" TIMESTAMP(3),
+    "cancelledBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReservationGroup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RoomBlock" (
+    "id" TEXT NOT NULL,
+    "groupId" TEXT NOT NULL,
+    "roomTypeId" TEXT NOT NULL,
+    "ratePlanId" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "roomsBlocked" INTEGER NOT NULL,
+    "releaseDate" TIMESTAMP(3) NOT NULL,
+    "releasedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RoomBlock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReservationGroup_propertyId_groupCode_key" ON "ReservationGroup"("propertyId", "groupCode");
+CREATE INDEX "ReservationGroup_propertyId_idx" ON "ReservationGroup"("propertyId");
+CREATE INDEX "ReservationGroup_status_idx" ON "ReservationGroup"("status");
+CREATE INDEX "ReservationGroup_arrivalDate_departureDate_idx" ON "ReservationGroup"("arrivalDate", "departureDate");
+CREATE INDEX "RoomBlock_groupId_idx" ON "RoomBlock"("groupId");
+CREATE INDEX "RoomBlock_roomTypeId_idx" ON "RoomBlock"("roomTypeId");
+CREATE INDEX "RoomBlock_startDate_endDate_idx" ON "RoomBlock"("startDate", "endDate");
+CREATE INDEX "Reservation_groupId_idx" ON "Reservation"("groupId");
+CREATE INDEX "Reservation_roomBlockId_idx" ON "Reservation"("roomBlockId");
+
+-- AddForeignKey
+ALTER TABLE "ReservationGroup" ADD CONSTRAINT "ReservationGroup_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "RoomBlock" ADD CONSTRAINT "RoomBlock_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "ReservationGroup"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "RoomBlock" ADD CONSTRAINT "RoomBlock_roomTypeId_fkey" FOREIGN KEY ("roomTypeId") REFERENCES "RoomType"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "RoomBlock" ADD CONSTRAINT "RoomBlock_ratePlanId_fkey" FOREIGN KEY ("ratePlanId") REFERENCES "RatePlan"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Reservation" ADD CONSTRAINT "Reservation_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "ReservationGroup"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Reservation" ADD CONSTRAINT "Reservation_roomBlockId_fkey" FOREIGN KEY ("roomBlockId") REFERENCES "RoomBlock"("id") ON DELETE SET NULL ON UPDATE CASCADE;
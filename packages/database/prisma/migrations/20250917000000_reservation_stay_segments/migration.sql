@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "ReservationStaySegment" (
+    "id" TEXT NOT NULL,
+    "reservationId" TEXT NOT NULL,
+    "unitId" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "reason" TEXT,
+    "movedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReservationStaySegment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReservationStaySegment_reservationId_idx" ON "ReservationStaySegment"("reservationId");
+CREATE INDEX "ReservationStaySegment_unitId_idx" ON "ReservationStaySegment"("unitId");
+CREATE INDEX "ReservationStaySegment_startDate_endDate_idx" ON "ReservationStaySegment"("startDate", "endDate");
+
+-- AddForeignKey
+ALTER TABLE "ReservationStaySegment" ADD CONSTRAINT "ReservationStaySegment_reservationId_fkey" FOREIGN KEY ("reservationId") REFERENCES "Reservation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ReservationStaySegment" ADD CONSTRAINT "ReservationStaySegment_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "Unit"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,73 @@
+-- CreateEnum
+CREATE TYPE "FolioStatus" AS ENUM ('OPEN', 'CLOSED');
+
+-- CreateEnum
+CREATE TYPE "FolioChargeCategory" AS ENUM ('ROOM', 'FOOD_BEVERAGE', 'SPA', 'CONCIERGE', 'TAX', 'MISC', 'ADJUSTMENT', 'PAYMENT');
+
+-- CreateEnum
+CREATE TYPE "FolioLineStatus" AS ENUM ('POSTED', 'VOIDED', 'TRANSFERRED');
+
+-- CreateTable
+CREATE TABLE "Folio" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "reservationId" TEXT NOT NULL,
+    "folioNumber" TEXT NOT NULL,
+    "name" TEXT NOT NULL DEFAULT 'Guest',
+    "isPrimary" BOOLEAN NOT NULL DEFAULT false,
+    "status" "FolioStatus" NOT NULL DEFAULT 'OPEN',
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "pdfFileKey" TEXT,
+    "pdfUrl" TEXT,
+    "pdfRequestedAt" TIMESTAMP(3),
+    "pdfGeneratedAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+    "closedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Folio_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FolioLine" (
+    "id" TEXT NOT NULL,
+    "folioId" TEXT NOT NULL,
+    "category" "FolioChargeCategory" NOT NULL,
+    "status" "FolioLineStatus" NOT NULL DEFAULT 'POSTED',
+    "description" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "unitAmount" DECIMAL(10,2) NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "serviceDate" TIMESTAMP(3) NOT NULL,
+    "reference" TEXT,
+    "parentLineId" TEXT,
+    "transferredFromLineId" TEXT,
+    "postedBy" TEXT,
+    "voidedAt" TIMESTAMP(3),
+    "voidedBy" TEXT,
+    "voidReason" TEXT,
+    "transferredAt" TIMESTAMP(3),
+    "transferredBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FolioLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Folio_folioNumber_key" ON "Folio"("folioNumber");
+CREATE INDEX "Folio_propertyId_idx" ON "Folio"("propertyId");
+CREATE INDEX "Folio_reservationId_idx" ON "Folio"("reservationId");
+CREATE INDEX "Folio_status_idx" ON "Folio"("status");
+CREATE INDEX "FolioLine_folioId_idx" ON "FolioLine"("folioId");
+CREATE INDEX "FolioLine_status_idx" ON "FolioLine"("status");
+CREATE INDEX "FolioLine_category_idx" ON "FolioLine"("category");
+CREATE INDEX "FolioLine_serviceDate_idx" ON "FolioLine"("serviceDate");
+CREATE INDEX "FolioLine_parentLineId_idx" ON "FolioLine"("parentLineId");
+
+-- AddForeignKey
+ALTER TABLE "Folio" ADD CONSTRAINT "Folio_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "Folio" ADD CONSTRAINT "Folio_reservationId_fkey" FOREIGN KEY ("reservationId") REFERENCES "Reservation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "FolioLine" ADD CONSTRAINT "FolioLine_folioId_fkey" FOREIGN KEY ("folioId") REFERENCES "Folio"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "FolioLine" ADD CONSTRAINT "FolioLine_parentLineId_fkey" FOREIGN KEY ("parentLineId") REFERENCES "FolioLine"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "PaymentTransactionType" AS ENUM ('PAYMENT', 'DEPOSIT', 'REFUND');
+
+-- CreateEnum
+CREATE TYPE "PaymentTransactionStatus" AS ENUM ('PENDING', 'CAPTURED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "PaymentMethod" AS ENUM ('CASH', 'CARD', 'BANK_TRANSFER', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "DepositStatus" AS ENUM ('PENDING', 'PAID', 'WAIVED');
+
+-- CreateTable
+CREATE TABLE "PaymentTransaction" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "reservationId" TEXT NOT NULL,
+    "type" "PaymentTransactionType" NOT NULL,
+    "status" "PaymentTransactionStatus" NOT NULL DEFAULT 'PENDING',
+    "method" "PaymentMethod" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "reference" TEXT,
+    "provider" TEXT NOT NULL,
+    "providerReference" TEXT,
+    "failureReason" TEXT,
+    "originalTransactionId" TEXT,
+    "depositId" TEXT,
+    "notes" TEXT,
+    "capturedBy" TEXT,
+    "capturedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReservationDeposit" (
+    "id" TEXT NOT NULL,
+    "reservationId" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "description" TEXT,
+    "status" "DepositStatus" NOT NULL DEFAULT 'PENDING',
+    "paidAt" TIMESTAMP(3),
+    "waivedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReservationDeposit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PaymentTransaction_propertyId_idx" ON "PaymentTransaction"("propertyId");
+CREATE INDEX "PaymentTransaction_reservationId_idx" ON "PaymentTransaction"("reservationId");
+CREATE INDEX "PaymentTransaction_status_idx" ON "PaymentTransaction"("status");
+CREATE INDEX "PaymentTransaction_originalTransactionId_idx" ON "PaymentTransaction"("originalTransactionId");
+CREATE INDEX "PaymentTransaction_depositId_idx" ON "PaymentTransaction"("depositId");
+CREATE INDEX "ReservationDeposit_reservationId_idx" ON "ReservationDeposit"("reservationId");
+CREATE INDEX "ReservationDeposit_status_dueDate_idx" ON "ReservationDeposit"("status", "dueDate");
+
+-- AddForeignKey
+ALTER TABLE "PaymentTransaction" ADD CONSTRAINT "PaymentTransaction_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "PaymentTransaction" ADD CONSTRAINT "PaymentTransaction_reservationId_fkey" FOREIGN KEY ("reservationId") REFERENCES "Reservation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "PaymentTransaction" ADD CONSTRAINT "PaymentTransaction_originalTransactionId_fkey" FOREIGN KEY ("originalTransactionId") REFERENCES "PaymentTransaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "PaymentTransaction" ADD CONSTRAINT "PaymentTransaction_depositId_fkey" FOREIGN KEY ("depositId") REFERENCES "ReservationDeposit"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "ReservationDeposit" ADD CONSTRAINT "ReservationDeposit_reservationId_fkey" FOREIGN KEY ("reservationId") REFERENCES "Reservation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: existing paidAmount becomes one captured payment so recalculation keeps it
+INSERT INTO "PaymentTransaction" ("id", "propertyId", "reservationId", "type", "status", "method", "amount", "currency", "reference", "provider", "capturedAt", "updatedAt")
+SELECT 'legacy_' || r."id", r."propertyId", r."id", 'PAYMENT', 'CAPTURED', 'OTHER', r."paidAmount", r."currency", r."paymentMethod", 'manual', r."updatedAt", CURRENT_TIMESTAMP
+FROM "Reservation" r
+WHERE r."paidAmount" > 0;
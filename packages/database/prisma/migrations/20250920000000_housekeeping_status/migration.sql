@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "HousekeepingStatus" AS ENUM ('DIRTY', 'CLEANING', 'CLEAN', 'INSPECTED');
+
+-- AlterTable
+ALTER TABLE "Unit" ADD COLUMN "housekeepingStatus" "HousekeepingStatus" NOT NULL DEFAULT 'INSPECTED',
+ADD COLUMN "housekeepingUpdatedAt" TIMESTAMP(3);
+
+-- Units already waiting on housekeeping start out dirty
+UPDATE "Unit" SET "housekeepingStatus" = 'DIRTY', "housekeepingUpdatedAt" = CURRENT_TIMESTAMP WHERE "status" = 'CLEANING';
+
+-- CreateIndex
+CREATE INDEX "Unit_housekeepingStatus_idx" ON "Unit"("housekeepingStatus");
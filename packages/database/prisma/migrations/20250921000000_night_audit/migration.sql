@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "NightAuditStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN     "businessDate" DATE,
+ADD COLUMN     "nightAuditTime" TEXT NOT NULL DEFAULT '03:00',
+ADD COLUMN     "roomTaxRate" DECIMAL(5,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "NightAudit" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "businessDate" DATE NOT NULL,
+    "status" "NightAuditStatus" NOT NULL DEFAULT 'RUNNING',
+    "noShowCount" INTEGER NOT NULL DEFAULT 0,
+    "roomNightsPosted" INTEGER NOT NULL DEFAULT 0,
+    "roomRevenue" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "taxRevenue" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "reportFileKey" TEXT,
+    "reportUrl" TEXT,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "NightAudit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NightAudit_status_idx" ON "NightAudit"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NightAudit_propertyId_businessDate_key" ON "NightAudit"("propertyId", "businessDate");
+
+-- AddForeignKey
+ALTER TABLE "NightAudit" ADD CONSTRAINT "NightAudit_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
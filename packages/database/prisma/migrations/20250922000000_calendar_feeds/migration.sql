@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "CalendarFeedSyncStatus" AS ENUM ('SUCCESS', 'CONFLICTS', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Unit" ADD COLUMN     "icalExportToken" TEXT;
+
+-- AlterTable
+ALTER TABLE "Reservation" ADD COLUMN     "calendarFeedId" TEXT,
+ADD COLUMN     "externalUid" TEXT;
+
+-- CreateTable
+CREATE TABLE "CalendarFeed" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "unitId" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "lastSyncedAt" TIMESTAMP(3),
+    "lastSyncStatus" "CalendarFeedSyncStatus",
+    "lastSyncResult" JSONB,
+    "lastError" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CalendarFeed_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Unit_icalExportToken_key" ON "Unit"("icalExportToken");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Reservation_calendarFeedId_externalUid_key" ON "Reservation"("calendarFeedId", "externalUid");
+
+-- CreateIndex
+CREATE INDEX "CalendarFeed_propertyId_idx" ON "CalendarFeed"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "CalendarFeed_isActive_idx" ON "CalendarFeed"("isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CalendarFeed_unitId_url_key" ON "CalendarFeed"("unitId", "url");
+
+-- AddForeignKey
+ALTER TABLE "Reservation" ADD CONSTRAINT "Reservation_calendarFeedId_fkey" FOREIGN KEY ("calendarFeedId") REFERENCES "CalendarFeed"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CalendarFeed" ADD CONSTRAINT "CalendarFeed_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CalendarFeed" ADD CONSTRAINT "CalendarFeed_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "Unit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
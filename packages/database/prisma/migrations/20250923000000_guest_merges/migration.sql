@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "GuestMergeStatus" AS ENUM ('APPLIED', 'UNDONE');
+
+-- AlterTable
+ALTER TABLE "Guest" ADD COLUMN     "mergedIntoId" TEXT;
+
+-- CreateTable
+CREATE TABLE "GuestMerge" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "survivorId" TEXT NOT NULL,
+    "mergedGuestId" TEXT NOT NULL,
+    "status" "GuestMergeStatus" NOT NULL DEFAULT 'APPLIED',
+    "score" INTEGER,
+    "reservationIds" TEXT[],
+    "conciergeObjectIds" TEXT[],
+    "survivorSnapshot" JSONB NOT NULL,
+    "mergedBy" TEXT NOT NULL,
+    "undoneBy" TEXT,
+    "undoneAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GuestMerge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GuestMerge_propertyId_idx" ON "GuestMerge"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "GuestMerge_survivorId_idx" ON "GuestMerge"("survivorId");
+
+-- CreateIndex
+CREATE INDEX "GuestMerge_mergedGuestId_idx" ON "GuestMerge"("mergedGuestId");
+
+-- AddForeignKey
+ALTER TABLE "GuestMerge" ADD CONSTRAINT "GuestMerge_survivorId_fkey" FOREIGN KEY ("survivorId") REFERENCES "Guest"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GuestMerge" ADD CONSTRAINT "GuestMerge_mergedGuestId_fkey" FOREIGN KEY ("mergedGuestId") REFERENCES "Guest"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
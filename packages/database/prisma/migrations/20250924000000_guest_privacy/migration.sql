@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN     "piiRetentionMonths" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Guest" ADD COLUMN     "anonymizedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Guest_anonymizedAt_idx" ON "Guest"("anonymizedAt");
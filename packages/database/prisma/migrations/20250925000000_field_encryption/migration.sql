@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Guest" ADD COLUMN     "passportIndex" TEXT,
+ADD COLUMN     "idNumberIndex" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Guest_passportIndex_idx" ON "Guest"("passportIndex");
+
+-- CreateIndex
+CREATE INDEX "Guest_idNumberIndex_idx" ON "Guest"("idNumberIndex");
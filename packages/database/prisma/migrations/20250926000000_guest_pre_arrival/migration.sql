@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Reservation" ADD COLUMN     "estimatedArrivalTime" TEXT,
+ADD COLUMN     "policiesAcceptedAt" TIMESTAMP(3),
+ADD COLUMN     "preArrivalCompletedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "GuestPortalToken" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "reservationId" TEXT NOT NULL,
+    "guestId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "submittedAt" TIMESTAMP(3),
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GuestPortalToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GuestPortalToken_tokenHash_key" ON "GuestPortalToken"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "GuestPortalToken_reservationId_idx" ON "GuestPortalToken"("reservationId");
+
+-- CreateIndex
+CREATE INDEX "GuestPortalToken_organizationId_propertyId_idx" ON "GuestPortalToken"("organizationId", "propertyId");
+
+-- CreateIndex
+CREATE INDEX "GuestPortalToken_expiresAt_idx" ON "GuestPortalToken"("expiresAt");
@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "CancellationPenaltyType" AS ENUM ('PERCENTAGE', 'FIRST_NIGHT', 'FULL_STAY');
+
+-- AlterEnum
+ALTER TYPE "FolioChargeCategory" ADD VALUE 'CANCELLATION';
+
+-- AlterTable
+ALTER TABLE "RoomType" ADD COLUMN     "cancellationPolicyId" TEXT;
+
+-- AlterTable
+ALTER TABLE "RatePlan" ADD COLUMN     "cancellationPolicyId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Reservation" ADD COLUMN     "cancellationFee" DECIMAL(10,2),
+ADD COLUMN     "cancellationPolicy" JSONB;
+
+-- CreateTable
+CREATE TABLE "CancellationPolicy" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT,
+    "propertyId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "freeCancellationHours" INTEGER,
+    "penaltyType" "CancellationPenaltyType" NOT NULL DEFAULT 'FIRST_NIGHT',
+    "penaltyPercent" DECIMAL(5,2),
+    "isNonRefundable" BOOLEAN NOT NULL DEFAULT false,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CancellationPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CancellationPolicy_propertyId_idx" ON "CancellationPolicy"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "CancellationPolicy_isActive_idx" ON "CancellationPolicy"("isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CancellationPolicy_propertyId_code_key" ON "CancellationPolicy"("propertyId", "code");
+
+-- AddForeignKey
+ALTER TABLE "RoomType" ADD CONSTRAINT "RoomType_cancellationPolicyId_fkey" FOREIGN KEY ("cancellationPolicyId") REFERENCES "CancellationPolicy"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RatePlan" ADD CONSTRAINT "RatePlan_cancellationPolicyId_fkey" FOREIGN KEY ("cancellationPolicyId") REFERENCES "CancellationPolicy"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CancellationPolicy" ADD CONSTRAINT "CancellationPolicy_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
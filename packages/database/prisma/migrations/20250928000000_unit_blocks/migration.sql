@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "UnitBlockType" AS ENUM ('OUT_OF_ORDER', 'OUT_OF_SERVICE', 'OWNER_USE');
+
+-- CreateTable
+CREATE TABLE "UnitBlock" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "unitId" TEXT NOT NULL,
+    "type" "UnitBlockType" NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "notes" TEXT,
+    "createdBy" TEXT,
+    "appliedAt" TIMESTAMP(3),
+    "releasedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UnitBlock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UnitBlock_propertyId_idx" ON "UnitBlock"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "UnitBlock_unitId_idx" ON "UnitBlock"("unitId");
+
+-- CreateIndex
+CREATE INDEX "UnitBlock_startDate_endDate_idx" ON "UnitBlock"("startDate", "endDate");
+
+-- AddForeignKey
+ALTER TABLE "UnitBlock" ADD CONSTRAINT "UnitBlock_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UnitBlock" ADD CONSTRAINT "UnitBlock_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "Unit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "MaintenanceFrequency" AS ENUM ('DAILY', 'WEEKLY', 'MONTHLY', 'STAYS');
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "maintenanceScheduleId" TEXT,
+ADD COLUMN     "occurrenceDate" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "MaintenanceSchedule" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "taskType" "TaskType" NOT NULL DEFAULT 'PREVENTIVE',
+    "priority" "TaskPriority" NOT NULL DEFAULT 'MEDIUM',
+    "frequency" "MaintenanceFrequency" NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "unitId" TEXT,
+    "roomTypeId" TEXT,
+    "departmentId" TEXT,
+    "assignedToId" TEXT,
+    "estimatedTime" INTEGER,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "leadDays" INTEGER NOT NULL DEFAULT 7,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MaintenanceSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MaintenanceSchedule_propertyId_idx" ON "MaintenanceSchedule"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "MaintenanceSchedule_isActive_idx" ON "MaintenanceSchedule"("isActive");
+
+-- CreateIndex
+CREATE INDEX "MaintenanceSchedule_unitId_idx" ON "MaintenanceSchedule"("unitId");
+
+-- CreateIndex
+CREATE INDEX "MaintenanceSchedule_roomTypeId_idx" ON "MaintenanceSchedule"("roomTypeId");
+
+-- CreateIndex
+CREATE INDEX "MaintenanceSchedule_departmentId_idx" ON "MaintenanceSchedule"("departmentId");
+
+-- CreateIndex
+CREATE INDEX "Task_maintenanceScheduleId_occurrenceDate_idx" ON "Task"("maintenanceScheduleId", "occurrenceDate");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_maintenanceScheduleId_fkey" FOREIGN KEY ("maintenanceScheduleId") REFERENCES "MaintenanceSchedule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MaintenanceSchedule" ADD CONSTRAINT "MaintenanceSchedule_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MaintenanceSchedule" ADD CONSTRAINT "MaintenanceSchedule_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "Unit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MaintenanceSchedule" ADD CONSTRAINT "MaintenanceSchedule_roomTypeId_fkey" FOREIGN KEY ("roomTypeId") REFERENCES "RoomType"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MaintenanceSchedule" ADD CONSTRAINT "MaintenanceSchedule_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "Department"("id") ON DELETE CASCADE ON UPDATE CASCADE;
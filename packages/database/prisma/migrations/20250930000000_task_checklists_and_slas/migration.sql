@@ -0,0 +1,77 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "startedAt" TIMESTAMP(3),
+ADD COLUMN     "responseDueAt" TIMESTAMP(3),
+ADD COLUMN     "resolutionDueAt" TIMESTAMP(3),
+ADD COLUMN     "responseEscalatedAt" TIMESTAMP(3),
+ADD COLUMN     "resolutionEscalatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "TaskChecklistTemplate" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "taskType" "TaskType" NOT NULL,
+    "name" TEXT NOT NULL,
+    "items" JSONB NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaskChecklistTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TaskChecklistItem" (
+    "id" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "label" TEXT NOT NULL,
+    "requiresPhoto" BOOLEAN NOT NULL DEFAULT false,
+    "completedAt" TIMESTAMP(3),
+    "completedBy" TEXT,
+    "photoKey" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaskChecklistItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TaskSlaPolicy" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "priority" "TaskPriority" NOT NULL,
+    "responseMinutes" INTEGER NOT NULL,
+    "resolutionMinutes" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaskSlaPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Task_responseDueAt_idx" ON "Task"("responseDueAt");
+
+-- CreateIndex
+CREATE INDEX "Task_resolutionDueAt_idx" ON "Task"("resolutionDueAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskChecklistTemplate_propertyId_taskType_key" ON "TaskChecklistTemplate"("propertyId", "taskType");
+
+-- CreateIndex
+CREATE INDEX "TaskChecklistTemplate_propertyId_idx" ON "TaskChecklistTemplate"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "TaskChecklistItem_taskId_idx" ON "TaskChecklistItem"("taskId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskSlaPolicy_propertyId_priority_key" ON "TaskSlaPolicy"("propertyId", "priority");
+
+-- AddForeignKey
+ALTER TABLE "TaskChecklistTemplate" ADD CONSTRAINT "TaskChecklistTemplate_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskChecklistItem" ADD CONSTRAINT "TaskChecklistItem_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskSlaPolicy" ADD CONSTRAINT "TaskSlaPolicy_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "skills" TEXT[],
+ADD COLUMN     "languages" TEXT[],
+ADD COLUMN     "dutyStartedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "requiredSkills" TEXT[],
+ADD COLUMN     "language" TEXT,
+ADD COLUMN     "assignmentExplanation" JSONB;
+
+-- CreateTable
+CREATE TABLE "TaskAssignmentRule" (
+    "id" TEXT NOT NULL,
+    "departmentId" TEXT NOT NULL,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "requireOnDuty" BOOLEAN NOT NULL DEFAULT true,
+    "requireSkills" BOOLEAN NOT NULL DEFAULT true,
+    "maxOpenTasks" INTEGER,
+    "skillWeight" INTEGER NOT NULL DEFAULT 3,
+    "languageWeight" INTEGER NOT NULL DEFAULT 2,
+    "workloadWeight" INTEGER NOT NULL DEFAULT 2,
+    "proximityWeight" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaskAssignmentRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskAssignmentRule_departmentId_key" ON "TaskAssignmentRule"("departmentId");
+
+-- AddForeignKey
+ALTER TABLE "TaskAssignmentRule" ADD CONSTRAINT "TaskAssignmentRule_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "Department"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,72 @@
+-- CreateEnum
+CREATE TYPE "EmploymentType" AS ENUM ('FULL_TIME', 'PART_TIME', 'SEASONAL', 'TEMPORARY');
+
+-- CreateEnum
+CREATE TYPE "LeaveEntryKind" AS ENUM ('ACCRUAL', 'USAGE', 'REVERSAL', 'EXPIRY', 'ADJUSTMENT');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "employmentType" "EmploymentType";
+
+-- AlterTable
+ALTER TABLE "Vacation" ADD COLUMN     "days" DECIMAL(6,2);
+
+-- CreateTable
+CREATE TABLE "LeavePolicy" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "departmentId" TEXT,
+    "employmentType" "EmploymentType",
+    "leaveType" "VacationType" NOT NULL,
+    "name" TEXT NOT NULL,
+    "annualDays" DECIMAL(6,2) NOT NULL,
+    "carryOverCap" DECIMAL(6,2),
+    "probationDays" INTEGER NOT NULL DEFAULT 0,
+    "allowNegativeBalance" BOOLEAN NOT NULL DEFAULT false,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LeavePolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LeaveBalanceEntry" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "leaveType" "VacationType" NOT NULL,
+    "kind" "LeaveEntryKind" NOT NULL,
+    "days" DECIMAL(6,2) NOT NULL,
+    "effectiveDate" TIMESTAMP(3) NOT NULL,
+    "period" TEXT,
+    "vacationId" TEXT,
+    "note" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LeaveBalanceEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LeavePolicy_propertyId_leaveType_idx" ON "LeavePolicy"("propertyId", "leaveType");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LeaveBalanceEntry_userId_leaveType_kind_period_key" ON "LeaveBalanceEntry"("userId", "leaveType", "kind", "period");
+
+-- CreateIndex
+CREATE INDEX "LeaveBalanceEntry_userId_leaveType_effectiveDate_idx" ON "LeaveBalanceEntry"("userId", "leaveType", "effectiveDate");
+
+-- CreateIndex
+CREATE INDEX "LeaveBalanceEntry_vacationId_idx" ON "LeaveBalanceEntry"("vacationId");
+
+-- AddForeignKey
+ALTER TABLE "LeavePolicy" ADD CONSTRAINT "LeavePolicy_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeavePolicy" ADD CONSTRAINT "LeavePolicy_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "Department"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeaveBalanceEntry" ADD CONSTRAINT "LeaveBalanceEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeaveBalanceEntry" ADD CONSTRAINT "LeaveBalanceEntry_vacationId_fkey" FOREIGN KEY ("vacationId") REFERENCES "Vacation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN     "workWeek" INTEGER[] DEFAULT ARRAY[1, 2, 3, 4, 5]::INTEGER[];
+
+-- AlterTable
+ALTER TABLE "Department" ADD COLUMN     "workWeek" INTEGER[];
+
+-- AlterTable
+ALTER TABLE "Vacation" ADD COLUMN     "halfDayStart" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "halfDayEnd" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "PublicHoliday" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "name" TEXT NOT NULL,
+    "isHalfDay" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PublicHoliday_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PublicHoliday_propertyId_date_key" ON "PublicHoliday"("propertyId", "date");
+
+-- AddForeignKey
+ALTER TABLE "PublicHoliday" ADD CONSTRAINT "PublicHoliday_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "CoverageRuleType" AS ENUM ('MAX_ABSENT', 'BLACKOUT');
+
+-- CreateEnum
+CREATE TYPE "CoverageEnforcement" AS ENUM ('WARN', 'BLOCK');
+
+-- CreateTable
+CREATE TABLE "CoverageRule" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "departmentId" TEXT,
+    "name" TEXT NOT NULL,
+    "type" "CoverageRuleType" NOT NULL,
+    "enforcement" "CoverageEnforcement" NOT NULL DEFAULT 'BLOCK',
+    "maxAbsent" INTEGER,
+    "position" TEXT,
+    "startDate" DATE,
+    "endDate" DATE,
+    "leaveTypes" "VacationType"[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CoverageRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CoverageRule_propertyId_departmentId_idx" ON "CoverageRule"("propertyId", "departmentId");
+
+-- AddForeignKey
+ALTER TABLE "CoverageRule" ADD CONSTRAINT "CoverageRule_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CoverageRule" ADD CONSTRAINT "CoverageRule_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "Department"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,154 @@
+-- CreateEnum
+CREATE TYPE "ApprovalSubjectType" AS ENUM ('VACATION');
+
+-- CreateEnum
+CREATE TYPE "ApproverType" AS ENUM ('REQUESTER_MANAGER', 'DEPARTMENT_MANAGER', 'ROLE', 'USER');
+
+-- CreateEnum
+CREATE TYPE "ApprovalStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "ApprovalStepStatus" AS ENUM ('WAITING', 'PENDING', 'APPROVED', 'REJECTED', 'SKIPPED');
+
+-- CreateTable
+CREATE TABLE "ApprovalChain" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "subjectType" "ApprovalSubjectType" NOT NULL,
+    "departmentId" TEXT,
+    "minAmount" DECIMAL(8,2),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApprovalChain_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApprovalChainStep" (
+    "id" TEXT NOT NULL,
+    "chainId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "approverType" "ApproverType" NOT NULL,
+    "approverRole" "Role",
+    "approverUserId" TEXT,
+    "approverDepartmentId" TEXT,
+    "reminderHours" INTEGER NOT NULL DEFAULT 24,
+    "escalateAfterHours" INTEGER,
+    "escalationRole" "Role" NOT NULL DEFAULT 'PROPERTY_MANAGER',
+
+    CONSTRAINT "ApprovalChainStep_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApprovalRequest" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "subjectType" "ApprovalSubjectType" NOT NULL,
+    "subjectId" TEXT NOT NULL,
+    "requesterId" TEXT NOT NULL,
+    "chainId" TEXT,
+    "status" "ApprovalStatus" NOT NULL DEFAULT 'PENDING',
+    "currentPosition" INTEGER NOT NULL DEFAULT 1,
+    "summary" TEXT NOT NULL,
+    "amount" DECIMAL(8,2),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApprovalRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApprovalStep" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "approverId" TEXT NOT NULL,
+    "originalApproverId" TEXT,
+    "status" "ApprovalStepStatus" NOT NULL DEFAULT 'WAITING',
+    "reminderHours" INTEGER NOT NULL,
+    "escalateAfterHours" INTEGER,
+    "escalationRole" "Role" NOT NULL,
+    "activatedAt" TIMESTAMP(3),
+    "remindedAt" TIMESTAMP(3),
+    "reminderCount" INTEGER NOT NULL DEFAULT 0,
+    "escalatedAt" TIMESTAMP(3),
+    "decidedAt" TIMESTAMP(3),
+    "comment" TEXT,
+
+    CONSTRAINT "ApprovalStep_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApprovalDelegation" (
+    "id" TEXT NOT NULL,
+    "delegatorId" TEXT NOT NULL,
+    "delegateId" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ApprovalDelegation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ApprovalChain_propertyId_subjectType_idx" ON "ApprovalChain"("propertyId", "subjectType");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApprovalChainStep_chainId_position_key" ON "ApprovalChainStep"("chainId", "position");
+
+-- CreateIndex
+CREATE INDEX "ApprovalRequest_propertyId_status_idx" ON "ApprovalRequest"("propertyId", "status");
+
+-- CreateIndex
+CREATE INDEX "ApprovalRequest_requesterId_idx" ON "ApprovalRequest"("requesterId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApprovalRequest_subjectType_subjectId_key" ON "ApprovalRequest"("subjectType", "subjectId");
+
+-- CreateIndex
+CREATE INDEX "ApprovalStep_approverId_status_idx" ON "ApprovalStep"("approverId", "status");
+
+-- CreateIndex
+CREATE INDEX "ApprovalStep_status_activatedAt_idx" ON "ApprovalStep"("status", "activatedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApprovalStep_requestId_position_key" ON "ApprovalStep"("requestId", "position");
+
+-- CreateIndex
+CREATE INDEX "ApprovalDelegation_delegatorId_startDate_endDate_idx" ON "ApprovalDelegation"("delegatorId", "startDate", "endDate");
+
+-- AddForeignKey
+ALTER TABLE "ApprovalChain" ADD CONSTRAINT "ApprovalChain_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalChain" ADD CONSTRAINT "ApprovalChain_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "Department"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalChainStep" ADD CONSTRAINT "ApprovalChainStep_chainId_fkey" FOREIGN KEY ("chainId") REFERENCES "ApprovalChain"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalRequest" ADD CONSTRAINT "ApprovalRequest_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalRequest" ADD CONSTRAINT "ApprovalRequest_requesterId_fkey" FOREIGN KEY ("requesterId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalRequest" ADD CONSTRAINT "ApprovalRequest_chainId_fkey" FOREIGN KEY ("chainId") REFERENCES "ApprovalChain"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalStep" ADD CONSTRAINT "ApprovalStep_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "ApprovalRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalStep" ADD CONSTRAINT "ApprovalStep_approverId_fkey" FOREIGN KEY ("approverId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalDelegation" ADD CONSTRAINT "ApprovalDelegation_delegatorId_fkey" FOREIGN KEY ("delegatorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalDelegation" ADD CONSTRAINT "ApprovalDelegation_delegateId_fkey" FOREIGN KEY ("delegateId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,134 @@
+-- CreateEnum
+CREATE TYPE "RosterStatus" AS ENUM ('DRAFT', 'PUBLISHED');
+
+-- CreateEnum
+CREATE TYPE "ShiftSwapStatus" AS ENUM ('PENDING', 'ACCEPTED', 'APPROVED', 'DECLINED', 'REJECTED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN "maxWeeklyHours" INTEGER NOT NULL DEFAULT 48;
+
+-- AlterTable
+ALTER TABLE "Department" ADD COLUMN "maxWeeklyHours" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ShiftTemplate" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "departmentId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "breakMinutes" INTEGER NOT NULL DEFAULT 0,
+    "position" TEXT,
+    "color" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShiftTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Roster" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "departmentId" TEXT NOT NULL,
+    "weekStart" DATE NOT NULL,
+    "status" "RosterStatus" NOT NULL DEFAULT 'DRAFT',
+    "publishedAt" TIMESTAMP(3),
+    "publishedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Roster_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Shift" (
+    "id" TEXT NOT NULL,
+    "rosterId" TEXT NOT NULL,
+    "templateId" TEXT,
+    "userId" TEXT,
+    "date" DATE NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "breakMinutes" INTEGER NOT NULL DEFAULT 0,
+    "position" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Shift_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShiftSwapRequest" (
+    "id" TEXT NOT NULL,
+    "shiftId" TEXT NOT NULL,
+    "requesterId" TEXT NOT NULL,
+    "targetUserId" TEXT NOT NULL,
+    "targetShiftId" TEXT,
+    "status" "ShiftSwapStatus" NOT NULL DEFAULT 'PENDING',
+    "reason" TEXT,
+    "decidedBy" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShiftSwapRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShiftTemplate_departmentId_idx" ON "ShiftTemplate"("departmentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Roster_departmentId_weekStart_key" ON "Roster"("departmentId", "weekStart");
+
+-- CreateIndex
+CREATE INDEX "Roster_propertyId_weekStart_idx" ON "Roster"("propertyId", "weekStart");
+
+-- CreateIndex
+CREATE INDEX "Shift_rosterId_idx" ON "Shift"("rosterId");
+
+-- CreateIndex
+CREATE INDEX "Shift_userId_date_idx" ON "Shift"("userId", "date");
+
+-- CreateIndex
+CREATE INDEX "ShiftSwapRequest_shiftId_idx" ON "ShiftSwapRequest"("shiftId");
+
+-- CreateIndex
+CREATE INDEX "ShiftSwapRequest_targetUserId_status_idx" ON "ShiftSwapRequest"("targetUserId", "status");
+
+-- AddForeignKey
+ALTER TABLE "ShiftTemplate" ADD CONSTRAINT "ShiftTemplate_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftTemplate" ADD CONSTRAINT "ShiftTemplate_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "Department"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Roster" ADD CONSTRAINT "Roster_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Roster" ADD CONSTRAINT "Roster_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "Department"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Shift" ADD CONSTRAINT "Shift_rosterId_fkey" FOREIGN KEY ("rosterId") REFERENCES "Roster"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Shift" ADD CONSTRAINT "Shift_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "ShiftTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Shift" ADD CONSTRAINT "Shift_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftSwapRequest" ADD CONSTRAINT "ShiftSwapRequest_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "Shift"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftSwapRequest" ADD CONSTRAINT "ShiftSwapRequest_targetShiftId_fkey" FOREIGN KEY ("targetShiftId") REFERENCES "Shift"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftSwapRequest" ADD CONSTRAINT "ShiftSwapRequest_requesterId_fkey" FOREIGN KEY ("requesterId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftSwapRequest" ADD CONSTRAINT "ShiftSwapRequest_targetUserId_fkey" FOREIGN KEY ("targetUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- Backfill: primary folios are now opened at booking, so give older reservations theirs
+INSERT INTO "Folio" ("id", "propertyId", "reservationId", "folioNumber", "isPrimary", "currency", "updatedAt")
+SELECT 'primary_' || r."id", r."propertyId", r."id", r."reservationNumber" || '-1', true, r."currency", CURRENT_TIMESTAMP
+FROM "Reservation" r
+WHERE NOT EXISTS (SELECT 1 FROM "Folio" f WHERE f."reservationId" = r."id" AND f."isPrimary" = true);
@@ -332,6 +332,145 @@ const HOTEL_OPERATIONS_PERMISSIONS = [
     description: 'Delete reservations within property',
     category: 'Front Desk',
     isSystem: true
+  },
+
+  // ===== RATE PLAN MANAGEMENT =====
+  {
+    resource: 'rate_plan',
+    action: 'create',
+    scope: 'property',
+    name: 'Create Rate Plans (Property)',
+    description: 'Create rate plans and seasons within property',
+    category: 'Revenue Management',
+    isSystem: true
+  },
+  {
+    resource: 'rate_plan',
+    action: 'read',
+    scope: 'property',
+    name: 'View Property Rate Plans',
+    description: 'View rate plans and seasons within property',
+    category: 'Revenue Management',
+    isSystem: true
+  },
+  {
+    resource: 'rate_plan',
+    action: 'update',
+    scope: 'property',
+    name: 'Update Property Rate Plans',
+    description: 'Modify rate plans and seasons within property',
+    category: 'Revenue Management',
+    isSystem: true
+  },
+  {
+    resource: 'rate_plan',
+    action: 'delete',
+    scope: 'property',
+    name: 'Deactivate Property Rate Plans',
+    description: 'Deactivate rate plans within property',
+    category: 'Revenue Management',
+    isSystem: true
+  },
+
+  // ===== GUEST FOLIOS =====
+  {
+    resource: 'folio',
+    action: 'create',
+    scope: 'property',
+    name: 'Post Folio Charges (Property)',
+    description: 'Open folios and post charges within property',
+    category: 'Billing',
+    isSystem: true
+  },
+  {
+    resource: 'folio',
+    action: 'read',
+    scope: 'property',
+    name: 'View Property Folios',
+    description: 'View guest folios and print folio PDFs within property',
+    category: 'Billing',
+    isSystem: true
+  },
+  {
+    resource: 'folio',
+    action: 'update',
+    scope: 'property',
+    name: 'Adjust Property Folios',
+    description: 'Void and transfer folio charges within property',
+    category: 'Billing',
+    isSystem: true
+  },
+  {
+    resource: 'payment',
+    action: 'create',
+    scope: 'property',
+    name: 'Take Payments (Property)',
+    description: 'Record payments and deposits and manage deposit schedules within property',
+    category: 'Billing',
+    isSystem: true
+  },
+  {
+    resource: 'payment',
+    action: 'read',
+    scope: 'property',
+    name: 'View Property Payments',
+    description: 'View payment transactions and deposit schedules within property',
+    category: 'Billing',
+    isSystem: true
+  },
+  {
+    resource: 'payment',
+    action: 'update',
+    scope: 'property',
+    name: 'Refund Property Payments',
+    description: 'Refund captured payments and waive deposits within property',
+    category: 'Billing',
+    isSystem: true
+  },
+  {
+    resource: 'housekeeping',
+    action: 'read',
+    scope: 'property',
+    name: 'View Housekeeping Board',
+    description: 'View the daily housekeeping board within property',
+    category: 'Housekeeping',
+    isSystem: true
+  },
+  {
+    resource: 'housekeeping',
+    action: 'update',
+    scope: 'property',
+    name: 'Clean Rooms (Property)',
+    description: 'Mark rooms dirty and record cleaning progress within property',
+    category: 'Housekeeping',
+    isSystem: true
+  },
+  {
+    resource: 'housekeeping',
+    action: 'assign',
+    scope: 'property',
+    name: 'Assign Housekeeping Tasks (Property)',
+    description: 'Assign room cleaning tasks to housekeepers within property',
+    category: 'Housekeeping',
+    isSystem: true
+  },
+  {
+    resource: 'housekeeping',
+    action: 'approve',
+    scope: 'property',
+    name: 'Inspect Rooms (Property)',
+    description: 'Pass or fail cleaned rooms and release them for sale within property',
+    category: 'Housekeeping',
+    isSystem: true
+  },
+  {
+    resource: 'report',
+    action: 'read',
+    scope: 'property',
+    name: 'View Performance Reports (Property)',
+    description: 'View and export occupancy, ADR and RevPAR reports within property',
+    category: 'Reports',
+    isSystem: true
   }
 ];
 
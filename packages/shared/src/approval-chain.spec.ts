@@ -0,0 +1,49 @@
+import { activeDelegate, selectChain } from './approval-chain';
+
+describe('approval chains', () => {
+  const chains = [
+    { id: 'property', departmentId: null, minAmount: null },
+    { id: 'property-long', departmentId: null, minAmount: 10 },
+    { id: 'front-office', departmentId: 'front-office', minAmount: null },
+  ];
+
+  it('prefers the chain with the highest minimum the request reaches', () => {
+    expect(selectChain(chains, { departmentId: 'kitchen', amount: 3 })?.id).toBe('property');
+    expect(selectChain(chains, { departmentId: 'kitchen', amount: 10 })?.id).toBe('property-long');
+  });
+
+  it('prefers department chains over property-wide ones', () => {
+    expect(selectChain(chains, { departmentId: 'front-office', amount: 12 })?.id).toBe('front-office');
+  });
+
+  it('returns null when no chain applies', () => {
+    expect(selectChain(chains.slice(1), { departmentId: null, amount: null })).toBeNull();
+  });
+
+  describe('delegation', () => {
+    const now = new Date('2025-08-10T12:00:00Z');
+    const delegation = (delegatorId: string, delegateId: string, startDate: string, endDate: string) => ({
+      delegatorId,
+      delegateId,
+      startDate: new Date(startDate),
+      endDate: new Date(endDate),
+    });
+
+    it('hands approvals to the delegate while the approver is away', () => {
+      const delegations = [delegation('ana', 'ben', '2025-08-01', '2025-08-15')];
+
+      expect(activeDelegate('ana', delegations, now)).toBe('ben');
+      expect(activeDelegate('ana', delegations, new Date('2025-08-20'))).toBe('ana');
+    });
+
+    it('follows delegates who are away themselves and stops at loops', () => {
+      const delegations = [
+        delegation('ana', 'ben', '2025-08-01', '2025-08-15'),
+        delegation('ben', 'cleo', '2025-08-05', '2025-08-12'),
+        delegation('cleo', 'ana', '2025-08-01', '2025-08-31'),
+      ];
+
+      expect(activeDelegate('ana', delegations, now)).toBe('cleo');
+    });
+  });
+});
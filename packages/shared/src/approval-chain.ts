@@ -0,0 +1,63 @@
+// Guards against delegations that point back at each other
+const MAX_DELEGATION_HOPS = 5;
+
+export interface ChainCandidate {
+  departmentId: string | null;
+  minAmount: number | null;
+}
+
+export interface ChainSubject {
+  departmentId: string | null;
+  amount: number | null;
+}
+
+export interface DelegationWindow {
+  delegatorId: string;
+  delegateId: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * The chain that applies to a request. Chains for the requester's department
+ * win over property-wide ones; among those, the one with the highest
+ * minimum the request reaches.
+ */
+export function selectChain<T extends ChainCandidate>(chains: T[], subject: ChainSubject): T | null {
+  const amount = subject.amount ?? 0;
+  const applicable = chains.filter(
+    (chain) =>
+      (!chain.departmentId || chain.departmentId === subject.departmentId) &&
+      (chain.minAmount === null || amount >= chain.minAmount),
+  );
+
+  applicable.sort(
+    (a, b) =>
+      Number(Boolean(b.departmentId)) - Number(Boolean(a.departmentId)) ||
+      (b.minAmount ?? 0) - (a.minAmount ?? 0),
+  );
+
+  return applicable[0] ?? null;
+}
+
+/**
+ * Who acts for an approver at a given time. Delegations are followed while the
+ * delegate is away too; a delegation that leads back to someone already seen is ignored.
+ */
+export function activeDelegate(approverId: string, delegations: DelegationWindow[], now: Date): string {
+  const seen = new Set([approverId]);
+  let current = approverId;
+
+  for (let hop = 0; hop < MAX_DELEGATION_HOPS; hop++) {
+    const delegation = delegations.find(
+      (candidate) => candidate.delegatorId === current && candidate.startDate <= now && now <= candidate.endDate,
+    );
+    if (!delegation || seen.has(delegation.delegateId)) break;
+
+    seen.add(delegation.delegateId);
+    current = delegation.delegateId;
+  }
+
+  return current;
+}
+
@@ -0,0 +1,63 @@
+import * as dns from 'dns';
+import { FeedFetchError, fetchFeed, isPublicAddress, normalizeFeedUrl } from './feed-fetch';
+
+describe('feed-fetch', () => {
+  describe('isPublicAddress', () => {
+    it.each([
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.1',
+      '192.168.1.10',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+    ])('refuses %s', (address) => {
+      expect(isPublicAddress(address)).toBe(false);
+    });
+
+    it.each(['93.184.216.34', '2606:2800:220:1:248:1893:25c8:1946'])('accepts %s', (address) => {
+      expect(isPublicAddress(address)).toBe(true);
+    });
+  });
+
+  describe('normalizeFeedUrl', () => {
+    it('reads webcal links as https', () => {
+      expect(normalizeFeedUrl('webcal://www.airbnb.com/calendar/ical/1.ics').toString()).toBe(
+        'https://www.airbnb.com/calendar/ical/1.ics',
+      );
+    });
+
+    it.each(['file:///etc/passwd', 'ftp://example.com/cal.ics', 'gopher://example.com'])('rejects %s', (url) => {
+      expect(() => normalizeFeedUrl(url)).toThrow('Feed URL must use http, https or webcal');
+    });
+
+    it.each([
+      'http://localhost:3000/cal.ics',
+      'http://127.0.0.1/cal.ics',
+      'http://169.254.169.254/latest',
+      'http://[::1]/cal.ics',
+    ])('rejects internal host %s', (url) => {
+      expect(() => normalizeFeedUrl(url)).toThrow('Feed URL must point to a public host');
+    });
+  });
+
+  describe('fetchFeed', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('refuses host names that resolve to a private address', async () => {
+      jest.spyOn(dns, 'lookup').mockImplementation(((_hostname: string, options: dns.LookupOptions, callback: any) => {
+        if (options.all) return callback(null, [{ address: '10.0.0.5', family: 4 }]);
+        return callback(null, '10.0.0.5', 4);
+      }) as unknown as typeof dns.lookup);
+
+      await expect(fetchFeed('http://feeds.example.com/cal.ics')).rejects.toThrow(FeedFetchError);
+      await expect(fetchFeed('http://feeds.example.com/cal.ics')).rejects.toThrow('resolves to a private address');
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import * as dns from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import { BlockList, LookupFunction, isIP } from 'net';
+
+export const FEED_TIMEOUT_MS = 15000;
+export const FEED_MAX_BYTES = 2 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+
+/** The feed URL is not allowed, or the channel did not answer with a usable document */
+export class FeedFetchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeedFetchError';
+  }
+}
+
+// Loopback, private, link-local, carrier-grade NAT and other ranges that are
+// never a channel's public calendar. IPv4-mapped IPv6 addresses match the IPv4 ranges.
+const NON_PUBLIC_RANGES = new BlockList();
+(
+  [
+    ['0.0.0.0', 8, 'ipv4'],
+    ['10.0.0.0', 8, 'ipv4'],
+    ['100.64.0.0', 10, 'ipv4'],
+    ['127.0.0.0', 8, 'ipv4'],
+    ['169.254.0.0', 16, 'ipv4'],
+    ['172.16.0.0', 12, 'ipv4'],
+    ['192.0.0.0', 24, 'ipv4'],
+    ['192.168.0.0', 16, 'ipv4'],
+    ['198.18.0.0', 15, 'ipv4'],
+    ['224.0.0.0', 4, 'ipv4'],
+    ['240.0.0.0', 4, 'ipv4'],
+    ['::', 128, 'ipv6'],
+    ['::1', 128, 'ipv6'],
+    ['64:ff9b::', 96, 'ipv6'],
+    ['fc00::', 7, 'ipv6'],
+    ['fe80::', 10, 'ipv6'],
+    ['ff00::', 8, 'ipv6'],
+  ] as const
+).forEach(([network, prefix, family]) => NON_PUBLIC_RANGES.addSubnet(network, prefix, family));
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !NON_PUBLIC_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Checks a feed URL before it is stored or fetched: only http(s) on a public
+ * host. webcal:// is plain HTTPS by convention. Host names are checked again
+ * once resolved, when the feed is fetched.
+ */
+export function normalizeFeedUrl(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.replace(/^webcal:\/\//i, 'https://'));
+  } catch {
+    throw new FeedFetchError('Feed URL is not a valid URL');
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new FeedFetchError('Feed URL must use http, https or webcal');
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || (isIP(host) !== 0 && !isPublicAddress(host))) {
+    throw new FeedFetchError('Feed URL must point to a public host');
+  }
+
+  return parsed;
+}
+
+// Resolves like dns.lookup but refuses private addresses, so a host name cannot
+// be pointed (or re-pointed between checks) at an internal service
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address: string | dns.LookupAddress[], family?: number) => {
+    if (error) return callback(error, address as string, family);
+
+    const addresses = Array.isArray(address) ? address.map((entry) => entry.address) : [address];
+    if (addresses.some((entry) => !isPublicAddress(entry))) {
+      return callback(
+        new FeedFetchError(`Feed host ${hostname} resolves to a private address`) as NodeJS.ErrnoException,
+        address as string,
+        family,
+      );
+    }
+    callback(null, address as string, family);
+  });
+};
+
+type FeedResponse = { redirect: string } | { body: string };
+
+function requestOnce(url: URL, signal: AbortSignal, maxBytes: number): Promise<FeedResponse> {
+  const client = url.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.get(
+      url,
+      { headers: { Accept: 'text/calendar' }, lookup: publicLookup, signal },
+      (response) => {
+        const status = response.statusCode ?? 0;
+        if (status >= 300 && status < 400 && response.headers.location) {
+          response.resume();
+          return resolve({ redirect: response.headers.location });
+        }
+        if (status < 200 || status >= 300) {
+          response.resume();
+          return reject(new FeedFetchError(`Feed responded with HTTP ${status}`));
+        }
+        if (Number(response.headers['content-length']) > maxBytes) {
+          response.destroy();
+          return reject(new FeedFetchError(`Feed is larger than ${maxBytes} bytes`));
+        }
+
+        const chunks: Buffer[] = [];
+        let received = 0;
+        response.on('data', (chunk: Buffer) => {
+          received += chunk.length;
+          if (received > maxBytes) {
+            response.destroy();
+            return reject(new FeedFetchError(`Feed is larger than ${maxBytes} bytes`));
+          }
+          chunks.push(chunk);
+        });
+        response.on('end', () => resolve({ body: Buffer.concat(chunks).toString('utf-8') }));
+        response.on('error', reject);
+      },
+    );
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Downloads a channel's iCal feed with a time and size limit. Redirects are
+ * followed by hand so every hop gets the same public-host check.
+ */
+export async function fetchFeed(
+  url: string,
+  options: { timeoutMs?: number; maxBytes?: number } = {},
+): Promise<string> {
+  const timeoutMs = options.timeoutMs ?? FEED_TIMEOUT_MS;
+  const signal = AbortSignal.timeout(timeoutMs);
+  let target = normalizeFeedUrl(url);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    let response: FeedResponse;
+    try {
+      response = await requestOnce(target, signal, options.maxBytes ?? FEED_MAX_BYTES);
+    } catch (error) {
+      if (signal.aborted) {
+        throw new FeedFetchError(`Feed did not respond within ${timeoutMs / 1000}s`);
+      }
+      throw error;
+    }
+
+    if ('body' in response) return response.body;
+    target = normalizeFeedUrl(new URL(response.redirect, target).toString());
+  }
+
+  throw new FeedFetchError('Feed redirected too many times');
+}
@@ -0,0 +1,66 @@
+import { planFeedSync, ImportedReservation, ImportedReservationStatus } from './feed-sync';
+import { ICalEvent } from './ical';
+
+const event = (uid: string, startDate: string, endDate: string, status?: string): ICalEvent => ({
+  uid,
+  startDate,
+  endDate,
+  status,
+});
+
+const imported = (
+  id: string,
+  externalUid: string,
+  checkIn: string,
+  checkOut: string,
+  status: ImportedReservationStatus = 'CONFIRMED',
+): ImportedReservation => ({
+  id,
+  externalUid,
+  status,
+  checkInDate: new Date(`${checkIn}T00:00:00Z`),
+  checkOutDate: new Date(`${checkOut}T00:00:00Z`),
+});
+
+describe('planFeedSync', () => {
+  const today = '2025-06-10';
+
+  it('creates new events, moves changed ones and leaves unchanged ones alone', () => {
+    const plan = planFeedSync(
+      [event('a', '2025-06-12', '2025-06-15'), event('b', '2025-06-20', '2025-06-24'), event('c', '2025-07-01', '2025-07-03')],
+      [imported('r-b', 'b', '2025-06-20', '2025-06-22'), imported('r-c', 'c', '2025-07-01', '2025-07-03')],
+      today,
+    );
+
+    expect(plan.create.map((e) => e.uid)).toEqual(['a']);
+    expect(plan.update).toEqual([{ reservationId: 'r-b', event: expect.objectContaining({ uid: 'b' }) }]);
+    expect(plan.cancel).toEqual([]);
+  });
+
+  it('cancels future imports that left the feed or were cancelled by the channel', () => {
+    const plan = planFeedSync(
+      [event('b', '2025-06-20', '2025-06-24', 'CANCELLED')],
+      [
+        imported('r-a', 'a', '2025-06-12', '2025-06-15'),
+        imported('r-b', 'b', '2025-06-20', '2025-06-24'),
+        imported('r-old', 'old', '2025-06-01', '2025-06-05'),
+        imported('r-in', 'in', '2025-06-08', '2025-06-12', 'CHECKED_IN'),
+      ],
+      today,
+    );
+
+    expect(plan.cancel).toEqual(['r-a', 'r-b']);
+    expect(plan.create).toEqual([]);
+  });
+
+  it('ignores past events and reinstates cancelled imports that come back', () => {
+    const plan = planFeedSync(
+      [event('past', '2025-06-01', '2025-06-05'), event('back', '2025-06-12', '2025-06-14')],
+      [imported('r-back', 'back', '2025-06-12', '2025-06-14', 'CANCELLED')],
+      today,
+    );
+
+    expect(plan.create).toEqual([]);
+    expect(plan.update.map((u) => u.reservationId)).toEqual(['r-back']);
+  });
+});
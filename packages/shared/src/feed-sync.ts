@@ -0,0 +1,85 @@
+import { ICalEvent } from './ical';
+
+/** Reservation statuses the sync plan tells apart */
+export type ImportedReservationStatus = 'CONFIRMED' | 'CHECKED_IN' | 'CHECKED_OUT' | 'CANCELLED' | 'NO_SHOW';
+
+export interface ImportedReservation {
+  id: string;
+  externalUid: string | null;
+  status: ImportedReservationStatus;
+  checkInDate: Date;
+  checkOutDate: Date;
+}
+
+/** An event that was not imported because the unit is taken on those dates */
+export interface CalendarFeedConflict {
+  uid: string;
+  summary?: string;
+  startDate: string;
+  endDate: string;
+  conflictingReservations: string[];
+  conflictingBlocks: string[];
+}
+
+/** Stored on the feed as lastSyncResult */
+export interface CalendarFeedSyncResult {
+  feedId: string;
+  syncedAt: Date;
+  created: number;
+  updated: number;
+  cancelled: number;
+  conflicts: CalendarFeedConflict[];
+  errors: string[];
+}
+
+export interface FeedSyncPlan {
+  create: ICalEvent[];
+  /** Date changes, and cancelled imports that reappeared in the feed */
+  update: Array<{ reservationId: string; event: ICalEvent }>;
+  cancel: string[];
+}
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Compares a channel feed with the reservations previously imported from it.
+ * Past stays are never touched (channels drop them from their feeds), nor are
+ * stays that have already been checked in or out.
+ */
+export function planFeedSync(events: ICalEvent[], imported: ImportedReservation[], today: string): FeedSyncPlan {
+  const active = new Map<string, ICalEvent>();
+  for (const event of events) {
+    if (event.status === 'CANCELLED' || event.endDate <= today) continue;
+    active.set(event.uid, event);
+  }
+
+  const byUid = new Map(imported.filter((r) => r.externalUid).map((r) => [r.externalUid!, r]));
+  const plan: FeedSyncPlan = { create: [], update: [], cancel: [] };
+
+  for (const event of active.values()) {
+    const existing = byUid.get(event.uid);
+
+    if (!existing) {
+      plan.create.push(event);
+    } else if (existing.status === 'CANCELLED') {
+      plan.update.push({ reservationId: existing.id, event });
+    } else if (
+      existing.status === 'CONFIRMED' &&
+      (toDateKey(existing.checkInDate) !== event.startDate || toDateKey(existing.checkOutDate) !== event.endDate)
+    ) {
+      plan.update.push({ reservationId: existing.id, event });
+    }
+  }
+
+  for (const reservation of imported) {
+    if (
+      reservation.status === 'CONFIRMED' &&
+      !active.has(reservation.externalUid ?? '') &&
+      toDateKey(reservation.checkOutDate) > today
+    ) {
+      plan.cancel.push(reservation.id);
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,94 @@
+import {
+  LedgerLineStatus,
+  summarizeFolioLines,
+  calculateTax,
+  findUnpostedRoomNights,
+  splitStayTotal,
+  stayNights,
+} from './folio-ledger';
+
+describe('folio-ledger', () => {
+  const line = (category: string, amount: number, status: LedgerLineStatus = 'POSTED') => ({
+    category,
+    amount,
+    status,
+  });
+
+  describe('summarizeFolioLines', () => {
+    it('nets charges against payments and groups by category', () => {
+      const totals = summarizeFolioLines([
+        line('ROOM', 150),
+        line('ROOM', 150),
+        line('FOOD_BEVERAGE', 42.5),
+        line('TAX', 5.1),
+        line('PAYMENT', -200),
+      ]);
+
+      expect(totals.charges).toBe(347.6);
+      expect(totals.credits).toBe(200);
+      expect(totals.balance).toBe(147.6);
+      expect(totals.byCategory).toEqual({ ROOM: 300, FOOD_BEVERAGE: 42.5, TAX: 5.1, PAYMENT: -200 });
+    });
+
+    it('ignores voided and transferred lines', () => {
+      const totals = summarizeFolioLines([
+        line('SPA', 80),
+        line('SPA', 80, 'VOIDED'),
+        line('MISC', 20, 'TRANSFERRED'),
+      ]);
+
+      expect(totals.balance).toBe(80);
+      expect(totals.byCategory).toEqual({ SPA: 80 });
+    });
+  });
+
+  it('rounds tax to cents', () => {
+    expect(calculateTax(42.5, 12)).toBe(5.1);
+    expect(calculateTax(19.99, 7.5)).toBe(1.5);
+  });
+
+  describe('findUnpostedRoomNights', () => {
+    const nights = [
+      { date: '2025-03-01', total: 100 },
+      { date: '2025-03-02', total: 100 },
+      { date: '2025-03-03', total: 120 },
+    ];
+
+    it('skips nights that already have a room charge', () => {
+      const unposted = findUnpostedRoomNights(nights, [new Date('2025-03-01T00:00:00Z')]);
+      expect(unposted.map((night) => night.date)).toEqual(['2025-03-02', '2025-03-03']);
+    });
+
+    it('stops before the through date', () => {
+      const unposted = findUnpostedRoomNights(nights, [], new Date('2025-03-02T23:00:00Z'));
+      expect(unposted.map((night) => night.date)).toEqual(['2025-03-01']);
+    });
+  });
+
+  it('splits a stay total evenly with the remainder on the last night', () => {
+    const nights = splitStayTotal(new Date('2025-03-01T15:00:00Z'), new Date('2025-03-04T11:00:00Z'), 100);
+
+    expect(nights).toEqual([
+      { date: '2025-03-01', total: 33.33 },
+      { date: '2025-03-02', total: 33.33 },
+      { date: '2025-03-03', total: 33.34 },
+    ]);
+  });
+
+  it('prefers the nightly rates stored at booking over an even split', () => {
+    const stay = {
+      checkInDate: new Date('2025-03-01T00:00:00Z'),
+      checkOutDate: new Date('2025-03-03T00:00:00Z'),
+      totalAmount: { toNumber: () => 220 },
+    };
+
+    expect(stayNights({ ...stay, nightlyRates: [{ date: '2025-03-01', total: '100' }, { date: '2025-03-02', total: 120 }] })).toEqual([
+      { date: '2025-03-01', total: 100 },
+      { date: '2025-03-02', total: 120 },
+    ]);
+    expect(stayNights({ ...stay, nightlyRates: null })).toEqual([
+      { date: '2025-03-01', total: 110 },
+      { date: '2025-03-02', total: 110 },
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+/** Folio line statuses that matter to the ledger; only POSTED lines count */
+export type LedgerLineStatus = 'POSTED' | 'VOIDED' | 'TRANSFERRED';
+
+export interface LedgerLine<C extends string = string> {
+  category: C;
+  status: LedgerLineStatus;
+  amount: number;
+}
+
+export interface LedgerNight {
+  date: string;
+  total: number;
+}
+
+export interface PricedStay {
+  nightlyRates: unknown;
+  checkInDate: Date;
+  checkOutDate: Date;
+  totalAmount: { toNumber(): number };
+}
+
+export interface FolioTotals<C extends string = string> {
+  charges: number;
+  credits: number;
+  balance: number;
+  byCategory: Partial<Record<C, number>>;
+}
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+export const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Totals the lines that still count against the folio. Voided and
+ * transferred-out lines stay on the folio for the audit trail only.
+ */
+export function summarizeFolioLines<C extends string>(lines: LedgerLine<C>[]): FolioTotals<C> {
+  const totals: FolioTotals<C> = { charges: 0, credits: 0, balance: 0, byCategory: {} };
+
+  for (const line of lines) {
+    if (line.status !== 'POSTED') continue;
+
+    if (line.amount >= 0) {
+      totals.charges += line.amount;
+    } else {
+      totals.credits += -line.amount;
+    }
+    totals.byCategory[line.category] = roundCurrency((totals.byCategory[line.category] ?? 0) + line.amount);
+  }
+
+  totals.charges = roundCurrency(totals.charges);
+  totals.credits = roundCurrency(totals.credits);
+  totals.balance = roundCurrency(totals.charges - totals.credits);
+  return totals;
+}
+
+export function calculateTax(amount: number, taxRatePercent: number): number {
+  return roundCurrency((amount * taxRatePercent) / 100);
+}
+
+/**
+ * Nights of the stay that still need a room charge, optionally limited to
+ * nights before `throughDate` (used when posting night by night).
+ */
+export function findUnpostedRoomNights(
+  nights: LedgerNight[],
+  postedNights: Date[],
+  throughDate?: Date,
+): LedgerNight[] {
+  const posted = new Set(postedNights.map(toDateKey));
+  const limit = throughDate ? toDateKey(throughDate) : null;
+
+  return nights.filter((night) => !posted.has(night.date) && (limit === null || night.date < limit));
+}
+
+/**
+ * Splits a stay total evenly across its nights for reservations priced before
+ * nightly rates were stored. The last night absorbs the rounding difference.
+ */
+export function splitStayTotal(checkInDate: Date, checkOutDate: Date, totalAmount: number): LedgerNight[] {
+  const nights: string[] = [];
+  const cursor = new Date(Date.UTC(checkInDate.getUTCFullYear(), checkInDate.getUTCMonth(), checkInDate.getUTCDate()));
+  const end = toDateKey(checkOutDate);
+
+  while (toDateKey(cursor) < end) {
+    nights.push(toDateKey(cursor));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  if (nights.length === 0) return [];
+
+  const perNight = roundCurrency(totalAmount / nights.length);
+  return nights.map((date, index) => ({
+    date,
+    total: index === nights.length - 1 ? roundCurrency(totalAmount - perNight * (nights.length - 1)) : perNight,
+  }));
+}
+
+/**
+ * Room charge for each night of the stay: the nightly amounts stored at
+ * booking, or the total split evenly for stays priced before those existed.
+ * The BFF and the night audit worker both post with this, so they bill the same amounts.
+ */
+export function stayNights(stay: PricedStay): LedgerNight[] {
+  const nightlyRates = stay.nightlyRates as unknown as LedgerNight[] | null;
+  if (Array.isArray(nightlyRates) && nightlyRates.length > 0) {
+    return nightlyRates.map((night) => ({ date: night.date, total: Number(night.total) }));
+  }
+
+  return splitStayTotal(stay.checkInDate, stay.checkOutDate, stay.totalAmount.toNumber());
+}
@@ -0,0 +1,55 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { buildICalendar, parseICalendar, ICalendarFormatError } from './ical';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf-8');
+
+describe('ical', () => {
+  describe('parseICalendar', () => {
+    it('reads all-day events and unfolds long lines', () => {
+      const { events, errors } = parseICalendar(fixture('airbnb.ics'));
+
+      expect(errors).toEqual([]);
+      expect(events).toHaveLength(2);
+      expect(events[0]).toMatchObject({
+        uid: '1418fb94e984-a2b8a1f7e1ec3f3d4b7b9c1d@airbnb.com',
+        summary: 'Reserved',
+        startDate: '2025-06-12',
+        endDate: '2025-06-15',
+      });
+      expect(events[0].description).toBe(
+        'Reservation URL: https://www.airbnb.com/hosting/reservations/details/HMABC123XYZ\nPhone Number (Last 4 Digits): 0101',
+      );
+    });
+
+    it('takes the date part of timed events and reports unusable ones', () => {
+      const { events, errors } = parseICalendar(fixture('booking.ics'));
+
+      expect(events.map((event) => [event.uid, event.startDate, event.endDate, event.status])).toEqual([
+        ['bk-4411902@booking.com', '2025-08-01', '2025-08-05', undefined],
+        ['bk-4411903@booking.com', '2025-08-10', '2025-08-12', 'CANCELLED'],
+      ]);
+      expect(errors).toEqual(['Event #3: missing UID', 'Event bk-4411905@booking.com: ends before it starts']);
+    });
+
+    it('rejects responses that are not calendars', () => {
+      expect(() => parseICalendar(fixture('not-a-calendar.html'))).toThrow(ICalendarFormatError);
+    });
+  });
+
+  describe('buildICalendar', () => {
+    it('round-trips through the parser', () => {
+      const content = buildICalendar(
+        'Villa 3, Nayara',
+        [{ uid: 'res-1@staffnbdt', summary: 'Reserved', startDate: '2025-06-12', endDate: '2025-06-15' }],
+        new Date('2025-06-01T10:00:00Z'),
+      );
+
+      expect(content).toContain('X-WR-CALNAME:Villa 3\\, Nayara\r\n');
+      expect(content).toContain('DTSTAMP:20250601T100000Z\r\n');
+      expect(parseICalendar(content).events).toEqual([
+        { uid: 'res-1@staffnbdt', summary: 'Reserved', description: undefined, status: undefined, startDate: '2025-06-12', endDate: '2025-06-15' },
+      ]);
+    });
+  });
+});
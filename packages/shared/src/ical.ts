@@ -0,0 +1,166 @@
+export interface ICalEvent {
+  uid: string;
+  summary?: string;
+  description?: string;
+  status?: string;
+  /** First night, YYYY-MM-DD */
+  startDate: string;
+  /** Departure day (exclusive), YYYY-MM-DD */
+  endDate: string;
+}
+
+export interface ParsedCalendar {
+  events: ICalEvent[];
+  /** Events that were skipped, described for the feed's sync report */
+  errors: string[];
+}
+
+export interface ExportEvent {
+  uid: string;
+  summary: string;
+  startDate: string;
+  endDate: string;
+  description?: string;
+}
+
+/** The content is not an iCalendar document at all, e.g. an HTML error page */
+export class ICalendarFormatError extends Error {
+  constructor(message = 'Feed is not an iCalendar document') {
+    super(message);
+    this.name = 'ICalendarFormatError';
+  }
+}
+
+const DATE_VALUE = /^(\d{4})(\d{2})(\d{2})/;
+
+const addDay = (date: string): string => {
+  const next = new Date(`${date}T00:00:00.000Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().split('T')[0];
+};
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\[nN]/g, '\n').replace(/\\([,;\\])/g, '$1');
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/** Date part of a DATE or DATE-TIME value; bookings are whole nights */
+function parseDateValue(value: string): string | null {
+  const match = DATE_VALUE.exec(value.trim());
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+/**
+ * Reads the VEVENTs of an iCalendar document the way channel managers
+ * publish them: all-day DTSTART/DTEND pairs identified by UID. Events that
+ * cannot be placed on the calendar are reported instead of failing the feed.
+ */
+export function parseICalendar(content: string): ParsedCalendar {
+  // Unfold continuation lines (RFC 5545 §3.1)
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new ICalendarFormatError();
+  }
+
+  const events: ICalEvent[] = [];
+  const errors: string[] = [];
+  let current: Record<string, string> | null = null;
+  let index = 0;
+
+  for (const line of lines) {
+    const upper = line.trim().toUpperCase();
+
+    if (upper === 'BEGIN:VEVENT') {
+      current = {};
+      index++;
+      continue;
+    }
+
+    if (upper === 'END:VEVENT' && current) {
+      const startDate = current.DTSTART ? parseDateValue(current.DTSTART) : null;
+      const endDate = current.DTEND ? parseDateValue(current.DTEND) : null;
+      const label = current.UID || `#${index}`;
+
+      if (!current.UID) {
+        errors.push(`Event ${label}: missing UID`);
+      } else if (!startDate) {
+        errors.push(`Event ${label}: missing or invalid DTSTART`);
+      } else if (current.DTEND && !endDate) {
+        errors.push(`Event ${label}: invalid DTEND`);
+      } else if (endDate && endDate <= startDate) {
+        errors.push(`Event ${label}: ends before it starts`);
+      } else {
+        events.push({
+          uid: current.UID,
+          summary: current.SUMMARY !== undefined ? unescapeText(current.SUMMARY) : undefined,
+          description: current.DESCRIPTION !== undefined ? unescapeText(current.DESCRIPTION) : undefined,
+          status: current.STATUS?.toUpperCase(),
+          startDate,
+          // A single all-day event without DTEND covers one night
+          endDate: endDate ?? addDay(startDate),
+        });
+      }
+
+      current = null;
+      continue;
+    }
+
+    if (!current) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    // Property parameters (e.g. DTSTART;VALUE=DATE) don't change how we read the value
+    const name = line.slice(0, separator).split(';')[0].trim().toUpperCase();
+    current[name] = line.slice(separator + 1).trim();
+  }
+
+  return { events, errors };
+}
+
+/** Folds content lines longer than 75 octets as required by RFC 5545 */
+function foldLine(line: string): string {
+  if (line.length <= 75) return line;
+
+  const parts = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    parts.push(` ${line.slice(i, i + 74)}`);
+  }
+  return parts.join('\r\n');
+}
+
+const formatDate = (date: string): string => date.replace(/-/g, '');
+
+const formatTimestamp = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export function buildICalendar(calendarName: string, events: ExportEvent[], generatedAt = new Date()): string {
+  const stamp = formatTimestamp(generatedAt);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//StaffNBDT//Calendar Export//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(event.startDate)}`,
+      `DTEND;VALUE=DATE:${formatDate(event.endDate)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,9 @@
+export * from './folio-ledger';
+export * from './ical';
+export * from './feed-sync';
+export * from './feed-fetch';
+export * from './unit-block-schedule';
+export * from './pre-arrival-link';
+export * from './task-sla';
+export * from './task-assignment';
+export * from './approval-chain';
@@ -0,0 +1,28 @@
+import { buildPreArrivalEmail, hashPortalToken, preArrivalLinkExpiry, preArrivalPortalUrl } from './pre-arrival-link';
+
+describe('pre-arrival link', () => {
+  it('hashes tokens deterministically without exposing them', () => {
+    expect(hashPortalToken('abc')).toBe(hashPortalToken('abc'));
+    expect(hashPortalToken('abc')).not.toContain('abc');
+    expect(hashPortalToken('abc')).toHaveLength(64);
+  });
+
+  it('keeps the link valid until the end of the arrival day', () => {
+    expect(preArrivalLinkExpiry(new Date('2025-06-10T00:00:00Z'))).toEqual(new Date('2025-06-11T00:00:00Z'));
+  });
+
+  it('emails the portal link with the arrival date', () => {
+    const email = buildPreArrivalEmail({
+      email: 'ana@example.com',
+      firstName: 'Ana',
+      propertyName: 'Harbour Hotel',
+      checkInDate: new Date('2025-06-10T00:00:00Z'),
+      portalUrl: preArrivalPortalUrl('https://app.example.com', 'token-1'),
+      expiresAt: new Date('2025-06-11T00:00:00Z'),
+    });
+
+    expect(email.subject).toBe('Check in online for your stay at Harbour Hotel');
+    expect(email.html).toContain('href="https://app.example.com/pre-arrival/token-1"');
+    expect(email.text).toContain('Your stay at Harbour Hotel starts on 2025-06-10.');
+  });
+});
@@ -0,0 +1,63 @@
+import * as crypto from 'crypto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PreArrivalEmailData {
+  email: string;
+  firstName: string;
+  propertyName: string;
+  checkInDate: Date;
+  portalUrl: string;
+  expiresAt: Date;
+}
+
+export interface PreArrivalEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/** Portal tokens are stored as a SHA-256 hash so they can be looked up directly */
+export const hashPortalToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+export const generatePortalToken = (): string => crypto.randomBytes(32).toString('base64url');
+
+/** The link works until the end of the arrival day */
+export const preArrivalLinkExpiry = (checkInDate: Date): Date => new Date(checkInDate.getTime() + DAY_MS);
+
+export const preArrivalPortalUrl = (frontendUrl: string | undefined, token: string): string =>
+  `${frontendUrl || 'http://localhost:5173'}/pre-arrival/${token}`;
+
+export function buildPreArrivalEmail(data: PreArrivalEmailData): PreArrivalEmail {
+  const arrival = data.checkInDate.toISOString().split('T')[0];
+
+  return {
+    subject: `Check in online for your stay at ${data.propertyName}`,
+    html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h1 style="color: #4A4A4A;">We look forward to welcoming you, ${data.firstName}!</h1>
+            <p>Your stay at ${data.propertyName} starts on ${arrival}. Save time at the front desk by checking in online:</p>
+            <ul>
+              <li>Confirm your contact details</li>
+              <li>Upload your ID</li>
+              <li>Tell us when you expect to arrive and anything you need</li>
+              <li>Accept the property policies</li>
+            </ul>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${data.portalUrl}"
+                 style="background-color: #AA8E67; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+                Check In Online
+              </a>
+            </div>
+            <p style="color: #666; font-size: 14px;">
+              This link is personal and expires on ${data.expiresAt.toISOString().split('T')[0]}.
+            </p>
+          </div>
+        `,
+    text: [
+      `We look forward to welcoming you, ${data.firstName}!`,
+      `Your stay at ${data.propertyName} starts on ${arrival}.`,
+      `Check in online: ${data.portalUrl}`,
+    ].join('\n\n'),
+  };
+}
@@ -0,0 +1,124 @@
+import { AssignmentCandidate, assignmentCandidates, chooseAssignee, rankCandidates } from './task-assignment';
+
+describe('task assignment', () => {
+  const rule = {
+    requireOnDuty: true,
+    requireSkills: true,
+    maxOpenTasks: null,
+    skillWeight: 3,
+    languageWeight: 2,
+    workloadWeight: 2,
+    proximityWeight: 1,
+  };
+
+  const candidate = (overrides: Partial<AssignmentCandidate>): AssignmentCandidate => ({
+    userId: 'user',
+    name: 'Staff',
+    onDuty: true,
+    onLeave: false,
+    skills: [],
+    languages: [],
+    openTasks: 0,
+    location: null,
+    ...overrides,
+  });
+
+  const task = { requiredSkills: ['Plumbing'], language: 'es', location: { building: 'A', floor: 2 } };
+
+  it('prefers skills, language and a light workload', () => {
+    const ranked = rankCandidates(
+      task,
+      [
+        candidate({ userId: 'busy', name: 'Busy', skills: ['plumbing'], languages: ['es'], openTasks: 3 }),
+        candidate({ userId: 'free', name: 'Free', skills: ['Plumbing'], languages: ['ES'], openTasks: 0 }),
+        candidate({ userId: 'english', name: 'English', skills: ['Plumbing'], languages: ['en'], openTasks: 0 }),
+      ],
+      rule,
+    );
+
+    expect(ranked.map((c) => c.userId)).toEqual(['free', 'busy', 'english']);
+    expect(ranked[0]).toEqual({
+      userId: 'free',
+      name: 'Free',
+      score: 7,
+      reasons: ['Has 1/1 required skills', 'Speaks es', '0 open tasks'],
+      excludedBecause: null,
+    });
+  });
+
+  it('breaks ties on proximity to the unit', () => {
+    const ranked = rankCandidates(
+      { ...task, requiredSkills: [], language: null },
+      [
+        candidate({ userId: 'building', name: 'B', location: { building: 'A', floor: 1 } }),
+        candidate({ userId: 'floor', name: 'F', location: { building: 'A', floor: 2 } }),
+        candidate({ userId: 'elsewhere', name: 'E', location: { building: 'C', floor: 2 } }),
+      ],
+      rule,
+    );
+
+    expect(ranked.map((c) => c.userId)).toEqual(['floor', 'building', 'elsewhere']);
+    expect(ranked[0].reasons).toContain('Working on the same floor');
+  });
+
+  it('never picks staff who are off duty, on leave, unskilled or at capacity', () => {
+    const decision = chooseAssignee(
+      task,
+      [
+        candidate({ userId: 'off', name: 'Off', onDuty: false, skills: ['Plumbing'] }),
+        candidate({ userId: 'leave', name: 'Leave', onLeave: true, skills: ['Plumbing'] }),
+        candidate({ userId: 'unskilled', name: 'Unskilled' }),
+        candidate({ userId: 'full', name: 'Full', skills: ['Plumbing'], openTasks: 5 }),
+      ],
+      { ...rule, maxOpenTasks: 5 },
+      new Date('2025-06-10T08:00:00Z'),
+    );
+
+    expect(decision.assignedToId).toBeNull();
+    expect(decision.summary).toBe('Nobody in the department is eligible; left unassigned');
+    expect(Object.fromEntries(decision.candidates.map((c) => [c.userId, c.excludedBecause]))).toEqual({
+      off: 'Off duty',
+      leave: 'On leave',
+      unskilled: 'Missing skills: Plumbing',
+      full: 'At capacity with 5 open tasks',
+    });
+  });
+
+  it('explains who was picked', () => {
+    const decision = chooseAssignee(task, [candidate({ userId: 'ana', name: 'Ana', skills: ['Plumbing'] })], rule);
+
+    expect(decision.assignedToId).toBe('ana');
+    expect(decision.summary).toBe('Assigned to Ana (score 5): Has 1/1 required skills; Does not speak es; 0 open tasks');
+  });
+
+  it('locates staff at the unit they are working on before the one they last finished', () => {
+    const staff = { firstName: 'Ana', lastName: 'Silva', skills: ['Plumbing'], languages: ['es'] };
+
+    const candidates = assignmentCandidates(
+      [
+        { ...staff, id: 'ana', dutyStartedAt: new Date('2025-06-10T07:00:00Z') },
+        { ...staff, id: 'rui', firstName: 'Rui', dutyStartedAt: null },
+      ],
+      new Map([['ana', 2]]),
+      new Set(['rui']),
+      [
+        { assignedToId: 'ana', status: 'COMPLETED', unit: { building: 'B', floor: 1 } },
+        { assignedToId: 'ana', status: 'IN_PROGRESS', unit: { building: 'A', floor: 3 } },
+      ],
+    );
+
+    expect(candidates).toEqual([
+      {
+        userId: 'ana',
+        name: 'Ana Silva',
+        onDuty: true,
+        onLeave: false,
+        skills: ['Plumbing'],
+        languages: ['es'],
+        openTasks: 2,
+        location: { building: 'A', floor: 3 },
+      },
+      expect.objectContaining({ userId: 'rui', onDuty: false, onLeave: true, openTasks: 0, location: null }),
+    ]);
+  });
+});
@@ -0,0 +1,215 @@
+export interface UnitLocation {
+  building: string | null;
+  floor: number | null;
+}
+
+export interface AssignmentCandidate {
+  userId: string;
+  name: string;
+  onDuty: boolean;
+  onLeave: boolean;
+  skills: string[];
+  languages: string[];
+  openTasks: number;
+  // Unit of the task they are working on, or last finished today
+  location: UnitLocation | null;
+}
+
+export interface AssignmentTaskProfile {
+  requiredSkills: string[];
+  language: string | null;
+  location: UnitLocation | null;
+}
+
+/** The scoring settings of a department's TaskAssignmentRule */
+export interface AssignmentRuleSettings {
+  requireOnDuty: boolean;
+  requireSkills: boolean;
+  maxOpenTasks: number | null;
+  skillWeight: number;
+  languageWeight: number;
+  workloadWeight: number;
+  proximityWeight: number;
+}
+
+export interface AssignmentStaff {
+  id: string;
+  firstName: string;
+  lastName: string;
+  skills: string[];
+  languages: string[];
+  dutyStartedAt: Date | null;
+}
+
+/** A task someone is working on, or finished today, with its unit */
+export interface RecentAssignment {
+  assignedToId: string | null;
+  status: string;
+  unit: UnitLocation | null;
+}
+
+export interface CandidateScore {
+  userId: string;
+  name: string;
+  score: number;
+  reasons: string[];
+  // Why the candidate could not be picked at all
+  excludedBecause: string | null;
+}
+
+/** Stored on Task.assignmentExplanation */
+export interface AssignmentDecision {
+  assignedToId: string | null;
+  summary: string;
+  decidedAt: string;
+  candidates: CandidateScore[];
+}
+
+const normalize = (value: string): string => value.trim().toLowerCase();
+
+const exclusionReason = (
+  task: AssignmentTaskProfile,
+  candidate: AssignmentCandidate,
+  rule: AssignmentRuleSettings,
+): string | null => {
+  if (candidate.onLeave) {
+    return 'On leave';
+  }
+  if (rule.requireOnDuty && !candidate.onDuty) {
+    return 'Off duty';
+  }
+  if (rule.requireSkills) {
+    const skills = candidate.skills.map(normalize);
+    const missing = task.requiredSkills.filter((skill) => !skills.includes(normalize(skill)));
+    if (missing.length > 0) {
+      return `Missing skills: ${missing.join(', ')}`;
+    }
+  }
+  if (rule.maxOpenTasks !== null && candidate.openTasks >= rule.maxOpenTasks) {
+    return `At capacity with ${candidate.openTasks} open tasks`;
+  }
+  return null;
+};
+
+/** 1 on the same floor, 0.5 in the same building, 0 otherwise or when either location is unknown */
+const proximity = (task: UnitLocation | null, candidate: UnitLocation | null): number => {
+  if (!task?.building || !candidate?.building || task.building !== candidate.building) {
+    return 0;
+  }
+  return task.floor !== null && task.floor === candidate.floor ? 1 : 0.5;
+};
+
+/**
+ * Each factor scores 0..1 and is multiplied by the rule's weight. Eligible
+ * candidates come first, best score first; ties go to the lighter workload.
+ */
+export function rankCandidates(
+  task: AssignmentTaskProfile,
+  candidates: AssignmentCandidate[],
+  rule: AssignmentRuleSettings,
+): CandidateScore[] {
+  const scored = candidates.map((candidate) => {
+    const reasons: string[] = [];
+    const skills = candidate.skills.map(normalize);
+
+    const matchedSkills = task.requiredSkills.filter((skill) => skills.includes(normalize(skill)));
+    const skillScore = task.requiredSkills.length > 0 ? matchedSkills.length / task.requiredSkills.length : 1;
+    if (task.requiredSkills.length > 0) {
+      reasons.push(`Has ${matchedSkills.length}/${task.requiredSkills.length} required skills`);
+    }
+
+    const speaksLanguage =
+      !task.language || candidate.languages.map(normalize).includes(normalize(task.language));
+    if (task.language) {
+      reasons.push(speaksLanguage ? `Speaks ${task.language}` : `Does not speak ${task.language}`);
+    }
+
+    const workloadScore = 1 / (1 + candidate.openTasks);
+    reasons.push(`${candidate.openTasks} open task${candidate.openTasks === 1 ? '' : 's'}`);
+
+    const proximityScore = proximity(task.location, candidate.location);
+    if (proximityScore === 1) {
+      reasons.push('Working on the same floor');
+    } else if (proximityScore > 0) {
+      reasons.push('Working in the same building');
+    }
+
+    const score =
+      skillScore * rule.skillWeight +
+      (speaksLanguage ? 1 : 0) * rule.languageWeight +
+      workloadScore * rule.workloadWeight +
+      proximityScore * rule.proximityWeight;
+
+    return {
+      userId: candidate.userId,
+      name: candidate.name,
+      score: Math.round(score * 100) / 100,
+      reasons,
+      excludedBecause: exclusionReason(task, candidate, rule),
+      openTasks: candidate.openTasks,
+    };
+  });
+
+  return scored
+    .sort(
+      (a, b) =>
+        Number(a.excludedBecause !== null) - Number(b.excludedBecause !== null) ||
+        b.score - a.score ||
+        a.openTasks - b.openTasks ||
+        a.name.localeCompare(b.name),
+    )
+    .map(({ openTasks: _openTasks, ...candidate }) => candidate);
+}
+
+export function chooseAssignee(
+  task: AssignmentTaskProfile,
+  candidates: AssignmentCandidate[],
+  rule: AssignmentRuleSettings,
+  now: Date = new Date(),
+): AssignmentDecision {
+  const ranked = rankCandidates(task, candidates, rule);
+  const best = ranked[0] && ranked[0].excludedBecause === null ? ranked[0] : null;
+
+  return {
+    assignedToId: best?.userId ?? null,
+    summary: best
+      ? `Assigned to ${best.name} (score ${best.score}): ${best.reasons.join('; ')}`
+      : candidates.length > 0
+        ? 'Nobody in the department is eligible; left unassigned'
+        : 'The department has no staff; left unassigned',
+    decidedAt: now.toISOString(),
+    candidates: ranked,
+  };
+}
+
+/**
+ * Candidates from the department's staff. Each person is located at the unit
+ * they are working on, or else at the last one they finished today; recent
+ * tasks are expected newest first.
+ */
+export function assignmentCandidates(
+  staff: AssignmentStaff[],
+  openTasksByUser: Map<string, number>,
+  onLeaveIds: Set<string>,
+  recentTasks: RecentAssignment[],
+): AssignmentCandidate[] {
+  const locationByUser = new Map<string, UnitLocation>();
+  for (const recent of [...recentTasks].sort(
+    (a, b) => Number(b.status === 'IN_PROGRESS') - Number(a.status === 'IN_PROGRESS'),
+  )) {
+    if (recent.assignedToId && recent.unit && !locationByUser.has(recent.assignedToId)) {
+      locationByUser.set(recent.assignedToId, recent.unit);
+    }
+  }
+
+  return staff.map((user) => ({
+    userId: user.id,
+    name: `${user.firstName} ${user.lastName}`,
+    onDuty: user.dutyStartedAt !== null,
+    onLeave: onLeaveIds.has(user.id),
+    skills: user.skills,
+    languages: user.languages,
+    openTasks: openTasksByUser.get(user.id) ?? 0,
+    location: locationByUser.get(user.id) ?? null,
+  }));
+}
@@ -0,0 +1,53 @@
+import { escalatedPriority, slaBreaches, slaDeadlines, unescalatedBreaches } from './task-sla';
+
+describe('task SLAs', () => {
+  const createdAt = new Date('2025-06-10T08:00:00Z');
+
+  it('sets deadlines from the policy, or none without one', () => {
+    expect(slaDeadlines({ responseMinutes: 15, resolutionMinutes: 120 }, createdAt)).toEqual({
+      responseDueAt: new Date('2025-06-10T08:15:00Z'),
+      resolutionDueAt: new Date('2025-06-10T10:00:00Z'),
+    });
+    expect(slaDeadlines(null, createdAt)).toEqual({ responseDueAt: null, resolutionDueAt: null });
+  });
+
+  it('reports response and resolution breaches of open tasks', () => {
+    const task = {
+      status: 'PENDING' as const,
+      startedAt: null,
+      responseDueAt: new Date('2025-06-10T08:15:00Z'),
+      resolutionDueAt: new Date('2025-06-10T10:00:00Z'),
+    };
+
+    expect(slaBreaches(task, new Date('2025-06-10T08:10:00Z'))).toEqual([]);
+    expect(slaBreaches(task, new Date('2025-06-10T08:30:00Z'))).toEqual(['response']);
+    expect(slaBreaches(task, new Date('2025-06-10T11:00:00Z'))).toEqual(['response', 'resolution']);
+    expect(
+      slaBreaches(
+        { ...task, status: 'IN_PROGRESS' as const, startedAt: new Date('2025-06-10T08:20:00Z') },
+        new Date('2025-06-10T11:00:00Z'),
+      ),
+    ).toEqual(['resolution']);
+    expect(slaBreaches({ ...task, status: 'ON_HOLD' as const }, new Date('2025-06-10T11:00:00Z'))).toEqual([]);
+  });
+
+  it('escalates each breach once', () => {
+    const task = {
+      status: 'PENDING' as const,
+      startedAt: null,
+      responseDueAt: new Date('2025-06-10T08:15:00Z'),
+      resolutionDueAt: new Date('2025-06-10T10:00:00Z'),
+      responseEscalatedAt: new Date('2025-06-10T08:20:00Z'),
+      resolutionEscalatedAt: null,
+    };
+
+    expect(unescalatedBreaches(task, new Date('2025-06-10T08:30:00Z'))).toEqual([]);
+    expect(unescalatedBreaches(task, new Date('2025-06-10T11:00:00Z'))).toEqual(['resolution']);
+  });
+
+  it('raises the priority one step per breach, up to urgent', () => {
+    expect(escalatedPriority('LOW', 1)).toBe('MEDIUM');
+    expect(escalatedPriority('MEDIUM', 2)).toBe('URGENT');
+    expect(escalatedPriority('HIGH', 2)).toBe('URGENT');
+  });
+});
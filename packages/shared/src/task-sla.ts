@@ -0,0 +1,70 @@
+/** Mirrors of the Prisma enums the SLA rules depend on */
+export type TaskStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED' | 'ON_HOLD';
+export type TaskPriority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+
+export type SlaBreach = 'response' | 'resolution';
+
+export interface SlaDeadlines {
+  responseDueAt: Date | null;
+  resolutionDueAt: Date | null;
+}
+
+export interface SlaTracked {
+  status: TaskStatus;
+  startedAt: Date | null;
+  responseDueAt: Date | null;
+  resolutionDueAt: Date | null;
+}
+
+export interface SlaEscalated extends SlaTracked {
+  responseEscalatedAt: Date | null;
+  resolutionEscalatedAt: Date | null;
+}
+
+// On-hold tasks are waiting on something outside the team and do not breach
+const SLA_TRACKED_STATUSES: TaskStatus[] = ['PENDING', 'IN_PROGRESS'];
+
+const PRIORITY_LADDER: TaskPriority[] = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'];
+
+export function slaDeadlines(
+  policy: { responseMinutes: number; resolutionMinutes: number } | null,
+  from: Date,
+): SlaDeadlines {
+  if (!policy) {
+    return { responseDueAt: null, resolutionDueAt: null };
+  }
+
+  return {
+    responseDueAt: new Date(from.getTime() + policy.responseMinutes * 60 * 1000),
+    resolutionDueAt: new Date(from.getTime() + policy.resolutionMinutes * 60 * 1000),
+  };
+}
+
+/** A task breaches response while nobody has started it, and resolution while it is still open */
+export function slaBreaches(task: SlaTracked, now: Date): SlaBreach[] {
+  if (!SLA_TRACKED_STATUSES.includes(task.status)) {
+    return [];
+  }
+
+  const breaches: SlaBreach[] = [];
+  if (!task.startedAt && task.responseDueAt && task.responseDueAt <= now) {
+    breaches.push('response');
+  }
+  if (task.resolutionDueAt && task.resolutionDueAt <= now) {
+    breaches.push('resolution');
+  }
+  return breaches;
+}
+
+/** Breaches that have not been escalated yet; each one is escalated once */
+export function unescalatedBreaches(task: SlaEscalated, now: Date): SlaBreach[] {
+  return slaBreaches(task, now).filter((breach) =>
+    breach === 'response' ? !task.responseEscalatedAt : !task.resolutionEscalatedAt,
+  );
+}
+
+/** One step up per breach; urgent tasks stay urgent */
+export function escalatedPriority(priority: TaskPriority, steps: number): TaskPriority {
+  const index = PRIORITY_LADDER.indexOf(priority);
+  return PRIORITY_LADDER[Math.min(index + steps, PRIORITY_LADDER.length - 1)];
+}
@@ -0,0 +1,32 @@
+import { UNIT_BLOCK_STATUS, nextBlockTransition, rangesOverlap, statusAfterBlock } from './unit-block-schedule';
+
+describe('unit block schedule', () => {
+  const block = {
+    startDate: new Date('2025-07-01T00:00:00Z'),
+    endDate: new Date('2025-07-15T00:00:00Z'),
+    appliedAt: null,
+    releasedAt: null,
+  };
+
+  it('treats end dates as exclusive when checking overlaps', () => {
+    expect(rangesOverlap(block.startDate, block.endDate, new Date('2025-07-15'), new Date('2025-07-17'))).toBe(false);
+    expect(rangesOverlap(block.startDate, block.endDate, new Date('2025-06-28'), new Date('2025-07-02'))).toBe(true);
+    expect(rangesOverlap(block.startDate, block.endDate, new Date('2025-06-28'), new Date('2025-07-01'))).toBe(false);
+  });
+
+  it('applies blocks once they start and releases them once they end', () => {
+    expect(nextBlockTransition(block, new Date('2025-06-30T23:00:00Z'))).toBeNull();
+    expect(nextBlockTransition(block, new Date('2025-07-01T00:00:00Z'))).toBe('apply');
+    expect(nextBlockTransition({ ...block, appliedAt: new Date('2025-07-01') }, new Date('2025-07-10'))).toBeNull();
+    expect(nextBlockTransition({ ...block, appliedAt: new Date('2025-07-01') }, new Date('2025-07-15'))).toBe('release');
+    expect(nextBlockTransition(block, new Date('2025-07-20'))).toBe('release');
+    expect(nextBlockTransition({ ...block, releasedAt: new Date('2025-07-05') }, new Date('2025-07-20'))).toBeNull();
+  });
+
+  it('maps block types to unit statuses and hands uninspected rooms to housekeeping', () => {
+    expect(UNIT_BLOCK_STATUS['OUT_OF_ORDER']).toBe('OUT_OF_ORDER');
+    expect(UNIT_BLOCK_STATUS['OUT_OF_SERVICE']).toBe('MAINTENANCE');
+    expect(statusAfterBlock('INSPECTED')).toBe('AVAILABLE');
+    expect(statusAfterBlock('DIRTY')).toBe('CLEANING');
+  });
+});
@@ -0,0 +1,52 @@
+/** Mirrors of the Prisma enums the block rules depend on */
+export type UnitBlockType = 'OUT_OF_ORDER' | 'OUT_OF_SERVICE' | 'OWNER_USE';
+export type UnitStatus = 'AVAILABLE' | 'OCCUPIED' | 'MAINTENANCE' | 'CLEANING' | 'OUT_OF_ORDER' | 'RESERVED';
+export type HousekeepingStatus = 'DIRTY' | 'CLEANING' | 'CLEAN' | 'INSPECTED';
+
+export interface ScheduledBlock {
+  startDate: Date;
+  endDate: Date;
+  appliedAt: Date | null;
+  releasedAt: Date | null;
+}
+
+export type BlockTransition = 'apply' | 'release' | null;
+
+/** Unit.status while a block of each type is running */
+export const UNIT_BLOCK_STATUS: Record<UnitBlockType, UnitStatus> = {
+  OUT_OF_ORDER: 'OUT_OF_ORDER',
+  OUT_OF_SERVICE: 'MAINTENANCE',
+  OWNER_USE: 'RESERVED',
+};
+
+export function rangesOverlap(startA: Date, endA: Date, startB: Date, endB: Date): boolean {
+  return startA < endB && startB < endA;
+}
+
+/** Blocks still in force that take a unit off sale for part of [startDate, endDate) */
+export function overlappingBlocksWhere(
+  startDate: Date,
+  endDate: Date,
+): { releasedAt: null; startDate: { lt: Date }; endDate: { gt: Date } } {
+  return { releasedAt: null, startDate: { lt: endDate }, endDate: { gt: startDate } };
+}
+
+/**
+ * What the scheduler has to do with a block at `now`: switch the unit when the
+ * block starts, and hand it back when the block is over. Blocks that were
+ * never applied and are already over are simply released.
+ */
+export function nextBlockTransition(block: ScheduledBlock, now: Date): BlockTransition {
+  if (block.releasedAt) return null;
+  if (block.endDate <= now) return 'release';
+  if (!block.appliedAt && block.startDate <= now) return 'apply';
+  return null;
+}
+
+/**
+ * Status a unit returns to after a block. Rooms that were not inspected go
+ * through housekeeping first, which puts them back on sale after inspection.
+ */
+export function statusAfterBlock(housekeepingStatus: HousekeepingStatus): UnitStatus {
+  return housekeepingStatus === 'INSPECTED' ? 'AVAILABLE' : 'CLEANING';
+}